@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+/**
+ * Writes supabase/functions/_shared/icd10cmTable.ts from the CMS ICD-10-CM
+ * order file (icd10cm_order_<year>.txt in the code descriptions download at
+ * https://www.cms.gov/medicare/coding-billing/icd-10-codes).
+ *
+ *   node scripts/build-icd10cm-table.mjs path/to/icd10cm_order_2025.txt
+ *
+ * The order file is fixed width: order number, code without the dot, 0 for
+ * headers or 1 for codes valid for billing, short descriptor, long
+ * descriptor. The table keeps the code, the flag and the long descriptor.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const [source] = process.argv.slice(2);
+if (!source) {
+  console.error('Usage: node scripts/build-icd10cm-table.mjs <icd10cm_order_YYYY.txt>');
+  process.exit(1);
+}
+
+const year = basename(source).match(/(\d{4})/)?.[1];
+if (!year) {
+  console.error(`Can't read the fiscal year from ${basename(source)}`);
+  process.exit(1);
+}
+
+const rows = [];
+for (const line of readFileSync(source, 'latin1').split(/\r?\n/)) {
+  if (!line.trim()) continue;
+  const raw = line.slice(6, 13).trim();
+  const billable = line.slice(14, 15);
+  const descriptor = line.slice(77).trim();
+  if (!/^[A-Z]\d[0-9A-Z]{1,5}$/.test(raw) || !/^[01]$/.test(billable) || !descriptor) {
+    console.error(`Unexpected line: ${line}`);
+    process.exit(1);
+  }
+  const code = raw.length > 3 ? `${raw.slice(0, 3)}.${raw.slice(3)}` : raw;
+  rows.push(`${code} ${billable} ${descriptor.replace(/[`\\]|\$\{/g, match => `\\${match}`)}`);
+}
+
+const out = resolve(dirname(fileURLToPath(import.meta.url)), '../supabase/functions/_shared/icd10cmTable.ts');
+writeFileSync(out, `/**
+ * Bundled ICD-10-CM table: every code of the FY${year} tabular list, with its
+ * category and subcategory headers.
+ *
+ * Generated by scripts/build-icd10cm-table.mjs from the CMS order file; don't
+ * edit by hand. One code per line, "<code> <billable> <descriptor>", where
+ * billable is 1 for codes valid for billing and 0 for headers.
+ */
+
+export const ICD10CM_VERSION = 'FY${year}';
+
+export const ICD10CM_TABLE = \`
+${rows.join('\n')}
+\`;
+`);
+
+console.log(`Wrote ${rows.length} codes (FY${year}) to ${out}`);
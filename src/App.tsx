@@ -11,6 +11,8 @@ import NotFound from "./pages/NotFound";
 
 // Lazy load heavy components
 const Tasks = lazy(() => import("./pages/Tasks"));
+const Patients = lazy(() => import("./pages/Patients"));
+const PatientChart = lazy(() => import("./pages/PatientChart"));
 const Templates = lazy(() => import("./pages/Templates"));
 const Community = lazy(() => import("./pages/Community"));
 const Team = lazy(() => import("./pages/Team"));
@@ -56,6 +58,8 @@ const App = () => (
               <Route path="/session/:id/review" element={<Index />} />
               <Route path="/sessions" element={<Index />} />
               <Route path="/tasks" element={<Tasks />} />
+              <Route path="/patients" element={<Patients />} />
+              <Route path="/patients/:id" element={<PatientChart />} />
               <Route path="/templates" element={<Templates />} />
               <Route path="/community" element={<Community />} />
               <Route path="/team" element={<Team />} />
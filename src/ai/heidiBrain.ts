@@ -4,7 +4,13 @@ import { buildTaskExtractionPrompt, taskExtractionToolDefinition, TaskExtraction
 import { buildCodeSuggestionPrompt, CodeSuggestionContext } from './prompts/codeSuggestion';
 import { buildEncounterSummaryPrompt, EncounterSummaryContext } from './prompts/encounterSummary';
 import { buildAskHeidiPrompt, AskHeidContext } from './prompts/askHeidi';
-import { getSessionContext, scrubPHI, validateAIOutput, estimateTokens } from '@/lib/contextManager';
+import { getSessionContext, validateAIOutput, estimateTokens, PRIOR_VISIT_TOKEN_BUDGET } from '@/lib/contextManager';
+import { deidentifyMessages, reidentifyValue, type KnownIdentifiers } from '@/lib/phiScrubber';
+import { createPseudonymizer, type Pseudonymizer } from '@/lib/pseudonymizer';
+import { createPartialNoteParser, readNoteEventStream, type NoteSections } from '@/lib/noteStream';
+import type { NoteEvidence } from '@/lib/noteEvidence';
+import { normalizeTemplateStructure, usesPriorVisits } from '@/lib/noteTemplates';
+import type { Json } from '@/integrations/supabase/types';
 
 const LOVABLE_AI_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
 
@@ -30,10 +36,43 @@ interface AICallOptions {
   temperature?: number;
   maxTokens?: number;
   logToDatabase?: boolean;
+  /** Identifiers known to be in the messages, scrubbed in addition to detected PHI */
+  phi?: KnownIdentifiers;
+  /** Swap identifiers for session surrogates instead of placeholder tokens */
+  pseudonymizer?: Pseudonymizer;
+}
+
+// One pseudonymizer per session keeps surrogates stable across AI calls. The
+// patient's identifiers are read on every call and the pseudonymizer rebuilt
+// when they change, so an edited name or MRN is scrubbed from the next call.
+const sessionPseudonymizers = new Map<string, { identifiers: string; pseudonymizer: Pseudonymizer }>();
+
+async function getSessionPseudonymizer(session_id: string): Promise<Pseudonymizer> {
+  const { data: session } = await supabase
+    .from('sessions')
+    .select('patient_name, patient_id, patient_dob')
+    .eq('id', session_id)
+    .maybeSingle();
+
+  const known: KnownIdentifiers = {
+    patient_name: session?.patient_name,
+    patient_id: session?.patient_id,
+    dob: session?.patient_dob,
+  };
+  const identifiers = JSON.stringify([known.patient_name, known.patient_id, known.dob]);
+
+  const cached = sessionPseudonymizers.get(session_id);
+  if (cached?.identifiers === identifiers) return cached.pseudonymizer;
+
+  const pseudonymizer = createPseudonymizer(session_id, known);
+  sessionPseudonymizers.set(session_id, { identifiers, pseudonymizer });
+  return pseudonymizer;
 }
 
 /**
- * Core AI call function with standardized error handling and logging
+ * Core AI call function with standardized error handling and logging.
+ * Messages are de-identified before they leave the browser and the response is
+ * re-identified locally, so neither the AI provider nor ai_logs see PHI.
  */
 async function callAI(
   messages: { role: string; content: string }[],
@@ -52,9 +91,14 @@ async function callAI(
       throw new Error('No active session');
     }
 
+    const { pseudonymizer } = options;
+    const { messages: scrubbedMessages, mapping } = pseudonymizer
+      ? { messages: messages.map(m => ({ ...m, content: pseudonymizer.pseudonymize(m.content) })), mapping: null }
+      : deidentifyMessages(messages, options.phi);
+
     const requestBody: any = {
       model: 'google/gemini-2.5-flash',
-      messages,
+      messages: scrubbedMessages,
       temperature: options.temperature || 0.3,
     };
 
@@ -97,7 +141,7 @@ async function callAI(
 
     // Log to ai_logs if enabled
     if (options.logToDatabase !== false && session.user) {
-      const inputText = messages.map(m => m.content).join(' ');
+      const inputText = scrubbedMessages.map(m => m.content).join(' ');
       const inputHash = await hashText(inputText.substring(0, 1000));
 
       await supabase.from('ai_logs').insert({
@@ -111,7 +155,7 @@ async function callAI(
       });
     }
 
-    return data;
+    return pseudonymizer ? pseudonymizer.rehydrateValue(data) : reidentifyValue(data, mapping);
   } catch (error) {
     const duration = Date.now() - startTime;
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -144,6 +188,80 @@ async function hashText(text: string): Promise<string> {
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('').substring(0, 16);
 }
 
+interface GenerateNoteResponse {
+  success: boolean;
+  note?: string;
+  note_json?: NoteSections;
+  provenance?: Record<string, unknown>;
+  evidence?: NoteEvidence;
+  warnings?: string[];
+  error?: { code?: string; message?: string };
+}
+
+export interface NoteGenerationStreamOptions {
+  /** Called with the sections written so far; switches generation to streaming */
+  onPartial?: (sections: NoteSections) => void;
+  /** Progress messages from the server, e.g. while the note is validated */
+  onStatus?: (message: string) => void;
+  /** Aborting stops the model; nothing is saved */
+  signal?: AbortSignal;
+}
+
+/**
+ * Stream a note from generate-note, re-hydrating sections as they arrive
+ */
+async function streamClinicalNote(
+  body: Record<string, unknown>,
+  pseudonymizer: Pseudonymizer,
+  options: NoteGenerationStreamOptions
+): Promise<GenerateNoteResponse> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('No active session');
+  }
+
+  const response = await fetch(`${LOVABLE_AI_URL}/generate-note`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal: options.signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error?.message || `Note generation failed: ${response.status}`);
+  }
+
+  const parser = createPartialNoteParser();
+  const data = await readNoteEventStream(response.body, (event) => {
+    if (event.type === 'delta') {
+      const sections = parser.push(event.content);
+      if (sections) options.onPartial?.(pseudonymizer.rehydrateValue(sections));
+    } else if (event.type === 'status') {
+      options.onStatus?.(event.message);
+    }
+  });
+  return { success: true, ...data } as GenerateNoteResponse;
+}
+
+/**
+ * Whether the template writes an interval history against earlier visits.
+ * Without a template the edge function writes a SOAP note, which doesn't.
+ */
+async function templateUsesPriorVisits(template_id?: string): Promise<boolean> {
+  if (!template_id) return false;
+  const { data } = await supabase
+    .from('templates')
+    .select('structure')
+    .eq('id', template_id)
+    .maybeSingle();
+  const schema = data ? normalizeTemplateStructure(data.structure) : null;
+  return !!schema && usesPriorVisits(schema.sections);
+}
+
 /**
  * Generate clinical note from transcript
  */
@@ -151,31 +269,61 @@ export async function generateClinicalNote(
   session_id: string,
   transcript: string,
   detail_level: 'low' | 'medium' | 'high' = 'medium',
-  template_id?: string
+  template_id?: string,
+  streamOptions?: NoteGenerationStreamOptions
 ): Promise<{
   success: boolean;
   note?: string;
   note_json?: any;
+  evidence?: NoteEvidence | null;
   warnings?: string[];
   error?: string;
+  cancelled?: boolean;
 }> {
   try {
     if (!session_id || !transcript.trim()) {
       throw new Error('Session ID and transcript are required');
     }
 
-    const { data, error } = await supabase.functions.invoke('generate-note', {
-      body: {
-        session_id,
-        transcript_text: transcript,
-        detail_level,
-        template_id
-      }
-    });
+    // The edge function only sees surrogates; the note is re-hydrated and saved here
+    const pseudonymizer = await getSessionPseudonymizer(session_id);
+
+    // Saved segments the note's sentences are linked to as evidence
+    const { data: segments } = await supabase
+      .from('session_transcripts')
+      .select('id, speaker, text')
+      .eq('session_id', session_id)
+      .order('timestamp_offset', { ascending: true });
+
+    // Follow-up templates get the patient's earlier visits for the interval history
+    const context = await templateUsesPriorVisits(template_id)
+      ? await getSessionContext(session_id, { priorVisitTokens: PRIOR_VISIT_TOKEN_BUDGET })
+      : null;
+
+    const body = {
+      session_id,
+      transcript_text: pseudonymizer.pseudonymize(transcript),
+      transcript_segments: (segments || []).map(segment => ({
+        ...segment,
+        text: pseudonymizer.pseudonymize(segment.text),
+      })),
+      detail_level,
+      template_id,
+      prior_visits: context?.prior_visit_context ? pseudonymizer.pseudonymize(context.prior_visit_context) : undefined,
+      persist: false
+    };
 
-    if (error) {
-      console.error('Edge function error:', error);
-      throw error;
+    let data: GenerateNoteResponse | null;
+    if (streamOptions?.onPartial) {
+      data = await streamClinicalNote(body, pseudonymizer, streamOptions);
+    } else {
+      const { data: invokeData, error } = await supabase.functions.invoke('generate-note', { body });
+
+      if (error) {
+        console.error('Edge function error:', error);
+        throw error;
+      }
+      data = invokeData;
     }
 
     if (!data) {
@@ -186,13 +334,36 @@ export async function generateClinicalNote(
       throw new Error(data.error?.message || 'Note generation failed');
     }
 
+    const note = pseudonymizer.rehydrate(data.note || '');
+    const note_json = pseudonymizer.rehydrateValue(data.note_json || {});
+    const evidence = data.evidence ? pseudonymizer.rehydrateValue(data.evidence) : null;
+
+    const { error: saveError } = await supabase
+      .from('sessions')
+      .update({
+        generated_note: note,
+        note_json,
+        note_provenance: data.provenance,
+        note_evidence: evidence as unknown as Json,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', session_id);
+
+    if (saveError) {
+      throw saveError;
+    }
+
     return {
       success: true,
-      note: data.note,
-      note_json: data.note_json,
+      note,
+      note_json,
+      evidence,
       warnings: data.warnings || []
     };
   } catch (error) {
+    if (streamOptions?.signal?.aborted) {
+      return { success: false, cancelled: true, error: 'Note generation cancelled' };
+    }
     console.error('Error in generateClinicalNote:', error);
     return {
       success: false,
@@ -218,10 +389,13 @@ export async function extractTasks(
       throw new Error('Session ID and note text are required');
     }
 
+    const pseudonymizer = await getSessionPseudonymizer(session_id);
+
     const { data, error } = await supabase.functions.invoke('extract-tasks', {
       body: {
         session_id,
-        note_text
+        note_text: pseudonymizer.pseudonymize(note_text),
+        persist: false
       }
     });
 
@@ -238,9 +412,29 @@ export async function extractTasks(
       throw new Error(data.error?.message || 'Task extraction failed');
     }
 
+    const tasks = pseudonymizer.rehydrateValue(data.tasks || []);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user && tasks.length > 0) {
+      const { error: insertError } = await supabase.from('tasks').insert(
+        tasks.map((task: { title: string; description?: string; priority?: string; category?: string }) => ({
+          user_id: user.id,
+          session_id,
+          title: task.title,
+          description: task.description || '',
+          priority: task.priority || 'medium',
+          category: task.category || 'general',
+          status: 'pending',
+        }))
+      );
+      if (insertError) {
+        throw insertError;
+      }
+    }
+
     return {
       success: true,
-      tasks: data.tasks || [],
+      tasks,
       warnings: []
     };
   } catch (error) {
@@ -270,11 +464,14 @@ export async function suggestCodes(
       throw new Error('Session ID and note text are required');
     }
 
+    const pseudonymizer = await getSessionPseudonymizer(session_id);
+
     const { data, error } = await supabase.functions.invoke('suggest-codes', {
       body: {
         session_id,
-        note_text,
-        region
+        note_text: pseudonymizer.pseudonymize(note_text),
+        region,
+        persist: false
       }
     });
 
@@ -291,10 +488,24 @@ export async function suggestCodes(
       throw new Error(data.error?.message || 'Code suggestion failed');
     }
 
+    const codes = pseudonymizer.rehydrateValue(data.codes || []);
+
+    await supabase
+      .from('sessions')
+      .update({
+        clinical_codes: { suggested: codes, confirmed: [] },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', session_id);
+
+    const rejected: { code: string; reason: string }[] = data.rejected_codes || [];
+
     return {
       success: true,
-      codes: data.codes || [],
-      warnings: []
+      codes,
+      warnings: rejected.map(c => c.reason === 'not_billable'
+        ? `${c.code} is a non-billable header code and was dropped`
+        : `${c.code} is not an ICD-10-CM code and was dropped`)
     };
   } catch (error) {
     console.error('Error in suggestCodes:', error);
@@ -338,6 +549,7 @@ export async function summarizeEncounter(
         session_id,
         temperature: TEMPERATURE_PRESETS.summary,
         maxTokens: MAX_TOKENS.summary,
+        pseudonymizer: await getSessionPseudonymizer(session_id),
       }
     );
 
@@ -387,11 +599,15 @@ export async function askHeidiAssistant(
       throw new Error('Question is required');
     }
 
+    const pseudonymizer = session_id
+      ? await getSessionPseudonymizer(session_id)
+      : createPseudonymizer(crypto.randomUUID());
+
     const { data, error } = await supabase.functions.invoke('ask-heidi', {
       body: {
-        question: question.trim(),
+        question: pseudonymizer.pseudonymize(question.trim()),
         session_id,
-        context_snippet
+        context_snippet: context_snippet ? pseudonymizer.pseudonymize(context_snippet) : context_snippet
       }
     });
 
@@ -410,7 +626,7 @@ export async function askHeidiAssistant(
 
     return {
       success: true,
-      answer: data.answer,
+      answer: pseudonymizer.rehydrate(data.answer),
       citations: data.citations || [],
       warnings: []
     };
@@ -1,52 +1,25 @@
+import {
+  BUILT_IN_TEMPLATES,
+  buildPriorVisitGuidance,
+  buildTemplatePromptSpec,
+  resolveTemplateSections,
+  usesPriorVisits,
+  type BuiltInTemplateKey,
+  type NoteTemplateSchema,
+} from '@/lib/noteTemplates';
+
 export interface NoteGenerationContext {
   transcript: string;
-  template: 'soap' | 'hpi' | 'progress' | 'discharge';
+  /** A built-in layout, or a user template read from templates.structure */
+  template: BuiltInTemplateKey | { id?: string; name: string; schema: NoteTemplateSchema };
   detail_level: 'low' | 'medium' | 'high';
   language: string;
   patient_name?: string;
   specialty?: string;
+  /** The patient's earlier visits (see fitPriorVisits), for templates with an interval history */
+  prior_visits?: string;
 }
 
-const TEMPLATE_FORMATS = {
-  soap: {
-    name: 'SOAP Note',
-    structure: {
-      subjective: "Chief complaint, HPI, ROS, relevant history",
-      objective: "Vital signs, physical exam findings, test results",
-      assessment: "Diagnoses, clinical impressions, differential diagnoses",
-      plan: "Treatment plan, medications, follow-up, patient education, discharge instructions"
-    }
-  },
-  hpi: {
-    name: 'HPI + Assessment + Plan',
-    structure: {
-      hpi: "History of Present Illness with timeline, relevant positives and negatives",
-      physical_exam: "Physical examination findings organized by system",
-      assessment: "Clinical assessment, probable diagnosis, differential diagnoses",
-      plan: "Diagnostic workup, treatment plan, medications, referrals, patient education"
-    }
-  },
-  progress: {
-    name: 'Progress Note',
-    structure: {
-      interval_history: "Changes since last visit, response to treatment",
-      current_status: "Current symptoms, vital signs, functional status",
-      assessment: "Updated clinical assessment",
-      plan: "Changes to treatment plan, new orders, follow-up"
-    }
-  },
-  discharge: {
-    name: 'Discharge Summary',
-    structure: {
-      admission_diagnosis: "Reason for admission",
-      hospital_course: "Summary of hospital stay, procedures, complications",
-      discharge_diagnosis: "Final diagnoses",
-      discharge_medications: "Medication list with instructions",
-      follow_up: "Follow-up appointments, recommendations, patient instructions"
-    }
-  }
-};
-
 export const buildNoteGenerationPrompt = (context: NoteGenerationContext): { system: string; user: string } => {
   const detailInstructions = {
     low: 'Be concise. Focus only on key findings and essential clinical information.',
@@ -54,10 +27,11 @@ export const buildNoteGenerationPrompt = (context: NoteGenerationContext): { sys
     high: 'Be comprehensive. Include detailed observations, relevant negatives, and thorough documentation.'
   };
 
-  const template = TEMPLATE_FORMATS[context.template];
-  const sections = Object.entries(template.structure)
-    .map(([key, desc]) => `    "${key}": "${desc}"`)
-    .join(',\n');
+  const template = typeof context.template === 'string' ? BUILT_IN_TEMPLATES[context.template] : context.template;
+  const templateId = typeof context.template === 'string' ? context.template : context.template.id || 'custom';
+  const templateSections = resolveTemplateSections(template.schema, { transcript: context.transcript, detail_level: context.detail_level });
+  const { guidance, jsonShape: sections } = buildTemplatePromptSpec(templateSections, template.schema.instructions);
+  const priorVisits = usesPriorVisits(templateSections) ? context.prior_visits?.trim() : '';
 
   const system = `You are an expert medical scribe assistant. Generate a structured clinical note using the ${template.name} format.
 
@@ -71,6 +45,10 @@ CRITICAL REQUIREMENTS:
 - Output language: ${context.language}
 - Preserve all clinical details, measurements, and medications mentioned
 
+${guidance}
+${priorVisits ? `
+${buildPriorVisitGuidance(priorVisits)}
+` : ''}
 MULTILINGUAL SUPPORT:
 - If the transcript is in Kannada (ಕನ್ನಡ), generate the clinical note in Kannada
 - If the transcript is in English, generate the note in English
@@ -80,7 +58,7 @@ MULTILINGUAL SUPPORT:
 OUTPUT FORMAT:
 Return a valid JSON object with this exact structure:
 {
-  "template": "${context.template}",
+  "template": "${templateId}",
   "sections": {
 ${sections}
   },
@@ -89,7 +67,7 @@ ${sections}
 
 IMPORTANT:
 - Each section must be complete and clinically accurate
-- Use bullet points or paragraphs as appropriate for readability
+- Use bullet points or prose exactly as each section's style specifies
 - Include specific measurements, dosages, and timeframes
 - Maintain professional medical documentation standards
 - Generate the note in the SAME LANGUAGE as the transcript`;
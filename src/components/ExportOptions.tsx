@@ -3,18 +3,35 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Copy, Download, Mail, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Copy, Download, Eye, FileJson, FileText, Mail, Loader2, Network, Send } from 'lucide-react';
 import { toast } from 'sonner';
-import { exportNote } from '@/lib/api';
+import { exportNote, previewNoteExport, transmitNoteHl7 } from '@/lib/api';
 
 interface ExportOptionsProps {
   sessionId: string;
   noteContent: string;
 }
 
+const FORMAT_LABELS = {
+  pdf: 'PDF',
+  docx: 'Word document',
+  fhir: 'FHIR bundle',
+  hl7: 'HL7 message',
+} as const;
+
 export function ExportOptions({ sessionId, noteContent }: ExportOptionsProps) {
   const [email, setEmail] = useState('');
   const [isExporting, setIsExporting] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
 
   const handleCopyToClipboard = async () => {
     try {
@@ -26,30 +43,80 @@ export function ExportOptions({ sessionId, noteContent }: ExportOptionsProps) {
     }
   };
 
-  const handleDownloadPDF = async () => {
+  const handleDownload = async (format: keyof typeof FORMAT_LABELS) => {
+    const label = FORMAT_LABELS[format];
     try {
       setIsExporting(true);
-      console.log('Starting PDF export for session:', sessionId);
-      const result = await exportNote(sessionId, 'pdf');
+      console.log(`Starting ${label} export for session:`, sessionId);
+      const result = await exportNote(sessionId, format);
       console.log('Export result:', result);
       
       if (result.success && result.data?.url) {
         // Open in new tab for download
         window.open(result.data.url, '_blank');
-        toast.success('Note exported as PDF');
+        toast.success(`Note exported as ${label}`);
+        result.data.warnings?.forEach((warning: string) => toast.warning(warning));
       } else {
         const errorMsg = result.error?.message || 'Export failed';
         console.error('Export error:', errorMsg);
         toast.error(errorMsg);
       }
     } catch (error) {
-      console.error('PDF export exception:', error);
-      toast.error('Failed to export PDF: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      console.error(`${label} export exception:`, error);
+      toast.error(`Failed to export ${label}: ` + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleTransmitHl7 = async () => {
+    try {
+      setIsExporting(true);
+      const result = await transmitNoteHl7(sessionId);
+
+      if (result.success && result.data?.ack) {
+        const { ack } = result.data;
+        if (ack.code === 'AA' || ack.code === 'CA') {
+          toast.success('HL7 message accepted by receiving system');
+        } else {
+          toast.error(`HL7 message rejected (${ack.code})${ack.text ? `: ${ack.text}` : ''}`);
+        }
+      } else {
+        toast.error(result.error?.message || 'HL7 transmission failed');
+      }
+    } catch (error) {
+      console.error('HL7 transmission exception:', error);
+      toast.error('Failed to send HL7 message: ' + (error instanceof Error ? error.message : 'Unknown error'));
     } finally {
       setIsExporting(false);
     }
   };
 
+  const handlePreviewPDF = async () => {
+    try {
+      setIsPreviewing(true);
+      const result = await previewNoteExport(sessionId);
+
+      if (result.success && result.data?.content_base64) {
+        const bytes = Uint8Array.from(atob(result.data.content_base64), c => c.charCodeAt(0));
+        const blob = new Blob([bytes], { type: result.data.content_type });
+        setPreviewUrl(URL.createObjectURL(blob));
+      } else {
+        toast.error(result.error?.message || 'Preview failed');
+      }
+    } catch (error) {
+      console.error('PDF preview exception:', error);
+      toast.error('Failed to preview PDF: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const closePreview = () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+    setPreviewUrl(null);
+  };
+
   const handleEmailExport = async () => {
     if (!email.trim()) {
       toast.error('Please enter an email address');
@@ -97,7 +164,21 @@ export function ExportOptions({ sessionId, noteContent }: ExportOptionsProps) {
         <Button 
           variant="outline" 
           className="w-full justify-start"
-          onClick={handleDownloadPDF}
+          onClick={handlePreviewPDF}
+          disabled={isPreviewing || isExporting}
+        >
+          {isPreviewing ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Eye className="mr-2 h-4 w-4" />
+          )}
+          Preview PDF
+        </Button>
+
+        <Button 
+          variant="outline" 
+          className="w-full justify-start"
+          onClick={() => handleDownload('pdf')}
           disabled={isExporting}
         >
           {isExporting ? (
@@ -108,6 +189,62 @@ export function ExportOptions({ sessionId, noteContent }: ExportOptionsProps) {
           Download PDF
         </Button>
 
+        <Button 
+          variant="outline" 
+          className="w-full justify-start"
+          onClick={() => handleDownload('docx')}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <FileText className="mr-2 h-4 w-4" />
+          )}
+          Download Word (.docx)
+        </Button>
+
+        <Button 
+          variant="outline" 
+          className="w-full justify-start"
+          onClick={() => handleDownload('fhir')}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <FileJson className="mr-2 h-4 w-4" />
+          )}
+          Export FHIR R4 Bundle
+        </Button>
+
+        <Button 
+          variant="outline" 
+          className="w-full justify-start"
+          onClick={() => handleDownload('hl7')}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Network className="mr-2 h-4 w-4" />
+          )}
+          Download HL7 v2 (MDM^T02)
+        </Button>
+
+        <Button 
+          variant="outline" 
+          className="w-full justify-start"
+          onClick={handleTransmitHl7}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Send className="mr-2 h-4 w-4" />
+          )}
+          Send to Hospital via HL7
+        </Button>
+
         <div className="space-y-2">
           <Label htmlFor="email">Email Export</Label>
           <div className="flex gap-2">
@@ -135,6 +272,41 @@ export function ExportOptions({ sessionId, noteContent }: ExportOptionsProps) {
           AI-generated content. Verify accuracy before clinical use.
         </p>
       </CardContent>
+
+      <Dialog open={!!previewUrl} onOpenChange={(open) => !open && closePreview()}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>PDF Preview</DialogTitle>
+            <DialogDescription>Review the document before downloading</DialogDescription>
+          </DialogHeader>
+          {previewUrl && (
+            <iframe
+              src={previewUrl}
+              title="Clinical note PDF preview"
+              className="w-full h-[70vh] rounded-md border"
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={closePreview}>
+              Close
+            </Button>
+            <Button
+              onClick={async () => {
+                await handleDownload('pdf');
+                closePreview();
+              }}
+              disabled={isExporting}
+            >
+              {isExporting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Download PDF
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
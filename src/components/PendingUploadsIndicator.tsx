@@ -0,0 +1,142 @@
+import { CloudOff, CloudUpload, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useRecordingQueue } from "@/hooks/useRecordingQueue";
+import type { QueuedRecording } from "@/lib/recordingQueue";
+
+const STATUS_LABELS: Record<QueuedRecording['status'], string> = {
+  recording: 'Recording',
+  pending: 'Waiting to upload',
+  uploading: 'Uploading',
+  transcribing: 'Transcribing',
+  failed: 'Failed',
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const formatLength = (recording: QueuedRecording) => {
+  const seconds = Math.round(((recording.stoppedAt ?? recording.updatedAt) - recording.startedAt) / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * Recordings saved on this device that have not reached the server yet.
+ * Hidden while the queue is empty and the browser is online.
+ */
+export function PendingUploadsIndicator() {
+  const { recordings, pendingCount, isOnline, syncNow, retry, discard } = useRecordingQueue();
+
+  if (recordings.length === 0 && isOnline) return null;
+
+  const busy = recordings.some(r => r.status === 'uploading' || r.status === 'transcribing');
+
+  return (
+    <div className="fixed bottom-24 right-4 z-40">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="shadow-md bg-background gap-2">
+            {!isOnline ? (
+              <CloudOff className="h-4 w-4 text-destructive" />
+            ) : busy ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <CloudUpload className="h-4 w-4" />
+            )}
+            {isOnline ? 'Pending uploads' : 'Offline'}
+            {pendingCount > 0 && <Badge variant="secondary">{pendingCount}</Badge>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-96 p-0">
+          <div className="flex items-center justify-between border-b px-4 py-3">
+            <div>
+              <p className="text-sm font-medium">Recordings on this device</p>
+              <p className="text-xs text-muted-foreground">
+                {isOnline
+                  ? 'Uploaded and transcribed automatically'
+                  : 'You are offline. Recording continues and uploads when you reconnect.'}
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => syncNow()} disabled={!isOnline || pendingCount === 0}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+          <ScrollArea className="max-h-80">
+            {recordings.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-muted-foreground">Nothing waiting to upload</p>
+            ) : (
+              <ul className="divide-y">
+                {recordings.map(recording => (
+                  <li key={recording.id} className="px-4 py-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <Link to={`/session/${recording.sessionId}/record`} className="text-sm font-medium hover:underline">
+                        {formatLength(recording)} recorded {formatDistanceToNow(recording.startedAt, { addSuffix: true })}
+                      </Link>
+                      <Badge variant={recording.status === 'failed' ? 'destructive' : 'outline'}>
+                        {STATUS_LABELS[recording.status]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatSize(recording.bytes)}
+                      {recording.needsTranscription && ' · will be transcribed'}
+                      {recording.attempts > 0 && ` · ${recording.attempts} failed attempt${recording.attempts === 1 ? '' : 's'}`}
+                    </p>
+                    {recording.lastError && recording.status === 'failed' && (
+                      <p className="text-xs text-destructive">{recording.lastError}</p>
+                    )}
+                    {recording.status === 'failed' && (
+                      <div className="flex gap-2 pt-1">
+                        <Button variant="outline" size="sm" className="h-7" onClick={() => retry(recording.id)} disabled={!isOnline}>
+                          Retry now
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" className="h-7 text-destructive">
+                              <Trash2 className="h-3 w-3 mr-1" />
+                              Discard
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Discard this recording?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The audio has not been uploaded. Discarding deletes it from this device permanently.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Keep</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => discard(recording.id)}>Discard</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ScrollArea>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Gauge, Save } from 'lucide-react';
+import { useTeamBudgets, useUpdateTeamBudget, type TeamBudgetUsage } from '@/hooks/useTeamBudgets';
+
+/** Empty input = unlimited */
+const parseBudget = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+function UsageBar({ used, limit, unit }: { used: number; limit: number | null; unit: string }) {
+  const rounded = Math.round(used * 10) / 10;
+  if (limit === null) {
+    return <p className="text-xs text-muted-foreground">{rounded} {unit} this month · unlimited</p>;
+  }
+  const percent = limit > 0 ? Math.min(100, (used / limit) * 100) : 100;
+  return (
+    <div className="space-y-1">
+      <Progress value={percent} className="h-2" />
+      <p className={`text-xs ${percent >= 100 ? 'text-destructive' : 'text-muted-foreground'}`}>
+        {rounded} of {limit} {unit} this month
+      </p>
+    </div>
+  );
+}
+
+function TeamBudgetRow({ team }: { team: TeamBudgetUsage }) {
+  const updateBudget = useUpdateTeamBudget();
+  const [aiRequests, setAiRequests] = useState(team.monthly_ai_requests?.toString() ?? '');
+  const [minutes, setMinutes] = useState(team.monthly_transcription_minutes?.toString() ?? '');
+
+  const aiValue = parseBudget(aiRequests);
+  const minutesValue = parseBudget(minutes);
+  const changed = aiValue !== team.monthly_ai_requests || minutesValue !== team.monthly_transcription_minutes;
+
+  const handleSave = () => {
+    updateBudget.mutate({
+      teamId: team.team_id,
+      monthly_ai_requests: aiValue === null ? null : Math.floor(aiValue),
+      monthly_transcription_minutes: minutesValue,
+    });
+  };
+
+  return (
+    <div className="border-b pb-4 last:border-b-0 space-y-3">
+      <h3 className="font-medium">{team.team_name}</h3>
+      <div className="grid gap-4 md:grid-cols-[1fr_1fr_auto] items-end">
+        <div className="space-y-2">
+          <Label htmlFor={`ai-${team.team_id}`}>AI requests / month</Label>
+          <Input
+            id={`ai-${team.team_id}`}
+            type="number"
+            min={0}
+            step={1}
+            placeholder="Unlimited"
+            value={aiRequests}
+            onChange={(e) => setAiRequests(e.target.value)}
+          />
+          <UsageBar used={team.ai_requests_used} limit={team.monthly_ai_requests} unit="requests" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`minutes-${team.team_id}`}>Transcription minutes / month</Label>
+          <Input
+            id={`minutes-${team.team_id}`}
+            type="number"
+            min={0}
+            placeholder="Unlimited"
+            value={minutes}
+            onChange={(e) => setMinutes(e.target.value)}
+          />
+          <UsageBar used={team.transcription_minutes_used} limit={team.monthly_transcription_minutes} unit="minutes" />
+        </div>
+        <Button size="sm" onClick={handleSave} disabled={!changed || updateBudget.isPending} className="gap-2 self-start md:mt-8">
+          <Save className="h-4 w-4" />
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TeamBudgetsPanel() {
+  const { data: teams = [], isLoading } = useTeamBudgets();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Team Budgets
+        </CardTitle>
+        <CardDescription>
+          Monthly limits on AI requests and transcription minutes. Calls over budget are refused until the next month.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-24" />
+        ) : teams.length === 0 ? (
+          <p className="text-muted-foreground">No teams yet</p>
+        ) : (
+          teams.map((team) => <TeamBudgetRow key={team.team_id} team={team} />)
+        )}
+      </CardContent>
+    </Card>
+  );
+}
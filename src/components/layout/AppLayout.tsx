@@ -2,6 +2,7 @@ import { ReactNode } from "react";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "./AppSidebar";
 import { BreadcrumbNav } from "@/components/ui/breadcrumb-nav";
+import { PendingUploadsIndicator } from "@/components/PendingUploadsIndicator";
 import { motion } from "framer-motion";
 
 interface AppLayoutProps {
@@ -26,6 +27,7 @@ export function AppLayout({ children }: AppLayoutProps) {
             </motion.div>
           </main>
         </div>
+        <PendingUploadsIndicator />
       </div>
     </SidebarProvider>
   );
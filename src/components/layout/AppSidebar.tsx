@@ -23,7 +23,8 @@ import {
   Check,
   Trash2,
   Plus,
-  LayoutDashboard
+  LayoutDashboard,
+  Contact
 } from "lucide-react";
 import { NavLink, Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
@@ -64,6 +65,7 @@ import {
 const navigationItems = [
   { title: "Dashboard", url: "/dashboard", icon: LayoutDashboard },
   { title: "View sessions", url: "/sessions", icon: FolderOpen, hasChevron: true },
+  { title: "Patients", url: "/patients", icon: Contact },
   { title: "Tasks", url: "/tasks", icon: CheckSquare },
 ];
 
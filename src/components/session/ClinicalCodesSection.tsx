@@ -0,0 +1,132 @@
+import { useMemo, useState, type KeyboardEvent } from "react";
+import { Loader2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { searchIcd10, type Icd10Code } from "@/lib/icd10";
+import { useClinicalCodes, useUpdateClinicalCodes } from "@/hooks/useClinicalCodes";
+
+interface ClinicalCodesSectionProps {
+  sessionId: string;
+  readOnly?: boolean;
+}
+
+const MAX_RESULTS = 8;
+
+/**
+ * The session's diagnosis codes, with a typeahead over the bundled
+ * ICD-10-CM table for adding codes by code or description. Only billable
+ * codes can be added.
+ */
+export function ClinicalCodesSection({ sessionId, readOnly = false }: ClinicalCodesSectionProps) {
+  const { data: codes = [], isLoading } = useClinicalCodes(sessionId);
+  const updateCodes = useUpdateClinicalCodes();
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const results = useMemo(() => {
+    const existing = new Set(codes.map(c => c.code));
+    return searchIcd10(query, { limit: MAX_RESULTS, billableOnly: true }).filter(c => !existing.has(c.code));
+  }, [query, codes]);
+
+  const add = (code: Icd10Code) => {
+    updateCodes.mutate({ sessionId, add: code });
+    setQuery("");
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(idx => Math.min(idx + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(idx => Math.max(idx - 1, 0));
+    } else if (e.key === 'Enter' && results[highlighted]) {
+      e.preventDefault();
+      add(results[highlighted]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  if (readOnly && codes.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-xl font-bold text-foreground uppercase border-b-2 border-foreground/20 pb-2">
+        Diagnosis Codes
+      </h2>
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : codes.length === 0 ? (
+        <p className="text-sm text-muted-foreground print:hidden">No codes yet. Search below to add one.</p>
+      ) : (
+        <ul className="space-y-2">
+          {codes.map(code => (
+            <li key={code.code} className="flex items-center gap-3 text-base text-foreground">
+              <span className="font-mono font-semibold">{code.code}</span>
+              <span className="flex-1">{code.label}</span>
+              {code.source === 'manual' && (
+                <Badge variant="outline" className="text-xs print:hidden">Added</Badge>
+              )}
+              {!readOnly && (
+                <button
+                  onClick={() => updateCodes.mutate({ sessionId, remove: code.code })}
+                  disabled={updateCodes.isPending}
+                  className="text-muted-foreground hover:text-foreground print:hidden"
+                  title="Remove code"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {!readOnly && (
+        <div className="relative max-w-xl print:hidden">
+          <Input
+            placeholder="Add ICD-10-CM code: search by code or description"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setHighlighted(0);
+              setOpen(true);
+            }}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+            onKeyDown={handleKeyDown}
+            disabled={updateCodes.isPending}
+            className="h-9"
+          />
+          {open && query.trim() && (
+            <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+              {results.length === 0 ? (
+                <p className="px-2 py-3 text-sm text-muted-foreground text-center">No billable codes match</p>
+              ) : (
+                results.map((code, idx) => (
+                  <button
+                    key={code.code}
+                    // Keep focus in the input so blur doesn't close the list before the click lands
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => add(code)}
+                    onMouseEnter={() => setHighlighted(idx)}
+                    className={cn(
+                      "w-full text-left px-2 py-1.5 rounded flex gap-3 text-sm",
+                      idx === highlighted && "bg-accent"
+                    )}
+                  >
+                    <span className="font-mono font-semibold shrink-0">{code.code}</span>
+                    <span className="text-muted-foreground">{code.descriptor}</span>
+                  </button>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,16 @@
+import { Fragment, type ReactNode } from "react";
+import { AlertTriangle } from "lucide-react";
 import { Card } from "@/components/ui/card";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { cn } from "@/lib/utils";
+import { ClinicalCodesSection } from "./ClinicalCodesSection";
+import {
+  contentWords,
+  findSentenceEvidence,
+  splitSentences,
+  type EvidenceSegment,
+  type NoteEvidence,
+} from "@/lib/noteEvidence";
 
 interface NoteSection {
   [key: string]: string | any;
@@ -9,8 +21,18 @@ interface ClinicalNoteDisplayProps {
   plaintext?: string;
   templateId?: string;
   templateStructure?: NoteSection;
+  /** Transcript evidence from generation; without it sentences render as plain text */
+  evidence?: NoteEvidence | null;
+  /** Transcript segments the evidence refers to */
+  segments?: EvidenceSegment[];
+  /** Shows the session's diagnosis codes, with a typeahead to add them */
+  sessionId?: string;
+  /** Codes can't be added or removed, e.g. once the note is signed */
+  codesReadOnly?: boolean;
 }
 
+type RenderText = (text: string) => ReactNode;
+
 const formatSectionKey = (key: string): string => {
   return key
     .replace(/_/g, ' ')
@@ -19,14 +41,94 @@ const formatSectionKey = (key: string): string => {
     .join(' ');
 };
 
-const renderValue = (value: any, depth: number = 0): JSX.Element => {
+/**
+ * Segment text with the words it shares with the note sentence highlighted
+ */
+function HighlightedSegment({ segment, sentence }: { segment: EvidenceSegment; sentence: string }) {
+  const shared = contentWords(sentence);
+  return (
+    <p className="text-sm leading-relaxed">
+      <span className="font-medium capitalize">{segment.speaker}: </span>
+      {segment.text.split(/([\p{L}\p{N}]+)/u).map((part, idx) =>
+        shared.has(part.toLowerCase()) ? (
+          <mark key={idx} className="rounded-sm bg-primary/20 text-foreground">{part}</mark>
+        ) : (
+          <Fragment key={idx}>{part}</Fragment>
+        )
+      )}
+    </p>
+  );
+}
+
+/**
+ * A note sentence showing its source transcript on hover. Sentences with no
+ * supporting segment are underlined as possible hallucinations; sentences
+ * edited since generation have no evidence record and render as they are.
+ */
+function EvidenceSentence({
+  text,
+  section,
+  evidence,
+  segmentsById,
+}: {
+  text: string;
+  section: string;
+  evidence: NoteEvidence;
+  segmentsById: Map<string, EvidenceSegment>;
+}) {
+  const record = findSentenceEvidence(evidence, section, text);
+  if (!record) return <>{text}</>;
+
+  const unsupported = record.segment_ids.length === 0;
+  const sources = record.segment_ids
+    .map(id => segmentsById.get(id))
+    .filter((segment): segment is EvidenceSegment => !!segment);
+
+  return (
+    <HoverCard openDelay={150} closeDelay={50}>
+      <HoverCardTrigger asChild>
+        <span
+          className={cn(
+            "cursor-default rounded-sm transition-colors hover:bg-primary/10",
+            unsupported && "underline decoration-amber-500 decoration-wavy underline-offset-4 hover:bg-amber-500/10"
+          )}
+        >
+          {text}
+        </span>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-96 print:hidden" align="start">
+        {unsupported ? (
+          <p className="flex items-start gap-2 text-sm">
+            <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0 mt-0.5" />
+            No supporting transcript found. This may be a hallucination; check it before signing.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground uppercase">
+              Source transcript{record.source === 'overlap' ? ' (matched by wording)' : ''}
+            </p>
+            {sources.length > 0 ? (
+              sources.map(segment => <HighlightedSegment key={segment.id} segment={segment} sentence={text} />)
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Supported by {record.segment_ids.length} transcript segment{record.segment_ids.length === 1 ? '' : 's'}
+              </p>
+            )}
+          </div>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
+
+const renderValue = (value: any, depth: number = 0, renderText: RenderText = text => text): JSX.Element => {
   // Handle arrays as bullet points
   if (Array.isArray(value)) {
     return (
       <ul className="list-disc pl-6 space-y-2 mt-2">
         {value.map((item, idx) => (
           <li key={idx} className="text-base text-foreground leading-relaxed">
-            {typeof item === 'string' ? item : renderValue(item, depth + 1)}
+            {typeof item === 'string' ? renderText(item) : renderValue(item, depth + 1, renderText)}
           </li>
         ))}
       </ul>
@@ -44,11 +146,11 @@ const renderValue = (value: any, depth: number = 0): JSX.Element => {
             </span>{' '}
             {typeof subValue === 'string' ? (
               <span className="text-base text-foreground leading-relaxed">
-                {subValue}
+                {renderText(subValue)}
               </span>
             ) : (
               <div className="mt-1">
-                {renderValue(subValue, depth + 1)}
+                {renderValue(subValue, depth + 1, renderText)}
               </div>
             )}
           </div>
@@ -64,7 +166,7 @@ const renderValue = (value: any, depth: number = 0): JSX.Element => {
       <div className="space-y-2">
         {stringValue.split('\n').map((line, idx) => (
           <p key={idx} className="text-base text-foreground leading-relaxed">
-            {line}
+            {renderText(line)}
           </p>
         ))}
       </div>
@@ -73,7 +175,7 @@ const renderValue = (value: any, depth: number = 0): JSX.Element => {
 
   return (
     <p className="text-base text-foreground leading-relaxed">
-      {stringValue}
+      {renderText(stringValue)}
     </p>
   );
 };
@@ -82,15 +184,54 @@ export function ClinicalNoteDisplay({
   noteJson, 
   plaintext, 
   templateId,
-  templateStructure 
+  templateStructure,
+  evidence,
+  segments = [],
+  sessionId,
+  codesReadOnly = false,
 }: ClinicalNoteDisplayProps) {
   // If we have structured data, display it formatted
   if (noteJson && typeof noteJson === 'object' && Object.keys(noteJson).length > 0) {
     // Check if the noteJson has a 'sections' property (new format)
     const sections = (noteJson as any).sections || noteJson;
-    
+    const segmentsById = new Map(segments.map(segment => [segment.id, segment]));
+
+    const sectionText = (section: string): RenderText | undefined => {
+      if (!evidence) return undefined;
+      return (text: string) => {
+        const sentences = splitSentences(text);
+        return sentences.map((sentence, idx) => (
+          <Fragment key={idx}>
+            <EvidenceSentence text={sentence} section={section} evidence={evidence} segmentsById={segmentsById} />
+            {idx < sentences.length - 1 && ' '}
+          </Fragment>
+        ));
+      };
+    };
+
+    // Only sentences still in the note count; edited-out ones are gone
+    const unsupportedCount = evidence
+      ? Object.entries(sections).reduce((count, [key, value]) => {
+          const items = Array.isArray(value) ? value : [value];
+          return count + items
+            .filter((item): item is string => typeof item === 'string')
+            .flatMap(splitSentences)
+            .filter(sentence => findSentenceEvidence(evidence, key, sentence)?.segment_ids.length === 0)
+            .length;
+        }, 0)
+      : 0;
+
     return (
       <div className="bg-white p-8 rounded-lg space-y-8 print:p-0 print:bg-transparent">
+        {unsupportedCount > 0 && (
+          <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 print:hidden">
+            <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+            <span>
+              {unsupportedCount} sentence{unsupportedCount === 1 ? ' has' : 's have'} no supporting transcript and may be
+              hallucinated. They are underlined below; hover any sentence to see its source.
+            </span>
+          </div>
+        )}
         {Object.entries(sections).map(([key, value]) => {
           if (!value || key === 'template_id' || key === 'plaintext') return null;
           
@@ -102,11 +243,12 @@ export function ClinicalNoteDisplay({
                 {label}
               </h2>
               <div className="pl-0">
-                {renderValue(value)}
+                {renderValue(value, 0, sectionText(key))}
               </div>
             </div>
           );
         })}
+        {sessionId && <ClinicalCodesSection sessionId={sessionId} readOnly={codesReadOnly} />}
       </div>
     );
   }
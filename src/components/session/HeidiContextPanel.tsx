@@ -1,7 +1,10 @@
 import { useState, useRef } from "react";
-import { FileText, Loader2, Mic, ChevronDown, Undo, Redo, Paperclip, ArrowRight } from "lucide-react";
+import { FileText, Loader2, Mic, ChevronDown, Undo, Redo, Paperclip, ArrowRight, ShieldAlert, ShieldCheck, RefreshCw } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { SEVERITY_LABELS, type InteractionSeverity, type InteractionWarning } from "@/lib/drugInteractions";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import {
@@ -15,8 +18,20 @@ interface HeidiContextPanelProps {
   context: string;
   onContextChange: (text: string) => void;
   sessionId?: string;
+  /** Drug–allergy and drug–drug warnings for the session */
+  warnings?: InteractionWarning[];
+  /** Extract medications and allergies from the transcript and check again */
+  onCheckInteractions?: () => void;
+  isCheckingInteractions?: boolean;
 }
 
+const SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  contraindicated: "border-red-500/50 bg-red-50 text-red-900",
+  major: "border-orange-500/50 bg-orange-50 text-orange-900",
+  moderate: "border-amber-500/50 bg-amber-50 text-amber-900",
+  minor: "border-border bg-muted text-foreground",
+};
+
 interface UploadedFile {
   name: string;
   size: number;
@@ -27,6 +42,9 @@ export function HeidiContextPanel({
   context,
   onContextChange,
   sessionId,
+  warnings = [],
+  onCheckInteractions,
+  isCheckingInteractions = false,
 }: HeidiContextPanelProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
@@ -141,6 +159,43 @@ export function HeidiContextPanel({
         </DropdownMenu>
       </div>
 
+      {/* Interaction warnings */}
+      <div className="mb-4 space-y-2" data-testid="interaction-warnings">
+        <div className="flex items-center justify-between">
+          <p className="flex items-center gap-1.5 text-sm font-medium">
+            {warnings.length > 0
+              ? <ShieldAlert className="h-4 w-4 text-red-600" />
+              : <ShieldCheck className="h-4 w-4 text-muted-foreground" />}
+            {warnings.length > 0
+              ? `${warnings.length} medication warning${warnings.length === 1 ? '' : 's'}`
+              : 'No medication warnings'}
+          </p>
+          {onCheckInteractions && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 text-xs"
+              onClick={onCheckInteractions}
+              disabled={isCheckingInteractions}
+            >
+              {isCheckingInteractions ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+              Check medications
+            </Button>
+          )}
+        </div>
+        {warnings.map((warning) => (
+          <div key={warning.id} className={cn("flex items-start gap-2 rounded-lg border p-2 text-sm", SEVERITY_STYLES[warning.severity])}>
+            <Badge variant="outline" className="shrink-0 text-xs">{SEVERITY_LABELS[warning.severity]}</Badge>
+            <div className="min-w-0">
+              <p>{warning.message}</p>
+              {warning.sources.includes('note') && (
+                <p className="text-xs opacity-75">In the note</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
       {/* Context Text Area */}
       <div 
         className={`flex-1 rounded-xl p-4 transition-colors bg-white border shadow-sm ${
@@ -1,12 +1,13 @@
 import { useState, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Copy, Download, Mic, Undo, Redo, ChevronDown, MoreHorizontal, Loader2 } from "lucide-react";
+import { Copy, Download, Mic, Undo, Redo, ChevronDown, MoreHorizontal, Loader2, Lock } from "lucide-react";
 import { toast } from "sonner";
 import { ClinicalNoteDisplay } from "./ClinicalNoteDisplay";
 import { TemplateSelector } from "./TemplateSelector";
 import { useTemplates } from "@/hooks/useTemplates";
 import { exportNote } from "@/lib/api";
+import type { EvidenceSegment, NoteEvidence } from "@/lib/noteEvidence";
 import {
   Select,
   SelectContent,
@@ -26,7 +27,11 @@ interface HeidiNotePanelProps {
   onNoteChange: (text: string) => void;
   onGenerate: () => void;
   isGenerating: boolean;
+  /** Stops a generation in progress; sections already streamed are discarded */
+  onCancel?: () => void;
   sessionId?: string;
+  /** Signed notes are read-only and cannot be regenerated */
+  isLocked?: boolean;
   selectedTemplate?: string;
   onTemplateChange?: (value: string) => void;
   onUndo?: () => void;
@@ -34,6 +39,9 @@ interface HeidiNotePanelProps {
   canUndo?: boolean;
   canRedo?: boolean;
   noteJson?: any;
+  /** Transcript evidence per note sentence, shown on hover */
+  noteEvidence?: NoteEvidence | null;
+  transcriptSegments?: EvidenceSegment[];
   showFormatted?: boolean;
   onToggleFormatted?: () => void;
 }
@@ -43,7 +51,9 @@ export function HeidiNotePanel({
   onNoteChange, 
   onGenerate, 
   isGenerating, 
+  onCancel,
   sessionId, 
+  isLocked = false,
   selectedTemplate: selectedTemplateProp, 
   onTemplateChange, 
   onUndo, 
@@ -51,6 +61,8 @@ export function HeidiNotePanel({
   canUndo = false, 
   canRedo = false,
   noteJson,
+  noteEvidence,
+  transcriptSegments,
   showFormatted = true,
   onToggleFormatted 
 }: HeidiNotePanelProps) {
@@ -297,7 +309,7 @@ export function HeidiNotePanel({
               <DropdownMenuItem onClick={handlePrint}>
                 Print
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={handleClear}>
+              <DropdownMenuItem onClick={handleClear} disabled={isLocked}>
                 Clear note
               </DropdownMenuItem>
             </DropdownMenuContent>
@@ -330,31 +342,62 @@ export function HeidiNotePanel({
             </Button>
           )}
           <div className="w-px h-4 bg-border" />
-          <Button 
-            onClick={onGenerate} 
-            disabled={isGenerating}
-            className="h-8"
-          >
-            {isGenerating ? "Generating..." : "Generate note"}
-          </Button>
+          {isLocked ? (
+            <span className="flex items-center gap-1 text-sm text-muted-foreground" title="Signed notes are locked; add an addendum from the review page">
+              <Lock className="h-4 w-4" />
+              Signed
+            </span>
+          ) : (
+            <>
+              {isGenerating && onCancel && (
+                <Button
+                  variant="outline"
+                  onClick={onCancel}
+                  className="h-8"
+                >
+                  Cancel
+                </Button>
+              )}
+              <Button 
+                onClick={onGenerate} 
+                disabled={isGenerating}
+                className="h-8"
+              >
+                {isGenerating ? "Generating..." : "Generate note"}
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
       {/* Note Display */}
       <div className="flex-1 overflow-auto bg-background">
         {showFormatted && noteJson ? (
-          <ClinicalNoteDisplay 
-            noteJson={noteJson} 
-            plaintext={note}
-            templateId={selectedTemplate}
-            templateStructure={currentTemplate?.structure}
-          />
+          <>
+            <ClinicalNoteDisplay 
+              noteJson={noteJson} 
+              plaintext={note}
+              templateId={selectedTemplate}
+              templateStructure={currentTemplate?.structure}
+              evidence={noteEvidence}
+              segments={transcriptSegments}
+              sessionId={sessionId}
+              codesReadOnly={isLocked}
+            />
+            {isGenerating && (
+              <p className="flex items-center gap-2 px-8 pb-8 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Writing note...
+              </p>
+            )}
+          </>
         ) : (
           <div className="bg-white p-8 rounded-lg">
             <Textarea
               ref={textareaRef}
               value={note}
               onChange={(e) => onNoteChange(e.target.value)}
+              readOnly={isLocked}
               placeholder="Your clinical note will appear here after generation..."
               className="w-full min-h-[500px] text-base resize-none border-0 bg-transparent focus-visible:ring-0 focus-visible:ring-offset-0 p-0"
             />
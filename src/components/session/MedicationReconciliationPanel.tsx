@@ -0,0 +1,152 @@
+import { Check, Loader2, Pill, RefreshCw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import {
+  useDecideMedication,
+  useExtractSessionEntities,
+  useMedicationReconciliation,
+  type ReconciliationDecision,
+} from "@/hooks/useMedicationReconciliation";
+import type { Session } from "@/hooks/useSessions";
+import { describeMedication, type MedicationChange, type MedicationChangeType } from "@/lib/medications";
+
+interface MedicationReconciliationPanelProps {
+  session: Pick<Session, 'id' | 'user_id' | 'created_at' | 'patient_id' | 'patient_record_id'>;
+}
+
+const CHANGE_LABELS: Record<MedicationChangeType, string> = {
+  started: "Started",
+  stopped: "Stopped",
+  changed: "Changed",
+  unchanged: "Continued",
+};
+
+const CHANGE_STYLES: Record<MedicationChangeType, string> = {
+  started: "border-green-500/50 text-green-700",
+  stopped: "border-red-500/50 text-red-700",
+  changed: "border-amber-500/50 text-amber-700",
+  unchanged: "",
+};
+
+function changeDetail(change: MedicationChange): string {
+  if (change.change === 'changed' && change.previous && change.current) {
+    return change.differences
+      .map(field => `${change.previous?.[field]} → ${change.current?.[field]}`)
+      .join(' · ');
+  }
+  return describeMedication(change.current ?? change.previous ?? { dose: null, route: null, frequency: null });
+}
+
+/**
+ * Medications extracted from this session compared with the patient's
+ * previous visit. Each started, stopped or changed line is confirmed or
+ * rejected by the clinician.
+ */
+export function MedicationReconciliationPanel({ session }: MedicationReconciliationPanelProps) {
+  const { data, isLoading } = useMedicationReconciliation(session);
+  const extract = useExtractSessionEntities();
+  const decide = useDecideMedication();
+
+  const changes = data?.changes ?? [];
+  const pending = changes.filter(change => change.change !== 'unchanged' && !data?.decisions[change.drug_name]).length;
+
+  const setDecision = (change: MedicationChange, decision: ReconciliationDecision) => {
+    const current = data?.decisions[change.drug_name];
+    decide.mutate({
+      sessionId: session.id,
+      previousSessionId: data?.previousSession?.id ?? null,
+      change,
+      decision: current === decision ? null : decision,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Pill className="h-5 w-5" />
+            <CardTitle>Medication Reconciliation</CardTitle>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Extract medications from the transcript"
+            onClick={() => extract.mutate(session.id)}
+            disabled={extract.isPending}
+          >
+            {extract.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </div>
+        <CardDescription>
+          {data?.previousSession
+            ? `Compared with the visit on ${new Date(data.previousSession.created_at).toLocaleDateString()}`
+            : 'No earlier visit with medications to compare with'}
+          {pending > 0 && ` · ${pending} to review`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No medications extracted yet
+          </p>
+        ) : (
+          changes.map(change => {
+            const decision = data?.decisions[change.drug_name];
+            const medication = change.current ?? change.previous;
+            return (
+              <div
+                key={change.drug_name}
+                className={cn("flex items-start gap-2 p-2 rounded-lg border", decision === 'rejected' && "opacity-60")}
+              >
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className={cn("text-sm font-medium capitalize", decision === 'rejected' && "line-through")}>
+                      {medication?.display_name ?? change.drug_name}
+                    </span>
+                    <Badge variant="outline" className={cn("text-xs", CHANGE_STYLES[change.change])}>
+                      {CHANGE_LABELS[change.change]}
+                    </Badge>
+                  </div>
+                  {changeDetail(change) && (
+                    <p className="text-xs text-muted-foreground">{changeDetail(change)}</p>
+                  )}
+                </div>
+                {change.change !== 'unchanged' && (
+                  <div className="flex gap-1">
+                    <Button
+                      variant={decision === 'confirmed' ? 'default' : 'ghost'}
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Confirm"
+                      disabled={decide.isPending}
+                      onClick={() => setDecision(change, 'confirmed')}
+                    >
+                      <Check className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant={decision === 'rejected' ? 'destructive' : 'ghost'}
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Reject"
+                      disabled={decide.isPending}
+                      onClick={() => setDecision(change, 'rejected')}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
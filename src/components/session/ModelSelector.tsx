@@ -1,3 +1,4 @@
+import { AudioLines, Clock, Radio, Users } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -7,84 +8,110 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Toggle } from "@/components/ui/toggle";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  TRANSCRIPTION_MODELS,
+  TRANSCRIPTION_PROVIDERS,
+  modelCapabilities,
+  providerForModel,
+  supportsLanguage,
+} from "@/lib/transcriptionProviders";
+import { cn } from "@/lib/utils";
 
 interface ModelSelectorProps {
   value: string;
   onValueChange: (value: string) => void;
+  /** Spoken language; models that can't transcribe it are disabled */
+  language?: string;
+  speakerLabels?: boolean;
+  onSpeakerLabelsChange?: (enabled: boolean) => void;
 }
 
-export const ModelSelector = ({ value, onValueChange }: ModelSelectorProps) => {
+const groups = [...new Set(TRANSCRIPTION_MODELS.map(model => model.group))];
+
+export const ModelSelector = ({
+  value,
+  onValueChange,
+  language = "en",
+  speakerLabels = false,
+  onSpeakerLabelsChange,
+}: ModelSelectorProps) => {
+  const capabilities = modelCapabilities(value);
+  const providerLabel = TRANSCRIPTION_PROVIDERS[providerForModel(value)].label;
+
+  const features = [
+    { key: "live", icon: Radio, supported: capabilities.partialResults, label: "Live text while speaking" },
+    { key: "timings", icon: Clock, supported: capabilities.wordTimings, label: "Word timestamps for playback" },
+    { key: "vad", icon: AudioLines, supported: capabilities.voiceActivity, label: "Speech detection" },
+  ];
+
   return (
-    <Select value={value} onValueChange={onValueChange}>
-      <SelectTrigger className="w-[300px] bg-amber-700 text-white border-amber-800 hover:bg-amber-800 font-medium shadow-sm">
-        <SelectValue placeholder="Select transcription model" />
-      </SelectTrigger>
-      <SelectContent className="max-h-[450px] bg-background border-border z-50">
-        <SelectGroup>
-          <SelectLabel className="font-semibold px-2 py-1.5">OpenAI (Whisper)</SelectLabel>
-          <SelectItem value="whisper-1">
-            whisper-1
-          </SelectItem>
-          <SelectItem value="gpt-4o-mini-transcribe">
-            gpt-4o-mini-transcribe
-          </SelectItem>
-        </SelectGroup>
-        
-        <SelectGroup>
-          <SelectLabel className="font-semibold px-2 py-1.5">AssemblyAI Real-Time</SelectLabel>
-          <SelectItem value="assemblyai-best">
-            assemblyai-best (highest accuracy)
-          </SelectItem>
-          <SelectItem value="assemblyai-nano">
-            assemblyai-nano (fastest)
-          </SelectItem>
-        </SelectGroup>
-        
-        <SelectGroup>
-          <SelectLabel className="font-semibold px-2 py-1.5">Deepgram Models</SelectLabel>
-          <SelectItem value="nova-2">
-            nova-2
-          </SelectItem>
-          <SelectItem value="nova-2-general">
-            nova-2-general
-          </SelectItem>
-          <SelectItem value="nova-2-conversational">
-            nova-2-conversational
-          </SelectItem>
-          <SelectItem value="nova-2-medical">
-            nova-2-medical ⭐
-          </SelectItem>
-          <SelectItem value="nova-2-phonecall">
-            nova-2-phonecall
-          </SelectItem>
-          <SelectItem value="enhanced">
-            enhanced
-          </SelectItem>
-          <SelectItem value="whisper-large">
-            whisper-large
-          </SelectItem>
-        </SelectGroup>
-        
-        <SelectGroup>
-          <SelectLabel className="font-semibold px-2 py-1.5">Silero VAD (Voice Detection)</SelectLabel>
-          <SelectItem value="silero-vad-1">
-            silero-vad-1
-          </SelectItem>
-          <SelectItem value="silero-vad-2">
-            silero-vad-2
-          </SelectItem>
-        </SelectGroup>
-        
-        <SelectGroup>
-          <SelectLabel className="font-semibold px-2 py-1.5">Turn Detector (Conversation)</SelectLabel>
-          <SelectItem value="turn_detector_v1">
-            turn_detector_v1
-          </SelectItem>
-          <SelectItem value="turn_detector_v2">
-            turn_detector_v2
-          </SelectItem>
-        </SelectGroup>
-      </SelectContent>
-    </Select>
+    <div className="flex items-center gap-1">
+      <Select value={value} onValueChange={onValueChange}>
+        <SelectTrigger className="w-[300px] bg-amber-700 text-white border-amber-800 hover:bg-amber-800 font-medium shadow-sm">
+          <SelectValue placeholder="Select transcription model" />
+        </SelectTrigger>
+        <SelectContent className="max-h-[450px] bg-background border-border z-50">
+          {groups.map(group => (
+            <SelectGroup key={group}>
+              <SelectLabel className="font-semibold px-2 py-1.5">{group}</SelectLabel>
+              {TRANSCRIPTION_MODELS.filter(model => model.group === group).map(model => {
+                const available = supportsLanguage(modelCapabilities(model.id), language);
+                return (
+                  <SelectItem key={model.id} value={model.id} disabled={!available}>
+                    {model.label}
+                    {!available && <span className="ml-1 text-xs text-muted-foreground">(language not supported)</span>}
+                  </SelectItem>
+                );
+              })}
+            </SelectGroup>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {features.map(({ key, icon: Icon, supported, label }) => (
+        <Tooltip key={key}>
+          <TooltipTrigger asChild>
+            <span
+              className={cn(
+                "flex h-9 w-7 items-center justify-center rounded-md",
+                supported ? "text-foreground" : "text-muted-foreground/40"
+              )}
+            >
+              <Icon className="h-4 w-4" />
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>
+            {label}: {supported ? "supported" : `not available with ${providerLabel}`}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+
+      {onSpeakerLabelsChange && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            {/* Wrapped so the tooltip still shows while the toggle is disabled */}
+            <span>
+              <Toggle
+                size="sm"
+                aria-label="Speaker labels"
+                pressed={speakerLabels && capabilities.diarization}
+                onPressedChange={onSpeakerLabelsChange}
+                disabled={!capabilities.diarization}
+                className="h-9 w-9 px-0"
+              >
+                <Users className="h-4 w-4" />
+              </Toggle>
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>
+            {capabilities.diarization
+              ? `Speaker labels from ${providerLabel}: ${speakerLabels ? "on" : "off"}`
+              : `Speaker labels not available with ${providerLabel}`}
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </div>
   );
 };
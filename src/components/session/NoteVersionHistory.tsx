@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useState } from "react";
+import { History, RotateCcw, Loader2, Bot, PenLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useNoteVersions, useRestoreNoteVersion, type NoteVersion, type Session } from "@/hooks/useSessions";
+import { diffNoteVersions, type DiffSegment, type SectionDiff } from "@/lib/noteDiff";
+
+interface NoteVersionHistoryProps {
+  sessionId: string;
+  isLocked?: boolean;
+  onRestored?: (session: Session) => void;
+}
+
+const STATUS_STYLES: Record<SectionDiff['status'], string> = {
+  added: "border-green-500/50",
+  removed: "border-red-500/50",
+  changed: "border-amber-500/50",
+  unchanged: "border-border",
+};
+
+function versionLabel(version: NoteVersion): string {
+  const date = new Date(version.created_at).toLocaleString();
+  if (version.source === 'ai') {
+    return `v${version.version_number} · AI${version.detail_level ? ` (${version.detail_level})` : ''} · ${date}`;
+  }
+  if (version.source === 'restore') return `v${version.version_number} · Restored · ${date}`;
+  return `v${version.version_number} · Manual edit · ${date}`;
+}
+
+function SourceBadge({ version }: { version: NoteVersion }) {
+  if (version.source === 'ai') {
+    return (
+      <Badge variant="secondary" className="text-xs gap-1">
+        <Bot className="h-3 w-3" />
+        {version.model || 'AI'}
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="outline" className="text-xs gap-1">
+      {version.source === 'restore' ? <RotateCcw className="h-3 w-3" /> : <PenLine className="h-3 w-3" />}
+      {version.source === 'restore' ? 'Restored' : 'Manual edit'}
+    </Badge>
+  );
+}
+
+function DiffSide({ segments, side }: { segments: DiffSegment[]; side: 'before' | 'after' }) {
+  const hidden = side === 'before' ? 'insert' : 'delete';
+  const highlight = side === 'before'
+    ? "bg-red-500/20 line-through decoration-red-500/60"
+    : "bg-green-500/20";
+
+  return (
+    <div className="text-sm whitespace-pre-wrap bg-muted p-3 rounded min-h-[2.5rem]">
+      {segments
+        .filter(segment => segment.type !== hidden)
+        .map((segment, index) => (
+          <span key={index} className={segment.type === 'equal' ? undefined : highlight}>
+            {segment.text}
+          </span>
+        ))}
+    </div>
+  );
+}
+
+export function NoteVersionHistory({ sessionId, isLocked = false, onRestored }: NoteVersionHistoryProps) {
+  const { data: versions = [], isLoading } = useNoteVersions(sessionId);
+  const restoreVersion = useRestoreNoteVersion();
+  const [baseId, setBaseId] = useState<string>("");
+  const [compareId, setCompareId] = useState<string>("");
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  // Default to comparing the latest version with the one before it
+  useEffect(() => {
+    if (versions.length === 0) return;
+    if (!versions.some(v => v.id === compareId)) setCompareId(versions[0].id);
+    if (!versions.some(v => v.id === baseId)) setBaseId((versions[1] || versions[0]).id);
+  }, [versions, baseId, compareId]);
+
+  const base = versions.find(v => v.id === baseId);
+  const compare = versions.find(v => v.id === compareId);
+  const latest = versions[0];
+
+  const sections = useMemo(
+    () => (base && compare ? diffNoteVersions(base, compare) : []),
+    [base, compare]
+  );
+  const changedCount = sections.filter(s => s.status !== 'unchanged').length;
+  const visibleSections = showUnchanged ? sections : sections.filter(s => s.status !== 'unchanged');
+
+  const handleRestore = async (version: NoteVersion) => {
+    const session = await restoreVersion.mutateAsync(version);
+    onRestored?.(session);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Version History
+        </CardTitle>
+        <CardDescription>
+          {versions.length > 0
+            ? `${versions.length} version${versions.length === 1 ? '' : 's'} · compare what changed between regenerations`
+            : 'Every regeneration and edit is recorded here'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : versions.length < 2 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            {versions.length === 0 ? 'No versions recorded yet' : 'Only one version so far'}
+          </p>
+        ) : (
+          <>
+            <div className="grid md:grid-cols-2 gap-4">
+              {[
+                { label: 'Before', value: baseId, onChange: setBaseId, version: base },
+                { label: 'After', value: compareId, onChange: setCompareId, version: compare },
+              ].map(({ label, value, onChange, version }) => (
+                <div key={label} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>{label}</Label>
+                    {version && <SourceBadge version={version} />}
+                  </div>
+                  <Select value={value} onValueChange={onChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover">
+                      {versions.map(v => (
+                        <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {version && version.id !== latest?.id && !isLocked && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" size="sm" disabled={restoreVersion.isPending}>
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Restore v{version.version_number}
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Restore version {version.version_number}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The current note will be replaced. It stays in the history and can be restored later.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleRestore(version)}>
+                            Restore
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {changedCount === 0
+                  ? 'No differences between these versions'
+                  : `${changedCount} of ${sections.length} section${sections.length === 1 ? '' : 's'} changed`}
+              </p>
+              <div className="flex items-center gap-2">
+                <Switch id="show-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+                <Label htmlFor="show-unchanged" className="text-sm">Show unchanged</Label>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              {visibleSections.map(section => (
+                <div key={section.key} className={`border-l-4 pl-3 space-y-2 ${STATUS_STYLES[section.status]}`}>
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-sm font-semibold">{section.title}</h3>
+                    {section.status !== 'unchanged' && (
+                      <Badge variant="outline" className="text-xs capitalize">{section.status}</Badge>
+                    )}
+                  </div>
+                  <div className="grid md:grid-cols-2 gap-3">
+                    <DiffSide segments={section.segments} side="before" />
+                    <DiffSide segments={section.segments} side="after" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Contact, Link2, Plus, Unlink } from "lucide-react";
+import { usePatients, useCreatePatient, useLinkSessionPatient, type Patient } from "@/hooks/usePatients";
+import type { Session } from "@/hooks/useSessions";
+import { suggestPatients } from "@/lib/patientMatching";
+
+interface PatientLinkPopoverProps {
+  session: Pick<Session, 'id' | 'patient_name' | 'patient_id' | 'patient_dob' | 'patient_record_id'>;
+  onLinked?: (session: Session) => void;
+}
+
+/**
+ * Link a session to a patient record: likely matches for the session's
+ * details first, any patient by search, or a new patient from the details
+ */
+export function PatientLinkPopover({ session, onLinked }: PatientLinkPopoverProps) {
+  const navigate = useNavigate();
+  const { data: patients = [] } = usePatients();
+  const createPatient = useCreatePatient();
+  const linkPatient = useLinkSessionPatient();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  const options = useMemo(() => {
+    if (query.trim()) {
+      const lowered = query.toLowerCase();
+      return patients
+        .filter(patient => patient.full_name.toLowerCase().includes(lowered) || patient.mrn?.toLowerCase().includes(lowered))
+        .slice(0, 8);
+    }
+    return suggestPatients(
+      { full_name: session.patient_name, mrn: session.patient_id || null, date_of_birth: session.patient_dob || null },
+      patients
+    );
+  }, [patients, query, session.patient_name, session.patient_id, session.patient_dob]);
+
+  const link = async (patientId: string | null) => {
+    const updated = await linkPatient.mutateAsync({ sessionId: session.id, patientId });
+    onLinked?.(updated);
+    setOpen(false);
+  };
+
+  const createFromSession = async () => {
+    const patient = await createPatient.mutateAsync({
+      full_name: session.patient_name,
+      mrn: session.patient_id || null,
+      date_of_birth: session.patient_dob && /^\d{4}-\d{2}-\d{2}/.test(session.patient_dob) ? session.patient_dob.slice(0, 10) : null,
+    });
+    await link(patient.id);
+  };
+
+  const busy = linkPatient.isPending || createPatient.isPending;
+
+  if (session.patient_record_id) {
+    return (
+      <div className="flex items-center gap-1">
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => navigate(`/patients/${session.patient_record_id}`)}>
+          <Contact className="h-4 w-4" />
+          Patient chart
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground"
+          title="Unlink patient"
+          disabled={busy}
+          onClick={() => link(null)}
+        >
+          <Unlink className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  const renderOption = (patient: Patient) => (
+    <button
+      key={patient.id}
+      onClick={() => link(patient.id)}
+      disabled={busy}
+      className="w-full text-left px-2 py-1.5 rounded hover:bg-accent transition-colors"
+    >
+      <p className="text-sm font-medium truncate">{patient.full_name}</p>
+      <p className="text-xs text-muted-foreground">
+        {[patient.mrn && `MRN ${patient.mrn}`, patient.date_of_birth].filter(Boolean).join(' · ') || 'No MRN or date of birth'}
+      </p>
+    </button>
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Link2 className="h-4 w-4" />
+          Link patient
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-2 space-y-2">
+        <Input
+          placeholder="Search patients"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="h-8"
+        />
+        {!query.trim() && options.length > 0 && (
+          <p className="px-2 text-xs text-muted-foreground">Possible matches</p>
+        )}
+        <div className="max-h-60 overflow-y-auto">
+          {options.length === 0 ? (
+            <p className="px-2 py-3 text-sm text-muted-foreground text-center">No matching patients</p>
+          ) : (
+            options.map(renderOption)
+          )}
+        </div>
+        <Button variant="ghost" size="sm" className="w-full justify-start gap-2" onClick={createFromSession} disabled={busy || !session.patient_name.trim()}>
+          <Plus className="h-4 w-4" />
+          New patient "{session.patient_name}"
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
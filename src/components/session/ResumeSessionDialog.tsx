@@ -0,0 +1,76 @@
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, RotateCcw } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { SessionCheckpoint } from "@/lib/sessionCheckpoint";
+
+interface ResumeSessionDialogProps {
+  checkpoint: SessionCheckpoint | null;
+  onResume: () => void;
+  onDiscard: () => void;
+  isResuming?: boolean;
+}
+
+const formatSeconds = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+export function ResumeSessionDialog({
+  checkpoint,
+  onResume,
+  onDiscard,
+  isResuming = false,
+}: ResumeSessionDialogProps) {
+  const unsaved = checkpoint?.unsavedChunks.length ?? 0;
+
+  return (
+    <AlertDialog open={!!checkpoint}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Resume interrupted session?</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2">
+              {checkpoint && (
+                <p>
+                  Recording stopped unexpectedly {formatDistanceToNow(checkpoint.closedAt ?? checkpoint.savedAt, { addSuffix: true })}
+                  {checkpoint.recordedSeconds > 0 && ` after ${formatSeconds(checkpoint.recordedSeconds)}`}.
+                </p>
+              )}
+              <p>
+                Resuming restores the speaker turns
+                {unsaved > 0 && ` and ${unsaved} transcript segment${unsaved === 1 ? '' : 's'} that had not been saved`}
+                , then continues recording into this session. Audio captured so far is uploaded in the background either way.
+              </p>
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onDiscard} disabled={isResuming}>
+            Discard
+          </AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              onResume();
+            }}
+            disabled={isResuming}
+          >
+            {isResuming ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RotateCcw className="h-4 w-4 mr-2" />
+            )}
+            Resume
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
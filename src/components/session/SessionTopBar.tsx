@@ -50,6 +50,8 @@ interface SessionTopBarProps {
   onRecordingInputModeChange?: (mode: 'direct' | 'playback') => void;
   selectedTranscriptionModel: string;
   onModelChange: (model: string) => void;
+  speakerLabels?: boolean;
+  onSpeakerLabelsChange?: (enabled: boolean) => void;
 }
 
 export function SessionTopBar({
@@ -75,6 +77,8 @@ export function SessionTopBar({
   onRecordingInputModeChange,
   selectedTranscriptionModel,
   onModelChange,
+  speakerLabels,
+  onSpeakerLabelsChange,
 }: SessionTopBarProps) {
   const [isEditingName, setIsEditingName] = useState(false);
   const [tempName, setTempName] = useState(patientName);
@@ -154,6 +158,9 @@ export function SessionTopBar({
               <ModelSelector 
                 value={selectedTranscriptionModel}
                 onValueChange={onModelChange}
+                language={language}
+                speakerLabels={speakerLabels}
+                onSpeakerLabelsChange={onSpeakerLabelsChange}
               />
               
               {/* Start Button */}
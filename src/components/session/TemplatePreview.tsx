@@ -1,5 +1,7 @@
 import { FileText, FileCheck } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { normalizeTemplateStructure, type TemplateSection } from "@/lib/noteTemplates";
 
 interface TemplatePreviewProps {
   structure: any;
@@ -41,6 +43,19 @@ const formatSectionKey = (key: string): string => {
     .join(' ') + ':';
 };
 
+const describeCondition = (section: TemplateSection): string | null => {
+  switch (section.condition?.type) {
+    case 'discussed':
+      return 'If discussed';
+    case 'keywords':
+      return `If mentioned: ${section.condition.keywords.join(', ')}`;
+    case 'detail_level':
+      return `Detail: ${section.condition.levels.join(', ')}`;
+    default:
+      return null;
+  }
+};
+
 const renderTemplateContent = (data: any): JSX.Element[] => {
   if (typeof data === 'string') {
     return [<div key="text" className="text-muted-foreground ml-4">- {data}</div>];
@@ -90,7 +105,8 @@ const renderExampleContent = (key: string, data: any): JSX.Element[] => {
 };
 
 export function TemplatePreview({ structure }: TemplatePreviewProps) {
-  if (!structure || typeof structure !== 'object') {
+  const schema = normalizeTemplateStructure(structure);
+  if (!schema) {
     return (
       <div className="text-center py-8 text-muted-foreground">
         No template structure available
@@ -108,10 +124,15 @@ export function TemplatePreview({ structure }: TemplatePreviewProps) {
             <h3 className="text-lg font-semibold text-pink-500">Template Content</h3>
           </div>
           <div className="space-y-4">
-            {Object.entries(structure).map(([key, value]) => (
-              <div key={key}>
-                <div className="font-semibold mb-2">{formatSectionKey(key)}</div>
-                {renderTemplateContent(value)}
+            {schema.sections.map((section) => (
+              <div key={section.key}>
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="font-semibold">{section.title}:</span>
+                  {!section.required && <Badge variant="outline">Optional</Badge>}
+                  {section.style === 'prose' && <Badge variant="outline">Prose</Badge>}
+                  {describeCondition(section) && <Badge variant="secondary">{describeCondition(section)}</Badge>}
+                </div>
+                {section.instructions && renderTemplateContent(section.instructions)}
               </div>
             ))}
           </div>
@@ -129,10 +150,10 @@ export function TemplatePreview({ structure }: TemplatePreviewProps) {
             <h3 className="text-lg font-semibold text-purple-500">Example</h3>
           </div>
           <div className="space-y-4">
-            {Object.entries(structure).map(([key, value]) => (
-              <div key={key}>
-                <div className="font-semibold mb-2">{formatSectionKey(key)}</div>
-                {renderExampleContent(key, value)}
+            {schema.sections.map((section) => (
+              <div key={section.key}>
+                <div className="font-semibold mb-2">{section.title}:</div>
+                {renderExampleContent(section.key, section.instructions)}
               </div>
             ))}
           </div>
@@ -0,0 +1,271 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import {
+  createTemplateSection,
+  sectionKeyFromTitle,
+  MAX_SECTIONS,
+  type DetailLevel,
+  type NoteTemplateSchema,
+  type TemplateSchemaError,
+  type TemplateSection,
+  type TemplateSectionCondition,
+} from "@/lib/noteTemplates";
+
+interface TemplateSectionEditorProps {
+  value: NoteTemplateSchema;
+  onChange: (value: NoteTemplateSchema) => void;
+  errors?: TemplateSchemaError[];
+}
+
+type ConditionType = TemplateSectionCondition['type'] | 'always';
+
+const DETAIL_LEVELS: DetailLevel[] = ['low', 'medium', 'high'];
+
+function conditionFor(type: ConditionType, previous?: TemplateSectionCondition): TemplateSectionCondition | undefined {
+  switch (type) {
+    case 'discussed':
+      return { type: 'discussed' };
+    case 'keywords':
+      return previous?.type === 'keywords' ? previous : { type: 'keywords', keywords: [] };
+    case 'detail_level':
+      return previous?.type === 'detail_level' ? previous : { type: 'detail_level', levels: ['high'] };
+    default:
+      return undefined;
+  }
+}
+
+export function TemplateSectionEditor({ value, onChange, errors = [] }: TemplateSectionEditorProps) {
+  const errorsFor = (index: number) =>
+    errors.filter(e => e.path === `sections[${index}]` || e.path.startsWith(`sections[${index}].`));
+  const templateErrors = errors.filter(e => !e.path.startsWith('sections['));
+
+  const updateSection = (index: number, updates: Partial<TemplateSection>) => {
+    const sections = value.sections.map((section, i) => {
+      if (i !== index) return section;
+      const next = { ...section, ...updates };
+      // Keep the key in step with the title until it has been edited by hand
+      if (updates.title !== undefined && section.key === sectionKeyFromTitle(section.title)) {
+        next.key = sectionKeyFromTitle(updates.title);
+      }
+      if (next.condition) next.required = false;
+      if (!next.condition) delete next.condition;
+      return next;
+    });
+    onChange({ ...value, sections });
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    const sections = [...value.sections];
+    const [moved] = sections.splice(index, 1);
+    sections.splice(index + offset, 0, moved);
+    onChange({ ...value, sections });
+  };
+
+  const removeSection = (index: number) => {
+    onChange({ ...value, sections: value.sections.filter((_, i) => i !== index) });
+  };
+
+  const addSection = () => {
+    onChange({ ...value, sections: [...value.sections, createTemplateSection(value)] });
+  };
+
+  return (
+    <div className="space-y-4">
+      {value.sections.map((section, index) => {
+        const sectionErrors = errorsFor(index);
+        const conditionType: ConditionType = section.condition?.type ?? 'always';
+
+        return (
+          <Card key={index} className={sectionErrors.length > 0 ? 'border-destructive' : undefined}>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor={`section-title-${index}`}>Section Title</Label>
+                  <Input
+                    id={`section-title-${index}`}
+                    value={section.title}
+                    onChange={(e) => updateSection(index, { title: e.target.value })}
+                    placeholder="e.g., History of Present Illness"
+                  />
+                </div>
+                <div className="w-44 space-y-1">
+                  <Label htmlFor={`section-key-${index}`}>Key</Label>
+                  <Input
+                    id={`section-key-${index}`}
+                    value={section.key}
+                    onChange={(e) => updateSection(index, { key: e.target.value })}
+                    className="font-mono text-sm"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={index === 0}
+                  onClick={() => moveSection(index, -1)}
+                  aria-label="Move section up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={index === value.sections.length - 1}
+                  onClick={() => moveSection(index, 1)}
+                  aria-label="Move section down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeSection(index)}
+                  aria-label="Remove section"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor={`section-instructions-${index}`}>Instructions</Label>
+                <Textarea
+                  id={`section-instructions-${index}`}
+                  value={section.instructions}
+                  onChange={(e) => updateSection(index, { instructions: e.target.value })}
+                  placeholder="What the AI should write in this section"
+                  rows={2}
+                />
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`section-required-${index}`}
+                    checked={section.required}
+                    disabled={!!section.condition}
+                    onCheckedChange={(checked) => updateSection(index, { required: checked })}
+                  />
+                  <Label htmlFor={`section-required-${index}`}>Required</Label>
+                </div>
+                <Select
+                  value={section.style}
+                  onValueChange={(style) => updateSection(index, { style: style as TemplateSection['style'] })}
+                >
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="bullets">Bullet points</SelectItem>
+                    <SelectItem value="prose">Prose</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={conditionType}
+                  onValueChange={(type) =>
+                    updateSection(index, { condition: conditionFor(type as ConditionType, section.condition) })
+                  }
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="always">Always include</SelectItem>
+                    <SelectItem value="discussed">Only if discussed</SelectItem>
+                    <SelectItem value="keywords">Only if keywords mentioned</SelectItem>
+                    <SelectItem value="detail_level">Only at detail levels</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {section.condition?.type === 'keywords' && (
+                <Input
+                  value={section.condition.keywords.join(', ')}
+                  onChange={(e) =>
+                    updateSection(index, {
+                      condition: {
+                        type: 'keywords',
+                        keywords: e.target.value.split(',').map(k => k.trimStart()).filter((k, i, all) => k || i === all.length - 1),
+                      },
+                    })
+                  }
+                  placeholder="Comma-separated, e.g., anxiety, depression, mood"
+                />
+              )}
+
+              {section.condition?.type === 'detail_level' && (
+                <div className="flex items-center gap-4">
+                  {DETAIL_LEVELS.map(level => {
+                    const levels = section.condition?.type === 'detail_level' ? section.condition.levels : [];
+                    return (
+                      <div key={level} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`section-level-${index}-${level}`}
+                          checked={levels.includes(level)}
+                          onCheckedChange={(checked) =>
+                            updateSection(index, {
+                              condition: {
+                                type: 'detail_level',
+                                levels: checked
+                                  ? DETAIL_LEVELS.filter(l => l === level || levels.includes(l))
+                                  : levels.filter(l => l !== level),
+                              },
+                            })
+                          }
+                        />
+                        <Label htmlFor={`section-level-${index}-${level}`} className="capitalize">{level}</Label>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {sectionErrors.map((error, i) => (
+                <p key={i} className="text-sm text-destructive">{error.message}</p>
+              ))}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {templateErrors.map((error, i) => (
+        <p key={i} className="text-sm text-destructive">{error.message}</p>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={addSection}
+        disabled={value.sections.length >= MAX_SECTIONS}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Section
+      </Button>
+
+      <div className="space-y-1">
+        <Label htmlFor="template-instructions">Template Instructions (optional)</Label>
+        <Textarea
+          id="template-instructions"
+          value={value.instructions ?? ''}
+          onChange={(e) => onChange({ ...value, instructions: e.target.value || undefined })}
+          placeholder="Guidance that applies to the whole note, e.g., write for a referring cardiologist"
+          rows={2}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState, useRef, useEffect, useMemo, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { findActiveWord, parseStoredWords, type TranscriptWord } from "@/lib/wordTimings";
+import type { SessionRecording } from "@/hooks/useSessions";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface TranscriptSegment {
+  id: string;
+  speaker: string;
+  text: string;
+  recording_id?: string | null;
+  words?: Json | null;
+}
+
+interface TranscriptPlayerProps {
+  segments: TranscriptSegment[];
+  recordings: SessionRecording[];
+}
+
+interface TimelineWord {
+  key: string;
+  start: number;
+  end: number;
+}
+
+const wordKey = (segmentId: string, index: number) => `${segmentId}:${index}`;
+
+/**
+ * Transcript with the session audio. Clicking a word plays the recording from
+ * that word; the word being spoken is highlighted during playback. Segments
+ * without word timing, or whose recording has not been uploaded, show as text.
+ */
+export function TranscriptPlayer({ segments, recordings }: TranscriptPlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const activeWordRef = useRef<HTMLSpanElement | null>(null);
+  const pendingSeekRef = useRef<number | null>(null);
+  const [recordingId, setRecordingId] = useState<string | null>(recordings[0]?.id ?? null);
+  const [currentMs, setCurrentMs] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!recordings.some(r => r.id === recordingId)) {
+      setRecordingId(recordings[0]?.id ?? null);
+    }
+  }, [recordings, recordingId]);
+
+  const recording = recordings.find(r => r.id === recordingId) ?? null;
+  const playable = useMemo(() => new Set(recordings.map(r => r.id)), [recordings]);
+
+  const segmentWords = useMemo(
+    () => new Map(segments.map(segment => [segment.id, parseStoredWords(segment.words)])),
+    [segments]
+  );
+
+  // Every timed word of each recording, in playback order
+  const timelines = useMemo(() => {
+    const byRecording = new Map<string, TimelineWord[]>();
+    for (const segment of segments) {
+      if (!segment.recording_id) continue;
+      const words = segmentWords.get(segment.id) ?? [];
+      const timeline = byRecording.get(segment.recording_id) ?? [];
+      words.forEach((word, index) => timeline.push({ key: wordKey(segment.id, index), start: word.start, end: word.end }));
+      byRecording.set(segment.recording_id, timeline);
+    }
+    byRecording.forEach(timeline => timeline.sort((a, b) => a.start - b.start));
+    return byRecording;
+  }, [segments, segmentWords]);
+
+  const activeKey = useMemo(() => {
+    const timeline = recordingId ? timelines.get(recordingId) : undefined;
+    if (!timeline) return null;
+    const index = findActiveWord(timeline, currentMs);
+    return index === -1 ? null : timeline[index].key;
+  }, [timelines, recordingId, currentMs]);
+
+  // timeupdate fires only a few times a second; follow the audio per frame while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      if (audioRef.current) setCurrentMs(audioRef.current.currentTime * 1000);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    if (isPlaying) activeWordRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeKey, isPlaying]);
+
+  const playFrom = useCallback((ms: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = ms / 1000;
+    setCurrentMs(ms);
+    audio.play().catch(error => console.error('Playback failed:', error));
+  }, []);
+
+  const seek = useCallback((targetRecordingId: string, word: TranscriptWord) => {
+    if (targetRecordingId === recordingId) {
+      playFrom(word.start);
+    } else {
+      // Switch files first; the seek happens once the new one has loaded
+      pendingSeekRef.current = word.start;
+      setRecordingId(targetRecordingId);
+    }
+  }, [recordingId, playFrom]);
+
+  const handleLoadedMetadata = () => {
+    if (pendingSeekRef.current !== null) {
+      const ms = pendingSeekRef.current;
+      pendingSeekRef.current = null;
+      playFrom(ms);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {recording && (
+        <div className="space-y-2">
+          <audio
+            ref={audioRef}
+            src={recording.url}
+            controls
+            preload="metadata"
+            className="w-full h-10"
+            onLoadedMetadata={handleLoadedMetadata}
+            onPlay={() => setIsPlaying(true)}
+            onPause={() => setIsPlaying(false)}
+            onEnded={() => setIsPlaying(false)}
+            onSeeked={() => audioRef.current && setCurrentMs(audioRef.current.currentTime * 1000)}
+          />
+          {recordings.length > 1 && (
+            <div className="flex flex-wrap gap-1">
+              {recordings.map((r, index) => (
+                <Button
+                  key={r.id}
+                  variant={r.id === recordingId ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setRecordingId(r.id)}
+                >
+                  Part {index + 1}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="p-4 bg-muted rounded-lg max-h-80 overflow-y-auto space-y-3 text-sm">
+        {segments.map(segment => {
+          const words = segmentWords.get(segment.id) ?? [];
+          const seekable = !!segment.recording_id && playable.has(segment.recording_id) && words.length > 0;
+
+          return (
+            <p key={segment.id} className="leading-relaxed">
+              <span className="font-medium capitalize">{segment.speaker}: </span>
+              {seekable
+                ? words.map((word, index) => {
+                    const key = wordKey(segment.id, index);
+                    const active = key === activeKey && segment.recording_id === recordingId;
+                    return (
+                      <span key={key}>
+                        <span
+                          ref={active ? activeWordRef : undefined}
+                          onClick={() => seek(segment.recording_id!, word)}
+                          className={cn(
+                            "cursor-pointer rounded-sm hover:bg-primary/10",
+                            active && "bg-primary/20 text-primary"
+                          )}
+                        >
+                          {word.text}
+                        </span>{' '}
+                      </span>
+                    );
+                  })
+                : segment.text}
+            </p>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { toast } from 'sonner';
+import { fromAssemblyAIWords, type WordTiming } from '@/lib/wordTimings';
 
 interface StreamingOptions {
   onPartialTranscript?: (text: string) => void;
-  onFinalTranscript?: (text: string) => void;
+  onFinalTranscript?: (text: string, timing?: WordTiming) => void;
   onError?: (error: string) => void;
   enabled?: boolean;
 }
@@ -37,6 +38,8 @@ export function useAssemblyAIStreaming(options: StreamingOptions = {}) {
   const audioContextRef = useRef<AudioContext | null>(null);
   const processorRef = useRef<ScriptProcessorNode | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  // When audio started flowing; AssemblyAI word times count from here
+  const streamStartedAtRef = useRef(0);
 
   // Connect to AssemblyAI streaming via edge function
   const connect = useCallback(async () => {
@@ -92,7 +95,10 @@ export function useAssemblyAIStreaming(options: StreamingOptions = {}) {
               }
             } else if (data.type === 'final') {
               if (onFinalTranscript) {
-                onFinalTranscript(data.text);
+                onFinalTranscript(data.text, {
+                  words: fromAssemblyAIWords(data.words),
+                  startedAt: streamStartedAtRef.current,
+                });
               }
             } else if (data.type === 'error') {
               console.error('❌ Streaming error:', data.message);
@@ -220,6 +226,7 @@ export function useAssemblyAIStreaming(options: StreamingOptions = {}) {
 
       sourceRef.current.connect(processorRef.current);
       processorRef.current.connect(audioContextRef.current.destination);
+      streamStartedAtRef.current = Date.now();
 
       setState(prev => ({ ...prev, isStreaming: true }));
       console.log('✅ Audio streaming started');
@@ -3,6 +3,8 @@ import { toast } from 'sonner';
 import { WhisperTranscription } from '@/utils/WhisperTranscription';
 import { VoiceAnalyzer } from '@/utils/VoiceAnalyzer';
 import { MedicalAutoCorrector } from '@/utils/MedicalAutoCorrector';
+import { getRecordingSyncWorker } from '@/utils/RecordingSyncWorker';
+import { beginQueuedRecording, type QueuedRecordingWriter } from '@/lib/recordingQueue';
 
 // Global singleton to track active audio recording
 let globalActiveStream: MediaStream | null = null;
@@ -20,6 +22,7 @@ interface AudioRecordingOptions {
   mode?: 'direct' | 'playback'; // Recording mode: direct conversation or playback transcription
   model?: string; // Transcription model (whisper-1, gpt-4o-mini-transcribe, nova-2, etc.)
   disableInternalTranscription?: boolean; // Disable internal Whisper transcription (for external transcription control)
+  sessionId?: string; // Persist chunks to the offline queue for this session so nothing is lost without network
 }
 
 interface RecordingState {
@@ -49,6 +52,7 @@ export function useAudioRecording(options: AudioRecordingOptions = {}) {
     mode = 'direct', // Default to direct recording
     model = 'whisper-1', // Default to whisper-1
     disableInternalTranscription = false, // Allow external transcription control
+    sessionId,
   } = options;
 
   const [state, setState] = useState<RecordingState>({
@@ -67,6 +71,7 @@ export function useAudioRecording(options: AudioRecordingOptions = {}) {
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const queueWriterRef = useRef<QueuedRecordingWriter | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const transcriptionRef = useRef<WhisperTranscription | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
@@ -138,6 +143,7 @@ export function useAudioRecording(options: AudioRecordingOptions = {}) {
       },
       onError: (error) => {
         console.error('❌ Whisper transcription error:', error);
+        queueWriterRef.current?.markNeedsTranscription();
         setState(prev => ({ ...prev, error }));
         if (error.includes('OPENAI_API_KEY')) {
           toast.error('OpenAI API key not configured. Please contact support.');
@@ -353,10 +359,28 @@ export function useAudioRecording(options: AudioRecordingOptions = {}) {
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
 
+      // Persist chunks as they arrive so the visit survives a dropped network or a reload
+      queueWriterRef.current = null;
+      if (sessionId) {
+        try {
+          const syncWorker = getRecordingSyncWorker();
+          queueWriterRef.current = await beginQueuedRecording(
+            syncWorker.store,
+            { sessionId, mimeType, offline: !navigator.onLine },
+            () => syncWorker.notifyChange()
+          );
+          console.log('💽 Recording to offline queue:', queueWriterRef.current.id);
+        } catch (queueError) {
+          console.warn('⚠️ Offline recording queue unavailable:', queueError);
+        }
+      }
+      const queueWriter = queueWriterRef.current;
+
       mediaRecorder.ondataavailable = (event) => {
         console.log(`📦 ondataavailable fired - data size: ${event.data.size} bytes`);
         if (event.data.size > 0) {
           chunksRef.current.push(event.data);
+          queueWriter?.append(event.data);
           const totalSize = chunksRef.current.reduce((acc, chunk) => acc + chunk.size, 0);
           console.log(`📦 Audio chunk: ${event.data.size} bytes (Total: ${(totalSize / 1024).toFixed(2)} KB, Chunks: ${chunksRef.current.length})`);
         } else {
@@ -375,6 +399,14 @@ export function useAudioRecording(options: AudioRecordingOptions = {}) {
         const url = URL.createObjectURL(audioBlob);
         
         console.log(`✅ Audio blob: ${audioBlob.size} bytes (${mimeType})`);
+
+        if (queueWriter) {
+          queueWriter
+            .finish()
+            .then(() => getRecordingSyncWorker().syncNow())
+            .catch(queueError => console.error('❌ Failed to finish queued recording:', queueError));
+          if (queueWriterRef.current === queueWriter) queueWriterRef.current = null;
+        }
         
         setState(prev => ({ 
           ...prev, 
@@ -630,7 +662,15 @@ export function useAudioRecording(options: AudioRecordingOptions = {}) {
       toast.error(errorMessage, { duration: 5000 });
       if (onError) onError(errorMessage);
     }
-  }, [state.transcriptSupported, onRecordingComplete, onError, sampleRate, deviceId]);
+  }, [state.transcriptSupported, onRecordingComplete, onError, sampleRate, deviceId, sessionId]);
+
+  // Audio recorded while offline was never transcribed live
+  useEffect(() => {
+    if (!state.isRecording) return;
+    const handleOffline = () => queueWriterRef.current?.markNeedsTranscription();
+    window.addEventListener('offline', handleOffline);
+    return () => window.removeEventListener('offline', handleOffline);
+  }, [state.isRecording]);
 
   const pauseRecording = useCallback(() => {
     console.log('⏸️ Pause recording called, current state:', mediaRecorderRef.current?.state);
@@ -849,6 +889,12 @@ export function useAudioRecording(options: AudioRecordingOptions = {}) {
     chunksRef.current = [];
   }, [state.recordedUrl]);
 
+  // Offline queue entry holding this recording's audio chunks
+  const getQueuedRecording = useCallback(() => {
+    const writer = queueWriterRef.current;
+    return writer ? { id: writer.id, startedAt: writer.startedAt } : null;
+  }, []);
+
   const formatDuration = useCallback((seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -863,6 +909,7 @@ export function useAudioRecording(options: AudioRecordingOptions = {}) {
     stopRecording,
     clearRecording,
     formatDuration,
+    getQueuedRecording,
     currentVoiceGender: currentVoiceGenderRef.current,
     currentVoiceCharacteristics: currentVoiceCharacteristicsRef.current,
     voiceAnalyzer: voiceAnalyzerRef.current,
@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+import type { Icd10Code } from '@/lib/icd10';
+
+export interface ClinicalCode {
+  code: string;
+  system?: string;
+  label?: string;
+  confidence?: number;
+  /** Added by the clinician rather than suggested */
+  source?: 'manual';
+}
+
+type StoredCodes = ClinicalCode[] | { suggested?: ClinicalCode[]; confirmed?: ClinicalCode[] } | null;
+
+/**
+ * sessions.clinical_codes is a bare array (SessionReview) or
+ * `{ suggested, confirmed }` (suggest-codes); both are read as one list
+ */
+const listCodes = (stored: StoredCodes): ClinicalCode[] => {
+  if (!stored) return [];
+  const codes = Array.isArray(stored) ? stored : [...(stored.confirmed ?? []), ...(stored.suggested ?? [])];
+  return codes.filter((code, idx) => code?.code && codes.findIndex(c => c?.code === code.code) === idx);
+};
+
+/** Manual codes are confirmed codes; the stored shape is kept */
+const withCode = (stored: StoredCodes, code: ClinicalCode): StoredCodes => {
+  if (!stored) return [code];
+  if (Array.isArray(stored)) return [...stored, code];
+  return { ...stored, confirmed: [...(stored.confirmed ?? []), code] };
+};
+
+const withoutCode = (stored: StoredCodes, code: string): StoredCodes => {
+  if (!stored) return stored;
+  if (Array.isArray(stored)) return stored.filter(c => c?.code !== code);
+  return {
+    ...stored,
+    suggested: (stored.suggested ?? []).filter(c => c?.code !== code),
+    confirmed: (stored.confirmed ?? []).filter(c => c?.code !== code),
+  };
+};
+
+async function fetchStoredCodes(sessionId: string): Promise<StoredCodes> {
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('clinical_codes')
+    .eq('id', sessionId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.clinical_codes ?? null) as StoredCodes;
+}
+
+/** The session's diagnosis codes, suggested and manually added */
+export function useClinicalCodes(sessionId: string | undefined) {
+  return useQuery({
+    queryKey: ['clinical-codes', sessionId],
+    queryFn: async () => listCodes(await fetchStoredCodes(sessionId!)),
+    enabled: !!sessionId,
+  });
+}
+
+/** Add a code from the ICD-10-CM table, or remove one by code */
+export function useUpdateClinicalCodes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sessionId, add, remove }: { sessionId: string; add?: Icd10Code; remove?: string }) => {
+      let stored = await fetchStoredCodes(sessionId);
+      if (add && !listCodes(stored).some(c => c.code === add.code)) {
+        stored = withCode(stored, { code: add.code, system: 'ICD-10-CM', label: add.descriptor, source: 'manual' });
+      }
+      if (remove) stored = withoutCode(stored, remove);
+
+      const { error } = await supabase
+        .from('sessions')
+        .update({ clinical_codes: stored as unknown as Json, updated_at: new Date().toISOString() })
+        .eq('id', sessionId);
+      if (error) throw error;
+      return listCodes(stored);
+    },
+    onSuccess: (codes, { sessionId }) => {
+      queryClient.setQueryData(['clinical-codes', sessionId], codes);
+    },
+    onError: (error) => {
+      toast.error('Failed to update codes: ' + error.message);
+    },
+  });
+}
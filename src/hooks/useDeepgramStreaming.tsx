@@ -1,13 +1,30 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
+import { fromDeepgramWords, type WordTiming } from '@/lib/wordTimings';
 
 interface StreamingOptions {
   enabled?: boolean;
   model?: string;
+  language?: string;
+  /** Ask Deepgram to label speakers; finals then carry the main speaker */
+  diarize?: boolean;
   onPartialTranscript?: (text: string) => void;
-  onFinalTranscript?: (text: string) => void;
+  onFinalTranscript?: (text: string, timing?: WordTiming, speaker?: number) => void;
   onError?: (error: string) => void;
 }
 
+/** Speaker with the most words in a diarized final */
+function mainSpeaker(words: Array<{ speaker?: number }> | undefined): number | undefined {
+  const counts = new Map<number, number>();
+  for (const word of words || []) {
+    if (typeof word.speaker === 'number') counts.set(word.speaker, (counts.get(word.speaker) || 0) + 1);
+  }
+  let best: number | undefined;
+  counts.forEach((count, speaker) => {
+    if (best === undefined || count > counts.get(best)!) best = speaker;
+  });
+  return best;
+}
+
 interface StreamingState {
   isConnected: boolean;
   isStreaming: boolean;
@@ -20,6 +37,8 @@ export function useDeepgramStreaming(options: StreamingOptions = {}) {
   const {
     enabled = false,
     model = 'nova-2',
+    language = 'en',
+    diarize = false,
     onPartialTranscript,
     onFinalTranscript,
     onError,
@@ -37,6 +56,8 @@ export function useDeepgramStreaming(options: StreamingOptions = {}) {
   const audioContextRef = useRef<AudioContext | null>(null);
   const processorRef = useRef<ScriptProcessorNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // When audio started flowing; Deepgram word times count from here
+  const streamStartedAtRef = useRef(0);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const retryCountRef = useRef(0);
   const maxRetries = 3;
@@ -45,7 +66,7 @@ export function useDeepgramStreaming(options: StreamingOptions = {}) {
     return new Promise<void>((resolve, reject) => {
       try {
         const projectId = import.meta.env.VITE_SUPABASE_PROJECT_ID || 'atlszopzpkouueqefbbz';
-        const wsUrl = `wss://${projectId}.supabase.co/functions/v1/deepgram-realtime?model=${model}`;
+        const wsUrl = `wss://${projectId}.supabase.co/functions/v1/deepgram-realtime?model=${model}&language=${language}&diarize=${diarize}`;
         
         console.log(`🔌 Connecting to Deepgram (${model})... Attempt ${retryCountRef.current + 1}/${maxRetries}`);
         
@@ -80,7 +101,10 @@ export function useDeepgramStreaming(options: StreamingOptions = {}) {
             if (data.type === 'partial' && onPartialTranscript) {
               onPartialTranscript(data.text);
             } else if (data.type === 'final' && onFinalTranscript) {
-              onFinalTranscript(data.text);
+              onFinalTranscript(data.text, {
+                words: fromDeepgramWords(data.words),
+                startedAt: streamStartedAtRef.current,
+              }, diarize ? mainSpeaker(data.words) : undefined);
             } else if (data.type === 'error' && onError) {
               onError(data.message);
               if (!isResolved) {
@@ -136,7 +160,7 @@ export function useDeepgramStreaming(options: StreamingOptions = {}) {
         reject(error);
       }
     });
-  }, [model, onPartialTranscript, onFinalTranscript, onError, enabled]);
+  }, [model, language, diarize, onPartialTranscript, onFinalTranscript, onError, enabled]);
 
   const disconnect = useCallback(() => {
     // Clear any pending reconnection attempts
@@ -214,6 +238,7 @@ export function useDeepgramStreaming(options: StreamingOptions = {}) {
 
       source.connect(processor);
       processor.connect(audioContext.destination);
+      streamStartedAtRef.current = Date.now();
 
       setState(prev => ({ ...prev, isStreaming: true }));
       console.log('🎙️ Streaming audio to Deepgram...');
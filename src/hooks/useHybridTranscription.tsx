@@ -1,27 +1,75 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { WhisperTranscription } from '@/utils/WhisperTranscription';
+import { CircuitBreaker } from '@/utils/RetryStrategy';
+import { AudioBackfillBuffer, transcribeBackfill } from '@/utils/AudioBackfillBuffer';
 import { useAssemblyAIStreaming } from './useAssemblyAIStreaming';
 import { useDeepgramStreaming } from './useDeepgramStreaming';
 import { useOpenAIRealtime } from './useOpenAIRealtime';
 import { MedicalAutoCorrector } from '@/utils/MedicalAutoCorrector';
+import { formatSectionText, parseVoiceCommands, type NoteSection, type VoiceCommand } from '@/lib/voiceCommands';
+import type { WordTiming } from '@/lib/wordTimings';
+import {
+  TRANSCRIPTION_PROVIDERS,
+  negotiateTranscription,
+  providerForModel,
+  type TranscriptionFinal,
+  type TranscriptionProvider,
+  type TranscriptionProviderId,
+} from '@/lib/transcriptionProviders';
+import {
+  detectFailure,
+  failoverMetric,
+  fallbackModels,
+  initialSupervisorState,
+  stitchTranscript,
+  type FailoverEvent,
+  type FailoverReason,
+  type SupervisorState,
+} from '@/lib/transcriptionFailover';
+import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 
 interface HybridTranscriptionConfig {
   sessionId?: string;
   mode?: 'whisper' | 'assemblyai' | 'deepgram' | 'openai-realtime' | 'auto';
   model?: string; // Specific model to use
+  language?: string; // Spoken language; falls back to English when the model lacks it
+  enableDiarization?: boolean; // Ask for speaker labels where the provider has them
   enableAutoCorrection?: boolean;
+  enableVoiceCommands?: boolean; // Strip spoken commands from final chunks and report them
+  enableFailover?: boolean; // Switch provider when the running one fails mid-session
+  fallbackModels?: string[]; // Tried in order on failover; defaults to one model per other provider
   onTranscriptUpdate?: (text: string, isFinal: boolean) => void;
-  onFinalTranscriptChunk?: (text: string) => void;
+  onFinalTranscriptChunk?: (text: string, timing?: WordTiming, speaker?: number) => void;
+  onVoiceCommand?: (command: VoiceCommand) => void;
+  onFinalTranscriptChunkRevised?: (text: string) => void; // Replaces the last final chunk, e.g. after "mark this as ..."
 }
 
+interface PendingFailover {
+  model: string;
+  fromModel: string;
+  reason: FailoverReason;
+  detectedAt: number;
+}
+
+/** How often the supervisor checks the running provider */
+const SUPERVISOR_INTERVAL_MS = 1000;
+
 export function useHybridTranscription(config: HybridTranscriptionConfig = {}) {
   const {
+    sessionId,
     mode = 'auto',
     model = 'whisper-1',
+    language = 'en',
+    enableDiarization = false,
     enableAutoCorrection = true,
+    enableVoiceCommands = false,
+    enableFailover = true,
+    fallbackModels: configuredFallbacks,
     onTranscriptUpdate,
     onFinalTranscriptChunk,
+    onVoiceCommand,
+    onFinalTranscriptChunkRevised,
   } = config;
 
   const [isActive, setIsActive] = useState(false);
@@ -34,6 +82,25 @@ export function useHybridTranscription(config: HybridTranscriptionConfig = {}) {
 
   const whisperRef = useRef<WhisperTranscription | null>(null);
   const autoCorrectorRef = useRef<MedicalAutoCorrector>(new MedicalAutoCorrector());
+  // The last dictated chunk emitted, so a later "mark this as ..." can retag it
+  const lastChunkRef = useRef<{ text: string; section?: NoteSection } | null>(null);
+
+  // Failover supervisor state, see lib/transcriptionFailover
+  const [pendingFailover, setPendingFailover] = useState<PendingFailover | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const backfillRef = useRef(new AudioBackfillBuffer());
+  const supervisorRef = useRef<SupervisorState>(initialSupervisorState());
+  const supervisingRef = useRef(false);
+  const failingOverRef = useRef(false);
+  const pausedRef = useRef(false);
+  // Bumped by start and stop, so a switch still in flight can tell it is stale
+  const runRef = useRef(0);
+  const triedProvidersRef = useRef(new Set<TranscriptionProviderId>());
+  const breakersRef = useRef<Partial<Record<TranscriptionProviderId, CircuitBreaker>>>({});
+  // Finals of the new provider wait here while the switch backfills
+  const heldFinalsRef = useRef<TranscriptionFinal[] | null>(null);
+  const stitchAfterRef = useRef<string | null>(null);
+  const lastFinalTextRef = useRef('');
 
   // Sync currentModel with model prop when it changes
   useEffect(() => {
@@ -43,41 +110,37 @@ export function useHybridTranscription(config: HybridTranscriptionConfig = {}) {
     }
   }, [model, isActive]);
 
-  // Determine provider based on current model
-  const getProviderFromModel = useCallback((modelName: string): 'whisper' | 'assemblyai' | 'deepgram' | 'openai-realtime' => {
-    if (modelName.startsWith('whisper-') || modelName.startsWith('gpt-')) {
-      return 'whisper';
-    } else if (modelName.startsWith('assemblyai-')) {
-      return 'assemblyai';
-    } else if (modelName.includes('nova') || modelName === 'enhanced' || modelName === 'whisper-large') {
-      return 'deepgram';
-    } else if (modelName.includes('silero') || modelName.includes('turn_detector')) {
-      return 'openai-realtime';
-    } else if (mode === 'assemblyai') {
-      return 'assemblyai';
-    } else if (mode === 'auto') {
-      return 'deepgram';
-    }
-    return 'whisper';
-  }, [mode]);
-
-  const currentProvider = getProviderFromModel(currentModel);
-
-  // AssemblyAI streaming (real-time, <500ms latency)
-  const assemblyAI = useAssemblyAIStreaming({
-    enabled: currentProvider === 'assemblyai' && isActive,
-    onPartialTranscript: (text) => {
-      if (onTranscriptUpdate) {
-        onTranscriptUpdate(text, false);
+  // Emit a final chunk: voice commands are pulled out first, then each dictated
+  // paragraph is corrected and forwarded as its own chunk. Kept in a ref so
+  // long-lived provider callbacks always see the latest settings.
+  const handleFinalTranscriptRef = useRef<(final: TranscriptionFinal) => void>(() => {});
+  handleFinalTranscriptRef.current = ({ text, timing, speaker }: TranscriptionFinal) => {
+    const items = enableVoiceCommands
+      ? parseVoiceCommands(text).items
+      : [{ type: 'text' as const, text }];
+    // Word timing only lines up with the text when the chunk was not split up
+    const chunkTiming = items.length === 1 && timing?.words.length ? timing : undefined;
+
+    for (const item of items) {
+      if (item.type === 'command') {
+        const { command } = item;
+        const last = lastChunkRef.current;
+        if (command.type === 'mark_section' && command.target === 'previous_chunk' && last && !last.section) {
+          last.section = command.section;
+          onFinalTranscriptChunkRevised?.(formatSectionText(last.text, last.section));
+        }
+        onVoiceCommand?.(command);
+        continue;
       }
-    },
-    onFinalTranscript: async (text) => {
-      const finalText = enableAutoCorrection 
-        ? autoCorrectorRef.current.correctTranscript(text, 'patient')
-        : text;
+
+      const correctedText = enableAutoCorrection
+        ? autoCorrectorRef.current.correctTranscript(item.text, 'patient')
+        : item.text;
+      lastChunkRef.current = { text: correctedText, section: item.section };
+      const finalText = formatSectionText(correctedText, item.section);
 
       if (onFinalTranscriptChunk) {
-        onFinalTranscriptChunk(finalText);
+        onFinalTranscriptChunk(finalText, chunkTiming, speaker);
       }
       if (onTranscriptUpdate) {
         onTranscriptUpdate(finalText, true);
@@ -88,77 +151,76 @@ export function useHybridTranscription(config: HybridTranscriptionConfig = {}) {
         totalChunks: prev.totalChunks + 1,
         correctedChunks: enableAutoCorrection ? prev.correctedChunks + 1 : prev.correctedChunks,
       }));
+    }
+  };
+
+  // Provider and settings for the selected model; the fallback covers
+  // models missing from the registry
+  const negotiated = negotiateTranscription(currentModel, { language, diarization: enableDiarization }, mode === 'auto' ? 'deepgram' : mode);
+  const currentProvider = negotiated.provider;
+
+  // Finals from whichever provider is running: held while a switch is
+  // backfilling, and stitched onto the text from before the switch
+  const receiveFinalRef = useRef<(final: TranscriptionFinal) => void>(() => {});
+  receiveFinalRef.current = (final: TranscriptionFinal) => {
+    supervisorRef.current.unansweredSpeechSince = null;
+    backfillRef.current.markTranscribed();
+    if (heldFinalsRef.current) {
+      heldFinalsRef.current.push(final);
+      return;
+    }
+
+    let next = final;
+    if (stitchAfterRef.current !== null) {
+      const text = stitchTranscript(stitchAfterRef.current, final.text);
+      stitchAfterRef.current = null;
+      if (!text) return;
+      // Word timing no longer lines up once words were dropped
+      if (text !== final.text.trim()) next = { ...final, text, timing: undefined };
+    }
+    lastFinalTextRef.current = next.text;
+    handleFinalTranscriptRef.current(next);
+  };
+
+  const events = {
+    onPartial: (text: string) => {
+      supervisorRef.current.unansweredSpeechSince = null;
+      onTranscriptUpdate?.(text, false);
     },
-    onError: (error) => {
-      console.error('❌ AssemblyAI error:', error);
+    onFinal: (final: TranscriptionFinal) => receiveFinalRef.current(final),
+    onError: (source: string) => (error: string) => {
+      console.error(`❌ ${source} error:`, error);
       toast.error('Streaming error: ' + error);
+      supervisorRef.current.errors.push(Date.now());
     },
+  };
+
+  // AssemblyAI streaming (real-time, <500ms latency)
+  const assemblyAI = useAssemblyAIStreaming({
+    enabled: currentProvider === 'assemblyai' && isActive,
+    onPartialTranscript: events.onPartial,
+    onFinalTranscript: async (text, timing) => events.onFinal({ text, timing }),
+    onError: events.onError('AssemblyAI'),
   });
 
   // Deepgram streaming (medical-grade, multiple models)
   const deepgram = useDeepgramStreaming({
     enabled: currentProvider === 'deepgram' && isActive,
     model: currentModel,
-    onPartialTranscript: (text) => {
-      if (onTranscriptUpdate) {
-        onTranscriptUpdate(text, false);
-      }
-    },
-    onFinalTranscript: async (text) => {
-      const finalText = enableAutoCorrection 
-        ? autoCorrectorRef.current.correctTranscript(text, 'patient')
-        : text;
-
-      if (onFinalTranscriptChunk) {
-        onFinalTranscriptChunk(finalText);
-      }
-      if (onTranscriptUpdate) {
-        onTranscriptUpdate(finalText, true);
-      }
-
-      setStats(prev => ({
-        ...prev,
-        totalChunks: prev.totalChunks + 1,
-        correctedChunks: enableAutoCorrection ? prev.correctedChunks + 1 : prev.correctedChunks,
-      }));
-    },
-    onError: (error) => {
-      console.error('❌ Deepgram error:', error);
-      toast.error('Streaming error: ' + error);
-    },
+    language: negotiated.options.language,
+    diarize: negotiated.options.diarization,
+    onPartialTranscript: events.onPartial,
+    onFinalTranscript: async (text, timing, speaker) => events.onFinal({ text, timing, speaker }),
+    onError: events.onError('Deepgram'),
   });
 
   // OpenAI Realtime (Silero VAD & Turn Detector)
   const openaiRealtime = useOpenAIRealtime({
     enabled: currentProvider === 'openai-realtime' && isActive,
     model: currentModel,
-    onPartialTranscript: (text) => {
-      if (onTranscriptUpdate) {
-        onTranscriptUpdate(text, false);
-      }
-    },
-    onFinalTranscript: async (text) => {
-      const finalText = enableAutoCorrection 
-        ? autoCorrectorRef.current.correctTranscript(text, 'patient')
-        : text;
-
-      if (onFinalTranscriptChunk) {
-        onFinalTranscriptChunk(finalText);
-      }
-      if (onTranscriptUpdate) {
-        onTranscriptUpdate(finalText, true);
-      }
-
-      setStats(prev => ({
-        ...prev,
-        totalChunks: prev.totalChunks + 1,
-        correctedChunks: enableAutoCorrection ? prev.correctedChunks + 1 : prev.correctedChunks,
-      }));
-    },
-    onError: (error) => {
-      console.error('❌ OpenAI Realtime error:', error);
-      toast.error('Streaming error: ' + error);
-    },
+    onPartialTranscript: events.onPartial,
+    onFinalTranscript: async (text) => events.onFinal({ text }),
+    onError: events.onError('OpenAI Realtime'),
     onSpeechStart: () => {
       console.log('🎤 Speech detected by VAD');
     },
@@ -167,253 +229,285 @@ export function useHybridTranscription(config: HybridTranscriptionConfig = {}) {
     },
   });
 
-  // Start transcription
-  const start = useCallback(async (stream: MediaStream): Promise<boolean> => {
-    try {
-      console.clear();
-      
-      const activeProvider = getProviderFromModel(currentModel);
-      
-      console.log('');
-      console.log('╔═══════════════════════════════════════════════════╗');
-      console.log('║                                                   ║');
-      console.log('║        🎯 TRANSCRIPTION ENGINE STARTING           ║');
-      console.log('║                                                   ║');
-      console.log('╚═══════════════════════════════════════════════════╝');
-      console.log('');
-      console.log('📋 SELECTED MODEL:', currentModel);
-      console.log('📋 DETERMINED PROVIDER:', activeProvider.toUpperCase());
-      console.log('');
-
-      let providerName = '';
-      let apiEndpoint = '';
-      
-      if (activeProvider === 'whisper') {
-        providerName = '🟦 OPENAI WHISPER';
-        apiEndpoint = '/functions/v1/whisper-transcribe';
-        console.log('┏━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━┓');
-        console.log('┃  ✅ ACTIVE: OpenAI Whisper API (Batch)        ┃');
-        console.log('┃  MODEL:', currentModel.padEnd(36), '┃');
-        console.log('┃  ENDPOINT:', apiEndpoint.padEnd(32), '┃');
-        console.log('┃  LATENCY: ~2-5 seconds per 10s segment        ┃');
-        console.log('┗━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━┛');
-      } else if (activeProvider === 'assemblyai') {
-        providerName = '🟩 ASSEMBLYAI';
-        apiEndpoint = 'wss://api.assemblyai.com/v2/realtime/ws';
-        console.log('┏━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━┓');
-        console.log('┃  ✅ ACTIVE: AssemblyAI Streaming (Real-Time)  ┃');
-        console.log('┃  MODEL:', currentModel.padEnd(36), '┃');
-        console.log('┃  ENDPOINT: WebSocket Streaming                ┃');
-        console.log('┃  LATENCY: <500ms (real-time)                  ┃');
-        console.log('┗━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━┛');
-      } else if (activeProvider === 'deepgram') {
-        providerName = '🟪 DEEPGRAM';
-        apiEndpoint = 'wss://api.deepgram.com/v1/listen';
-        console.log('┏━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━┓');
-        console.log('┃  ✅ ACTIVE: Deepgram Streaming (Medical-Grade)┃');
-        console.log('┃  MODEL:', currentModel.padEnd(36), '┃');
-        console.log('┃  ENDPOINT: WebSocket Streaming                ┃');
-        console.log('┃  LATENCY: <300ms (real-time)                  ┃');
-        console.log('┗━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━┛');
-      } else if (activeProvider === 'openai-realtime') {
-        providerName = '🟨 OPENAI REALTIME';
-        apiEndpoint = 'wss://api.openai.com/v1/realtime';
-        console.log('┏━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━┓');
-        console.log('┃  ✅ ACTIVE: OpenAI Realtime API with VAD      ┃');
-        console.log('┃  MODEL:', currentModel.padEnd(36), '┃');
-        console.log('┃  ENDPOINT: WebSocket Streaming                ┃');
-        console.log('┃  LATENCY: <100ms (ultra real-time)            ┃');
-        console.log('┗━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━┛');
-      }
-
-      console.log('');
-      setIsActive(true);
-
-      if (activeProvider === 'openai-realtime') {
-        // OpenAI Realtime with VAD (Silero/Turn Detector)
-        console.log('▶️ Starting OpenAI Realtime connection...');
-        if (!openaiRealtime.isConnected) {
-          await openaiRealtime.connect();
+  // The streaming hooks connect through their edge function, then stream
+  // the microphone themselves. Calls go through a ref so a start that waits
+  // for the connection sees the hook's state after it re-renders.
+  const streamingHooks = { assemblyai: assemblyAI, deepgram, 'openai-realtime': openaiRealtime };
+  const streamingHooksRef = useRef(streamingHooks);
+  streamingHooksRef.current = streamingHooks;
+
+  const streamingProvider = (id: keyof typeof streamingHooks): TranscriptionProvider => {
+    const hook = () => streamingHooksRef.current[id];
+    const current = streamingHooks[id];
+    return {
+      id,
+      capabilities: negotiated.capabilities,
+      isConnected: current.isConnected,
+      isStreaming: current.isStreaming,
+      isSpeaking: 'isSpeaking' in current ? current.isSpeaking : false,
+      async start() {
+        if (!hook().isConnected) {
+          await hook().connect();
           // Wait for connection with timeout
           const startTime = Date.now();
-          while (!openaiRealtime.isConnected && Date.now() - startTime < 10000) {
+          while (!hook().isConnected && Date.now() - startTime < 10000) {
             await new Promise(resolve => setTimeout(resolve, 100));
           }
-          if (!openaiRealtime.isConnected) {
-            throw new Error('OpenAI Realtime connection timeout');
+          if (!hook().isConnected) {
+            throw new Error(`${TRANSCRIPTION_PROVIDERS[id].label} connection timeout`);
           }
         }
-        await openaiRealtime.startStreaming();
-        console.log('✅ OpenAI Realtime streaming active with', currentModel);
-        toast.success(`🎯 ${currentModel} active - Ultra-low latency VAD (<100ms)`, { duration: 3000 });
-      } else if (activeProvider === 'assemblyai') {
-        // AssemblyAI Real-Time Streaming
-        console.log('▶️ Starting AssemblyAI connection...');
-        if (!assemblyAI.isConnected) {
-          await assemblyAI.connect();
-          // Wait for connection with timeout
-          const startTime = Date.now();
-          while (!assemblyAI.isConnected && Date.now() - startTime < 10000) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
-          if (!assemblyAI.isConnected) {
-            throw new Error('AssemblyAI connection timeout');
-          }
-        }
-        await assemblyAI.startStreaming();
-        const modelName = currentModel === 'assemblyai-best' ? 'Best (Highest Accuracy)' : 
-                         currentModel === 'assemblyai-nano' ? 'Nano (Fastest)' : 'Real-Time';
-        console.log('✅ AssemblyAI streaming active with', modelName);
-        toast.success(`🎯 AssemblyAI ${modelName} active (<500ms latency)`, { duration: 3000 });
-      } else if (activeProvider === 'deepgram') {
-        // Deepgram Medical & Nova Models
-        console.log('▶️ Starting Deepgram connection...');
-        if (!deepgram.isConnected) {
-          await deepgram.connect();
-          // Wait for connection with timeout
-          const startTime = Date.now();
-          while (!deepgram.isConnected && Date.now() - startTime < 10000) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
-          if (!deepgram.isConnected) {
-            throw new Error('Deepgram connection timeout');
+        await hook().startStreaming();
+      },
+      stop() {
+        hook().stopStreaming();
+        hook().disconnect();
+      },
+      pause: () => hook().pauseStreaming(),
+      resume: () => hook().resumeStreaming(),
+    };
+  };
+
+  // OpenAI Whisper records 10s segments and transcribes each one in a batch
+  const whisperProvider: TranscriptionProvider = {
+    id: 'whisper',
+    capabilities: negotiated.capabilities,
+    isConnected: false,
+    isStreaming: false,
+    isSpeaking: false,
+    async start(stream, options) {
+      whisperRef.current = new WhisperTranscription({
+        language: options.language,
+        mode: 'direct',
+        model: currentModel,
+        onResult: async (text, isFinal, timing) => {
+          if (isFinal) {
+            events.onFinal({ text, timing });
+          } else {
+            events.onPartial(text);
           }
-        }
-        await deepgram.startStreaming();
-        const isMedical = currentModel.includes('medical');
-        console.log('✅ Deepgram streaming active with', currentModel, isMedical ? '(Medical Grade)' : '');
-        toast.success(`🎯 Deepgram ${currentModel} active${isMedical ? ' - Medical Grade' : ''} (<300ms latency)`, { duration: 3000 });
-      } else {
-        // OpenAI Whisper Batch Processing
-        console.log('▶️ Starting OpenAI Whisper batch transcription...');
-        whisperRef.current = new WhisperTranscription({
-          language: 'en',
-          mode: 'direct',
-          model: currentModel,
-          onResult: async (text, isFinal) => {
-            const finalText = enableAutoCorrection && isFinal
-              ? autoCorrectorRef.current.correctTranscript(text, 'patient')
-              : text;
-
-            if (isFinal && onFinalTranscriptChunk) {
-              onFinalTranscriptChunk(finalText);
-            }
-            if (onTranscriptUpdate) {
-              onTranscriptUpdate(finalText, isFinal);
-            }
-
-            if (isFinal) {
-              setStats(prev => ({
-                ...prev,
-                totalChunks: prev.totalChunks + 1,
-                correctedChunks: enableAutoCorrection ? prev.correctedChunks + 1 : prev.correctedChunks,
-              }));
-            }
-          },
-          onError: (error) => {
-            console.error('❌ Whisper error:', error);
-            toast.error('Transcription error: ' + error);
-          },
-        });
-
-        await whisperRef.current.start(stream);
-        const modelDisplay = currentModel === 'whisper-1' ? 'Whisper-1 (Standard)' : 
-                            currentModel === 'gpt-4o-mini-transcribe' ? 'GPT-4o Mini (Advanced)' : currentModel;
-        console.log('✅ OpenAI Whisper batch processing active with', modelDisplay);
-        toast.success(`🎯 OpenAI ${modelDisplay} active (10s batch processing)`, { duration: 3000 });
+        },
+        onError: (error) => {
+          console.error('❌ Whisper error:', error);
+          toast.error('Transcription error: ' + error);
+          supervisorRef.current.errors.push(Date.now());
+        },
+      });
+      if (!(await whisperRef.current.start(stream))) {
+        throw new Error('Whisper failed to start');
+      }
+    },
+    stop() {
+      whisperRef.current?.stop();
+      whisperRef.current?.destroy();
+      whisperRef.current = null;
+    },
+    pause: () => whisperRef.current?.pause(),
+    resume: () => whisperRef.current?.resume(),
+  };
+
+  const providers: Record<TranscriptionProviderId, TranscriptionProvider> = {
+    whisper: whisperProvider,
+    assemblyai: streamingProvider('assemblyai'),
+    deepgram: streamingProvider('deepgram'),
+    'openai-realtime': streamingProvider('openai-realtime'),
+  };
+  const provider = providers[currentProvider];
+
+  // Provider methods change every render; the callbacks below read the latest
+  const providerRef = useRef(provider);
+  providerRef.current = provider;
+  const negotiatedRef = useRef(negotiated);
+  negotiatedRef.current = negotiated;
+  const currentModelRef = useRef(currentModel);
+  currentModelRef.current = currentModel;
+
+  const breakerFor = useCallback((id: TranscriptionProviderId) => {
+    breakersRef.current[id] ??= new CircuitBreaker(2, 5 * 60_000, 1);
+    return breakersRef.current[id]!;
+  }, []);
+
+  const recordFailover = useCallback(async (event: Omit<FailoverEvent, 'sessionId'>) => {
+    const { error } = await supabase.from('system_metrics').insert(failoverMetric({ ...event, sessionId }));
+    if (error) console.error('Failed to record transcription failover:', error);
+  }, [sessionId]);
+
+  // Replace a failed provider with the next fallback that hasn't failed in
+  // this session; it is started by the effect below once it has rendered
+  const failoverRef = useRef<(reason: FailoverReason) => void>(() => {});
+  failoverRef.current = (reason: FailoverReason) => {
+    if (failingOverRef.current) return;
+    failingOverRef.current = true;
+
+    const fromModel = currentModelRef.current;
+    const failed = providerRef.current;
+    console.warn(`⚠️ ${fromModel} failed (${reason}), switching provider`);
+    // A failed start was already counted by the breaker
+    if (reason !== 'start_failed') breakerFor(failed.id).recordFailure(failed.id);
+    try {
+      failed.stop();
+    } catch (error) {
+      console.error('Failed to stop provider:', error);
+    }
+
+    const next = fallbackModels(fromModel, negotiatedRef.current.options.language, configuredFallbacks).find(candidate => {
+      const provider = providerForModel(candidate);
+      return !triedProvidersRef.current.has(provider) && breakerFor(provider).getState().state !== 'open';
+    });
+
+    if (!next) {
+      supervisingRef.current = false;
+      failingOverRef.current = false;
+      heldFinalsRef.current = null;
+      backfillRef.current.stop();
+      setIsActive(false);
+      toast.error('Live transcription stopped - no other transcription provider is available');
+      void recordFailover({ reason, fromModel, toModel: null, switchMs: 0, backfilledChars: 0 });
+      return;
+    }
+
+    triedProvidersRef.current.add(providerForModel(next));
+    heldFinalsRef.current = [];
+    setCurrentModel(next);
+    setPendingFailover({ model: next, fromModel, reason, detectedAt: Date.now() });
+  };
+
+  // Start the fallback, then recover the audio the failed provider never answered for
+  useEffect(() => {
+    if (!pendingFailover || currentModel !== pendingFailover.model || !streamRef.current) return;
+    const { fromModel, reason, detectedAt } = pendingFailover;
+    const stream = streamRef.current;
+    const next = providerRef.current;
+    const { options } = negotiatedRef.current;
+    const run = runRef.current;
+    setPendingFailover(null);
+
+    (async () => {
+      try {
+        await breakerFor(next.id).execute(() => next.start(stream, options), next.id);
+      } catch (error) {
+        console.error(`❌ ${currentModel} failed to start:`, error);
+        if (run !== runRef.current) return;
+        failingOverRef.current = false;
+        failoverRef.current('start_failed');
+        return;
+      }
+      if (run !== runRef.current) return;
+      const switchMs = Date.now() - detectedAt;
+      toast.warning(`${fromModel} stopped responding - continuing with ${currentModel}`, { duration: 5000 });
+
+      const backfill = await transcribeBackfill(await backfillRef.current.takeUntranscribed(), options.language);
+      if (run !== runRef.current) return;
+      const recovered = backfill ? stitchTranscript(lastFinalTextRef.current, backfill) : '';
+      if (recovered) {
+        lastFinalTextRef.current = recovered;
+        handleFinalTranscriptRef.current({ text: recovered });
+      }
+
+      const held = heldFinalsRef.current || [];
+      heldFinalsRef.current = null;
+      stitchAfterRef.current = lastFinalTextRef.current;
+      held.forEach(final => receiveFinalRef.current(final));
+
+      supervisorRef.current = initialSupervisorState();
+      failingOverRef.current = false;
+      console.log(`✅ Failed over from ${fromModel} to ${currentModel} in ${switchMs}ms`);
+      void recordFailover({ reason, fromModel, toModel: currentModel, switchMs, backfilledChars: recovered.length });
+    })();
+  }, [pendingFailover, currentModel, breakerFor, recordFailover]);
+
+  // Watch the running provider for a dropped connection, repeated errors and
+  // speech that gets no transcript
+  useEffect(() => {
+    if (!isActive || !enableFailover) return;
+    const timer = setInterval(() => {
+      if (!supervisingRef.current || pausedRef.current || failingOverRef.current) return;
+      const now = Date.now();
+      const state = supervisorRef.current;
+      const active = providerRef.current;
+
+      if (active.capabilities.streaming) {
+        state.disconnectedSince = active.isConnected ? null : state.disconnectedSince ?? now;
       }
+      if (backfillRef.current.isSpeaking()) {
+        state.unansweredSpeechSince ??= now;
+      }
+
+      const reason = detectFailure(state, currentModelRef.current, now);
+      if (reason) failoverRef.current(reason);
+    }, SUPERVISOR_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isActive, enableFailover]);
+
+  // Start transcription
+  const start = useCallback(async (stream: MediaStream): Promise<boolean> => {
+    const active = providerRef.current;
+    const { options, unsupported } = negotiatedRef.current;
+    const info = TRANSCRIPTION_PROVIDERS[active.id];
 
-      console.log('');
-      console.log('╔═══════════════════════════════════════════════════╗');
-      console.log('║                                                   ║');
-      console.log('║        ✅ TRANSCRIPTION ACTIVE & RUNNING          ║');
-      console.log('║                                                   ║');
-      console.log('╚═══════════════════════════════════════════════════╝');
-      console.log('');
-      console.log('📊 ACTIVE PROVIDER:', providerName);
-      console.log('📊 ACTIVE MODEL:', currentModel);
-      console.log('📊 DETERMINED FROM MODEL NAME:', activeProvider.toUpperCase());
-      console.log('📊 API ENDPOINT:', apiEndpoint);
-      console.log('');
-      console.log('🎤 Listening for audio input...');
-      console.log('');
-      console.log('🔊 THIS PROVIDER IS NOW TRANSCRIBING YOUR AUDIO!');
-      console.log('');
+    try {
+      console.log(`🎯 Starting transcription: ${currentModel} via ${info.label} (${options.language})`);
+      if (unsupported.includes('language')) {
+        toast.warning(`${currentModel} doesn't support the selected language - transcribing in English`);
+      }
 
+      setIsActive(true);
+      lastChunkRef.current = null;
+      runRef.current++;
+      streamRef.current = stream;
+      supervisorRef.current = initialSupervisorState();
+      triedProvidersRef.current = new Set([active.id]);
+      failingOverRef.current = false;
+      pausedRef.current = false;
+      heldFinalsRef.current = null;
+      stitchAfterRef.current = null;
+      lastFinalTextRef.current = '';
+
+      await active.start(stream, options);
+
+      if (enableFailover) {
+        backfillRef.current.start(stream);
+        supervisingRef.current = true;
+      }
+
+      console.log(`✅ ${info.label} active with ${currentModel}`);
+      toast.success(`🎯 ${currentModel} active (${info.latency})`, { duration: 3000 });
       return true;
     } catch (error) {
       console.error('❌ Failed to start transcription:', error);
       setIsActive(false);
       return false;
     }
-  }, [mode, currentModel, enableAutoCorrection, assemblyAI, deepgram, openaiRealtime, onTranscriptUpdate, onFinalTranscriptChunk, getProviderFromModel]);
+  }, [currentModel, enableFailover]);
 
   // Stop transcription
   const stop = useCallback(() => {
-    const activeProvider = getProviderFromModel(currentModel);
-    
-    console.log('');
-    console.log('╔═══════════════════════════════════════════════════╗');
-    console.log('║                                                   ║');
-    console.log('║        🛑 STOPPING TRANSCRIPTION ENGINE           ║');
-    console.log('║                                                   ║');
-    console.log('╚═══════════════════════════════════════════════════╝');
-    console.log('');
-    console.log('📋 STOPPING PROVIDER:', activeProvider.toUpperCase());
-    console.log('');
-
-    if (activeProvider === 'openai-realtime') {
-      openaiRealtime.stopStreaming();
-      openaiRealtime.disconnect();
-      console.log('✅ 🟨 OpenAI Realtime stopped and disconnected');
-    } else if (activeProvider === 'deepgram') {
-      deepgram.stopStreaming();
-      deepgram.disconnect();
-      console.log('✅ 🟪 Deepgram stopped and disconnected');
-    } else if (activeProvider === 'assemblyai') {
-      assemblyAI.stopStreaming();
-      assemblyAI.disconnect();
-      console.log('✅ 🟩 AssemblyAI stopped and disconnected');
-    } else if (whisperRef.current) {
-      whisperRef.current.stop();
-      whisperRef.current.destroy();
-      whisperRef.current = null;
-      console.log('✅ 🟦 OpenAI Whisper stopped');
-    }
-
+    const active = providerRef.current;
+    runRef.current++;
+    supervisingRef.current = false;
+    failingOverRef.current = false;
+    heldFinalsRef.current = null;
+    setPendingFailover(null);
+    backfillRef.current.stop();
+    active.stop();
     setIsActive(false);
-    console.log('');
-    console.log('🏁 Transcription session ended');
-    console.log('');
-  }, [currentModel, assemblyAI, deepgram, openaiRealtime, getProviderFromModel]);
+    console.log(`🏁 ${TRANSCRIPTION_PROVIDERS[active.id].label} stopped`);
+  }, []);
 
   // Pause transcription
   const pause = useCallback(() => {
-    const activeProvider = getProviderFromModel(currentModel);
-    if (activeProvider === 'openai-realtime') {
-      openaiRealtime.pauseStreaming();
-    } else if (activeProvider === 'deepgram') {
-      deepgram.pauseStreaming();
-    } else if (activeProvider === 'assemblyai') {
-      assemblyAI.pauseStreaming();
-    } else if (whisperRef.current) {
-      whisperRef.current.pause();
-    }
-  }, [currentModel, assemblyAI, deepgram, openaiRealtime, getProviderFromModel]);
+    pausedRef.current = true;
+    backfillRef.current.pause();
+    providerRef.current.pause();
+  }, []);
 
   // Resume transcription
   const resume = useCallback(() => {
-    const activeProvider = getProviderFromModel(currentModel);
-    if (activeProvider === 'openai-realtime') {
-      openaiRealtime.resumeStreaming();
-    } else if (activeProvider === 'deepgram') {
-      deepgram.resumeStreaming();
-    } else if (activeProvider === 'assemblyai') {
-      assemblyAI.resumeStreaming();
-    } else if (whisperRef.current) {
-      whisperRef.current.resume();
-    }
-  }, [currentModel, assemblyAI, deepgram, openaiRealtime, getProviderFromModel]);
+    pausedRef.current = false;
+    supervisorRef.current = initialSupervisorState();
+    backfillRef.current.resume();
+    providerRef.current.resume();
+  }, []);
 
   // Switch transcription model
   const switchModel = useCallback((newModel: string) => {
@@ -429,18 +523,16 @@ export function useHybridTranscription(config: HybridTranscriptionConfig = {}) {
     isActive,
     currentMode: currentProvider,
     currentModel,
+    capabilities: negotiated.capabilities,
+    language: negotiated.options.language,
     stats,
     start,
     stop,
     pause,
     resume,
     switchModel,
-    isStreaming: (currentProvider === 'assemblyai' && assemblyAI.isStreaming) || 
-                 (currentProvider === 'deepgram' && deepgram.isStreaming) ||
-                 (currentProvider === 'openai-realtime' && openaiRealtime.isStreaming),
-    isConnected: (currentProvider === 'assemblyai' && assemblyAI.isConnected) ||
-                 (currentProvider === 'deepgram' && deepgram.isConnected) ||
-                 (currentProvider === 'openai-realtime' && openaiRealtime.isConnected),
-    isSpeaking: currentProvider === 'openai-realtime' ? openaiRealtime.isSpeaking : false,
+    isStreaming: provider.isStreaming,
+    isConnected: provider.isConnected,
+    isSpeaking: provider.isSpeaking,
   };
 }
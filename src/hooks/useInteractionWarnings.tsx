@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  INTERACTION_KB_VERSION,
+  checkInteractions,
+  interactionInputFromSession,
+  type InteractionCheckRecord,
+  type InteractionWarning,
+  type StoredEntity,
+} from '@/lib/drugInteractions';
+
+interface InteractionWarningsOptions {
+  sessionId: string | undefined;
+  noteSections?: Record<string, unknown> | null;
+  context?: string;
+  /** Record changed warnings in the history; off once the note is signed */
+  record?: boolean;
+}
+
+const warningKey = (warnings: InteractionWarning[]) => warnings.map(w => `${w.id}:${w.severity}`).join('|');
+
+/** Warnings have to settle this long before they are recorded, so typing doesn't record each keystroke */
+const RECORD_DELAY_MS = 2000;
+
+/**
+ * Drug–allergy and drug–drug warnings for a session, checked offline against
+ * the bundled knowledge base. Whenever the warnings change a check is added
+ * to the session's interaction_checks history with the knowledge base
+ * version, for audit. record_interaction_check() stamps the time and skips a
+ * check that matches the latest one.
+ */
+export function useInteractionWarnings({ sessionId, noteSections, context = '', record = true }: InteractionWarningsOptions) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['session-entities', sessionId],
+    queryFn: async () => {
+      const { data: entities, error } = await supabase
+        .from('session_entities')
+        .select('entity_type, text, start_offset, end_offset')
+        .eq('session_id', sessionId!)
+        .in('entity_type', ['medication', 'allergy']);
+      if (error) throw error;
+
+      const { data: latest, error: checkError } = await supabase
+        .from('interaction_checks')
+        .select('kb_version, checked_at, warnings')
+        .eq('session_id', sessionId!)
+        .order('checked_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (checkError) throw checkError;
+
+      return {
+        entities: (entities ?? []) as StoredEntity[],
+        recorded: (latest ?? null) as InteractionCheckRecord | null,
+      };
+    },
+    enabled: !!sessionId,
+  });
+
+  const warnings = useMemo(() => {
+    const sections = noteSections && typeof noteSections === 'object' && !Array.isArray(noteSections) ? noteSections : null;
+    return checkInteractions(interactionInputFromSession(data?.entities ?? [], sections, context));
+  }, [data?.entities, noteSections, context]);
+
+  const recorded = data?.recorded;
+  // The check being recorded, so a re-render doesn't send it again meanwhile
+  const pendingKeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!record || !sessionId || !data) return;
+    const key = `${INTERACTION_KB_VERSION}|${warningKey(warnings)}`;
+    const changed = warningKey(warnings) !== warningKey(recorded?.warnings ?? [])
+      || (recorded !== null && recorded?.kb_version !== INTERACTION_KB_VERSION);
+    if (!changed || pendingKeyRef.current === key) return;
+
+    const timer = setTimeout(async () => {
+      pendingKeyRef.current = key;
+      const { data: check, error } = await supabase.rpc('record_interaction_check', {
+        _session_id: sessionId,
+        _kb_version: INTERACTION_KB_VERSION,
+        _warnings: warnings as unknown as Json,
+      });
+      pendingKeyRef.current = null;
+      if (error || !check) {
+        console.error('Failed to record interaction check:', error);
+        return;
+      }
+      const recordedCheck: InteractionCheckRecord = {
+        kb_version: check.kb_version,
+        checked_at: check.checked_at,
+        warnings: check.warnings as unknown as InteractionWarning[],
+      };
+      queryClient.setQueryData(['session-entities', sessionId], { ...data, recorded: recordedCheck });
+    }, RECORD_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [warnings, recorded, record, sessionId, data, queryClient]);
+
+  return { warnings, isLoading };
+}
@@ -0,0 +1,206 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { Session } from '@/hooks/useSessions';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  parseMedication,
+  reconcileMedications,
+  type MedicationChange,
+  type NormalizedMedication,
+} from '@/lib/medications';
+
+export type ReconciliationDecision = 'confirmed' | 'rejected';
+
+export interface MedicationReconciliation {
+  /** The earlier visit medications were compared with, if any */
+  previousSession: { id: string; created_at: string } | null;
+  changes: MedicationChange[];
+  /** Clinician decisions by drug name */
+  decisions: Record<string, ReconciliationDecision>;
+}
+
+type ReconciledSession = Pick<Session, 'id' | 'user_id' | 'created_at' | 'patient_id' | 'patient_record_id'>;
+
+interface MedicationEntityRow {
+  session_id: string;
+  text: string;
+  drug_name: string | null;
+  dose: string | null;
+  route: string | null;
+  frequency: string | null;
+}
+
+const medicationFromEntity = (row: MedicationEntityRow): NormalizedMedication => ({
+  drug_name: row.drug_name ?? '',
+  display_name: parseMedication(row.text)?.display_name ?? row.drug_name ?? row.text,
+  dose: row.dose,
+  route: row.route,
+  frequency: row.frequency,
+  source_text: row.text,
+});
+
+/** Earlier visits checked for a medication list to compare with */
+const PREVIOUS_VISITS_CHECKED = 5;
+
+/**
+ * The most recent earlier visit of the same patient that has extracted
+ * medications: linked to the same patient record, or with the same MRN when
+ * the session isn't linked
+ */
+async function findPreviousMedications(session: ReconciledSession) {
+  let query = supabase
+    .from('sessions')
+    .select('id, created_at')
+    .neq('id', session.id)
+    .lt('created_at', session.created_at)
+    .order('created_at', { ascending: false })
+    .limit(PREVIOUS_VISITS_CHECKED);
+
+  if (session.patient_record_id) {
+    query = query.eq('patient_record_id', session.patient_record_id);
+  } else if (session.patient_id?.trim()) {
+    query = query.eq('user_id', session.user_id).eq('patient_id', session.patient_id);
+  } else {
+    return { previousSession: null, medications: [] };
+  }
+
+  const { data: sessions, error } = await query;
+  if (error) throw error;
+  if (!sessions?.length) return { previousSession: null, medications: [] };
+
+  const { data: rows, error: entitiesError } = await supabase
+    .from('session_entities')
+    .select('session_id, text, drug_name, dose, route, frequency')
+    .in('session_id', sessions.map(s => s.id))
+    .not('drug_name', 'is', null);
+  if (entitiesError) throw entitiesError;
+
+  const previousSession = sessions.find(s => rows?.some(row => row.session_id === s.id)) ?? null;
+  return {
+    previousSession,
+    medications: (rows ?? []).filter(row => row.session_id === previousSession?.id).map(medicationFromEntity),
+  };
+}
+
+/**
+ * This session's medications compared with the patient's previous visit,
+ * with the clinician's decision on each line
+ */
+export function useMedicationReconciliation(session: ReconciledSession | null | undefined) {
+  return useQuery({
+    queryKey: ['medication-reconciliation', session?.id],
+    queryFn: async (): Promise<MedicationReconciliation> => {
+      if (!session) return { previousSession: null, changes: [], decisions: {} };
+
+      const { data: rows, error } = await supabase
+        .from('session_entities')
+        .select('session_id, text, drug_name, dose, route, frequency')
+        .eq('session_id', session.id)
+        .not('drug_name', 'is', null);
+      if (error) throw error;
+
+      const { data: decisions, error: decisionsError } = await supabase
+        .from('medication_reconciliations')
+        .select('drug_name, decision')
+        .eq('session_id', session.id);
+      if (decisionsError) throw decisionsError;
+
+      const { previousSession, medications } = await findPreviousMedications(session);
+
+      return {
+        previousSession,
+        changes: reconcileMedications(medications, (rows ?? []).map(medicationFromEntity)),
+        decisions: Object.fromEntries((decisions ?? []).map(d => [d.drug_name, d.decision as ReconciliationDecision])),
+      };
+    },
+    enabled: !!session?.id,
+  });
+}
+
+/** Run entity extraction on the session transcript and save the results */
+export function useExtractSessionEntities() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const { data: transcripts, error: transcriptError } = await supabase
+        .from('session_transcripts')
+        .select('speaker, text')
+        .eq('session_id', sessionId)
+        .order('timestamp_offset', { ascending: true });
+      if (transcriptError) throw transcriptError;
+
+      const text = (transcripts ?? []).map(t => `${t.speaker}: ${t.text}`).join('\n');
+      if (!text.trim()) throw new Error('No transcript to extract medications from');
+
+      const { data, error } = await supabase.functions.invoke('extract-medical-entities', {
+        body: { session_id: sessionId, text },
+      });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error?.message || 'Entity extraction failed');
+      return data.medications as NormalizedMedication[];
+    },
+    onSuccess: (medications, sessionId) => {
+      queryClient.invalidateQueries({ queryKey: ['medication-reconciliation', sessionId] });
+      queryClient.invalidateQueries({ queryKey: ['session-entities', sessionId] });
+      toast.success(`Found ${medications.length} medication${medications.length === 1 ? '' : 's'}`);
+    },
+    onError: (error) => {
+      toast.error('Failed to extract medications: ' + error.message);
+    },
+  });
+}
+
+/** Confirm or reject one reconciliation line; null clears the decision */
+export function useDecideMedication() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      sessionId,
+      previousSessionId,
+      change,
+      decision,
+    }: {
+      sessionId: string;
+      previousSessionId: string | null;
+      change: MedicationChange;
+      decision: ReconciliationDecision | null;
+    }) => {
+      if (decision === null) {
+        const { error } = await supabase
+          .from('medication_reconciliations')
+          .delete()
+          .eq('session_id', sessionId)
+          .eq('drug_name', change.drug_name);
+        if (error) throw error;
+        return;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('medication_reconciliations')
+        .upsert({
+          session_id: sessionId,
+          previous_session_id: previousSessionId,
+          drug_name: change.drug_name,
+          change: change.change,
+          decision,
+          previous: change.previous as unknown as Json,
+          current: change.current as unknown as Json,
+          decided_by: user.id,
+          decided_at: new Date().toISOString(),
+        }, { onConflict: 'session_id,drug_name' });
+      if (error) throw error;
+    },
+    onSuccess: (_, { sessionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['medication-reconciliation', sessionId] });
+    },
+    onError: (error) => {
+      toast.error('Failed to save decision: ' + error.message);
+    },
+  });
+}
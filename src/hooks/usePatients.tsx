@@ -0,0 +1,206 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { Session } from '@/hooks/useSessions';
+import type { Task } from '@/hooks/useTasks';
+
+export interface Patient {
+  id: string;
+  user_id: string;
+  team_id: string | null;
+  full_name: string;
+  mrn: string | null;
+  date_of_birth: string | null;
+  merged_into: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PatientChart {
+  patient: Patient;
+  /** Encounters, newest first */
+  sessions: Session[];
+  tasks: Task[];
+}
+
+/** Patients visible to the user, merged duplicates left out */
+export function usePatients() {
+  return useQuery({
+    queryKey: ['patients'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('patients')
+        .select('*')
+        .is('merged_into', null)
+        .order('full_name', { ascending: true });
+
+      if (error) throw error;
+      return data as Patient[];
+    },
+  });
+}
+
+/**
+ * A patient with every linked session and their tasks. Opening a merged
+ * duplicate shows the patient it was merged into.
+ */
+export function usePatientChart(patientId: string | undefined) {
+  return useQuery({
+    queryKey: ['patient-chart', patientId],
+    queryFn: async () => {
+      if (!patientId) return null;
+
+      let { data: patient, error } = await supabase
+        .from('patients')
+        .select('*')
+        .eq('id', patientId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (patient?.merged_into) {
+        ({ data: patient, error } = await supabase
+          .from('patients')
+          .select('*')
+          .eq('id', patient.merged_into)
+          .maybeSingle());
+        if (error) throw error;
+      }
+      if (!patient) return null;
+
+      const { data: sessions, error: sessionsError } = await supabase
+        .from('sessions')
+        .select('*')
+        .eq('patient_record_id', patient.id)
+        .order('created_at', { ascending: false });
+
+      if (sessionsError) throw sessionsError;
+
+      const sessionIds = (sessions ?? []).map(session => session.id);
+      let tasks: Task[] = [];
+      if (sessionIds.length > 0) {
+        const { data: taskData, error: tasksError } = await supabase
+          .from('tasks')
+          .select('*')
+          .in('session_id', sessionIds)
+          .order('created_at', { ascending: false });
+
+        if (tasksError) throw tasksError;
+        tasks = taskData as Task[];
+      }
+
+      return { patient: patient as Patient, sessions: sessions as Session[], tasks } as PatientChart;
+    },
+    enabled: !!patientId,
+  });
+}
+
+export function useCreatePatient() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (patient: { full_name: string; mrn?: string | null; date_of_birth?: string | null; team_id?: string | null }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('patients')
+        .insert({
+          ...patient,
+          full_name: patient.full_name.trim(),
+          user_id: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Patient;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to create patient: ' + error.message);
+    },
+  });
+}
+
+/** Corrections are copied to every linked session by the database */
+export function useUpdatePatient() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Pick<Patient, 'full_name' | 'mrn' | 'date_of_birth' | 'team_id'>> }) => {
+      const { data, error } = await supabase
+        .from('patients')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Patient;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-chart'] });
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      toast.success('Patient updated');
+    },
+    onError: (error) => {
+      toast.error('Failed to update patient: ' + error.message);
+    },
+  });
+}
+
+/** Link a session to a patient, or unlink it with null */
+export function useLinkSessionPatient() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sessionId, patientId }: { sessionId: string; patientId: string | null }) => {
+      const { data, error } = await supabase
+        .from('sessions')
+        .update({ patient_record_id: patientId })
+        .eq('id', sessionId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Session;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['session', data.id] });
+      queryClient.invalidateQueries({ queryKey: ['patient-chart'] });
+      toast.success(data.patient_record_id ? `Linked to ${data.patient_name}` : 'Patient unlinked');
+    },
+    onError: (error) => {
+      toast.error('Failed to link patient: ' + error.message);
+    },
+  });
+}
+
+export function useMergePatients() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ keepId, duplicateId }: { keepId: string; duplicateId: string }) => {
+      const { data, error } = await supabase.rpc('merge_patients', {
+        _keep_id: keepId,
+        _duplicate_id: duplicateId,
+      });
+
+      if (error) throw error;
+      return data as number;
+    },
+    onSuccess: (moved) => {
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-chart'] });
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      toast.success(`Patients merged${moved ? ` · ${moved} session${moved === 1 ? '' : 's'} moved` : ''}`);
+    },
+    onError: (error) => {
+      toast.error('Failed to merge patients: ' + error.message);
+    },
+  });
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getRecordingSyncWorker } from '@/utils/RecordingSyncWorker';
+import type { QueuedRecording } from '@/lib/recordingQueue';
+
+/**
+ * Recordings waiting in the offline queue. Starts the sync worker, which keeps
+ * running for the lifetime of the page.
+ */
+export function useRecordingQueue() {
+  const [recordings, setRecordings] = useState<QueuedRecording[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const worker = getRecordingSyncWorker();
+    let cancelled = false;
+
+    const refresh = () => {
+      worker.store
+        .listRecordings()
+        .then(list => {
+          if (!cancelled) setRecordings(list);
+        })
+        .catch(error => console.error('Failed to read recording queue:', error));
+    };
+
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+
+    const unsubscribe = worker.subscribe(refresh);
+    worker.start();
+    refresh();
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  const syncNow = useCallback(() => getRecordingSyncWorker().syncNow({ force: true }), []);
+  const retry = useCallback((id: string) => getRecordingSyncWorker().retry(id), []);
+  const discard = useCallback((id: string) => getRecordingSyncWorker().discard(id), []);
+
+  return {
+    recordings,
+    pendingCount: recordings.filter(r => r.status !== 'recording').length,
+    isOnline,
+    syncNow,
+    retry,
+    discard,
+  };
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  CHECKPOINT_INTERVAL_MS,
+  CHECKPOINT_VERSION,
+  clearCheckpoint,
+  hasRecoverableState,
+  loadCheckpoint,
+  saveCheckpoint,
+  timeUntilInterrupted,
+  type SessionCheckpoint,
+} from '@/lib/sessionCheckpoint';
+
+interface SessionCheckpointOptions {
+  sessionId?: string;
+  /** Checkpoints are written while this is true */
+  isRecording: boolean;
+  getState: () => Pick<SessionCheckpoint, 'elapsedMs' | 'unsavedChunks' | 'diarization'>;
+  getRecordingId: () => string | null;
+  recordedSeconds: number;
+}
+
+/**
+ * Periodic crash recovery checkpoints for a recording session. Returns the
+ * checkpoint of an earlier recording of this session that was interrupted,
+ * once it is clear no other tab is still writing it.
+ */
+export function useSessionCheckpoint({
+  sessionId,
+  isRecording,
+  getState,
+  getRecordingId,
+  recordedSeconds,
+}: SessionCheckpointOptions) {
+  const [interrupted, setInterrupted] = useState<SessionCheckpoint | null>(null);
+  const writingRef = useRef(false);
+  const latestRef = useRef({ getState, getRecordingId, recordedSeconds, isRecording });
+  latestRef.current = { getState, getRecordingId, recordedSeconds, isRecording };
+
+  // Look for an interrupted recording when the session opens
+  useEffect(() => {
+    setInterrupted(null);
+    writingRef.current = false;
+    if (!sessionId) return;
+
+    const checkpoint = loadCheckpoint(sessionId);
+    if (!checkpoint) return;
+    if (!hasRecoverableState(checkpoint)) {
+      clearCheckpoint(sessionId);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      // Another tab may have finished or refreshed it in the meantime
+      const latest = loadCheckpoint(sessionId);
+      if (latest && timeUntilInterrupted(latest) === 0 && !writingRef.current) {
+        setInterrupted(latest);
+      }
+    }, timeUntilInterrupted(checkpoint));
+    return () => clearTimeout(timer);
+  }, [sessionId]);
+
+  const write = useCallback((closedAt: number | null = null) => {
+    if (!sessionId) return;
+    const { getState, getRecordingId, recordedSeconds } = latestRef.current;
+    saveCheckpoint({
+      version: CHECKPOINT_VERSION,
+      sessionId,
+      savedAt: Date.now(),
+      recordedSeconds,
+      recordingId: getRecordingId(),
+      closedAt,
+      ...getState(),
+    });
+  }, [sessionId]);
+
+  // Write while recording, and after stopping until the last segments are saved
+  useEffect(() => {
+    if (!sessionId || interrupted) return;
+    if (isRecording) {
+      writingRef.current = true;
+      write();
+    }
+
+    const timer = setInterval(() => {
+      if (!writingRef.current) return;
+      if (!latestRef.current.isRecording && latestRef.current.getState().unsavedChunks.length === 0) {
+        writingRef.current = false;
+        clearCheckpoint(sessionId);
+        return;
+      }
+      write();
+    }, CHECKPOINT_INTERVAL_MS);
+
+    const handlePageHide = () => {
+      if (writingRef.current) write(Date.now());
+    };
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, [sessionId, isRecording, interrupted, write]);
+
+  /** Take over the interrupted checkpoint; it is kept up to date from here on */
+  const resume = useCallback(() => {
+    const checkpoint = interrupted;
+    writingRef.current = true;
+    setInterrupted(null);
+    return checkpoint;
+  }, [interrupted]);
+
+  const discard = useCallback(() => {
+    if (sessionId) clearCheckpoint(sessionId);
+    setInterrupted(null);
+  }, [sessionId]);
+
+  return { interrupted, resume, discard };
+}
@@ -1,6 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+import { canTransition, NOTE_STATUS_LABELS, type NoteStatus } from '@/lib/noteLifecycle';
 
 export interface Session {
   id: string;
@@ -8,6 +10,8 @@ export interface Session {
   patient_name: string;
   patient_id: string;
   patient_dob?: string;
+  /** Linked patient record; the patient_* fields above are copies of it */
+  patient_record_id?: string | null;
   chief_complaint?: string;
   appointment_type?: string;
   visit_mode: string;
@@ -15,8 +19,13 @@ export interface Session {
   output_language: string;
   scheduled_at?: string;
   status: string;
+  note_status: NoteStatus;
+  submitted_for_review_at?: string | null;
+  signed_at?: string | null;
+  signed_by?: string | null;
   generated_note?: string;
   note_json?: any;
+  note_evidence?: unknown;
   clinical_codes?: any;
   template_id?: string;
   created_at: string;
@@ -181,3 +190,221 @@ export function useDeleteSession() {
     },
   });
 }
+
+export interface NoteAddendum {
+  id: string;
+  session_id: string;
+  author_id: string;
+  content: string;
+  reason: string | null;
+  created_at: string;
+}
+
+/**
+ * Move a note through draft -> pending_review -> signed. The database trigger
+ * stamps review and signature times; the status filter guards against races.
+ */
+export function useTransitionNoteStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, from, to }: { id: string; from: NoteStatus; to: NoteStatus }) => {
+      if (!canTransition(from, to)) {
+        throw new Error(`Cannot move a ${NOTE_STATUS_LABELS[from].toLowerCase()} note to ${NOTE_STATUS_LABELS[to].toLowerCase()}`);
+      }
+
+      const { data, error } = await supabase
+        .from('sessions')
+        .update({ note_status: to })
+        .eq('id', id)
+        .eq('note_status', from)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new Error('Note status changed elsewhere; reload and try again');
+      return data as Session;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['session', data.id] });
+      toast.success(
+        data.note_status === 'signed' ? 'Note signed and locked' : `Note moved to ${NOTE_STATUS_LABELS[data.note_status]}`
+      );
+    },
+    onError: (error) => {
+      toast.error('Failed to update note status: ' + error.message);
+    },
+  });
+}
+
+export function useNoteAddenda(sessionId: string | undefined) {
+  return useQuery({
+    queryKey: ['note_addenda', sessionId],
+    queryFn: async () => {
+      if (!sessionId) return [];
+
+      const { data, error } = await supabase
+        .from('note_addenda')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as NoteAddendum[];
+    },
+    enabled: !!sessionId,
+  });
+}
+
+export function useAddNoteAddendum() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sessionId, content, reason }: { sessionId: string; content: string; reason?: string }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('note_addenda')
+        .insert({
+          session_id: sessionId,
+          author_id: user.id,
+          content,
+          reason: reason || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as NoteAddendum;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['note_addenda', data.session_id] });
+      queryClient.invalidateQueries({ queryKey: ['session', data.session_id] });
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      toast.success('Addendum added');
+    },
+    onError: (error) => {
+      toast.error('Failed to add addendum: ' + error.message);
+    },
+  });
+}
+
+export interface NoteVersion {
+  id: string;
+  session_id: string;
+  version_number: number;
+  generated_note: string | null;
+  note_json: Json | null;
+  source: 'ai' | 'manual' | 'restore';
+  model: string | null;
+  template_id: string | null;
+  detail_level: string | null;
+  restored_from: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export function useNoteVersions(sessionId: string | undefined) {
+  return useQuery({
+    queryKey: ['note_versions', sessionId],
+    queryFn: async () => {
+      if (!sessionId) return [];
+
+      const { data, error } = await supabase
+        .from('note_versions')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('version_number', { ascending: false });
+
+      if (error) throw error;
+      return data as NoteVersion[];
+    },
+    enabled: !!sessionId,
+  });
+}
+
+/**
+ * Restore a prior version. The restore itself is recorded as a new version.
+ */
+export function useRestoreNoteVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (version: NoteVersion) => {
+      const { data, error } = await supabase
+        .from('sessions')
+        .update({
+          generated_note: version.generated_note,
+          note_json: version.note_json,
+          note_provenance: {
+            source: 'restore',
+            restored_from: version.id,
+            restored_version: version.version_number,
+            // Unchanged provenance is taken as a manual edit, so restoring the same version twice must differ
+            restored_at: new Date().toISOString(),
+          },
+        })
+        .eq('id', version.session_id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Session;
+    },
+    onSuccess: (data, version) => {
+      queryClient.invalidateQueries({ queryKey: ['note_versions', data.id] });
+      queryClient.invalidateQueries({ queryKey: ['session', data.id] });
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      toast.success(`Restored version ${version.version_number}`);
+    },
+    onError: (error) => {
+      toast.error('Failed to restore version: ' + error.message);
+    },
+  });
+}
+
+export interface SessionRecording {
+  id: string;
+  session_id: string;
+  storage_path: string;
+  mime_type: string;
+  started_at: string;
+  duration_ms: number | null;
+  /** Short-lived signed URL for playback */
+  url: string;
+}
+
+/** How long a playback URL stays valid */
+const RECORDING_URL_TTL_SECONDS = 60 * 60;
+
+export function useSessionRecordings(sessionId: string | undefined) {
+  return useQuery({
+    queryKey: ['session_recordings', sessionId],
+    queryFn: async () => {
+      if (!sessionId) return [];
+
+      const { data, error } = await supabase
+        .from('session_recordings')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('started_at', { ascending: true });
+
+      if (error) throw error;
+      if (!data?.length) return [];
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from('audio-recordings')
+        .createSignedUrls(data.map(r => r.storage_path), RECORDING_URL_TTL_SECONDS);
+
+      if (signError) throw signError;
+      return data
+        .map((recording, index) => ({ ...recording, url: signed?.[index]?.signedUrl ?? '' }))
+        .filter(recording => recording.url) as SessionRecording[];
+    },
+    enabled: !!sessionId,
+    // Refetch before the signed URLs expire
+    staleTime: (RECORDING_URL_TTL_SECONDS - 5 * 60) * 1000,
+  });
+}
@@ -0,0 +1,62 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+/** A team's monthly budgets (null = unlimited) and this month's usage */
+export interface TeamBudgetUsage {
+  team_id: string;
+  team_name: string;
+  monthly_ai_requests: number | null;
+  monthly_transcription_minutes: number | null;
+  ai_requests_used: number;
+  transcription_minutes_used: number;
+}
+
+export function useTeamBudgets(enabled = true) {
+  return useQuery({
+    queryKey: ['team-budgets'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_team_budget_usage');
+
+      if (error) throw error;
+      return (data ?? []) as TeamBudgetUsage[];
+    },
+    enabled,
+  });
+}
+
+export function useUpdateTeamBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      teamId,
+      monthly_ai_requests,
+      monthly_transcription_minutes,
+    }: {
+      teamId: string;
+      monthly_ai_requests: number | null;
+      monthly_transcription_minutes: number | null;
+    }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('team_budgets')
+        .upsert({
+          team_id: teamId,
+          monthly_ai_requests,
+          monthly_transcription_minutes,
+          updated_by: user?.id ?? null,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['team-budgets'] });
+      toast.success('Team budget updated');
+    },
+    onError: (error) => {
+      toast.error('Failed to update team budget: ' + error.message);
+    },
+  });
+}
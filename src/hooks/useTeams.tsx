@@ -6,6 +6,14 @@ export interface Team {
   id: string;
   name: string;
   description?: string;
+  logo_url?: string | null;
+  address?: string | null;
+  hl7_sending_application?: string | null;
+  hl7_sending_facility?: string | null;
+  hl7_receiving_application?: string | null;
+  hl7_receiving_facility?: string | null;
+  hl7_mllp_host?: string | null;
+  hl7_mllp_port?: number | null;
   created_by: string;
   created_at: string;
   updated_at: string;
@@ -120,6 +128,74 @@ export function useCreateTeam() {
   });
 }
 
+export function useUpdateTeamLetterhead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ 
+      teamId, 
+      logo_url, 
+      address 
+    }: { 
+      teamId: string; 
+      logo_url: string | null; 
+      address: string | null 
+    }) => {
+      const { data, error } = await supabase
+        .from('teams')
+        .update({ logo_url, address })
+        .eq('id', teamId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Team;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['teams'] });
+      toast.success('Letterhead updated');
+    },
+    onError: (error) => {
+      toast.error('Failed to update letterhead: ' + error.message);
+    },
+  });
+}
+
+export type TeamHl7Settings = Pick<
+  Team,
+  | 'hl7_sending_application'
+  | 'hl7_sending_facility'
+  | 'hl7_receiving_application'
+  | 'hl7_receiving_facility'
+  | 'hl7_mllp_host'
+  | 'hl7_mllp_port'
+>;
+
+export function useUpdateTeamHl7Settings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ teamId, settings }: { teamId: string; settings: TeamHl7Settings }) => {
+      const { data, error } = await supabase
+        .from('teams')
+        .update(settings)
+        .eq('id', teamId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Team;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['teams'] });
+      toast.success('HL7 settings updated');
+    },
+    onError: (error) => {
+      toast.error('Failed to update HL7 settings: ' + error.message);
+    },
+  });
+}
+
 export function useInviteTeamMember() {
   const queryClient = useQueryClient();
 
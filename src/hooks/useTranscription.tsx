@@ -1,9 +1,12 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { toast } from 'sonner';
 import { useTranscriptUpdates } from './useRealtime';
 import { VoiceAnalyzer, VoiceCharacteristics } from '@/utils/VoiceAnalyzer';
 import { AdvancedSpeakerDiarization } from '@/utils/AdvancedSpeakerDiarization';
+import { unsavedChunksToRestore, type SessionCheckpoint } from '@/lib/sessionCheckpoint';
+import type { TranscriptWord } from '@/lib/wordTimings';
 
 interface TranscriptChunk {
   id: string;
@@ -21,6 +24,14 @@ interface PendingChunk {
   speaker: string;
   timestamp: number;
   tempId: string;
+  recordingId?: string | null;
+  words?: TranscriptWord[];
+}
+
+/** The queued recording a chunk was heard in, with word times on its clock */
+interface ChunkAudio {
+  recordingId: string;
+  words: TranscriptWord[];
 }
 
 interface TranscriptionStats {
@@ -48,6 +59,8 @@ export function useTranscription(sessionId: string, currentVoiceGender?: 'male'
 
   // Queue system for batching inserts
   const pendingChunksRef = useRef<PendingChunk[]>([]);
+  // Everything shown but not yet confirmed saved, including batches in flight (for crash recovery)
+  const unsavedChunksRef = useRef<PendingChunk[]>([]);
   const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
   const saveInProgressRef = useRef(false);
   const consecutiveFailuresRef = useRef(0);
@@ -59,9 +72,12 @@ export function useTranscription(sessionId: string, currentVoiceGender?: 'male'
   
   // STRATEGY 3: Continuous 5+ minute session support
   const sessionStartTimeRef = useRef<number>(0);
+  const resumedSessionRef = useRef(false);
   const lastHealthCheckRef = useRef<number>(Date.now());
   const connectionHealthRef = useRef<'healthy' | 'degraded' | 'offline'>('healthy');
   const failedBatchesRef = useRef<any[]>([]);
+  // The most recently added chunk and, once saved, its row id
+  const lastChunkRef = useRef<{ chunk: PendingChunk; id: string | null } | null>(null);
   const memoryOptimizerTimerRef = useRef<NodeJS.Timeout | null>(null);
   
   // Voice analysis for gender detection
@@ -450,6 +466,8 @@ export function useTranscription(sessionId: string, currentVoiceGender?: 'male'
             text: chunk.text.trim(),
             speaker: chunk.speaker,
             timestamp_offset: chunk.timestamp,
+            recording_id: chunk.recordingId ?? null,
+            words: chunk.words?.length ? (chunk.words as unknown as Json) : null,
           }))
         )
         .select();
@@ -472,6 +490,8 @@ export function useTranscription(sessionId: string, currentVoiceGender?: 'male'
       console.log(`✅ Saved batch of ${data.length} chunks successfully (${latency}ms)`);
       
       consecutiveFailuresRef.current = 0;
+      const savedIds = new Set(chunks.map(chunk => chunk.tempId));
+      unsavedChunksRef.current = unsavedChunksRef.current.filter(chunk => !savedIds.has(chunk.tempId));
       
       // Update stats
       setStats(prev => ({
@@ -484,6 +504,15 @@ export function useTranscription(sessionId: string, currentVoiceGender?: 'male'
       // Update UI: Remove temp chunks and add real ones
       chunks.forEach((chunk, index) => {
         if (data[index]) {
+          if (lastChunkRef.current?.chunk === chunk) {
+            lastChunkRef.current.id = data[index].id;
+            // Revised while the insert was in flight
+            if (data[index].text !== chunk.text) {
+              data[index].text = chunk.text;
+              supabase.from('session_transcripts').update({ text: chunk.text }).eq('id', data[index].id)
+                .then(({ error }) => error && console.error('Failed to revise transcript chunk:', error));
+            }
+          }
           setTranscriptChunks(prev =>
             prev.map(c => 
               c.id === chunk.tempId 
@@ -676,7 +705,7 @@ export function useTranscription(sessionId: string, currentVoiceGender?: 'male'
   }, [processQueue]);
 
   // Main function to add transcript chunk with ADVANCED DIARIZATION
-  const addTranscriptChunk = useCallback(async (text: string, speaker?: string) => {
+  const addTranscriptChunk = useCallback(async (text: string, speaker?: string, audio?: ChunkAudio) => {
     if (!sessionId || !text.trim()) return;
 
     // Calculate offset from session start (in milliseconds)
@@ -700,12 +729,17 @@ export function useTranscription(sessionId: string, currentVoiceGender?: 'male'
     addChunkToUI(text, finalSpeaker, tempId, timestamp);
     
     // Add to queue
-    pendingChunksRef.current.push({
-        text: text.trim(),
+    const pendingChunk: PendingChunk = {
+      text: text.trim(),
       speaker: finalSpeaker,
       timestamp,
       tempId,
-    });
+      recordingId: audio?.recordingId,
+      words: audio?.words,
+    };
+    pendingChunksRef.current.push(pendingChunk);
+    unsavedChunksRef.current.push(pendingChunk);
+    lastChunkRef.current = { chunk: pendingChunk, id: null };
     
     // Update stats
     setStats(prev => ({
@@ -720,6 +754,27 @@ export function useTranscription(sessionId: string, currentVoiceGender?: 'male'
     return { id: tempId, session_id: sessionId, text: text.trim(), speaker: finalSpeaker };
   }, [sessionId, addChunkToUI, applyProgressiveSaveStrategy]);
 
+  // Replace the text of the most recently added chunk, e.g. when a voice
+  // command tags it with a note section after it was added
+  const reviseLastChunk = useCallback(async (text: string) => {
+    const last = lastChunkRef.current;
+    if (!last || !text.trim()) return;
+
+    last.chunk.text = text.trim();
+    diarizationSystemRef.current.reviseLastSegment(last.chunk.text);
+    setTranscriptChunks(prev =>
+      prev.map(c => (c.id === last.chunk.tempId || c.id === last.id ? { ...c, text: last.chunk.text } : c))
+    );
+
+    // Still queued: the insert picks up the new text
+    if (!last.id) return;
+    const { error } = await supabase
+      .from('session_transcripts')
+      .update({ text: last.chunk.text })
+      .eq('id', last.id);
+    if (error) console.error('Failed to revise transcript chunk:', error);
+  }, []);
+
   // Force save all pending chunks (call when stopping recording)
   const saveAllPendingChunks = useCallback(async () => {
     if (pendingChunksRef.current.length > 0) {
@@ -730,8 +785,8 @@ export function useTranscription(sessionId: string, currentVoiceGender?: 'male'
   }, [processQueue]);
 
   // Load transcripts from database
-  const loadTranscripts = useCallback(async () => {
-    if (!sessionId) return;
+  const loadTranscripts = useCallback(async (): Promise<TranscriptChunk[]> => {
+    if (!sessionId) return [];
 
     try {
       const { data, error } = await supabase
@@ -749,8 +804,10 @@ export function useTranscription(sessionId: string, currentVoiceGender?: 'male'
         ...prev,
         savedChunks: data?.length || 0,
       }));
+      return data || [];
     } catch (error) {
       console.error('Error loading transcripts:', error);
+      return [];
     }
   }, [sessionId]);
 
@@ -830,8 +887,11 @@ export function useTranscription(sessionId: string, currentVoiceGender?: 'male'
   useEffect(() => {
     if (isTranscribing) {
       const now = Date.now();
-      // Only reset if this is a new session (check if start time is very recent or old)
-      if (sessionStartTimeRef.current === 0 || now - sessionStartTimeRef.current > 600000) {
+      // Only reset if this is a new session (check if start time is very recent or old).
+      // A restored session keeps its start time so offsets follow on from the saved rows.
+      if (resumedSessionRef.current) {
+        resumedSessionRef.current = false;
+      } else if (sessionStartTimeRef.current === 0 || now - sessionStartTimeRef.current > 600000) {
         sessionStartTimeRef.current = now;
         console.log('🎬 Session started - continuous transcription mode active');
       }
@@ -854,12 +914,49 @@ export function useTranscription(sessionId: string, currentVoiceGender?: 'male'
     diarizationSystemRef.current.reset();
   }, []);
 
+  // Snapshot for the crash recovery checkpoint
+  const getCheckpointState = useCallback(() => ({
+    elapsedMs: sessionStartTimeRef.current > 0 ? Date.now() - sessionStartTimeRef.current : 0,
+    unsavedChunks: unsavedChunksRef.current.map(({ tempId: _tempId, ...chunk }) => chunk),
+    diarization: diarizationSystemRef.current.exportState(),
+  }), []);
+
+  // Restore an interrupted session: saved rows are reloaded, unsaved segments
+  // re-queued into the same session and new offsets continue after them
+  const restoreCheckpoint = useCallback(async (checkpoint: SessionCheckpoint) => {
+    diarizationSystemRef.current.restoreState(checkpoint.diarization);
+    sessionStartTimeRef.current = Date.now() - checkpoint.elapsedMs;
+    resumedSessionRef.current = true;
+
+    const saved = await loadTranscripts();
+    const toRestore = unsavedChunksToRestore(checkpoint, saved);
+    toRestore.forEach((chunk, index) => {
+      const tempId = `temp-${Date.now()}-restored-${index}`;
+      addChunkToUI(chunk.text, chunk.speaker, tempId, chunk.timestamp);
+      const pendingChunk: PendingChunk = { ...chunk, tempId };
+      pendingChunksRef.current.push(pendingChunk);
+      unsavedChunksRef.current.push(pendingChunk);
+    });
+
+    setStats(prev => ({
+      ...prev,
+      totalChunks: prev.totalChunks + toRestore.length,
+      pendingChunks: pendingChunksRef.current.length,
+    }));
+    if (toRestore.length > 0) {
+      await processQueue(true);
+    }
+    console.log(`♻️ Restored interrupted session: ${toRestore.length} unsaved segments re-queued`);
+    return toRestore.length;
+  }, [loadTranscripts, addChunkToUI, processQueue]);
+
   return {
     transcriptChunks,
     isTranscribing,
     setIsTranscribing,
     stats,
     addTranscriptChunk,
+    reviseLastChunk,
     loadTranscripts: useCallback(async () => await loadTranscripts(), [loadTranscripts]),
     getFullTranscript: useCallback(() => getFullTranscript(), [getFullTranscript]),
     getDiarizedTranscript: useCallback(() => diarizationSystemRef.current.getFormattedTranscript(), []),
@@ -867,5 +964,7 @@ export function useTranscription(sessionId: string, currentVoiceGender?: 'male'
     updateVoiceCharacteristics,
     getSpeakerStatistics,
     resetDiarization,
+    getCheckpointState,
+    restoreCheckpoint,
   };
 }
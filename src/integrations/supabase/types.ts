@@ -31,6 +31,7 @@ export type Database = {
           status: string | null
           tokens_used: number | null
           user_id: string
+          validation: Json | null
         }
         Insert: {
           completion_tokens?: number | null
@@ -48,6 +49,7 @@ export type Database = {
           status?: string | null
           tokens_used?: number | null
           user_id: string
+          validation?: Json | null
         }
         Update: {
           completion_tokens?: number | null
@@ -65,6 +67,7 @@ export type Database = {
           status?: string | null
           tokens_used?: number | null
           user_id?: string
+          validation?: Json | null
         }
         Relationships: [
           {
@@ -83,6 +86,225 @@ export type Database = {
           },
         ]
       }
+      interaction_checks: {
+        Row: {
+          checked_at: string
+          checked_by: string | null
+          id: string
+          kb_version: string
+          session_id: string
+          warnings: Json
+        }
+        Insert: {
+          checked_at?: string
+          checked_by?: string | null
+          id?: string
+          kb_version: string
+          session_id: string
+          warnings?: Json
+        }
+        Update: {
+          checked_at?: string
+          checked_by?: string | null
+          id?: string
+          kb_version?: string
+          session_id?: string
+          warnings?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interaction_checks_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "session_analytics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interaction_checks_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      medication_reconciliations: {
+        Row: {
+          change: string
+          current: Json | null
+          decided_at: string
+          decided_by: string
+          decision: string
+          drug_name: string
+          id: string
+          previous: Json | null
+          previous_session_id: string | null
+          session_id: string
+        }
+        Insert: {
+          change: string
+          current?: Json | null
+          decided_at?: string
+          decided_by: string
+          decision: string
+          drug_name: string
+          id?: string
+          previous?: Json | null
+          previous_session_id?: string | null
+          session_id: string
+        }
+        Update: {
+          change?: string
+          current?: Json | null
+          decided_at?: string
+          decided_by?: string
+          decision?: string
+          drug_name?: string
+          id?: string
+          previous?: Json | null
+          previous_session_id?: string | null
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medication_reconciliations_previous_session_id_fkey"
+            columns: ["previous_session_id"]
+            isOneToOne: false
+            referencedRelation: "session_analytics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "medication_reconciliations_previous_session_id_fkey"
+            columns: ["previous_session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "medication_reconciliations_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "session_analytics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "medication_reconciliations_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_addenda: {
+        Row: {
+          author_id: string
+          content: string
+          created_at: string
+          id: string
+          reason: string | null
+          session_id: string
+        }
+        Insert: {
+          author_id: string
+          content: string
+          created_at?: string
+          id?: string
+          reason?: string | null
+          session_id: string
+        }
+        Update: {
+          author_id?: string
+          content?: string
+          created_at?: string
+          id?: string
+          reason?: string | null
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_addenda_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "session_analytics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_addenda_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          detail_level: string | null
+          generated_note: string | null
+          id: string
+          model: string | null
+          note_json: Json | null
+          restored_from: string | null
+          session_id: string
+          source: string
+          template_id: string | null
+          version_number: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          detail_level?: string | null
+          generated_note?: string | null
+          id?: string
+          model?: string | null
+          note_json?: Json | null
+          restored_from?: string | null
+          session_id: string
+          source: string
+          template_id?: string | null
+          version_number: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          detail_level?: string | null
+          generated_note?: string | null
+          id?: string
+          model?: string | null
+          note_json?: Json | null
+          restored_from?: string | null
+          session_id?: string
+          source?: string
+          template_id?: string | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_versions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "note_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_versions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "session_analytics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_versions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           action_url: string | null
@@ -125,6 +347,57 @@ export type Database = {
         }
         Relationships: []
       }
+      patients: {
+        Row: {
+          created_at: string
+          date_of_birth: string | null
+          full_name: string
+          id: string
+          merged_into: string | null
+          mrn: string | null
+          team_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date_of_birth?: string | null
+          full_name: string
+          id?: string
+          merged_into?: string | null
+          mrn?: string | null
+          team_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date_of_birth?: string | null
+          full_name?: string
+          id?: string
+          merged_into?: string | null
+          mrn?: string | null
+          team_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patients_merged_into_fkey"
+            columns: ["merged_into"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patients_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -155,6 +428,114 @@ export type Database = {
         }
         Relationships: []
       }
+      session_entities: {
+        Row: {
+          confidence: number | null
+          created_at: string
+          dose: string | null
+          drug_name: string | null
+          end_offset: number | null
+          entity_type: string
+          frequency: string | null
+          id: string
+          metadata: Json | null
+          route: string | null
+          session_id: string
+          start_offset: number | null
+          text: string
+        }
+        Insert: {
+          confidence?: number | null
+          created_at?: string
+          dose?: string | null
+          drug_name?: string | null
+          end_offset?: number | null
+          entity_type: string
+          frequency?: string | null
+          id?: string
+          metadata?: Json | null
+          route?: string | null
+          session_id: string
+          start_offset?: number | null
+          text: string
+        }
+        Update: {
+          confidence?: number | null
+          created_at?: string
+          dose?: string | null
+          drug_name?: string | null
+          end_offset?: number | null
+          entity_type?: string
+          frequency?: string | null
+          id?: string
+          metadata?: Json | null
+          route?: string | null
+          session_id?: string
+          start_offset?: number | null
+          text?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_entities_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "session_analytics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_entities_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_recordings: {
+        Row: {
+          created_at: string
+          duration_ms: number | null
+          id: string
+          mime_type: string
+          session_id: string
+          started_at: string
+          storage_path: string
+        }
+        Insert: {
+          created_at?: string
+          duration_ms?: number | null
+          id: string
+          mime_type: string
+          session_id: string
+          started_at: string
+          storage_path: string
+        }
+        Update: {
+          created_at?: string
+          duration_ms?: number | null
+          id?: string
+          mime_type?: string
+          session_id?: string
+          started_at?: string
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_recordings_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "session_analytics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_recordings_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       session_transcripts: {
         Row: {
           confidence_score: number | null
@@ -162,10 +543,12 @@ export type Database = {
           id: string
           is_corrected: boolean | null
           processing_time_ms: number | null
+          recording_id: string | null
           session_id: string
           speaker: string
           text: string
           timestamp_offset: number | null
+          words: Json | null
         }
         Insert: {
           confidence_score?: number | null
@@ -173,10 +556,12 @@ export type Database = {
           id?: string
           is_corrected?: boolean | null
           processing_time_ms?: number | null
+          recording_id?: string | null
           session_id: string
           speaker: string
           text: string
           timestamp_offset?: number | null
+          words?: Json | null
         }
         Update: {
           confidence_score?: number | null
@@ -184,10 +569,12 @@ export type Database = {
           id?: string
           is_corrected?: boolean | null
           processing_time_ms?: number | null
+          recording_id?: string | null
           session_id?: string
           speaker?: string
           text?: string
           timestamp_offset?: number | null
+          words?: Json | null
         }
         Relationships: [
           {
@@ -215,13 +602,20 @@ export type Database = {
           generated_note: string | null
           id: string
           input_language: string
+          note_evidence: Json | null
           note_json: Json | null
+          note_provenance: Json | null
+          note_status: Database["public"]["Enums"]["note_status"]
           output_language: string
           patient_dob: string | null
           patient_id: string | null
           patient_name: string
+          patient_record_id: string | null
           scheduled_at: string | null
+          signed_at: string | null
+          signed_by: string | null
           status: string
+          submitted_for_review_at: string | null
           summary: string | null
           template_id: string | null
           total_words: number | null
@@ -239,13 +633,20 @@ export type Database = {
           generated_note?: string | null
           id?: string
           input_language?: string
+          note_evidence?: Json | null
           note_json?: Json | null
+          note_provenance?: Json | null
+          note_status?: Database["public"]["Enums"]["note_status"]
           output_language?: string
           patient_dob?: string | null
           patient_id?: string | null
           patient_name: string
+          patient_record_id?: string | null
           scheduled_at?: string | null
+          signed_at?: string | null
+          signed_by?: string | null
           status?: string
+          submitted_for_review_at?: string | null
           summary?: string | null
           template_id?: string | null
           total_words?: number | null
@@ -263,13 +664,20 @@ export type Database = {
           generated_note?: string | null
           id?: string
           input_language?: string
+          note_evidence?: Json | null
           note_json?: Json | null
+          note_provenance?: Json | null
+          note_status?: Database["public"]["Enums"]["note_status"]
           output_language?: string
           patient_dob?: string | null
           patient_id?: string | null
           patient_name?: string
+          patient_record_id?: string | null
           scheduled_at?: string | null
+          signed_at?: string | null
+          signed_by?: string | null
           status?: string
+          submitted_for_review_at?: string | null
           summary?: string | null
           template_id?: string | null
           total_words?: number | null
@@ -280,6 +688,13 @@ export type Database = {
           visit_mode?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "sessions_patient_record_id_fkey"
+            columns: ["patient_record_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "sessions_template_id_fkey"
             columns: ["template_id"]
@@ -373,6 +788,41 @@ export type Database = {
           },
         ]
       }
+      team_budgets: {
+        Row: {
+          created_at: string
+          monthly_ai_requests: number | null
+          monthly_transcription_minutes: number | null
+          team_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          monthly_ai_requests?: number | null
+          monthly_transcription_minutes?: number | null
+          team_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          monthly_ai_requests?: number | null
+          monthly_transcription_minutes?: number | null
+          team_id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_budgets_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: true
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       team_members: {
         Row: {
           created_at: string
@@ -425,26 +875,50 @@ export type Database = {
       }
       teams: {
         Row: {
+          address: string | null
           created_at: string
           created_by: string
           description: string | null
+          hl7_mllp_host: string | null
+          hl7_mllp_port: number | null
+          hl7_receiving_application: string | null
+          hl7_receiving_facility: string | null
+          hl7_sending_application: string | null
+          hl7_sending_facility: string | null
           id: string
+          logo_url: string | null
           name: string
           updated_at: string
         }
         Insert: {
+          address?: string | null
           created_at?: string
           created_by: string
           description?: string | null
+          hl7_mllp_host?: string | null
+          hl7_mllp_port?: number | null
+          hl7_receiving_application?: string | null
+          hl7_receiving_facility?: string | null
+          hl7_sending_application?: string | null
+          hl7_sending_facility?: string | null
           id?: string
+          logo_url?: string | null
           name: string
           updated_at?: string
         }
         Update: {
+          address?: string | null
           created_at?: string
           created_by?: string
           description?: string | null
+          hl7_mllp_host?: string | null
+          hl7_mllp_port?: number | null
+          hl7_receiving_application?: string | null
+          hl7_receiving_facility?: string | null
+          hl7_sending_application?: string | null
+          hl7_sending_facility?: string | null
           id?: string
+          logo_url?: string | null
           name?: string
           updated_at?: string
         }
@@ -495,6 +969,44 @@ export type Database = {
         }
         Relationships: []
       }
+      usage_events: {
+        Row: {
+          amount: number
+          created_at: string
+          function_name: string
+          id: string
+          kind: string
+          team_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount?: number
+          created_at?: string
+          function_name: string
+          id?: string
+          kind: string
+          team_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          function_name?: string
+          id?: string
+          kind?: string
+          team_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_events_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_feedback: {
         Row: {
           created_at: string | null
@@ -672,6 +1184,31 @@ export type Database = {
       }
     }
     Functions: {
+      can_access_patient: {
+        Args: { _patient_id: string; _user_id: string }
+        Returns: boolean
+      }
+      consume_quota: {
+        Args: {
+          _amount: number
+          _function_name: string
+          _kind: string
+          _per_minute: number
+          _user_id: string
+        }
+        Returns: Json
+      }
+      get_team_budget_usage: {
+        Args: never
+        Returns: {
+          ai_requests_used: number
+          monthly_ai_requests: number
+          monthly_transcription_minutes: number
+          team_id: string
+          team_name: string
+          transcription_minutes_used: number
+        }[]
+      }
       get_user_analytics: {
         Args: { target_user_id?: string }
         Returns: {
@@ -697,11 +1234,39 @@ export type Database = {
         Args: { _team_id: string; _user_id: string }
         Returns: boolean
       }
+      merge_patients: {
+        Args: { _duplicate_id: string; _keep_id: string }
+        Returns: number
+      }
+      record_interaction_check: {
+        Args: { _kb_version: string; _session_id: string; _warnings: Json }
+        Returns: {
+          checked_at: string
+          checked_by: string | null
+          id: string
+          kb_version: string
+          session_id: string
+          warnings: Json
+        }
+      }
+      record_usage_amount: {
+        Args: { _amount: number; _event_id: string }
+        Returns: undefined
+      }
       refresh_session_analytics: { Args: never; Returns: undefined }
       refresh_user_analytics: { Args: never; Returns: undefined }
+      replace_recording_transcripts: {
+        Args: { _recording_id: string; _segments: Json; _session_id: string }
+        Returns: number
+      }
+      replace_session_entities: {
+        Args: { _entities: Json; _session_id: string }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
+      note_status: "draft" | "pending_review" | "signed" | "amended"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -830,6 +1395,7 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "moderator", "user"],
+      note_status: ["draft", "pending_review", "signed", "amended"],
     },
   },
 } as const
@@ -131,13 +131,37 @@ export async function summarizeTranscript(
  */
 export async function exportNote(
   session_id: string,
-  format: 'pdf' | 'docx' | 'txt' = 'pdf',
-  recipient_email?: string
+  format: 'pdf' | 'docx' | 'txt' | 'fhir' | 'hl7' = 'pdf',
+  recipient_email?: string,
+  entities?: Array<{ text: string; type: string; confidence?: number; metadata?: Record<string, unknown> }>
 ) {
   return callEdgeFunction('export-note', {
     session_id,
     format,
     recipient_email,
+    entities,
+  });
+}
+
+/**
+ * Render a PDF export inline for preview without storing it
+ */
+export async function previewNoteExport(session_id: string) {
+  return callEdgeFunction<{ content_base64: string; content_type: string; file_name: string }>('export-note', {
+    session_id,
+    format: 'pdf',
+    preview: true,
+  });
+}
+
+/**
+ * Export a note as an HL7 MDM^T02 message and send it to the team's MLLP endpoint
+ */
+export async function transmitNoteHl7(session_id: string) {
+  return callEdgeFunction<{ url: string; ack: { code: string; controlId: string; text?: string } }>('export-note', {
+    session_id,
+    format: 'hl7',
+    transmit: true,
   });
 }
 
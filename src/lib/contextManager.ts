@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 
 export interface SessionContext {
   session_id: string;
@@ -10,58 +11,43 @@ export interface SessionContext {
   summary?: string;
   transcript_text?: string;
   specialty?: string;
+  /** The patient's earlier visits, when requested; see getPriorVisits */
+  prior_visits?: PriorVisit[];
+  /** prior_visits formatted for a prompt, within the requested token budget */
+  prior_visit_context?: string;
 }
 
-/**
- * Scrub personally identifiable information from text
- * This is a basic implementation - production should use more sophisticated methods
- */
-export function scrubPHI(text: string, options: {
-  patient_name?: string;
-  patient_id?: string;
-  dob?: string;
-} = {}): string {
-  let scrubbed = text;
-
-  // Replace patient name with [PATIENT]
-  if (options.patient_name) {
-    const nameRegex = new RegExp(options.patient_name, 'gi');
-    scrubbed = scrubbed.replace(nameRegex, '[PATIENT]');
-  }
+export interface SessionContextOptions {
+  /** Token budget for the patient's earlier visits; they are left out when unset */
+  priorVisitTokens?: number;
+}
 
-  // Replace MRN/ID with [ID]
-  if (options.patient_id) {
-    const idRegex = new RegExp(options.patient_id, 'gi');
-    scrubbed = scrubbed.replace(idRegex, '[ID]');
-  }
+/** What a follow-up note needs to know about one earlier visit */
+export interface PriorVisit {
+  session_id: string;
+  date: string;
+  chief_complaint?: string;
+  summary?: string;
+  problems: string[];
+  medications: string[];
+  open_tasks: string[];
+}
 
-  // Replace DOB with [DOB]
-  if (options.dob) {
-    const dobRegex = new RegExp(options.dob, 'gi');
-    scrubbed = scrubbed.replace(dobRegex, '[DOB]');
-  }
+/** Default token budget for prior visits in a note prompt */
+export const PRIOR_VISIT_TOKEN_BUDGET = 1500;
 
-  // Generic patterns for common PHI
-  // Dates in various formats
-  scrubbed = scrubbed.replace(/\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/g, '[DATE]');
-  scrubbed = scrubbed.replace(/\b\d{2,4}-\d{2}-\d{2}\b/g, '[DATE]');
-  
-  // Phone numbers
-  scrubbed = scrubbed.replace(/\b\d{3}[-.]?\d{3}[-.]?\d{4}\b/g, '[PHONE]');
-  
-  // Social security numbers
-  scrubbed = scrubbed.replace(/\b\d{3}-\d{2}-\d{4}\b/g, '[SSN]');
-  
-  // Email addresses
-  scrubbed = scrubbed.replace(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, '[EMAIL]');
+/** Earlier visits looked at; older ones rarely fit the budget anyway */
+const MAX_PRIOR_VISITS = 5;
 
-  return scrubbed;
-}
+const MAX_SUMMARY_CHARS = 400;
 
 /**
  * Get complete session context for AI operations
  */
-export async function getSessionContext(session_id: string): Promise<SessionContext | null> {
+export async function getSessionContext(
+  session_id: string,
+  options: SessionContextOptions = {}
+): Promise<SessionContext | null> {
   try {
     // Get session data
     const { data: session, error: sessionError } = await supabase
@@ -98,6 +84,8 @@ export async function getSessionContext(session_id: string): Promise<SessionCont
       .eq('id', session.user_id)
       .single();
 
+    const prior_visits = options.priorVisitTokens ? await getPriorVisits(session) : undefined;
+
     return {
       session_id: session.id,
       patient_name: session.patient_name,
@@ -108,6 +96,10 @@ export async function getSessionContext(session_id: string): Promise<SessionCont
       summary: session.summary || undefined,
       transcript_text,
       specialty: profile?.specialty || undefined,
+      prior_visits,
+      prior_visit_context: prior_visits && options.priorVisitTokens
+        ? fitPriorVisits(prior_visits, options.priorVisitTokens)
+        : undefined,
     };
   } catch (error) {
     console.error('Error in getSessionContext:', error);
@@ -115,6 +107,135 @@ export async function getSessionContext(session_id: string): Promise<SessionCont
   }
 }
 
+interface PriorVisitSession {
+  id: string;
+  created_at: string;
+  chief_complaint: string | null;
+  summary: string | null;
+  generated_note: string | null;
+  note_json: Json | null;
+  clinical_codes: Json | null;
+}
+
+/**
+ * The same patient's visits before this session, most recent first: sessions
+ * linked to the same patient record, or with the same MRN when this session
+ * isn't linked yet
+ */
+async function getPriorVisits(session: {
+  id: string;
+  user_id: string;
+  created_at: string;
+  patient_id: string | null;
+  patient_record_id: string | null;
+}): Promise<PriorVisit[]> {
+  let query = supabase
+    .from('sessions')
+    .select('id, created_at, chief_complaint, summary, generated_note, note_json, clinical_codes')
+    .neq('id', session.id)
+    .lt('created_at', session.created_at)
+    .order('created_at', { ascending: false })
+    .limit(MAX_PRIOR_VISITS);
+
+  if (session.patient_record_id) {
+    query = query.eq('patient_record_id', session.patient_record_id);
+  } else if (session.patient_id?.trim()) {
+    query = query.eq('user_id', session.user_id).eq('patient_id', session.patient_id);
+  } else {
+    return [];
+  }
+
+  const { data: sessions, error } = await query;
+  if (error) {
+    console.error('Error fetching prior visits:', error);
+    return [];
+  }
+  if (!sessions?.length) return [];
+
+  const { data: tasks } = await supabase
+    .from('tasks')
+    .select('session_id, title')
+    .in('session_id', sessions.map(s => s.id))
+    .eq('status', 'pending');
+
+  return (sessions as PriorVisitSession[]).map(s =>
+    priorVisitFromSession(s, (tasks || []).filter(t => t.session_id === s.id).map(t => t.title))
+  );
+}
+
+const sectionLines = (value: Json | undefined): string[] => {
+  if (typeof value === 'string') return value.split('\n').map(line => line.trim()).filter(Boolean);
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+  return [];
+};
+
+/** A dose written in a plan line: "metformin 500 mg", "insulin 10 units" */
+const DOSE_PATTERN = /\b\d+(\.\d+)?\s?(mg|mcg|g|ml|units?|puffs?|tabs?|tablets?)\b/i;
+
+/**
+ * Summary, problems, medications and open tasks of one earlier visit, read
+ * from what was saved with it
+ */
+export function priorVisitFromSession(session: PriorVisitSession, openTasks: string[] = []): PriorVisit {
+  const sections = session.note_json && typeof session.note_json === 'object' && !Array.isArray(session.note_json)
+    ? session.note_json as Record<string, Json | undefined>
+    : {};
+  const assessment = sectionLines(sections.assessment);
+
+  const summary = session.summary?.trim() || assessment.join(' ') || session.generated_note?.trim() || undefined;
+
+  const codes = Array.isArray(session.clinical_codes) ? session.clinical_codes as { code?: string; label?: string; description?: string }[] : [];
+  const problems = codes.filter(code => code?.code).map(code => {
+    const label = code.label || code.description;
+    return label ? `${label} (${code.code})` : String(code.code);
+  });
+
+  const medicationSections = Object.keys(sections)
+    .filter(key => key.includes('medication'))
+    .flatMap(key => sectionLines(sections[key]));
+  const planMedications = sectionLines(sections.plan).filter(line => DOSE_PATTERN.test(line));
+
+  return {
+    session_id: session.id,
+    date: session.created_at.slice(0, 10),
+    chief_complaint: session.chief_complaint || undefined,
+    summary: summary && summary.length > MAX_SUMMARY_CHARS ? `${summary.slice(0, MAX_SUMMARY_CHARS - 3)}...` : summary,
+    problems: problems.length > 0 ? problems : assessment.slice(0, 5),
+    medications: [...new Set([...medicationSections, ...planMedications])],
+    open_tasks: openTasks,
+  };
+}
+
+/**
+ * One visit as prompt text
+ */
+export function formatPriorVisit(visit: PriorVisit): string {
+  const lines = [`Visit ${visit.date}${visit.chief_complaint ? ` - ${visit.chief_complaint}` : ''}`];
+  if (visit.summary) lines.push(`Summary: ${visit.summary}`);
+  if (visit.problems.length) lines.push(`Problems: ${visit.problems.join('; ')}`);
+  if (visit.medications.length) lines.push(`Medications: ${visit.medications.join('; ')}`);
+  if (visit.open_tasks.length) lines.push(`Open tasks: ${visit.open_tasks.join('; ')}`);
+  return lines.join('\n');
+}
+
+/**
+ * Prior visits as prompt text within `maxTokens`, most recent first. Visits
+ * that don't fit are left out whole; only the most recent is shortened to
+ * fit, since it is what the interval history is written against.
+ */
+export function fitPriorVisits(visits: PriorVisit[], maxTokens: number = PRIOR_VISIT_TOKEN_BUDGET): string {
+  const blocks: string[] = [];
+  for (const visit of visits) {
+    const block = formatPriorVisit(visit);
+    if (estimateTokens([...blocks, block].join('\n\n')) > maxTokens) {
+      if (blocks.length === 0) blocks.push(truncateToTokens(block, maxTokens));
+      break;
+    }
+    blocks.push(block);
+  }
+  return blocks.join('\n\n');
+}
+
 /**
  * Build AI-ready context string with token management
  * @param session_id Session ID
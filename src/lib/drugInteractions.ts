@@ -0,0 +1,281 @@
+/**
+ * Drug–allergy and drug–drug interaction checks against the bundled
+ * knowledge base (see interactionKnowledgeBase.ts). Runs entirely in the
+ * browser.
+ *
+ * Medications come from extracted medication entities and from the note's
+ * plan and medication sections; allergies from extracted allergy entities,
+ * the note's allergy sections and lines labelled "Allergies:" in the note
+ * and the clinician's context notes. Negated allergies are ignored.
+ */
+
+import {
+  ALLERGENS,
+  DRUGS,
+  INTERACTION_RULES,
+  type AllergenEntry,
+  type DrugEntry,
+  type InteractionSeverity,
+} from './interactionKnowledgeBase';
+
+export { INTERACTION_KB_VERSION, type InteractionSeverity } from './interactionKnowledgeBase';
+
+export type MedicationSource = 'transcript' | 'note';
+
+export interface MedicationMention {
+  text: string;
+  source: MedicationSource;
+}
+
+export interface InteractionWarning {
+  /** Stable across checks, e.g. "drug_drug:sertraline+tramadol" */
+  id: string;
+  kind: 'drug_allergy' | 'drug_drug';
+  severity: InteractionSeverity;
+  /** Generic names of the medications involved */
+  drugs: string[];
+  allergen?: string;
+  message: string;
+  /** Where the medications were found */
+  sources: MedicationSource[];
+}
+
+/** One recorded check of a session (interaction_checks) */
+export interface InteractionCheckRecord {
+  kb_version: string;
+  checked_at: string;
+  warnings: InteractionWarning[];
+}
+
+export const SEVERITY_ORDER: Record<InteractionSeverity, number> = {
+  contraindicated: 0,
+  major: 1,
+  moderate: 2,
+  minor: 3,
+};
+
+export const SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  contraindicated: 'Contraindicated',
+  major: 'Major',
+  moderate: 'Moderate',
+  minor: 'Minor',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termPattern = (term: string) => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'giu');
+
+interface Term<T> {
+  term: string;
+  pattern: RegExp;
+  entry: T;
+}
+
+function buildTerms<T>(entries: T[], termsOf: (entry: T) => string[]): Term<T>[] {
+  return entries
+    .flatMap(entry => termsOf(entry).map(term => ({ term, pattern: termPattern(term), entry })))
+    // Longest first, so "sulfamethoxazole-trimethoprim" wins over "trimethoprim"
+    .sort((a, b) => b.term.length - a.term.length);
+}
+
+const DRUG_TERMS = buildTerms(DRUGS, drug => [drug.name, ...drug.synonyms]);
+const ALLERGEN_TERMS = buildTerms(ALLERGENS, allergen => allergen.terms);
+
+/** Entries named in the text in order; overlapping names count once, the longest */
+function findTerms<T>(text: string, terms: Term<T>[]): T[] {
+  const taken: { start: number; end: number; entry: T }[] = [];
+  for (const { pattern, entry } of terms) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (taken.some(span => start < span.end && end > span.start)) continue;
+      taken.push({ start, end, entry });
+    }
+  }
+  return [...new Set(taken.sort((a, b) => a.start - b.start).map(span => span.entry))];
+}
+
+/** Knowledge base drugs named in the text, by generic or brand name */
+export function findDrugs(text: string): DrugEntry[] {
+  return findTerms(text, DRUG_TERMS);
+}
+
+/** "NKDA", "no known drug allergies", "denies allergy to sulfa", "not allergic to penicillin" */
+const NEGATED_ALLERGY = /\b(nkda|nka)\b|\b(no|denies|denied|not|never|negative for)\b(\s+[\p{L}-]+){0,3}?\s+allerg/iu;
+
+/**
+ * The parts of an allergy text that state an allergy. Clauses are split at
+ * sentence ends, semicolons, commas and "but", so "No allergy to sulfa but
+ * allergic to penicillin" and "Allergic to penicillin, no other allergies"
+ * both keep only the penicillin allergy. A negation carries over commas until
+ * a clause mentions an allergy again, so "No allergy to sulfa, latex" drops
+ * both.
+ */
+export function assertedAllergies(text: string): string[] {
+  return text
+    .split(/[.;\n]|\b(?:but|however)\b/i)
+    .flatMap(sentence => {
+      let negated = false;
+      return sentence.split(',').map(clause => clause.trim()).filter(clause => {
+        if (!clause) return false;
+        if (NEGATED_ALLERGY.test(clause)) negated = true;
+        else if (/allerg/i.test(clause)) negated = false;
+        return !negated;
+      });
+    });
+}
+
+/** "Allergies: ...", "Drug allergies reviewed: ..." */
+const ALLERGY_LABEL = /^[\s\-*•]*(known\s+|drug\s+)*allerg(y|ies)\b[^:\n]{0,20}:/i;
+
+const matchesRule = (drug: DrugEntry, side: string) =>
+  side.startsWith('class:') ? drug.classes.includes(side.slice(6)) : drug.name === side;
+
+/**
+ * Warnings for the medications against each other and against the allergies,
+ * most severe first. A pair of drugs is reported once, with its most severe
+ * interaction.
+ */
+export function checkInteractions(input: { medications: MedicationMention[]; allergies: string[] }): InteractionWarning[] {
+  const drugs = new Map<string, { drug: DrugEntry; sources: Set<MedicationSource> }>();
+  for (const mention of input.medications) {
+    for (const drug of findDrugs(mention.text)) {
+      const entry = drugs.get(drug.name) ?? { drug, sources: new Set<MedicationSource>() };
+      entry.sources.add(mention.source);
+      drugs.set(drug.name, entry);
+    }
+  }
+
+  const warnings = new Map<string, InteractionWarning>();
+  const keep = (warning: InteractionWarning) => {
+    const existing = warnings.get(warning.id);
+    if (!existing || SEVERITY_ORDER[warning.severity] < SEVERITY_ORDER[existing.severity]) {
+      warnings.set(warning.id, warning);
+    }
+  };
+  const sourcesOf = (...names: string[]) =>
+    [...new Set(names.flatMap(name => [...(drugs.get(name)?.sources ?? [])]))].sort();
+
+  // Drug–allergy
+  const allergyText = input.allergies.flatMap(assertedAllergies).join('\n');
+  const allergens: AllergenEntry[] = findTerms(allergyText, ALLERGEN_TERMS);
+  const allergicDrugs = findDrugs(allergyText);
+
+  for (const { drug } of drugs.values()) {
+    if (allergicDrugs.includes(drug)) {
+      keep({
+        id: `drug_allergy:${drug.name}`,
+        kind: 'drug_allergy',
+        severity: 'contraindicated',
+        drugs: [drug.name],
+        allergen: drug.name,
+        message: `Documented allergy to ${drug.name}`,
+        sources: sourcesOf(drug.name),
+      });
+    }
+    for (const allergen of allergens) {
+      if (allergen.classes.some(c => drug.classes.includes(c))) {
+        keep({
+          id: `drug_allergy:${drug.name}`,
+          kind: 'drug_allergy',
+          severity: allergen.severity,
+          drugs: [drug.name],
+          allergen: allergen.name,
+          message: `${allergen.name} allergy: ${drug.name} is in the same drug class`,
+          sources: sourcesOf(drug.name),
+        });
+      } else if (allergen.crossReactive?.some(c => drug.classes.includes(c))) {
+        keep({
+          id: `drug_allergy:${drug.name}`,
+          kind: 'drug_allergy',
+          severity: 'moderate',
+          drugs: [drug.name],
+          allergen: allergen.name,
+          message: `${allergen.name} allergy: possible cross-reactivity with ${drug.name}`,
+          sources: sourcesOf(drug.name),
+        });
+      }
+    }
+  }
+
+  // Drug–drug
+  const list = [...drugs.values()].map(entry => entry.drug);
+  for (let i = 0; i < list.length; i++) {
+    for (let j = i + 1; j < list.length; j++) {
+      const [first, second] = [list[i], list[j]];
+      for (const rule of INTERACTION_RULES) {
+        const applies = (matchesRule(first, rule.a) && matchesRule(second, rule.b))
+          || (matchesRule(first, rule.b) && matchesRule(second, rule.a));
+        if (!applies) continue;
+        const names = [first.name, second.name].sort();
+        keep({
+          id: `drug_drug:${names.join('+')}`,
+          kind: 'drug_drug',
+          severity: rule.severity,
+          drugs: names,
+          message: `${names[0]} + ${names[1]}: ${rule.effect}`,
+          sources: sourcesOf(...names),
+        });
+      }
+    }
+  }
+
+  return [...warnings.values()].sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.id.localeCompare(b.id)
+  );
+}
+
+/** Extracted entity as saved in session_entities */
+export interface StoredEntity {
+  entity_type: string;
+  text: string;
+  start_offset: number | null;
+  end_offset: number | null;
+}
+
+const sectionText = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.split('\n');
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  return [];
+};
+
+/**
+ * Medications and allergies for checkInteractions from a session's extracted
+ * entities, its note sections and the clinician's context notes. Allergies
+ * are only read from allergy entities, allergy sections and "Allergies:"
+ * lines, since other lines that mention allergy ("counselled on signs of an
+ * allergic reaction to amoxicillin") don't record one. Medication mentions
+ * inside an allergy ("allergic to penicillin") are left out.
+ */
+export function interactionInputFromSession(
+  entities: StoredEntity[],
+  noteSections: Record<string, unknown> | null | undefined,
+  context = ''
+): { medications: MedicationMention[]; allergies: string[] } {
+  const allergyEntities = entities.filter(entity => entity.entity_type === 'allergy');
+  const insideAllergy = ({ start_offset: start, end_offset: end }: StoredEntity) =>
+    start !== null && end !== null && allergyEntities.some(allergy =>
+      allergy.start_offset !== null && allergy.end_offset !== null
+      && start < allergy.end_offset && end > allergy.start_offset
+    );
+
+  const medications: MedicationMention[] = entities
+    .filter(entity => entity.entity_type === 'medication' && !insideAllergy(entity))
+    .map(entity => ({ text: entity.text, source: 'transcript' }));
+  const allergies = allergyEntities.map(entity => entity.text);
+
+  for (const [key, value] of Object.entries(noteSections ?? {})) {
+    const allergySection = /allerg/i.test(key);
+    for (const line of sectionText(value)) {
+      if (allergySection || ALLERGY_LABEL.test(line)) {
+        allergies.push(line);
+      } else if (/plan|medication/i.test(key)) {
+        medications.push({ text: line, source: 'note' });
+      }
+    }
+  }
+
+  allergies.push(...context.split('\n').filter(line => ALLERGY_LABEL.test(line)));
+
+  return { medications, allergies };
+}
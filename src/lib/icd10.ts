@@ -0,0 +1,21 @@
+/**
+ * ICD-10-CM lookup and validation, shared with the suggest-codes edge
+ * function that validates AI-suggested codes
+ */
+
+export {
+  ICD10CM_VERSION,
+  billableDescendants,
+  lookupIcd10,
+  normalizeIcd10Code,
+  searchIcd10,
+  specifyIcd10,
+  validateSuggestedCodes,
+} from '../../supabase/functions/_shared/icd10';
+export type {
+  Icd10Code,
+  RejectedCode,
+  RejectionReason,
+  SuggestedCode,
+  ValidatedCode,
+} from '../../supabase/functions/_shared/icd10';
@@ -0,0 +1,222 @@
+/**
+ * Drug interaction knowledge base - bundled with the app so checks run
+ * offline and no medication list leaves the device
+ *
+ * A curated set of common, clinically significant drug–drug interactions and
+ * allergy cross-reactions for primary care. It is a safety net for
+ * documentation, not a complete interaction reference. Bump
+ * INTERACTION_KB_VERSION whenever entries change; it is recorded with each
+ * check on the session.
+ */
+
+export const INTERACTION_KB_VERSION = '2025.12.1';
+
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate' | 'minor';
+
+export interface DrugEntry {
+  /** Generic name, the name warnings use */
+  name: string;
+  /** Brand names, abbreviations and other spellings */
+  synonyms: string[];
+  classes: string[];
+}
+
+export interface AllergenEntry {
+  name: string;
+  /** How the allergy is written: "penicillin", "PCN", "sulfa" */
+  terms: string[];
+  /** Drug classes the allergy rules out */
+  classes: string[];
+  severity: InteractionSeverity;
+  /** Classes with partial cross-reactivity, flagged as moderate */
+  crossReactive?: string[];
+}
+
+export interface InteractionRule {
+  /** A generic name, or "class:<class>" */
+  a: string;
+  b: string;
+  severity: InteractionSeverity;
+  effect: string;
+}
+
+export const DRUGS: DrugEntry[] = [
+  // Antibiotics
+  { name: 'amoxicillin', synonyms: ['amoxil', 'augmentin', 'co-amoxiclav'], classes: ['penicillins'] },
+  { name: 'ampicillin', synonyms: ['unasyn'], classes: ['penicillins'] },
+  { name: 'penicillin', synonyms: ['penicillin v', 'penicillin g', 'pen vk', 'benzylpenicillin'], classes: ['penicillins'] },
+  { name: 'piperacillin', synonyms: ['zosyn', 'tazocin'], classes: ['penicillins'] },
+  { name: 'flucloxacillin', synonyms: ['dicloxacillin'], classes: ['penicillins'] },
+  { name: 'cephalexin', synonyms: ['keflex', 'cefalexin'], classes: ['cephalosporins'] },
+  { name: 'cefuroxime', synonyms: ['zinacef', 'ceftin'], classes: ['cephalosporins'] },
+  { name: 'ceftriaxone', synonyms: ['rocephin'], classes: ['cephalosporins'] },
+  { name: 'azithromycin', synonyms: ['zithromax', 'z-pack', 'zpak'], classes: ['macrolides'] },
+  { name: 'clarithromycin', synonyms: ['biaxin'], classes: ['macrolides', 'strong_cyp3a4_inhibitors'] },
+  { name: 'erythromycin', synonyms: [], classes: ['macrolides', 'strong_cyp3a4_inhibitors'] },
+  { name: 'sulfamethoxazole-trimethoprim', synonyms: ['bactrim', 'septra', 'co-trimoxazole', 'tmp-smx', 'sulfamethoxazole'], classes: ['sulfonamide_antibiotics'] },
+  { name: 'trimethoprim', synonyms: [], classes: [] },
+  { name: 'ciprofloxacin', synonyms: ['cipro'], classes: ['fluoroquinolones'] },
+  { name: 'levofloxacin', synonyms: ['levaquin'], classes: ['fluoroquinolones'] },
+  { name: 'doxycycline', synonyms: ['vibramycin'], classes: ['tetracyclines'] },
+  { name: 'linezolid', synonyms: ['zyvox'], classes: ['maois'] },
+  { name: 'fluconazole', synonyms: ['diflucan'], classes: ['azole_antifungals'] },
+  { name: 'ketoconazole', synonyms: [], classes: ['azole_antifungals', 'strong_cyp3a4_inhibitors'] },
+  { name: 'itraconazole', synonyms: ['sporanox'], classes: ['azole_antifungals', 'strong_cyp3a4_inhibitors'] },
+
+  // Anticoagulants, antiplatelets and analgesics
+  { name: 'warfarin', synonyms: ['coumadin', 'jantoven'], classes: ['anticoagulants'] },
+  { name: 'apixaban', synonyms: ['eliquis'], classes: ['anticoagulants'] },
+  { name: 'rivaroxaban', synonyms: ['xarelto'], classes: ['anticoagulants'] },
+  { name: 'heparin', synonyms: ['enoxaparin', 'lovenox'], classes: ['anticoagulants'] },
+  { name: 'clopidogrel', synonyms: ['plavix'], classes: ['antiplatelets'] },
+  { name: 'aspirin', synonyms: ['asa', 'acetylsalicylic acid'], classes: ['nsaids', 'antiplatelets'] },
+  { name: 'ibuprofen', synonyms: ['advil', 'motrin', 'nurofen'], classes: ['nsaids'] },
+  { name: 'naproxen', synonyms: ['aleve', 'naprosyn'], classes: ['nsaids'] },
+  { name: 'diclofenac', synonyms: ['voltaren'], classes: ['nsaids'] },
+  { name: 'celecoxib', synonyms: ['celebrex'], classes: ['nsaids'] },
+  { name: 'acetaminophen', synonyms: ['tylenol', 'paracetamol'], classes: [] },
+
+  // Opioids and sedatives
+  { name: 'morphine', synonyms: ['ms contin'], classes: ['opioids'] },
+  { name: 'oxycodone', synonyms: ['oxycontin', 'percocet'], classes: ['opioids'] },
+  { name: 'hydrocodone', synonyms: ['vicodin', 'norco'], classes: ['opioids'] },
+  { name: 'codeine', synonyms: ['tylenol 3'], classes: ['opioids'] },
+  { name: 'tramadol', synonyms: ['ultram'], classes: ['opioids', 'serotonergic'] },
+  { name: 'alprazolam', synonyms: ['xanax'], classes: ['benzodiazepines'] },
+  { name: 'lorazepam', synonyms: ['ativan'], classes: ['benzodiazepines'] },
+  { name: 'diazepam', synonyms: ['valium'], classes: ['benzodiazepines'] },
+  { name: 'clonazepam', synonyms: ['klonopin'], classes: ['benzodiazepines'] },
+
+  // Psychiatric
+  { name: 'sertraline', synonyms: ['zoloft'], classes: ['ssris'] },
+  { name: 'fluoxetine', synonyms: ['prozac'], classes: ['ssris'] },
+  { name: 'citalopram', synonyms: ['celexa'], classes: ['ssris'] },
+  { name: 'escitalopram', synonyms: ['lexapro'], classes: ['ssris'] },
+  { name: 'paroxetine', synonyms: ['paxil'], classes: ['ssris'] },
+  { name: 'phenelzine', synonyms: ['nardil'], classes: ['maois'] },
+  { name: 'selegiline', synonyms: ['emsam'], classes: ['maois'] },
+  { name: 'lithium', synonyms: ['lithobid'], classes: [] },
+
+  // Cardiovascular
+  { name: 'lisinopril', synonyms: ['zestril', 'prinivil'], classes: ['ace_inhibitors'] },
+  { name: 'enalapril', synonyms: ['vasotec'], classes: ['ace_inhibitors'] },
+  { name: 'ramipril', synonyms: ['altace'], classes: ['ace_inhibitors'] },
+  { name: 'losartan', synonyms: ['cozaar'], classes: ['arbs'] },
+  { name: 'valsartan', synonyms: ['diovan'], classes: ['arbs'] },
+  { name: 'spironolactone', synonyms: ['aldactone'], classes: ['potassium_sparing_diuretics'] },
+  { name: 'potassium chloride', synonyms: ['k-dur', 'klor-con', 'potassium supplement'], classes: ['potassium_supplements'] },
+  { name: 'furosemide', synonyms: ['lasix'], classes: ['loop_diuretics'] },
+  { name: 'hydrochlorothiazide', synonyms: ['hctz'], classes: ['thiazides'] },
+  { name: 'simvastatin', synonyms: ['zocor'], classes: ['statins'] },
+  { name: 'atorvastatin', synonyms: ['lipitor'], classes: ['statins'] },
+  { name: 'amiodarone', synonyms: ['cordarone', 'pacerone'], classes: [] },
+  { name: 'digoxin', synonyms: ['lanoxin'], classes: [] },
+  { name: 'sildenafil', synonyms: ['viagra', 'revatio'], classes: ['pde5_inhibitors'] },
+  { name: 'tadalafil', synonyms: ['cialis'], classes: ['pde5_inhibitors'] },
+  { name: 'nitroglycerin', synonyms: ['nitrostat', 'gtn', 'glyceryl trinitrate'], classes: ['nitrates'] },
+  { name: 'isosorbide mononitrate', synonyms: ['imdur', 'isosorbide'], classes: ['nitrates'] },
+
+  // Other
+  { name: 'metformin', synonyms: ['glucophage'], classes: [] },
+  { name: 'methotrexate', synonyms: ['trexall'], classes: [] },
+  { name: 'allopurinol', synonyms: ['zyloprim'], classes: [] },
+  { name: 'azathioprine', synonyms: ['imuran'], classes: [] },
+  { name: 'omeprazole', synonyms: ['prilosec'], classes: ['ppis'] },
+  { name: 'theophylline', synonyms: ['theo-24'], classes: [] },
+  { name: 'levothyroxine', synonyms: ['synthroid', 'eltroxin'], classes: [] },
+];
+
+export const ALLERGENS: AllergenEntry[] = [
+  {
+    name: 'Penicillin',
+    terms: ['penicillin', 'penicillins', 'pcn', 'amoxicillin', 'ampicillin', 'augmentin'],
+    classes: ['penicillins'],
+    severity: 'contraindicated',
+    crossReactive: ['cephalosporins'],
+  },
+  {
+    name: 'Cephalosporin',
+    terms: ['cephalosporin', 'cephalosporins', 'cephalexin', 'keflex', 'ceftriaxone'],
+    classes: ['cephalosporins'],
+    severity: 'contraindicated',
+    crossReactive: ['penicillins'],
+  },
+  {
+    name: 'Sulfonamide',
+    terms: ['sulfa', 'sulfonamide', 'sulfonamides', 'bactrim', 'sulfamethoxazole'],
+    classes: ['sulfonamide_antibiotics'],
+    severity: 'contraindicated',
+  },
+  {
+    name: 'NSAID',
+    terms: ['nsaid', 'nsaids', 'aspirin', 'ibuprofen', 'naproxen'],
+    classes: ['nsaids'],
+    severity: 'major',
+  },
+  {
+    name: 'Opioid',
+    terms: ['opioid', 'opioids', 'opiate', 'opiates', 'codeine', 'morphine'],
+    classes: ['opioids'],
+    severity: 'major',
+  },
+  {
+    name: 'Macrolide',
+    terms: ['macrolide', 'macrolides', 'erythromycin', 'azithromycin', 'clarithromycin'],
+    classes: ['macrolides'],
+    severity: 'contraindicated',
+  },
+  {
+    name: 'Fluoroquinolone',
+    terms: ['quinolone', 'quinolones', 'fluoroquinolone', 'fluoroquinolones', 'ciprofloxacin'],
+    classes: ['fluoroquinolones'],
+    severity: 'contraindicated',
+  },
+  {
+    name: 'Tetracycline',
+    terms: ['tetracycline', 'tetracyclines', 'doxycycline'],
+    classes: ['tetracyclines'],
+    severity: 'contraindicated',
+  },
+  {
+    name: 'ACE inhibitor',
+    terms: ['ace inhibitor', 'ace inhibitors', 'lisinopril', 'enalapril'],
+    classes: ['ace_inhibitors'],
+    severity: 'contraindicated',
+  },
+];
+
+export const INTERACTION_RULES: InteractionRule[] = [
+  { a: 'class:maois', b: 'class:ssris', severity: 'contraindicated', effect: 'serotonin syndrome' },
+  { a: 'class:maois', b: 'class:serotonergic', severity: 'contraindicated', effect: 'serotonin syndrome' },
+  { a: 'class:ssris', b: 'class:serotonergic', severity: 'major', effect: 'serotonin syndrome and lowered seizure threshold' },
+  { a: 'class:pde5_inhibitors', b: 'class:nitrates', severity: 'contraindicated', effect: 'severe hypotension' },
+  { a: 'simvastatin', b: 'class:strong_cyp3a4_inhibitors', severity: 'contraindicated', effect: 'myopathy and rhabdomyolysis' },
+  { a: 'simvastatin', b: 'amiodarone', severity: 'major', effect: 'myopathy; limit simvastatin to 20 mg daily' },
+  { a: 'warfarin', b: 'class:nsaids', severity: 'major', effect: 'increased bleeding risk' },
+  { a: 'class:anticoagulants', b: 'class:antiplatelets', severity: 'major', effect: 'increased bleeding risk' },
+  { a: 'class:anticoagulants', b: 'class:nsaids', severity: 'major', effect: 'increased bleeding risk' },
+  { a: 'warfarin', b: 'sulfamethoxazole-trimethoprim', severity: 'major', effect: 'raised INR and bleeding' },
+  { a: 'warfarin', b: 'class:azole_antifungals', severity: 'major', effect: 'raised INR and bleeding' },
+  { a: 'warfarin', b: 'amiodarone', severity: 'major', effect: 'raised INR; reduce warfarin dose and monitor' },
+  { a: 'warfarin', b: 'class:fluoroquinolones', severity: 'moderate', effect: 'raised INR' },
+  { a: 'warfarin', b: 'class:macrolides', severity: 'moderate', effect: 'raised INR' },
+  { a: 'class:ace_inhibitors', b: 'class:arbs', severity: 'major', effect: 'hyperkalaemia, hypotension and renal impairment' },
+  { a: 'class:ace_inhibitors', b: 'class:potassium_sparing_diuretics', severity: 'major', effect: 'hyperkalaemia' },
+  { a: 'class:arbs', b: 'class:potassium_sparing_diuretics', severity: 'major', effect: 'hyperkalaemia' },
+  { a: 'class:ace_inhibitors', b: 'class:potassium_supplements', severity: 'moderate', effect: 'hyperkalaemia' },
+  { a: 'class:ace_inhibitors', b: 'trimethoprim', severity: 'moderate', effect: 'hyperkalaemia' },
+  { a: 'lithium', b: 'class:nsaids', severity: 'major', effect: 'lithium toxicity' },
+  { a: 'lithium', b: 'class:ace_inhibitors', severity: 'major', effect: 'lithium toxicity' },
+  { a: 'lithium', b: 'class:thiazides', severity: 'major', effect: 'lithium toxicity' },
+  { a: 'methotrexate', b: 'sulfamethoxazole-trimethoprim', severity: 'contraindicated', effect: 'bone marrow suppression' },
+  { a: 'methotrexate', b: 'trimethoprim', severity: 'major', effect: 'bone marrow suppression' },
+  { a: 'methotrexate', b: 'class:nsaids', severity: 'major', effect: 'methotrexate toxicity' },
+  { a: 'azathioprine', b: 'allopurinol', severity: 'major', effect: 'bone marrow suppression; reduce azathioprine dose' },
+  { a: 'class:opioids', b: 'class:benzodiazepines', severity: 'major', effect: 'respiratory depression' },
+  { a: 'digoxin', b: 'amiodarone', severity: 'major', effect: 'digoxin toxicity; halve the digoxin dose' },
+  { a: 'digoxin', b: 'clarithromycin', severity: 'major', effect: 'digoxin toxicity' },
+  { a: 'clopidogrel', b: 'omeprazole', severity: 'moderate', effect: 'reduced antiplatelet effect of clopidogrel' },
+  { a: 'ciprofloxacin', b: 'theophylline', severity: 'major', effect: 'theophylline toxicity and seizures' },
+  { a: 'aspirin', b: 'ibuprofen', severity: 'moderate', effect: 'reduced cardioprotective effect of aspirin and GI bleeding' },
+  { a: 'levothyroxine', b: 'class:ppis', severity: 'minor', effect: 'reduced levothyroxine absorption' },
+];
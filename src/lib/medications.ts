@@ -0,0 +1,19 @@
+/**
+ * Medication normalization and reconciliation, shared with the
+ * extract-medical-entities edge function that stores the normalized
+ * medications
+ */
+
+export {
+  describeMedication,
+  normalizeMedicationEntities,
+  parseMedication,
+  reconcileMedications,
+} from '../../supabase/functions/_shared/medications';
+export type {
+  ExtractedEntity,
+  MedicationChange,
+  MedicationChangeType,
+  MedicationField,
+  NormalizedMedication,
+} from '../../supabase/functions/_shared/medications';
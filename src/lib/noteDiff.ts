@@ -0,0 +1,188 @@
+/**
+ * Section-aware diffing of clinical note versions
+ *
+ * Notes are compared section by section (from note_json, or the plaintext note
+ * as a single section) with a word-level diff inside each section.
+ */
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface SectionDiff {
+  key: string;
+  title: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  before: string;
+  after: string;
+  segments: DiffSegment[];
+}
+
+export interface NoteSnapshot {
+  generated_note?: string | null;
+  note_json?: unknown;
+}
+
+const SKIPPED_KEYS = new Set(['template_id', 'plaintext']);
+
+// Above this many cells the word-level LCS table gets too large; fall back to lines
+const MAX_LCS_CELLS = 1_000_000;
+
+export function sectionTitle(key: string): string {
+  return key
+    .replace(/_/g, ' ')
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function sectionValueText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) {
+    return value.map(item => sectionValueText(item)).filter(Boolean).join('\n');
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([key, nested]) => {
+        const text = sectionValueText(nested);
+        return text ? `${sectionTitle(key)}: ${text}` : '';
+      })
+      .filter(Boolean)
+      .join('\n');
+  }
+  return String(value).trim();
+}
+
+/**
+ * Ordered section texts for a note version.
+ */
+export function noteSections(note: NoteSnapshot): Array<{ key: string; text: string }> {
+  const json = note.note_json;
+  if (json && typeof json === 'object' && !Array.isArray(json)) {
+    const source = (json as Record<string, unknown>).sections;
+    const sections = source && typeof source === 'object' && !Array.isArray(source)
+      ? (source as Record<string, unknown>)
+      : (json as Record<string, unknown>);
+
+    const entries = Object.entries(sections)
+      .filter(([key]) => !SKIPPED_KEYS.has(key))
+      .map(([key, value]) => ({ key, text: sectionValueText(value) }));
+    if (entries.length > 0) return entries;
+  }
+
+  return note.generated_note ? [{ key: 'note', text: note.generated_note.trim() }] : [];
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+function lcsDiff(a: string[], b: string[], segments: DiffSegment[]) {
+  const n = a.length;
+  const m = b.length;
+  const table = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      pushSegment(segments, 'delete', a[i++]);
+    } else {
+      pushSegment(segments, 'insert', b[j++]);
+    }
+  }
+  while (i < n) pushSegment(segments, 'delete', a[i++]);
+  while (j < m) pushSegment(segments, 'insert', b[j++]);
+}
+
+/**
+ * Word-level diff between two texts. Whitespace is kept so segments
+ * concatenate back to the original strings.
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  let a = tokenize(before);
+  let b = tokenize(after);
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    a = before.split(/(?<=\n)/);
+    b = after.split(/(?<=\n)/);
+  }
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, 'equal', a.slice(0, prefix).join(''));
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  if (middleA.length * middleB.length > MAX_LCS_CELLS) {
+    pushSegment(segments, 'delete', middleA.join(''));
+    pushSegment(segments, 'insert', middleB.join(''));
+  } else {
+    lcsDiff(middleA, middleB, segments);
+  }
+
+  pushSegment(segments, 'equal', a.slice(a.length - suffix).join(''));
+  return segments;
+}
+
+/**
+ * Compare two note versions section by section. Sections follow the order of
+ * the newer version, with removed sections appended in their original order.
+ */
+export function diffNoteVersions(before: NoteSnapshot, after: NoteSnapshot): SectionDiff[] {
+  const oldSections = new Map(noteSections(before).map(s => [s.key, s.text]));
+  const newSections = noteSections(after);
+  const newKeys = new Set(newSections.map(s => s.key));
+
+  const diffs: SectionDiff[] = newSections.map(({ key, text }) => {
+    const previous = oldSections.get(key);
+    if (previous === undefined) {
+      return { key, title: sectionTitle(key), status: 'added', before: '', after: text, segments: [{ type: 'insert', text }] };
+    }
+    const status = previous === text ? 'unchanged' : 'changed';
+    return {
+      key,
+      title: sectionTitle(key),
+      status,
+      before: previous,
+      after: text,
+      segments: status === 'unchanged' ? [{ type: 'equal', text }] : diffText(previous, text),
+    };
+  });
+
+  for (const [key, text] of oldSections) {
+    if (!newKeys.has(key)) {
+      diffs.push({ key, title: sectionTitle(key), status: 'removed', before: text, after: '', segments: [{ type: 'delete', text }] });
+    }
+  }
+
+  return diffs;
+}
@@ -0,0 +1,19 @@
+/**
+ * Note evidence - transcript segments supporting each note sentence
+ *
+ * Built by the generate-note edge function; the matching helpers live in the
+ * shared module so the editor looks sentences up the same way they were split.
+ */
+
+export {
+  contentWords,
+  findSentenceEvidence,
+  parseNoteEvidence,
+  splitSentences,
+} from '../../supabase/functions/_shared/noteEvidence';
+export type {
+  EvidenceSegment,
+  EvidenceSource,
+  NoteEvidence,
+  SentenceEvidence,
+} from '../../supabase/functions/_shared/noteEvidence';
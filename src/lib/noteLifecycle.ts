@@ -0,0 +1,35 @@
+/**
+ * Clinical note lifecycle
+ *
+ * Mirrors the transitions enforced by the enforce_note_lifecycle trigger so the
+ * UI only offers actions the database will accept.
+ */
+
+import type { Database } from '@/integrations/supabase/types';
+
+export type NoteStatus = Database['public']['Enums']['note_status'];
+
+export const NOTE_STATUS_LABELS: Record<NoteStatus, string> = {
+  draft: 'Draft',
+  pending_review: 'Pending Review',
+  signed: 'Signed',
+  amended: 'Signed + Addenda',
+};
+
+const TRANSITIONS: Record<NoteStatus, NoteStatus[]> = {
+  draft: ['pending_review'],
+  pending_review: ['draft', 'signed'],
+  signed: ['amended'],
+  amended: [],
+};
+
+export function canTransition(from: NoteStatus, to: NoteStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Signed notes are immutable; changes go into addenda.
+ */
+export function isNoteLocked(status: NoteStatus | null | undefined): boolean {
+  return status === 'signed' || status === 'amended';
+}
@@ -0,0 +1,105 @@
+/**
+ * Streaming note generation
+ *
+ * generate-note can send the note as server-sent events while the model
+ * writes it: `delta` events carry raw JSON text, `status` events progress
+ * messages, and a final `done` (or `error`) event carries the validated note,
+ * in the same shape as the non-streaming response. Deltas are fed through the
+ * shared partial JSON parser so sections can be shown as they fill in.
+ */
+
+import { createPartialJsonParser } from '../../supabase/functions/_shared/partialJson';
+
+export type NoteSections = Record<string, string | string[]>;
+
+export type NoteStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'status'; message: string }
+  | { type: 'done'; [key: string]: unknown }
+  | { type: 'error'; error?: { code?: string; message?: string } };
+
+export interface PartialNoteParser {
+  /** Add streamed text; returns the sections so far when they changed */
+  push(delta: string): NoteSections | null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function createPartialNoteParser(): PartialNoteParser {
+  const parser = createPartialJsonParser();
+  let last = '{}';
+
+  return {
+    push(delta: string) {
+      parser.push(delta);
+      const snapshot = parser.snapshot();
+      const root = snapshot && isRecord(snapshot.value) ? snapshot.value : null;
+      if (!root || !isRecord(root.sections)) return null;
+
+      const sections: NoteSections = {};
+      for (const [key, value] of Object.entries(root.sections)) {
+        if (typeof value === 'string' && value.trim()) {
+          sections[key] = value;
+        } else if (Array.isArray(value)) {
+          const items = value.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+          if (items.length > 0) sections[key] = items;
+        }
+      }
+
+      const serialized = JSON.stringify(sections);
+      if (serialized === last) return null;
+      last = serialized;
+      return sections;
+    },
+  };
+}
+
+/**
+ * Read generate-note events until the final note arrives. Resolves with the
+ * `done` payload; rejects on an `error` event or if the stream ends early.
+ */
+export async function readNoteEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: NoteStreamEvent) => void
+): Promise<Record<string, unknown>> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (line: string): Record<string, unknown> | null => {
+    if (!line.startsWith('data: ')) return null;
+    let event: NoteStreamEvent;
+    try {
+      event = JSON.parse(line.slice(6));
+    } catch {
+      return null;
+    }
+    if (event.type === 'error') {
+      throw new Error(event.error?.message || 'Note generation failed');
+    }
+    if (event.type === 'done') {
+      const { type: _type, ...result } = event;
+      return result;
+    }
+    onEvent(event);
+    return null;
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const result = handleLine(line.trim());
+      if (result) return result;
+    }
+  }
+
+  const result = buffer ? handleLine(buffer.trim()) : null;
+  if (!result) throw new Error('Note stream ended before the note was complete');
+  return result;
+}
@@ -0,0 +1,73 @@
+/**
+ * Note templates - typed section schema for templates.structure
+ *
+ * The schema, validator and prompt builder live in the shared module used by
+ * the generate-note edge function, so the editor validates exactly what the
+ * server will accept.
+ */
+
+import {
+  sectionKeyFromTitle,
+  type NoteTemplateSchema,
+  type TemplateSection,
+} from '../../supabase/functions/_shared/noteTemplate';
+
+export {
+  BUILT_IN_TEMPLATES,
+  INTERVAL_HISTORY_SECTION,
+  MAX_INSTRUCTIONS_LENGTH,
+  MAX_PRIOR_VISITS_LENGTH,
+  MAX_SECTIONS,
+  MAX_TITLE_LENGTH,
+  SECTION_KEY_PATTERN,
+  TEMPLATE_SCHEMA_VERSION,
+  buildPriorVisitGuidance,
+  buildTemplatePromptSpec,
+  normalizeTemplateStructure,
+  resolveTemplateSections,
+  sectionKeyFromTitle,
+  sectionTitleFromKey,
+  usesPriorVisits,
+  validateTemplateSchema,
+} from '../../supabase/functions/_shared/noteTemplate';
+export type {
+  BuiltInTemplateKey,
+  DetailLevel,
+  NoteTemplateSchema,
+  TemplateSchemaError,
+  TemplateSection,
+  TemplateSectionCondition,
+  TemplateSectionStyle,
+  TemplateValidationResult,
+} from '../../supabase/functions/_shared/noteTemplate';
+
+/**
+ * New section for the editor, with a key that doesn't clash with existing ones
+ */
+export function createTemplateSection(schema: NoteTemplateSchema, title = 'New Section'): TemplateSection {
+  const base = sectionKeyFromTitle(title);
+  let key = base;
+  for (let n = 2; schema.sections.some(s => s.key === key); n++) key = `${base}_${n}`;
+  return { key, title, instructions: '', required: false, style: 'bullets' };
+}
+
+/**
+ * Trim editor input before validation: whitespace around text fields and
+ * empty keywords left behind by trailing commas.
+ */
+export function tidyTemplateSchema(schema: NoteTemplateSchema): NoteTemplateSchema {
+  const instructions = schema.instructions?.trim();
+  return {
+    ...schema,
+    ...(instructions ? { instructions } : { instructions: undefined }),
+    sections: schema.sections.map(section => ({
+      ...section,
+      key: section.key.trim(),
+      title: section.title.trim(),
+      instructions: section.instructions.trim(),
+      ...(section.condition?.type === 'keywords'
+        ? { condition: { type: 'keywords' as const, keywords: section.condition.keywords.map(k => k.trim()).filter(Boolean) } }
+        : {}),
+    })),
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Patient matching
+ *
+ * Patients were typed in by hand on every session, so the same person often
+ * exists several times: a typo in the name, initials for a first name, an
+ * MRN on one record and not the other. These helpers score how likely two
+ * records are the same patient, for suggesting duplicates to merge and
+ * existing patients to link a session to. Nothing is merged automatically.
+ */
+
+export interface PatientIdentity {
+  id: string;
+  full_name: string;
+  mrn: string | null;
+  date_of_birth: string | null;
+}
+
+export type MatchReason = 'same_mrn' | 'same_name' | 'similar_name' | 'same_dob';
+
+export interface PatientMatch<T extends PatientIdentity = PatientIdentity> {
+  patient: T;
+  other: T;
+  /** 0-1; MATCH_THRESHOLD and above are offered as duplicates */
+  score: number;
+  reasons: MatchReason[];
+}
+
+export const MATCH_THRESHOLD = 0.75;
+
+/** Lowercased name words without titles or punctuation, in order */
+export function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s'-]/g, ' ')
+    .split(/[\s'-]+/)
+    .filter(token => token && !['mr', 'mrs', 'ms', 'miss', 'dr', 'jr', 'sr'].includes(token));
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // An initial matches the name it abbreviates
+  if ((a.length === 1 && b.startsWith(a)) || (b.length === 1 && a.startsWith(b))) return 0.9;
+  // So does a short form ("Rob", "Robert")
+  if (Math.min(a.length, b.length) >= 3 && (a.startsWith(b) || b.startsWith(a))) return 0.85;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * 0-1 similarity of two names, ignoring word order ("Smith, John" matches
+ * "John Smith") and tolerating typos and initials
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = nameTokens(a);
+  const right = nameTokens(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  const unused = [...longer];
+  let total = 0;
+  for (const token of shorter) {
+    let bestIndex = 0;
+    let best = -1;
+    unused.forEach((candidate, index) => {
+      const similarity = tokenSimilarity(token, candidate);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    total += best;
+    unused.splice(bestIndex, 1);
+  }
+  // A missing middle name costs a little, not a whole word
+  return (total / shorter.length) * (1 - 0.05 * (longer.length - shorter.length));
+}
+
+const normalizeMrn = (mrn: string | null) => mrn?.replace(/[\s-]/g, '').toLowerCase() || null;
+
+/**
+ * How likely two records are the same patient. A differing MRN or date of
+ * birth rules a match out, since both are recorded deliberately.
+ */
+export function scorePatientMatch(a: PatientIdentity, b: PatientIdentity): { score: number; reasons: MatchReason[] } {
+  const mrnA = normalizeMrn(a.mrn);
+  const mrnB = normalizeMrn(b.mrn);
+  if (mrnA && mrnB && mrnA !== mrnB) return { score: 0, reasons: [] };
+  if (a.date_of_birth && b.date_of_birth && a.date_of_birth !== b.date_of_birth) return { score: 0, reasons: [] };
+
+  const reasons: MatchReason[] = [];
+  const similarity = nameSimilarity(a.full_name, b.full_name);
+  if (similarity === 1) reasons.push('same_name');
+  else if (similarity >= 0.7) reasons.push('similar_name');
+
+  if (mrnA && mrnA === mrnB) {
+    reasons.unshift('same_mrn');
+    return { score: Math.max(0.95, similarity), reasons };
+  }
+
+  let score = similarity;
+  if (a.date_of_birth && a.date_of_birth === b.date_of_birth) {
+    reasons.push('same_dob');
+    score = Math.min(1, score + 0.15);
+  } else {
+    // Nothing but the name to go on
+    score *= 0.9;
+  }
+  return { score: reasons.length ? score : 0, reasons };
+}
+
+/**
+ * Likely duplicate pairs among `patients`, most likely first
+ */
+export function findDuplicatePatients<T extends PatientIdentity>(patients: T[], threshold = MATCH_THRESHOLD): PatientMatch<T>[] {
+  const matches: PatientMatch<T>[] = [];
+  for (let i = 0; i < patients.length; i++) {
+    for (let j = i + 1; j < patients.length; j++) {
+      const { score, reasons } = scorePatientMatch(patients[i], patients[j]);
+      if (score >= threshold) matches.push({ patient: patients[i], other: patients[j], score, reasons });
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Existing patients that may be the one a session's details describe, for
+ * linking the session; looser than duplicate detection
+ */
+export function suggestPatients<T extends PatientIdentity>(
+  details: Omit<PatientIdentity, 'id'>,
+  patients: T[],
+  limit = 5
+): T[] {
+  const probe = { id: '', ...details };
+  return patients
+    .map(patient => ({ patient, score: scorePatientMatch(probe, patient).score }))
+    .filter(({ score }) => score >= 0.5)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ patient }) => patient);
+}
+
+export const MATCH_REASON_LABELS: Record<MatchReason, string> = {
+  same_mrn: 'Same MRN',
+  same_name: 'Same name',
+  similar_name: 'Similar name',
+  same_dob: 'Same date of birth',
+};
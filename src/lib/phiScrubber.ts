@@ -1,96 +1,49 @@
 /**
  * PHI Scrubber - Remove or mask Protected Health Information
- * 
- * HIPAA-compliant text sanitization before AI processing
+ *
+ * HIPAA-compliant text sanitization before AI processing. Detection lives in
+ * the shared de-identification engine used by the edge functions as well, so
+ * the browser and the server scrub text the same way.
  */
 
-export interface ScrubberConfig {
-  maskNames?: boolean;
-  maskDates?: boolean;
-  maskPhoneNumbers?: boolean;
-  maskEmails?: boolean;
-  maskSSN?: boolean;
-  maskMRN?: boolean;
-}
-
-const DEFAULT_CONFIG: ScrubberConfig = {
-  maskNames: false, // Keep names for clinical context
-  maskDates: false, // Keep dates for clinical context
-  maskPhoneNumbers: true,
-  maskEmails: true,
-  maskSSN: true,
-  maskMRN: true,
-};
+import { detectPHI, redactPHI, PHI_CATEGORIES, type DeidentifyOptions } from '../../supabase/functions/_shared/phi';
+
+export {
+  createStreamReidentifier,
+  createTokenMap,
+  deidentify,
+  deidentifyMessages,
+  detectPHI,
+  redactPHI,
+  redactPHIValue,
+  reidentify,
+  reidentifyValue,
+  PHI_CATEGORIES,
+  PHI_PLACEHOLDER_INSTRUCTION,
+} from '../../supabase/functions/_shared/phi';
+export type {
+  DeidentifyOptions,
+  DeidentifyResult,
+  KnownIdentifiers,
+  PhiCategory,
+  PhiSpan,
+  PhiTokenMap,
+} from '../../supabase/functions/_shared/phi';
 
 /**
- * Scrub PHI from text before sending to AI
+ * Scrub PHI from text before sending to AI (irreversible, e.g. for logs).
+ * Use deidentify when the AI output has to be re-identified.
  */
-export function scrubPHI(text: string, config: ScrubberConfig = DEFAULT_CONFIG): string {
-  let scrubbed = text;
-
-  // Mask phone numbers
-  if (config.maskPhoneNumbers) {
-    scrubbed = scrubbed.replace(
-      /(\+?1[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/g,
-      '[PHONE]'
-    );
-  }
-
-  // Mask email addresses
-  if (config.maskEmails) {
-    scrubbed = scrubbed.replace(
-      /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g,
-      '[EMAIL]'
-    );
-  }
-
-  // Mask SSN
-  if (config.maskSSN) {
-    scrubbed = scrubbed.replace(
-      /\b\d{3}[-.\s]?\d{2}[-.\s]?\d{4}\b/g,
-      '[SSN]'
-    );
-  }
-
-  // Mask Medical Record Numbers (MRN) - common patterns
-  if (config.maskMRN) {
-    scrubbed = scrubbed.replace(
-      /\b(MRN|mrn|MR#|mr#)[\s:]?\d{6,10}\b/gi,
-      '[MRN]'
-    );
-  }
-
-  // Mask specific dates if configured
-  if (config.maskDates) {
-    scrubbed = scrubbed.replace(
-      /\b\d{1,2}[-/]\d{1,2}[-/]\d{2,4}\b/g,
-      '[DATE]'
-    );
-  }
-
-  return scrubbed;
+export function scrubPHI(text: string, options: DeidentifyOptions = {}): string {
+  return redactPHI(text, options);
 }
 
 /**
  * Validate that critical PHI has been removed
  */
-export function validateScrubbing(text: string): { safe: boolean; warnings: string[] } {
-  const warnings: string[] = [];
-
-  // Check for potential SSN
-  if (/\b\d{3}[-.\s]?\d{2}[-.\s]?\d{4}\b/.test(text)) {
-    warnings.push('Potential SSN detected');
-  }
-
-  // Check for potential credit card numbers
-  if (/\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/.test(text)) {
-    warnings.push('Potential credit card number detected');
-  }
-
-  // Check for email addresses (can contain sensitive info)
-  if (/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/.test(text)) {
-    warnings.push('Email address detected');
-  }
+export function validateScrubbing(text: string, options: DeidentifyOptions = {}): { safe: boolean; warnings: string[] } {
+  const found = new Set(detectPHI(text, options).map(span => span.category));
+  const warnings = [...found].map(category => `Potential PHI detected: ${PHI_CATEGORIES[category]}`);
 
   return {
     safe: warnings.length === 0,
@@ -0,0 +1,371 @@
+/**
+ * Reversible pseudonymization for AI calls
+ *
+ * Identifiers found by the PHI engine are swapped for stable, natural-looking
+ * surrogates before text leaves the client: consistent fake names, dates
+ * shifted by a fixed per-session offset and format-preserving stand-ins for
+ * numbers. AI output is re-hydrated with the real values before it is saved.
+ */
+
+import { detectPHI, type KnownIdentifiers, type PhiSpan } from '@/lib/phiScrubber';
+
+export interface PseudonymMap {
+  /** Days added to every date; constant for the session so intervals survive */
+  dateShiftDays: number;
+  /** lowercased original name word -> surrogate word */
+  names: Record<string, string>;
+  /** lowercased original name word -> original spelling */
+  nameSpellings: Record<string, string>;
+  /** original identifier -> surrogate */
+  values: Record<string, string>;
+  /** original age over 89 -> surrogate age */
+  ages: Record<string, string>;
+}
+
+export interface Pseudonymizer {
+  map: PseudonymMap;
+  pseudonymize: (text: string) => string;
+  rehydrate: (text: string) => string;
+  rehydrateValue: <T>(value: T) => T;
+}
+
+// Uncommon enough that they do not collide with clinical vocabulary
+const GIVEN_NAMES = [
+  'Avery', 'Rowan', 'Emerson', 'Quinn', 'Harlow', 'Sawyer', 'Linden', 'Marlowe',
+  'Ellis', 'Peyton', 'Reese', 'Kendall', 'Darcy', 'Sloane', 'Tierney', 'Callum',
+  'Soren', 'Imogen', 'Thea', 'Odette', 'Lorcan', 'Ines', 'Matthias', 'Anouk',
+  'Ciaran', 'Delphine', 'Evander', 'Freya', 'Idris', 'Junia', 'Leander', 'Maren',
+];
+
+const FAMILY_NAMES = [
+  'Ashdown', 'Brightwell', 'Calloway', 'Dunmore', 'Everly', 'Fairbanks', 'Galloway', 'Hartigan',
+  'Iverson', 'Kellerman', 'Lindqvist', 'Merriweather', 'Northcott', 'Oakhurst', 'Pemberton', 'Radcliffe',
+  'Sandoval', 'Thornbury', 'Underhill', 'Valcourt', 'Whitcombe', 'Yardley', 'Abernathy', 'Blackwood',
+  'Castellan', 'Delacroix', 'Ellsworth', 'Fenwick', 'Greyson', 'Holloway', 'Kingsley', 'Lockhart',
+];
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const TITLE_BEFORE = /\b(?:Mr|Mrs|Ms|Miss|Mx|Dr|Doctor|Prof)\.?\s+$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function hash(value: string): number {
+  // FNV-1a, enough to spread surrogates deterministically
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function matchCase(template: string, value: string): string {
+  if (template === template.toUpperCase() && template !== template.toLowerCase() && template.length > 1) {
+    return value.toUpperCase();
+  }
+  if (template === template.toLowerCase()) return value.toLowerCase();
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width, '0');
+}
+
+function ordinal(day: number): string {
+  if (day % 100 >= 11 && day % 100 <= 13) return 'th';
+  return ['th', 'st', 'nd', 'rd'][day % 10] || 'th';
+}
+
+interface ParsedDate {
+  date: Date;
+  /** Month and year only; shifted by whole months */
+  monthOnly?: boolean;
+  format: (date: Date) => string;
+}
+
+function monthIndex(token: string): number {
+  return MONTHS.findIndex(m => m.toLowerCase().startsWith(token.toLowerCase().slice(0, 3)));
+}
+
+function monthName(template: string, month: number): string {
+  const full = MONTHS[month];
+  const bare = template.replace(/\.$/, '');
+  const dot = template.endsWith('.') ? '.' : '';
+  if (bare.length >= full.length || MONTHS.some(m => m.toLowerCase() === bare.toLowerCase())) {
+    return full;
+  }
+  // Abbreviations stay abbreviated; "Sept" is the only four-letter form
+  return (month === 8 && bare.length === 4 ? 'Sept' : full.slice(0, 3)) + dot;
+}
+
+function utc(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : null;
+}
+
+/**
+ * Parse the date formats the PHI engine detects, keeping enough of the
+ * original layout to write a shifted date back in the same style.
+ */
+export function parseDate(text: string, referenceYear = new Date().getUTCFullYear()): ParsedDate | null {
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    const [, yearText, monthText, dayText] = match;
+    const date = utc(Number(yearText), Number(monthText) - 1, Number(dayText));
+    return date && {
+      date,
+      format: d => `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1, monthText.length)}-${pad(d.getUTCDate(), dayText.length)}`,
+    };
+  }
+
+  match = text.match(/^(\d{1,2})([/.-])(\d{1,2})(?:\2(\d{4}|\d{2}))?$/);
+  if (match) {
+    const [, first, sep, second, yearText] = match;
+    const dayFirst = Number(first) > 12;
+    const month = Number(dayFirst ? second : first) - 1;
+    const day = Number(dayFirst ? first : second);
+    const year = !yearText ? referenceYear : yearText.length === 2 ? 2000 + Number(yearText) - (Number(yearText) > (referenceYear % 100) ? 100 : 0) : Number(yearText);
+    const date = utc(year, month, day);
+    return date && {
+      date,
+      format: d => {
+        const m = pad(d.getUTCMonth() + 1, (dayFirst ? second : first).length);
+        const dd = pad(d.getUTCDate(), (dayFirst ? first : second).length);
+        const parts = dayFirst ? [dd, m] : [m, dd];
+        if (yearText) parts.push(yearText.length === 2 ? pad(d.getUTCFullYear() % 100, 2) : String(d.getUTCFullYear()));
+        return parts.join(sep);
+      },
+    };
+  }
+
+  // March 3rd, 2024 / Mar 3 / Sept 12, 2023
+  match = text.match(/^([A-Za-z]+\.?)(\s+)(\d{1,2})(st|nd|rd|th)?(?:(,?\s+)(\d{4}))?$/);
+  if (match && monthIndex(match[1]) >= 0) {
+    const [, monthText, space, dayText, suffix, yearSep, yearText] = match;
+    const date = utc(yearText ? Number(yearText) : referenceYear, monthIndex(monthText), Number(dayText));
+    return date && {
+      date,
+      format: d => {
+        const day = d.getUTCDate();
+        const year = yearText ? `${yearSep}${d.getUTCFullYear()}` : '';
+        return `${monthName(monthText, d.getUTCMonth())}${space}${day}${suffix ? ordinal(day) : ''}${year}`;
+      },
+    };
+  }
+
+  // 12 June 2023 / 3rd of March
+  match = text.match(/^(\d{1,2})(st|nd|rd|th)?(\s+(?:of\s+)?)([A-Za-z]+\.?)(?:(,?\s+)(\d{4}))?$/);
+  if (match && monthIndex(match[4]) >= 0) {
+    const [, dayText, suffix, middle, monthText, yearSep, yearText] = match;
+    const date = utc(yearText ? Number(yearText) : referenceYear, monthIndex(monthText), Number(dayText));
+    return date && {
+      date,
+      format: d => {
+        const day = d.getUTCDate();
+        const year = yearText ? `${yearSep}${d.getUTCFullYear()}` : '';
+        return `${day}${suffix ? ordinal(day) : ''}${middle}${monthName(monthText, d.getUTCMonth())}${year}`;
+      },
+    };
+  }
+
+  // Sept 2023
+  match = text.match(/^([A-Za-z]+\.?)(,?\s+)(\d{4})$/);
+  if (match && monthIndex(match[1]) >= 0) {
+    const [, monthText, space, yearText] = match;
+    const date = utc(Number(yearText), monthIndex(monthText), 1);
+    return date && {
+      date,
+      monthOnly: true,
+      format: d => `${monthName(monthText, d.getUTCMonth())}${space}${d.getUTCFullYear()}`,
+    };
+  }
+
+  return null;
+}
+
+export function shiftDate(text: string, days: number): string | null {
+  const parsed = parseDate(text);
+  if (!parsed) return null;
+  if (parsed.monthOnly) {
+    // Rounded symmetrically so shifting back restores the same month
+    const months = Math.sign(days) * Math.round(Math.abs(days) / 30.4375);
+    const date = parsed.date;
+    return parsed.format(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)));
+  }
+  return parsed.format(new Date(parsed.date.getTime() + days * DAY_MS));
+}
+
+/**
+ * Replace letters and digits with deterministic stand-ins of the same kind,
+ * keeping separators so the surrogate still looks like the original.
+ */
+function formatPreserving(value: string, seed: number): string {
+  let state = seed || 1;
+  const next = () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 0x100000000;
+  };
+  return value.replace(/[A-Za-z0-9]/g, char => {
+    if (/\d/.test(char)) return String(Math.floor(next() * 10));
+    const letter = String.fromCharCode(97 + Math.floor(next() * 26));
+    return char === char.toUpperCase() ? letter.toUpperCase() : letter;
+  });
+}
+
+export function createPseudonymizer(sessionKey: string, known: KnownIdentifiers = {}): Pseudonymizer {
+  const seed = hash(sessionKey);
+  const map: PseudonymMap = {
+    // Always move dates, by 30-364 days back
+    dateShiftDays: -(30 + (seed % 335)),
+    names: {},
+    nameSpellings: {},
+    values: {},
+    ages: {},
+  };
+
+  const usedSurrogates = () => new Set([
+    ...Object.values(map.names).map(n => n.toLowerCase()),
+    ...Object.values(map.values),
+    ...Object.values(map.ages),
+  ]);
+
+  const surrogateName = (word: string, family: boolean, text: string): string => {
+    const key = word.toLowerCase();
+    const existing = map.names[key];
+    if (existing) return matchCase(word, existing);
+
+    const pool = family ? FAMILY_NAMES : GIVEN_NAMES;
+    const used = usedSurrogates();
+    const start = hash(`${sessionKey}|name|${key}`) % pool.length;
+    let surrogate = '';
+    for (let i = 0; i < pool.length && !surrogate; i++) {
+      const candidate = pool[(start + i) % pool.length];
+      const inText = new RegExp(`\\b${candidate}\\b`, 'i').test(text);
+      if (!used.has(candidate.toLowerCase()) && !inText && candidate.toLowerCase() !== key) surrogate = candidate;
+    }
+    if (!surrogate) surrogate = `${pool[start]}${Object.keys(map.names).length + 1}`;
+
+    map.names[key] = surrogate;
+    map.nameSpellings[key] = word;
+    return matchCase(word, surrogate);
+  };
+
+  const surrogateValue = (value: string, category: PhiSpan['category']): string => {
+    const existing = map.values[value];
+    if (existing) return existing;
+
+    const used = usedSurrogates();
+    let attempt = 0;
+    let surrogate: string;
+    do {
+      const valueSeed = hash(`${sessionKey}|${category}|${value}|${attempt++}`);
+      if (category === 'EMAIL') {
+        surrogate = `${formatPreserving(value.split('@')[0], valueSeed).toLowerCase()}@example.com`;
+      } else if (category === 'URL') {
+        surrogate = `https://example.org/${formatPreserving(value.replace(/^\w+:\/\//, '').replace(/[^A-Za-z0-9]/g, ''), valueSeed).slice(0, 12)}`;
+      } else {
+        surrogate = formatPreserving(value, valueSeed);
+      }
+    } while ((used.has(surrogate) || surrogate === value) && attempt < 10);
+
+    map.values[value] = surrogate;
+    return surrogate;
+  };
+
+  const surrogateAge = (age: string): string => {
+    const existing = map.ages[age];
+    if (existing) return existing;
+    // Stay over 89 so the clinical picture is unchanged
+    const used = usedSurrogates();
+    let candidate = 90 + (hash(`${sessionKey}|age|${age}`) % 10);
+    while (used.has(String(candidate)) || String(candidate) === age) candidate++;
+    map.ages[age] = String(candidate);
+    return map.ages[age];
+  };
+
+  const surrogateFor = (span: PhiSpan, text: string): string => {
+    switch (span.category) {
+      case 'NAME': {
+        const words = span.text.split(/(\s+|,\s*)/);
+        const nameWords = words.filter(w => w.trim() && !/^,?\s*$/.test(w));
+        const commaForm = span.text.includes(',');
+        const afterTitle = TITLE_BEFORE.test(text.slice(0, span.start));
+        let index = 0;
+        return words.map(part => {
+          if (!part.trim() || /^,?\s*$/.test(part)) return part;
+          const position = index++;
+          const family = commaForm
+            ? position === 0
+            : nameWords.length === 1 ? afterTitle : position === nameWords.length - 1;
+          return surrogateName(part, family, text);
+        }).join('');
+      }
+      case 'DATE':
+        return shiftDate(span.text, map.dateShiftDays) ?? surrogateValue(span.text, span.category);
+      case 'AGE':
+        return surrogateAge(span.text);
+      default:
+        return surrogateValue(span.text, span.category);
+    }
+  };
+
+  const pseudonymize = (text: string): string => {
+    if (!text) return text;
+    const spans = detectPHI(text, known);
+    let result = '';
+    let cursor = 0;
+    for (const span of spans) {
+      result += text.slice(cursor, span.start) + surrogateFor(span, text);
+      cursor = span.end;
+    }
+    return result + text.slice(cursor);
+  };
+
+  const rehydrate = (text: string): string => {
+    if (!text) return text;
+    let result = text;
+
+    // Dates first, while the text still only contains shifted dates
+    const dateSpans = detectPHI(result, { categories: ['DATE'] });
+    for (const span of [...dateSpans].reverse()) {
+      const restored = shiftDate(span.text, -map.dateShiftDays);
+      if (restored) result = result.slice(0, span.start) + restored + result.slice(span.end);
+    }
+
+    const values = Object.entries(map.values).sort((a, b) => b[1].length - a[1].length);
+    for (const [original, surrogate] of values) {
+      result = result.replace(new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(surrogate)}(?![A-Za-z0-9])`, 'g'), () => original);
+    }
+
+    for (const [original, surrogate] of Object.entries(map.ages)) {
+      result = result.replace(
+        new RegExp(`\\b${surrogate}(?=[- ](?:years?|yrs?|y)[- ]old\\b|\\s?(?:yo|y\\/o)\\b)|(?<=\\b(?:age|aged)\\s+)${surrogate}\\b`, 'gi'),
+        original
+      );
+    }
+
+    for (const [key, surrogate] of Object.entries(map.names)) {
+      result = result.replace(new RegExp(`\\b${escapeRegExp(surrogate)}\\b`, 'gi'), match => matchCase(match, map.nameSpellings[key]));
+    }
+
+    return result;
+  };
+
+  const rehydrateValue = <T,>(value: T): T => {
+    if (typeof value === 'string') return rehydrate(value) as T;
+    if (Array.isArray(value)) return value.map(item => rehydrateValue(item)) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, nested]) => [key, rehydrateValue(nested)])
+      ) as T;
+    }
+    return value;
+  };
+
+  return { map, pseudonymize, rehydrate, rehydrateValue };
+}
@@ -1,7 +1,9 @@
 /**
  * Client-side rate limiting to prevent abuse
  * 
- * Tracks API calls and enforces limits before hitting the server
+ * Tracks API calls and enforces limits before hitting the server. This only
+ * saves round trips: the edge functions enforce the authoritative per-user
+ * rate and team budgets (supabase/functions/_shared/quota.ts).
  */
 
 interface RateLimitConfig {
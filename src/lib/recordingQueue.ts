@@ -0,0 +1,216 @@
+/**
+ * Durable recording queue
+ *
+ * Every MediaRecorder chunk is written to IndexedDB as it arrives, together
+ * with the session it belongs to, so a visit can be recorded with no network
+ * at all and nothing is lost on a reload. RecordingSyncWorker uploads and
+ * transcribes queued recordings once the browser is back online and removes
+ * them from the queue when done.
+ */
+
+export type QueuedRecordingStatus =
+  /** Chunks are still being written by a recorder */
+  | 'recording'
+  /** Finished, waiting for the sync worker */
+  | 'pending'
+  | 'uploading'
+  | 'transcribing'
+  /** Last attempt failed; retried after nextAttemptAt */
+  | 'failed';
+
+export interface QueuedRecording {
+  id: string;
+  sessionId: string;
+  mimeType: string;
+  startedAt: number;
+  stoppedAt: number | null;
+  /** Refreshed while a recorder is writing; a stale 'recording' was abandoned */
+  updatedAt: number;
+  chunkCount: number;
+  bytes: number;
+  status: QueuedRecordingStatus;
+  /** Live transcription missed part of it (offline or errors); transcribe after upload */
+  needsTranscription: boolean;
+  /** Set once the audio is in storage, so retries only redo transcription */
+  storagePath: string | null;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: number | null;
+}
+
+export interface RecordingQueueStore {
+  putRecording(recording: QueuedRecording): Promise<void>;
+  getRecording(id: string): Promise<QueuedRecording | undefined>;
+  listRecordings(): Promise<QueuedRecording[]>;
+  putChunk(recordingId: string, seq: number, data: Blob): Promise<void>;
+  /** Chunks of one recording in recording order */
+  getChunks(recordingId: string): Promise<Blob[]>;
+  /** Removes the recording and its chunks */
+  deleteRecording(id: string): Promise<void>;
+}
+
+const DB_NAME = 'heidi-recording-queue';
+const DB_VERSION = 1;
+
+/** How often an open recording refreshes updatedAt, even while paused */
+export const RECORDING_HEARTBEAT_MS = 10_000;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function createIndexedDbRecordingStore(name = DB_NAME): RecordingQueueStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('recordings', { keyPath: 'id' });
+        const chunks = db.createObjectStore('chunks', { keyPath: ['recordingId', 'seq'] });
+        chunks.createIndex('recordingId', 'recordingId');
+      };
+      dbPromise = promisify(request);
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    async putRecording(recording) {
+      const db = await open();
+      const tx = db.transaction('recordings', 'readwrite');
+      tx.objectStore('recordings').put(recording);
+      await transactionDone(tx);
+    },
+    async getRecording(id) {
+      const db = await open();
+      return promisify(db.transaction('recordings').objectStore('recordings').get(id));
+    },
+    async listRecordings() {
+      const db = await open();
+      const recordings: QueuedRecording[] = await promisify(db.transaction('recordings').objectStore('recordings').getAll());
+      return recordings.sort((a, b) => a.startedAt - b.startedAt);
+    },
+    async putChunk(recordingId, seq, data) {
+      const db = await open();
+      const tx = db.transaction('chunks', 'readwrite');
+      tx.objectStore('chunks').put({ recordingId, seq, data });
+      await transactionDone(tx);
+    },
+    async getChunks(recordingId) {
+      const db = await open();
+      const rows: Array<{ seq: number; data: Blob }> = await promisify(
+        db.transaction('chunks').objectStore('chunks').index('recordingId').getAll(recordingId)
+      );
+      return rows.sort((a, b) => a.seq - b.seq).map(row => row.data);
+    },
+    async deleteRecording(id) {
+      const db = await open();
+      const tx = db.transaction(['recordings', 'chunks'], 'readwrite');
+      tx.objectStore('recordings').delete(id);
+      tx.objectStore('chunks').delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+      await transactionDone(tx);
+    },
+  };
+}
+
+export interface QueuedRecordingWriter {
+  readonly id: string;
+  /** Epoch ms; the recording's own clock for word timestamps */
+  readonly startedAt: number;
+  append(data: Blob): void;
+  /** Flag that live transcription missed part of this recording */
+  markNeedsTranscription(): void;
+  /** Waits for pending writes and hands the recording to the sync worker */
+  finish(): Promise<QueuedRecording>;
+}
+
+/**
+ * Start writing a recording to the queue. Writes are serialized so chunk
+ * order and counts stay consistent; a failed write is logged and the
+ * recording carries on, since the in-memory copy is still intact.
+ */
+export async function beginQueuedRecording(
+  store: RecordingQueueStore,
+  options: { sessionId: string; mimeType: string; offline?: boolean },
+  onChange?: () => void
+): Promise<QueuedRecordingWriter> {
+  const recording: QueuedRecording = {
+    id: crypto.randomUUID(),
+    sessionId: options.sessionId,
+    mimeType: options.mimeType,
+    startedAt: Date.now(),
+    stoppedAt: null,
+    updatedAt: Date.now(),
+    chunkCount: 0,
+    bytes: 0,
+    status: 'recording',
+    needsTranscription: !!options.offline,
+    storagePath: null,
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: null,
+  };
+  await store.putRecording(recording);
+  onChange?.();
+
+  let writes = Promise.resolve();
+  const enqueue = (write: () => Promise<void>) => {
+    writes = writes.then(write).catch(error => console.error('Failed to write to recording queue:', error));
+    return writes;
+  };
+  const saveMetadata = () => {
+    recording.updatedAt = Date.now();
+    return store.putRecording({ ...recording });
+  };
+
+  // Chunks are written as they come; metadata every few seconds while they
+  // arrive and on the heartbeat while paused
+  let lastSaved = 0;
+  const heartbeat = setInterval(() => enqueue(saveMetadata), RECORDING_HEARTBEAT_MS);
+
+  return {
+    id: recording.id,
+    startedAt: recording.startedAt,
+    append(data) {
+      if (data.size === 0) return;
+      const seq = recording.chunkCount++;
+      recording.bytes += data.size;
+      enqueue(async () => {
+        await store.putChunk(recording.id, seq, data);
+        if (Date.now() - lastSaved >= RECORDING_HEARTBEAT_MS / 5) {
+          lastSaved = Date.now();
+          await saveMetadata();
+        }
+      });
+    },
+    markNeedsTranscription() {
+      if (recording.needsTranscription) return;
+      recording.needsTranscription = true;
+      enqueue(saveMetadata);
+    },
+    async finish() {
+      clearInterval(heartbeat);
+      recording.status = 'pending';
+      recording.stoppedAt = Date.now();
+      await enqueue(saveMetadata);
+      onChange?.();
+      return { ...recording };
+    },
+  };
+}
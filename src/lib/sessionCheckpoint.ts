@@ -0,0 +1,113 @@
+/**
+ * Session crash recovery
+ *
+ * While a visit is being recorded the page writes a checkpoint to
+ * localStorage every few seconds: the transcript segments not yet saved to
+ * session_transcripts, the speaker diarization state and the offline queue
+ * entry holding the audio chunks. A checkpoint that is still there when the
+ * session is opened again belongs to a recording that never stopped cleanly,
+ * and can be restored so transcription carries on in the same session.
+ */
+
+import type { DiarizationState } from '@/utils/AdvancedSpeakerDiarization';
+import type { TranscriptWord } from '@/lib/wordTimings';
+
+export const CHECKPOINT_VERSION = 1;
+
+/** How often a recording page writes its checkpoint */
+export const CHECKPOINT_INTERVAL_MS = 5_000;
+
+/** A checkpoint not refreshed for this long lost its page (closed or crashed) */
+export const STALE_CHECKPOINT_MS = CHECKPOINT_INTERVAL_MS * 3;
+
+export interface CheckpointChunk {
+  text: string;
+  speaker: string;
+  /** Offset from the session start in ms, as stored in timestamp_offset */
+  timestamp: number;
+  recordingId?: string | null;
+  words?: TranscriptWord[];
+}
+
+export interface SessionCheckpoint {
+  version: typeof CHECKPOINT_VERSION;
+  sessionId: string;
+  savedAt: number;
+  /** Transcript time elapsed when saved; offsets continue from here */
+  elapsedMs: number;
+  /** Seconds of audio recorded so far */
+  recordedSeconds: number;
+  /** Offline queue entry with the audio chunks, see recordingQueue */
+  recordingId: string | null;
+  /** Segments shown live but not yet in session_transcripts */
+  unsavedChunks: CheckpointChunk[];
+  diarization: DiarizationState;
+  /** Set when the page was closed while recording, so no need to wait for it to go stale */
+  closedAt: number | null;
+}
+
+export type CheckpointStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+const checkpointKey = (sessionId: string) => `session_checkpoint_${sessionId}`;
+
+const defaultStorage = (): CheckpointStorage | null =>
+  typeof localStorage === 'undefined' ? null : localStorage;
+
+export function saveCheckpoint(checkpoint: SessionCheckpoint, storage = defaultStorage()) {
+  try {
+    storage?.setItem(checkpointKey(checkpoint.sessionId), JSON.stringify(checkpoint));
+  } catch (error) {
+    // Quota errors must not interrupt the recording
+    console.error('Failed to write session checkpoint:', error);
+  }
+}
+
+export function loadCheckpoint(sessionId: string, storage = defaultStorage()): SessionCheckpoint | null {
+  try {
+    const raw = storage?.getItem(checkpointKey(sessionId));
+    if (!raw) return null;
+    const checkpoint = JSON.parse(raw) as SessionCheckpoint;
+    if (checkpoint.version !== CHECKPOINT_VERSION || checkpoint.sessionId !== sessionId) return null;
+    return checkpoint;
+  } catch (error) {
+    console.error('Failed to read session checkpoint:', error);
+    return null;
+  }
+}
+
+export function clearCheckpoint(sessionId: string, storage = defaultStorage()) {
+  try {
+    storage?.removeItem(checkpointKey(sessionId));
+  } catch (error) {
+    console.error('Failed to clear session checkpoint:', error);
+  }
+}
+
+/**
+ * Milliseconds until the checkpoint counts as interrupted; 0 when it already
+ * does. A checkpoint still being refreshed may belong to another open tab.
+ */
+export function timeUntilInterrupted(checkpoint: SessionCheckpoint, now = Date.now()): number {
+  if (checkpoint.closedAt) return 0;
+  return Math.max(0, checkpoint.savedAt + STALE_CHECKPOINT_MS - now);
+}
+
+/**
+ * Whether restoring the checkpoint would bring anything back
+ */
+export function hasRecoverableState(checkpoint: SessionCheckpoint): boolean {
+  return checkpoint.unsavedChunks.length > 0 || checkpoint.diarization.segments.length > 0;
+}
+
+/**
+ * Unsaved segments that did not make it into session_transcripts. A batch
+ * insert can succeed just before a crash without the page hearing back, so
+ * segments already stored with the same offset and text are dropped.
+ */
+export function unsavedChunksToRestore(
+  checkpoint: SessionCheckpoint,
+  saved: Array<{ text: string; timestamp_offset: number | null }>
+): CheckpointChunk[] {
+  const stored = new Set(saved.map(row => `${row.timestamp_offset ?? 0}:${row.text.trim()}`));
+  return checkpoint.unsavedChunks.filter(chunk => !stored.has(`${chunk.timestamp}:${chunk.text.trim()}`));
+}
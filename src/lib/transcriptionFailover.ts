@@ -0,0 +1,161 @@
+/**
+ * Transcription failover
+ *
+ * A streaming provider can die in the middle of a visit: its socket drops
+ * and the hook's own reconnects give up, it keeps failing, or it stays
+ * connected but stops returning text while someone is talking.
+ * useHybridTranscription watches for this and moves the session to the next
+ * provider that can transcribe the visit's language. Audio recorded since the
+ * last final transcript is transcribed in a batch once the new provider is
+ * running, and text on either side of the switch is stitched so words heard
+ * by both providers appear once.
+ *
+ * Each switch is recorded in system_metrics as a 'transcription_failover'
+ * metric.
+ */
+
+import type { Json } from '@/integrations/supabase/types';
+import {
+  modelCapabilities,
+  providerForModel,
+  supportsLanguage,
+  type TranscriptionProviderId,
+} from './transcriptionProviders';
+
+export type FailoverReason = 'disconnected' | 'errors' | 'stalled' | 'start_failed';
+
+/** Longer than the streaming hooks' own reconnect backoff (1s, 2s, 4s) */
+export const DISCONNECT_GRACE_MS = 10_000;
+
+/** Speech with no transcript for this long means the provider stalled */
+export const STREAMING_STALL_MS = 15_000;
+
+/** Batch providers answer once per recorded segment, so they get longer */
+export const BATCH_STALL_MS = 40_000;
+
+/** Errors within ERROR_WINDOW_MS that count as a failing provider */
+export const ERROR_THRESHOLD = 3;
+export const ERROR_WINDOW_MS = 60_000;
+
+export const FAILOVER_METRIC = 'transcription_failover';
+
+/** Preferred fallback per provider, best first; Whisper batch is the last resort */
+const FALLBACK_ORDER: string[] = ['nova-2-medical', 'nova-2', 'assemblyai-best', 'whisper-1'];
+
+/**
+ * Models to fall back to from `model`, in order: the configured list when
+ * given, otherwise one model per other provider. Models of the failing
+ * provider and models that can't transcribe the language are left out.
+ */
+export function fallbackModels(model: string, language: string, configured?: string[]): string[] {
+  const failing = providerForModel(model);
+  const candidates = configured ?? FALLBACK_ORDER;
+  const seen = new Set<TranscriptionProviderId>([failing]);
+
+  return candidates.filter(candidate => {
+    if (candidate === model || !supportsLanguage(modelCapabilities(candidate), language)) return false;
+    const provider = providerForModel(candidate);
+    // Configured lists may hold several models of a provider; the defaults take the first that fits
+    if (!configured && seen.has(provider)) return false;
+    if (provider === failing) return false;
+    seen.add(provider);
+    return true;
+  });
+}
+
+export interface SupervisorState {
+  /** When the streaming connection was lost, null while connected */
+  disconnectedSince: number | null;
+  /** First speech heard since the provider last returned text */
+  unansweredSpeechSince: number | null;
+  /** Times of recent provider errors */
+  errors: number[];
+}
+
+export const initialSupervisorState = (): SupervisorState => ({
+  disconnectedSince: null,
+  unansweredSpeechSince: null,
+  errors: [],
+});
+
+/**
+ * Why the running provider should be replaced, or null while it is healthy
+ */
+export function detectFailure(state: SupervisorState, model: string, now: number): FailoverReason | null {
+  const streaming = modelCapabilities(model).streaming;
+
+  if (streaming && state.disconnectedSince !== null && now - state.disconnectedSince >= DISCONNECT_GRACE_MS) {
+    return 'disconnected';
+  }
+  if (state.errors.filter(at => now - at <= ERROR_WINDOW_MS).length >= ERROR_THRESHOLD) {
+    return 'errors';
+  }
+  const stallAfter = streaming ? STREAMING_STALL_MS : BATCH_STALL_MS;
+  if (state.unansweredSpeechSince !== null && now - state.unansweredSpeechSince >= stallAfter) {
+    return 'stalled';
+  }
+  return null;
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+/** Words compared at a switch; more than a provider hears twice in one segment */
+const MAX_STITCH_WORDS = 40;
+
+/** Shortest overlap trusted away from the start of `next` */
+const MIN_INNER_OVERLAP = 3;
+
+/**
+ * Text of `next` not already at the end of `previous`. Both providers may
+ * have heard the words around the switch, and a backfilled segment can
+ * start before the last final did: the longest run of words ending
+ * `previous` is found in `next`, and it and everything before it dropped.
+ * Short runs only count at the very start, where they can't be chance.
+ */
+export function stitchTranscript(previous: string, next: string): string {
+  const before = previous.split(/\s+/).filter(Boolean).slice(-MAX_STITCH_WORDS).map(normalizeWord);
+  const after = next.split(/\s+/).filter(Boolean);
+  const afterNormalized = after.map(normalizeWord);
+
+  for (let length = Math.min(before.length, after.length); length > 0; length--) {
+    const tail = before.slice(before.length - length);
+    const lastStart = length >= MIN_INNER_OVERLAP ? after.length - length : 0;
+    for (let start = 0; start <= lastStart; start++) {
+      if (tail.every((word, i) => word === afterNormalized[start + i])) {
+        return after.slice(start + length).join(' ');
+      }
+    }
+  }
+  return next.trim();
+}
+
+export interface FailoverEvent {
+  sessionId?: string;
+  reason: FailoverReason;
+  fromModel: string;
+  /** null when every fallback was exhausted and transcription stopped */
+  toModel: string | null;
+  /** From detecting the failure until the next provider was transcribing */
+  switchMs: number;
+  /** Characters recovered from the buffered audio */
+  backfilledChars: number;
+}
+
+/**
+ * system_metrics row for a failover; metric_value is the time the switch took
+ */
+export function failoverMetric(event: FailoverEvent): { metric_type: string; metric_value: number; metadata: Json } {
+  return {
+    metric_type: FAILOVER_METRIC,
+    metric_value: Math.round(event.switchMs),
+    metadata: {
+      session_id: event.sessionId ?? null,
+      reason: event.reason,
+      from_model: event.fromModel,
+      from_provider: providerForModel(event.fromModel),
+      to_model: event.toModel,
+      to_provider: event.toModel ? providerForModel(event.toModel) : null,
+      backfilled_chars: event.backfilledChars,
+    },
+  };
+}
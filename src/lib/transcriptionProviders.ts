@@ -0,0 +1,234 @@
+/**
+ * Transcription providers and their capabilities
+ *
+ * Whisper, AssemblyAI, Deepgram and OpenAI Realtime each have their own hook
+ * and their own event shape. useHybridTranscription wraps each one in a
+ * TranscriptionProvider, so recording code starts, pauses and stops any of
+ * them the same way and receives the same partial/final events.
+ *
+ * What a provider can do is declared here, per provider and per model, and
+ * negotiated before recording: a request for a language or for speaker
+ * labels the chosen model can't honour falls back instead of failing, and
+ * the model picker shows only the features the model really has.
+ */
+
+import type { WordTiming } from './wordTimings';
+
+export type TranscriptionProviderId = 'whisper' | 'assemblyai' | 'deepgram' | 'openai-realtime';
+
+export interface TranscriptionCapabilities {
+  /** Audio is transcribed as it streams rather than in recorded batches */
+  streaming: boolean;
+  /** Interim text is reported before a chunk is final */
+  partialResults: boolean;
+  /** Final chunks carry per-word timestamps for click-to-seek review */
+  wordTimings: boolean;
+  /** The provider labels who is speaking */
+  diarization: boolean;
+  /** Reports when speech starts and stops */
+  voiceActivity: boolean;
+  pause: boolean;
+  /** Spoken languages accepted (ISO 639-1), or 'any' when detected automatically */
+  languages: string[] | 'any';
+}
+
+/** Capabilities the recording screen can ask for */
+export type TranscriptionFeature = 'partialResults' | 'wordTimings' | 'diarization' | 'voiceActivity' | 'language';
+
+export interface TranscriptionFinal {
+  text: string;
+  timing?: WordTiming;
+  /** Provider speaker index, when diarization was requested and supported */
+  speaker?: number;
+}
+
+export interface TranscriptionEvents {
+  onPartial: (text: string) => void;
+  onFinal: (final: TranscriptionFinal) => void;
+  onError: (message: string) => void;
+  onSpeechChange?: (speaking: boolean) => void;
+}
+
+export interface TranscriptionStartOptions {
+  language: string;
+  diarization: boolean;
+}
+
+/**
+ * A transcription engine as recording code sees it
+ */
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  capabilities: TranscriptionCapabilities;
+  isConnected: boolean;
+  isStreaming: boolean;
+  isSpeaking: boolean;
+  /** Resolves once audio is flowing; rejects when the provider can't start */
+  start(stream: MediaStream, options: TranscriptionStartOptions): Promise<void>;
+  stop(): void;
+  pause(): void;
+  resume(): void;
+}
+
+export interface TranscriptionProviderInfo {
+  label: string;
+  /** Typical delay before text appears, for the picker */
+  latency: string;
+  capabilities: TranscriptionCapabilities;
+}
+
+export const TRANSCRIPTION_PROVIDERS: Record<TranscriptionProviderId, TranscriptionProviderInfo> = {
+  whisper: {
+    label: 'OpenAI (Whisper)',
+    latency: '~2-5s per 10s segment',
+    capabilities: {
+      streaming: false,
+      partialResults: false,
+      wordTimings: true,
+      diarization: false,
+      voiceActivity: false,
+      pause: true,
+      languages: ['en', 'hi', 'kn', 'es', 'fr', 'de'],
+    },
+  },
+  assemblyai: {
+    label: 'AssemblyAI Real-Time',
+    latency: '<500ms',
+    capabilities: {
+      streaming: true,
+      partialResults: true,
+      wordTimings: true,
+      diarization: false,
+      voiceActivity: false,
+      pause: true,
+      languages: ['en'],
+    },
+  },
+  deepgram: {
+    label: 'Deepgram Models',
+    latency: '<300ms',
+    capabilities: {
+      streaming: true,
+      partialResults: true,
+      wordTimings: true,
+      diarization: true,
+      voiceActivity: false,
+      pause: true,
+      languages: ['en', 'hi', 'es', 'fr', 'de'],
+    },
+  },
+  'openai-realtime': {
+    label: 'OpenAI Realtime',
+    latency: '<100ms',
+    capabilities: {
+      streaming: true,
+      partialResults: true,
+      wordTimings: false,
+      diarization: false,
+      voiceActivity: true,
+      pause: true,
+      languages: 'any',
+    },
+  },
+};
+
+export interface TranscriptionModel {
+  id: string;
+  label: string;
+  provider: TranscriptionProviderId;
+  /** Picker group heading */
+  group: string;
+  /** Where the model differs from its provider */
+  overrides?: Partial<TranscriptionCapabilities>;
+}
+
+export const TRANSCRIPTION_MODELS: TranscriptionModel[] = [
+  { id: 'whisper-1', label: 'whisper-1', provider: 'whisper', group: 'OpenAI (Whisper)' },
+  { id: 'gpt-4o-mini-transcribe', label: 'gpt-4o-mini-transcribe', provider: 'whisper', group: 'OpenAI (Whisper)' },
+  { id: 'assemblyai-best', label: 'assemblyai-best (highest accuracy)', provider: 'assemblyai', group: 'AssemblyAI Real-Time' },
+  { id: 'assemblyai-nano', label: 'assemblyai-nano (fastest)', provider: 'assemblyai', group: 'AssemblyAI Real-Time' },
+  { id: 'nova-2', label: 'nova-2', provider: 'deepgram', group: 'Deepgram Models' },
+  { id: 'nova-2-general', label: 'nova-2-general', provider: 'deepgram', group: 'Deepgram Models' },
+  { id: 'nova-2-conversational', label: 'nova-2-conversational', provider: 'deepgram', group: 'Deepgram Models', overrides: { languages: ['en'] } },
+  { id: 'nova-2-medical', label: 'nova-2-medical ⭐', provider: 'deepgram', group: 'Deepgram Models', overrides: { languages: ['en'] } },
+  { id: 'nova-2-phonecall', label: 'nova-2-phonecall', provider: 'deepgram', group: 'Deepgram Models', overrides: { languages: ['en'] } },
+  { id: 'enhanced', label: 'enhanced', provider: 'deepgram', group: 'Deepgram Models', overrides: { languages: ['en', 'es', 'fr', 'de', 'hi'] } },
+  { id: 'whisper-large', label: 'whisper-large', provider: 'deepgram', group: 'Deepgram Models', overrides: { languages: 'any', diarization: false } },
+  { id: 'silero-vad-1', label: 'silero-vad-1', provider: 'openai-realtime', group: 'Silero VAD (Voice Detection)' },
+  { id: 'silero-vad-2', label: 'silero-vad-2', provider: 'openai-realtime', group: 'Silero VAD (Voice Detection)' },
+  { id: 'turn_detector_v1', label: 'turn_detector_v1', provider: 'openai-realtime', group: 'Turn Detector (Conversation)' },
+  { id: 'turn_detector_v2', label: 'turn_detector_v2', provider: 'openai-realtime', group: 'Turn Detector (Conversation)' },
+];
+
+export const getTranscriptionModel = (model: string) => TRANSCRIPTION_MODELS.find(m => m.id === model);
+
+/**
+ * Provider serving a model. Models outside the registry are matched by
+ * name, so a newly released model of a known family still routes.
+ */
+export function providerForModel(model: string, fallback: TranscriptionProviderId = 'deepgram'): TranscriptionProviderId {
+  const known = getTranscriptionModel(model);
+  if (known) return known.provider;
+  if (model.startsWith('whisper-') || model.startsWith('gpt-')) return 'whisper';
+  if (model.startsWith('assemblyai-')) return 'assemblyai';
+  if (model.includes('nova') || model === 'enhanced') return 'deepgram';
+  if (model.includes('silero') || model.includes('turn_detector')) return 'openai-realtime';
+  return fallback;
+}
+
+/**
+ * What a model can do: its provider's capabilities with the model's own overrides
+ */
+export function modelCapabilities(model: string, fallback?: TranscriptionProviderId): TranscriptionCapabilities {
+  const provider = providerForModel(model, fallback);
+  return { ...TRANSCRIPTION_PROVIDERS[provider].capabilities, ...getTranscriptionModel(model)?.overrides };
+}
+
+/** Language codes are compared without their region (en-IN is en) */
+const baseLanguage = (language: string) => language.split('-')[0].toLowerCase();
+
+export function supportsLanguage(capabilities: TranscriptionCapabilities, language: string): boolean {
+  return capabilities.languages === 'any' || capabilities.languages.includes(baseLanguage(language));
+}
+
+export function supportsFeature(capabilities: TranscriptionCapabilities, feature: TranscriptionFeature, language = 'en'): boolean {
+  return feature === 'language' ? supportsLanguage(capabilities, language) : capabilities[feature];
+}
+
+export interface TranscriptionRequest {
+  language: string;
+  diarization?: boolean;
+}
+
+export interface NegotiatedTranscription {
+  provider: TranscriptionProviderId;
+  capabilities: TranscriptionCapabilities;
+  options: TranscriptionStartOptions;
+  /** Requested features the model can't provide; recording goes ahead without them */
+  unsupported: TranscriptionFeature[];
+}
+
+/**
+ * Settle what a recording with this model will actually do. An unsupported
+ * language falls back to English, the one every model accepts.
+ */
+export function negotiateTranscription(
+  model: string,
+  request: TranscriptionRequest,
+  fallback?: TranscriptionProviderId
+): NegotiatedTranscription {
+  const provider = providerForModel(model, fallback);
+  const capabilities = modelCapabilities(model, fallback);
+  const unsupported: TranscriptionFeature[] = [];
+
+  let language = baseLanguage(request.language || 'en');
+  if (!supportsLanguage(capabilities, language)) {
+    unsupported.push('language');
+    language = 'en';
+  }
+
+  const diarization = !!request.diarization && capabilities.diarization;
+  if (request.diarization && !diarization) unsupported.push('diarization');
+
+  return { provider, capabilities, options: { language, diarization }, unsupported };
+}
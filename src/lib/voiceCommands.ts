@@ -0,0 +1,214 @@
+/**
+ * Voice commands
+ *
+ * Parses spoken commands out of final transcript chunks so they can drive the
+ * recorder instead of ending up in the transcript. Commands are recognised per
+ * sentence; the "Heidi" wake word is optional except for single-word commands
+ * that could plausibly be part of the conversation ("pause").
+ *
+ *   "Heidi, pause."                          -> pause
+ *   "New paragraph."                         -> new_paragraph
+ *   "Mark this as assessment."               -> mark_section
+ *   "Add task follow up in two weeks."       -> add_task (due in 14 days)
+ *   "Stop and generate note."                -> stop_and_generate
+ */
+
+export type NoteSection = 'subjective' | 'objective' | 'assessment' | 'plan';
+
+export type VoiceCommand =
+  | { type: 'pause' }
+  | { type: 'new_paragraph' }
+  | { type: 'mark_section'; section: NoteSection; target: 'previous' | 'previous_chunk' }
+  | { type: 'add_task'; title: string; dueDate: string | null }
+  | { type: 'stop_and_generate' };
+
+export type VoiceCommandItem =
+  | { type: 'text'; text: string; section?: NoteSection }
+  | { type: 'command'; command: VoiceCommand };
+
+export interface VoiceCommandParseResult {
+  /** Text and commands in spoken order; text between paragraph breaks stays together */
+  items: VoiceCommandItem[];
+  commands: VoiceCommand[];
+  /** Transcript text with commands removed, paragraphs separated by blank lines */
+  text: string;
+}
+
+export const NOTE_SECTION_LABELS: Record<NoteSection, string> = {
+  subjective: 'Subjective',
+  objective: 'Objective',
+  assessment: 'Assessment',
+  plan: 'Plan',
+};
+
+const SECTION_ALIASES: Record<string, NoteSection> = {
+  subjective: 'subjective',
+  history: 'subjective',
+  'history of present illness': 'subjective',
+  hpi: 'subjective',
+  objective: 'objective',
+  exam: 'objective',
+  examination: 'objective',
+  'physical exam': 'objective',
+  'physical examination': 'objective',
+  assessment: 'assessment',
+  impression: 'assessment',
+  diagnosis: 'assessment',
+  plan: 'plan',
+  'treatment plan': 'plan',
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const WAKE = '(?:(?:hey|ok|okay)\\s+)?heidi\\s+';
+const SECTION_NAMES = Object.keys(SECTION_ALIASES).sort((a, b) => b.length - a.length).join('|');
+
+const PAUSE = new RegExp(`^${WAKE}pause(?:\\s+(?:the\\s+)?recording)?$`);
+const NEW_PARAGRAPH = new RegExp(`^(?:${WAKE})?(?:new|next)\\s+paragraph$`);
+const MARK_SECTION = new RegExp(`^(?:${WAKE})?mark\\s+(?:this|that)(?:\\s+section)?\\s+as\\s+(?:the\\s+)?(${SECTION_NAMES})(?:\\s+section)?$`);
+const ADD_TASK = new RegExp(`^(?:${WAKE})?(?:add|create)\\s+(?:a\\s+)?(?:new\\s+)?task\\s+(?:to\\s+)?(.+)$`);
+const STOP_AND_GENERATE = new RegExp(
+  `^(?:${WAKE})?(?:stop|end|finish)(?:\\s+(?:the\\s+)?(?:recording|session|visit))?\\s+and\\s+generate(?:\\s+(?:the|a))?(?:\\s+clinical)?\\s+note$`
+);
+
+const RELATIVE_DUE = /\s+(?:in|within)\s+(\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\s+(day|week|month)s?$/;
+const NAMED_DUE = /\s+(?:by\s+)?(tomorrow|next\s+week|next\s+month)$/;
+
+function normalize(sentence: string): string {
+  return sentence
+    .toLowerCase()
+    .replace(/[^a-z0-9'\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function addDays(now: Date, days: number): Date {
+  const date = new Date(now);
+  date.setDate(date.getDate() + days);
+  return date;
+}
+
+function addMonths(now: Date, months: number): Date {
+  const date = new Date(now);
+  date.setMonth(date.getMonth() + months);
+  return date;
+}
+
+function parseTask(phrase: string, now: Date): VoiceCommand {
+  let title = phrase;
+  let due: Date | null = null;
+
+  const relative = title.match(RELATIVE_DUE);
+  const named = relative ? null : title.match(NAMED_DUE);
+  if (relative) {
+    const count = /^\d+$/.test(relative[1]) ? Number(relative[1]) : NUMBER_WORDS[relative[1]];
+    const unit = relative[2];
+    due = unit === 'month' ? addMonths(now, count) : addDays(now, unit === 'week' ? count * 7 : count);
+    title = title.slice(0, relative.index);
+  } else if (named) {
+    const when = named[1].replace(/\s+/, ' ');
+    due = when === 'tomorrow' ? addDays(now, 1) : when === 'next week' ? addDays(now, 7) : addMonths(now, 1);
+    title = title.slice(0, named.index);
+  }
+
+  title = title.trim();
+  return {
+    type: 'add_task',
+    title: title.charAt(0).toUpperCase() + title.slice(1),
+    dueDate: due ? due.toISOString() : null,
+  };
+}
+
+function matchCommand(sentence: string, now: Date): VoiceCommand | null {
+  const spoken = normalize(sentence);
+  if (!spoken) return null;
+
+  if (PAUSE.test(spoken)) return { type: 'pause' };
+  if (NEW_PARAGRAPH.test(spoken)) return { type: 'new_paragraph' };
+  if (STOP_AND_GENERATE.test(spoken)) return { type: 'stop_and_generate' };
+
+  const mark = spoken.match(MARK_SECTION);
+  if (mark) return { type: 'mark_section', section: SECTION_ALIASES[mark[1]], target: 'previous' };
+
+  const task = spoken.match(ADD_TASK);
+  if (task) {
+    const command = parseTask(task[1], now);
+    if (command.type === 'add_task' && command.title) return command;
+  }
+
+  return null;
+}
+
+/**
+ * Split a final transcript chunk into dictated text and voice commands.
+ * "Mark this as ..." tags the text spoken just before it in the same chunk;
+ * when there is none it targets the previous chunk, which the caller has
+ * already emitted.
+ */
+export function parseVoiceCommands(text: string, now: Date = new Date()): VoiceCommandParseResult {
+  const items: VoiceCommandItem[] = [];
+  const commands: VoiceCommand[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    const trimmed = buffer.trim();
+    if (trimmed) items.push({ type: 'text', text: trimmed });
+    buffer = '';
+  };
+
+  for (const sentence of text.match(/[^.!?]+[.!?]*\s*|[.!?]+\s*/g) || []) {
+    const command = matchCommand(sentence, now);
+    if (!command) {
+      buffer += sentence;
+      continue;
+    }
+
+    flush();
+    if (command.type === 'mark_section') {
+      const previous = items[items.length - 1];
+      if (previous?.type === 'text' && !previous.section) {
+        previous.section = command.section;
+      } else {
+        command.target = 'previous_chunk';
+      }
+    }
+    items.push({ type: 'command', command });
+    commands.push(command);
+  }
+  flush();
+
+  return {
+    items,
+    commands,
+    text: items
+      .filter((item): item is Extract<VoiceCommandItem, { type: 'text' }> => item.type === 'text')
+      .map(item => formatSectionText(item.text, item.section))
+      .join('\n\n'),
+  };
+}
+
+/**
+ * Prefix dictated text with the section it was marked as, e.g. "[Assessment] ...",
+ * so note generation can place it.
+ */
+export function formatSectionText(text: string, section?: NoteSection): string {
+  return section ? `[${NOTE_SECTION_LABELS[section]}] ${text}` : text;
+}
+
+export function describeVoiceCommand(command: VoiceCommand): string {
+  switch (command.type) {
+    case 'pause':
+      return 'Recording paused';
+    case 'new_paragraph':
+      return 'New paragraph';
+    case 'mark_section':
+      return `Marked as ${NOTE_SECTION_LABELS[command.section]}`;
+    case 'add_task':
+      return `Task added: ${command.title}`;
+    case 'stop_and_generate':
+      return 'Stopping and generating note';
+  }
+}
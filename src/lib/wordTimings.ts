@@ -0,0 +1,130 @@
+/**
+ * Word-level timestamps
+ *
+ * Deepgram, AssemblyAI and Whisper (verbose_json) all return per-word timing,
+ * each in its own shape and clock. Words are normalized to milliseconds from
+ * the start of the provider's audio, then shifted onto the session recording
+ * in the offline queue before they are saved with the transcript segment, so
+ * the review player can seek the uploaded recording to any word.
+ */
+
+export interface TranscriptWord {
+  text: string;
+  /** Milliseconds from the start of the audio */
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+/**
+ * Words as a provider reported them, with the time (epoch ms) their clock
+ * started: the streaming connection or the Whisper segment
+ */
+export interface WordTiming {
+  words: TranscriptWord[];
+  startedAt: number;
+}
+
+interface DeepgramWord {
+  word: string;
+  punctuated_word?: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+interface AssemblyAIWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+interface WhisperWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+function clean(words: TranscriptWord[]): TranscriptWord[] {
+  return words.filter(w => w.text.trim() && isFiniteNumber(w.start) && isFiniteNumber(w.end) && w.end >= w.start);
+}
+
+/** Deepgram reports seconds and a punctuated form of each word */
+export function fromDeepgramWords(words: DeepgramWord[] | undefined): TranscriptWord[] {
+  return clean((words || []).map(w => ({
+    text: (w.punctuated_word || w.word || '').trim(),
+    start: Math.round(w.start * 1000),
+    end: Math.round(w.end * 1000),
+    confidence: w.confidence,
+  })));
+}
+
+/** AssemblyAI reports milliseconds */
+export function fromAssemblyAIWords(words: AssemblyAIWord[] | undefined): TranscriptWord[] {
+  return clean((words || []).map(w => ({
+    text: (w.text || '').trim(),
+    start: Math.round(w.start),
+    end: Math.round(w.end),
+    confidence: w.confidence,
+  })));
+}
+
+/** Whisper verbose_json with word granularity reports seconds */
+export function fromWhisperWords(words: WhisperWord[] | undefined): TranscriptWord[] {
+  return clean((words || []).map(w => ({
+    text: (w.word || '').trim(),
+    start: Math.round(w.start * 1000),
+    end: Math.round(w.end * 1000),
+  })));
+}
+
+/**
+ * Shift provider word times onto a recording that started at
+ * recordingStartedAt (epoch ms). Words before the recording are dropped.
+ */
+export function alignWordsToRecording(timing: WordTiming, recordingStartedAt: number): TranscriptWord[] {
+  const shift = timing.startedAt - recordingStartedAt;
+  return timing.words
+    .map(w => ({ ...w, start: w.start + shift, end: w.end + shift }))
+    .filter(w => w.start >= 0);
+}
+
+/** A word stays highlighted through short pauses, but not long silences */
+const MAX_HIGHLIGHT_GAP_MS = 1000;
+
+/**
+ * Index of the word being spoken at timeMs in a list sorted by start, or -1
+ */
+export function findActiveWord(words: Array<Pick<TranscriptWord, 'start' | 'end'>>, timeMs: number): number {
+  let low = 0;
+  let high = words.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (words[mid].start <= timeMs) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  if (found === -1 || timeMs > words[found].end + MAX_HIGHLIGHT_GAP_MS) return -1;
+  return found;
+}
+
+/**
+ * Read the words column of a session_transcripts row
+ */
+export function parseStoredWords(value: unknown): TranscriptWord[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((w): w is TranscriptWord =>
+    typeof w === 'object' && w !== null &&
+    typeof (w as TranscriptWord).text === 'string' &&
+    isFiniteNumber((w as TranscriptWord).start) &&
+    isFiniteNumber((w as TranscriptWord).end)
+  );
+}
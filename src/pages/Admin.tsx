@@ -7,6 +7,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Activity, Database, Users, MessageSquare, TrendingUp } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'sonner';
+import { TeamBudgetsPanel } from '@/components/TeamBudgetsPanel';
 
 export default function Admin() {
   const navigate = useNavigate();
@@ -149,6 +150,7 @@ export default function Admin() {
           <TabsTrigger value="feedback">User Feedback</TabsTrigger>
           <TabsTrigger value="logs">AI Logs</TabsTrigger>
           <TabsTrigger value="metrics">System Metrics</TabsTrigger>
+          <TabsTrigger value="budgets">Budgets</TabsTrigger>
         </TabsList>
 
         <TabsContent value="feedback" className="space-y-4">
@@ -228,6 +230,10 @@ export default function Admin() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="budgets" className="space-y-4">
+          <TeamBudgetsPanel />
+        </TabsContent>
       </Tabs>
     </div>
   );
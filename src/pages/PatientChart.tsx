@@ -0,0 +1,314 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, CheckCircle2, Circle, ClipboardList, FileText, Loader2, Pencil, Stethoscope } from "lucide-react";
+import { usePatientChart, useUpdatePatient } from "@/hooks/usePatients";
+import type { Session } from "@/hooks/useSessions";
+import { NOTE_STATUS_LABELS } from "@/lib/noteLifecycle";
+import { format } from "date-fns";
+
+interface ChartCode {
+  code: string;
+  description: string;
+  firstSeen: string;
+  lastSeen: string;
+  visits: number;
+}
+
+interface StoredCode {
+  code?: string;
+  label?: string;
+  description?: string;
+}
+
+const sessionCodes = (session: Session): { code: string; description: string }[] =>
+  (Array.isArray(session.clinical_codes) ? session.clinical_codes as StoredCode[] : [])
+    .filter(code => code?.code)
+    .map(code => ({ code: String(code.code), description: code.label || code.description || '' }));
+
+/** Every code across the patient's visits, most recently used first */
+function codeHistory(sessions: Session[]): ChartCode[] {
+  const byCode = new Map<string, ChartCode>();
+  for (const session of sessions) {
+    for (const { code, description } of sessionCodes(session)) {
+      const entry = byCode.get(code);
+      if (!entry) {
+        byCode.set(code, { code, description, firstSeen: session.created_at, lastSeen: session.created_at, visits: 1 });
+        continue;
+      }
+      entry.visits++;
+      if (session.created_at < entry.firstSeen) entry.firstSeen = session.created_at;
+      if (session.created_at > entry.lastSeen) entry.lastSeen = session.created_at;
+    }
+  }
+  return [...byCode.values()].sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+}
+
+const formatDate = (date: string) => format(new Date(date), "dd MMM yyyy");
+
+const PatientChart = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { data: chart, isLoading } = usePatientChart(id);
+  const updatePatient = useUpdatePatient();
+
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [form, setForm] = useState({ full_name: "", mrn: "", date_of_birth: "" });
+
+  const codes = useMemo(() => codeHistory(chart?.sessions ?? []), [chart?.sessions]);
+  const openTasks = (chart?.tasks ?? []).filter(task => task.status === 'pending');
+
+  const openEdit = () => {
+    if (!chart) return;
+    setForm({
+      full_name: chart.patient.full_name,
+      mrn: chart.patient.mrn ?? "",
+      date_of_birth: chart.patient.date_of_birth ?? "",
+    });
+    setIsEditOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!chart || !form.full_name.trim()) return;
+    await updatePatient.mutateAsync({
+      id: chart.patient.id,
+      updates: {
+        full_name: form.full_name.trim(),
+        mrn: form.mrn.trim() || null,
+        date_of_birth: form.date_of_birth || null,
+      },
+    });
+    setIsEditOpen(false);
+  };
+
+  if (isLoading) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center h-96">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  if (!chart) {
+    return (
+      <AppLayout>
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Patient not found</p>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const { patient, sessions, tasks } = chart;
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-start justify-between">
+          <div className="space-y-1">
+            <Button variant="ghost" size="sm" onClick={() => navigate('/patients')} className="gap-1 -ml-2 text-muted-foreground">
+              <ArrowLeft className="h-4 w-4" />
+              Patients
+            </Button>
+            <h1 className="text-3xl font-bold">{patient.full_name}</h1>
+            <p className="text-muted-foreground">
+              MRN: {patient.mrn || 'N/A'} | DOB: {patient.date_of_birth ? formatDate(`${patient.date_of_birth}T00:00:00`) : 'N/A'}
+              {' '}| {sessions.length} visit{sessions.length === 1 ? '' : 's'}
+            </p>
+          </div>
+          <Button variant="outline" onClick={openEdit} className="gap-2">
+            <Pencil className="h-4 w-4" />
+            Edit details
+          </Button>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Encounters */}
+          <div className="lg:col-span-2 space-y-4">
+            {sessions.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  No sessions are linked to this patient yet
+                </CardContent>
+              </Card>
+            ) : (
+              sessions.map(session => {
+                const visitTasks = tasks.filter(task => task.session_id === session.id);
+                const visitCodes = sessionCodes(session);
+                return (
+                  <Card key={session.id}>
+                    <CardHeader className="pb-3">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <CardTitle className="text-base">
+                            {formatDate(session.scheduled_at || session.created_at)}
+                            {session.appointment_type && ` · ${session.appointment_type}`}
+                          </CardTitle>
+                          <CardDescription>{session.chief_complaint || 'No chief complaint recorded'}</CardDescription>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary">{NOTE_STATUS_LABELS[session.note_status] ?? session.status}</Badge>
+                          <Button variant="ghost" size="sm" onClick={() => navigate(`/session/${session.id}/review`)}>
+                            Open
+                          </Button>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {session.generated_note ? (
+                        <div className="flex gap-2">
+                          <FileText className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                          <p className="text-sm text-muted-foreground line-clamp-3 whitespace-pre-line">{session.generated_note}</p>
+                        </div>
+                      ) : (
+                        <p className="text-sm text-muted-foreground italic">No note generated</p>
+                      )}
+                      {visitCodes.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {visitCodes.map(code => (
+                            <Badge key={code.code} variant="outline" className="font-mono text-xs" title={code.description}>
+                              {code.code}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      {visitTasks.length > 0 && (
+                        <ul className="space-y-1">
+                          {visitTasks.map(task => (
+                            <li key={task.id} className="flex items-center gap-2 text-sm">
+                              {task.status === 'completed'
+                                ? <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+                                : <Circle className="h-3.5 w-3.5 text-muted-foreground" />}
+                              <span className={task.status === 'completed' ? 'line-through text-muted-foreground' : ''}>{task.title}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })
+            )}
+          </div>
+
+          {/* Longitudinal summary */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Stethoscope className="h-5 w-5" />
+                  <CardTitle>Codes over time</CardTitle>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {codes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">No codes recorded</p>
+                ) : (
+                  codes.map(code => (
+                    <div key={code.code} className="space-y-0.5">
+                      <div className="flex items-center justify-between">
+                        <span className="font-mono font-semibold text-sm">{code.code}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {code.visits} visit{code.visits === 1 ? '' : 's'}
+                        </span>
+                      </div>
+                      {code.description && <p className="text-sm text-muted-foreground">{code.description}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        {code.firstSeen === code.lastSeen
+                          ? formatDate(code.firstSeen)
+                          : `${formatDate(code.firstSeen)} – ${formatDate(code.lastSeen)}`}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <ClipboardList className="h-5 w-5" />
+                  <CardTitle>Open tasks</CardTitle>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {openTasks.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">No open tasks</p>
+                ) : (
+                  openTasks.map(task => (
+                    <div key={task.id} className="text-sm">
+                      <p>{task.title}</p>
+                      {task.due_date && <p className="text-xs text-muted-foreground">Due {formatDate(task.due_date)}</p>}
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit patient</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Changes are copied to all {sessions.length} linked session{sessions.length === 1 ? '' : 's'}.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="edit-name">Full name</Label>
+              <Input
+                id="edit-name"
+                value={form.full_name}
+                onChange={(e) => setForm(prev => ({ ...prev, full_name: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-mrn">MRN</Label>
+                <Input
+                  id="edit-mrn"
+                  value={form.mrn}
+                  onChange={(e) => setForm(prev => ({ ...prev, mrn: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-dob">Date of birth</Label>
+                <Input
+                  id="edit-dob"
+                  type="date"
+                  value={form.date_of_birth}
+                  onChange={(e) => setForm(prev => ({ ...prev, date_of_birth: e.target.value }))}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={!form.full_name.trim() || updatePatient.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+};
+
+export default PatientChart;
@@ -0,0 +1,255 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Search, Plus, Users, GitMerge, ChevronRight } from "lucide-react";
+import { usePatients, useCreatePatient, useMergePatients, type Patient } from "@/hooks/usePatients";
+import { findDuplicatePatients, MATCH_REASON_LABELS, type PatientMatch } from "@/lib/patientMatching";
+import { format } from "date-fns";
+
+const formatDob = (dob: string | null) => (dob ? format(new Date(`${dob}T00:00:00`), "dd MMM yyyy") : null);
+
+const Patients = () => {
+  const navigate = useNavigate();
+  const { data: patients = [], isLoading } = usePatients();
+  const createPatient = useCreatePatient();
+  const mergePatients = useMergePatients();
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newPatient, setNewPatient] = useState({ full_name: "", mrn: "", date_of_birth: "" });
+  const [pendingMerge, setPendingMerge] = useState<{ keep: Patient; duplicate: Patient } | null>(null);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+
+  const duplicates = useMemo(
+    () => findDuplicatePatients(patients).filter(match => !dismissed.has(`${match.patient.id}:${match.other.id}`)),
+    [patients, dismissed]
+  );
+
+  const filteredPatients = patients.filter(patient => {
+    const query = searchQuery.toLowerCase();
+    return patient.full_name.toLowerCase().includes(query) || patient.mrn?.toLowerCase().includes(query);
+  });
+
+  const handleCreate = async () => {
+    if (!newPatient.full_name.trim()) return;
+    const patient = await createPatient.mutateAsync({
+      full_name: newPatient.full_name,
+      mrn: newPatient.mrn.trim() || null,
+      date_of_birth: newPatient.date_of_birth || null,
+    });
+    setIsCreateOpen(false);
+    setNewPatient({ full_name: "", mrn: "", date_of_birth: "" });
+    navigate(`/patients/${patient.id}`);
+  };
+
+  const handleMerge = async () => {
+    if (!pendingMerge) return;
+    await mergePatients.mutateAsync({ keepId: pendingMerge.keep.id, duplicateId: pendingMerge.duplicate.id });
+    setPendingMerge(null);
+  };
+
+  const describe = (patient: Patient) =>
+    [patient.mrn && `MRN ${patient.mrn}`, formatDob(patient.date_of_birth)].filter(Boolean).join(" · ") || "No MRN or date of birth";
+
+  const renderDuplicate = (match: PatientMatch<Patient>) => (
+    <div key={`${match.patient.id}:${match.other.id}`} className="rounded-lg border p-3 space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {match.reasons.map(reason => (
+          <Badge key={reason} variant="secondary" className="text-xs">{MATCH_REASON_LABELS[reason]}</Badge>
+        ))}
+      </div>
+      {[match.patient, match.other].map((patient, index) => {
+        const other = index === 0 ? match.other : match.patient;
+        return (
+          <div key={patient.id} className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{patient.full_name}</p>
+              <p className="text-xs text-muted-foreground">{describe(patient)}</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setPendingMerge({ keep: patient, duplicate: other })}>
+              Keep this
+            </Button>
+          </div>
+        );
+      })}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-muted-foreground"
+        onClick={() => setDismissed(prev => new Set(prev).add(`${match.patient.id}:${match.other.id}`))}
+      >
+        Not the same patient
+      </Button>
+    </div>
+  );
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Patients</h1>
+            <p className="text-muted-foreground">Every visit, note, task and code for a patient in one chart</p>
+          </div>
+          <Button onClick={() => setIsCreateOpen(true)} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New patient
+          </Button>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by name or MRN"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-2">
+                  {[1, 2, 3].map(i => <Skeleton key={i} className="h-12" />)}
+                </div>
+              ) : filteredPatients.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <Users className="h-10 w-10 mx-auto mb-2 opacity-50" />
+                  <p>{patients.length === 0 ? "No patients yet" : "No patients match your search"}</p>
+                </div>
+              ) : (
+                <div className="divide-y">
+                  {filteredPatients.map(patient => (
+                    <button
+                      key={patient.id}
+                      onClick={() => navigate(`/patients/${patient.id}`)}
+                      className="w-full flex items-center justify-between py-3 px-2 text-left hover:bg-accent/50 rounded transition-colors"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{patient.full_name}</p>
+                        <p className="text-xs text-muted-foreground">{describe(patient)}</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {patient.team_id && <Badge variant="outline" className="text-xs">Team</Badge>}
+                        <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <GitMerge className="h-5 w-5" />
+                Possible duplicates
+              </CardTitle>
+              <CardDescription>
+                Merging moves every session to the record you keep
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {duplicates.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No likely duplicates</p>
+              ) : (
+                duplicates.map(renderDuplicate)
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New patient</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="patient-name">Full name</Label>
+              <Input
+                id="patient-name"
+                value={newPatient.full_name}
+                onChange={(e) => setNewPatient(prev => ({ ...prev, full_name: e.target.value }))}
+                autoFocus
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="patient-mrn">MRN</Label>
+                <Input
+                  id="patient-mrn"
+                  value={newPatient.mrn}
+                  onChange={(e) => setNewPatient(prev => ({ ...prev, mrn: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="patient-dob">Date of birth</Label>
+                <Input
+                  id="patient-dob"
+                  type="date"
+                  value={newPatient.date_of_birth}
+                  onChange={(e) => setNewPatient(prev => ({ ...prev, date_of_birth: e.target.value }))}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={!newPatient.full_name.trim() || createPatient.isPending}>
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingMerge} onOpenChange={(open) => !open && setPendingMerge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge patients?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Sessions of {pendingMerge?.duplicate.full_name} move to {pendingMerge?.keep.full_name}, and their
+              name, MRN and date of birth are updated to match. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleMerge} disabled={mergePatients.isPending}>
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AppLayout>
+  );
+};
+
+export default Patients;
@@ -10,7 +10,10 @@ import { toast } from "sonner";
 import { useSession, useUpdateSession } from "@/hooks/useSessions";
 import { useTranscription } from "@/hooks/useTranscription";
 import { useHybridTranscription } from "@/hooks/useHybridTranscription";
+import { useUserPreferences } from "@/hooks/useUserPreferences";
+import { useCreateTask } from "@/hooks/useTasks";
 import { useAudioRecording } from "@/hooks/useAudioRecording";
+import { useSessionCheckpoint } from "@/hooks/useSessionCheckpoint";
 import { useTranscriptUpdates, useSessionUpdates } from "@/hooks/useRealtime";
 import { WorkflowOrchestrator } from "@/utils/WorkflowOrchestrator";
 import { WorkflowProgress } from "@/components/WorkflowProgress";
@@ -28,13 +31,26 @@ import { AdvancedTranscriptionDashboard } from '@/components/AdvancedTranscripti
 import { useAdvancedTranscription } from '@/hooks/useAdvancedTranscription';
 import type { EnhancedTranscriptionData } from '@/types/advancedTranscription';
 import { TemplateSelectionDialog } from "@/components/session/TemplateSelectionDialog";
+import { ResumeSessionDialog } from "@/components/session/ResumeSessionDialog";
 import { AudioQualityIndicator } from "@/components/AudioQualityIndicator";
+import { isNoteLocked } from "@/lib/noteLifecycle";
+import { describeVoiceCommand, type VoiceCommand } from "@/lib/voiceCommands";
+import type { NoteSections } from "@/lib/noteStream";
+import { alignWordsToRecording, type WordTiming } from "@/lib/wordTimings";
+import { parseNoteEvidence, type NoteEvidence } from "@/lib/noteEvidence";
+import { useInteractionWarnings } from "@/hooks/useInteractionWarnings";
+import { useExtractSessionEntities } from "@/hooks/useMedicationReconciliation";
 
 const SessionRecord = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { data: session, isLoading } = useSession(id);
+  const noteLocked = isNoteLocked(session?.note_status);
   const updateSession = useUpdateSession();
+  const { data: preferences } = useUserPreferences();
+  const createTask = useCreateTask();
+  // Voice commands are a beta feature; the toggle only shows with beta features on
+  const voiceCommandsEnabled = !!preferences?.beta_features_enabled && !!preferences?.voice_commands;
   
   // ALL STATE HOOKS FIRST
   const [transcript, setTranscript] = useState("");
@@ -46,6 +62,7 @@ const SessionRecord = () => {
   const [isStartingRecording, setIsStartingRecording] = useState(false);
   const [showFormattedNote, setShowFormattedNote] = useState(true);
   const [noteJson, setNoteJson] = useState<any>(null);
+  const [noteEvidence, setNoteEvidence] = useState<NoteEvidence | null>(null);
   const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'error' | null>(null);
   const [patientName, setPatientName] = useState("");
   const [sessionDate, setSessionDate] = useState(new Date());
@@ -62,16 +79,32 @@ const SessionRecord = () => {
   const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
   const [recordingInputMode, setRecordingInputMode] = useState<'direct' | 'playback'>('direct');
   const [selectedTranscriptionModel, setSelectedTranscriptionModel] = useState<string>('whisper-1');
+  const [speakerLabels, setSpeakerLabels] = useState(true);
+  const [isResumingSession, setIsResumingSession] = useState(false);
   
   // ALL REFS NEXT
   const orchestratorRef = useRef<WorkflowOrchestrator | null>(null);
+  const noteAbortRef = useRef<AbortController | null>(null);
+  // Seconds recorded before a crash, when an interrupted session was resumed
+  const resumedSecondsRef = useRef(0);
   const timerRef = useRef<number | null>(null);
   const uploadTimerRef = useRef<number | null>(null);
   const startTimeRef = useRef<Date>(new Date());
   const speakerRef = useRef<'provider' | 'patient'>('provider');
+  // With provider speaker labels, the first voice heard is taken as the clinician's
+  const firstProviderSpeakerRef = useRef<number | null>(null);
   const transcriptCountRef = useRef(0);
   const lastTranscriptTimeRef = useRef<number>(0);
   const isRecordingRef = useRef(false);
+
+  // Offline drug–allergy and drug–drug checks on extracted entities and the note
+  const extractEntities = useExtractSessionEntities();
+  const { warnings: interactionWarnings } = useInteractionWarnings({
+    sessionId: id,
+    noteSections: noteJson,
+    context,
+    record: !!session && !noteLocked,
+  });
   
   // CRITICAL: Create stable session ID once and never change it
   const sessionIdRef = useRef(id);
@@ -100,6 +133,7 @@ const SessionRecord = () => {
   const { 
     transcriptChunks, 
     addTranscriptChunk, 
+    reviseLastChunk,
     loadTranscripts, 
     getFullTranscript,
     getDiarizedTranscript,
@@ -108,6 +142,8 @@ const SessionRecord = () => {
     updateVoiceCharacteristics,
     getSpeakerStatistics,
     resetDiarization,
+    getCheckpointState,
+    restoreCheckpoint,
   } = useTranscription(transcriptionSessionId, 'unknown');
   
   // Update transcription model dynamically
@@ -116,8 +152,10 @@ const SessionRecord = () => {
   }, [selectedTranscriptionModel]);
   
   // Create stable callback refs that don't cause re-renders
-  const handleTranscriptUpdateRef = useRef<(text: string, isFinal: boolean) => void>();
+  const handleTranscriptUpdateRef = useRef<(text: string, isFinal: boolean, timing?: WordTiming, speaker?: number) => void>();
   const handleRecordingErrorRef = useRef<(error: string) => void>();
+  const handleVoiceCommandRef = useRef<(command: VoiceCommand) => void>();
+  const getQueuedRecordingRef = useRef<() => { id: string; startedAt: number } | null>();
   
   // Store recording options in refs to prevent recreating callbacks
   const languageRef = useRef(language);
@@ -133,13 +171,16 @@ const SessionRecord = () => {
   }, [recordingInputMode]);
   
   // Define the actual callback implementations
-  handleTranscriptUpdateRef.current = (text: string, isFinal: boolean) => {
+  handleTranscriptUpdateRef.current = (text: string, isFinal: boolean, timing?: WordTiming, speaker?: number) => {
     if (isFinal && text.trim()) {
       const currentTime = Date.now();
       const timeSinceLastTranscript = currentTime - lastTranscriptTimeRef.current;
       
-      // Enhanced speaker detection for playback mode (3 second threshold for better accuracy)
-      if (recordingInputModeRef.current === 'playback' && timeSinceLastTranscript > 3000) {
+      if (speaker !== undefined) {
+        firstProviderSpeakerRef.current ??= speaker;
+        speakerRef.current = speaker === firstProviderSpeakerRef.current ? 'provider' : 'patient';
+      } else if (recordingInputModeRef.current === 'playback' && timeSinceLastTranscript > 3000) {
+        // Enhanced speaker detection for playback mode (3 second threshold for better accuracy)
         speakerRef.current = speakerRef.current === 'provider' ? 'patient' : 'provider';
         console.log(`🔄 Speaker change detected: ${speakerRef.current} (gap: ${timeSinceLastTranscript}ms)`);
       }
@@ -150,11 +191,17 @@ const SessionRecord = () => {
       
       console.log(`💬 Final transcript #${transcriptCountRef.current} [${currentSpeaker}]: "${text.substring(0, 80)}..."`);
       
+      // Word times are stored against the queued recording so review can play them back
+      const recording = getQueuedRecordingRef.current?.();
+      const audio = recording
+        ? { recordingId: recording.id, words: timing ? alignWordsToRecording(timing, recording.startedAt) : [] }
+        : undefined;
+
       // Add to transcription system - it will update transcriptChunks and trigger the useEffect to update UI
-      addTranscriptChunk(text, currentSpeaker);
+      addTranscriptChunk(text, currentSpeaker, audio);
       
       // Alternate speaker for direct mode (conversation flow)
-      if (recordingInputModeRef.current === 'direct') {
+      if (speaker === undefined && recordingInputModeRef.current === 'direct') {
         speakerRef.current = currentSpeaker === 'provider' ? 'patient' : 'provider';
       }
     } else if (!isFinal && text.trim()) {
@@ -172,6 +219,7 @@ const SessionRecord = () => {
   const audioRecordingOptions = useMemo(() => ({
     continuous: true,
     disableInternalTranscription: true, // Use hybrid transcription instead
+    sessionId: id, // Queue audio on this device until it reaches storage
     get language() {
       return languageRef.current.split('-')[0] === 'en' ? 'en-US' : 
              languageRef.current.split('-')[0] === 'kn' ? 'kn-IN' :
@@ -192,7 +240,7 @@ const SessionRecord = () => {
     onError: (error: string) => {
       handleRecordingErrorRef.current?.(error);
     },
-  }), [microphone, selectedTranscriptionModel]); // Add selectedTranscriptionModel as dependency
+  }), [microphone, selectedTranscriptionModel, id]); // Add selectedTranscriptionModel as dependency
   
   const {
     startRecording,
@@ -215,8 +263,19 @@ const SessionRecord = () => {
     voiceAnalyzer,
     autoCorrector,
     formatDuration,
+    getQueuedRecording,
     voiceQuality,
   } = useAudioRecording(audioRecordingOptions);
+  getQueuedRecordingRef.current = getQueuedRecording;
+
+  // Crash recovery: checkpoint while recording, offer to resume an interrupted recording
+  const sessionCheckpoint = useSessionCheckpoint({
+    sessionId: id,
+    isRecording,
+    getState: getCheckpointState,
+    getRecordingId: () => getQueuedRecording()?.id ?? null,
+    recordedSeconds: resumedSecondsRef.current + duration,
+  });
   
   // Sync voice characteristics to transcription system
   const lastSyncedCharacteristicsRef = useRef<string>('');
@@ -280,13 +339,23 @@ const SessionRecord = () => {
     sessionId: transcriptionSessionId,
     mode: 'auto',
     model: selectedTranscriptionModel,
+    language,
+    enableDiarization: speakerLabels,
     enableAutoCorrection: true,
+    enableVoiceCommands: voiceCommandsEnabled,
     onTranscriptUpdate: (text: string, isFinal: boolean) => {
-      handleTranscriptUpdateRef.current?.(text, isFinal);
+      // Final text also arrives through onFinalTranscriptChunk, with its word timing
+      if (!isFinal) handleTranscriptUpdateRef.current?.(text, false);
     },
-    onFinalTranscriptChunk: (text: string) => {
+    onFinalTranscriptChunk: (text: string, timing?: WordTiming, speaker?: number) => {
       // This is called when a final chunk is available from the provider
-      handleTranscriptUpdateRef.current?.(text, true);
+      handleTranscriptUpdateRef.current?.(text, true, timing, speaker);
+    },
+    onVoiceCommand: (command: VoiceCommand) => {
+      handleVoiceCommandRef.current?.(command);
+    },
+    onFinalTranscriptChunkRevised: (text: string) => {
+      reviseLastChunk(text);
     },
   });
 
@@ -334,6 +403,7 @@ const SessionRecord = () => {
       try {
         setActiveTab('transcript');
         speakerRef.current = 'provider';
+        firstProviderSpeakerRef.current = null;
         transcriptCountRef.current = 0;
         toast.success('Starting live transcription... Speak now!');
         
@@ -361,8 +431,69 @@ const SessionRecord = () => {
     }
   }, [isStartingRecording, isRecording, recordingMode, transcript, context, saveAllPendingChunks, stopRecording, startRecording, hybridTranscription]);
 
+  const handleResumeSession = useCallback(async () => {
+    const checkpoint = sessionCheckpoint.interrupted;
+    if (!checkpoint) return;
+    setIsResumingSession(true);
+    try {
+      const restored = await restoreCheckpoint(checkpoint);
+      resumedSecondsRef.current = checkpoint.recordedSeconds;
+      sessionCheckpoint.resume();
+      toast.success('Session restored', {
+        description: restored > 0 ? `${restored} unsaved transcript segment${restored === 1 ? '' : 's'} recovered` : undefined,
+      });
+    } catch (error) {
+      console.error('❌ Failed to restore session:', error);
+      toast.error('Could not restore the interrupted session');
+      return;
+    } finally {
+      setIsResumingSession(false);
+    }
+
+    if (recordingMode === 'dictating' || recordingMode === 'transcribing') {
+      await handleStartTranscribing();
+    }
+  }, [sessionCheckpoint, restoreCheckpoint, recordingMode, handleStartTranscribing]);
+
+  // Sections are shown as the model writes them; cancelling aborts the stream
+  const beginNoteStream = useCallback(() => {
+    noteAbortRef.current?.abort();
+    const controller = new AbortController();
+    noteAbortRef.current = controller;
+    setShowFormattedNote(true);
+    setNoteEvidence(null);
+    return {
+      signal: controller.signal,
+      onPartialNote: (sections: NoteSections) => setNoteJson(sections),
+    };
+  }, []);
+
+  const handleCancelGeneration = useCallback(() => {
+    noteAbortRef.current?.abort();
+  }, []);
+
+  // Nothing is saved for a cancelled generation; put back the saved note
+  const restoreSavedNote = useCallback(async () => {
+    if (!id) return;
+    const { data: savedSession } = await supabase
+      .from('sessions')
+      .select('generated_note, note_json, note_evidence')
+      .eq('id', id)
+      .single();
+    setGeneratedNote(savedSession?.generated_note || '');
+    setNoteJson(savedSession?.note_json || null);
+    setNoteEvidence(parseNoteEvidence(savedSession?.note_evidence));
+    setSaveStatus(null);
+    toast.info('Note generation cancelled');
+  }, [id]);
+
   const autoGenerateNote = useCallback(async (selectedTemplateId?: string) => {
     if (!id || !orchestratorRef.current) return;
+
+    if (noteLocked) {
+      toast.error("This note is signed and locked. Add an addendum from the review page.");
+      return;
+    }
     
     // Get the DIARIZED transcript with proper speaker labels
     const diarizedTranscript = getDiarizedTranscript();
@@ -389,9 +520,12 @@ const SessionRecord = () => {
         context,
         detailLevel: 'high',
         templateId: templateToUse,
+        ...beginNoteStream(),
       });
-      
-      if (result.success && result.note) {
+
+      if (result.cancelled) {
+        await restoreSavedNote();
+      } else if (result.success && result.note) {
         // Parse the note if it's wrapped in markdown code fences
         let parsedNoteJson = null;
         let cleanNote = result.note;
@@ -415,13 +549,14 @@ const SessionRecord = () => {
         
         const { data: updatedSession } = await supabase
           .from('sessions')
-          .select('note_json')
+          .select('note_json, note_evidence')
           .eq('id', id)
           .single();
         
         if (updatedSession?.note_json && !parsedNoteJson) {
           setNoteJson(updatedSession.note_json);
         }
+        setNoteEvidence(parseNoteEvidence(updatedSession?.note_evidence));
         
         await updateSession.mutateAsync({ 
           id, 
@@ -443,9 +578,13 @@ const SessionRecord = () => {
       console.error('Note generation error:', error);
       toast.error('An error occurred while generating the note');
     } finally {
+      noteAbortRef.current = null;
       setIsAutoPipelineRunning(false);
     }
-  }, [id, transcript, context, template]);
+  }, [id, transcript, context, template, noteLocked, beginNoteStream, restoreSavedNote]);
+  // For callbacks that fire after a delay, so they see the latest transcript
+  const autoGenerateNoteRef = useRef(autoGenerateNote);
+  autoGenerateNoteRef.current = autoGenerateNote;
 
   const handlePauseRecording = useCallback(() => {
     console.log('🎯 PAUSE BUTTON CLICKED - Calling pauseRecording() and pausing hybrid transcription');
@@ -478,6 +617,42 @@ const SessionRecord = () => {
     }, 300);
   }, [saveAllPendingChunks, stopRecording, hybridTranscription]);
 
+  // Commands are already stripped from the transcript by useHybridTranscription;
+  // paragraph breaks and section tags are applied there as well
+  handleVoiceCommandRef.current = (command: VoiceCommand) => {
+    console.log('🗣️ Voice command:', command);
+
+    switch (command.type) {
+      case 'pause':
+        if (isRecordingRef.current && !isPaused) {
+          handlePauseRecording();
+        }
+        break;
+      case 'add_task':
+        createTask.mutate({
+          title: command.title,
+          due_date: command.dueDate ?? undefined,
+          session_id: id,
+          category: 'general',
+        });
+        return; // useCreateTask confirms with its own toast
+      case 'stop_and_generate':
+        if (isRecordingRef.current) {
+          hybridTranscription.stop();
+          (async () => {
+            await saveAllPendingChunks();
+            stopRecording();
+            setTimeout(async () => {
+              await autoGenerateNoteRef.current();
+            }, 1000);
+          })();
+        }
+        break;
+    }
+
+    toast.info(describeVoiceCommand(command));
+  };
+
   const handleRecordingModeChange = useCallback((mode: string) => {
     setRecordingMode(mode);
     if (mode === 'dictating' || mode === 'upload' || mode === 'transcribing') {
@@ -631,6 +806,11 @@ const SessionRecord = () => {
       return;
     }
 
+    if (noteLocked) {
+      toast.error("This note is signed and locked. Add an addendum from the review page.");
+      return;
+    }
+
     if (!orchestratorRef.current) {
       toast.error("Workflow system not initialized");
       return;
@@ -648,9 +828,12 @@ const SessionRecord = () => {
         context,
         detailLevel: 'high',
         templateId: template,
+        ...beginNoteStream(),
       });
-      
-      if (result.success && result.note) {
+
+      if (result.cancelled) {
+        await restoreSavedNote();
+      } else if (result.success && result.note) {
         // Parse the note if it's wrapped in markdown code fences
         let parsedNoteJson = null;
         let cleanNote = result.note;
@@ -674,13 +857,14 @@ const SessionRecord = () => {
         
         const { data: updatedSession } = await supabase
           .from('sessions')
-          .select('note_json')
+          .select('note_json, note_evidence')
           .eq('id', id)
           .single();
         
         if (updatedSession?.note_json && !parsedNoteJson) {
           setNoteJson(updatedSession.note_json);
         }
+        setNoteEvidence(parseNoteEvidence(updatedSession?.note_evidence));
         
         await updateSession.mutateAsync({
           id,
@@ -707,9 +891,10 @@ const SessionRecord = () => {
       console.error('Workflow error:', error);
       toast.error('An error occurred during the workflow');
     } finally {
+      noteAbortRef.current = null;
       setIsAutoPipelineRunning(false);
     }
-  }, [getDiarizedTranscript, id, session, context, template]);
+  }, [getDiarizedTranscript, id, session, context, template, noteLocked, beginNoteStream, restoreSavedNote]);
 
   const handleSessionDateChange = useCallback(async (newDate: Date) => {
     setSessionDate(newDate);
@@ -784,6 +969,7 @@ const SessionRecord = () => {
     
     setGeneratedNote(parsedNote);
     setNoteJson(parsedJson);
+    setNoteEvidence(parseNoteEvidence(updatedSession.note_evidence));
     
     if (updatedSession.scheduled_at) {
       setSessionDate(new Date(updatedSession.scheduled_at));
@@ -822,6 +1008,7 @@ const SessionRecord = () => {
       
       setGeneratedNote(parsedNote);
       setNoteJson(parsedJson);
+      setNoteEvidence(parseNoteEvidence(session.note_evidence));
       
       if (session.scheduled_at) {
         setSessionDate(new Date(session.scheduled_at));
@@ -843,6 +1030,36 @@ const SessionRecord = () => {
     return () => clearTimeout(timeoutId);
   }, [patientName, session?.patient_name, id]); // Removed updateSession, use session.patient_name specifically
 
+  // Persist manual note edits; the database records them as note versions
+  const noteEditedRef = useRef(false);
+  const handleNoteChange = useCallback((text: string) => {
+    noteEditedRef.current = true;
+    setGeneratedNote(text);
+  }, []);
+
+  useEffect(() => {
+    if (!id || !noteEditedRef.current || noteLocked) return;
+
+    const timeoutId = setTimeout(async () => {
+      noteEditedRef.current = false;
+      setSaveStatus('saving');
+      const { error } = await supabase
+        .from('sessions')
+        .update({ generated_note: generatedNote })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Failed to save note edit:', error);
+        setSaveStatus('error');
+      } else {
+        setSaveStatus('saved');
+      }
+      setTimeout(() => setSaveStatus(null), 2000);
+    }, 1500);
+
+    return () => clearTimeout(timeoutId);
+  }, [generatedNote, id, noteLocked]);
+
   useEffect(() => {
     orchestratorRef.current = new WorkflowOrchestrator((state) => {
       setWorkflowState(state);
@@ -851,6 +1068,7 @@ const SessionRecord = () => {
     
     return () => {
       orchestratorRef.current = null;
+      noteAbortRef.current?.abort();
       // Clear upload timer on unmount
       if (uploadTimerRef.current) {
         clearInterval(uploadTimerRef.current);
@@ -862,7 +1080,7 @@ const SessionRecord = () => {
   useEffect(() => {
     const MAX_DURATION = 600; // 10 minutes
     
-    if (isRecording && duration >= MAX_DURATION) {
+    if (isRecording && resumedSecondsRef.current + duration >= MAX_DURATION) {
       console.log('⏱️ Maximum session duration reached (10 minutes)');
       toast.warning('Maximum session duration reached (10 minutes)', {
         description: 'Automatically stopping and generating note...'
@@ -965,6 +1183,8 @@ const SessionRecord = () => {
           onRecordingInputModeChange={setRecordingInputMode}
           selectedTranscriptionModel={selectedTranscriptionModel}
           onModelChange={setSelectedTranscriptionModel}
+          speakerLabels={speakerLabels}
+          onSpeakerLabelsChange={setSpeakerLabels}
         />
 
         {/* Voice Analysis Running in Background - UI Hidden */}
@@ -1031,17 +1251,28 @@ const SessionRecord = () => {
             </TabsContent>
 
             <TabsContent value="context" className="flex-1 mt-0 overflow-auto">
-              <HeidiContextPanel context={context} onContextChange={setContext} sessionId={id} />
+              <HeidiContextPanel
+                context={context}
+                onContextChange={setContext}
+                sessionId={id}
+                warnings={interactionWarnings}
+                onCheckInteractions={id ? () => extractEntities.mutate(id) : undefined}
+                isCheckingInteractions={extractEntities.isPending}
+              />
             </TabsContent>
 
             <TabsContent value="note" className="flex-1 mt-0 overflow-auto">
               <HeidiNotePanel
                 note={generatedNote}
-                onNoteChange={setGeneratedNote}
+                onNoteChange={handleNoteChange}
                 onGenerate={handleGenerateNote}
                 isGenerating={isAutoPipelineRunning}
+                onCancel={handleCancelGeneration}
                 sessionId={id}
+                isLocked={noteLocked}
                 noteJson={noteJson}
+                noteEvidence={noteEvidence}
+                transcriptSegments={transcriptChunks}
                 showFormatted={showFormattedNote}
                 onToggleFormatted={() => setShowFormattedNote(!showFormattedNote)}
                 selectedTemplate={template}
@@ -1056,6 +1287,13 @@ const SessionRecord = () => {
       </div>
 
       {/* Template Selection Dialog */}
+      <ResumeSessionDialog
+        checkpoint={sessionCheckpoint.interrupted}
+        onResume={handleResumeSession}
+        onDiscard={sessionCheckpoint.discard}
+        isResuming={isResumingSession}
+      />
+
       <TemplateSelectionDialog
         open={templateDialogOpen}
         onOpenChange={setTemplateDialogOpen}
@@ -16,7 +16,12 @@ import {
   Stethoscope,
   ClipboardList,
   Loader2,
-  RefreshCw
+  RefreshCw,
+  Lock,
+  Send,
+  Undo2,
+  FilePlus2,
+  PenLine
 } from "lucide-react";
 import { toast } from "sonner";
 import {
@@ -29,13 +34,23 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import { extractTasks, suggestCodes, exportNote } from "@/lib/api";
 import { ExportOptions } from "@/components/ExportOptions";
+import { NoteVersionHistory } from "@/components/session/NoteVersionHistory";
+import { PatientLinkPopover } from "@/components/session/PatientLinkPopover";
+import { MedicationReconciliationPanel } from "@/components/session/MedicationReconciliationPanel";
+import { TranscriptPlayer } from "@/components/session/TranscriptPlayer";
+import { useQueryClient } from "@tanstack/react-query";
 import { useTaskUpdates, useSessionUpdates } from "@/hooks/useRealtime";
 import { useAuth } from "@/hooks/useAuth";
+import { useTransitionNoteStatus, useNoteAddenda, useAddNoteAddendum, useSessionRecordings } from "@/hooks/useSessions";
+import { isNoteLocked, NOTE_STATUS_LABELS, type NoteStatus } from "@/lib/noteLifecycle";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 
 // Transcript Reference Component
 const TranscriptReference = ({ sessionId }: { sessionId?: string }) => {
   const [transcripts, setTranscripts] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const { data: recordings = [] } = useSessionRecordings(sessionId);
 
   useEffect(() => {
     if (!sessionId) return;
@@ -83,10 +98,6 @@ const TranscriptReference = ({ sessionId }: { sessionId?: string }) => {
     };
   }, [sessionId]);
 
-  const fullTranscript = transcripts
-    .map(t => `${t.speaker}: ${t.text}`)
-    .join('\n\n');
-
   return (
     <Card>
       <CardHeader>
@@ -94,22 +105,103 @@ const TranscriptReference = ({ sessionId }: { sessionId?: string }) => {
           <FileText className="h-5 w-5" />
           Original Transcript
         </CardTitle>
-        <CardDescription>Reference the original encounter transcript</CardDescription>
+        <CardDescription>
+          {recordings.length > 0
+            ? 'Click any word to play the recording from there'
+            : 'Reference the original encounter transcript'}
+        </CardDescription>
       </CardHeader>
       <CardContent>
-        <div className="p-4 bg-muted rounded-lg max-h-48 overflow-y-auto">
-          {isLoading ? (
-            <div className="flex items-center justify-center py-4">
-              <Loader2 className="h-4 w-4 animate-spin" />
+        {isLoading || transcripts.length === 0 ? (
+          <div className="p-4 bg-muted rounded-lg">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-4">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center">
+                No transcript available yet
+              </p>
+            )}
+          </div>
+        ) : (
+          <TranscriptPlayer segments={transcripts} recordings={recordings} />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Addenda appended to a signed note
+const NoteAddenda = ({ sessionId, canAdd }: { sessionId: string; canAdd: boolean }) => {
+  const { data: addenda = [], isLoading } = useNoteAddenda(sessionId);
+  const addAddendum = useAddNoteAddendum();
+  const [content, setContent] = useState("");
+  const [reason, setReason] = useState("");
+
+  const handleAdd = async () => {
+    if (!content.trim()) return;
+    await addAddendum.mutateAsync({ sessionId, content: content.trim(), reason: reason.trim() || undefined });
+    setContent("");
+    setReason("");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FilePlus2 className="h-5 w-5" />
+          Addenda
+        </CardTitle>
+        <CardDescription>Corrections and additions made after signing</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : addenda.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center">No addenda</p>
+        ) : (
+          addenda.map((addendum, index) => (
+            <div key={addendum.id} className="p-3 rounded-lg border bg-card space-y-1">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span className="font-medium">Addendum {index + 1}</span>
+                <span>{new Date(addendum.created_at).toLocaleString()}</span>
+              </div>
+              {addendum.reason && (
+                <p className="text-xs text-muted-foreground italic">Reason: {addendum.reason}</p>
+              )}
+              <p className="text-sm whitespace-pre-wrap">{addendum.content}</p>
             </div>
-          ) : transcripts.length === 0 ? (
-            <p className="text-sm text-muted-foreground text-center">
-              No transcript available yet
-            </p>
-          ) : (
-            <p className="text-sm whitespace-pre-wrap">{fullTranscript}</p>
-          )}
-        </div>
+          ))
+        )}
+
+        {canAdd && (
+          <div className="space-y-2 pt-2 border-t">
+            <Label htmlFor="addendum-content">New addendum</Label>
+            <Textarea
+              id="addendum-content"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder="Describe the correction or additional information..."
+              rows={4}
+            />
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (optional)"
+            />
+            <Button onClick={handleAdd} disabled={!content.trim() || addAddendum.isPending}>
+              {addAddendum.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FilePlus2 className="mr-2 h-4 w-4" />
+              )}
+              Add Addendum
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -123,12 +215,15 @@ const SessionReview = () => {
   const [session, setSession] = useState<any>(null);
   const [noteContent, setNoteContent] = useState("");
   const [detailLevel, setDetailLevel] = useState("medium");
-  const [status, setStatus] = useState("draft");
+  const [noteStatus, setNoteStatus] = useState<NoteStatus>("draft");
   const [icdCodes, setIcdCodes] = useState<any[]>([]);
   const [extractedTasks, setExtractedTasks] = useState<any[]>([]);
   const [isLoadingSession, setIsLoadingSession] = useState(true);
   const [isExtractingTasks, setIsExtractingTasks] = useState(false);
   const [isSuggestingCodes, setIsSuggestingCodes] = useState(false);
+  const transitionNoteStatus = useTransitionNoteStatus();
+  const queryClient = useQueryClient();
+  const isLocked = isNoteLocked(noteStatus);
 
   // Subscribe to real-time task updates
   useTaskUpdates(user?.id || '', (task) => {
@@ -148,7 +243,7 @@ const SessionReview = () => {
     console.log('Session updated in real-time:', updatedSession);
     setSession(updatedSession);
     setNoteContent(updatedSession.generated_note || '');
-    setStatus(updatedSession.status || 'draft');
+    setNoteStatus(updatedSession.note_status || 'draft');
     
     if (updatedSession.clinical_codes) {
       setIcdCodes(Array.isArray(updatedSession.clinical_codes) ? updatedSession.clinical_codes : []);
@@ -179,7 +274,7 @@ const SessionReview = () => {
 
         setSession(data);
         setNoteContent(data.generated_note || '');
-        setStatus(data.status || 'draft');
+        setNoteStatus(data.note_status || 'draft');
         
         // Parse clinical codes if they exist
         if (data.clinical_codes) {
@@ -213,10 +308,10 @@ const SessionReview = () => {
     if (noteContent && sessionId && extractedTasks.length === 0) {
       handleExtractTasks();
     }
-    if (noteContent && sessionId && icdCodes.length === 0) {
+    if (noteContent && sessionId && icdCodes.length === 0 && !isLocked) {
       handleSuggestCodes();
     }
-  }, [noteContent, sessionId]);
+  }, [noteContent, sessionId, isLocked]);
 
   const handleExtractTasks = async () => {
     if (!sessionId || !noteContent) return;
@@ -241,7 +336,7 @@ const SessionReview = () => {
   };
 
   const handleSuggestCodes = async () => {
-    if (!sessionId || !noteContent) return;
+    if (!sessionId || !noteContent || isLocked) return;
     
     try {
       setIsSuggestingCodes(true);
@@ -273,46 +368,39 @@ const SessionReview = () => {
     toast.success("Note copied to clipboard!");
   };
 
-  const handleSaveNote = async () => {
-    if (!sessionId) return;
-    
-    try {
-      const { error } = await supabase
-        .from('sessions')
-        .update({ 
-          generated_note: noteContent,
-          status: 'draft'
-        })
-        .eq('id', sessionId);
-
-      if (error) throw error;
-      toast.success('Note saved as draft');
-    } catch (error) {
+  const saveNote = async (updates: Record<string, string> = {}) => {
+    if (!sessionId) return false;
+
+    const { error } = await supabase
+      .from('sessions')
+      .update({ generated_note: noteContent, ...updates })
+      .eq('id', sessionId);
+
+    if (error) {
       console.error('Save error:', error);
-      toast.error('Failed to save note');
+      toast.error('Failed to save note: ' + error.message);
+      return false;
     }
+    queryClient.invalidateQueries({ queryKey: ['note_versions', sessionId] });
+    return true;
   };
 
-  const handleFinalize = async () => {
+  const handleSaveNote = async () => {
+    if (await saveNote()) {
+      toast.success(noteStatus === 'pending_review' ? 'Note saved' : 'Note saved as draft');
+    }
+  };
+
+  const handleTransition = async (to: NoteStatus, updates: Record<string, string> = {}) => {
     if (!sessionId) return;
-    
+    if (to !== 'draft' && !(await saveNote(updates))) return;
+
     try {
-      const { error } = await supabase
-        .from('sessions')
-        .update({ 
-          generated_note: noteContent,
-          status: 'finalized'
-        })
-        .eq('id', sessionId);
-
-      if (error) throw error;
-      
-      setStatus("finalized");
-      toast.success("Note finalized and saved!");
-      setTimeout(() => navigate("/sessions"), 1500);
+      const updated = await transitionNoteStatus.mutateAsync({ id: sessionId, from: noteStatus, to });
+      setSession(updated);
+      setNoteStatus(updated.note_status);
     } catch (error) {
-      console.error('Finalize error:', error);
-      toast.error('Failed to finalize note');
+      console.error('Note status transition error:', error);
     }
   };
 
@@ -347,9 +435,13 @@ const SessionReview = () => {
               Patient: {session.patient_name || 'N/A'} | MRN: {session.patient_id || 'N/A'}
             </p>
           </div>
-          <Badge variant={status === "finalized" ? "default" : "secondary"} className="text-sm">
-            {status === "finalized" ? "Finalized" : "Draft"}
-          </Badge>
+          <div className="flex items-center gap-2">
+            <PatientLinkPopover session={session} onLinked={setSession} />
+            <Badge variant={isLocked ? "default" : "secondary"} className="text-sm">
+              {isLocked && <Lock className="mr-1 h-3 w-3" />}
+              {NOTE_STATUS_LABELS[noteStatus]}
+            </Badge>
+          </div>
         </div>
 
         <div className="grid lg:grid-cols-3 gap-6">
@@ -360,9 +452,13 @@ const SessionReview = () => {
                 <div className="flex items-center justify-between">
                   <div>
                     <CardTitle>Clinical Note</CardTitle>
-                    <CardDescription>Edit and finalize the generated documentation</CardDescription>
+                    <CardDescription>
+                      {isLocked
+                        ? `Signed original${session.signed_at ? ` · ${new Date(session.signed_at).toLocaleString()}` : ''}`
+                        : 'Edit, review and sign the generated documentation'}
+                    </CardDescription>
                   </div>
-                  <Select value={detailLevel} onValueChange={setDetailLevel}>
+                  <Select value={detailLevel} onValueChange={setDetailLevel} disabled={isLocked}>
                     <SelectTrigger className="w-32">
                       <SelectValue />
                     </SelectTrigger>
@@ -393,11 +489,18 @@ const SessionReview = () => {
                     className="min-h-[500px] font-mono text-sm"
                     value={noteContent}
                     onChange={(e) => setNoteContent(e.target.value)}
+                    readOnly={isLocked}
                   />
                 )}
               </CardContent>
             </Card>
 
+            {isLocked && sessionId && <NoteAddenda sessionId={sessionId} canAdd={session.user_id === user?.id} />}
+
+            {sessionId && (
+              <NoteVersionHistory sessionId={sessionId} isLocked={isLocked} onRestored={handleSessionUpdate} />
+            )}
+
             {/* Transcript Reference */}
             <TranscriptReference sessionId={sessionId} />
           </div>
@@ -416,7 +519,7 @@ const SessionReview = () => {
                     variant="ghost" 
                     size="sm"
                     onClick={handleSuggestCodes}
-                    disabled={isSuggestingCodes || !noteContent}
+                    disabled={isSuggestingCodes || !noteContent || isLocked}
                   >
                     {isSuggestingCodes ? (
                       <Loader2 className="h-4 w-4 animate-spin" />
@@ -457,6 +560,9 @@ const SessionReview = () => {
               </CardContent>
             </Card>
 
+            {/* Medication Reconciliation */}
+            <MedicationReconciliationPanel session={session} />
+
             {/* Extracted Tasks */}
             <Card>
               <CardHeader>
@@ -527,23 +633,56 @@ const SessionReview = () => {
                 
                 <Separator className="my-4" />
                 
-                <Button 
-                  variant="outline" 
-                  className="w-full"
-                  onClick={handleSaveNote}
-                  disabled={!noteContent}
-                >
-                  <Save className="mr-2 h-4 w-4" />
-                  Save Draft
-                </Button>
-                <Button 
-                  className="w-full"
-                  onClick={handleFinalize}
-                  disabled={status === "finalized" || !noteContent}
-                >
-                  <CheckCircle2 className="mr-2 h-4 w-4" />
-                  {status === "finalized" ? "Finalized" : "Finalize Note"}
-                </Button>
+                {isLocked ? (
+                  <div className="flex items-start gap-2 p-3 rounded-lg border bg-muted text-sm">
+                    <Lock className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                    <p className="text-muted-foreground">
+                      Signed notes are locked. Add an addendum to record changes.
+                    </p>
+                  </div>
+                ) : (
+                  <>
+                    <Button 
+                      variant="outline" 
+                      className="w-full"
+                      onClick={handleSaveNote}
+                      disabled={!noteContent}
+                    >
+                      <Save className="mr-2 h-4 w-4" />
+                      {noteStatus === 'pending_review' ? 'Save Changes' : 'Save Draft'}
+                    </Button>
+                    {noteStatus === 'draft' ? (
+                      <Button 
+                        className="w-full"
+                        onClick={() => handleTransition('pending_review', { status: 'review' })}
+                        disabled={!noteContent || transitionNoteStatus.isPending}
+                      >
+                        <Send className="mr-2 h-4 w-4" />
+                        Submit for Review
+                      </Button>
+                    ) : (
+                      <>
+                        <Button 
+                          className="w-full"
+                          onClick={() => handleTransition('signed', { status: 'finalized' })}
+                          disabled={!noteContent || transitionNoteStatus.isPending}
+                        >
+                          <PenLine className="mr-2 h-4 w-4" />
+                          Sign & Lock Note
+                        </Button>
+                        <Button 
+                          variant="ghost" 
+                          className="w-full"
+                          onClick={() => handleTransition('draft')}
+                          disabled={transitionNoteStatus.isPending}
+                        >
+                          <Undo2 className="mr-2 h-4 w-4" />
+                          Return to Draft
+                        </Button>
+                      </>
+                    )}
+                  </>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Users, Plus, Mail, Trash2, UserPlus } from "lucide-react";
+import { Users, Plus, Mail, Trash2, UserPlus, FileImage, Network } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -39,7 +39,10 @@ import {
   useTeamMembers,
   useCreateTeam, 
   useInviteTeamMember, 
-  useRemoveTeamMember 
+  useRemoveTeamMember,
+  useUpdateTeamLetterhead,
+  useUpdateTeamHl7Settings,
+  type Team as TeamRecord,
 } from "@/hooks/useTeams";
 
 const Team = () => {
@@ -47,10 +50,14 @@ const Team = () => {
   const createTeam = useCreateTeam();
   const inviteMember = useInviteTeamMember();
   const removeMember = useRemoveTeamMember();
+  const updateLetterhead = useUpdateTeamLetterhead();
+  const updateHl7Settings = useUpdateTeamHl7Settings();
   
   const [isCreateTeamOpen, setIsCreateTeamOpen] = useState(false);
   const [isInviteMemberOpen, setIsInviteMemberOpen] = useState(false);
   const [selectedTeam, setSelectedTeam] = useState<string | null>(null);
+  const [letterheadTeam, setLetterheadTeam] = useState<TeamRecord | null>(null);
+  const [hl7Team, setHl7Team] = useState<TeamRecord | null>(null);
 
   const handleCreateTeam = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -84,6 +91,44 @@ const Team = () => {
     await removeMember.mutateAsync({ memberId, teamId });
   };
 
+  const handleUpdateLetterhead = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!letterheadTeam) return;
+
+    const formData = new FormData(e.currentTarget);
+
+    await updateLetterhead.mutateAsync({
+      teamId: letterheadTeam.id,
+      logo_url: (formData.get("logo_url") as string).trim() || null,
+      address: (formData.get("address") as string).trim() || null,
+    });
+
+    setLetterheadTeam(null);
+  };
+
+  const handleUpdateHl7Settings = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!hl7Team) return;
+
+    const formData = new FormData(e.currentTarget);
+    const value = (name: string) => (formData.get(name) as string).trim() || null;
+    const port = value("hl7_mllp_port");
+
+    await updateHl7Settings.mutateAsync({
+      teamId: hl7Team.id,
+      settings: {
+        hl7_sending_application: value("hl7_sending_application"),
+        hl7_sending_facility: value("hl7_sending_facility"),
+        hl7_receiving_application: value("hl7_receiving_application"),
+        hl7_receiving_facility: value("hl7_receiving_facility"),
+        hl7_mllp_host: value("hl7_mllp_host"),
+        hl7_mllp_port: port ? Number(port) : null,
+      },
+    });
+
+    setHl7Team(null);
+  };
+
   return (
     <AppLayout>
       <div className="space-y-6">
@@ -169,6 +214,8 @@ const Team = () => {
                 setIsInviteMemberOpen(true);
               }}
               onRemoveMember={handleRemoveMember}
+              onEditLetterhead={setLetterheadTeam}
+              onEditHl7Settings={setHl7Team}
             />)
           )}
         </div>
@@ -226,6 +273,149 @@ const Team = () => {
             </form>
           </DialogContent>
         </Dialog>
+
+        {/* Letterhead Dialog */}
+        <Dialog open={!!letterheadTeam} onOpenChange={(open) => {
+          if (!open) setLetterheadTeam(null);
+        }}>
+          <DialogContent>
+            <form onSubmit={handleUpdateLetterhead}>
+              <DialogHeader>
+                <DialogTitle>PDF Letterhead</DialogTitle>
+                <DialogDescription>
+                  Shown at the top of clinical notes exported as PDF
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="space-y-2">
+                  <Label htmlFor="logo_url">Logo URL</Label>
+                  <Input
+                    id="logo_url"
+                    name="logo_url"
+                    type="url"
+                    placeholder="https://example.com/logo.png"
+                    defaultValue={letterheadTeam?.logo_url || ""}
+                  />
+                  <p className="text-xs text-muted-foreground">JPEG or PNG image up to 512 KB, uploaded to this app's storage or an approved host</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="address">Address</Label>
+                  <Textarea
+                    id="address"
+                    name="address"
+                    placeholder={"123 Main Street\nSpringfield, IL 62701\nTel: (555) 010-2000"}
+                    rows={3}
+                    defaultValue={letterheadTeam?.address || ""}
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setLetterheadTeam(null)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={updateLetterhead.isPending}>
+                  {updateLetterhead.isPending ? 'Saving...' : 'Save Letterhead'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {/* HL7 Interface Dialog */}
+        <Dialog open={!!hl7Team} onOpenChange={(open) => {
+          if (!open) setHl7Team(null);
+        }}>
+          <DialogContent>
+            <form onSubmit={handleUpdateHl7Settings}>
+              <DialogHeader>
+                <DialogTitle>HL7 Interface</DialogTitle>
+                <DialogDescription>
+                  Facility IDs and MLLP endpoint for notes exported as HL7 v2 MDM^T02 messages
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="hl7_sending_application">Sending Application</Label>
+                    <Input
+                      id="hl7_sending_application"
+                      name="hl7_sending_application"
+                      placeholder="XORSTACK"
+                      defaultValue={hl7Team?.hl7_sending_application || ""}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="hl7_sending_facility">Sending Facility</Label>
+                    <Input
+                      id="hl7_sending_facility"
+                      name="hl7_sending_facility"
+                      placeholder="CLINIC01"
+                      defaultValue={hl7Team?.hl7_sending_facility || ""}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="hl7_receiving_application">Receiving Application</Label>
+                    <Input
+                      id="hl7_receiving_application"
+                      name="hl7_receiving_application"
+                      placeholder="EHR"
+                      defaultValue={hl7Team?.hl7_receiving_application || ""}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="hl7_receiving_facility">Receiving Facility</Label>
+                    <Input
+                      id="hl7_receiving_facility"
+                      name="hl7_receiving_facility"
+                      placeholder="HOSP01"
+                      defaultValue={hl7Team?.hl7_receiving_facility || ""}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="hl7_mllp_host">MLLP Host</Label>
+                    <Input
+                      id="hl7_mllp_host"
+                      name="hl7_mllp_host"
+                      placeholder="hl7.hospital.example"
+                      defaultValue={hl7Team?.hl7_mllp_host || ""}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="hl7_mllp_port">MLLP Port</Label>
+                    <Input
+                      id="hl7_mllp_port"
+                      name="hl7_mllp_port"
+                      type="number"
+                      min={1}
+                      max={65535}
+                      placeholder="2575"
+                      defaultValue={hl7Team?.hl7_mllp_port ?? ""}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Leave the MLLP endpoint empty to download HL7 files without transmitting them
+                </p>
+              </div>
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setHl7Team(null)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={updateHl7Settings.isPending}>
+                  {updateHl7Settings.isPending ? 'Saving...' : 'Save HL7 Settings'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
       </div>
     </AppLayout>
   );
@@ -235,11 +425,15 @@ const Team = () => {
 function TeamCard({ 
   team, 
   onInvite, 
-  onRemoveMember 
+  onRemoveMember,
+  onEditLetterhead,
+  onEditHl7Settings
 }: { 
   team: any; 
   onInvite: (teamId: string) => void;
   onRemoveMember: (memberId: string, teamId: string) => void;
+  onEditLetterhead: (team: TeamRecord) => void;
+  onEditHl7Settings: (team: TeamRecord) => void;
 }) {
   const { data: members = [], isLoading } = useTeamMembers(team.id);
   
@@ -333,6 +527,18 @@ function TeamCard({
                 Invite Member
               </Button>
             )}
+            {userRole === "owner" && (
+              <Button variant="outline" size="sm" onClick={() => onEditLetterhead(team)}>
+                <FileImage className="mr-2 h-4 w-4" />
+                Letterhead
+              </Button>
+            )}
+            {userRole === "owner" && (
+              <Button variant="outline" size="sm" onClick={() => onEditHl7Settings(team)}>
+                <Network className="mr-2 h-4 w-4" />
+                HL7 Interface
+              </Button>
+            )}
           </div>
         </div>
       </CardContent>
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { TemplatePreview } from "@/components/session/TemplatePreview";
+import { TemplateSectionEditor } from "@/components/session/TemplateSectionEditor";
 
 import { Badge } from "@/components/ui/badge";
 import { Search, Plus, FileText, Eye, Star, Edit, Trash2, Copy } from "lucide-react";
@@ -35,11 +36,19 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { useTemplates } from "@/hooks/useTemplates";
 import { useCreateTemplate } from "@/hooks/useCreateTemplate";
 import { useUpdateTemplate } from "@/hooks/useUpdateTemplate";
 import { useDeleteTemplate } from "@/hooks/useDeleteTemplate";
+import {
+  BUILT_IN_TEMPLATES,
+  normalizeTemplateStructure,
+  tidyTemplateSchema,
+  validateTemplateSchema,
+  TEMPLATE_SCHEMA_VERSION,
+  type NoteTemplateSchema,
+  type TemplateSchemaError,
+} from "@/lib/noteTemplates";
 import { toast } from 'sonner';
 
 const Templates = () => {
@@ -53,6 +62,36 @@ const Templates = () => {
   const [isNewTemplateOpen, setIsNewTemplateOpen] = useState(false);
   const [previewTemplate, setPreviewTemplate] = useState<any>(null);
   const [editingTemplate, setEditingTemplate] = useState<any>(null);
+  const [draftSchema, setDraftSchema] = useState<NoteTemplateSchema>(BUILT_IN_TEMPLATES.soap.schema);
+  const [schemaErrors, setSchemaErrors] = useState<TemplateSchemaError[]>([]);
+
+  // New templates start from the SOAP layout; existing ones are upgraded to the section schema
+  useEffect(() => {
+    if (isNewTemplateOpen) {
+      setDraftSchema(BUILT_IN_TEMPLATES.soap.schema);
+      setSchemaErrors([]);
+    }
+  }, [isNewTemplateOpen]);
+
+  useEffect(() => {
+    if (editingTemplate) {
+      setDraftSchema(
+        normalizeTemplateStructure(editingTemplate.structure) ?? { version: TEMPLATE_SCHEMA_VERSION, sections: [] }
+      );
+      setSchemaErrors([]);
+    }
+  }, [editingTemplate]);
+
+  const validateDraft = (): NoteTemplateSchema | null => {
+    const result = validateTemplateSchema(tidyTemplateSchema(draftSchema));
+    if (!result.valid) {
+      setSchemaErrors(result.errors);
+      toast.error('Please fix the highlighted template sections');
+      return null;
+    }
+    setSchemaErrors([]);
+    return result.schema;
+  };
 
   // Persist filter state
   useEffect(() => {
@@ -78,14 +117,8 @@ const Templates = () => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     
-    let structure = {};
-    try {
-      const contentStr = formData.get("content") as string || "{}";
-      structure = JSON.parse(contentStr);
-    } catch {
-      toast.error('Invalid JSON format for template structure');
-      return;
-    }
+    const structure = validateDraft();
+    if (!structure) return;
 
     await createTemplate.mutateAsync({
       name: formData.get("name") as string,
@@ -105,14 +138,8 @@ const Templates = () => {
 
     const formData = new FormData(e.currentTarget);
     
-    let structure = {};
-    try {
-      const contentStr = formData.get("content") as string || "{}";
-      structure = JSON.parse(contentStr);
-    } catch {
-      toast.error('Invalid JSON format for template structure');
-      return;
-    }
+    const structure = validateDraft();
+    if (!structure) return;
     
     await updateTemplate.mutateAsync({
       id: editingTemplate.id,
@@ -136,7 +163,7 @@ const Templates = () => {
       name: `${template.name} (Copy)`,
       description: template.description,
       category: template.category,
-      structure: template.structure,
+      structure: normalizeTemplateStructure(template.structure) ?? template.structure,
       is_community: false,
       is_active: true,
     });
@@ -158,7 +185,7 @@ const Templates = () => {
                 New Template
               </Button>
             </DialogTrigger>
-            <DialogContent className="max-w-2xl">
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
               <form onSubmit={handleCreateTemplate}>
                 <DialogHeader>
                   <DialogTitle>Create Template</DialogTitle>
@@ -207,14 +234,8 @@ const Templates = () => {
                     </div>
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="content">Template Structure (JSON)</Label>
-                    <Textarea
-                      id="content"
-                      name="content"
-                      placeholder='{"subjective": "", "objective": "", "assessment": "", "plan": ""}'
-                      rows={8}
-                      className="font-mono text-sm"
-                    />
+                    <Label>Sections</Label>
+                    <TemplateSectionEditor value={draftSchema} onChange={setDraftSchema} errors={schemaErrors} />
                   </div>
                 </div>
                 <DialogFooter>
@@ -368,7 +389,7 @@ const Templates = () => {
 
         {/* Edit Dialog */}
         <Dialog open={!!editingTemplate} onOpenChange={() => setEditingTemplate(null)}>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
             <form onSubmit={handleUpdateTemplate}>
               <DialogHeader>
                 <DialogTitle>Edit Template</DialogTitle>
@@ -411,14 +432,8 @@ const Templates = () => {
                   </div>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-content">Template Structure (JSON)</Label>
-                  <Textarea
-                    id="edit-content"
-                    name="content"
-                    defaultValue={JSON.stringify(editingTemplate?.structure || {}, null, 2)}
-                    rows={8}
-                    className="font-mono text-sm"
-                  />
+                  <Label>Sections</Label>
+                  <TemplateSectionEditor value={draftSchema} onChange={setDraftSchema} errors={schemaErrors} />
                 </div>
               </div>
               <DialogFooter>
@@ -33,6 +33,19 @@ export interface DiarizedSegment {
   voiceCharacteristics?: VoiceCharacteristics;
 }
 
+/**
+ * Serializable snapshot of the diarization state, used to recover a session
+ * after the page was closed or crashed mid-recording
+ */
+export interface DiarizationState {
+  profiles: Array<[string, SpeakerProfile]>;
+  segments: DiarizedSegment[];
+  currentSpeaker: 'doctor' | 'patient';
+  lastSegmentTime: number;
+  doctorProfileId: string | null;
+  patientProfileId: string | null;
+}
+
 export class AdvancedSpeakerDiarization {
   private speakerProfiles: Map<string, SpeakerProfile> = new Map();
   private segmentHistory: DiarizedSegment[] = [];
@@ -90,6 +103,14 @@ export class AdvancedSpeakerDiarization {
     return segment;
   }
 
+  /**
+   * Replace the text of the latest segment, keeping its speaker
+   */
+  reviseLastSegment(text: string) {
+    const last = this.segmentHistory[this.segmentHistory.length - 1];
+    if (last) last.text = text;
+  }
+
   /**
    * Determine speaker using multiple signals
    */
@@ -370,4 +391,33 @@ export class AdvancedSpeakerDiarization {
       statistics: this.getSpeakerStatistics(),
     };
   }
+
+  /**
+   * Snapshot the state needed to continue diarizing after a reload.
+   * Per-segment voice characteristics are left out to keep it small;
+   * the speaker profiles already summarize them.
+   */
+  exportState(): DiarizationState {
+    return {
+      profiles: Array.from(this.speakerProfiles.entries()),
+      segments: this.segmentHistory.map(({ voiceCharacteristics: _voice, ...segment }) => segment),
+      currentSpeaker: this.currentSpeaker,
+      lastSegmentTime: this.lastSegmentTime,
+      doctorProfileId: this.doctorProfileId,
+      patientProfileId: this.patientProfileId,
+    };
+  }
+
+  /**
+   * Replace the current state with a snapshot from exportState
+   */
+  restoreState(state: DiarizationState) {
+    this.speakerProfiles = new Map(state.profiles);
+    this.segmentHistory = state.segments.map(segment => ({ ...segment }));
+    this.currentSpeaker = state.currentSpeaker;
+    this.lastSegmentTime = state.lastSegmentTime;
+    this.doctorProfileId = state.doctorProfileId;
+    this.patientProfileId = state.patientProfileId;
+    console.log(`♻️ Speaker diarization restored (${state.segments.length} segments)`);
+  }
 }
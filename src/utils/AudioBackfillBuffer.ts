@@ -0,0 +1,178 @@
+/**
+ * Audio Backfill Buffer
+ *
+ * Keeps the last minute of microphone audio while a streaming provider
+ * transcribes it, so that when the provider fails the audio it never
+ * answered for can be transcribed after the switch instead of being lost.
+ *
+ * Like WhisperTranscription, audio is recorded as complete 10-second WebM
+ * segments (a new MediaRecorder per segment) rather than concatenated
+ * chunks, so every segment handed back is a valid file on its own.
+ *
+ * Also samples the input level, which the failover supervisor uses to tell
+ * a silent room from a provider that stopped answering.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+interface BufferedSegment {
+  blob: Blob;
+  endedAt: number;
+}
+
+const SEGMENT_MS = 10_000;
+const MAX_SEGMENTS = 6;
+
+/** RMS level above which the input counts as speech */
+const SPEECH_LEVEL = 0.02;
+
+export class AudioBackfillBuffer {
+  private stream: MediaStream | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private segments: BufferedSegment[] = [];
+  private rotateTimer: ReturnType<typeof setInterval> | null = null;
+  private transcribedUntil = 0;
+  private finishSegment: Promise<void> = Promise.resolve();
+  private audioContext: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private levels: Float32Array<ArrayBuffer> | null = null;
+
+  start(stream: MediaStream) {
+    this.stop();
+    this.stream = stream;
+    this.transcribedUntil = Date.now();
+
+    try {
+      this.audioContext = new AudioContext();
+      this.analyser = this.audioContext.createAnalyser();
+      this.analyser.fftSize = 1024;
+      this.audioContext.createMediaStreamSource(stream).connect(this.analyser);
+      this.levels = new Float32Array(this.analyser.fftSize);
+    } catch (error) {
+      console.warn('[Backfill] Level sampling unavailable:', error);
+    }
+
+    this.startSegment();
+    this.rotateTimer = setInterval(() => {
+      void this.rotate();
+    }, SEGMENT_MS);
+  }
+
+  /** Whether someone is speaking right now */
+  isSpeaking(): boolean {
+    if (!this.analyser || !this.levels) return false;
+    this.analyser.getFloatTimeDomainData(this.levels);
+    let sum = 0;
+    for (const sample of this.levels) sum += sample * sample;
+    return Math.sqrt(sum / this.levels.length) > SPEECH_LEVEL;
+  }
+
+  /** Audio up to `at` has a final transcript and need not be kept */
+  markTranscribed(at = Date.now()) {
+    this.transcribedUntil = at;
+    this.segments = this.segments.filter(segment => segment.endedAt > at);
+  }
+
+  /**
+   * Segments holding audio recorded since the last final transcript, oldest
+   * first. The segment in progress is closed so it can be included; recording
+   * carries on in a new one.
+   */
+  async takeUntranscribed(): Promise<Blob[]> {
+    await this.rotate();
+    const pending = this.segments.filter(segment => segment.endedAt > this.transcribedUntil);
+    this.segments = [];
+    this.transcribedUntil = Date.now();
+    return pending.map(segment => segment.blob);
+  }
+
+  pause() {
+    if (this.recorder?.state === 'recording') this.recorder.pause();
+  }
+
+  resume() {
+    if (this.recorder?.state === 'paused') this.recorder.resume();
+  }
+
+  stop() {
+    if (this.rotateTimer) {
+      clearInterval(this.rotateTimer);
+      this.rotateTimer = null;
+    }
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.onstop = null;
+      this.recorder.stop();
+    }
+    this.recorder = null;
+    this.chunks = [];
+    this.segments = [];
+    this.stream = null;
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+    this.analyser = null;
+    this.levels = null;
+  }
+
+  private startSegment() {
+    if (!this.stream) return;
+
+    let mimeType = 'audio/webm;codecs=opus';
+    if (!MediaRecorder.isTypeSupported(mimeType)) mimeType = 'audio/webm';
+
+    const recorder = new MediaRecorder(this.stream, { mimeType });
+    // Per recorder: the last data of a stopped segment arrives after the next one started
+    const chunks: Blob[] = [];
+    this.recorder = recorder;
+    this.chunks = chunks;
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.start();
+  }
+
+  /** Close the segment in progress and start the next one */
+  private rotate(): Promise<void> {
+    const recorder = this.recorder;
+    if (!recorder || recorder.state === 'inactive') return this.finishSegment;
+
+    const chunks = this.chunks;
+    const paused = recorder.state === 'paused';
+
+    this.finishSegment = new Promise<void>(resolve => {
+      recorder.onstop = () => {
+        if (chunks.length > 0) {
+          this.segments.push({ blob: new Blob(chunks, { type: recorder.mimeType }), endedAt: Date.now() });
+          this.segments = this.segments.slice(-MAX_SEGMENTS);
+        }
+        resolve();
+      };
+    });
+    recorder.stop();
+    this.startSegment();
+    if (paused) this.pause();
+    return this.finishSegment;
+  }
+}
+
+/**
+ * Transcribe buffered segments with Whisper, in order. Segments that fail
+ * are skipped; the rest of the text is still worth having.
+ */
+export async function transcribeBackfill(segments: Blob[], language: string): Promise<string> {
+  const texts: string[] = [];
+  for (const segment of segments) {
+    try {
+      const formData = new FormData();
+      formData.append('audio', segment, 'backfill.webm');
+      formData.append('language', language);
+
+      const { data, error } = await supabase.functions.invoke('whisper-transcribe', { body: formData });
+      if (error) throw error;
+      if (data?.success && data.text?.trim()) texts.push(data.text.trim());
+    } catch (error) {
+      console.error('[Backfill] Segment transcription failed:', error);
+    }
+  }
+  return texts.join(' ');
+}
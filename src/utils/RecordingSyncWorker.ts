@@ -0,0 +1,285 @@
+/**
+ * Recording Sync Worker
+ *
+ * Drains the offline recording queue: uploads each finished recording to the
+ * audio-recordings bucket and, when live transcription missed part of it,
+ * transcribes it and saves the transcript to the session. Runs whenever the
+ * browser comes back online and on a timer, one recording at a time, with
+ * exponential backoff per recording.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  createIndexedDbRecordingStore,
+  RECORDING_HEARTBEAT_MS,
+  type QueuedRecording,
+  type RecordingQueueStore,
+} from '@/lib/recordingQueue';
+import { fromAssemblyAIWords } from '@/lib/wordTimings';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface RecordingUploader {
+  /** Store the audio; returns the storage path. Must be safe to repeat. */
+  upload(recording: QueuedRecording, audio: Blob): Promise<string>;
+  /**
+   * Transcribe the audio and save the transcript to the session, replacing
+   * any live transcript of the recording. Must be safe to repeat.
+   */
+  transcribe(recording: QueuedRecording, audio: Blob): Promise<void>;
+}
+
+export interface RecordingSyncConfig {
+  store: RecordingQueueStore;
+  uploader: RecordingUploader;
+  isOnline?: () => boolean;
+  now?: () => number;
+  /** Timer for retries while online */
+  pollIntervalMs?: number;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  onChange?: () => void;
+}
+
+/** A 'recording' entry not refreshed for this long lost its recorder (tab closed or crashed) */
+const STALE_RECORDING_MS = RECORDING_HEARTBEAT_MS * 3;
+
+export class RecordingSyncWorker {
+  private config: Required<Omit<RecordingSyncConfig, 'onChange'>> & Pick<RecordingSyncConfig, 'onChange'>;
+  private listeners = new Set<() => void>();
+  private running: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private handleOnline = () => {
+    this.syncNow();
+  };
+
+  constructor(config: RecordingSyncConfig) {
+    this.config = {
+      isOnline: () => typeof navigator === 'undefined' || navigator.onLine,
+      now: () => Date.now(),
+      pollIntervalMs: 30_000,
+      initialBackoffMs: 5_000,
+      maxBackoffMs: 10 * 60_000,
+      ...config,
+    };
+  }
+
+  get store(): RecordingQueueStore {
+    return this.config.store;
+  }
+
+  start() {
+    if (this.timer) return;
+    window.addEventListener('online', this.handleOnline);
+    this.timer = setInterval(() => this.syncNow(), this.config.pollIntervalMs);
+    this.syncNow();
+  }
+
+  stop() {
+    window.removeEventListener('online', this.handleOnline);
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  notifyChange() {
+    this.config.onChange?.();
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Process everything that is due. Concurrent calls share one run.
+   */
+  syncNow(options: { force?: boolean } = {}): Promise<void> {
+    if (!this.running) {
+      this.running = this.drain(!!options.force).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /** Retry a failed recording straight away */
+  async retry(id: string) {
+    const recording = await this.config.store.getRecording(id);
+    if (!recording) return;
+    await this.save({ ...recording, nextAttemptAt: null });
+    await this.syncNow({ force: true });
+  }
+
+  /** Drop a recording and its audio from the queue without uploading */
+  async discard(id: string) {
+    await this.config.store.deleteRecording(id);
+    this.notifyChange();
+  }
+
+  private async save(recording: QueuedRecording) {
+    await this.config.store.putRecording(recording);
+    this.notifyChange();
+  }
+
+  private async drain(force: boolean) {
+    const { store, isOnline, now } = this.config;
+    const recordings = await store.listRecordings();
+
+    for (const queued of recordings) {
+      let recording = queued;
+
+      if (recording.status === 'recording') {
+        if (now() - recording.updatedAt < STALE_RECORDING_MS) continue;
+        // The recorder went away mid-visit; keep what was saved. Its live
+        // transcript is recovered from the session checkpoint, so only
+        // transcribe if live transcription had already missed some of it
+        recording = { ...recording, status: 'pending', stoppedAt: recording.updatedAt };
+        await this.save(recording);
+      }
+
+      if (!isOnline()) return;
+      if (!force && recording.nextAttemptAt && recording.nextAttemptAt > now()) continue;
+
+      await this.process(recording);
+    }
+  }
+
+  private async process(queued: QueuedRecording) {
+    const { store, uploader, now, initialBackoffMs, maxBackoffMs } = this.config;
+    let recording = queued;
+
+    try {
+      const chunks = await store.getChunks(recording.id);
+      if (chunks.length === 0) {
+        await store.deleteRecording(recording.id);
+        this.notifyChange();
+        return;
+      }
+      const audio = new Blob(chunks, { type: recording.mimeType });
+
+      if (!recording.storagePath) {
+        recording = { ...recording, status: 'uploading' };
+        await this.save(recording);
+        const storagePath = await uploader.upload(recording, audio);
+        recording = { ...recording, storagePath };
+        await this.save(recording);
+      }
+
+      if (recording.needsTranscription) {
+        recording = { ...recording, status: 'transcribing' };
+        await this.save(recording);
+        await uploader.transcribe(recording, audio);
+        // Saved: a retry after a failure below must not transcribe again
+        recording = { ...recording, needsTranscription: false };
+        await this.save(recording);
+      }
+
+      await store.deleteRecording(recording.id);
+      this.notifyChange();
+      console.log(`[RecordingSync] Synced recording ${recording.id} for session ${recording.sessionId}`);
+    } catch (error) {
+      const attempts = recording.attempts + 1;
+      const delay = Math.min(initialBackoffMs * 2 ** (attempts - 1), maxBackoffMs);
+      console.error(`[RecordingSync] Recording ${recording.id} failed (attempt ${attempts}):`, error);
+      await this.save({
+        ...recording,
+        status: 'failed',
+        attempts,
+        lastError: error instanceof Error ? error.message : 'Sync failed',
+        nextAttemptAt: now() + delay,
+      });
+    }
+  }
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const reader = new FileReader();
+  return new Promise((resolve, reject) => {
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Uploads to the audio-recordings bucket, registering the file in
+ * session_recordings for playback, and transcribes with transcribe-audio.
+ * The transcript replaces the recording's live segments, which only cover
+ * part of it, in one call to replace_recording_transcripts.
+ */
+export const supabaseRecordingUploader: RecordingUploader = {
+  async upload(recording, audio) {
+    const extension = recording.mimeType.includes('mp4') ? 'mp4' : recording.mimeType.includes('ogg') ? 'ogg' : 'webm';
+    const path = `${recording.sessionId}/${recording.id}.${extension}`;
+    const { error } = await supabase.storage
+      .from('audio-recordings')
+      .upload(path, audio, { contentType: recording.mimeType, upsert: true });
+    if (error) throw error;
+
+    const { error: recordError } = await supabase
+      .from('session_recordings')
+      .upsert({
+        id: recording.id,
+        session_id: recording.sessionId,
+        storage_path: path,
+        mime_type: recording.mimeType,
+        started_at: new Date(recording.startedAt).toISOString(),
+        duration_ms: recording.stoppedAt ? recording.stoppedAt - recording.startedAt : null,
+      });
+    if (recordError) throw recordError;
+    return path;
+  },
+
+  async transcribe(recording, audio) {
+    const { data, error } = await supabase.functions.invoke('transcribe-audio', {
+      body: { audio: await blobToBase64(audio), session_id: recording.sessionId },
+    });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error?.message || 'Transcription failed');
+
+    const utterances: Array<{
+      speaker: string;
+      text: string;
+      start: number;
+      words?: Array<{ text: string; start: number; end: number; confidence?: number }>;
+    }> = data.utterances || [];
+    // The clinician usually speaks first
+    const firstSpeaker = utterances[0]?.speaker;
+    const segments = utterances.length > 0
+      ? utterances.map(u => {
+          // Utterance word times are already on the recording's clock
+          const words = fromAssemblyAIWords(u.words);
+          return {
+            text: u.text,
+            speaker: u.speaker === firstSpeaker ? 'provider' : 'patient',
+            start: u.start,
+            words: words.length > 0 ? words : undefined,
+          };
+        })
+      : [{ text: data.text || '', speaker: 'provider', start: 0 }];
+
+    const { error: replaceError } = await supabase.rpc('replace_recording_transcripts', {
+      _session_id: recording.sessionId,
+      _recording_id: recording.id,
+      _segments: segments as unknown as Json,
+    });
+    if (replaceError) throw replaceError;
+  },
+};
+
+let sharedWorker: RecordingSyncWorker | null = null;
+
+/**
+ * The app-wide worker backed by IndexedDB
+ */
+export function getRecordingSyncWorker(): RecordingSyncWorker {
+  if (!sharedWorker) {
+    sharedWorker = new RecordingSyncWorker({
+      store: createIndexedDbRecordingStore(),
+      uploader: supabaseRecordingUploader,
+    });
+  }
+  return sharedWorker;
+}
@@ -193,7 +193,10 @@ export class CircuitBreaker {
     }
   }
 
-  private recordFailure(context: string) {
+  /**
+   * Count a failure that happened outside execute(), e.g. a dropped stream
+   */
+  recordFailure(context: string) {
     this.failures++;
     this.lastFailureTime = Date.now();
 
@@ -16,11 +16,12 @@
 
 import { supabase } from "@/integrations/supabase/client";
 import { RetryStrategy, CircuitBreaker } from './RetryStrategy';
+import { fromWhisperWords, type WordTiming } from '@/lib/wordTimings';
 
 export interface WhisperTranscriptionConfig {
   language?: string;
   model?: string; // whisper-1 or gpt-4o-mini-transcribe
-  onResult?: (transcript: string, isFinal: boolean) => void;
+  onResult?: (transcript: string, isFinal: boolean, timing?: WordTiming) => void;
   onError?: (error: string) => void;
   onStart?: () => void;
   onEnd?: () => void;
@@ -120,6 +121,8 @@ export class WhisperTranscription {
     this.mediaRecorder = new MediaRecorder(this.currentStream, options);
     
     const audioChunks: Blob[] = [];
+    // Whisper word times count from the start of the segment
+    let segmentStartedAt = Date.now();
 
     this.mediaRecorder.ondataavailable = (event) => {
       if (event.data.size > 0) {
@@ -139,7 +142,7 @@ export class WhisperTranscription {
         
         // Process this complete segment
         if (completeBlob.size >= 48000) { // Min 3 seconds at 128kbps
-          this.processAudioSegment(completeBlob);
+          this.processAudioSegment(completeBlob, segmentStartedAt);
         } else {
           console.log('[Whisper] Segment too small, skipping');
         }
@@ -160,6 +163,7 @@ export class WhisperTranscription {
 
     // Start recording and automatically stop after 10 seconds
     this.mediaRecorder.start();
+    segmentStartedAt = Date.now();
     
     // Auto-stop after 10 seconds to get complete WebM file
     setTimeout(() => {
@@ -169,12 +173,19 @@ export class WhisperTranscription {
     }, 10000);
   }
 
-  private async processAudioSegment(audioBlob: Blob) {
+  private async processAudioSegment(audioBlob: Blob, startedAt: number) {
     // Add to processing queue to prevent overlapping requests
     this.processingQueue = this.processingQueue.then(async () => {
       const startTime = Date.now();
       const segmentId = ++this.processedChunks;
 
+      if (!navigator.onLine) {
+        // Retrying would only trip the circuit breaker; the recording itself is
+        // kept in the offline queue and transcribed once the network is back
+        console.log(`[Whisper] Offline, skipping segment #${segmentId}`);
+        return;
+      }
+
       try {
         console.log(`[Whisper] Processing segment #${segmentId}:`, {
           size: `${(audioBlob.size / 1024).toFixed(2)} KB`,
@@ -259,7 +270,10 @@ export class WhisperTranscription {
 
           // Emit as final result
           if (this.config.onResult) {
-            this.config.onResult(transcriptText, true);
+            this.config.onResult(transcriptText, true, {
+              words: fromWhisperWords(result.words),
+              startedAt,
+            });
           }
         } else if (isSilentResponse) {
           console.log(`[Whisper] Segment #${segmentId} filtered - detected silence response:`, transcriptText);
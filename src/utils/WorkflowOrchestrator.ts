@@ -5,6 +5,7 @@
  */
 
 import { generateClinicalNote } from '@/ai/heidiBrain';
+import type { NoteSections } from '@/lib/noteStream';
 
 export interface WorkflowStep {
   name: string;
@@ -20,6 +21,17 @@ export interface WorkflowState {
   isRunning: boolean;
 }
 
+export interface PipelineOptions {
+  context?: string;
+  detailLevel?: 'low' | 'medium' | 'high';
+  template?: string;
+  templateId?: string;
+  /** Streams the note; called with the sections written so far */
+  onPartialNote?: (sections: NoteSections) => void;
+  /** Aborting cancels generation without saving */
+  signal?: AbortSignal;
+}
+
 export type WorkflowStepName = 
   | 'transcription' 
   | 'note-generation';
@@ -57,11 +69,12 @@ export class WorkflowOrchestrator {
   public async runCompletePipeline(
     sessionId: string,
     transcript: string,
-    options?: { context?: string; detailLevel?: 'low' | 'medium' | 'high'; template?: string; templateId?: string }
+    options?: PipelineOptions
   ): Promise<{
     success: boolean;
     note?: string;
     errors?: string[];
+    cancelled?: boolean;
   }> {
     this.state.isRunning = true;
     this.state.currentStep = 0;
@@ -84,6 +97,17 @@ export class WorkflowOrchestrator {
       });
 
       const noteResult = await this.generateNote(sessionId, transcript, options);
+
+      if ('cancelled' in noteResult && noteResult.cancelled) {
+        this.updateStep(1, {
+          status: 'pending',
+          progress: 0,
+          message: 'Cancelled',
+        });
+        this.state.isRunning = false;
+        this.notifyStateChange();
+        return { success: false, cancelled: true, errors };
+      }
       
       if (!noteResult.success || !noteResult.note) {
         this.updateStep(1, {
@@ -140,7 +164,7 @@ export class WorkflowOrchestrator {
   private async generateNote(
     sessionId: string,
     transcript: string,
-    options?: { context?: string; detailLevel?: 'low' | 'medium' | 'high'; template?: string; templateId?: string }
+    options?: PipelineOptions
   ) {
     try {
       this.updateStep(1, { progress: 40, message: 'Generating clinical note...' });
@@ -149,7 +173,27 @@ export class WorkflowOrchestrator {
         ? `${transcript}\n\nAdditional Context:\n${options.context}`
         : transcript;
       const detail = options?.detailLevel || 'high';
-      const result = await generateClinicalNote(sessionId, combined, detail, options?.templateId);
+      const onPartialNote = options?.onPartialNote;
+      const result = await generateClinicalNote(
+        sessionId,
+        combined,
+        detail,
+        options?.templateId,
+        onPartialNote
+          ? {
+              onPartial: (sections) => {
+                const written = Object.keys(sections).length;
+                this.updateStep(1, {
+                  progress: Math.min(40 + written * 8, 75),
+                  message: `Writing note (${written} section${written === 1 ? '' : 's'})...`,
+                });
+                onPartialNote(sections);
+              },
+              onStatus: (message) => this.updateStep(1, { progress: 80, message: `${message}...` }),
+              signal: options?.signal,
+            }
+          : undefined
+      );
       
       this.updateStep(1, { progress: 80, message: 'Note almost ready...' });
       
@@ -0,0 +1,212 @@
+/**
+ * ICD-10-CM lookup and validation against the bundled code table
+ * (icd10cmTable.ts)
+ *
+ * suggest-codes validates what the model returns: codes that aren't in the
+ * table are rejected, and header codes that can't be billed are replaced
+ * with their unspecified billable code where there is one. The app uses the
+ * same search for the manual code typeahead.
+ *
+ * Dependency-free so the same module runs in edge functions (Deno) and in
+ * the app.
+ */
+
+import { ICD10CM_TABLE } from './icd10cmTable.ts';
+
+export { ICD10CM_VERSION } from './icd10cmTable.ts';
+
+export interface Icd10Code {
+  /** With the dot, e.g. "E11.9" */
+  code: string;
+  descriptor: string;
+  /** False for category and subcategory headers, which can't be billed */
+  billable: boolean;
+  /** The header this code sits under, null for categories */
+  parent: string | null;
+}
+
+/** A code as suggest-codes returns it */
+export interface SuggestedCode {
+  code: string;
+  system?: string;
+  label?: string;
+  confidence?: number;
+  [key: string]: unknown;
+}
+
+export interface ValidatedCode extends SuggestedCode {
+  billable: true;
+  /** The header code the model returned, when it was replaced with a billable code */
+  specified_from?: string;
+}
+
+export type RejectionReason = 'malformed' | 'unknown' | 'not_billable';
+
+export interface RejectedCode {
+  code: string;
+  label?: string;
+  reason: RejectionReason;
+}
+
+const compact = (code: string) => code.replace('.', '');
+
+/** Letter, digit, then a category character and up to four more after the dot */
+const CODE_FORMAT = /^[A-Z]\d[0-9A-Z](\.[0-9A-Z]{1,4})?$/;
+
+/** "e119" and " E11.9 " both become "E11.9" */
+export function normalizeIcd10Code(code: string): string {
+  const raw = compact(code.trim().toUpperCase().replace(/\s+/g, ''));
+  return raw.length > 3 ? `${raw.slice(0, 3)}.${raw.slice(3)}` : raw;
+}
+
+const CODES = new Map<string, Icd10Code>();
+{
+  const rows = ICD10CM_TABLE.split('\n')
+    .map(line => line.trim().match(/^(\S+) ([01]) (.+)$/))
+    .filter((row): row is RegExpMatchArray => row !== null);
+  const known = new Set(rows.map(([, code]) => code));
+
+  for (const [, code, billable, descriptor] of rows) {
+    let parent: string | null = null;
+    // Placeholder codes ("W19.XXXA") skip levels, so walk up to the nearest listed code
+    for (let raw = compact(code).slice(0, -1); raw.length >= 3 && !parent; raw = raw.slice(0, -1)) {
+      const candidate = normalizeIcd10Code(raw);
+      if (known.has(candidate)) parent = candidate;
+    }
+    CODES.set(code, { code, descriptor, billable: billable === '1', parent });
+  }
+}
+
+export function lookupIcd10(code: string): Icd10Code | null {
+  return CODES.get(normalizeIcd10Code(code)) ?? null;
+}
+
+/** Billable codes under a header, most general first */
+export function billableDescendants(code: string): Icd10Code[] {
+  const prefix = compact(normalizeIcd10Code(code));
+  return [...CODES.values()]
+    .filter(entry => entry.billable && entry.code !== code && compact(entry.code).startsWith(prefix))
+    .sort((a, b) => a.code.length - b.code.length || a.code.localeCompare(b.code));
+}
+
+const specificityScore = (entry: Icd10Code) =>
+  (/\bunspecified\b/i.test(entry.descriptor) ? 1 : 0)
+  + (/\b(without complications|uncomplicated)\b/i.test(entry.descriptor) ? 1 : 0);
+
+/** By convention a final 9 (or 0) is the unspecified code at a level */
+const finalDigitRank = (code: string) => ({ '9': 0, '0': 1 } as Record<string, number>)[code.slice(-1)] ?? 2;
+
+/**
+ * The billable code to use for a header: its only billable code, or the
+ * most general unspecified one. Null when the choice would be a guess
+ * (e.g. N40, with and without urinary symptoms).
+ */
+export function specifyIcd10(code: string): Icd10Code | null {
+  const entry = lookupIcd10(code);
+  if (!entry) return null;
+  if (entry.billable) return entry;
+
+  const candidates = billableDescendants(entry.code);
+  if (candidates.length === 1) return candidates[0];
+
+  const [best] = candidates
+    .filter(candidate => specificityScore(candidate) > 0)
+    .sort((a, b) =>
+      specificityScore(b) - specificityScore(a)
+      || a.code.length - b.code.length
+      || finalDigitRank(a.code) - finalDigitRank(b.code)
+      || a.code.localeCompare(b.code)
+    );
+  return best ?? null;
+}
+
+/**
+ * Checks suggested codes against the table. Accepted codes carry the
+ * official descriptor as their label. A code suggested twice (or specified
+ * to one already suggested) is kept once, at its highest confidence.
+ */
+export function validateSuggestedCodes(codes: unknown): { accepted: ValidatedCode[]; rejected: RejectedCode[] } {
+  const accepted = new Map<string, ValidatedCode>();
+  const rejected: RejectedCode[] = [];
+
+  for (const item of Array.isArray(codes) ? codes : []) {
+    if (!item || typeof item !== 'object' || typeof (item as SuggestedCode).code !== 'string') continue;
+    const suggested = item as SuggestedCode;
+
+    const code = normalizeIcd10Code(suggested.code);
+    if (!CODE_FORMAT.test(code)) {
+      rejected.push({ code: suggested.code, label: suggested.label, reason: 'malformed' });
+      continue;
+    }
+
+    const keep = (validated: ValidatedCode) => {
+      const existing = accepted.get(validated.code);
+      if (existing && (existing.confidence ?? 0) >= (suggested.confidence ?? 0)) return;
+      accepted.set(validated.code, validated);
+    };
+
+    const entry = lookupIcd10(code);
+    if (!entry) {
+      rejected.push({ code, label: suggested.label, reason: 'unknown' });
+      continue;
+    }
+    const billable = specifyIcd10(entry.code);
+    if (!billable) {
+      rejected.push({ code: entry.code, label: suggested.label, reason: 'not_billable' });
+      continue;
+    }
+
+    keep({
+      ...suggested,
+      code: billable.code,
+      system: 'ICD-10-CM',
+      label: billable.descriptor,
+      billable: true,
+      ...(billable.code !== entry.code ? { specified_from: entry.code } : {}),
+    });
+  }
+
+  return { accepted: [...accepted.values()], rejected };
+}
+
+/**
+ * Codes matching what was typed: a code or code prefix ("e11", "J45.9"), or
+ * words that each start a word of the descriptor ("type 2 diab"). Billable
+ * codes come first.
+ */
+export function searchIcd10(
+  query: string,
+  { limit = 10, billableOnly = false }: { limit?: number; billableOnly?: boolean } = {}
+): Icd10Code[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const candidates = [...CODES.values()].filter(entry => !billableOnly || entry.billable);
+  let matches: { entry: Icd10Code; rank: number }[];
+
+  if (/^[a-z]\d/i.test(trimmed) && !/\s/.test(trimmed)) {
+    const normalized = normalizeIcd10Code(trimmed);
+    const prefix = compact(normalized);
+    matches = candidates
+      .filter(entry => compact(entry.code).startsWith(prefix))
+      .map(entry => ({ entry, rank: entry.code === normalized ? 0 : 1 }));
+  } else {
+    const terms = trimmed.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    matches = candidates
+      .filter(entry => {
+        const words = entry.descriptor.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+        return terms.every(term => words.some(word => word.startsWith(term)));
+      })
+      .map(entry => ({ entry, rank: 1 }));
+  }
+
+  return matches
+    .sort((a, b) =>
+      a.rank - b.rank
+      || Number(b.entry.billable) - Number(a.entry.billable)
+      || a.entry.code.length - b.entry.code.length
+      || a.entry.code.localeCompare(b.entry.code)
+    )
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+}
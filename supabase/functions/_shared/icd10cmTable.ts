@@ -0,0 +1,471 @@
+/**
+ * Bundled ICD-10-CM table, with the category and subcategory headers above
+ * each code.
+ *
+ * Generated by scripts/build-icd10cm-table.mjs from the CMS order file; don't
+ * edit by hand. One code per line, "<code> <billable> <descriptor>", where
+ * billable is 1 for codes valid for billing and 0 for headers. This copy is
+ * a subset of common ambulatory and primary-care codes (see ICD10CM_VERSION)
+ * until the script is run on the FY2025 order file.
+ */
+
+export const ICD10CM_VERSION = 'FY2025-subset.1';
+
+export const ICD10CM_TABLE = `
+A09 1 Infectious gastroenteritis and colitis, unspecified
+A41 0 Other sepsis
+A41.9 1 Sepsis, unspecified organism
+A49 0 Bacterial infection of unspecified site
+A49.9 1 Bacterial infection, unspecified
+B02 0 Zoster [herpes zoster]
+B02.9 1 Zoster without complications
+B34 0 Viral infection of unspecified site
+B34.9 1 Viral infection, unspecified
+B35 0 Dermatophytosis
+B35.1 1 Tinea unguium
+B35.3 1 Tinea pedis
+B37 0 Candidiasis
+B37.0 1 Candidal stomatitis
+C34 0 Malignant neoplasm of bronchus and lung
+C34.9 0 Malignant neoplasm of unspecified part of bronchus or lung
+C34.90 1 Malignant neoplasm of unspecified part of unspecified bronchus or lung
+C61 1 Malignant neoplasm of prostate
+D50 0 Iron deficiency anemia
+D50.9 1 Iron deficiency anemia, unspecified
+D64 0 Other anemias
+D64.9 1 Anemia, unspecified
+E03 0 Other hypothyroidism
+E03.9 1 Hypothyroidism, unspecified
+E05 0 Thyrotoxicosis [hyperthyroidism]
+E05.9 0 Thyrotoxicosis, unspecified
+E05.90 1 Thyrotoxicosis, unspecified without thyrotoxic crisis or storm
+E10 0 Type 1 diabetes mellitus
+E10.6 0 Type 1 diabetes mellitus with other specified complications
+E10.65 1 Type 1 diabetes mellitus with hyperglycemia
+E10.9 1 Type 1 diabetes mellitus without complications
+E11 0 Type 2 diabetes mellitus
+E11.2 0 Type 2 diabetes mellitus with kidney complications
+E11.22 1 Type 2 diabetes mellitus with diabetic chronic kidney disease
+E11.4 0 Type 2 diabetes mellitus with neurological complications
+E11.40 1 Type 2 diabetes mellitus with diabetic neuropathy, unspecified
+E11.6 0 Type 2 diabetes mellitus with other specified complications
+E11.64 0 Type 2 diabetes mellitus with hypoglycemia
+E11.649 1 Type 2 diabetes mellitus with hypoglycemia without coma
+E11.65 1 Type 2 diabetes mellitus with hyperglycemia
+E11.8 1 Type 2 diabetes mellitus with unspecified complications
+E11.9 1 Type 2 diabetes mellitus without complications
+E55 0 Vitamin D deficiency
+E55.9 1 Vitamin D deficiency, unspecified
+E66 0 Overweight and obesity
+E66.0 0 Obesity due to excess calories
+E66.01 1 Morbid (severe) obesity due to excess calories
+E66.3 1 Overweight
+E66.9 1 Obesity, unspecified
+E78 0 Disorders of lipoprotein metabolism and other lipidemias
+E78.0 0 Pure hypercholesterolemia
+E78.00 1 Pure hypercholesterolemia, unspecified
+E78.1 1 Pure hyperglyceridemia
+E78.2 1 Mixed hyperlipidemia
+E78.5 1 Hyperlipidemia, unspecified
+E86 0 Volume depletion
+E86.0 1 Dehydration
+E87 0 Other disorders of fluid, electrolyte and acid-base balance
+E87.1 1 Hypo-osmolality and hyponatremia
+E87.5 1 Hyperkalemia
+E87.6 1 Hypokalemia
+F10 0 Alcohol related disorders
+F10.1 0 Alcohol abuse
+F10.10 1 Alcohol abuse, uncomplicated
+F10.2 0 Alcohol dependence
+F10.20 1 Alcohol dependence, uncomplicated
+F17 0 Nicotine dependence
+F17.2 0 Nicotine dependence
+F17.21 0 Nicotine dependence, cigarettes
+F17.210 1 Nicotine dependence, cigarettes, uncomplicated
+F32 0 Major depressive disorder, single episode
+F32.9 1 Major depressive disorder, single episode, unspecified
+F32.A 1 Depression, unspecified
+F33 0 Major depressive disorder, recurrent
+F33.1 1 Major depressive disorder, recurrent, moderate
+F33.9 1 Major depressive disorder, recurrent, unspecified
+F41 0 Other anxiety disorders
+F41.0 1 Panic disorder [episodic paroxysmal anxiety]
+F41.1 1 Generalized anxiety disorder
+F41.9 1 Anxiety disorder, unspecified
+F43 0 Reaction to severe stress, and adjustment disorders
+F43.1 0 Post-traumatic stress disorder (PTSD)
+F43.10 1 Post-traumatic stress disorder, unspecified
+F43.2 0 Adjustment disorders
+F43.20 1 Adjustment disorder, unspecified
+F51 0 Sleep disorders not due to a substance or known physiological condition
+F51.0 0 Insomnia not due to a substance or known physiological condition
+F51.01 1 Primary insomnia
+F90 0 Attention-deficit hyperactivity disorders
+F90.9 1 Attention-deficit hyperactivity disorder, unspecified type
+G40 0 Epilepsy and recurrent seizures
+G40.9 0 Epilepsy, unspecified
+G40.90 0 Epilepsy, unspecified, not intractable
+G40.909 1 Epilepsy, unspecified, not intractable, without status epilepticus
+G43 0 Migraine
+G43.9 0 Migraine, unspecified
+G43.90 0 Migraine, unspecified, not intractable
+G43.909 1 Migraine, unspecified, not intractable, without status migrainosus
+G44 0 Other headache syndromes
+G44.2 0 Tension-type headache
+G44.20 0 Tension-type headache, unspecified
+G44.209 1 Tension-type headache, unspecified, not intractable
+G47 0 Sleep disorders
+G47.0 0 Insomnia
+G47.00 1 Insomnia, unspecified
+G47.3 0 Sleep apnea
+G47.33 1 Obstructive sleep apnea (adult) (pediatric)
+G56 0 Mononeuropathies of upper limb
+G56.0 0 Carpal tunnel syndrome
+G56.00 1 Carpal tunnel syndrome, unspecified upper limb
+G56.01 1 Carpal tunnel syndrome, right upper limb
+G56.02 1 Carpal tunnel syndrome, left upper limb
+G56.03 1 Carpal tunnel syndrome, bilateral upper limbs
+G62 0 Other and unspecified polyneuropathies
+G62.9 1 Polyneuropathy, unspecified
+H10 0 Conjunctivitis
+H10.9 1 Unspecified conjunctivitis
+H61 0 Other disorders of external ear
+H61.2 0 Impacted cerumen
+H61.20 1 Impacted cerumen, unspecified ear
+H61.21 1 Impacted cerumen, right ear
+H61.22 1 Impacted cerumen, left ear
+H61.23 1 Impacted cerumen, bilateral
+H66 0 Suppurative and unspecified otitis media
+H66.9 0 Otitis media, unspecified
+H66.90 1 Otitis media, unspecified, unspecified ear
+H66.91 1 Otitis media, unspecified, right ear
+H66.92 1 Otitis media, unspecified, left ear
+H66.93 1 Otitis media, unspecified, bilateral
+H81 0 Disorders of vestibular function
+H81.1 0 Benign paroxysmal vertigo
+H81.10 1 Benign paroxysmal vertigo, unspecified ear
+I10 1 Essential (primary) hypertension
+I11 0 Hypertensive heart disease
+I11.9 1 Hypertensive heart disease without heart failure
+I12 0 Hypertensive chronic kidney disease
+I12.9 1 Hypertensive chronic kidney disease with stage 1 through stage 4 chronic kidney disease, or unspecified chronic kidney disease
+I20 0 Angina pectoris
+I20.9 1 Angina pectoris, unspecified
+I21 0 Acute myocardial infarction
+I21.4 1 Non-ST elevation (NSTEMI) myocardial infarction
+I21.9 1 Acute myocardial infarction, unspecified
+I25 0 Chronic ischemic heart disease
+I25.1 0 Atherosclerotic heart disease of native coronary artery
+I25.10 1 Atherosclerotic heart disease of native coronary artery without angina pectoris
+I26 0 Pulmonary embolism
+I26.9 0 Pulmonary embolism without acute cor pulmonale
+I26.99 1 Other pulmonary embolism without acute cor pulmonale
+I48 0 Atrial fibrillation and flutter
+I48.0 1 Paroxysmal atrial fibrillation
+I48.9 0 Unspecified atrial fibrillation and atrial flutter
+I48.91 1 Unspecified atrial fibrillation
+I50 0 Heart failure
+I50.2 0 Systolic (congestive) heart failure
+I50.22 1 Chronic systolic (congestive) heart failure
+I50.9 1 Heart failure, unspecified
+I63 0 Cerebral infarction
+I63.9 1 Cerebral infarction, unspecified
+I73 0 Other peripheral vascular diseases
+I73.9 1 Peripheral vascular disease, unspecified
+I82 0 Other venous embolism and thrombosis
+I82.4 0 Acute embolism and thrombosis of deep veins of lower extremity
+I82.40 0 Acute embolism and thrombosis of unspecified deep veins of lower extremity
+I82.409 1 Acute embolism and thrombosis of unspecified deep veins of unspecified lower extremity
+I83 0 Varicose veins of lower extremities
+I83.9 0 Asymptomatic varicose veins of lower extremities
+I83.90 1 Asymptomatic varicose veins of unspecified lower extremity
+I95 0 Hypotension
+I95.9 1 Hypotension, unspecified
+J00 1 Acute nasopharyngitis [common cold]
+J01 0 Acute sinusitis
+J01.9 0 Acute sinusitis, unspecified
+J01.90 1 Acute sinusitis, unspecified
+J02 0 Acute pharyngitis
+J02.0 1 Streptococcal pharyngitis
+J02.9 1 Acute pharyngitis, unspecified
+J03 0 Acute tonsillitis
+J03.9 0 Acute tonsillitis, unspecified
+J03.90 1 Acute tonsillitis, unspecified
+J06 0 Acute upper respiratory infections of multiple and unspecified sites
+J06.9 1 Acute upper respiratory infection, unspecified
+J11 0 Influenza due to unidentified influenza virus
+J11.1 1 Influenza due to unidentified influenza virus with other respiratory manifestations
+J18 0 Pneumonia, unspecified organism
+J18.9 1 Pneumonia, unspecified organism
+J20 0 Acute bronchitis
+J20.9 1 Acute bronchitis, unspecified
+J30 0 Vasomotor and allergic rhinitis
+J30.2 1 Other seasonal allergic rhinitis
+J30.9 1 Allergic rhinitis, unspecified
+J32 0 Chronic sinusitis
+J32.9 1 Chronic sinusitis, unspecified
+J40 1 Bronchitis, not specified as acute or chronic
+J44 0 Other chronic obstructive pulmonary disease
+J44.1 1 Chronic obstructive pulmonary disease with (acute) exacerbation
+J44.9 1 Chronic obstructive pulmonary disease, unspecified
+J45 0 Asthma
+J45.2 0 Mild intermittent asthma
+J45.20 1 Mild intermittent asthma, uncomplicated
+J45.9 0 Other and unspecified asthma
+J45.90 0 Unspecified asthma
+J45.901 1 Unspecified asthma with (acute) exacerbation
+J45.909 1 Unspecified asthma, uncomplicated
+K21 0 Gastro-esophageal reflux disease
+K21.9 1 Gastro-esophageal reflux disease without esophagitis
+K29 0 Gastritis and duodenitis
+K29.7 0 Gastritis, unspecified
+K29.70 1 Gastritis, unspecified, without bleeding
+K30 1 Functional dyspepsia
+K35 0 Acute appendicitis
+K35.8 0 Other and unspecified acute appendicitis
+K35.80 1 Unspecified acute appendicitis
+K52 0 Other and unspecified noninfective gastroenteritis and colitis
+K52.9 1 Noninfective gastroenteritis and colitis, unspecified
+K57 0 Diverticular disease of intestine
+K57.3 0 Diverticular disease of large intestine without perforation or abscess
+K57.30 1 Diverticulosis of large intestine without perforation or abscess without bleeding
+K58 0 Irritable bowel syndrome
+K58.9 1 Irritable bowel syndrome without diarrhea
+K59 0 Other functional intestinal disorders
+K59.0 0 Constipation
+K59.00 1 Constipation, unspecified
+K76 0 Other diseases of liver
+K76.0 1 Fatty (change of) liver, not elsewhere classified
+K80 0 Cholelithiasis
+K80.2 0 Calculus of gallbladder without cholecystitis
+K80.20 1 Calculus of gallbladder without cholecystitis without obstruction
+L03 0 Cellulitis and acute lymphangitis
+L03.9 0 Cellulitis and acute lymphangitis, unspecified
+L03.90 1 Cellulitis, unspecified
+L20 0 Atopic dermatitis
+L20.9 1 Atopic dermatitis, unspecified
+L30 0 Other and unspecified dermatitis
+L30.9 1 Dermatitis, unspecified
+L40 0 Psoriasis
+L40.0 1 Psoriasis vulgaris
+L50 0 Urticaria
+L50.9 1 Urticaria, unspecified
+L60 0 Nail disorders
+L60.0 1 Ingrowing nail
+L70 0 Acne
+L70.0 1 Acne vulgaris
+L72 0 Follicular cysts of skin and subcutaneous tissue
+L72.0 1 Epidermal cyst
+M06 0 Other rheumatoid arthritis
+M06.9 1 Rheumatoid arthritis, unspecified
+M10 0 Gout
+M10.9 1 Gout, unspecified
+M17 0 Osteoarthritis of knee
+M17.0 1 Bilateral primary osteoarthritis of knee
+M17.1 0 Unilateral primary osteoarthritis of knee
+M17.10 1 Unilateral primary osteoarthritis, unspecified knee
+M17.11 1 Unilateral primary osteoarthritis, right knee
+M17.12 1 Unilateral primary osteoarthritis, left knee
+M17.9 1 Osteoarthritis of knee, unspecified
+M19 0 Other and unspecified osteoarthritis
+M19.9 0 Osteoarthritis, unspecified site
+M19.90 1 Unspecified osteoarthritis, unspecified site
+M25 0 Other joint disorder, not elsewhere classified
+M25.5 0 Pain in joint
+M25.51 0 Pain in shoulder
+M25.511 1 Pain in right shoulder
+M25.512 1 Pain in left shoulder
+M25.519 1 Pain in unspecified shoulder
+M25.56 0 Pain in knee
+M25.561 1 Pain in right knee
+M25.562 1 Pain in left knee
+M25.569 1 Pain in unspecified knee
+M54 0 Dorsalgia
+M54.1 0 Radiculopathy
+M54.16 1 Radiculopathy, lumbar region
+M54.2 1 Cervicalgia
+M54.3 0 Sciatica
+M54.30 1 Sciatica, unspecified side
+M54.31 1 Sciatica, right side
+M54.32 1 Sciatica, left side
+M54.5 0 Low back pain
+M54.50 1 Low back pain, unspecified
+M54.9 1 Dorsalgia, unspecified
+M62 0 Other disorders of muscle
+M62.8 0 Other specified disorders of muscle
+M62.83 0 Muscle spasm
+M62.830 1 Muscle spasm of back
+M77 0 Other enthesopathies
+M77.1 0 Lateral epicondylitis
+M77.10 1 Lateral epicondylitis, unspecified elbow
+M79 0 Other and unspecified soft tissue disorders, not elsewhere classified
+M79.1 0 Myalgia
+M79.10 1 Myalgia, unspecified site
+M79.6 0 Pain in limb, hand, foot, fingers and toes
+M79.60 0 Pain in limb, unspecified
+M79.604 1 Pain in right leg
+M79.605 1 Pain in left leg
+M79.7 1 Fibromyalgia
+M81 0 Osteoporosis without current pathological fracture
+M81.0 1 Age-related osteoporosis without current pathological fracture
+N18 0 Chronic kidney disease (CKD)
+N18.2 1 Chronic kidney disease, stage 2 (mild)
+N18.3 0 Chronic kidney disease, stage 3 (moderate)
+N18.30 1 Chronic kidney disease, stage 3 unspecified
+N18.4 1 Chronic kidney disease, stage 4 (severe)
+N18.9 1 Chronic kidney disease, unspecified
+N20 0 Calculus of kidney and ureter
+N20.0 1 Calculus of kidney
+N30 0 Cystitis
+N30.0 0 Acute cystitis
+N30.00 1 Acute cystitis without hematuria
+N39 0 Other disorders of urinary system
+N39.0 1 Urinary tract infection, site not specified
+N40 0 Benign prostatic hyperplasia
+N40.0 1 Benign prostatic hyperplasia without lower urinary tract symptoms
+N40.1 1 Benign prostatic hyperplasia with lower urinary tract symptoms
+N92 0 Excessive, frequent and irregular menstruation
+N92.0 1 Excessive and frequent menstruation with regular cycle
+N94 0 Pain and other conditions associated with female genital organs and menstrual cycle
+N94.6 1 Dysmenorrhea, unspecified
+N95 0 Menopausal and other perimenopausal disorders
+N95.1 1 Menopausal and female climacteric states
+R00 0 Abnormalities of heart beat
+R00.2 1 Palpitations
+R03 0 Abnormal blood-pressure reading, without diagnosis
+R03.0 1 Elevated blood-pressure reading, without diagnosis of hypertension
+R05 0 Cough
+R05.1 1 Acute cough
+R05.9 1 Cough, unspecified
+R06 0 Abnormalities of breathing
+R06.0 0 Dyspnea
+R06.00 1 Dyspnea, unspecified
+R06.02 1 Shortness of breath
+R07 0 Pain in throat and chest
+R07.0 1 Pain in throat
+R07.8 0 Other chest pain
+R07.89 1 Other chest pain
+R07.9 1 Chest pain, unspecified
+R09 0 Other symptoms and signs involving the circulatory and respiratory system
+R09.8 0 Other specified symptoms and signs involving the circulatory and respiratory systems
+R09.81 1 Nasal congestion
+R10 0 Abdominal and pelvic pain
+R10.1 0 Pain localized to upper abdomen
+R10.13 1 Epigastric pain
+R10.3 0 Pain localized to other parts of lower abdomen
+R10.31 1 Right lower quadrant pain
+R10.8 0 Other abdominal pain
+R10.84 1 Generalized abdominal pain
+R10.9 1 Unspecified abdominal pain
+R11 0 Nausea and vomiting
+R11.0 1 Nausea
+R11.1 0 Vomiting
+R11.10 1 Vomiting, unspecified
+R11.2 1 Nausea with vomiting, unspecified
+R19 0 Other symptoms and signs involving the digestive system and abdomen
+R19.7 1 Diarrhea, unspecified
+R21 1 Rash and other nonspecific skin eruption
+R25 0 Abnormal involuntary movements
+R25.2 1 Cramp and spasm
+R30 0 Pain associated with micturition
+R30.0 1 Dysuria
+R31 0 Hematuria
+R31.9 1 Hematuria, unspecified
+R35 0 Polyuria
+R35.0 1 Frequency of micturition
+R41 0 Other symptoms and signs involving cognitive functions and awareness
+R41.0 1 Disorientation, unspecified
+R41.8 0 Other symptoms and signs involving cognitive functions and awareness
+R41.82 1 Altered mental status, unspecified
+R42 1 Dizziness and giddiness
+R50 0 Fever of other and unknown origin
+R50.9 1 Fever, unspecified
+R51 0 Headache
+R51.0 1 Headache with orthostatic component, not elsewhere classified
+R51.9 1 Headache, unspecified
+R53 0 Malaise and fatigue
+R53.1 1 Weakness
+R53.8 0 Other malaise and fatigue
+R53.81 1 Other malaise
+R53.82 1 Chronic fatigue, unspecified
+R53.83 1 Other fatigue
+R55 1 Syncope and collapse
+R60 0 Edema, not elsewhere classified
+R60.0 1 Localized edema
+R60.9 1 Edema, unspecified
+R63 0 Symptoms and signs concerning food and fluid intake
+R63.4 1 Abnormal weight loss
+R63.5 1 Abnormal weight gain
+R73 0 Elevated blood glucose level
+R73.0 0 Abnormal glucose
+R73.01 1 Impaired fasting glucose
+R73.02 1 Impaired glucose tolerance (oral)
+R73.03 1 Prediabetes
+R73.09 1 Other abnormal glucose
+R73.9 1 Hyperglycemia, unspecified
+S39 0 Other and unspecified injuries of abdomen, lower back, pelvis and external genitals
+S39.0 0 Injury of muscle, fascia and tendon of abdomen, lower back and pelvis
+S39.01 0 Strain of muscle, fascia and tendon of abdomen, lower back and pelvis
+S39.012 0 Strain of muscle, fascia and tendon of lower back
+S39.012A 1 Strain of muscle, fascia and tendon of lower back, initial encounter
+S93 0 Dislocation and sprain of joints and ligaments at ankle, foot and toe level
+S93.4 0 Sprain of ankle
+S93.40 0 Sprain of unspecified ligament of ankle
+S93.401 0 Sprain of unspecified ligament of right ankle
+S93.401A 1 Sprain of unspecified ligament of right ankle, initial encounter
+S93.402 0 Sprain of unspecified ligament of left ankle
+S93.402A 1 Sprain of unspecified ligament of left ankle, initial encounter
+U07 0 Emergency use of U07
+U07.1 1 COVID-19
+W19 0 Unspecified fall
+W19.XXXA 1 Unspecified fall, initial encounter
+Z00 0 Encounter for general examination without complaint, suspected or reported diagnosis
+Z00.0 0 Encounter for general adult medical examination
+Z00.00 1 Encounter for general adult medical examination without abnormal findings
+Z00.01 1 Encounter for general adult medical examination with abnormal findings
+Z00.1 0 Encounter for newborn, infant and child health examinations
+Z00.12 0 Encounter for routine child health examination
+Z00.121 1 Encounter for routine child health examination with abnormal findings
+Z00.129 1 Encounter for routine child health examination without abnormal findings
+Z01 0 Encounter for other special examination without complaint, suspected or reported diagnosis
+Z01.4 0 Encounter for gynecological examination
+Z01.41 0 Encounter for routine gynecological examination
+Z01.419 1 Encounter for gynecological examination (general) (routine) without abnormal findings
+Z09 1 Encounter for follow-up examination after completed treatment for conditions other than malignant neoplasm
+Z12 0 Encounter for screening for malignant neoplasms
+Z12.1 0 Encounter for screening for malignant neoplasm of intestinal tract
+Z12.11 1 Encounter for screening for malignant neoplasm of colon
+Z12.3 0 Encounter for screening for malignant neoplasm of breast
+Z12.31 1 Encounter for screening mammogram for malignant neoplasm of breast
+Z13 0 Encounter for screening for other diseases and disorders
+Z13.1 1 Encounter for screening for diabetes mellitus
+Z23 1 Encounter for immunization
+Z34 0 Encounter for supervision of normal pregnancy
+Z34.9 0 Encounter for supervision of normal pregnancy, unspecified
+Z34.90 1 Encounter for supervision of normal pregnancy, unspecified, unspecified trimester
+Z68 0 Body mass index [BMI]
+Z68.3 0 Body mass index [BMI] 30-39, adult
+Z68.30 1 Body mass index [BMI] 30.0-30.9, adult
+Z68.4 0 Body mass index [BMI] 40 or greater, adult
+Z68.41 1 Body mass index [BMI] 40.0-44.9, adult
+Z71 0 Persons encountering health services for other counseling and medical advice, not elsewhere classified
+Z71.3 1 Dietary counseling and surveillance
+Z72 0 Problems related to lifestyle
+Z72.0 1 Tobacco use
+Z76 0 Persons encountering health services in other circumstances
+Z76.0 1 Encounter for issue of repeat prescription
+Z79 0 Long term (current) drug therapy
+Z79.0 0 Long term (current) use of anticoagulants and antithrombotics/antiplatelets
+Z79.01 1 Long term (current) use of anticoagulants
+Z79.4 1 Long term (current) use of insulin
+Z79.8 0 Other long term (current) drug therapy
+Z79.84 1 Long term (current) use of oral hypoglycemic drugs
+Z79.89 0 Other long term (current) drug therapy
+Z79.899 1 Other long term (current) drug therapy
+Z87 0 Personal history of other diseases and conditions
+Z87.8 0 Personal history of other specified conditions
+Z87.89 0 Personal history of other specified conditions
+Z87.891 1 Personal history of nicotine dependence
+Z88 0 Allergy status to drugs, medicaments and biological substances
+Z88.0 1 Allergy status to penicillin
+`;
@@ -0,0 +1,382 @@
+/**
+ * Medication normalization and reconciliation
+ *
+ * extract-medical-entities returns medications as free text ("Metformin
+ * 500mg PO BID") with doses sometimes split off into separate dosage
+ * entities. They are normalized here to drug name, dose, route and frequency
+ * so one visit's list can be compared with the next: which medications were
+ * started, stopped or changed.
+ *
+ * Dependency-free so the same module runs in edge functions (Deno) and in
+ * the app.
+ */
+
+export interface NormalizedMedication {
+  /** Lower-case generic name, the key medications are matched on */
+  drug_name: string;
+  /** The name as it was said */
+  display_name: string;
+  /** "500 mg", null when not mentioned */
+  dose: string | null;
+  route: string | null;
+  frequency: string | null;
+  /** Entity text the medication was read from */
+  source_text: string;
+  /** Where that entity starts, when the medication was read from extracted entities */
+  source_start?: number;
+}
+
+export type MedicationChangeType = 'started' | 'stopped' | 'changed' | 'unchanged';
+
+export type MedicationField = 'dose' | 'route' | 'frequency';
+
+export interface MedicationChange {
+  drug_name: string;
+  change: MedicationChangeType;
+  previous: NormalizedMedication | null;
+  current: NormalizedMedication | null;
+  /** Fields known at both visits that differ; only set for changed medications */
+  differences: MedicationField[];
+}
+
+/** Entity shape returned by extract-medical-entities */
+export interface ExtractedEntity {
+  text: string;
+  type: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  metadata?: Record<string, unknown>;
+}
+
+const DOSE_PATTERN = /(\d+(?:\.\d+)?)\s*(mg|mcg|µg|g|ml|milligrams?|micrograms?|grams?|millilit(?:er|re)s?|units?|iu|meq|%|puffs?|tabs?|tablets?|capsules?|drops?)(?![\p{L}])/iu;
+
+const DOSE_UNITS: Record<string, string> = {
+  'µg': 'mcg',
+  milligram: 'mg',
+  milligrams: 'mg',
+  microgram: 'mcg',
+  micrograms: 'mcg',
+  gram: 'g',
+  grams: 'g',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  unit: 'units',
+  iu: 'units',
+  meq: 'mEq',
+  puff: 'puffs',
+  tab: 'tablets',
+  tabs: 'tablets',
+  tablet: 'tablets',
+  capsule: 'capsules',
+  drop: 'drops',
+};
+
+/** Spoken and abbreviated routes, most specific first */
+const ROUTES: [RegExp, string][] = [
+  [/\b(po|p\.o\.|by mouth|orally|oral)\b/i, 'oral'],
+  [/\b(iv|i\.v\.|intravenous(ly)?)\b/i, 'intravenous'],
+  [/\b(im|i\.m\.|intramuscular(ly)?)\b/i, 'intramuscular'],
+  [/\b(sc|subq|sub-q|s\.c\.|subcutaneous(ly)?)\b/i, 'subcutaneous'],
+  [/\b(sl|sublingual(ly)?|under the tongue)\b/i, 'sublingual'],
+  [/\b(pr|rectal(ly)?)\b/i, 'rectal'],
+  [/\b(inhaled|inhaler|inh|nebuli[sz]ed)\b/i, 'inhaled'],
+  [/\b(topical(ly)?|cream|ointment)\b/i, 'topical'],
+  [/\b(nasal(ly)?|intranasal)\b/i, 'nasal'],
+  [/\b(transdermal|patch)\b/i, 'transdermal'],
+];
+
+const FREQUENCIES: [RegExp, string][] = [
+  [/\b(q\.?i\.?d\.?|four times (a|per) day|four times daily)\b/i, 'four times daily'],
+  [/\b(t\.?i\.?d\.?|three times (a|per) day|three times daily)\b/i, 'three times daily'],
+  [/\b(b\.?i\.?d\.?|twice (a|per) day|twice daily|two times (a|per) day)\b/i, 'twice daily'],
+  [/\b(q\.?h\.?s\.?|at bedtime|nightly|at night)\b/i, 'at bedtime'],
+  [/\b(q\.?a\.?m\.?|every morning|in the morning)\b/i, 'every morning'],
+  [/\b(q\.?d\.?|o\.?d\.?|once (a|per) day|once daily|daily|every day)\b/i, 'once daily'],
+  [/\b(weekly|once (a|per) week)\b/i, 'weekly'],
+  [/\b(monthly|once (a|per) month)\b/i, 'monthly'],
+  [/\b(p\.?r\.?n\.?|as needed)\b/i, 'as needed'],
+];
+
+/** Words around a drug name that aren't part of it */
+const NAME_NOISE = /\b(tablets?|tabs?|capsules?|caps?|pills?|oral|solution|suspension|injection|er|xr|sr)\b/gi;
+
+/**
+ * Brand and international names of common primary-care drugs, by the generic
+ * name they are matched on, so "Lipitor" at one visit and "atorvastatin" at
+ * the next is the same medication. Combination products keep their own name.
+ */
+const GENERIC_NAMES: Record<string, string> = {
+  // Cardiovascular
+  lipitor: 'atorvastatin',
+  crestor: 'rosuvastatin',
+  zocor: 'simvastatin',
+  pravachol: 'pravastatin',
+  norvasc: 'amlodipine',
+  zestril: 'lisinopril',
+  prinivil: 'lisinopril',
+  vasotec: 'enalapril',
+  altace: 'ramipril',
+  cozaar: 'losartan',
+  diovan: 'valsartan',
+  benicar: 'olmesartan',
+  lopressor: 'metoprolol',
+  toprol: 'metoprolol',
+  'toprol xl': 'metoprolol',
+  tenormin: 'atenolol',
+  coreg: 'carvedilol',
+  lasix: 'furosemide',
+  microzide: 'hydrochlorothiazide',
+  hctz: 'hydrochlorothiazide',
+  aldactone: 'spironolactone',
+  eliquis: 'apixaban',
+  xarelto: 'rivaroxaban',
+  coumadin: 'warfarin',
+  jantoven: 'warfarin',
+  plavix: 'clopidogrel',
+  // Diabetes and endocrine
+  glucophage: 'metformin',
+  januvia: 'sitagliptin',
+  jardiance: 'empagliflozin',
+  farxiga: 'dapagliflozin',
+  ozempic: 'semaglutide',
+  wegovy: 'semaglutide',
+  rybelsus: 'semaglutide',
+  trulicity: 'dulaglutide',
+  mounjaro: 'tirzepatide',
+  lantus: 'insulin glargine',
+  basaglar: 'insulin glargine',
+  levemir: 'insulin detemir',
+  humalog: 'insulin lispro',
+  novolog: 'insulin aspart',
+  synthroid: 'levothyroxine',
+  levoxyl: 'levothyroxine',
+  // Gastrointestinal
+  prilosec: 'omeprazole',
+  nexium: 'esomeprazole',
+  protonix: 'pantoprazole',
+  pepcid: 'famotidine',
+  // Mental health and neurology
+  zoloft: 'sertraline',
+  lexapro: 'escitalopram',
+  celexa: 'citalopram',
+  prozac: 'fluoxetine',
+  paxil: 'paroxetine',
+  wellbutrin: 'bupropion',
+  effexor: 'venlafaxine',
+  cymbalta: 'duloxetine',
+  desyrel: 'trazodone',
+  neurontin: 'gabapentin',
+  lyrica: 'pregabalin',
+  xanax: 'alprazolam',
+  ativan: 'lorazepam',
+  klonopin: 'clonazepam',
+  ambien: 'zolpidem',
+  ritalin: 'methylphenidate',
+  // Pain
+  tylenol: 'acetaminophen',
+  paracetamol: 'acetaminophen',
+  panadol: 'acetaminophen',
+  motrin: 'ibuprofen',
+  advil: 'ibuprofen',
+  aleve: 'naproxen',
+  naprosyn: 'naproxen',
+  ultram: 'tramadol',
+  // Respiratory and allergy
+  ventolin: 'albuterol',
+  proair: 'albuterol',
+  proventil: 'albuterol',
+  salbutamol: 'albuterol',
+  flovent: 'fluticasone',
+  flonase: 'fluticasone',
+  singulair: 'montelukast',
+  zyrtec: 'cetirizine',
+  claritin: 'loratadine',
+  allegra: 'fexofenadine',
+  // Antibiotics and antivirals
+  amoxil: 'amoxicillin',
+  keflex: 'cephalexin',
+  zithromax: 'azithromycin',
+  cipro: 'ciprofloxacin',
+  levaquin: 'levofloxacin',
+  bactrim: 'sulfamethoxazole-trimethoprim',
+  septra: 'sulfamethoxazole-trimethoprim',
+  flagyl: 'metronidazole',
+  macrobid: 'nitrofurantoin',
+  valtrex: 'valacyclovir',
+  // Other
+  deltasone: 'prednisone',
+  medrol: 'methylprednisolone',
+  flomax: 'tamsulosin',
+  proscar: 'finasteride',
+  viagra: 'sildenafil',
+  cialis: 'tadalafil',
+  zyloprim: 'allopurinol',
+  fosamax: 'alendronate',
+};
+
+/** The generic name medications are matched on: "Lipitor" becomes "atorvastatin" */
+export function genericDrugName(name: string): string {
+  const key = name.toLowerCase().replace(/\s+/g, ' ').trim();
+  return GENERIC_NAMES[key] ?? key;
+}
+
+const EVERY_HOURS = /\b(?:q\.?\s?(\d+)\s?h(?:rs?|ours?)?|every (\d+) hours?)\b/i;
+
+/** How far after a medication a dosage entity may start and still belong to it */
+const DOSAGE_WINDOW = 40;
+
+function parseFrequency(text: string): string | null {
+  const hours = text.match(EVERY_HOURS);
+  if (hours) return `every ${hours[1] || hours[2]} hours`;
+  return FREQUENCIES.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+function parseDose(text: string): string | null {
+  const match = text.match(DOSE_PATTERN);
+  if (!match) return null;
+  const unit = match[2].toLowerCase();
+  return `${match[1]} ${DOSE_UNITS[unit] ?? unit}`;
+}
+
+/**
+ * Drug name, dose, route and frequency from a spoken or written medication,
+ * e.g. "Metformin 500mg PO BID". `details` is extra text known to describe
+ * the same medication, such as a separate dosage entity.
+ */
+export function parseMedication(text: string, details = ''): NormalizedMedication | null {
+  const combined = `${text} ${details}`.trim();
+  // The name is what comes before the first number, route or frequency
+  const nameEnd = [/\s\d/, EVERY_HOURS, ...ROUTES.map(([p]) => p), ...FREQUENCIES.map(([p]) => p)]
+    .map(pattern => text.search(pattern))
+    .filter(index => index > 0)
+    .reduce((min, index) => Math.min(min, index), text.length);
+
+  const display_name = text.slice(0, nameEnd).replace(NAME_NOISE, ' ').replace(/[^\p{L}\p{N}\s-]/gu, ' ').replace(/\s+/g, ' ').trim();
+  if (!display_name || /^\d/.test(display_name)) return null;
+
+  return {
+    drug_name: genericDrugName(display_name),
+    display_name,
+    dose: parseDose(combined),
+    route: ROUTES.find(([pattern]) => pattern.test(combined))?.[1] ?? null,
+    frequency: parseFrequency(combined),
+    source_text: text,
+  };
+}
+
+const knownFields = (medication: NormalizedMedication) =>
+  (['dose', 'route', 'frequency'] as const).filter(field => medication[field] !== null).length;
+
+/**
+ * Place extracted entities on the original text. The model's offsets refer
+ * to the de-identified text, so each entity is looked up again; repeated
+ * mentions take successive occurrences, in the order the model gave them,
+ * rather than all landing on the first. Entities not found keep their offsets.
+ */
+export function anchorEntities<T extends ExtractedEntity>(text: string, entities: T[]): T[] {
+  const anchored = [...entities];
+  // Next search position per type and text
+  const cursors = new Map<string, number>();
+  const order = entities
+    .map((_, index) => index)
+    .sort((a, b) => (Number(entities[a].start) || 0) - (Number(entities[b].start) || 0) || a - b);
+
+  for (const index of order) {
+    const entity = entities[index];
+    if (!entity.text) continue;
+    const key = `${entity.type}:${entity.text}`;
+    const start = text.indexOf(entity.text, cursors.get(key) ?? 0);
+    if (start < 0) continue;
+    cursors.set(key, start + entity.text.length);
+    anchored[index] = { ...entity, start, end: start + entity.text.length };
+  }
+  return anchored;
+}
+
+/**
+ * The medications among extracted entities, one per drug, each with the
+ * offset of the mention it was read from. Dosage entities
+ * are attached to the medication just before them, and any dose, route or
+ * frequency the model put in the entity's metadata is used as well.
+ */
+export function normalizeMedicationEntities(entities: ExtractedEntity[]): NormalizedMedication[] {
+  const sorted = [...entities].sort((a, b) => a.start - b.start);
+  const byDrug = new Map<string, NormalizedMedication>();
+
+  sorted.forEach((entity, index) => {
+    if (entity.type !== 'medication') return;
+
+    const details: string[] = [];
+    for (const next of sorted.slice(index + 1)) {
+      if (next.type === 'medication' || next.start - entity.end > DOSAGE_WINDOW) break;
+      if (next.type === 'dosage') details.push(next.text);
+    }
+    for (const key of ['dose', 'dosage', 'route', 'frequency']) {
+      const value = entity.metadata?.[key];
+      if (typeof value === 'string') details.push(value);
+    }
+
+    const parsed = parseMedication(entity.text, details.join(' '));
+    if (!parsed) return;
+    const medication = { ...parsed, source_start: entity.start };
+
+    // The same drug mentioned twice keeps the mention with the most detail
+    const existing = byDrug.get(medication.drug_name);
+    if (!existing || knownFields(medication) > knownFields(existing)) {
+      byDrug.set(medication.drug_name, medication);
+    }
+  });
+
+  return [...byDrug.values()];
+}
+
+const CHANGE_ORDER: Record<MedicationChangeType, number> = { started: 0, changed: 1, stopped: 2, unchanged: 3 };
+
+/**
+ * Compare the previous visit's medications with this visit's, by generic
+ * name (drug names stored before brand names were mapped are mapped here).
+ * A field only counts as changed when it was recorded at both visits, since
+ * a dose that wasn't mentioned again usually didn't change.
+ */
+export function reconcileMedications(
+  previous: NormalizedMedication[],
+  current: NormalizedMedication[]
+): MedicationChange[] {
+  const before = new Map(previous.map(medication => [genericDrugName(medication.drug_name), medication]));
+  const after = new Map(current.map(medication => [genericDrugName(medication.drug_name), medication]));
+  const changes: MedicationChange[] = [];
+
+  for (const [drug_name, medication] of after) {
+    const prior = before.get(drug_name);
+    if (!prior) {
+      changes.push({ drug_name, change: 'started', previous: null, current: medication, differences: [] });
+      continue;
+    }
+    const differences = (['dose', 'route', 'frequency'] as const).filter(
+      field => prior[field] !== null && medication[field] !== null && prior[field] !== medication[field]
+    );
+    changes.push({
+      drug_name,
+      change: differences.length > 0 ? 'changed' : 'unchanged',
+      previous: prior,
+      current: medication,
+      differences,
+    });
+  }
+
+  for (const [drug_name, medication] of before) {
+    if (!after.has(drug_name)) {
+      changes.push({ drug_name, change: 'stopped', previous: medication, current: null, differences: [] });
+    }
+  }
+
+  return changes.sort((a, b) => CHANGE_ORDER[a.change] - CHANGE_ORDER[b.change] || a.drug_name.localeCompare(b.drug_name));
+}
+
+/** "500 mg · oral · twice daily" */
+export function describeMedication(medication: Pick<NormalizedMedication, 'dose' | 'route' | 'frequency'>): string {
+  return [medication.dose, medication.route, medication.frequency].filter(Boolean).join(' · ');
+}
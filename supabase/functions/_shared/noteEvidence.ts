@@ -0,0 +1,230 @@
+/**
+ * Note evidence - links note sentences to the transcript segments behind them
+ *
+ * The model is shown the session_transcripts segments under short labels
+ * ([S1], [S2], ...) and asked to cite the labels supporting each sentence it
+ * writes. Citations are matched back to the sentences of the final note and
+ * mapped to segment ids; sentences the model did not cite fall back to word
+ * overlap with the transcript. A sentence with neither is unsupported and is
+ * flagged in the editor as a possible hallucination.
+ *
+ * Dependency-free apart from the other shared modules, so it runs in edge
+ * functions (Deno), in the web app and in tests.
+ */
+
+import { sectionKeyFromTitle } from './noteTemplate.ts';
+
+export interface EvidenceSegment {
+  id: string;
+  speaker: string;
+  text: string;
+}
+
+export type EvidenceSource = 'model' | 'overlap' | 'none';
+
+export interface SentenceEvidence {
+  section: string;
+  text: string;
+  segment_ids: string[];
+  source: EvidenceSource;
+}
+
+export interface NoteEvidence {
+  sentences: SentenceEvidence[];
+}
+
+/** Segments shown to the model, oldest first; longer transcripts are cut at the start */
+export const MAX_PROMPT_SEGMENT_CHARS = 60_000;
+
+/** Share of a sentence's content words a segment must contain to support it */
+export const MIN_OVERLAP_SUPPORT = 0.5;
+
+/** Segments kept per sentence when matching by overlap */
+const MAX_OVERLAP_SEGMENTS = 2;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'was', 'were', 'are', 'has', 'have', 'had', 'not', 'but',
+  'from', 'his', 'her', 'she', 'him', 'they', 'them', 'their', 'you', 'your', 'our', 'who', 'which',
+  'will', 'would', 'should', 'can', 'could', 'been', 'being', 'also', 'any', 'all', 'into', 'over',
+  'per', 'due', 'patient', 'patients', 'reports', 'reported', 'states', 'stated', 'notes', 'noted',
+  'denies', 'doctor', 'there', 'some', 'about', 'than', 'then', 'its', 'did', 'does', 'none', 'nil',
+]);
+
+export const segmentLabel = (index: number) => `S${index + 1}`;
+
+/**
+ * Split note text into sentences. Newlines always end a sentence; list
+ * markers and surrounding whitespace are dropped.
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split('\n')
+    .flatMap(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').split(/(?<=[.!?])\s+(?=["'(]?[A-Z0-9])/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Every sentence of the note, section by section
+ */
+export function noteSentences(sections: Record<string, unknown>): Array<{ section: string; text: string }> {
+  const sentences: Array<{ section: string; text: string }> = [];
+  for (const [section, value] of Object.entries(sections)) {
+    const items = Array.isArray(value) ? value : [value];
+    for (const item of items) {
+      if (typeof item !== 'string') continue;
+      splitSentences(item).forEach(text => sentences.push({ section, text }));
+    }
+  }
+  return sentences;
+}
+
+/**
+ * Lowercased content words, without punctuation or stopwords
+ */
+export function contentWords(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return new Set(words.filter(word => (word.length > 2 || /\d/.test(word)) && !STOPWORDS.has(word)));
+}
+
+/** Normalized form used to recognize the same sentence after small edits */
+export const sentenceKey = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+function similarity(a: string, b: string): number {
+  const left = contentWords(a);
+  const right = contentWords(b);
+  if (left.size === 0 || right.size === 0) return sentenceKey(a) === sentenceKey(b) ? 1 : 0;
+  let shared = 0;
+  left.forEach(word => { if (right.has(word)) shared++; });
+  return shared / Math.max(left.size, right.size);
+}
+
+/**
+ * Transcript segments as they are shown to the model, keeping the most
+ * recent ones when the transcript is too long
+ */
+export function formatSegmentsForPrompt(segments: EvidenceSegment[], maxChars = MAX_PROMPT_SEGMENT_CHARS): string {
+  const lines = segments.map((segment, index) =>
+    `[${segmentLabel(index)}] ${segment.speaker.charAt(0).toUpperCase()}${segment.speaker.slice(1)}: ${segment.text.trim()}`
+  );
+  let total = 0;
+  let first = lines.length;
+  while (first > 0 && total + lines[first - 1].length + 1 <= maxChars) {
+    total += lines[first - 1].length + 1;
+    first--;
+  }
+  return lines.slice(first).join('\n');
+}
+
+interface Citation {
+  section: string;
+  sentence: string;
+  segment_ids: string[];
+}
+
+/**
+ * Read the model's "evidence" array, keeping only labels of real segments
+ */
+function parseCitations(raw: unknown, segments: EvidenceSegment[]): Citation[] {
+  if (!Array.isArray(raw)) return [];
+  const byLabel = new Map(segments.map((segment, index) => [segmentLabel(index), segment.id]));
+
+  return raw.flatMap(entry => {
+    if (typeof entry !== 'object' || entry === null) return [];
+    const { section, sentence, segments: labels } = entry as Record<string, unknown>;
+    if (typeof sentence !== 'string' || !Array.isArray(labels)) return [];
+    const ids = labels
+      .map(label => byLabel.get(String(label).replace(/[[\]\s]/g, '').toUpperCase()))
+      .filter((id): id is string => !!id);
+    return [{
+      section: typeof section === 'string' ? sectionKeyFromTitle(section) : '',
+      sentence,
+      segment_ids: [...new Set(ids)],
+    }];
+  });
+}
+
+/**
+ * Segments sharing most of the sentence's content words, best first
+ */
+export function findOverlappingSegments(sentence: string, segments: EvidenceSegment[]): string[] {
+  const words = contentWords(sentence);
+  if (words.size === 0) return [];
+
+  return segments
+    .map(segment => {
+      const segmentWords = contentWords(segment.text);
+      let shared = 0;
+      words.forEach(word => { if (segmentWords.has(word)) shared++; });
+      return { id: segment.id, score: shared / words.size };
+    })
+    .filter(match => match.score >= MIN_OVERLAP_SUPPORT)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_OVERLAP_SEGMENTS)
+    .map(match => match.id);
+}
+
+/**
+ * Evidence for every sentence of the note. Sentences without content words
+ * ("None.") are left out; they can't be checked either way.
+ */
+export function buildNoteEvidence(
+  sections: Record<string, unknown>,
+  segments: EvidenceSegment[],
+  rawCitations: unknown
+): NoteEvidence {
+  const citations = parseCitations(rawCitations, segments);
+
+  const sentences = noteSentences(sections)
+    .filter(sentence => contentWords(sentence.text).size > 0)
+    .map(({ section, text }): SentenceEvidence => {
+      let best: Citation | null = null;
+      let bestScore = 0.6;
+      for (const citation of citations) {
+        if (citation.section && citation.section !== section) continue;
+        const score = similarity(citation.sentence, text);
+        if (score >= bestScore) {
+          best = citation;
+          bestScore = score;
+        }
+      }
+      if (best && best.segment_ids.length > 0) {
+        return { section, text, segment_ids: best.segment_ids, source: 'model' };
+      }
+
+      const overlapping = findOverlappingSegments(text, segments);
+      return overlapping.length > 0
+        ? { section, text, segment_ids: overlapping, source: 'overlap' }
+        : { section, text, segment_ids: [], source: 'none' };
+    });
+
+  return { sentences };
+}
+
+/**
+ * Evidence recorded for a sentence as it is displayed, or null when the
+ * sentence was edited after generation and has no record
+ */
+export function findSentenceEvidence(
+  evidence: NoteEvidence | null | undefined,
+  section: string,
+  text: string
+): SentenceEvidence | null {
+  if (!evidence?.sentences) return null;
+  const key = sentenceKey(text);
+  return evidence.sentences.find(s => s.section === section && sentenceKey(s.text) === key) ?? null;
+}
+
+/**
+ * Read the note_evidence column of a session
+ */
+export function parseNoteEvidence(value: unknown): NoteEvidence | null {
+  if (typeof value !== 'object' || value === null || !Array.isArray((value as NoteEvidence).sentences)) return null;
+  const sentences = (value as NoteEvidence).sentences.filter(s =>
+    typeof s === 'object' && s !== null &&
+    typeof s.section === 'string' &&
+    typeof s.text === 'string' &&
+    Array.isArray(s.segment_ids)
+  );
+  return { sentences };
+}
@@ -0,0 +1,384 @@
+/**
+ * Note template schema
+ *
+ * A template is an ordered list of typed sections. Each section carries its
+ * own instructions, a required/optional flag, an output style (bullet list or
+ * prose) and optionally a condition deciding whether it belongs in the note.
+ * Older templates stored free-form JSON in templates.structure; those are
+ * upgraded on read by normalizeTemplateStructure.
+ *
+ * Dependency-free so the same module runs in edge functions (Deno) and in the
+ * web app (re-exported from src/lib/noteTemplates.ts).
+ */
+
+export const TEMPLATE_SCHEMA_VERSION = 1;
+
+export type DetailLevel = 'low' | 'medium' | 'high';
+
+export type TemplateSectionStyle = 'bullets' | 'prose';
+
+export type TemplateSectionCondition =
+  /** Include only when the encounter actually covers the section's topic */
+  | { type: 'discussed' }
+  /** Include only when the transcript mentions one of the keywords */
+  | { type: 'keywords'; keywords: string[] }
+  /** Include only at the listed detail levels */
+  | { type: 'detail_level'; levels: DetailLevel[] };
+
+export interface TemplateSection {
+  key: string;
+  title: string;
+  instructions: string;
+  required: boolean;
+  style: TemplateSectionStyle;
+  condition?: TemplateSectionCondition;
+}
+
+export interface NoteTemplateSchema {
+  version: typeof TEMPLATE_SCHEMA_VERSION;
+  sections: TemplateSection[];
+  /** Template-wide guidance added to every generation prompt */
+  instructions?: string;
+}
+
+export interface TemplateSchemaError {
+  path: string;
+  message: string;
+}
+
+export type TemplateValidationResult =
+  | { valid: true; schema: NoteTemplateSchema; errors: [] }
+  | { valid: false; errors: TemplateSchemaError[] };
+
+export type BuiltInTemplateKey = 'soap' | 'hpi' | 'progress' | 'discharge';
+
+export const SECTION_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+export const MAX_SECTIONS = 30;
+export const MAX_TITLE_LENGTH = 80;
+export const MAX_INSTRUCTIONS_LENGTH = 1000;
+
+const STYLES: TemplateSectionStyle[] = ['bullets', 'prose'];
+const DETAIL_LEVELS: DetailLevel[] = ['low', 'medium', 'high'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function sectionKeyFromTitle(title: string): string {
+  const key = title
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '');
+  return key || 'section';
+}
+
+export function sectionTitleFromKey(key: string): string {
+  return key
+    .split('_')
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function validateCondition(condition: unknown, path: string, errors: TemplateSchemaError[]) {
+  if (!isRecord(condition)) {
+    errors.push({ path, message: 'Condition must be an object' });
+    return;
+  }
+
+  switch (condition.type) {
+    case 'discussed':
+      return;
+    case 'keywords': {
+      const keywords = condition.keywords;
+      if (!Array.isArray(keywords) || keywords.length === 0) {
+        errors.push({ path: `${path}.keywords`, message: 'List at least one keyword' });
+      } else if (keywords.some(k => typeof k !== 'string' || !k.trim())) {
+        errors.push({ path: `${path}.keywords`, message: 'Keywords must be non-empty text' });
+      }
+      return;
+    }
+    case 'detail_level': {
+      const levels = condition.levels;
+      if (!Array.isArray(levels) || levels.length === 0) {
+        errors.push({ path: `${path}.levels`, message: 'Select at least one detail level' });
+      } else if (levels.some(l => !DETAIL_LEVELS.includes(l as DetailLevel))) {
+        errors.push({ path: `${path}.levels`, message: `Detail levels must be one of ${DETAIL_LEVELS.join(', ')}` });
+      }
+      return;
+    }
+    default:
+      errors.push({ path: `${path}.type`, message: 'Condition type must be discussed, keywords or detail_level' });
+  }
+}
+
+/**
+ * Check a template structure against the schema. Returns every problem found
+ * rather than stopping at the first so the editor can flag them all at once.
+ */
+export function validateTemplateSchema(value: unknown): TemplateValidationResult {
+  const errors: TemplateSchemaError[] = [];
+
+  if (!isRecord(value)) {
+    return { valid: false, errors: [{ path: '', message: 'Template structure must be an object' }] };
+  }
+  if (value.version !== TEMPLATE_SCHEMA_VERSION) {
+    errors.push({ path: 'version', message: `Unsupported template version; expected ${TEMPLATE_SCHEMA_VERSION}` });
+  }
+  if (value.instructions !== undefined && typeof value.instructions !== 'string') {
+    errors.push({ path: 'instructions', message: 'Template instructions must be text' });
+  }
+
+  const sections = value.sections;
+  if (!Array.isArray(sections) || sections.length === 0) {
+    errors.push({ path: 'sections', message: 'Add at least one section' });
+    return { valid: false, errors };
+  }
+  if (sections.length > MAX_SECTIONS) {
+    errors.push({ path: 'sections', message: `Templates can have at most ${MAX_SECTIONS} sections` });
+  }
+
+  const seen = new Set<string>();
+  sections.forEach((section, index) => {
+    const path = `sections[${index}]`;
+    if (!isRecord(section)) {
+      errors.push({ path, message: 'Section must be an object' });
+      return;
+    }
+
+    if (typeof section.key !== 'string' || !SECTION_KEY_PATTERN.test(section.key)) {
+      errors.push({ path: `${path}.key`, message: 'Key must start with a letter and use only lowercase letters, digits and underscores' });
+    } else if (seen.has(section.key)) {
+      errors.push({ path: `${path}.key`, message: `Duplicate section key "${section.key}"` });
+    } else {
+      seen.add(section.key);
+    }
+
+    if (typeof section.title !== 'string' || !section.title.trim()) {
+      errors.push({ path: `${path}.title`, message: 'Title is required' });
+    } else if (section.title.length > MAX_TITLE_LENGTH) {
+      errors.push({ path: `${path}.title`, message: `Title must be at most ${MAX_TITLE_LENGTH} characters` });
+    }
+
+    if (typeof section.instructions !== 'string') {
+      errors.push({ path: `${path}.instructions`, message: 'Instructions must be text' });
+    } else if (section.instructions.length > MAX_INSTRUCTIONS_LENGTH) {
+      errors.push({ path: `${path}.instructions`, message: `Instructions must be at most ${MAX_INSTRUCTIONS_LENGTH} characters` });
+    }
+
+    if (typeof section.required !== 'boolean') {
+      errors.push({ path: `${path}.required`, message: 'Required must be true or false' });
+    }
+    if (!STYLES.includes(section.style as TemplateSectionStyle)) {
+      errors.push({ path: `${path}.style`, message: 'Style must be bullets or prose' });
+    }
+
+    if (section.condition !== undefined) {
+      validateCondition(section.condition, `${path}.condition`, errors);
+      if (section.required === true) {
+        errors.push({ path: `${path}.condition`, message: 'Conditional sections cannot be required' });
+      }
+    }
+  });
+
+  if (errors.length > 0) return { valid: false, errors };
+  return { valid: true, schema: value as unknown as NoteTemplateSchema, errors: [] };
+}
+
+function describeLegacyValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.filter(v => typeof v === 'string').join('; ');
+  if (isRecord(value)) {
+    return Object.entries(value)
+      .map(([key, sub]) => {
+        const detail = describeLegacyValue(sub);
+        return detail ? `${sectionTitleFromKey(key)}: ${detail}` : sectionTitleFromKey(key);
+      })
+      .join('; ');
+  }
+  return '';
+}
+
+/**
+ * Read templates.structure in any of its historical shapes:
+ *  - the current schema ({ version, sections: TemplateSection[] })
+ *  - a list of section titles ({ sections: ["Subjective", ...] })
+ *  - a map of section key to description ({ subjective: "...", ... })
+ * Returns null when nothing usable is stored.
+ */
+export function normalizeTemplateStructure(structure: unknown): NoteTemplateSchema | null {
+  if (!isRecord(structure)) return null;
+
+  if (structure.version === TEMPLATE_SCHEMA_VERSION) {
+    const result = validateTemplateSchema(structure);
+    return result.valid ? result.schema : null;
+  }
+
+  const sections: TemplateSection[] = [];
+  const addSection = (key: string, title: string, instructions: string) => {
+    let unique = key;
+    for (let n = 2; sections.some(s => s.key === unique); n++) unique = `${key}_${n}`;
+    sections.push({ key: unique, title, instructions, required: true, style: 'bullets' });
+  };
+
+  if (Array.isArray(structure.sections)) {
+    for (const title of structure.sections) {
+      if (typeof title === 'string' && title.trim()) {
+        addSection(sectionKeyFromTitle(title), title.trim(), '');
+      }
+    }
+  } else {
+    for (const [key, value] of Object.entries(structure)) {
+      const normalizedKey = sectionKeyFromTitle(key);
+      addSection(normalizedKey, sectionTitleFromKey(normalizedKey), describeLegacyValue(value));
+    }
+  }
+
+  if (sections.length === 0) return null;
+  return { version: TEMPLATE_SCHEMA_VERSION, sections: sections.slice(0, MAX_SECTIONS) };
+}
+
+function section(
+  key: string,
+  title: string,
+  instructions: string,
+  extra: Partial<TemplateSection> = {}
+): TemplateSection {
+  return { key, title, instructions, required: true, style: 'bullets', ...extra };
+}
+
+export const BUILT_IN_TEMPLATES: Record<BuiltInTemplateKey, { name: string; schema: NoteTemplateSchema }> = {
+  soap: {
+    name: 'SOAP Note',
+    schema: {
+      version: TEMPLATE_SCHEMA_VERSION,
+      sections: [
+        section('subjective', 'Subjective', 'Chief complaint, HPI, ROS, relevant history'),
+        section('objective', 'Objective', 'Vital signs, physical exam findings, test results'),
+        section('assessment', 'Assessment', 'Diagnoses, clinical impressions, differential diagnoses'),
+        section('plan', 'Plan', 'Treatment plan, medications, follow-up, patient education, discharge instructions'),
+      ],
+    },
+  },
+  hpi: {
+    name: 'HPI + Assessment + Plan',
+    schema: {
+      version: TEMPLATE_SCHEMA_VERSION,
+      sections: [
+        section('hpi', 'History of Present Illness', 'History of Present Illness with timeline, relevant positives and negatives', { style: 'prose' }),
+        section('physical_exam', 'Physical Exam', 'Physical examination findings organized by system'),
+        section('assessment', 'Assessment', 'Clinical assessment, probable diagnosis, differential diagnoses'),
+        section('plan', 'Plan', 'Diagnostic workup, treatment plan, medications, referrals, patient education'),
+      ],
+    },
+  },
+  progress: {
+    name: 'Progress Note',
+    schema: {
+      version: TEMPLATE_SCHEMA_VERSION,
+      sections: [
+        section('interval_history', 'Interval History', 'Changes since last visit, response to treatment', { style: 'prose' }),
+        section('current_status', 'Current Status', 'Current symptoms, vital signs, functional status'),
+        section('assessment', 'Assessment', 'Updated clinical assessment'),
+        section('plan', 'Plan', 'Changes to treatment plan, new orders, follow-up'),
+      ],
+    },
+  },
+  discharge: {
+    name: 'Discharge Summary',
+    schema: {
+      version: TEMPLATE_SCHEMA_VERSION,
+      sections: [
+        section('admission_diagnosis', 'Admission Diagnosis', 'Reason for admission'),
+        section('hospital_course', 'Hospital Course', 'Summary of hospital stay, procedures, complications', { style: 'prose' }),
+        section('discharge_diagnosis', 'Discharge Diagnosis', 'Final diagnoses'),
+        section('discharge_medications', 'Discharge Medications', 'Medication list with instructions'),
+        section('follow_up', 'Follow-up', 'Follow-up appointments, recommendations, patient instructions'),
+      ],
+    },
+  },
+};
+
+export interface TemplateResolutionContext {
+  transcript: string;
+  detail_level: DetailLevel;
+}
+
+/**
+ * Drop sections whose condition can be decided before generation (keywords,
+ * detail level). "discussed" sections stay in and are left to the model.
+ */
+export function resolveTemplateSections(
+  schema: NoteTemplateSchema,
+  context: TemplateResolutionContext
+): TemplateSection[] {
+  const transcript = context.transcript.toLowerCase();
+  return schema.sections.filter(s => {
+    switch (s.condition?.type) {
+      case 'keywords':
+        return s.condition.keywords.some(k => transcript.includes(k.trim().toLowerCase()));
+      case 'detail_level':
+        return s.condition.levels.includes(context.detail_level);
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * Prompt fragment describing the sections to write and the JSON shape of the
+ * "sections" object, for splicing into a note generation prompt.
+ */
+export function buildTemplatePromptSpec(sections: TemplateSection[], instructions?: string): {
+  guidance: string;
+  jsonShape: string;
+} {
+  const lines = sections.map((s, index) => {
+    const rules = [
+      s.required ? 'REQUIRED' : 'OPTIONAL - omit the key if the encounter does not cover it',
+      s.style === 'bullets' ? 'array of short bullet strings' : 'a single prose paragraph string',
+    ];
+    if (s.condition?.type === 'discussed') rules.push('include only if this topic was actually discussed');
+    const detail = s.instructions.trim() ? `: ${s.instructions.trim()}` : '';
+    return `${index + 1}. "${s.key}" (${s.title}) [${rules.join('; ')}]${detail}`;
+  });
+
+  const guidance = [
+    'TEMPLATE SECTIONS (use exactly these keys, in this order):',
+    ...lines,
+    ...(instructions?.trim() ? ['', `TEMPLATE INSTRUCTIONS: ${instructions.trim()}`] : []),
+  ].join('\n');
+
+  const jsonShape = sections
+    .map(s => `    "${s.key}": ${s.style === 'bullets' ? `["${s.title} point", "..."]` : `"${s.title} paragraph"`}`)
+    .join(',\n');
+
+  return { guidance, jsonShape };
+}
+
+/** Section that records what changed since the patient's last visit */
+export const INTERVAL_HISTORY_SECTION = 'interval_history';
+
+/** Longest prior-visit context accepted with a note request, in characters */
+export const MAX_PRIOR_VISITS_LENGTH = 12000;
+
+/**
+ * Whether a note with these sections is written against the patient's
+ * earlier visits: follow-up templates such as the progress note
+ */
+export function usesPriorVisits(sections: TemplateSection[]): boolean {
+  return sections.some(s => s.key === INTERVAL_HISTORY_SECTION);
+}
+
+/**
+ * Prompt fragment with the patient's earlier visits, for templates that
+ * write an interval history. The visits are context only; today's note is
+ * still written from today's transcript.
+ */
+export function buildPriorVisitGuidance(priorVisits: string): string {
+  return `PRIOR VISITS (same patient, most recent first; context only, not part of today's transcript):
+${priorVisits.slice(0, MAX_PRIOR_VISITS_LENGTH)}
+
+Write "${INTERVAL_HISTORY_SECTION}" as what changed since the most recent prior visit: new, resolved or worsening problems, response to treatment, medication changes and what became of open tasks, naming the prior visit by date. Facts from prior visits are not findings of today's encounter: keep them out of the other sections unless the transcript restates them, and cite no transcript segments for statements about earlier visits.`;
+}
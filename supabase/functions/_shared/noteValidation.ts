@@ -0,0 +1,297 @@
+/**
+ * Structured note validation and repair
+ *
+ * Checks model output against the sections of the template it was generated
+ * from: unparseable or truncated JSON, missing required sections, values of
+ * the wrong type and section keys the template does not define. Whatever can
+ * be fixed locally is fixed here; missing required sections are returned so
+ * the caller can re-ask the model for just those.
+ *
+ * Dependency-free apart from the other shared modules, so it runs in edge
+ * functions (Deno) and in tests.
+ */
+
+import { buildTemplatePromptSpec, sectionKeyFromTitle, type TemplateSection } from './noteTemplate.ts';
+import { parsePartialJson } from './partialJson.ts';
+
+export type NoteIssueCode =
+  | 'invalid_json'
+  | 'truncated_json'
+  | 'missing_section'
+  | 'empty_section'
+  | 'wrong_type'
+  | 'unknown_section'
+  | 'missing_plaintext';
+
+export interface NoteIssue {
+  code: NoteIssueCode;
+  section?: string;
+  message: string;
+  /** Fixed locally; unrepaired issues need another model pass */
+  repaired: boolean;
+}
+
+export type NoteSectionValue = string | string[];
+
+export interface StructuredNote {
+  template_id?: string;
+  sections: Record<string, NoteSectionValue>;
+  plaintext: string;
+}
+
+export interface NoteValidationOutcome {
+  valid: boolean;
+  issues: NoteIssue[];
+  reasked_sections: string[];
+  remaining: NoteIssue[];
+}
+
+/** Targeted re-asks allowed per generation */
+export const MAX_SECTION_REASKS = 1;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Best-effort JSON repair: skips code fences and surrounding prose, escapes
+ * raw newlines inside strings, drops trailing commas and closes a truncated
+ * document at the last complete value. Returns null when nothing parses.
+ */
+export function repairJson(raw: string): { value: unknown; truncated: boolean } | null {
+  const parsed = parsePartialJson(raw);
+  return parsed ? { value: parsed.value, truncated: !parsed.complete } : null;
+}
+
+/**
+ * Parse raw model output, repairing it locally when plain JSON.parse fails
+ */
+export function parseNoteOutput(raw: string): { value: unknown; issues: NoteIssue[] } {
+  try {
+    return { value: JSON.parse(raw.trim()), issues: [] };
+  } catch {
+    // fall through to repair
+  }
+
+  const repaired = repairJson(raw);
+  if (!repaired) {
+    return {
+      value: null,
+      issues: [{ code: 'invalid_json', message: 'Model output is not valid JSON', repaired: false }],
+    };
+  }
+
+  return {
+    value: repaired.value,
+    issues: [
+      repaired.truncated
+        ? { code: 'truncated_json', message: 'Model output was cut off; closed at the last complete value', repaired: true }
+        : { code: 'invalid_json', message: 'Model output needed JSON clean-up', repaired: true },
+    ],
+  };
+}
+
+function toText(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean).join('; ');
+  if (isRecord(value)) {
+    return Object.entries(value)
+      .map(([key, sub]) => {
+        const text = toText(sub);
+        return text ? `${key.replace(/_/g, ' ')}: ${text}` : '';
+      })
+      .filter(Boolean)
+      .join('; ');
+  }
+  return '';
+}
+
+function toBullets(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value
+      .split(/\n+/)
+      .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+      .filter(Boolean);
+  }
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean);
+  if (isRecord(value)) {
+    return Object.entries(value)
+      .map(([key, sub]) => {
+        const text = toText(sub);
+        return text ? `${key.replace(/_/g, ' ')}: ${text}` : '';
+      })
+      .filter(Boolean);
+  }
+  const text = toText(value);
+  return text ? [text] : [];
+}
+
+function coerceSection(value: unknown, section: TemplateSection): { value: NoteSectionValue; changed: boolean } {
+  if (section.style === 'bullets') {
+    const bullets = toBullets(value);
+    const changed = !Array.isArray(value) || value.some(item => typeof item !== 'string');
+    return { value: bullets, changed };
+  }
+  return { value: toText(value), changed: typeof value !== 'string' };
+}
+
+function isEmpty(value: NoteSectionValue): boolean {
+  return Array.isArray(value) ? value.length === 0 : !value.trim();
+}
+
+/**
+ * Render sections as the plaintext note, in template order
+ */
+export function renderNotePlaintext(sections: Record<string, NoteSectionValue>, template: TemplateSection[]): string {
+  return template
+    .filter(section => sections[section.key] !== undefined && !isEmpty(sections[section.key]))
+    .map(section => {
+      const value = sections[section.key];
+      const body = Array.isArray(value) ? value.map(item => `- ${item}`).join('\n') : value;
+      return `${section.title.toUpperCase()}:\n${body}`;
+    })
+    .join('\n\n');
+}
+
+function findSection(key: string, template: TemplateSection[]): TemplateSection | undefined {
+  const normalized = sectionKeyFromTitle(key);
+  return (
+    template.find(s => s.key === key) ||
+    template.find(s => s.key === normalized || sectionKeyFromTitle(s.title) === normalized)
+  );
+}
+
+/**
+ * Validate a parsed note against its template sections and fix what can be
+ * fixed locally. Missing or empty required sections are reported unrepaired.
+ */
+export function normalizeNoteOutput(
+  value: unknown,
+  template: TemplateSection[]
+): { note: StructuredNote; issues: NoteIssue[] } {
+  const issues: NoteIssue[] = [];
+  const sections: Record<string, NoteSectionValue> = {};
+  const root = isRecord(value) ? value : {};
+
+  let rawSections: unknown = root.sections ?? root.soap;
+  if (rawSections === undefined && template.some(s => s.key in root)) {
+    // Sections returned at the top level instead of under "sections"
+    rawSections = Object.fromEntries(Object.entries(root).filter(([key]) => key !== 'plaintext' && key !== 'template_id'));
+  }
+
+  if (rawSections !== undefined && !isRecord(rawSections)) {
+    issues.push({ code: 'wrong_type', section: 'sections', message: '"sections" is not an object', repaired: false });
+  }
+
+  for (const [key, raw] of Object.entries(isRecord(rawSections) ? rawSections : {})) {
+    const section = findSection(key, template);
+    if (!section) {
+      issues.push({ code: 'unknown_section', section: key, message: `Section "${key}" is not in the template; dropped`, repaired: true });
+      continue;
+    }
+    if (raw === null || raw === undefined) continue;
+
+    const coerced = coerceSection(raw, section);
+    if (coerced.changed) {
+      issues.push({
+        code: 'wrong_type',
+        section: section.key,
+        message: `Section "${section.key}" should be ${section.style === 'bullets' ? 'a list of bullet points' : 'prose text'}; converted`,
+        repaired: true,
+      });
+    }
+    if (!isEmpty(coerced.value)) {
+      const existing = sections[section.key];
+      sections[section.key] = existing === undefined
+        ? coerced.value
+        : Array.isArray(existing)
+          ? [...existing, ...(coerced.value as string[])]
+          : `${existing} ${coerced.value}`;
+    }
+  }
+
+  for (const section of template) {
+    if (!section.required || sections[section.key] !== undefined) continue;
+    const present = isRecord(rawSections) && Object.keys(rawSections).some(key => findSection(key, template) === section);
+    issues.push({
+      code: present ? 'empty_section' : 'missing_section',
+      section: section.key,
+      message: present ? `Required section "${section.key}" is empty` : `Required section "${section.key}" is missing`,
+      repaired: false,
+    });
+  }
+
+  let plaintext = typeof root.plaintext === 'string' ? root.plaintext.trim() : '';
+  if (!plaintext) {
+    plaintext = renderNotePlaintext(sections, template);
+    issues.push({ code: 'missing_plaintext', message: 'Plaintext note was missing; rendered from sections', repaired: true });
+  }
+
+  return {
+    note: {
+      ...(typeof root.template_id === 'string' ? { template_id: root.template_id } : {}),
+      sections,
+      plaintext,
+    },
+    issues,
+  };
+}
+
+/**
+ * Template sections still needing a model pass
+ */
+export function sectionsToReask(issues: NoteIssue[], template: TemplateSection[]): TemplateSection[] {
+  const keys = new Set(issues.filter(i => !i.repaired && i.section).map(i => i.section));
+  return template.filter(section => keys.has(section.key));
+}
+
+/**
+ * Follow-up instruction asking the model for only the listed sections
+ */
+export function buildSectionReaskPrompt(missing: TemplateSection[]): string {
+  const { guidance, jsonShape } = buildTemplatePromptSpec(missing);
+  return `Your note is missing required sections. Using the same transcript, write ONLY these sections.
+
+${guidance}
+
+If the transcript has nothing for a section, say so briefly (for example "Not discussed") rather than leaving it empty.
+
+Return valid JSON only, exactly in this shape:
+{
+  "sections": {
+${jsonShape}
+  }
+}`;
+}
+
+/**
+ * Merge a re-ask response into the note. Sections the note already has are
+ * left alone; newly filled sections are appended to the plaintext too.
+ */
+export function mergeReaskedSections(
+  note: StructuredNote,
+  raw: string,
+  missing: TemplateSection[]
+): { note: StructuredNote; filled: string[] } {
+  const { value } = parseNoteOutput(raw);
+  const { note: patch } = normalizeNoteOutput(value, missing);
+  const filled = missing.filter(s => patch.sections[s.key] !== undefined && note.sections[s.key] === undefined);
+  if (filled.length === 0) return { note, filled: [] };
+
+  const sections = { ...note.sections };
+  for (const section of filled) sections[section.key] = patch.sections[section.key];
+
+  const added = renderNotePlaintext(patch.sections, filled);
+  return {
+    note: { ...note, sections, plaintext: note.plaintext ? `${note.plaintext}\n\n${added}` : added },
+    filled: filled.map(s => s.key),
+  };
+}
+
+/**
+ * Re-check a note after repairs; only structural problems are reported
+ */
+export function remainingNoteIssues(note: StructuredNote, template: TemplateSection[]): NoteIssue[] {
+  return normalizeNoteOutput(note, template).issues.filter(issue => !issue.repaired);
+}
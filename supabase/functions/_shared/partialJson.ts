@@ -0,0 +1,118 @@
+/**
+ * Incremental parser for partial JSON
+ *
+ * Model output arrives a few characters at a time, usually as one JSON object
+ * with some noise around it (code fences, a sentence of preamble). The parser
+ * scans each chunk once, tracking open strings and brackets, and can produce
+ * a best-effort value at any point by closing whatever is still open. Also
+ * used to repair complete-but-malformed output: raw newlines inside strings
+ * are escaped and trailing commas dropped.
+ *
+ * Dependency-free so the same module runs in edge functions (Deno) and in the
+ * web app.
+ */
+
+export interface PartialJsonSnapshot {
+  value: unknown;
+  /** The root object has been closed; later input is ignored */
+  complete: boolean;
+}
+
+export interface PartialJsonParser {
+  push(chunk: string): void;
+  /** Best-effort value of everything pushed so far, or null if nothing parses yet */
+  snapshot(): PartialJsonSnapshot | null;
+}
+
+export function createPartialJsonParser(): PartialJsonParser {
+  let out = '';
+  const stack: string[] = [];
+  // Positions of structural commas: cutting there always leaves whole values
+  const cuts: Array<{ length: number; stack: string[] }> = [];
+  let started = false;
+  let inString = false;
+  let escaped = false;
+  let complete = false;
+
+  const push = (chunk: string) => {
+    for (const ch of chunk) {
+      if (complete) return;
+      if (!started) {
+        if (ch !== '{') continue;
+        started = true;
+      }
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+          out += ch;
+        } else if (ch === '\\') {
+          escaped = true;
+          out += ch;
+        } else if (ch === '"') {
+          inString = false;
+          out += ch;
+        } else if (ch === '\n') {
+          out += '\\n';
+        } else if (ch === '\t') {
+          out += '\\t';
+        } else if (ch !== '\r') {
+          out += ch;
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === '{' || ch === '[') {
+        stack.push(ch === '{' ? '}' : ']');
+      } else if (ch === '}' || ch === ']') {
+        out = out.replace(/,\s*$/, '');
+        stack.pop();
+        out += ch;
+        if (stack.length === 0) complete = true;
+        continue;
+      } else if (ch === ',') {
+        cuts.push({ length: out.length, stack: [...stack] });
+      }
+      out += ch;
+    }
+  };
+
+  const attempt = (body: string, open: string[]) => {
+    try {
+      return JSON.parse(body.replace(/[\s,:]+$/, '') + [...open].reverse().join(''));
+    } catch {
+      return undefined;
+    }
+  };
+
+  const snapshot = (): PartialJsonSnapshot | null => {
+    if (!started) return null;
+    if (complete) {
+      const value = attempt(out, []);
+      return value === undefined ? null : { value, complete: true };
+    }
+
+    // Close the open string, then fall back to earlier commas until it parses
+    const tail = inString ? (escaped ? out.slice(0, -1) : out) + '"' : out;
+    const value = attempt(tail, stack);
+    if (value !== undefined) return { value, complete: false };
+    for (let i = cuts.length - 1; i >= 0; i--) {
+      const cut = attempt(out.slice(0, cuts[i].length), cuts[i].stack);
+      if (cut !== undefined) return { value: cut, complete: false };
+    }
+    return null;
+  };
+
+  return { push, snapshot };
+}
+
+/**
+ * Parse possibly partial JSON in one go
+ */
+export function parsePartialJson(text: string): PartialJsonSnapshot | null {
+  const parser = createPartialJsonParser();
+  parser.push(text);
+  return parser.snapshot();
+}
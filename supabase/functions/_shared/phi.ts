@@ -0,0 +1,500 @@
+/**
+ * PHI de-identification engine
+ *
+ * Detects the 18 HIPAA Safe Harbor identifiers (45 CFR 164.514(b)(2)) in free
+ * text and replaces them with stable placeholder tokens such as [NAME_1].
+ * The token map stays with the caller, so AI output that echoes the tokens can
+ * be re-identified locally without the identifiers ever leaving the process.
+ *
+ * Dependency-free so the same module runs in edge functions (Deno) and in the
+ * web app (re-exported from src/lib/phiScrubber.ts).
+ */
+
+export type PhiCategory =
+  | 'NAME'
+  | 'ADDRESS'
+  | 'DATE'
+  | 'AGE'
+  | 'PHONE'
+  | 'FAX'
+  | 'EMAIL'
+  | 'SSN'
+  | 'MRN'
+  | 'HEALTH_PLAN'
+  | 'ACCOUNT'
+  | 'LICENSE'
+  | 'VEHICLE'
+  | 'DEVICE'
+  | 'URL'
+  | 'IP'
+  | 'BIOMETRIC'
+  | 'PHOTO'
+  | 'ID';
+
+/**
+ * Safe Harbor identifier each category covers. Ages over 89 are part of the
+ * dates identifier; full-face photographs only appear in text as references to
+ * image files.
+ */
+export const PHI_CATEGORIES: Record<PhiCategory, string> = {
+  NAME: 'Names',
+  ADDRESS: 'Geographic subdivisions smaller than a state, including ZIP codes',
+  DATE: 'Dates (except year) directly related to an individual',
+  AGE: 'Ages over 89',
+  PHONE: 'Telephone numbers',
+  FAX: 'Fax numbers',
+  EMAIL: 'Email addresses',
+  SSN: 'Social Security numbers',
+  MRN: 'Medical record numbers',
+  HEALTH_PLAN: 'Health plan beneficiary numbers',
+  ACCOUNT: 'Account numbers',
+  LICENSE: 'Certificate/license numbers',
+  VEHICLE: 'Vehicle identifiers and serial numbers, including license plates',
+  DEVICE: 'Device identifiers and serial numbers',
+  URL: 'Web URLs',
+  IP: 'IP addresses',
+  BIOMETRIC: 'Biometric identifiers',
+  PHOTO: 'Full-face photographs and comparable images',
+  ID: 'Any other unique identifying number, characteristic or code',
+};
+
+export interface KnownIdentifiers {
+  patient_name?: string | null;
+  patient_id?: string | null;
+  dob?: string | null;
+  /** Other people named in the encounter (relatives, clinicians) */
+  names?: Array<string | null | undefined>;
+  /** Other identifiers known to belong to the patient */
+  identifiers?: Array<string | null | undefined>;
+}
+
+export interface DeidentifyOptions extends KnownIdentifiers {
+  /** Restrict detection to these categories (default: all) */
+  categories?: PhiCategory[];
+}
+
+export interface PhiSpan {
+  start: number;
+  end: number;
+  category: PhiCategory;
+  text: string;
+}
+
+/**
+ * Token map produced by deidentify. Plain JSON so it can be kept in memory,
+ * passed between calls of one request or stored locally.
+ */
+export interface PhiTokenMap {
+  /** token -> original text */
+  tokens: Record<string, string>;
+  /** category + normalized value -> token, keeps repeated values on one token */
+  values: Record<string, string>;
+  counters: Partial<Record<PhiCategory, number>>;
+}
+
+export interface DeidentifyResult {
+  text: string;
+  mapping: PhiTokenMap;
+  spans: PhiSpan[];
+}
+
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+export const PHI_PLACEHOLDER_INSTRUCTION =
+  'Patient identifiers have been replaced with placeholders such as [NAME_1] or [DATE_2]. ' +
+  'Copy placeholders exactly as written wherever the identifier belongs and never guess the original values.';
+
+const TOKEN_PATTERN = /\[([A-Z_]+)_(\d+)\]/g;
+
+interface Detector {
+  category: PhiCategory;
+  pattern: RegExp;
+  /** Value capture group; it must end the match */
+  group?: number;
+  /** Return the part of the value to redact, or null to reject the match */
+  accept?: (value: string) => string | null;
+}
+
+const MONTH = '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+const US_STATE = '(?:A[KLRZ]|C[AOT]|D[CE]|FL|GA|HI|I[ADLN]|K[SY]|LA|M[ADEINOST]|N[CDEHJMVY]|O[HKR]|PA|RI|S[CD]|T[NX]|UT|V[AT]|W[AIVY])';
+const STREET_SUFFIX = '(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Ter|Circle|Cir|Parkway|Pkwy|Highway|Hwy|Square|Sq|Trail|Trl)';
+const PHONE = '(?:\\+?1[-.\\s]?)?(?:\\(\\d{3}\\)\\s?|\\d{3}[-.\\s])\\d{3}[-.\\s]\\d{4}';
+const NAME_WORDS = "([A-Za-z][A-Za-z'-]+(?:\\s+[A-Za-z][A-Za-z'-]+){0,2})";
+const ID_VALUE = '([A-Za-z0-9][A-Za-z0-9-]{3,})';
+const LABEL_JOIN = "\\s*(?:number|num|no\\.?|#|id)?\\s*(?:is|was|of|:|#|-)?\\s*";
+
+// Capitalized words that follow name cues but are not names
+const NOT_NAMES = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'he', 'she', 'they', 'we', 'i', 'it', 'his', 'her', 'their',
+  'patient', 'doctor', 'dr', 'nurse', 'here', 'there', 'not', 'so', 'just', 'also', 'very', 'really',
+  'fine', 'good', 'well', 'okay', 'ok', 'sorry', 'sure', 'yes', 'no', 'feeling', 'having', 'going',
+  'was', 'is', 'has', 'had', 'been', 'being', 'today', 'yesterday', 'tomorrow', 'presents', 'reports',
+  'states', 'denies', 'with', 'for', 'to', 'at', 'in', 'on', 'of', 'from', 'who', 'which', 'that',
+  'this', 'my', 'your', 'our', 'me', 'you',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+]);
+
+function acceptName(value: string): string | null {
+  const words = value.split(/\s+/);
+  const kept: string[] = [];
+  for (const word of words) {
+    if (!/^[A-Z]/.test(word) || NOT_NAMES.has(word.toLowerCase())) break;
+    kept.push(word);
+  }
+  return kept.length > 0 ? kept.join(' ') : null;
+}
+
+function acceptId(value: string): string | null {
+  const trimmed = value.replace(/-+$/, '');
+  return /\d/.test(trimmed) ? trimmed : null;
+}
+
+function acceptNumericDate(value: string): string | null {
+  const [a, b] = value.split(/[/.-]/).map(Number);
+  if (a < 1 || b < 1 || a > 31 || b > 31) return null;
+  return a <= 12 || b <= 12 ? value : null;
+}
+
+// State codes that double as credentials or clinical shorthand ("Smith, MD")
+const AMBIGUOUS_STATES = /,\s*(?:MD|OK|ME|PA|OR|ID|IN|DE)$/;
+
+function acceptCityState(value: string): string | null {
+  return /\d/.test(value) || !AMBIGUOUS_STATES.test(value) ? value : null;
+}
+
+function acceptIPv4(value: string): string | null {
+  return value.split('.').every(part => Number(part) <= 255) ? value : null;
+}
+
+function acceptVin(value: string): string | null {
+  return /\d/.test(value) && /[A-Z]/.test(value) ? value : null;
+}
+
+function labeled(category: PhiCategory, label: string, value = ID_VALUE, accept = acceptId): Detector {
+  return {
+    category,
+    pattern: new RegExp(`\\b(?:${label})(?![A-Za-z])${LABEL_JOIN}${value}`, 'gi'),
+    group: 1,
+    accept,
+  };
+}
+
+// Earlier detectors win when matches overlap
+const DETECTORS: Detector[] = [
+  // Contact details
+  { category: 'EMAIL', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { category: 'URL', pattern: /\b(?:https?:\/\/|www\.)[^\s<>"')\]]+[^\s<>"')\].,;:!?]/gi },
+  { category: 'FAX', pattern: new RegExp(`\\bfax${LABEL_JOIN}(${PHONE})`, 'gi'), group: 1 },
+  { category: 'SSN', pattern: /\b(?:SSN|SS#|social security)\s*(?:number|no\.?|#)?\s*(?:is|was|:|#)?\s*(\d{3}[-\s]?\d{2}[-\s]?\d{4})\b/gi, group: 1 },
+  { category: 'SSN', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { category: 'PHONE', pattern: new RegExp(`(?<![\\w-])${PHONE}\\b`, 'g') },
+  { category: 'PHONE', pattern: /\b(?:phone|tel|telephone|cell|mobile|call(?: me)? at)\s*(?:number|no\.?|#)?\s*(?:is|:)?\s*(\d{10})\b/gi, group: 1 },
+  { category: 'IP', pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g, accept: acceptIPv4 },
+  { category: 'IP', pattern: /\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b/gi },
+
+  // Record, plan, account and credential numbers
+  labeled('MRN', 'MRN|MR#|medical record|chart'),
+  labeled('HEALTH_PLAN', 'member|subscriber|beneficiary|policy|insurance|medicare|medicaid|health plan|group\\s*(?:number|no\\.?|#)'),
+  labeled('ACCOUNT', 'account|acct'),
+  labeled('LICENSE', "driver'?s? licen[cs]e|licen[cs]e|certificate|DEA|NPI|passport"),
+  labeled('VEHICLE', 'licen[cs]e plate|plate|VIN|vehicle'),
+  labeled('DEVICE', 'serial|device|UDI|implant|pacemaker'),
+  labeled('BIOMETRIC', 'fingerprint|retinal scan|retina scan|iris scan|voiceprint|voice print|palm ?print|biometric', ID_VALUE, value => value),
+  { category: 'VEHICLE', pattern: /\b[A-HJ-NPR-Z0-9]{17}\b/g, accept: acceptVin },
+  { category: 'PHOTO', pattern: /\b[\w-]+\.(?:jpe?g|png|heic|gif|bmp|tiff?|dcm)\b/gi },
+  labeled('ID', 'patient id|case|claim|reference|ref|identifier|ID'),
+  { category: 'ID', pattern: /#\s?(\d{5,})\b/g, group: 1 },
+
+  // Ages over 89
+  { category: 'AGE', pattern: /\b(?:9\d|1[0-1]\d)(?=[- ](?:years?|yrs?|y)[- ]old\b|\s?(?:yo|y\/o)\b)/gi },
+  { category: 'AGE', pattern: /\b(?:age|aged)\s+(9\d|1[0-1]\d)\b/gi, group: 1 },
+
+  // Dates (a year on its own is allowed by Safe Harbor)
+  { category: 'DATE', pattern: /\b(?:19|20)\d{2}-(?:0?[1-9]|1[0-2])-(?:0?[1-9]|[12]\d|3[01])\b/g },
+  { category: 'DATE', pattern: /\b\d{1,2}([/.-])\d{1,2}\1(?:\d{4}|\d{2})\b/g, accept: acceptNumericDate },
+  { category: 'DATE', pattern: /\b(?:on|since|from|until|DOB:?)\s+(\d{1,2}\/\d{1,2})\b(?!\/)/g, group: 1, accept: acceptNumericDate },
+  { category: 'DATE', pattern: new RegExp(`\\b${MONTH}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?\\b`, 'g') },
+  { category: 'DATE', pattern: new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}\\.?(?:,?\\s+\\d{4})?\\b`, 'g') },
+  { category: 'DATE', pattern: new RegExp(`\\b${MONTH}\\.?,?\\s+(?:19|20)\\d{2}\\b`, 'g') },
+
+  // Geography below state level
+  { category: 'ADDRESS', pattern: new RegExp(`\\b\\d{1,6}\\s+(?:[A-Z][a-z]+\\s+){1,3}${STREET_SUFFIX}\\b\\.?(?:,?\\s*(?:Apt|Apartment|Suite|Unit|#)\\.?\\s*[A-Za-z0-9-]+)?`, 'g') },
+  { category: 'ADDRESS', pattern: /\bP\.?\s?O\.?\s+Box\s+\d+\b/gi },
+  {
+    category: 'ADDRESS',
+    pattern: new RegExp(`\\b[A-Z][a-z]+(?:\\s[A-Z][a-z]+){0,2},\\s*${US_STATE}(?:\\s+\\d{5}(?:-\\d{4})?)?\\b`, 'g'),
+    accept: acceptCityState,
+  },
+  { category: 'ADDRESS', pattern: /\b(?:zip|zip code|postal code)\s*(?:is|:)?\s*(\d{5}(?:-\d{4})?)\b/gi, group: 1 },
+  { category: 'ADDRESS', pattern: /\b\d{5}-\d{4}\b/g },
+  {
+    category: 'ADDRESS',
+    pattern: new RegExp(`\\b(?:lives|living|resides|residing|moved|relocated|born)\\s+(?:in|at|to)\\s+${NAME_WORDS}`, 'gi'),
+    group: 1,
+    accept: acceptName,
+  },
+
+  // Names
+  {
+    category: 'NAME',
+    pattern: new RegExp(`\\b(?:Mr|Mrs|Ms|Miss|Mx|Dr|Doctor|Prof)\\.?\\s+${NAME_WORDS}`, 'g'),
+    group: 1,
+    accept: acceptName,
+  },
+  {
+    category: 'NAME',
+    pattern: new RegExp(
+      `\\b(?:my name is|name is|name:|named|called|call me|i'm|i am|this is|patient:|pt:|` +
+      `(?:wife|husband|spouse|partner|son|daughter|mother|mom|father|dad|brother|sister|caregiver|guardian|friend)(?:'s name is|,| is)?)\\s+${NAME_WORDS}`,
+      'gi'
+    ),
+    group: 1,
+    accept: acceptName,
+  },
+  // "Smith, John" in headers and signatures
+  { category: 'NAME', pattern: /\b(?:Name|Patient|Signed|Provider)\s*:\s*([A-Z][a-z'-]+,\s*[A-Z][a-z'-]+)/g, group: 1 },
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalizeValue(category: PhiCategory, value: string): string {
+  if (category === 'NAME' || category === 'ADDRESS' || category === 'DATE') {
+    return value.toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function findAll(text: string, pattern: RegExp, category: PhiCategory, group?: number, accept?: (value: string) => string | null): PhiSpan[] {
+  const spans: PhiSpan[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    const raw = group ? match[group] : match[0];
+    const value = raw ? (accept ? accept(raw) : raw) : null;
+    if (!value) {
+      // Let a later cue inside a rejected match ("Pacemaker serial number ...") match on its own
+      regex.lastIndex = match.index + 1;
+      continue;
+    }
+
+    const rawStart = match.index + match[0].length - raw.length;
+    const start = rawStart + raw.indexOf(value);
+    spans.push({ start, end: start + value.length, category, text: value });
+  }
+
+  return spans;
+}
+
+function knownValueSpans(text: string, category: PhiCategory, values: string[], minLength = 2, flags = 'gi'): PhiSpan[] {
+  const unique = [...new Set(values.map(v => v.trim()).filter(v => v.length >= minLength))]
+    .sort((a, b) => b.length - a.length);
+
+  return unique.flatMap(value =>
+    findAll(text, new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(value).replace(/\s+/g, '\\s+')}(?![A-Za-z0-9])`, flags), category)
+  );
+}
+
+function nameParts(names: string[]): string[] {
+  return names.flatMap(name => [
+    name,
+    ...name.split(/[\s,]+/).filter(part => part.length >= 3 && !NOT_NAMES.has(part.toLowerCase())),
+  ]);
+}
+
+function knownIdentifierSpans(text: string, options: KnownIdentifiers): PhiSpan[] {
+  const names = [options.patient_name, ...(options.names || [])].filter((v): v is string => !!v);
+  const identifiers = [options.patient_id, ...(options.identifiers || [])].filter((v): v is string => !!v);
+
+  return [
+    ...knownValueSpans(text, 'NAME', nameParts(names)),
+    ...knownValueSpans(text, 'ID', identifiers, 3),
+    ...(options.dob ? knownValueSpans(text, 'DATE', [options.dob]) : []),
+  ];
+}
+
+/**
+ * Keep the first span of every overlapping group; spans arrive in priority order.
+ */
+function resolveOverlaps(spans: PhiSpan[]): PhiSpan[] {
+  const accepted: PhiSpan[] = [];
+  for (const span of spans) {
+    if (!accepted.some(other => span.start < other.end && other.start < span.end)) {
+      accepted.push(span);
+    }
+  }
+  return accepted.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Find PHI in text. Known identifiers are matched first; names found by
+ * heuristics are then matched everywhere else they appear in the text.
+ */
+export function detectPHI(text: string, options: DeidentifyOptions = {}): PhiSpan[] {
+  return detect(text, options, []);
+}
+
+function detect(text: string, options: DeidentifyOptions, carriedNames: string[]): PhiSpan[] {
+  if (!text) return [];
+  const enabled = options.categories ? new Set(options.categories) : null;
+  const isEnabled = (category: PhiCategory) => !enabled || enabled.has(category);
+
+  const known = knownIdentifierSpans(text, options);
+  const detected = DETECTORS
+    .filter(detector => isEnabled(detector.category))
+    .flatMap(detector => findAll(text, detector.pattern, detector.category, detector.group, detector.accept));
+
+  const firstPass = resolveOverlaps([...known, ...detected]);
+  const foundNames = [...carriedNames, ...firstPass.filter(span => span.category === 'NAME').map(span => span.text)];
+  // Heuristic names are matched case-sensitively so "Rose" does not catch "rose"
+  const repeated = knownValueSpans(text, 'NAME', nameParts(foundNames), 2, 'g');
+
+  return resolveOverlaps([...known, ...detected, ...repeated].filter(span => isEnabled(span.category)));
+}
+
+export function createTokenMap(): PhiTokenMap {
+  return { tokens: {}, values: {}, counters: {} };
+}
+
+function tokenFor(mapping: PhiTokenMap, category: PhiCategory, value: string): string {
+  const key = `${category}:${normalizeValue(category, value)}`;
+  const existing = mapping.values[key];
+  if (existing) return existing;
+
+  const next = (mapping.counters[category] || 0) + 1;
+  mapping.counters[category] = next;
+  const token = `[${category}_${next}]`;
+  mapping.tokens[token] = value;
+  mapping.values[key] = token;
+  return token;
+}
+
+function replaceSpans(text: string, spans: PhiSpan[], replacement: (span: PhiSpan) => string): string {
+  let result = '';
+  let cursor = 0;
+  for (const span of spans) {
+    result += text.slice(cursor, span.start) + replacement(span);
+    cursor = span.end;
+  }
+  return result + text.slice(cursor);
+}
+
+/**
+ * Replace PHI with reversible tokens. Pass an existing mapping to keep tokens
+ * consistent across several texts (e.g. all messages of one AI request); names
+ * already in the mapping are also recognised in the new text.
+ */
+export function deidentify(text: string, options: DeidentifyOptions = {}, mapping: PhiTokenMap = createTokenMap()): DeidentifyResult {
+  const mappedNames = Object.entries(mapping.tokens)
+    .filter(([token]) => token.startsWith('[NAME_'))
+    .map(([, value]) => value);
+  const spans = detect(text, options, mappedNames);
+  return {
+    text: replaceSpans(text, spans, span => tokenFor(mapping, span.category, span.text)),
+    mapping,
+    spans,
+  };
+}
+
+/**
+ * Restore the original identifiers in text produced from de-identified input.
+ * Unknown tokens are left untouched.
+ */
+export function reidentify(text: string, mapping: PhiTokenMap): string {
+  if (!text) return text;
+  return text.replace(TOKEN_PATTERN, token => mapping.tokens[token] ?? token);
+}
+
+function mapStrings<T>(value: T, transform: (text: string) => string): T {
+  if (typeof value === 'string') return transform(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, transform)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, nested]) => [key, mapStrings(nested, transform)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Re-identify every string inside a parsed AI response (tool call arguments,
+ * structured notes, arrays of tasks).
+ */
+export function reidentifyValue<T>(value: T, mapping: PhiTokenMap): T {
+  return mapStrings(value, text => reidentify(text, mapping));
+}
+
+// Longest prefix of a token that may still be completed by the next chunk
+const PARTIAL_TOKEN = /\[[A-Z_]*(?:_\d*)?$/;
+
+/**
+ * Re-identify streamed AI output chunk by chunk. A token split across chunks
+ * ("[NAME" + "_1]") is held back until it is complete; call flush at the end.
+ */
+export function createStreamReidentifier(mapping: PhiTokenMap): { push: (chunk: string) => string; flush: () => string } {
+  let pending = '';
+  return {
+    push(chunk: string) {
+      const text = pending + chunk;
+      const partial = text.match(PARTIAL_TOKEN);
+      const cut = partial && partial[0].length <= 24 ? (partial.index ?? text.length) : text.length;
+      pending = text.slice(cut);
+      return reidentify(text.slice(0, cut), mapping);
+    },
+    flush() {
+      const rest = pending;
+      pending = '';
+      return reidentify(rest, mapping);
+    },
+  };
+}
+
+/**
+ * De-identify all messages of a chat completion request with one shared token
+ * map. When anything was replaced the system prompt tells the model to keep
+ * the placeholders.
+ */
+export function deidentifyMessages<M extends ChatMessage>(
+  messages: M[],
+  options: DeidentifyOptions = {},
+  mapping: PhiTokenMap = createTokenMap()
+): { messages: M[]; mapping: PhiTokenMap } {
+  const scrubbed = messages.map(message =>
+    typeof message.content === 'string' ? { ...message, content: deidentify(message.content, options, mapping).text } : message
+  );
+
+  if (Object.keys(mapping.tokens).length > 0) {
+    const systemIndex = scrubbed.findIndex(message => message.role === 'system');
+    if (systemIndex >= 0) {
+      const system = scrubbed[systemIndex];
+      scrubbed[systemIndex] = { ...system, content: `${system.content}\n\n${PHI_PLACEHOLDER_INSTRUCTION}` };
+    } else {
+      scrubbed.unshift({ role: 'system', content: PHI_PLACEHOLDER_INSTRUCTION } as M);
+    }
+  }
+
+  return { messages: scrubbed, mapping };
+}
+
+/**
+ * Irreversible redaction with category placeholders such as [PHONE].
+ */
+export function redactPHI(text: string, options: DeidentifyOptions = {}): string {
+  return replaceSpans(text, detectPHI(text, options), span => `[${span.category}]`);
+}
+
+/**
+ * Redact every string inside a JSON value, e.g. audit metadata.
+ */
+export function redactPHIValue<T>(value: T, options: DeidentifyOptions = {}): T {
+  return mapStrings(value, text => redactPHI(text, options));
+}
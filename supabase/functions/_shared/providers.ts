@@ -0,0 +1,66 @@
+/**
+ * Third-party provider endpoints
+ *
+ * Edge functions build every AI gateway, transcription and Whisper URL here
+ * instead of hard-coding the provider's origin, so a deployment can point a
+ * provider elsewhere. Setting PROVIDER_MOCK_URL routes all of them to the
+ * local stand-in server (supabase/mock-providers), which replays recorded
+ * fixtures so the pipeline runs in CI and offline.
+ *
+ * Dependency-free so the same module runs in edge functions (Deno) and in
+ * tests, which pass their own environment.
+ */
+
+export type Provider = 'lovable_ai' | 'openai' | 'deepgram' | 'assemblyai';
+
+export const PROVIDER_ORIGINS: Record<Provider, string> = {
+  lovable_ai: 'https://ai.gateway.lovable.dev',
+  openai: 'https://api.openai.com',
+  deepgram: 'https://api.deepgram.com',
+  assemblyai: 'https://api.assemblyai.com',
+};
+
+/** Origin of the stand-in server; each provider is served under /<provider> */
+export const PROVIDER_MOCK_URL_ENV = 'PROVIDER_MOCK_URL';
+
+export type EnvReader = (name: string) => string | undefined;
+
+const denoEnv: EnvReader = (name) =>
+  (globalThis as { Deno?: { env: { get(name: string): string | undefined } } }).Deno?.env.get(name);
+
+/** Per-provider override, e.g. DEEPGRAM_BASE_URL; wins over the mock server */
+export const providerBaseUrlEnv = (provider: Provider) => `${provider.toUpperCase()}_BASE_URL`;
+
+/**
+ * HTTP origin a provider is reached at, without a trailing slash
+ */
+export function providerOrigin(provider: Provider, env: EnvReader = denoEnv): string {
+  const override = env(providerBaseUrlEnv(provider));
+  if (override) return override.replace(/\/+$/, '');
+
+  const mock = env(PROVIDER_MOCK_URL_ENV);
+  if (mock) return `${mock.replace(/\/+$/, '')}/${provider}`;
+
+  return PROVIDER_ORIGINS[provider];
+}
+
+/**
+ * Full HTTP URL of a provider API path, e.g. providerUrl('openai', '/v1/audio/transcriptions')
+ */
+export function providerUrl(provider: Provider, path: string, env: EnvReader = denoEnv): string {
+  return `${providerOrigin(provider, env)}${path}`;
+}
+
+/**
+ * WebSocket URL of a provider streaming path; ws:// for a plain-HTTP mock
+ */
+export function providerSocketUrl(provider: Provider, path: string, env: EnvReader = denoEnv): string {
+  return providerUrl(provider, path, env).replace(/^http/, 'ws');
+}
+
+/**
+ * Whether calls go to the stand-in server rather than the live provider
+ */
+export function isProviderMocked(env: EnvReader = denoEnv): boolean {
+  return !!env(PROVIDER_MOCK_URL_ENV);
+}
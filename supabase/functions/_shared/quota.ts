@@ -0,0 +1,183 @@
+/**
+ * Rate limits and usage budgets for edge functions
+ *
+ * Every metered call goes through consume_quota() in Postgres, which holds
+ * the per-user request rate and the team's monthly AI and transcription
+ * budgets (see the add_usage_quotas migration). Limits therefore hold across
+ * function instances and restarts, unlike the in-memory and client-side
+ * limiters they replace.
+ *
+ * Responses carry the IETF RateLimit-* headers for the per-minute limit, and
+ * Retry-After when a call is refused.
+ *
+ * Dependency-free so the same module runs in edge functions (Deno) and in
+ * tests, which pass their own client.
+ */
+
+export type QuotaKind = 'ai' | 'transcription' | 'export';
+
+export interface QuotaPolicy {
+  kind: QuotaKind;
+  /** Calls per user per minute to this function */
+  perMinute: number;
+}
+
+export const QUOTA_POLICIES = {
+  'generate-note': { kind: 'ai', perMinute: 10 },
+  'ask-heidi': { kind: 'ai', perMinute: 20 },
+  // Recording sends a Whisper segment every 10 seconds, plus retries
+  'whisper-transcribe': { kind: 'transcription', perMinute: 30 },
+  'export-note': { kind: 'export', perMinute: 10 },
+} satisfies Record<string, QuotaPolicy>;
+
+export type QuotaFunction = keyof typeof QUOTA_POLICIES;
+
+export const RATE_WINDOW_SECONDS = 60;
+
+export interface QuotaBudget {
+  limit: number;
+  used: number;
+  /** When the monthly budget starts over */
+  period_end: string;
+}
+
+export interface QuotaDecision {
+  allowed: boolean;
+  reason: 'ok' | 'rate_limited' | 'quota_exceeded';
+  /** Per-minute limit and calls left in the current window */
+  limit: number;
+  remaining: number;
+  reset_at: string;
+  /** usage_events row of an allowed call */
+  event_id: string | null;
+  /** The team's monthly budget for this kind of call, when one is set */
+  budget: QuotaBudget | null;
+}
+
+export interface QuotaResult {
+  allowed: boolean;
+  decision: QuotaDecision | null;
+  headers: Record<string, string>;
+}
+
+/** The part of the Supabase client used here */
+export interface QuotaClient {
+  rpc(fn: string, args: Record<string, unknown>): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+}
+
+const RATE_LIMIT_HEADERS = ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After'];
+
+/**
+ * Read consume_quota()'s JSON result
+ */
+export function parseQuotaDecision(data: unknown): QuotaDecision | null {
+  if (typeof data !== 'object' || data === null) return null;
+  const value = data as Record<string, unknown>;
+  if (typeof value.allowed !== 'boolean') return null;
+
+  const budget = value.budget as Record<string, unknown> | null | undefined;
+  return {
+    allowed: value.allowed,
+    reason: value.reason === 'rate_limited' || value.reason === 'quota_exceeded' ? value.reason : 'ok',
+    limit: Number(value.limit) || 0,
+    remaining: Math.max(0, Number(value.remaining) || 0),
+    reset_at: String(value.reset_at ?? ''),
+    event_id: typeof value.event_id === 'string' ? value.event_id : null,
+    budget: budget && typeof budget === 'object'
+      ? { limit: Number(budget.limit), used: Number(budget.used), period_end: String(budget.period_end) }
+      : null,
+  };
+}
+
+/**
+ * RateLimit-* headers for a decision; Retry-After when the call was refused
+ */
+export function rateLimitHeaders(decision: QuotaDecision, now = Date.now()): Record<string, string> {
+  const resetAt = Date.parse(decision.reset_at);
+  const resetSeconds = Number.isNaN(resetAt) ? RATE_WINDOW_SECONDS : Math.max(0, Math.ceil((resetAt - now) / 1000));
+
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': String(resetSeconds),
+    'RateLimit-Policy': `${decision.limit};w=${RATE_WINDOW_SECONDS}`,
+    // Browsers only show cross-origin clients the headers listed here
+    'Access-Control-Expose-Headers': RATE_LIMIT_HEADERS.join(', '),
+  };
+
+  if (!decision.allowed) {
+    const budgetReset = decision.budget ? Date.parse(decision.budget.period_end) : NaN;
+    headers['Retry-After'] = String(
+      decision.reason === 'quota_exceeded' && !Number.isNaN(budgetReset)
+        ? Math.max(0, Math.ceil((budgetReset - now) / 1000))
+        : Math.max(1, resetSeconds)
+    );
+  }
+  return headers;
+}
+
+/**
+ * Error body for a refused call, in the { success, error } shape of the functions
+ */
+export function quotaErrorBody(decision: QuotaDecision) {
+  const exceeded = decision.reason === 'quota_exceeded';
+  return {
+    success: false,
+    error: {
+      code: exceeded ? 'QUOTA_EXCEEDED' : 'RATE_LIMITED',
+      message: exceeded
+        ? "Your team's monthly budget for this feature is used up. Ask an administrator to raise it."
+        : 'Rate limit exceeded. Please try again in a minute.',
+      budget: decision.budget,
+    },
+  };
+}
+
+/**
+ * Check and record one call by `userId`. When the quota store can't be
+ * reached the call is let through: an outage of the metering must not stop
+ * clinicians from documenting.
+ */
+export async function enforceQuota(
+  client: QuotaClient,
+  userId: string,
+  functionName: QuotaFunction,
+  amount = 1,
+  now = Date.now()
+): Promise<QuotaResult> {
+  const policy: QuotaPolicy = QUOTA_POLICIES[functionName];
+  const { data, error } = await client.rpc('consume_quota', {
+    _user_id: userId,
+    _function_name: functionName,
+    _kind: policy.kind,
+    _amount: amount,
+    _per_minute: policy.perMinute,
+  });
+
+  const decision = error ? null : parseQuotaDecision(data);
+  if (!decision) {
+    console.error(`Quota check failed for ${functionName}, allowing the call:`, error?.message ?? data);
+    return { allowed: true, decision: null, headers: {} };
+  }
+  return { allowed: decision.allowed, decision, headers: rateLimitHeaders(decision, now) };
+}
+
+/**
+ * 429 response for a refused call
+ */
+export function quotaExceededResponse(result: QuotaResult, corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify(quotaErrorBody(result.decision!)), {
+    status: 429,
+    headers: { ...corsHeaders, ...result.headers, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Set the metered amount of an allowed call once it is known, e.g. the
+ * minutes of audio a transcription turned out to be
+ */
+export async function recordUsageAmount(client: QuotaClient, result: QuotaResult, amount: number): Promise<void> {
+  if (!result.decision?.event_id) return;
+  const { error } = await client.rpc('record_usage_amount', { _event_id: result.decision.event_id, _amount: amount });
+  if (error) console.error('Failed to record usage amount:', error.message);
+}
@@ -1,5 +1,6 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { providerUrl } from "../_shared/providers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -62,7 +63,7 @@ serve(async (req) => {
     
     // Step 1: Upload audio to AssemblyAI
     console.log('📤 Uploading audio to AssemblyAI...');
-    const uploadResponse = await fetch('https://api.assemblyai.com/v2/upload', {
+    const uploadResponse = await fetch(providerUrl('assemblyai', '/v2/upload'), {
       method: 'POST',
       headers: {
         'authorization': ASSEMBLYAI_API_KEY,
@@ -82,7 +83,7 @@ serve(async (req) => {
 
     // Step 2: Submit transcription job with medical configuration
     console.log('🔄 Submitting transcription job with slam-1 medical model...');
-    const transcriptResponse = await fetch('https://api.assemblyai.com/v2/transcript', {
+    const transcriptResponse = await fetch(providerUrl('assemblyai', '/v2/transcript'), {
       method: 'POST',
       headers: {
         'authorization': ASSEMBLYAI_API_KEY,
@@ -155,7 +156,7 @@ serve(async (req) => {
     while (pollAttempts < maxPollAttempts) {
       await new Promise(resolve => setTimeout(resolve, delay));
       
-      const statusResponse = await fetch(`https://api.assemblyai.com/v2/transcript/${transcriptId}`, {
+      const statusResponse = await fetch(providerUrl('assemblyai', `/v2/transcript/${transcriptId}`), {
         headers: { 
           'authorization': ASSEMBLYAI_API_KEY 
         },
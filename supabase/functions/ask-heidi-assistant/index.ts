@@ -1,10 +1,55 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createStreamReidentifier, deidentifyMessages, type PhiTokenMap } from "../_shared/phi.ts";
+import { providerUrl } from "../_shared/providers.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+/**
+ * Re-identify the content deltas of an OpenAI-style SSE stream.
+ */
+function reidentifyEventStream(body: ReadableStream<Uint8Array>, mapping: PhiTokenMap): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const restorer = createStreamReidentifier(mapping);
+  let buffer = "";
+
+  const rewriteLine = (line: string): string => {
+    if (!line.startsWith("data: ")) return line;
+    const payload = line.slice(6).trim();
+    if (payload === "[DONE]") {
+      const rest = restorer.flush();
+      const tail = rest ? `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: rest } }] })}\n\n` : "";
+      return `${tail}${line}`;
+    }
+    try {
+      const event = JSON.parse(payload);
+      const delta = event.choices?.[0]?.delta;
+      if (typeof delta?.content === "string") {
+        delta.content = restorer.push(delta.content);
+        return `data: ${JSON.stringify(event)}`;
+      }
+    } catch {
+      // Pass through anything that is not a JSON event
+    }
+    return line;
+  };
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      controller.enqueue(encoder.encode(lines.map(line => `${rewriteLine(line)}\n`).join("")));
+    },
+    flush(controller) {
+      if (buffer) controller.enqueue(encoder.encode(rewriteLine(buffer)));
+    },
+  }));
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -45,14 +90,15 @@ Guidelines:
 - Always prioritize patient safety
 - If asked to generate notes, use proper clinical format`;
 
-    const messages = [
+    // The gateway sees placeholder tokens only; the stream is re-identified on the way back
+    const { messages, mapping } = deidentifyMessages([
       { role: "system", content: systemPrompt },
       ...(context ? [{ role: "system", content: `Current session context:\n${context.substring(0, 4000)}` }] : []),
       ...conversationHistory,
       { role: "user", content: message }
-    ];
+    ]);
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    const response = await fetch(providerUrl('lovable_ai', '/v1/chat/completions'), {
       method: "POST",
       headers: {
         Authorization: `Bearer ${LOVABLE_API_KEY}`,
@@ -88,7 +134,7 @@ Guidelines:
       );
     }
 
-    return new Response(response.body, {
+    return new Response(reidentifyEventStream(response.body!, mapping), {
       headers: { 
         ...corsHeaders, 
         "Content-Type": "text/event-stream",
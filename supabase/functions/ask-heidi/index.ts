@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deidentifyMessages, reidentify, type KnownIdentifiers } from "../_shared/phi.ts";
+import { providerUrl } from "../_shared/providers.ts";
+import { enforceQuota, quotaExceededResponse } from "../_shared/quota.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -35,20 +38,27 @@ serve(async (req) => {
       throw new Error('Missing required field: question');
     }
 
+    const quota = await enforceQuota(supabase, user.id, 'ask-heidi');
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota, corsHeaders);
+    }
+
     const startTime = Date.now();
 
     // Get session context if session_id provided
     let sessionContext = '';
+    let knownPhi: KnownIdentifiers = {};
     if (session_id) {
       const { data: session } = await supabase
         .from('sessions')
-        .select('generated_note, patient_name')
+        .select('generated_note, patient_name, patient_id, patient_dob')
         .eq('id', session_id)
         .eq('user_id', user.id)
         .single();
 
       if (session) {
         sessionContext = `Patient: ${session.patient_name}\n\nClinical Note:\n${session.generated_note || 'No note generated yet'}\n\n`;
+        knownPhi = { patient_name: session.patient_name, patient_id: session.patient_id, dob: session.patient_dob };
       }
     }
 
@@ -59,7 +69,21 @@ serve(async (req) => {
 
     const contextText = context_snippet || sessionContext;
 
-    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+    const { messages, mapping } = deidentifyMessages(
+      [
+        {
+          role: 'system',
+          content: 'You are Heidi, an AI medical assistant helping clinicians with clinical documentation and medical questions. Provide accurate, evidence-based answers. If context is provided, reference it in your response.'
+        },
+        {
+          role: 'user',
+          content: contextText ? `Context:\n${contextText}\n\nQuestion: ${question}` : question
+        }
+      ],
+      knownPhi
+    );
+
+    const aiResponse = await fetch(providerUrl('lovable_ai', '/v1/chat/completions'), {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${LOVABLE_API_KEY}`,
@@ -67,16 +91,7 @@ serve(async (req) => {
       },
       body: JSON.stringify({
         model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are Heidi, an AI medical assistant helping clinicians with clinical documentation and medical questions. Provide accurate, evidence-based answers. If context is provided, reference it in your response.'
-          },
-          {
-            role: 'user',
-            content: contextText ? `Context:\n${contextText}\n\nQuestion: ${question}` : question
-          }
-        ],
+        messages,
         temperature: 0.4,
       }),
     });
@@ -95,7 +110,8 @@ serve(async (req) => {
     }
 
     const aiData = await aiResponse.json();
-    const answer = aiData.choices?.[0]?.message?.content || 'I apologize, but I could not generate a response.';
+    const deidentifiedAnswer: string = aiData.choices?.[0]?.message?.content || 'I apologize, but I could not generate a response.';
+    const answer = reidentify(deidentifiedAnswer, mapping);
 
     const duration = Date.now() - startTime;
 
@@ -104,7 +120,7 @@ serve(async (req) => {
       user_id: user.id,
       session_id: session_id || null,
       function_name: 'ask-heidi',
-      output_preview: answer.substring(0, 200),
+      output_preview: deidentifiedAnswer.substring(0, 200),
       tokens_used: aiData.usage?.total_tokens || 0,
       duration_ms: duration,
       status: 'success',
@@ -116,7 +132,7 @@ serve(async (req) => {
         answer,
         citations: [],
       }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { headers: { ...corsHeaders, ...quota.headers, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { providerSocketUrl } from "../_shared/providers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -56,7 +57,7 @@ serve(async (req) => {
     }
 
     // Connect to AssemblyAI streaming API
-    const assemblyAIUrl = `wss://api.assemblyai.com/v2/realtime/ws?sample_rate=16000&token=${ASSEMBLYAI_API_KEY}`;
+    const assemblyAIUrl = providerSocketUrl('assemblyai', `/v2/realtime/ws?sample_rate=16000&token=${ASSEMBLYAI_API_KEY}`);
     console.log('🔌 Connecting to AssemblyAI:', assemblyAIUrl.replace(ASSEMBLYAI_API_KEY, '***'));
     
     assemblyAISocket = new WebSocket(assemblyAIUrl);
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { providerSocketUrl } from "../_shared/providers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -35,8 +36,10 @@ serve(async (req) => {
   // Get model from query params (default to nova-2)
   const url = new URL(req.url);
   const model = url.searchParams.get('model') || 'nova-2';
+  const language = (url.searchParams.get('language') || 'en').replace(/[^a-zA-Z-]/g, '');
+  const diarize = url.searchParams.get('diarize') === 'true';
 
-  console.log(`🎙️ Initializing Deepgram real-time streaming with model: ${model}...`);
+  console.log(`🎙️ Initializing Deepgram real-time streaming with model: ${model} (${language}${diarize ? ', diarized' : ''})...`);
 
   // Upgrade to WebSocket
   const { socket: clientSocket, response } = Deno.upgradeWebSocket(req);
@@ -50,7 +53,7 @@ serve(async (req) => {
 
     // Connect to Deepgram streaming API
     // Deepgram accepts the API key as a URL query parameter
-    const deepgramUrl = `wss://api.deepgram.com/v1/listen?token=${DEEPGRAM_API_KEY}&model=${model}&punctuate=true&smart_format=true&interim_results=true&endpointing=300&encoding=linear16&sample_rate=16000&channels=1`;
+    const deepgramUrl = providerSocketUrl('deepgram', `/v1/listen?token=${DEEPGRAM_API_KEY}&model=${model}&language=${language}&diarize=${diarize}&punctuate=true&smart_format=true&interim_results=true&endpointing=300&encoding=linear16&sample_rate=16000&channels=1`);
     
     try {
       deepgramSocket = new WebSocket(deepgramUrl);
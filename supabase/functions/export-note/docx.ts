@@ -0,0 +1,251 @@
+/**
+ * DOCX (Office Open XML) generation for clinical note exports
+ *
+ * Produces a WordprocessingML package with a patient header table, one
+ * heading per note_json section, an ICD-10 code table and a clinician
+ * signature block. The ZIP container is written with stored (uncompressed)
+ * entries so no compression library is needed in the edge runtime.
+ */
+
+import {
+  getNoteSections,
+  normalizeClinicalCodes,
+  type ExportSession,
+} from './note.ts';
+
+export interface DocxClinician {
+  full_name?: string | null;
+  specialty?: string | null;
+  license_number?: string | null;
+  organization?: string | null;
+}
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+export const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const OFFICE_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// MS-DOS timestamp for 1980-01-01 00:00 keeps the archive byte-stable
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Write a ZIP archive using the STORE method.
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true);
+    local.setUint16(10, DOS_TIME, true);
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    localParts.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, DOS_TIME, true);
+    central.setUint16(14, DOS_DATE, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
+
+function stripControlChars(text: string): string {
+  // XML 1.0 only allows tab, LF and CR below 0x20
+  return Array.from(text)
+    .filter(ch => {
+      const code = ch.charCodeAt(0);
+      return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+    })
+    .join('');
+}
+
+export function escapeXml(text: string): string {
+  return stripControlChars(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function run(text: string, bold = false): string {
+  const props = bold ? '<w:rPr><w:b/></w:rPr>' : '';
+  return `<w:r>${props}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function paragraph(text: string, options: { style?: string; bold?: boolean } = {}): string {
+  const props = options.style ? `<w:pPr><w:pStyle w:val="${options.style}"/></w:pPr>` : '';
+  return `<w:p>${props}${text ? run(text, options.bold) : ''}</w:p>`;
+}
+
+function table(rows: string[][], headerRow = false): string {
+  const grid = rows[0].map(() => '<w:gridCol/>').join('');
+  const body = rows
+    .map((cells, rowIndex) => {
+      const bold = headerRow && rowIndex === 0;
+      const rowProps = bold ? '<w:trPr><w:tblHeader/></w:trPr>' : '';
+      const tcs = cells
+        .map(cell => `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${paragraph(cell, { bold })}</w:tc>`)
+        .join('');
+      return `<w:tr>${rowProps}${tcs}</w:tr>`;
+    })
+    .join('');
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${body}</w:tbl>`;
+}
+
+function formatDate(value: string | null): string {
+  if (!value) return 'N/A';
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? value : parsed.toISOString().slice(0, 10);
+}
+
+export function buildDocumentXml(session: ExportSession, clinician: DocxClinician): string {
+  const body: string[] = [];
+
+  body.push(paragraph('Clinical Note', { style: 'Title' }));
+  body.push(table([
+    ['Patient', session.patient_name || 'N/A'],
+    ['MRN', session.patient_id || 'N/A'],
+    ['Date of Birth', formatDate(session.patient_dob)],
+    ['Date of Service', formatDate(session.scheduled_at || session.created_at)],
+  ]));
+
+  const sections = getNoteSections(session.note_json);
+  if (sections.length > 0) {
+    for (const section of sections) {
+      body.push(paragraph(section.title, { style: 'Heading1' }));
+      for (const line of section.text.split('\n')) {
+        body.push(paragraph(line));
+      }
+    }
+  } else if (session.generated_note) {
+    // Fall back to the plaintext note when there is no structured output
+    body.push(paragraph('Clinical Note', { style: 'Heading1' }));
+    for (const line of session.generated_note.split('\n')) {
+      body.push(paragraph(line));
+    }
+  }
+
+  const codes = normalizeClinicalCodes(session.clinical_codes);
+  if (codes.length > 0) {
+    body.push(paragraph('Diagnoses (ICD-10)', { style: 'Heading1' }));
+    body.push(table([
+      ['Code', 'Description', 'Status'],
+      ...codes.map(code => [code.code, code.label || '', code.confirmed ? 'Confirmed' : 'Suggested']),
+    ], true));
+  }
+
+  body.push(paragraph('Clinician Signature', { style: 'Heading1' }));
+  const credentials = [clinician.full_name || 'Unknown clinician', clinician.specialty].filter(Boolean).join(', ');
+  body.push(paragraph(`Prepared by: ${credentials}`));
+  if (clinician.license_number) body.push(paragraph(`License: ${clinician.license_number}`));
+  if (clinician.organization) body.push(paragraph(`Organization: ${clinician.organization}`));
+  body.push(paragraph('Signature: ______________________________    Date: ______________'));
+  body.push(paragraph('AI-assisted documentation - Verify accuracy before clinical use', { style: 'Footer' }));
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}"><w:body>${body.join('')}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+}
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${REL_NS}"><Relationship Id="rId1" Type="${OFFICE_REL}/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${REL_NS}"><Relationship Id="rId1" Type="${OFFICE_REL}/styles" Target="styles.xml"/></Relationships>`;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style><w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:color w:val="2563EB"/><w:sz w:val="40"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:color w:val="1F2937"/><w:sz w:val="28"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="480"/></w:pPr><w:rPr><w:i/><w:color w:val="6B7280"/><w:sz w:val="18"/></w:rPr></w:style><w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:left w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:right w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/></w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style></w:styles>`;
+
+function corePropsXml(session: ExportSession): string {
+  const created = new Date(session.scheduled_at || session.created_at);
+  const timestamp = isNaN(created.getTime()) ? new Date().toISOString() : created.toISOString();
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>Clinical Note</dc:title><dc:creator>Xorstack Health Model</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created></cp:coreProperties>`;
+}
+
+/**
+ * Build a complete .docx package for a session's note.
+ */
+export function buildDocx(session: ExportSession, clinician: DocxClinician): Uint8Array {
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(CONTENT_TYPES_XML) },
+    { name: '_rels/.rels', data: encoder.encode(ROOT_RELS_XML) },
+    { name: 'docProps/core.xml', data: encoder.encode(corePropsXml(session)) },
+    { name: 'word/document.xml', data: encoder.encode(buildDocumentXml(session, clinician)) },
+    { name: 'word/_rels/document.xml.rels', data: encoder.encode(DOCUMENT_RELS_XML) },
+    { name: 'word/styles.xml', data: encoder.encode(STYLES_XML) },
+  ]);
+}
@@ -0,0 +1,331 @@
+/**
+ * FHIR R4 serialization for clinical note exports
+ *
+ * Builds a document Bundle (Composition + Patient + Practitioner +
+ * Condition + MedicationStatement) from a session row. Kept free of
+ * Deno/remote imports so it can be unit-tested from the web app tooling.
+ */
+
+import { getNoteSections, normalizeClinicalCodes, type ExportSession } from './note.ts';
+
+export type FhirSessionInput = ExportSession;
+
+export interface FhirAuthorInput {
+  id: string;
+  full_name?: string | null;
+  license_number?: string | null;
+}
+
+export interface FhirMedicalEntity {
+  text: string;
+  type: string;
+  /** Offsets in the extracted text, when known */
+  start?: number;
+  end?: number;
+  confidence?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export type FhirResource = { resourceType: string; id: string; [key: string]: unknown };
+
+interface FhirSection {
+  title: string;
+  code?: { coding: Array<{ system: string; code: string; display: string }> };
+  text: { status: string; div: string };
+  entry?: Array<{ reference: string }>;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'document';
+  timestamp: string;
+  identifier: { system: string; value: string };
+  entry: Array<{ fullUrl: string; resource: FhirResource }>;
+}
+
+const ICD10_SYSTEM = 'http://hl7.org/fhir/sid/icd-10-cm';
+const ICD10_WHO_SYSTEM = 'http://hl7.org/fhir/sid/icd-10';
+const LOINC_SYSTEM = 'http://loinc.org';
+const MRN_SYSTEM = 'urn:xorstack:mrn';
+const SESSION_SYSTEM = 'urn:xorstack:session';
+
+// LOINC document section codes for common note sections
+const SECTION_LOINC: Record<string, { code: string; display: string }> = {
+  subjective: { code: '61150-9', display: 'Subjective Narrative' },
+  objective: { code: '61149-1', display: 'Objective Narrative' },
+  assessment: { code: '51848-0', display: 'Assessment note' },
+  plan: { code: '18776-5', display: 'Plan of care note' },
+  hpi: { code: '10164-2', display: 'History of Present illness Narrative' },
+  history_of_present_illness: { code: '10164-2', display: 'History of Present illness Narrative' },
+  chief_complaint: { code: '10154-3', display: 'Chief complaint Narrative - Reported' },
+  medications: { code: '10160-0', display: 'History of Medication use Narrative' },
+  allergies: { code: '48765-2', display: 'Allergies and adverse reactions Document' },
+  physical_exam: { code: '29545-1', display: 'Physical findings Narrative' },
+};
+
+/**
+ * Deterministic UUID-shaped id so repeated exports of the same session
+ * produce stable resource references.
+ */
+export function stableId(...parts: string[]): string {
+  const input = parts.join('|');
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193;
+  for (let i = 0; i < input.length; i++) {
+    const c = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 0x01000193) >>> 0;
+    h2 = Math.imul(h2 ^ c, 0x5bd1e995) >>> 0;
+  }
+  const hex = (h1.toString(16).padStart(8, '0') + h2.toString(16).padStart(8, '0')).repeat(2);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function escapeXhtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function narrative(text: string) {
+  const paragraphs = text
+    .split(/\n{2,}/)
+    .map(p => `<p>${escapeXhtml(p).replace(/\n/g, '<br/>')}</p>`)
+    .join('');
+  return {
+    status: 'generated',
+    div: `<div xmlns="http://www.w3.org/1999/xhtml">${paragraphs || '<p/>'}</div>`,
+  };
+}
+
+function toFhirDate(value: string | null): string | undefined {
+  if (!value) return undefined;
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (match) return match[1];
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString().slice(0, 10);
+}
+
+function toFhirDateTime(value: string | null): string {
+  const parsed = value ? new Date(value) : new Date();
+  return (isNaN(parsed.getTime()) ? new Date() : parsed).toISOString();
+}
+
+function splitName(fullName: string | null) {
+  const parts = (fullName || '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return [{ text: 'Unknown' }];
+  if (parts.length === 1) return [{ text: parts[0], family: parts[0] }];
+  return [{
+    use: 'official',
+    text: parts.join(' '),
+    family: parts[parts.length - 1],
+    given: parts.slice(0, -1),
+  }];
+}
+
+function buildPatient(session: FhirSessionInput): FhirResource {
+  const patient: FhirResource = {
+    resourceType: 'Patient',
+    id: stableId('patient', session.patient_id || session.patient_name || session.id),
+    name: splitName(session.patient_name),
+  };
+  if (session.patient_id) {
+    patient.identifier = [{
+      use: 'usual',
+      type: {
+        coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0203', code: 'MR', display: 'Medical record number' }],
+      },
+      system: MRN_SYSTEM,
+      value: session.patient_id,
+    }];
+  }
+  const birthDate = toFhirDate(session.patient_dob);
+  if (birthDate) patient.birthDate = birthDate;
+  return patient;
+}
+
+function buildPractitioner(author: FhirAuthorInput): FhirResource {
+  const practitioner: FhirResource = {
+    resourceType: 'Practitioner',
+    id: stableId('practitioner', author.id),
+    name: splitName(author.full_name || 'Unknown clinician'),
+  };
+  if (author.license_number) {
+    practitioner.identifier = [{ system: 'urn:xorstack:license', value: author.license_number }];
+  }
+  return practitioner;
+}
+
+function buildConditions(session: FhirSessionInput, patientRef: string, recordedDate: string): FhirResource[] {
+  return normalizeClinicalCodes(session.clinical_codes).map(code => ({
+    resourceType: 'Condition',
+    id: stableId('condition', session.id, code.code),
+    clinicalStatus: {
+      coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-clinical', code: 'active' }],
+    },
+    verificationStatus: {
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status',
+        code: code.confirmed ? 'confirmed' : 'provisional',
+      }],
+    },
+    category: [{
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/condition-category',
+        code: 'encounter-diagnosis',
+        display: 'Encounter Diagnosis',
+      }],
+    }],
+    code: {
+      coding: [{
+        system: code.system === 'ICD-10' ? ICD10_WHO_SYSTEM : ICD10_SYSTEM,
+        code: code.code,
+        ...(code.label ? { display: code.label } : {}),
+      }],
+      text: code.label || code.code,
+    },
+    subject: { reference: patientRef },
+    recordedDate,
+  }));
+}
+
+/**
+ * Dosage text for each medication entity: its own metadata.dosage, or a
+ * dosage entity that directly follows it in the text. A medication with no
+ * dose of its own gets none rather than a neighbour's.
+ */
+function pairDosages(entities: FhirMedicalEntity[]): Map<FhirMedicalEntity, string> {
+  const relevant = entities.filter(e => e.type === 'medication' || e.type === 'dosage');
+  const ordered = relevant.every(e => typeof e.start === 'number')
+    ? [...relevant].sort((a, b) => (a.start as number) - (b.start as number))
+    : relevant;
+
+  const dosages = new Map<FhirMedicalEntity, string>();
+  ordered.forEach((entity, idx) => {
+    if (entity.type !== 'medication') return;
+    if (typeof entity.metadata?.dosage === 'string') {
+      dosages.set(entity, entity.metadata.dosage as string);
+      return;
+    }
+    const next = ordered[idx + 1];
+    if (next?.type === 'dosage' && next.text?.trim()) dosages.set(entity, next.text.trim());
+  });
+  return dosages;
+}
+
+function buildMedicationStatements(
+  session: FhirSessionInput,
+  entities: FhirMedicalEntity[],
+  patientRef: string,
+  effective: string,
+): FhirResource[] {
+  const dosages = pairDosages(entities);
+  const byName = new Map<string, { entity: FhirMedicalEntity; dosage?: string }>();
+
+  for (const entity of entities) {
+    if (entity.type !== 'medication' || !entity.text?.trim()) continue;
+    const key = entity.text.trim().toLowerCase();
+    const existing = byName.get(key);
+    // Repeat mentions collapse into the first, which keeps the first dose found
+    if (!existing) byName.set(key, { entity, dosage: dosages.get(entity) });
+    else if (!existing.dosage) existing.dosage = dosages.get(entity);
+  }
+
+  return [...byName.values()].map(({ entity, dosage }) => {
+    const statement: FhirResource = {
+      resourceType: 'MedicationStatement',
+      id: stableId('medication', session.id, entity.text.trim().toLowerCase()),
+      status: 'active',
+      medicationCodeableConcept: { text: entity.text.trim() },
+      subject: { reference: patientRef },
+      effectiveDateTime: effective,
+      dateAsserted: effective,
+    };
+    if (dosage) statement.dosage = [{ text: dosage }];
+    return statement;
+  });
+}
+
+/**
+ * Build a FHIR R4 document Bundle for a session's generated note.
+ */
+export function buildFhirBundle(
+  session: FhirSessionInput,
+  author: FhirAuthorInput,
+  entities: FhirMedicalEntity[] = [],
+): FhirBundle {
+  const encounterDate = toFhirDateTime(session.scheduled_at || session.created_at);
+  const patient = buildPatient(session);
+  const practitioner = buildPractitioner(author);
+  const patientRef = `urn:uuid:${patient.id}`;
+  const practitionerRef = `urn:uuid:${practitioner.id}`;
+
+  const conditions = buildConditions(session, patientRef, encounterDate);
+  const medications = buildMedicationStatements(session, entities, patientRef, encounterDate);
+
+  const sections: FhirSection[] = getNoteSections(session.note_json)
+    .map(({ key, title, text }) => {
+      const loinc = SECTION_LOINC[key.toLowerCase()];
+      return {
+        title,
+        ...(loinc ? { code: { coding: [{ system: LOINC_SYSTEM, ...loinc }] } } : {}),
+        text: narrative(text),
+      };
+    });
+
+  // Fall back to the plaintext note when there is no structured output
+  if (sections.length === 0 && session.generated_note) {
+    sections.push({ title: 'Clinical Note', text: narrative(session.generated_note) });
+  }
+
+  if (conditions.length > 0) {
+    sections.push({
+      title: 'Diagnoses',
+      code: { coding: [{ system: LOINC_SYSTEM, code: '29548-5', display: 'Diagnosis Narrative' }] },
+      text: narrative(normalizeClinicalCodes(session.clinical_codes).map(c => `${c.code} ${c.label || ''}`.trim()).join('\n')),
+      entry: conditions.map(c => ({ reference: `urn:uuid:${c.id}` })),
+    });
+  }
+
+  if (medications.length > 0) {
+    sections.push({
+      title: 'Medications',
+      code: { coding: [{ system: LOINC_SYSTEM, ...SECTION_LOINC.medications }] },
+      text: narrative(medications.map(m => (m.medicationCodeableConcept as { text: string }).text).join('\n')),
+      entry: medications.map(m => ({ reference: `urn:uuid:${m.id}` })),
+    });
+  }
+
+  const composition: FhirResource = {
+    resourceType: 'Composition',
+    id: stableId('composition', session.id),
+    identifier: { system: SESSION_SYSTEM, value: session.id },
+    // A signed note is final; anything else may still change
+    status: session.signed_at ? 'final' : 'preliminary',
+    type: {
+      coding: [{ system: LOINC_SYSTEM, code: '11506-3', display: 'Progress note' }],
+      text: 'Clinical Note',
+    },
+    subject: { reference: patientRef },
+    date: encounterDate,
+    author: [{ reference: practitionerRef }],
+    title: 'Clinical Note',
+    section: sections,
+  };
+
+  const entry = [composition, patient, practitioner, ...conditions, ...medications].map(resource => ({
+    fullUrl: `urn:uuid:${resource.id}`,
+    resource,
+  }));
+
+  return {
+    resourceType: 'Bundle',
+    id: stableId('bundle', session.id),
+    type: 'document',
+    timestamp: new Date().toISOString(),
+    identifier: { system: SESSION_SYSTEM, value: session.id },
+    entry,
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * HL7 v2 serialization for clinical note exports
+ *
+ * Builds an MDM^T02 (original document notification and content) message
+ * with MSH, EVN, PID, PV1, TXA and one OBX per note section.
+ */
+
+import { getNoteSections, type ExportSession } from './note.ts';
+
+export interface Hl7FacilityConfig {
+  sending_application?: string | null;
+  sending_facility?: string | null;
+  receiving_application?: string | null;
+  receiving_facility?: string | null;
+}
+
+export interface Hl7Author {
+  id: string;
+  full_name?: string | null;
+}
+
+export interface MdmMessageInput {
+  session: ExportSession;
+  author: Hl7Author;
+  facility?: Hl7FacilityConfig | null;
+  controlId: string;
+  timestamp?: Date;
+  processingId?: 'P' | 'T' | 'D';
+}
+
+export interface Hl7Ack {
+  code: 'AA' | 'AE' | 'AR' | 'CA' | 'CE' | 'CR';
+  controlId: string;
+  text?: string;
+}
+
+export const HL7_CONTENT_TYPE = 'x-application/hl7-v2+er7';
+export const SEGMENT_SEPARATOR = '\r';
+
+const DEFAULT_SENDING_APPLICATION = 'XORSTACK';
+
+/**
+ * Escape HL7 delimiters in a field value using the standard escape sequences.
+ * Line breaks become the formatted-text `\.br\` command.
+ */
+export function escapeHl7(value: string): string {
+  return value
+    .replace(/\\/g, '\\E\\')
+    .replace(/\|/g, '\\F\\')
+    .replace(/\^/g, '\\S\\')
+    .replace(/&/g, '\\T\\')
+    .replace(/~/g, '\\R\\')
+    .replace(/\r\n|\r|\n/g, '\\.br\\');
+}
+
+export function unescapeHl7(value: string): string {
+  return value.replace(/\\(E|F|S|T|R|\.br)\\/g, (_, code) => ({
+    E: '\\',
+    F: '|',
+    S: '^',
+    T: '&',
+    R: '~',
+    '.br': '\n',
+  }[code as string] as string));
+}
+
+export function formatHl7Timestamp(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}+0000`;
+}
+
+function formatHl7Date(value: string | null): string {
+  if (!value) return '';
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? `${match[1]}${match[2]}${match[3]}` : '';
+}
+
+/**
+ * Family^Given components from a free-text name, each escaped.
+ */
+function personName(fullName: string | null | undefined): string {
+  const parts = (fullName || '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return '';
+  if (parts.length === 1) return escapeHl7(parts[0]);
+  return `${escapeHl7(parts[parts.length - 1])}^${escapeHl7(parts.slice(0, -1).join(' '))}`;
+}
+
+/**
+ * Join fields into a segment. `fields[0]` is field 1; components inside a
+ * field must already be escaped.
+ */
+function segment(name: string, fields: string[]): string {
+  let last = fields.length;
+  while (last > 0 && !fields[last - 1]) last--;
+  return [name, ...fields.slice(0, last)].join('|');
+}
+
+function fieldList(entries: Record<number, string>): string[] {
+  const max = Math.max(...Object.keys(entries).map(Number));
+  return Array.from({ length: max }, (_, i) => entries[i + 1] || '');
+}
+
+export function buildMdmT02(input: MdmMessageInput): string {
+  const { session, author, controlId } = input;
+  const facility = input.facility || {};
+  const timestamp = formatHl7Timestamp(input.timestamp || new Date());
+  const serviceDate = new Date(session.scheduled_at || session.created_at);
+  const serviceTimestamp = isNaN(serviceDate.getTime()) ? timestamp : formatHl7Timestamp(serviceDate);
+  const sendingFacility = escapeHl7(facility.sending_facility || '');
+  const provider = `${escapeHl7(author.id)}^${personName(author.full_name)}`;
+
+  // MSH-1 is the field separator itself, so key n below is MSH-(n+1)
+  const msh = 'MSH|' + fieldList({
+    1: '^~\\&',
+    2: escapeHl7(facility.sending_application || DEFAULT_SENDING_APPLICATION),
+    3: sendingFacility,
+    4: escapeHl7(facility.receiving_application || ''),
+    5: escapeHl7(facility.receiving_facility || ''),
+    6: timestamp,
+    8: 'MDM^T02^MDM_T02',
+    9: escapeHl7(controlId),
+    10: input.processingId || 'P',
+    11: '2.5.1',
+    14: 'AL',
+    15: 'NE',
+  }).join('|');
+
+  const evn = segment('EVN', fieldList({ 1: 'T02', 2: timestamp }));
+
+  const pid = segment('PID', fieldList({
+    1: '1',
+    3: session.patient_id ? `${escapeHl7(session.patient_id)}^^^${sendingFacility}^MR` : '',
+    5: personName(session.patient_name),
+    7: formatHl7Date(session.patient_dob),
+  }));
+
+  const pv1 = segment('PV1', fieldList({
+    1: '1',
+    2: 'O',
+    7: provider,
+    19: escapeHl7(session.id),
+    44: serviceTimestamp,
+  }));
+
+  const txa = segment('TXA', fieldList({
+    1: '1',
+    2: 'CN^Clinical Note^L',
+    3: 'FT',
+    4: serviceTimestamp,
+    5: provider,
+    6: serviceTimestamp,
+    9: provider,
+    12: escapeHl7(session.id),
+    17: 'DO',
+    19: 'AV',
+  }));
+
+  const sections = getNoteSections(session.note_json);
+  const observations = sections.length > 0
+    ? sections.map(section => ({ code: section.key, title: section.title, text: section.text }))
+    : [{ code: 'note', title: 'Clinical Note', text: session.generated_note || '' }];
+
+  const obx = observations.map((observation, index) => segment('OBX', fieldList({
+    1: String(index + 1),
+    2: 'FT',
+    3: `${escapeHl7(observation.code)}^${escapeHl7(observation.title)}^L`,
+    5: escapeHl7(observation.text),
+    11: 'F',
+    14: serviceTimestamp,
+  })));
+
+  return [msh, evn, pid, pv1, txa, ...obx].join(SEGMENT_SEPARATOR) + SEGMENT_SEPARATOR;
+}
+
+/**
+ * Parse the MSA segment of an acknowledgement message.
+ */
+export function parseAck(message: string): Hl7Ack | null {
+  const msa = message
+    .split(/\r\n|\r|\n/)
+    .find(line => line.startsWith('MSA|'));
+  if (!msa) return null;
+  const fields = msa.split('|');
+  return {
+    code: fields[1] as Hl7Ack['code'],
+    controlId: unescapeHl7(fields[2] || ''),
+    ...(fields[3] ? { text: unescapeHl7(fields[3]) } : {}),
+  };
+}
+
+/**
+ * Why an ACK means the message wasn't accepted, or null when it was: only
+ * AA and CA accept, and the ACK must answer the message that was sent
+ * (MSA-2 matching its MSH-10).
+ */
+export function ackFailure(ack: Hl7Ack, controlId: string): string | null {
+  if (ack.controlId !== controlId) {
+    return `Receiver acknowledged message ${ack.controlId || '(none)'} instead of ${controlId}`;
+  }
+  if (ack.code !== 'AA' && ack.code !== 'CA') {
+    return `Receiver rejected the message (${ack.code})${ack.text ? `: ${ack.text}` : ''}`;
+  }
+  return null;
+}
@@ -1,22 +1,99 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { buildFhirBundle, type FhirMedicalEntity } from "./fhir.ts";
+import { buildDocx, DOCX_CONTENT_TYPE } from "./docx.ts";
+import { buildNotePdf, loadPdfImage, type PdfLetterhead } from "./pdf.ts";
+import { ackFailure, buildMdmT02, HL7_CONTENT_TYPE, type Hl7Ack, type Hl7FacilityConfig } from "./hl7.ts";
+import { sendMllp } from "./mllp.ts";
+import { fetchLogoBytes } from "./logo.ts";
+import { enforceQuota, quotaExceededResponse } from "../_shared/quota.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+/**
+ * Letterhead for the user's active team, including the decoded logo if one is set
+ */
+async function loadTeamLetterhead(supabase: SupabaseClient, userId: string): Promise<PdfLetterhead | null> {
+  const { data: membership } = await supabase
+    .from('team_members')
+    .select('teams(name, logo_url, address)')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .order('joined_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  const team = membership?.teams as { name: string; logo_url: string | null; address: string | null } | null;
+  if (!team) return null;
+
+  let logo = null;
+  if (team.logo_url) {
+    try {
+      const allowedHosts = [
+        new URL(Deno.env.get('SUPABASE_URL') ?? 'https://invalid').hostname,
+        ...(Deno.env.get('LETTERHEAD_LOGO_HOSTS') ?? '').split(','),
+      ];
+      const bytes = await fetchLogoBytes(team.logo_url, { allowedHosts });
+      if (bytes) {
+        logo = await loadPdfImage(bytes);
+        if (!logo) console.log('Team logo is not a supported JPEG/PNG, skipping');
+      }
+    } catch (err) {
+      console.error('Failed to load team logo:', err);
+    }
+  }
+
+  return { name: team.name, address: team.address, logo };
+}
+
+interface TeamHl7Settings extends Hl7FacilityConfig {
+  mllp_host: string | null;
+  mllp_port: number | null;
+}
+
+/**
+ * HL7 facility IDs and MLLP endpoint for the user's active team
+ */
+async function loadTeamHl7Settings(supabase: SupabaseClient, userId: string): Promise<TeamHl7Settings | null> {
+  const { data: membership } = await supabase
+    .from('team_members')
+    .select('teams(hl7_sending_application, hl7_sending_facility, hl7_receiving_application, hl7_receiving_facility, hl7_mllp_host, hl7_mllp_port)')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .order('joined_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  const team = membership?.teams as Record<string, string | number | null> | null;
+  if (!team) return null;
+
+  return {
+    sending_application: team.hl7_sending_application as string | null,
+    sending_facility: team.hl7_sending_facility as string | null,
+    receiving_application: team.hl7_receiving_application as string | null,
+    receiving_facility: team.hl7_receiving_facility as string | null,
+    mllp_host: team.hl7_mllp_host as string | null,
+    mllp_port: team.hl7_mllp_port as number | null,
+  };
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
-  try {
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  // Set once the export is tracked, so a failure after that can be recorded
+  let exportRecordId: string | null = null;
 
+  try {
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) {
       throw new Error('Missing authorization header');
@@ -29,21 +106,36 @@ serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
-    const { session_id, format = 'txt', recipient_email } = await req.json();
+    const { session_id, format = 'txt', recipient_email, entities, preview = false, transmit = false } = await req.json();
 
     if (!session_id) {
       throw new Error('Missing required field: session_id');
     }
 
-    if (!['pdf', 'docx', 'txt'].includes(format)) {
-      throw new Error('Invalid format. Must be pdf, docx, or txt');
+    if (!['pdf', 'docx', 'txt', 'fhir', 'hl7'].includes(format)) {
+      throw new Error('Invalid format. Must be pdf, docx, txt, fhir, or hl7');
+    }
+
+    if (transmit && format !== 'hl7') {
+      throw new Error('Only hl7 exports can be transmitted');
+    }
+
+    // A preview is neither charged nor recorded, so it must not send anything
+    if (transmit && preview) {
+      throw new Error('Previews cannot be transmitted');
+    }
+
+    // Previews don't count as exports, so they aren't charged
+    const quota = preview ? null : await enforceQuota(supabase, user.id, 'export-note');
+    if (quota && !quota.allowed) {
+      return quotaExceededResponse(quota, corsHeaders);
     }
 
     // Get session data
     console.log('Fetching session:', session_id);
     const { data: session, error: sessionError } = await supabase
       .from('sessions')
-      .select('generated_note, patient_name, patient_id, scheduled_at, created_at')
+      .select('id, generated_note, note_json, clinical_codes, patient_name, patient_id, patient_dob, scheduled_at, created_at, signed_at')
       .eq('id', session_id)
       .eq('user_id', user.id)
       .maybeSingle();
@@ -64,32 +156,35 @@ serve(async (req) => {
     console.log('Session retrieved successfully');
 
     // Skip creating export record if table doesn't exist
-    let exportRecordId: string | null = null;
-    
-    try {
-      const { data: exportRecord, error: exportError } = await supabase
-        .from('exports')
-        .insert({
-          user_id: user.id,
-          session_id,
-          format,
-          status: 'pending',
-        })
-        .select()
-        .maybeSingle();
+    if (!preview) {
+      try {
+        const { data: exportRecord, error: exportError } = await supabase
+          .from('exports')
+          .insert({
+            user_id: user.id,
+            session_id,
+            format,
+            status: 'pending',
+          })
+          .select()
+          .maybeSingle();
 
-      if (!exportError && exportRecord) {
-        exportRecordId = exportRecord.id;
-        console.log('Export record created:', exportRecordId);
+        if (!exportError && exportRecord) {
+          exportRecordId = exportRecord.id;
+          console.log('Export record created:', exportRecordId);
+        }
+      } catch (err) {
+        console.log('Exports table not available, continuing without tracking');
       }
-    } catch (err) {
-      console.log('Exports table not available, continuing without tracking');
     }
 
     // Generate export content based on format
     let fileContent: Blob;
     let contentType: string;
     let fileName: string;
+    let ack: Hl7Ack | null = null;
+    // Problems the export worked around, reported with the result
+    const warnings: string[] = [];
 
     const sessionDate = session.scheduled_at || session.created_at;
     const noteContent = `
@@ -104,6 +199,13 @@ ${session.generated_note}
     
     console.log('Note content prepared, length:', noteContent.length);
 
+    // Clinician details for structured formats
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('full_name, license_number, specialty, organization')
+      .eq('id', user.id)
+      .maybeSingle();
+
     switch (format) {
       case 'txt':
         fileContent = new Blob([noteContent], { type: 'text/plain' });
@@ -111,85 +213,109 @@ ${session.generated_note}
         fileName = `clinical-note-${session_id}.txt`;
         break;
       
-      case 'pdf':
-        // Create HTML for better formatting
-        const htmlContent = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <style>
-    body { 
-      font-family: Arial, sans-serif; 
-      padding: 40px;
-      max-width: 800px;
-      margin: 0 auto;
-      line-height: 1.6;
-    }
-    h1 { 
-      color: #2563eb; 
-      border-bottom: 2px solid #2563eb;
-      padding-bottom: 10px;
-      margin-bottom: 20px;
-    }
-    .meta {
-      background: #f3f4f6;
-      padding: 15px;
-      border-radius: 8px;
-      margin-bottom: 20px;
-    }
-    .meta p {
-      margin: 5px 0;
-    }
-    .content { 
-      white-space: pre-wrap; 
-      background: #ffffff;
-      padding: 20px;
-      border: 1px solid #e5e7eb;
-      border-radius: 8px;
-    }
-    .footer {
-      margin-top: 40px;
-      padding-top: 20px;
-      border-top: 1px solid #e5e7eb;
-      color: #6b7280;
-      font-size: 12px;
-    }
-  </style>
-</head>
-<body>
-  <h1>Clinical Note</h1>
-  <div class="meta">
-    <p><strong>Patient:</strong> ${session.patient_name || 'N/A'}</p>
-    <p><strong>MRN:</strong> ${session.patient_id || 'N/A'}</p>
-    <p><strong>Date:</strong> ${new Date(sessionDate).toLocaleDateString()}</p>
-  </div>
-  <div class="content">${noteContent.replace(/\n/g, '<br>')}</div>
-  <div class="footer">
-    Generated by Xorstack Health Model<br>
-    AI-assisted documentation - Verify accuracy before clinical use
-  </div>
-</body>
-</html>
-        `;
-        fileContent = new Blob([htmlContent], { type: 'text/html' });
-        contentType = 'text/html';
-        fileName = `clinical-note-${session_id}.html`;
+      case 'pdf': {
+        const letterhead = await loadTeamLetterhead(supabase, user.id);
+        const pdfBytes = buildNotePdf({
+          session,
+          letterhead,
+          signer: profile || {},
+          signedAt: session.signed_at ? new Date(session.signed_at) : undefined,
+        });
+        fileContent = new Blob([pdfBytes], { type: 'application/pdf' });
+        contentType = 'application/pdf';
+        fileName = `clinical-note-${session_id}.pdf`;
         break;
-      
+      }
+
+      case 'fhir': {
+        // Prefer entities supplied by the caller; otherwise extract them from the note
+        let medicalEntities: FhirMedicalEntity[] = Array.isArray(entities) ? entities : [];
+        if (!Array.isArray(entities)) {
+          try {
+            const { data: extraction, error: extractionError } = await supabase.functions.invoke('extract-medical-entities', {
+              body: { text: session.generated_note },
+            });
+            if (extractionError || !extraction?.success) {
+              throw extractionError ?? new Error(extraction?.error?.message || 'Entity extraction failed');
+            }
+            medicalEntities = extraction.entities || [];
+          } catch (err) {
+            console.error('Entity extraction failed, exporting without medications:', err);
+            warnings.push('Medications could not be extracted from the note; the bundle has no MedicationStatements');
+          }
+        }
+
+        const bundle = buildFhirBundle(
+          session,
+          { id: user.id, full_name: profile?.full_name, license_number: profile?.license_number },
+          medicalEntities,
+        );
+        console.log('FHIR bundle built with', bundle.entry.length, 'resources');
+
+        fileContent = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+        contentType = 'application/fhir+json';
+        fileName = `clinical-note-${session_id}.fhir.json`;
+        break;
+      }
+
       case 'docx':
-        // DOCX - use simple text for now
-        fileContent = new Blob([noteContent], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
-        contentType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+        fileContent = new Blob([buildDocx(session, profile || {})], { type: DOCX_CONTENT_TYPE });
+        contentType = DOCX_CONTENT_TYPE;
         fileName = `clinical-note-${session_id}.docx`;
         break;
       
+      case 'hl7': {
+        const hl7Settings = await loadTeamHl7Settings(supabase, user.id);
+        const controlId = `${session_id.replace(/-/g, '').slice(0, 12)}${Date.now().toString(36)}`.toUpperCase();
+        const message = buildMdmT02({
+          session,
+          author: { id: user.id, full_name: profile?.full_name },
+          facility: hl7Settings,
+          controlId,
+        });
+
+        if (transmit) {
+          if (!hl7Settings?.mllp_host || !hl7Settings.mllp_port) {
+            throw new Error('No MLLP endpoint configured for your team');
+          }
+          ack = await sendMllp(message, { hostname: hl7Settings.mllp_host, port: hl7Settings.mllp_port });
+          console.log('MLLP ACK received:', ack.code, ack.controlId);
+          // The export is marked failed like any other error
+          const failure = ackFailure(ack, controlId);
+          if (failure) throw new Error(failure);
+        }
+
+        fileContent = new Blob([message], { type: HL7_CONTENT_TYPE });
+        contentType = HL7_CONTENT_TYPE;
+        fileName = `clinical-note-${session_id}.hl7`;
+        break;
+      }
+
       default:
         throw new Error('Unsupported format');
     }
     
     console.log('File created:', fileName, fileContent.size, 'bytes');
 
+    // Previews are returned inline and never stored or tracked
+    if (preview) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            content_base64: encodeBase64(new Uint8Array(await fileContent.arrayBuffer())),
+            content_type: contentType,
+            file_name: fileName,
+            ...(warnings.length > 0 ? { warnings } : {}),
+          },
+        }),
+        { 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
+    }
+
     // Upload to storage
     const filePath = `${user.id}/${fileName}`;
     console.log('Uploading to storage bucket:', filePath);
@@ -248,10 +374,12 @@ ${session.generated_note}
           url: file_url,
           export_id: exportRecordId,
           file_path: filePath,
+          ...(ack ? { ack } : {}),
+          ...(warnings.length > 0 ? { warnings } : {}),
         },
       }),
       { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        headers: { ...corsHeaders, ...quota?.headers, 'Content-Type': 'application/json' },
         status: 200,
       }
     );
@@ -259,6 +387,15 @@ ${session.generated_note}
   } catch (error) {
     console.error('Export-note function error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    // A tracked export that failed (e.g. an MLLP transmit) must not stay pending
+    if (exportRecordId) {
+      const { error: updateError } = await supabase
+        .from('exports')
+        .update({ status: 'failed' })
+        .eq('id', exportRecordId);
+      if (updateError) console.error('Failed to mark export as failed:', updateError);
+    }
     return new Response(
       JSON.stringify({
         success: false,
@@ -0,0 +1,86 @@
+/**
+ * Letterhead logo download
+ *
+ * teams.logo_url is entered by team admins and fetched server-side, so it is
+ * only fetched over HTTPS from allowed hosts (the project's own storage and
+ * any listed in LETTERHEAD_LOGO_HOSTS), without following redirects, within
+ * a time limit and up to a size cap.
+ */
+
+export const MAX_LOGO_BYTES = 512 * 1024;
+const LOGO_TIMEOUT_MS = 5000;
+
+/**
+ * Whether the URL may be fetched. Hosts match exactly; an entry starting
+ * with "." also matches its subdomains.
+ */
+export function isAllowedLogoUrl(url: string, allowedHosts: string[]): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'https:' || parsed.username || parsed.password || parsed.port) return false;
+
+  const host = parsed.hostname.toLowerCase();
+  return allowedHosts.some(entry => {
+    const allowed = entry.trim().toLowerCase();
+    if (!allowed) return false;
+    return allowed.startsWith('.') ? host.endsWith(allowed) : host === allowed;
+  });
+}
+
+/**
+ * The logo's bytes, or null when the URL isn't allowed, the request fails
+ * or the image is larger than maxBytes
+ */
+export async function fetchLogoBytes(
+  url: string,
+  {
+    allowedHosts,
+    maxBytes = MAX_LOGO_BYTES,
+    timeoutMs = LOGO_TIMEOUT_MS,
+    fetchImpl = fetch,
+  }: { allowedHosts: string[]; maxBytes?: number; timeoutMs?: number; fetchImpl?: typeof fetch }
+): Promise<Uint8Array | null> {
+  if (!isAllowedLogoUrl(url, allowedHosts)) {
+    console.log('Team logo host is not allowed, skipping');
+    return null;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetchImpl(url, { redirect: 'error', signal: controller.signal });
+    if (!response.ok || !response.body) return null;
+    if (Number(response.headers.get('content-length') ?? 0) > maxBytes) {
+      await response.body.cancel();
+      return null;
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.length;
+      if (total > maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+
+    const bytes = new Uint8Array(total);
+    let position = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, position);
+      position += chunk.length;
+    }
+    return bytes;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * MLLP (Minimal Lower Layer Protocol) transport for HL7 v2 messages
+ *
+ * Frames messages as <VT> message <FS><CR> and waits for the receiver's
+ * ACK. The connection is injectable so the sender can target a local
+ * stand-in listener in tests; it defaults to Deno.connect.
+ */
+
+import { parseAck, type Hl7Ack } from './hl7.ts';
+
+export interface MllpConnection {
+  write(data: Uint8Array): Promise<number>;
+  read(buffer: Uint8Array): Promise<number | null>;
+  close(): void;
+}
+
+export type MllpConnect = (options: { hostname: string; port: number }) => Promise<MllpConnection>;
+
+export interface MllpSendOptions {
+  hostname: string;
+  port: number;
+  timeoutMs?: number;
+  connect?: MllpConnect;
+}
+
+export const START_BLOCK = 0x0b;
+export const END_BLOCK = 0x1c;
+export const CARRIAGE_RETURN = 0x0d;
+
+export function frameMllp(message: string): Uint8Array {
+  const body = new TextEncoder().encode(message);
+  const framed = new Uint8Array(body.length + 3);
+  framed[0] = START_BLOCK;
+  framed.set(body, 1);
+  framed[body.length + 1] = END_BLOCK;
+  framed[body.length + 2] = CARRIAGE_RETURN;
+  return framed;
+}
+
+/**
+ * Extract complete frames from a byte buffer. Returns the decoded messages
+ * and any trailing bytes that belong to an incomplete frame.
+ */
+export function parseMllpFrames(buffer: Uint8Array): { messages: string[]; remainder: Uint8Array } {
+  const decoder = new TextDecoder();
+  const messages: string[] = [];
+  let position = 0;
+
+  while (position < buffer.length) {
+    const start = buffer.indexOf(START_BLOCK, position);
+    if (start === -1) {
+      position = buffer.length;
+      break;
+    }
+    let end = -1;
+    for (let i = start + 1; i < buffer.length - 1; i++) {
+      if (buffer[i] === END_BLOCK && buffer[i + 1] === CARRIAGE_RETURN) {
+        end = i;
+        break;
+      }
+    }
+    if (end === -1) {
+      position = start;
+      break;
+    }
+    messages.push(decoder.decode(buffer.subarray(start + 1, end)));
+    position = end + 2;
+  }
+
+  return { messages, remainder: buffer.slice(position) };
+}
+
+const denoConnect: MllpConnect = (options) =>
+  (globalThis as unknown as { Deno: { connect: MllpConnect } }).Deno.connect(options);
+
+/**
+ * Send one HL7 message over MLLP and resolve with the parsed ACK. The
+ * timeout covers connecting as well as the exchange, so an unreachable host
+ * fails like a silent one.
+ */
+export async function sendMllp(message: string, options: MllpSendOptions): Promise<Hl7Ack> {
+  const connect = options.connect || denoConnect;
+  const timeoutMs = options.timeoutMs ?? 10000;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let timedOut = false;
+  let connection: MllpConnection | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      timedOut = true;
+      reject(new Error(`MLLP ACK timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  const exchange = async (): Promise<Hl7Ack> => {
+    const opened = await connect({ hostname: options.hostname, port: options.port });
+    // A connection that opens after the deadline is closed straight away
+    if (timedOut) {
+      opened.close();
+      throw new Error('MLLP connection opened after the timeout');
+    }
+    connection = opened;
+
+    const framed = frameMllp(message);
+    let written = 0;
+    while (written < framed.length) {
+      written += await opened.write(framed.subarray(written));
+    }
+
+    let pending: Uint8Array = new Uint8Array(0);
+    const chunk = new Uint8Array(4096);
+    while (true) {
+      const read = await opened.read(chunk);
+      if (read === null) {
+        throw new Error('MLLP connection closed before an ACK was received');
+      }
+      const combined = new Uint8Array(pending.length + read);
+      combined.set(pending);
+      combined.set(chunk.subarray(0, read), pending.length);
+
+      const { messages, remainder } = parseMllpFrames(combined);
+      pending = remainder;
+      for (const response of messages) {
+        const ack = parseAck(response);
+        if (ack) return ack;
+      }
+    }
+  };
+
+  try {
+    return await Promise.race([exchange(), timeout]);
+  } finally {
+    clearTimeout(timer);
+    connection?.close();
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Shared helpers for reading session note data across export formats
+ */
+
+export interface ExportSession {
+  id: string;
+  patient_name: string | null;
+  patient_id: string | null;
+  patient_dob: string | null;
+  generated_note: string | null;
+  note_json: unknown;
+  clinical_codes: unknown;
+  scheduled_at: string | null;
+  created_at: string;
+  /** Set once the note is signed */
+  signed_at?: string | null;
+}
+
+export interface ClinicalCodeInput {
+  code: string;
+  label?: string;
+  system?: string;
+  confidence?: number;
+}
+
+export interface NoteSection {
+  key: string;
+  title: string;
+  text: string;
+}
+
+export function humanizeKey(key: string): string {
+  return key
+    .replace(/[_-]+/g, ' ')
+    .replace(/\b\w/g, c => c.toUpperCase())
+    .trim();
+}
+
+/**
+ * Flattens a note_json section value (string, list or nested object) into text.
+ */
+export function sectionText(value: unknown): string {
+  if (value == null) return '';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(sectionText).filter(Boolean).join('\n');
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([k, v]) => `${humanizeKey(k)}: ${sectionText(v)}`)
+      .join('\n');
+  }
+  return String(value);
+}
+
+/**
+ * Non-empty sections of `sessions.note_json` in their stored order.
+ */
+export function getNoteSections(noteJson: unknown): NoteSection[] {
+  if (!noteJson || typeof noteJson !== 'object' || Array.isArray(noteJson)) {
+    return [];
+  }
+  return Object.entries(noteJson as Record<string, unknown>)
+    .map(([key, value]) => ({ key, title: humanizeKey(key), text: sectionText(value).trim() }))
+    .filter(section => section.text.length > 0);
+}
+
+/**
+ * Normalizes the two shapes `sessions.clinical_codes` is stored in:
+ * a bare array (SessionReview) or `{ suggested, confirmed }` (suggest-codes).
+ */
+export function normalizeClinicalCodes(raw: unknown): Array<ClinicalCodeInput & { confirmed: boolean }> {
+  if (!raw) return [];
+  if (Array.isArray(raw)) {
+    return raw
+      .filter((c): c is ClinicalCodeInput => !!c && typeof c.code === 'string')
+      .map(c => ({ ...c, confirmed: false }));
+  }
+  if (typeof raw === 'object') {
+    const { suggested = [], confirmed = [] } = raw as { suggested?: ClinicalCodeInput[]; confirmed?: ClinicalCodeInput[] };
+    const confirmedCodes = new Set(confirmed.map(c => c?.code));
+    return [
+      ...confirmed.filter(c => c?.code).map(c => ({ ...c, confirmed: true })),
+      ...suggested.filter(c => c?.code && !confirmedCodes.has(c.code)).map(c => ({ ...c, confirmed: false })),
+    ];
+  }
+  return [];
+}
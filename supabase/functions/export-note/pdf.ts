@@ -0,0 +1,554 @@
+/**
+ * PDF rendering for clinical note exports
+ *
+ * A small PDF 1.4 writer using the standard Helvetica fonts, so the edge
+ * function can return real PDF bytes without a headless browser. Handles
+ * team letterhead (logo + address), text wrapping and pagination with a
+ * patient identifier footer and page numbers on every page.
+ */
+
+import {
+  getNoteSections,
+  normalizeClinicalCodes,
+  type ExportSession,
+} from './note.ts';
+
+export interface PdfImage {
+  width: number;
+  height: number;
+  colorSpace: 'DeviceGray' | 'DeviceRGB' | 'DeviceCMYK';
+  filter: 'DCTDecode' | 'FlateDecode';
+  decodeParms?: string;
+  data: Uint8Array;
+  // Deflated 8-bit alpha channel, used as a soft mask
+  alpha?: Uint8Array;
+}
+
+export interface PdfLetterhead {
+  name?: string | null;
+  address?: string | null;
+  logo?: PdfImage | null;
+}
+
+export interface PdfSigner {
+  full_name?: string | null;
+  specialty?: string | null;
+  license_number?: string | null;
+}
+
+export interface NotePdfInput {
+  session: ExportSession;
+  letterhead?: PdfLetterhead | null;
+  signer: PdfSigner;
+  /** When the note was signed; without it the PDF is marked as an unsigned draft */
+  signedAt?: Date;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_TOP = MARGIN + 24;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32..126 from the standard AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Helvetica-Bold runs slightly wider; scale rather than carry a second table
+const BOLD_FACTOR = 1.07;
+
+// Unicode punctuation that WinAnsiEncoding places in the 0x80-0x9F range
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85,
+  '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a,
+  '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c,
+  'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+type Font = 'F1' | 'F2';
+
+function charCode(ch: string): number {
+  const code = ch.charCodeAt(0);
+  if (code >= 0x20 && code <= 0x7e) return code;
+  if (code >= 0xa0 && code <= 0xff) return code;
+  return WIN_ANSI_EXTRAS[ch] ?? 0x3f;
+}
+
+export function measureText(text: string, size: number, font: Font = 'F1'): number {
+  let units = 0;
+  for (const ch of text) {
+    const code = charCode(ch);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units * size / 1000) * (font === 'F2' ? BOLD_FACTOR : 1);
+}
+
+/**
+ * Encode text as a PDF literal string in WinAnsiEncoding.
+ */
+export function pdfString(text: string): string {
+  let out = '(';
+  for (const ch of text) {
+    const code = charCode(ch);
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      out += '\\' + String.fromCharCode(code);
+    } else if (code > 0x7e) {
+      out += '\\' + code.toString(8).padStart(3, '0');
+    } else {
+      out += String.fromCharCode(code);
+    }
+  }
+  return out + ')';
+}
+
+export function wrapText(text: string, size: number, maxWidth: number, font: Font = 'F1'): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.replace(/\t/g, '    ').split('\n')) {
+    const words = paragraph.split(/ +/);
+    let line = '';
+    for (const word of words) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Hard-break words longer than a full line
+      let rest = word;
+      while (measureText(rest, size, font) > maxWidth) {
+        let cut = rest.length - 1;
+        while (cut > 1 && measureText(rest.slice(0, cut), size, font) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function formatDate(value: string | null): string {
+  if (!value) return 'N/A';
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? value : parsed.toISOString().slice(0, 10);
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+class PageLayout {
+  pages: string[][] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  get cursor(): number {
+    return this.y;
+  }
+
+  newPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < FOOTER_TOP) this.newPage();
+  }
+
+  moveDown(amount: number) {
+    this.y -= amount;
+  }
+
+  text(value: string, options: { size: number; font?: Font; x?: number; color?: string }) {
+    const font = options.font || 'F1';
+    const color = options.color || '0 0 0';
+    this.current.push(
+      `BT ${color} rg /${font} ${num(options.size)} Tf ${num(options.x ?? MARGIN)} ${num(this.y)} Td ${pdfString(value)} Tj ET`
+    );
+  }
+
+  paragraph(value: string, options: { size: number; font?: Font; leading?: number; color?: string; indent?: number }) {
+    const leading = options.leading ?? options.size * 1.4;
+    const indent = options.indent ?? 0;
+    for (const line of wrapText(value, options.size, CONTENT_WIDTH - indent, options.font)) {
+      this.ensureSpace(leading);
+      this.moveDown(leading);
+      this.text(line, { ...options, x: MARGIN + indent });
+    }
+  }
+
+  rule(gray = 0.8) {
+    this.current.push(`${gray} G 0.75 w ${MARGIN} ${num(this.y)} m ${PAGE_WIDTH - MARGIN} ${num(this.y)} l S`);
+  }
+
+  image(name: string, x: number, y: number, width: number, height: number) {
+    this.current.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(y)} cm /${name} Do Q`);
+  }
+}
+
+function drawLetterhead(layout: PageLayout, letterhead: PdfLetterhead) {
+  let textX = MARGIN;
+  const top = layout.cursor;
+  let blockHeight = 0;
+
+  if (letterhead.logo) {
+    // Fit within 160x44pt, preserving aspect ratio
+    const scale = Math.min(44 / letterhead.logo.height, 160 / letterhead.logo.width);
+    const width = letterhead.logo.width * scale;
+    const height = letterhead.logo.height * scale;
+    layout.image('Im1', MARGIN, top - height, width, height);
+    textX = MARGIN + width + 14;
+    blockHeight = height;
+  }
+
+  let textHeight = 0;
+  if (letterhead.name) {
+    layout.moveDown(14);
+    textHeight += 14;
+    layout.text(letterhead.name, { size: 14, font: 'F2', x: textX, color: '0.12 0.16 0.22' });
+  }
+  for (const line of (letterhead.address || '').split('\n').map(l => l.trim()).filter(Boolean)) {
+    layout.moveDown(12);
+    textHeight += 12;
+    layout.text(line, { size: 9, x: textX, color: '0.42 0.45 0.5' });
+  }
+
+  layout.moveDown(Math.max(blockHeight - textHeight, 0) + 10);
+  layout.rule();
+  layout.moveDown(8);
+}
+
+function drawFooter(commands: string[], session: ExportSession, page: number, total: number) {
+  const identifier = [
+    `Patient: ${session.patient_name || 'N/A'}`,
+    `MRN: ${session.patient_id || 'N/A'}`,
+    `DOB: ${formatDate(session.patient_dob)}`,
+  ].join('  |  ');
+  const pageLabel = `Page ${page} of ${total}`;
+  const footerY = MARGIN;
+
+  commands.push(`0.85 G 0.5 w ${MARGIN} ${footerY + 14} m ${PAGE_WIDTH - MARGIN} ${footerY + 14} l S`);
+  commands.push(`BT 0.42 0.45 0.5 rg /F1 8 Tf ${MARGIN} ${footerY} Td ${pdfString(identifier)} Tj ET`);
+  commands.push(
+    `BT 0.42 0.45 0.5 rg /F1 8 Tf ${num(PAGE_WIDTH - MARGIN - measureText(pageLabel, 8))} ${footerY} Td ${pdfString(pageLabel)} Tj ET`
+  );
+  commands.push(
+    `BT 0.6 0.62 0.66 rg /F1 7 Tf ${MARGIN} ${footerY - 11} Td ${pdfString('AI-assisted documentation - Verify accuracy before clinical use')} Tj ET`
+  );
+}
+
+/**
+ * Lay out the note into page content streams.
+ */
+export function layoutNote(input: NotePdfInput): string[] {
+  const { session, letterhead, signer } = input;
+  const layout = new PageLayout();
+
+  if (letterhead && (letterhead.name || letterhead.address || letterhead.logo)) {
+    drawLetterhead(layout, letterhead);
+  }
+
+  layout.moveDown(22);
+  layout.text('Clinical Note', { size: 18, font: 'F2', color: '0.15 0.39 0.92' });
+  layout.moveDown(6);
+
+  const meta: Array<[string, string]> = [
+    ['Patient', session.patient_name || 'N/A'],
+    ['MRN', session.patient_id || 'N/A'],
+    ['Date of Birth', formatDate(session.patient_dob)],
+    ['Date of Service', formatDate(session.scheduled_at || session.created_at)],
+  ];
+  for (const [label, value] of meta) {
+    layout.moveDown(14);
+    layout.text(`${label}:`, { size: 10, font: 'F2' });
+    layout.text(value, { size: 10, x: MARGIN + 90 });
+  }
+  layout.moveDown(10);
+  layout.rule();
+
+  const sections = getNoteSections(session.note_json);
+  const blocks = sections.length > 0
+    ? sections
+    : [{ key: 'note', title: 'Clinical Note', text: session.generated_note || '' }];
+
+  for (const block of blocks) {
+    // Keep a heading with at least two lines of its body
+    layout.ensureSpace(18 + 28);
+    layout.moveDown(18);
+    layout.text(block.title, { size: 12, font: 'F2', color: '0.12 0.16 0.22' });
+    layout.moveDown(2);
+    layout.paragraph(block.text, { size: 10, leading: 14 });
+  }
+
+  const codes = normalizeClinicalCodes(session.clinical_codes);
+  if (codes.length > 0) {
+    layout.ensureSpace(18 + 28);
+    layout.moveDown(18);
+    layout.text('Diagnoses (ICD-10)', { size: 12, font: 'F2', color: '0.12 0.16 0.22' });
+    layout.moveDown(2);
+    for (const code of codes) {
+      const status = code.confirmed ? 'Confirmed' : 'Suggested';
+      layout.paragraph(`${code.code} ${code.label || ''} (${status})`, { size: 10, leading: 14 });
+    }
+  }
+
+  // Signed-by block stays together on one page. Only a signed note carries
+  // a signature; a draft says so and gives when it was printed.
+  const clinician = [signer.full_name || 'Unknown clinician', signer.specialty].filter(Boolean).join(', ');
+  const formatUtc = (date: Date) => `${date.toISOString().replace('T', ' ').slice(0, 16)} UTC`;
+  const signatureLines = [
+    input.signedAt ? `Electronically signed by: ${clinician}` : `Unsigned draft. Prepared by: ${clinician}`,
+    ...(signer.license_number ? [`License: ${signer.license_number}`] : []),
+    input.signedAt ? `Date: ${formatUtc(input.signedAt)}` : `Printed: ${formatUtc(new Date())}`,
+  ];
+  layout.ensureSpace(30 + signatureLines.length * 14);
+  layout.moveDown(24);
+  layout.rule(0.6);
+  for (const [index, line] of signatureLines.entries()) {
+    layout.moveDown(14);
+    layout.text(line, { size: 10, font: index === 0 ? 'F2' : 'F1' });
+  }
+
+  const total = layout.pages.length;
+  return layout.pages.map((commands, index) => {
+    drawFooter(commands, session, index + 1, total);
+    return commands.join('\n');
+  });
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
+
+/**
+ * Render the note to PDF bytes.
+ */
+export function buildNotePdf(input: NotePdfInput): Uint8Array {
+  const encoder = new TextEncoder();
+  const pageStreams = layoutNote(input);
+  const logo = input.letterhead?.logo || null;
+
+  type PdfObject = { dict: string; stream?: Uint8Array };
+  const objects: PdfObject[] = [];
+  const add = (object: PdfObject) => objects.push(object);
+
+  // Fixed object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info
+  add({ dict: '<< /Type /Catalog /Pages 2 0 R >>' });
+  add({ dict: '' }); // page tree, filled in once page numbers are known
+  add({ dict: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>' });
+  add({ dict: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>' });
+  add({ dict: `<< /Title ${pdfString('Clinical Note')} /Producer ${pdfString('Xorstack Health Model')} >>` });
+
+  let xObjects = '';
+  if (logo) {
+    let smask = '';
+    if (logo.alpha) {
+      add({
+        dict: `<< /Type /XObject /Subtype /Image /Width ${logo.width} /Height ${logo.height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode /Length ${logo.alpha.length} >>`,
+        stream: logo.alpha,
+      });
+      smask = ` /SMask ${objects.length} 0 R`;
+    }
+    const parms = logo.decodeParms ? ` /DecodeParms ${logo.decodeParms}` : '';
+    add({
+      dict: `<< /Type /XObject /Subtype /Image /Width ${logo.width} /Height ${logo.height} /ColorSpace /${logo.colorSpace} /BitsPerComponent 8 /Filter /${logo.filter}${parms}${smask} /Length ${logo.data.length} >>`,
+      stream: logo.data,
+    });
+    xObjects = ` /XObject << /Im1 ${objects.length} 0 R >>`;
+  }
+
+  const pageRefs: number[] = [];
+  for (const content of pageStreams) {
+    const bytes = encoder.encode(content);
+    add({ dict: `<< /Length ${bytes.length} >>`, stream: bytes });
+    const contentRef = objects.length;
+    add({
+      dict: `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${contentRef} 0 R >>`,
+    });
+    pageRefs.push(objects.length);
+  }
+  objects[1].dict = `<< /Type /Pages /Kids [${pageRefs.map(ref => `${ref} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`;
+
+  const parts: Uint8Array[] = [encoder.encode('%PDF-1.4\n%âãÏÓ\n')];
+  let offset = parts[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(offset);
+    const chunk = object.stream
+      ? concatBytes([
+        encoder.encode(`${index + 1} 0 obj\n${object.dict}\nstream\n`),
+        object.stream,
+        encoder.encode('\nendstream\nendobj\n'),
+      ])
+      : encoder.encode(`${index + 1} 0 obj\n${object.dict}\nendobj\n`);
+    parts.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+    '',
+  ].join('\n');
+  parts.push(encoder.encode(xref));
+
+  return concatBytes(parts);
+}
+
+async function pipeBytes(data: Uint8Array, transform: TransformStream<Uint8Array, Uint8Array>): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function parseJpeg(bytes: Uint8Array): PdfImage | null {
+  let i = 2;
+  while (i + 9 < bytes.length) {
+    if (bytes[i] !== 0xff) return null;
+    const marker = bytes[i + 1];
+    const length = (bytes[i + 2] << 8) | bytes[i + 3];
+    // SOF0-SOF2 carry the frame dimensions
+    if (marker >= 0xc0 && marker <= 0xc2) {
+      const height = (bytes[i + 5] << 8) | bytes[i + 6];
+      const width = (bytes[i + 7] << 8) | bytes[i + 8];
+      const components = bytes[i + 9];
+      const colorSpace = components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB';
+      return { width, height, colorSpace, filter: 'DCTDecode', data: bytes };
+    }
+    i += 2 + length;
+  }
+  return null;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+function unfilterPng(data: Uint8Array, width: number, height: number, bpp: number): Uint8Array {
+  const stride = width * bpp;
+  const output = new Uint8Array(stride * height);
+  for (let row = 0; row < height; row++) {
+    const filter = data[row * (stride + 1)];
+    const src = row * (stride + 1) + 1;
+    const dst = row * stride;
+    for (let x = 0; x < stride; x++) {
+      const raw = data[src + x];
+      const a = x >= bpp ? output[dst + x - bpp] : 0;
+      const b = row > 0 ? output[dst - stride + x] : 0;
+      const c = row > 0 && x >= bpp ? output[dst - stride + x - bpp] : 0;
+      const predictor = filter === 1 ? a : filter === 2 ? b : filter === 3 ? (a + b) >> 1 : filter === 4 ? paeth(a, b, c) : 0;
+      output[dst + x] = (raw + predictor) & 0xff;
+    }
+  }
+  return output;
+}
+
+async function parsePng(bytes: Uint8Array): Promise<PdfImage | null> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  const idat: Uint8Array[] = [];
+
+  for (let i = 8; i + 8 <= bytes.length;) {
+    const length = view.getUint32(i);
+    const type = String.fromCharCode(...bytes.subarray(i + 4, i + 8));
+    const data = bytes.subarray(i + 8, i + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(i + 8);
+      height = view.getUint32(i + 12);
+      bitDepth = data[8];
+      colorType = data[9];
+      interlace = data[12];
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    i += 12 + length;
+  }
+
+  // Palette, 16-bit and interlaced images are not supported
+  if (bitDepth !== 8 || interlace !== 0 || ![0, 2, 4, 6].includes(colorType)) return null;
+
+  const compressed = concatBytes(idat);
+  const colors = colorType === 0 || colorType === 4 ? 1 : 3;
+  const colorSpace = colors === 1 ? 'DeviceGray' : 'DeviceRGB';
+
+  if (colorType === 0 || colorType === 2) {
+    return {
+      width,
+      height,
+      colorSpace,
+      filter: 'FlateDecode',
+      decodeParms: `<< /Predictor 15 /Colors ${colors} /BitsPerComponent 8 /Columns ${width} >>`,
+      data: compressed,
+    };
+  }
+
+  // Split the alpha channel out into a separate soft mask
+  const bpp = colors + 1;
+  const pixels = unfilterPng(await pipeBytes(compressed, new DecompressionStream('deflate')), width, height, bpp);
+  const color = new Uint8Array(width * height * colors);
+  const alpha = new Uint8Array(width * height);
+  for (let p = 0; p < width * height; p++) {
+    for (let ch = 0; ch < colors; ch++) color[p * colors + ch] = pixels[p * bpp + ch];
+    alpha[p] = pixels[p * bpp + colors];
+  }
+
+  return {
+    width,
+    height,
+    colorSpace,
+    filter: 'FlateDecode',
+    data: await pipeBytes(color, new CompressionStream('deflate')),
+    alpha: await pipeBytes(alpha, new CompressionStream('deflate')),
+  };
+}
+
+/**
+ * Prepare a JPEG or PNG logo for embedding. Returns null for unsupported images.
+ */
+export async function loadPdfImage(bytes: Uint8Array): Promise<PdfImage | null> {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return parseJpeg(bytes);
+  }
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return parsePng(bytes);
+  }
+  return null;
+}
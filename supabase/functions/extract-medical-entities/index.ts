@@ -1,5 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deidentifyMessages, reidentifyValue } from "../_shared/phi.ts";
+import { anchorEntities, normalizeMedicationEntities } from "../_shared/medications.ts";
+import { providerUrl } from "../_shared/providers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -21,12 +25,37 @@ serve(async (req) => {
   }
 
   try {
-    const { text, segments } = await req.json();
+    // With session_id the entities are saved for the session, replacing
+    // earlier runs, and medications are normalized for reconciliation
+    const { text, segments, session_id } = await req.json();
 
     if (!text) {
       throw new Error('No text provided for entity extraction');
     }
 
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    if (session_id) {
+      const authHeader = req.headers.get('Authorization');
+      const { data: { user } } = await supabase.auth.getUser(authHeader?.replace('Bearer ', '') ?? '');
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+
+      const { data: session } = await supabase
+        .from('sessions')
+        .select('id')
+        .eq('id', session_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (!session) {
+        throw new Error('Session not found');
+      }
+    }
+
     const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
     if (!LOVABLE_API_KEY) {
       throw new Error('LOVABLE_API_KEY not configured');
@@ -48,7 +77,15 @@ Entity types to identify:
 
 Return entities with their exact position in text and confidence score (0-1).`;
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+    const { messages, mapping } = deidentifyMessages([
+      { role: 'system', content: systemPrompt },
+      {
+        role: 'user',
+        content: `Extract all medical entities from this clinical transcript:\n\n${text}`
+      }
+    ]);
+
+    const response = await fetch(providerUrl('lovable_ai', '/v1/chat/completions'), {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${LOVABLE_API_KEY}`,
@@ -56,13 +93,7 @@ Return entities with their exact position in text and confidence score (0-1).`;
       },
       body: JSON.stringify({
         model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { 
-            role: 'user', 
-            content: `Extract all medical entities from this clinical transcript:\n\n${text}` 
-          }
-        ],
+        messages,
         tools: [{
           type: 'function',
           function: {
@@ -128,10 +159,41 @@ Return entities with their exact position in text and confidence score (0-1).`;
       throw new Error('No entities extracted from AI response');
     }
 
-    const entities: MedicalEntity[] = JSON.parse(toolCall.function.arguments).entities;
+    const extracted: MedicalEntity[] = reidentifyValue(JSON.parse(toolCall.function.arguments).entities, mapping);
+
+    // Offsets refer to the de-identified text; re-anchor them on the original transcript
+    const entities = anchorEntities(text, extracted);
 
     console.log(`✅ Extracted ${entities.length} medical entities`);
 
+    const medications = normalizeMedicationEntities(entities);
+
+    if (session_id) {
+      const medicationByStart = new Map(medications.map(medication => [medication.source_start, medication]));
+
+      // Replaced in one transaction, so a failed run keeps the previous entities
+      const { error: replaceError } = await supabase.rpc('replace_session_entities', {
+        _session_id: session_id,
+        _entities: entities.map(entity => {
+          // Only the mention each drug was normalized from carries its fields
+          const medication = entity.type === 'medication' ? medicationByStart.get(entity.start) : undefined;
+          return {
+            entity_type: entity.type,
+            text: entity.text,
+            start_offset: entity.start,
+            end_offset: entity.end,
+            confidence: entity.confidence,
+            metadata: entity.metadata ?? null,
+            drug_name: medication?.drug_name ?? null,
+            dose: medication?.dose ?? null,
+            route: medication?.route ?? null,
+            frequency: medication?.frequency ?? null,
+          };
+        }),
+      });
+      if (replaceError) throw replaceError;
+    }
+
     // Calculate entity statistics
     const entityStats = entities.reduce((acc, entity) => {
       acc[entity.type] = (acc[entity.type] || 0) + 1;
@@ -142,6 +204,7 @@ Return entities with their exact position in text and confidence score (0-1).`;
       JSON.stringify({
         success: true,
         entities,
+        medications,
         statistics: {
           total_entities: entities.length,
           by_type: entityStats,
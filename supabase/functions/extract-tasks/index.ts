@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deidentifyMessages, reidentifyValue } from "../_shared/phi.ts";
+import { providerUrl } from "../_shared/providers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -29,7 +31,8 @@ serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
-    const { session_id, note_text } = await req.json();
+    // persist: false returns the tasks without inserting them (pseudonymized input)
+    const { session_id, note_text, persist = true } = await req.json();
 
     if (!session_id || !note_text) {
       throw new Error('Missing required fields: session_id, note_text');
@@ -37,6 +40,14 @@ serve(async (req) => {
 
     const startTime = Date.now();
 
+    // Known identifiers are scrubbed in addition to the PHI the engine detects
+    const { data: session } = await supabase
+      .from('sessions')
+      .select('patient_name, patient_id, patient_dob')
+      .eq('id', session_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
     // Call Lovable AI with tool calling for structured extraction
     const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
     if (!LOVABLE_API_KEY) {
@@ -45,18 +56,11 @@ serve(async (req) => {
 
     console.log('🤖 Calling Lovable AI for task extraction...');
     
-    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: `Extract actionable follow-up tasks from clinical notes with high precision.
+    const { messages, mapping } = deidentifyMessages(
+      [
+        {
+          role: 'system',
+          content: `Extract actionable follow-up tasks from clinical notes with high precision.
 
 TASK CATEGORIES:
 - diagnostic: Lab work, imaging, tests
@@ -76,12 +80,24 @@ Extract tasks that are:
 2. Clinically necessary based on findings
 3. Actionable and specific
 4. Patient-safety relevant`
-          },
-          {
-            role: 'user',
-            content: `Extract follow-up tasks from this clinical note:\n\n${note_text}`
-          }
-        ],
+        },
+        {
+          role: 'user',
+          content: `Extract follow-up tasks from this clinical note:\n\n${note_text}`
+        }
+      ],
+      { patient_name: session?.patient_name, patient_id: session?.patient_id, dob: session?.patient_dob }
+    );
+
+    const aiResponse = await fetch(providerUrl('lovable_ai', '/v1/chat/completions'), {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'google/gemini-2.5-flash',
+        messages,
         tools: [{
           type: 'function',
           function: {
@@ -141,7 +157,7 @@ Extract tasks that are:
           ? toolCall.function.arguments 
           : JSON.stringify(toolCall.function.arguments);
         const parsed = JSON.parse(argsString);
-        extractedTasks = parsed.tasks || [];
+        extractedTasks = reidentifyValue(parsed.tasks || [], mapping);
         console.log(`Successfully extracted ${extractedTasks.length} tasks`);
       } catch (e) {
         console.error('Failed to parse tool response:', e);
@@ -165,7 +181,7 @@ Extract tasks that are:
       status: 'pending'
     }));
 
-    if (tasksToInsert.length > 0) {
+    if (persist && tasksToInsert.length > 0) {
       const { error: insertError } = await supabase
         .from('tasks')
         .insert(tasksToInsert);
@@ -1,11 +1,118 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createStreamReidentifier, deidentifyMessages, reidentifyValue } from "../_shared/phi.ts";
+import {
+  BUILT_IN_TEMPLATES,
+  buildPriorVisitGuidance,
+  buildTemplatePromptSpec,
+  normalizeTemplateStructure,
+  resolveTemplateSections,
+  usesPriorVisits,
+} from "../_shared/noteTemplate.ts";
+import {
+  MAX_SECTION_REASKS,
+  buildSectionReaskPrompt,
+  mergeReaskedSections,
+  normalizeNoteOutput,
+  parseNoteOutput,
+  remainingNoteIssues,
+  sectionsToReask,
+  type NoteValidationOutcome,
+  type StructuredNote,
+} from "../_shared/noteValidation.ts";
+import { buildNoteEvidence, formatSegmentsForPrompt, type EvidenceSegment } from "../_shared/noteEvidence.ts";
+import { providerUrl } from "../_shared/providers.ts";
+import { enforceQuota, quotaExceededResponse } from "../_shared/quota.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const AI_MODEL = 'google/gemini-2.5-flash';
+
+type ChatMessage = { role: string; content: string };
+
+async function callGateway(apiKey: string, messages: ChatMessage[], stream = false, signal?: AbortSignal) {
+  const aiResponse = await fetch(providerUrl('lovable_ai', '/v1/chat/completions'), {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: AI_MODEL,
+      messages,
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    }),
+    signal,
+  });
+
+  if (!aiResponse.ok) {
+    const errorText = await aiResponse.text();
+    console.error('AI API error:', aiResponse.status, errorText);
+    
+    if (aiResponse.status === 429) {
+      throw new Error('Rate limit exceeded. Please try again later.');
+    }
+    if (aiResponse.status === 402) {
+      throw new Error('Payment required. Please add credits to your Lovable AI workspace.');
+    }
+    throw new Error('AI generation failed');
+  }
+
+  return aiResponse;
+}
+
+async function requestCompletion(apiKey: string, messages: ChatMessage[]) {
+  const aiResponse = await callGateway(apiKey, messages);
+  const aiData = await aiResponse.json();
+  return {
+    content: (aiData.choices?.[0]?.message?.content || '') as string,
+    tokens: (aiData.usage?.total_tokens || 0) as number,
+  };
+}
+
+/**
+ * Read a streamed completion, handing each content delta to onDelta
+ */
+async function readCompletionStream(body: ReadableStream<Uint8Array>, onDelta: (content: string) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  let tokens = 0;
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data: ')) return;
+    const payload = line.slice(6).trim();
+    if (payload === '[DONE]') return;
+    try {
+      const event = JSON.parse(payload);
+      const delta = event.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (event.usage?.total_tokens) tokens = event.usage.total_tokens;
+    } catch {
+      // Ignore keep-alives and partial events
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  if (buffer) handleLine(buffer);
+
+  return { content, tokens };
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -32,15 +139,50 @@ serve(async (req) => {
     }
 
     const requestData = await req.json();
-    const { session_id, transcript_text, detail_level = 'medium', template_id } = requestData;
+    // persist: false returns the note without saving it, for clients that send
+    // pseudonymized transcripts and re-hydrate the note before saving it themselves.
+    // stream: true sends the note as server-sent events while it is written.
+    // transcript_segments are the session_transcripts rows the note is linked
+    // to; when absent they are loaded from the session.
+    // prior_visits summarizes the patient's earlier visits; it is used by
+    // templates with an interval history and ignored by the rest
+    const {
+      session_id,
+      transcript_text,
+      transcript_segments,
+      prior_visits,
+      detail_level = 'medium',
+      template_id,
+      persist = true,
+      stream = false,
+    } = requestData;
 
     if (!session_id || !transcript_text) {
       throw new Error('Missing required fields: session_id, transcript_text');
     }
 
-    // Fetch template from database
-    let templateStructure: any = {};
-    let templateName = 'Clinical Note';
+    const quota = await enforceQuota(supabase, user.id, 'generate-note');
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota, corsHeaders);
+    }
+
+    // Signed notes are immutable; changes must go through addenda
+    const { data: targetSession } = await supabase
+      .from('sessions')
+      .select('note_status, patient_name, patient_id, patient_dob')
+      .eq('id', session_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (targetSession && ['signed', 'amended'].includes(targetSession.note_status)) {
+      throw new Error('Note is signed and locked; add an addendum instead');
+    }
+
+    // Fetch template from database; legacy free-form structures are upgraded
+    // to the section schema, and only a template without usable sections
+    // falls back to the built-in SOAP layout
+    let templateSchema = BUILT_IN_TEMPLATES.soap.schema;
+    let templateName = BUILT_IN_TEMPLATES.soap.name;
 
     if (template_id) {
       const { data: template, error: templateError } = await supabase
@@ -49,12 +191,29 @@ serve(async (req) => {
         .eq('id', template_id)
         .single();
 
-      if (template && !templateError) {
-        templateStructure = template.structure || {};
-        templateName = template.name;
+      const schema = template && !templateError ? normalizeTemplateStructure(template.structure) : null;
+      if (schema) {
+        templateSchema = schema;
+        templateName = template!.name;
+      } else {
+        console.warn(`Template ${template_id} has no usable sections, using ${templateName}`);
       }
     }
 
+    let segments: EvidenceSegment[] = [];
+    if (Array.isArray(transcript_segments)) {
+      segments = transcript_segments.filter((s: EvidenceSegment) =>
+        s && typeof s.id === 'string' && typeof s.text === 'string' && s.text.trim()
+      );
+    } else if (targetSession) {
+      const { data: rows } = await supabase
+        .from('session_transcripts')
+        .select('id, speaker, text')
+        .eq('session_id', session_id)
+        .order('timestamp_offset', { ascending: true });
+      segments = (rows || []).filter(row => row.text?.trim());
+    }
+
     console.log(`Generating ${templateName} note with ${detail_level} detail level`);
 
     const startTime = Date.now();
@@ -65,9 +224,15 @@ serve(async (req) => {
       throw new Error('LOVABLE_API_KEY not configured');
     }
 
-    const sections = Object.entries(templateStructure)
-      .map(([key, desc]) => `    "${key}": "${desc}"`)
-      .join(',\n');
+    const templateSections = resolveTemplateSections(templateSchema, {
+      transcript: transcript_text,
+      detail_level,
+    });
+    const { guidance: templateGuidance, jsonShape: sections } = buildTemplatePromptSpec(
+      templateSections,
+      templateSchema.instructions
+    );
+    const priorVisits = usesPriorVisits(templateSections) && typeof prior_visits === 'string' ? prior_visits.trim() : '';
 
     const systemPrompt = `You are an expert medical scribe assistant with extensive knowledge of clinical documentation standards and advanced speaker diarization analysis.
 
@@ -102,7 +267,16 @@ CRITICAL INSTRUCTIONS FOR SPEAKER-AWARE CLINICAL DOCUMENTATION:
    - Preserve all clinical details during translation
    - Section headers must be in English
 
-5. **OUTPUT FORMAT**:
+5. **TEMPLATE**:
+   - The note's sections come from the template below, not from a fixed SOAP layout
+   - Place each statement in the template section that fits it, keeping the speaker attribution rules above
+   - Honour each section's style: bullet sections are arrays of strings, prose sections are a single string
+
+${templateGuidance}
+${priorVisits ? `
+${buildPriorVisitGuidance(priorVisits)}
+` : ''}
+6. **OUTPUT FORMAT**:
    - Structure the output as valid JSON
    - Clearly separate doctor observations from patient statements
    - Maintain chronological flow of the conversation
@@ -113,41 +287,33 @@ Output format (MUST be valid JSON):
   "sections": {
 ${sections}
   },
-  "plaintext": "Full formatted clinical note with proper section headers and content IN ENGLISH"
+  "plaintext": "Full formatted clinical note with proper section headers and content IN ENGLISH"${segments.length > 0 ? `,
+  "evidence": [
+    { "section": "section_key", "sentence": "One sentence of the note, as written", "segments": ["S1", "S4"] }
+  ]` : ''}
 }
-
+${segments.length > 0 ? `
+7. **EVIDENCE**:
+   - The transcript segments are also listed with labels such as [S1]
+   - For every sentence in the sections, add an "evidence" entry citing the labels of the segments that support it
+   - Cite only segments that actually state the fact; use an empty list when no segment supports the sentence
+   - Do not write anything in the note that the transcript does not support
+` : ''}
 QUALITY CRITERIA:
 - **Accuracy**: All information from transcript included with correct speaker attribution
 - **Completeness**: No critical details omitted, all speakers properly identified
 - **Clarity**: Medical terminology used appropriately with clear source attribution
 - **Structure**: Logical flow separating patient complaints from doctor findings
 - **Speaker Diarization**: Perfect identification of doctor vs patient statements
-- **Clinical Relevance**: Patient statements in Subjective, doctor findings in Objective/Assessment/Plan
+- **Clinical Relevance**: Patient statements in history sections, doctor findings in exam/assessment/plan sections
 - **Compliance**: Follows medical documentation standards
-- **Language**: Clinical note must always be in English
+- **Language**: Clinical note must always be in English`;
 
-EXAMPLE OUTPUT STRUCTURE:
-{
-  "sections": {
-    "subjective": "Patient reports [symptoms from Patient: segments]",
-    "objective": "Physical examination reveals [findings from Doctor: segments]",
-    "assessment": "Clinical diagnosis based on [doctor's assessment from Doctor: segments]",
-    "plan": "Treatment plan includes [interventions from Doctor: segments]"
-  },
-  "plaintext": "Formatted clinical note with proper speaker-based sections"
-}`;
-
-    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: `Generate a clinical note from this SPEAKER-LABELED transcript. 
+    // The AI provider only ever sees placeholder tokens; the note is re-identified below
+    const { messages, mapping } = deidentifyMessages(
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `Generate a clinical note from this SPEAKER-LABELED transcript. 
 
 CRITICAL: The transcript contains "Doctor:" and "Patient:" labels that MUST be used to correctly attribute statements:
 - Statements after "Doctor:" are from the healthcare provider
@@ -155,96 +321,212 @@ CRITICAL: The transcript contains "Doctor:" and "Patient:" labels that MUST be u
 
 IMPORTANT: 
 1. Generate the note in ENGLISH, translating any non-English content while preserving medical accuracy
-2. Patient complaints and symptoms → Subjective section (from "Patient:" segments)
-3. Doctor observations and findings → Objective section (from "Doctor:" segments)  
-4. Doctor diagnosis → Assessment section (from "Doctor:" segments)
-5. Doctor treatment plan → Plan section (from "Doctor:" segments)
+2. Patient complaints and symptoms → the template's history/subjective sections (from "Patient:" segments)
+3. Doctor observations and findings → the template's exam/objective sections (from "Doctor:" segments)  
+4. Doctor diagnosis → the template's assessment section (from "Doctor:" segments)
+5. Doctor treatment plan → the template's plan section (from "Doctor:" segments)
+6. Segments starting with a section tag such as [Assessment] were marked by the clinician by voice and belong in that section
+7. Use only the section keys listed in the template
 
 SPEAKER-LABELED TRANSCRIPT:
-${transcript_text}` }
-        ],
-      }),
-    });
+${transcript_text}${segments.length > 0 ? `
 
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error('AI API error:', aiResponse.status, errorText);
-      
-      if (aiResponse.status === 429) {
-        throw new Error('Rate limit exceeded. Please try again later.');
+TRANSCRIPT SEGMENTS (cite these labels in "evidence"):
+${formatSegmentsForPrompt(segments)}` : ''}` }
+      ],
+      {
+        patient_name: targetSession?.patient_name,
+        patient_id: targetSession?.patient_id,
+        dob: targetSession?.patient_dob,
       }
-      if (aiResponse.status === 402) {
-        throw new Error('Payment required. Please add credits to your Lovable AI workspace.');
+    );
+
+    const finalizeNote = async (generatedContent: string, tokensUsed: number) => {
+      // Validate against the template: repair JSON and section types locally,
+      // then re-ask only for required sections that are still missing
+      const parsed = parseNoteOutput(generatedContent);
+      const normalized = normalizeNoteOutput(parsed.value, templateSections);
+      let note = normalized.note;
+      if (parsed.value === null) {
+        // Unparseable output is kept as the plaintext note
+        note = { ...note, plaintext: generatedContent };
       }
-      throw new Error('AI generation failed');
-    }
 
-    const aiData = await aiResponse.json();
-    const generatedContent = aiData.choices?.[0]?.message?.content || '';
-    
-    let noteData;
-    try {
-      noteData = JSON.parse(generatedContent);
-      // Ensure we have the sections data
-      if (!noteData.sections && noteData.soap) {
-        // Legacy format conversion
-        noteData.sections = noteData.soap;
+      const issues = [...parsed.issues, ...normalized.issues];
+      const reaskedSections: string[] = [];
+      for (let attempt = 0; attempt < MAX_SECTION_REASKS; attempt++) {
+        const missing = sectionsToReask(remainingNoteIssues(note, templateSections), templateSections);
+        if (missing.length === 0) break;
+
+        console.log(`Re-asking for ${missing.length} missing section(s):`, missing.map(s => s.key).join(', '));
+        reaskedSections.push(...missing.map(s => s.key));
+        try {
+          const reask = await requestCompletion(LOVABLE_API_KEY, [
+            ...messages,
+            { role: 'assistant', content: generatedContent },
+            { role: 'user', content: buildSectionReaskPrompt(missing) },
+          ]);
+          tokensUsed += reask.tokens;
+          note = mergeReaskedSections(note, reask.content, missing).note;
+        } catch (reaskError) {
+          // The first pass is still usable; the gaps are reported as warnings
+          console.error('Section re-ask failed:', reaskError);
+          break;
+        }
       }
-    } catch {
-      // Fallback for non-JSON responses
-      noteData = {
-        template_id: template_id,
-        sections: {},
-        plaintext: generatedContent
+
+      const remaining = [
+        ...parsed.issues.filter(issue => !issue.repaired),
+        ...remainingNoteIssues(note, templateSections),
+      ];
+      const validation: NoteValidationOutcome = {
+        valid: remaining.length === 0,
+        issues,
+        reasked_sections: reaskedSections,
+        remaining,
       };
-    }
+      if (!validation.valid) {
+        console.warn('Note failed validation:', remaining.map(i => i.message).join('; '));
+      }
 
-    const duration = Date.now() - startTime;
+      let noteData: StructuredNote = note;
 
-    // Update session with generated note
-    const { error: updateError } = await supabase
-      .from('sessions')
-      .update({
-        generated_note: noteData.plaintext,
-        note_json: noteData.sections || noteData.soap || {},
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', session_id)
-      .eq('user_id', user.id);
-
-    if (updateError) {
-      console.error('Error updating session:', updateError);
-      throw updateError;
-    }
+      // Citations come from the first pass; re-asked sections are matched by overlap
+      const rawEvidence = parsed.value && typeof parsed.value === 'object'
+        ? (parsed.value as Record<string, unknown>).evidence
+        : undefined;
+      let evidence = buildNoteEvidence(noteData.sections, segments, rawEvidence);
+      const unsupported = evidence.sentences.filter(s => s.source === 'none').length;
+      if (unsupported > 0) {
+        console.warn(`${unsupported} of ${evidence.sentences.length} note sentence(s) have no transcript evidence`);
+      }
 
-    // Log AI usage (scrub PHI)
-    const inputHash = await crypto.subtle.digest(
-      'SHA-256',
-      new TextEncoder().encode(transcript_text)
-    );
-    const hashArray = Array.from(new Uint8Array(inputHash));
-    const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+      // Log previews stay de-identified
+      const deidentifiedPlaintext: string = noteData.plaintext || '';
+      noteData = reidentifyValue(noteData, mapping);
+      evidence = reidentifyValue(evidence, mapping);
+
+      const duration = Date.now() - startTime;
+
+      // Recorded on the note version created by trigger
+      const provenance = {
+        source: 'ai',
+        model: AI_MODEL,
+        template_id: template_id || null,
+        detail_level,
+        prior_visits: priorVisits.length > 0,
+        generated_at: new Date().toISOString(),
+      };
 
-    await supabase.from('ai_logs').insert({
-      user_id: user.id,
-      session_id,
-      function_name: 'generate-note',
-      input_hash: hashHex.substring(0, 16),
-      output_preview: noteData.plaintext?.substring(0, 100) || '',
-      tokens_used: aiData.usage?.total_tokens || 0,
-      duration_ms: duration,
-      status: 'success',
-    });
+      if (persist) {
+        const { error: updateError } = await supabase
+          .from('sessions')
+          .update({
+            generated_note: noteData.plaintext,
+            note_json: noteData.sections,
+            note_provenance: provenance,
+            note_evidence: evidence,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', session_id)
+          .eq('user_id', user.id);
+
+        if (updateError) {
+          console.error('Error updating session:', updateError);
+          throw updateError;
+        }
+      }
 
-    return new Response(
-      JSON.stringify({
+      // Log AI usage (scrub PHI)
+      const inputHash = await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(transcript_text)
+      );
+      const hashArray = Array.from(new Uint8Array(inputHash));
+      const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+
+      await supabase.from('ai_logs').insert({
+        user_id: user.id,
+        session_id,
+        function_name: 'generate-note',
+        input_hash: hashHex.substring(0, 16),
+        output_preview: deidentifiedPlaintext.substring(0, 100),
+        tokens_used: tokensUsed,
+        duration_ms: duration,
+        status: validation.valid ? 'success' : 'invalid',
+        validation,
+      });
+
+      return {
         success: true,
         note: noteData.plaintext,
-        note_json: noteData.sections || noteData.soap || {},
+        note_json: noteData.sections,
         template_id: noteData.template_id || template_id,
-        warnings: [],
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        provenance,
+        evidence,
+        validation,
+        warnings: validation.remaining.map(issue => issue.message),
+      };
+    };
+
+    if (stream) {
+      const upstream = new AbortController();
+      const aiResponse = await callGateway(LOVABLE_API_KEY, messages, true, upstream.signal);
+      const encoder = new TextEncoder();
+      const restorer = createStreamReidentifier(mapping);
+
+      const events = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (event: Record<string, unknown>) =>
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+          try {
+            const completion = await readCompletionStream(aiResponse.body!, (delta) => {
+              const content = restorer.push(delta);
+              if (content) send({ type: 'delta', content });
+            });
+            const rest = restorer.flush();
+            if (rest) send({ type: 'delta', content: rest });
+
+            send({ type: 'status', message: 'Checking note against template' });
+            send({ type: 'done', ...(await finalizeNote(completion.content, completion.tokens)) });
+          } catch (streamError) {
+            if (upstream.signal.aborted) {
+              console.log('Note generation cancelled by client');
+              return;
+            }
+            console.error('Error streaming note:', streamError);
+            send({
+              type: 'error',
+              error: {
+                code: 'GENERATION_ERROR',
+                message: streamError instanceof Error ? streamError.message : 'Unknown error',
+              },
+            });
+          }
+          controller.close();
+        },
+        cancel() {
+          // Client closed the connection: stop the model and skip saving
+          upstream.abort();
+        },
+      });
+
+      return new Response(events, {
+        headers: {
+          ...corsHeaders,
+          ...quota.headers,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+        },
+      });
+    }
+
+    const completion = await requestCompletion(LOVABLE_API_KEY, messages);
+    return new Response(
+      JSON.stringify(await finalizeNote(completion.content, completion.tokens)),
+      { headers: { ...corsHeaders, ...quota.headers, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
@@ -256,7 +538,7 @@ ${transcript_text}` }
         error: { code: 'GENERATION_ERROR', message: errorMessage },
       }),
       {
-        status: errorMessage.includes('Unauthorized') ? 401 : 500,
+        status: errorMessage.includes('Unauthorized') ? 401 : errorMessage.includes('locked') ? 409 : 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       }
     );
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { redactPHIValue } from "../_shared/phi.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -43,7 +44,8 @@ serve(async (req) => {
         action: type,
         resource_type: payload?.resource_type || null,
         resource_id: payload?.resource_id || null,
-        metadata: payload || {},
+        // Audit metadata is retained long-term, so PHI is redacted before storage
+        metadata: redactPHIValue(payload || {}),
         ip_address: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown',
       })
       .select()
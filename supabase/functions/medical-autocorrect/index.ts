@@ -1,5 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { deidentifyMessages, reidentify } from "../_shared/phi.ts";
+import { providerUrl } from "../_shared/providers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -25,19 +27,10 @@ serve(async (req) => {
 
     console.log('🔧 Medical auto-correction requested:', { length: text.length });
 
-    // Call Lovable AI for medical term correction
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a medical transcription auto-correction assistant. Your job is to:
+    const { messages, mapping } = deidentifyMessages([
+      {
+        role: 'system',
+        content: `You are a medical transcription auto-correction assistant. Your job is to:
 1. Fix common medical terminology errors (e.g., "diabetes mellitus" not "diabetes melitis")
 2. Correct drug names to proper capitalization and spelling
 3. Fix anatomical terms and medical abbreviations
@@ -55,12 +48,23 @@ Common corrections:
 - Vital signs: "BP", "HR", "RR", "SpO2", "Temp"
 
 If the text is already correct, return it unchanged.`
-          },
-          {
-            role: 'user',
-            content: `Correct this medical transcription:\n\n${text}`
-          }
-        ],
+      },
+      {
+        role: 'user',
+        content: `Correct this medical transcription:\n\n${text}`
+      }
+    ]);
+
+    // Call Lovable AI for medical term correction
+    const response = await fetch(providerUrl('lovable_ai', '/v1/chat/completions'), {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'google/gemini-2.5-flash',
+        messages,
         temperature: 0.3,
         max_tokens: 2000,
       }),
@@ -78,7 +82,8 @@ If the text is already correct, return it unchanged.`
     }
 
     const data = await response.json();
-    const correctedText = data.choices?.[0]?.message?.content?.trim();
+    const deidentifiedText: string | undefined = data.choices?.[0]?.message?.content?.trim();
+    const correctedText = deidentifiedText ? reidentify(deidentifiedText, mapping) : deidentifiedText;
 
     if (!correctedText) {
       throw new Error('No correction returned from AI');
@@ -1,5 +1,6 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { providerSocketUrl } from "../_shared/providers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -35,7 +36,7 @@ serve(async (req) => {
       console.log('✅ Client connected, opening OpenAI connection...');
       
       // Connect to OpenAI Realtime API
-      const url = 'wss://api.openai.com/v1/realtime?model=gpt-4o-realtime-preview-2024-10-01';
+      const url = providerSocketUrl('openai', '/v1/realtime?model=gpt-4o-realtime-preview-2024-10-01');
       openaiWs = new WebSocket(url, [
         'realtime',
         `openai-insecure-api-key.${OPENAI_API_KEY}`,
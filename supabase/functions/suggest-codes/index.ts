@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deidentifyMessages, reidentifyValue } from "../_shared/phi.ts";
+import { providerUrl } from "../_shared/providers.ts";
+import { ICD10CM_VERSION, validateSuggestedCodes } from "../_shared/icd10.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -29,7 +32,8 @@ serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
-    const { session_id, note_text, region = 'US' } = await req.json();
+    // persist: false returns the codes without saving them (pseudonymized input)
+    const { session_id, note_text, region = 'US', persist = true } = await req.json();
 
     if (!session_id || !note_text) {
       throw new Error('Missing required fields: session_id, note_text');
@@ -37,6 +41,14 @@ serve(async (req) => {
 
     const startTime = Date.now();
 
+    // Known identifiers are scrubbed in addition to the PHI the engine detects
+    const { data: session } = await supabase
+      .from('sessions')
+      .select('patient_name, patient_id, patient_dob')
+      .eq('id', session_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
     const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
     if (!LOVABLE_API_KEY) {
       throw new Error('LOVABLE_API_KEY not configured');
@@ -46,7 +58,7 @@ serve(async (req) => {
 
 CODING GUIDELINES:
 1. Identify all diagnoses explicitly stated or clinically implied
-2. Code to the highest specificity level available
+2. Code to the highest specificity level available; return billable codes only, never category or subcategory headers
 3. Follow official ICD-10 coding guidelines and conventions
 4. Include both primary and secondary diagnoses
 5. Consider chronic conditions and comorbidities
@@ -66,7 +78,18 @@ OUTPUT REQUIREMENTS:
 
     console.log('🤖 Calling Lovable AI for ICD-10 code suggestions...');
     
-    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+    const { messages, mapping } = deidentifyMessages(
+      [
+        { role: 'system', content: systemPrompt },
+        {
+          role: 'user',
+          content: `Suggest ICD-10 diagnosis codes for this clinical note. Return ONLY a valid JSON array:\n\n${note_text}\n\nFormat: [{"code": "...", "system": "${region === 'US' ? 'ICD-10-CM' : 'ICD-10'}", "label": "...", "confidence": 0.0-1.0}]`
+        }
+      ],
+      { patient_name: session?.patient_name, patient_id: session?.patient_id, dob: session?.patient_dob }
+    );
+
+    const aiResponse = await fetch(providerUrl('lovable_ai', '/v1/chat/completions'), {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${LOVABLE_API_KEY}`,
@@ -74,13 +97,7 @@ OUTPUT REQUIREMENTS:
       },
       body: JSON.stringify({
         model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          {
-            role: 'user',
-            content: `Suggest ICD-10 diagnosis codes for this clinical note. Return ONLY a valid JSON array:\n\n${note_text}\n\nFormat: [{"code": "...", "system": "${region === 'US' ? 'ICD-10-CM' : 'ICD-10'}", "label": "...", "confidence": 0.0-1.0}]`
-          }
-        ],
+        messages,
       }),
     });
     
@@ -114,30 +131,38 @@ OUTPUT REQUIREMENTS:
       content = arrayMatch[0];
     }
     
-    let codes = [];
+    let parsedCodes = [];
     try {
-      codes = JSON.parse(content);
-      console.log(`Successfully parsed ${codes.length} ICD-10 codes`);
+      parsedCodes = reidentifyValue(JSON.parse(content), mapping);
+      console.log(`Successfully parsed ${parsedCodes.length} ICD-10 codes`);
     } catch (parseError) {
       console.error('Failed to parse AI response:', parseError);
       console.error('Raw content:', content.substring(0, 500));
-      codes = [];
+      parsedCodes = [];
+    }
+
+    // Only codes in the ICD-10-CM table are kept; headers are specified to a billable code where possible
+    const { accepted: codes, rejected: rejectedCodes } = validateSuggestedCodes(parsedCodes);
+    if (rejectedCodes.length > 0) {
+      console.log(`Rejected ${rejectedCodes.length} codes:`, rejectedCodes.map(c => `${c.code} (${c.reason})`).join(', '));
     }
 
     const duration = Date.now() - startTime;
 
     // Update session with clinical codes (draft)
-    const { error: updateError } = await supabase
-      .from('sessions')
-      .update({
-        clinical_codes: { suggested: codes, confirmed: [] },
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', session_id)
-      .eq('user_id', user.id);
-
-    if (updateError) {
-      console.error('Error updating session:', updateError);
+    if (persist) {
+      const { error: updateError } = await supabase
+        .from('sessions')
+        .update({
+          clinical_codes: { suggested: codes, confirmed: [] },
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', session_id)
+        .eq('user_id', user.id);
+
+      if (updateError) {
+        console.error('Error updating session:', updateError);
+      }
     }
 
     // Log AI usage
@@ -145,7 +170,7 @@ OUTPUT REQUIREMENTS:
       user_id: user.id,
       session_id,
       function_name: 'suggest-codes',
-      output_preview: `Suggested ${codes.length} codes`,
+      output_preview: `Suggested ${codes.length} codes, rejected ${rejectedCodes.length} (${ICD10CM_VERSION})`,
       tokens_used: aiData.usage?.total_tokens || 0,
       duration_ms: duration,
       status: 'success',
@@ -155,6 +180,8 @@ OUTPUT REQUIREMENTS:
       JSON.stringify({
         success: true,
         codes,
+        rejected_codes: rejectedCodes,
+        code_set_version: ICD10CM_VERSION,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deidentifyMessages, reidentify } from "../_shared/phi.ts";
+import { providerUrl } from "../_shared/providers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -37,12 +39,34 @@ serve(async (req) => {
 
     const startTime = Date.now();
 
+    // Known identifiers are scrubbed in addition to the PHI the engine detects
+    const { data: session } = await supabase
+      .from('sessions')
+      .select('patient_name, patient_id, patient_dob')
+      .eq('id', session_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
     const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
     if (!LOVABLE_API_KEY) {
       throw new Error('LOVABLE_API_KEY not configured');
     }
 
-    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+    const { messages, mapping } = deidentifyMessages(
+      [
+        {
+          role: 'system',
+          content: 'Provide a concise clinical summary of the patient encounter transcript. Focus on key points: chief complaint, relevant history, findings, and action items. Keep it under 200 words.'
+        },
+        {
+          role: 'user',
+          content: `Summarize this clinical encounter:\n\n${transcript_chunk}`
+        }
+      ],
+      { patient_name: session?.patient_name, patient_id: session?.patient_id, dob: session?.patient_dob }
+    );
+
+    const aiResponse = await fetch(providerUrl('lovable_ai', '/v1/chat/completions'), {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${LOVABLE_API_KEY}`,
@@ -50,16 +74,7 @@ serve(async (req) => {
       },
       body: JSON.stringify({
         model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: 'Provide a concise clinical summary of the patient encounter transcript. Focus on key points: chief complaint, relevant history, findings, and action items. Keep it under 200 words.'
-          },
-          {
-            role: 'user',
-            content: `Summarize this clinical encounter:\n\n${transcript_chunk}`
-          }
-        ],
+        messages,
         temperature: 0.3,
       }),
     });
@@ -78,7 +93,8 @@ serve(async (req) => {
     }
 
     const aiData = await aiResponse.json();
-    const summary = aiData.choices?.[0]?.message?.content || '';
+    const deidentifiedSummary: string = aiData.choices?.[0]?.message?.content || '';
+    const summary = reidentify(deidentifiedSummary, mapping);
 
     const duration = Date.now() - startTime;
 
@@ -101,7 +117,7 @@ serve(async (req) => {
       user_id: user.id,
       session_id,
       function_name: 'summarize-transcript',
-      output_preview: summary.substring(0, 100),
+      output_preview: deidentifiedSummary.substring(0, 100),
       tokens_used: aiData.usage?.total_tokens || 0,
       duration_ms: duration,
       status: 'success',
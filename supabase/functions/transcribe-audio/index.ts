@@ -1,5 +1,6 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { providerUrl } from "../_shared/providers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -31,7 +32,7 @@ serve(async (req) => {
     
     // Step 1: Upload audio to AssemblyAI
     console.log('📤 Uploading audio to AssemblyAI...');
-    const uploadResponse = await fetch('https://api.assemblyai.com/v2/upload', {
+    const uploadResponse = await fetch(providerUrl('assemblyai', '/v2/upload'), {
       method: 'POST',
       headers: {
         'authorization': ASSEMBLYAI_API_KEY,
@@ -52,7 +53,7 @@ serve(async (req) => {
     console.log('🎯 Requesting transcription...');
     const languageCode = language === 'hi' ? 'hi' : language === 'kn' ? 'kn' : 'en';
     
-    const transcriptResponse = await fetch('https://api.assemblyai.com/v2/transcript', {
+    const transcriptResponse = await fetch(providerUrl('assemblyai', '/v2/transcript'), {
       method: 'POST',
       headers: {
         'authorization': ASSEMBLYAI_API_KEY,
@@ -80,7 +81,7 @@ serve(async (req) => {
     const maxAttempts = 60; // 60 seconds max wait
     
     while (attempts < maxAttempts) {
-      const pollingResponse = await fetch(`https://api.assemblyai.com/v2/transcript/${transcriptId}`, {
+      const pollingResponse = await fetch(providerUrl('assemblyai', `/v2/transcript/${transcriptId}`), {
         headers: {
           'authorization': ASSEMBLYAI_API_KEY,
         },
@@ -117,6 +118,20 @@ serve(async (req) => {
       JSON.stringify({
         success: true,
         text: transcriptText,
+        // Speaker turns (A, B, ...) with offsets in ms from the start of the audio
+        utterances: (transcriptResult.utterances || []).map((u: {
+          speaker: string;
+          text: string;
+          start: number;
+          end: number;
+          words?: Array<{ text: string; start: number; end: number; confidence?: number }>;
+        }) => ({
+          speaker: u.speaker,
+          text: u.text,
+          start: u.start,
+          end: u.end,
+          words: (u.words || []).map(w => ({ text: w.text, start: w.start, end: w.end, confidence: w.confidence })),
+        })),
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
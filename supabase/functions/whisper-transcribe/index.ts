@@ -1,17 +1,14 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { providerUrl } from "../_shared/providers.ts";
+import { enforceQuota, quotaExceededResponse, recordUsageAmount } from "../_shared/quota.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*', // TODO: Restrict to your domain in production
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Rate limiting map (in-memory, resets on function restart)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT_WINDOW_MS = 60000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 20; // 20 requests per minute per user
-
 // Hash content for audit logging without storing PHI
 async function hashContent(text: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -21,27 +18,6 @@ async function hashContent(text: string): Promise<string> {
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('').substring(0, 16);
 }
 
-// Check rate limit for user
-function checkRateLimit(userId: string): boolean {
-  const now = Date.now();
-  const userLimit = rateLimitMap.get(userId);
-
-  if (!userLimit || now > userLimit.resetTime) {
-    rateLimitMap.set(userId, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW_MS
-    });
-    return true;
-  }
-
-  if (userLimit.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return false;
-  }
-
-  userLimit.count++;
-  return true;
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -63,30 +39,26 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseKey);
     
-    // Verify user authentication
-    let userId = 'anonymous';
-    if (authHeader) {
-      const token = authHeader.replace('Bearer ', '');
-      const { data: { user }, error } = await supabase.auth.getUser(token);
-      if (!error && user) {
-        userId = user.id;
-      }
-    }
-
-    // Rate limiting check
-    if (!checkRateLimit(userId)) {
-      console.log(`[${requestId}] ⚠️ Rate limit exceeded for user: ${userId.substring(0, 8)}...`);
+    // Verify user authentication; usage is metered per user and team
+    const token = authHeader?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!user) {
       return new Response(
-        JSON.stringify({ 
-          error: 'Rate limit exceeded. Please try again in a minute.',
-          success: false 
-        }),
+        JSON.stringify({ error: 'Unauthorized', success: false }),
         {
-          status: 429,
+          status: 401,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         }
       );
     }
+    const userId = user.id;
+
+    // Minutes are recorded once the audio is transcribed
+    const quota = await enforceQuota(supabase, userId, 'whisper-transcribe', 0);
+    if (!quota.allowed) {
+      console.log(`[${requestId}] ⚠️ ${quota.decision?.reason} for user: ${userId.substring(0, 8)}...`);
+      return quotaExceededResponse(quota, corsHeaders);
+    }
 
     // Get the audio file from FormData
     const formData = await req.formData();
@@ -162,12 +134,13 @@ serve(async (req) => {
     openaiFormData.append('model', 'whisper-1');
     openaiFormData.append('language', language);
     openaiFormData.append('response_format', 'verbose_json'); // Get detailed response
+    openaiFormData.append('timestamp_granularities[]', 'word'); // Word timing for transcript playback
     openaiFormData.append('temperature', '0'); // Precise transcription for medical use
     
     console.log(`[${requestId}] 🚀 Sending to OpenAI Whisper API...`);
 
     // Send to OpenAI Whisper API
-    const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+    const response = await fetch(providerUrl('openai', '/v1/audio/transcriptions'), {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${OPENAI_API_KEY}`,
@@ -206,6 +179,11 @@ serve(async (req) => {
       processingTime: `${processingTime}ms`
     });
 
+    // Whisper reports the audio length in seconds
+    if (typeof result.duration === 'number') {
+      await recordUsageAmount(supabase, quota, result.duration / 60);
+    }
+
     // Log audit event (without PHI)
     try {
       await supabase.from('ai_logs').insert({
@@ -224,10 +202,12 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({ 
         text: result.text,
+        // [{word, start, end}] in seconds from the start of the segment
+        words: result.words || [],
         success: true 
       }),
       { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        headers: { ...corsHeaders, ...quota.headers, 'Content-Type': 'application/json' } 
       }
     );
 
@@ -240,7 +220,7 @@ serve(async (req) => {
         success: false 
       }),
       {
-        status: error instanceof Error && error.message.includes('Rate limit') ? 429 : 500,
+        status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       }
     );
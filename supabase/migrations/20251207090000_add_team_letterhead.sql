@@ -0,0 +1,7 @@
+-- Team letterhead used on exported PDF notes
+ALTER TABLE public.teams
+ADD COLUMN IF NOT EXISTS logo_url TEXT,
+ADD COLUMN IF NOT EXISTS address TEXT;
+
+COMMENT ON COLUMN public.teams.logo_url IS 'Public URL of a JPEG or PNG logo drawn on the PDF letterhead';
+COMMENT ON COLUMN public.teams.address IS 'Multi-line postal address printed under the team name on the PDF letterhead';
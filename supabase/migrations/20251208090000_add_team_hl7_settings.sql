@@ -0,0 +1,15 @@
+-- Per-team HL7 v2 interface settings used for MDM^T02 note exports
+ALTER TABLE public.teams
+ADD COLUMN IF NOT EXISTS hl7_sending_application TEXT,
+ADD COLUMN IF NOT EXISTS hl7_sending_facility TEXT,
+ADD COLUMN IF NOT EXISTS hl7_receiving_application TEXT,
+ADD COLUMN IF NOT EXISTS hl7_receiving_facility TEXT,
+ADD COLUMN IF NOT EXISTS hl7_mllp_host TEXT,
+ADD COLUMN IF NOT EXISTS hl7_mllp_port INTEGER CHECK (hl7_mllp_port BETWEEN 1 AND 65535);
+
+COMMENT ON COLUMN public.teams.hl7_sending_application IS 'MSH-3 sending application; defaults to XORSTACK when unset';
+COMMENT ON COLUMN public.teams.hl7_sending_facility IS 'MSH-4 sending facility ID, also used as the MRN assigning authority';
+COMMENT ON COLUMN public.teams.hl7_receiving_application IS 'MSH-5 receiving application at the partner hospital';
+COMMENT ON COLUMN public.teams.hl7_receiving_facility IS 'MSH-6 receiving facility ID at the partner hospital';
+COMMENT ON COLUMN public.teams.hl7_mllp_host IS 'Host of the MLLP listener that receives transmitted HL7 messages';
+COMMENT ON COLUMN public.teams.hl7_mllp_port IS 'Port of the MLLP listener that receives transmitted HL7 messages';
@@ -0,0 +1,153 @@
+-- Note signing lifecycle: draft -> pending_review -> signed -> amended
+-- sessions.status keeps tracking the recording pipeline; note_status tracks the note itself
+DO $$ BEGIN
+  CREATE TYPE public.note_status AS ENUM ('draft', 'pending_review', 'signed', 'amended');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS note_status public.note_status NOT NULL DEFAULT 'draft',
+ADD COLUMN IF NOT EXISTS submitted_for_review_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS signed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS signed_by UUID REFERENCES auth.users(id);
+
+COMMENT ON COLUMN public.sessions.note_status IS 'Note lifecycle; signed and amended notes are locked';
+COMMENT ON COLUMN public.sessions.signed_by IS 'Clinician who signed the note; set by the lifecycle trigger';
+
+-- Generated notes awaiting review keep that state; nothing is signed retroactively
+UPDATE public.sessions
+SET note_status = 'pending_review'
+WHERE generated_note IS NOT NULL
+  AND status IN ('review', 'completed', 'finalized');
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user_note_status ON public.sessions(user_id, note_status);
+
+-- Enforce lifecycle transitions and immutability of signed notes.
+-- Runs for every role, including the service role used by edge functions.
+CREATE OR REPLACE FUNCTION public.enforce_note_lifecycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.note_status IN ('signed', 'amended') THEN
+    IF NEW.generated_note IS DISTINCT FROM OLD.generated_note
+      OR NEW.note_json IS DISTINCT FROM OLD.note_json
+      OR NEW.clinical_codes IS DISTINCT FROM OLD.clinical_codes
+      OR NEW.signed_at IS DISTINCT FROM OLD.signed_at
+      OR NEW.signed_by IS DISTINCT FROM OLD.signed_by THEN
+      RAISE EXCEPTION 'Note is signed and locked; add an addendum instead'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF NEW.note_status IS DISTINCT FROM OLD.note_status
+      AND NOT (OLD.note_status = 'signed' AND NEW.note_status = 'amended') THEN
+      RAISE EXCEPTION 'Signed notes cannot return to %', NEW.note_status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.note_status IS DISTINCT FROM OLD.note_status THEN
+    IF NOT (
+      (OLD.note_status = 'draft' AND NEW.note_status = 'pending_review')
+      OR (OLD.note_status = 'pending_review' AND NEW.note_status IN ('draft', 'signed'))
+    ) THEN
+      RAISE EXCEPTION 'Invalid note status transition from % to %', OLD.note_status, NEW.note_status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.note_status = 'pending_review' THEN
+      IF NEW.generated_note IS NULL OR btrim(NEW.generated_note) = '' THEN
+        RAISE EXCEPTION 'Cannot submit an empty note for review'
+          USING ERRCODE = 'check_violation';
+      END IF;
+      NEW.submitted_for_review_at := now();
+    ELSIF NEW.note_status = 'signed' THEN
+      IF auth.uid() IS NULL OR auth.uid() <> NEW.user_id THEN
+        RAISE EXCEPTION 'Only the session owner can sign the note'
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+      NEW.signed_at := now();
+      NEW.signed_by := auth.uid();
+    ELSE
+      NEW.submitted_for_review_at := NULL;
+    END IF;
+  ELSIF NEW.signed_at IS DISTINCT FROM OLD.signed_at OR NEW.signed_by IS DISTINCT FROM OLD.signed_by THEN
+    RAISE EXCEPTION 'Signature fields are set only when signing'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_enforce_note_lifecycle ON public.sessions;
+CREATE TRIGGER trigger_enforce_note_lifecycle
+  BEFORE UPDATE ON public.sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_note_lifecycle();
+
+-- Locked notes cannot be updated through the API at all
+DROP POLICY IF EXISTS "Locked notes cannot be updated" ON public.sessions;
+CREATE POLICY "Locked notes cannot be updated"
+ON public.sessions
+AS RESTRICTIVE
+FOR UPDATE
+USING (note_status NOT IN ('signed', 'amended'));
+
+-- Addenda appended to signed notes
+CREATE TABLE IF NOT EXISTS public.note_addenda (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES auth.users(id),
+  content TEXT NOT NULL CHECK (btrim(content) <> ''),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_addenda_session_id ON public.note_addenda(session_id, created_at);
+
+ALTER TABLE public.note_addenda ENABLE ROW LEVEL SECURITY;
+
+-- Users can view addenda on their own sessions
+CREATE POLICY "Users can view addenda for their own sessions"
+ON public.note_addenda
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE sessions.id = note_addenda.session_id
+    AND sessions.user_id = auth.uid()
+  )
+);
+
+-- Users can add addenda to their own signed notes; addenda are never updated or deleted
+CREATE POLICY "Users can add addenda to their own signed notes"
+ON public.note_addenda
+FOR INSERT
+WITH CHECK (
+  author_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE sessions.id = note_addenda.session_id
+    AND sessions.user_id = auth.uid()
+    AND sessions.note_status IN ('signed', 'amended')
+  )
+);
+
+-- Mark the note as amended when its first addendum is added.
+-- SECURITY DEFINER so the update is not blocked by the locked-note policy.
+CREATE OR REPLACE FUNCTION public.mark_note_amended()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.sessions
+  SET note_status = 'amended'
+  WHERE id = NEW.session_id
+    AND note_status = 'signed';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_mark_note_amended ON public.note_addenda;
+CREATE TRIGGER trigger_mark_note_amended
+  AFTER INSERT ON public.note_addenda
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_note_amended();
@@ -0,0 +1,140 @@
+-- Versioned note history
+-- Every change to sessions.generated_note / note_json is captured by trigger.
+-- Writers describe the change in sessions.note_provenance; updates that leave it
+-- untouched are recorded as manual edits, so each description carries the time
+-- it was written (generated_at, restored_at) to differ from the last one.
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS note_provenance JSONB;
+
+COMMENT ON COLUMN public.sessions.note_provenance IS 'Source of the current note: {source: ai|manual|restore, model, template_id, detail_level, restored_from, generated_at|restored_at}';
+
+CREATE TABLE IF NOT EXISTS public.note_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  generated_note TEXT,
+  note_json JSONB,
+  source TEXT NOT NULL CHECK (source IN ('ai', 'manual', 'restore')),
+  model TEXT,
+  template_id TEXT,
+  detail_level TEXT,
+  restored_from UUID REFERENCES public.note_versions(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (session_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_versions_session_id ON public.note_versions(session_id, version_number DESC);
+
+ALTER TABLE public.note_versions ENABLE ROW LEVEL SECURITY;
+
+-- Users can view the history of their own sessions; rows are written only by trigger
+CREATE POLICY "Users can view note versions for their own sessions"
+ON public.note_versions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE sessions.id = note_versions.session_id
+    AND sessions.user_id = auth.uid()
+  )
+);
+
+-- Existing notes become version 1; all notes so far came from the AI pipeline
+INSERT INTO public.note_versions (session_id, version_number, generated_note, note_json, source, template_id, created_by, created_at)
+SELECT id, 1, generated_note, note_json, 'ai', template_id::TEXT, user_id, updated_at
+FROM public.sessions
+WHERE generated_note IS NOT NULL OR note_json IS NOT NULL
+ON CONFLICT (session_id, version_number) DO NOTHING;
+
+-- Default the provenance of note changes that did not declare one
+CREATE OR REPLACE FUNCTION public.stamp_note_provenance()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.generated_note IS DISTINCT FROM OLD.generated_note OR NEW.note_json IS DISTINCT FROM OLD.note_json)
+    AND NEW.note_provenance IS NOT DISTINCT FROM OLD.note_provenance THEN
+    NEW.note_provenance := jsonb_build_object('source', 'manual');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_stamp_note_provenance ON public.sessions;
+CREATE TRIGGER trigger_stamp_note_provenance
+  BEFORE UPDATE ON public.sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_note_provenance();
+
+-- Record a version for each note change. Consecutive manual edits by the same
+-- user within ten minutes are folded into one version so autosave does not
+-- flood the history.
+CREATE OR REPLACE FUNCTION public.record_note_version()
+RETURNS TRIGGER AS $$
+DECLARE
+  latest public.note_versions%ROWTYPE;
+  actor UUID := COALESCE(auth.uid(), NEW.user_id);
+  provenance JSONB := COALESCE(NEW.note_provenance, jsonb_build_object('source', 'manual'));
+  version_source TEXT := COALESCE(provenance->>'source', 'manual');
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.generated_note IS NOT DISTINCT FROM OLD.generated_note
+    AND NEW.note_json IS NOT DISTINCT FROM OLD.note_json THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.generated_note IS NULL AND NEW.note_json IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO latest
+  FROM public.note_versions
+  WHERE session_id = NEW.id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  IF version_source = 'manual'
+    AND latest.id IS NOT NULL
+    AND latest.source = 'manual'
+    AND latest.created_by IS NOT DISTINCT FROM actor
+    AND latest.created_at > now() - INTERVAL '10 minutes' THEN
+    UPDATE public.note_versions
+    SET generated_note = NEW.generated_note,
+        note_json = NEW.note_json,
+        created_at = now()
+    WHERE id = latest.id;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.note_versions (
+    session_id,
+    version_number,
+    generated_note,
+    note_json,
+    source,
+    model,
+    template_id,
+    detail_level,
+    restored_from,
+    created_by
+  ) VALUES (
+    NEW.id,
+    COALESCE(latest.version_number, 0) + 1,
+    NEW.generated_note,
+    NEW.note_json,
+    version_source,
+    provenance->>'model',
+    provenance->>'template_id',
+    provenance->>'detail_level',
+    NULLIF(provenance->>'restored_from', '')::UUID,
+    actor
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_record_note_version ON public.sessions;
+CREATE TRIGGER trigger_record_note_version
+  AFTER INSERT OR UPDATE ON public.sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_note_version();
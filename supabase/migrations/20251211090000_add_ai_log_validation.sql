@@ -0,0 +1,11 @@
+-- Structured note validation outcome
+-- generate-note validates model output against the template, repairs it
+-- locally or re-asks for missing sections, and records what happened here.
+ALTER TABLE public.ai_logs
+ADD COLUMN IF NOT EXISTS validation JSONB;
+
+COMMENT ON COLUMN public.ai_logs.validation IS 'Note output validation: {valid, issues[{code, section, message, repaired}], reasked_sections, remaining}';
+
+CREATE INDEX IF NOT EXISTS idx_ai_logs_validation_invalid
+ON public.ai_logs(created_at DESC)
+WHERE (validation->>'valid') = 'false';
@@ -0,0 +1,58 @@
+-- Word-level transcript timing and the recordings it refers to
+-- Live transcription stores each segment's words with start/end in ms from the
+-- start of the recording they were heard in, so review can seek the audio.
+ALTER TABLE public.session_transcripts
+ADD COLUMN IF NOT EXISTS recording_id UUID,
+ADD COLUMN IF NOT EXISTS words JSONB;
+
+COMMENT ON COLUMN public.session_transcripts.recording_id IS 'session_recordings.id of the audio this segment was heard in; the recording may still be queued on the device';
+COMMENT ON COLUMN public.session_transcripts.words IS 'Word timing: [{text, start, end, confidence}] with start/end in ms from the start of the recording';
+
+-- Uploaded recordings; id is the offline queue id assigned on the device
+CREATE TABLE IF NOT EXISTS public.session_recordings (
+  id UUID PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_ms INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_recordings_session_id ON public.session_recordings(session_id, started_at);
+
+ALTER TABLE public.session_recordings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view recordings for their own sessions"
+ON public.session_recordings
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE sessions.id = session_recordings.session_id
+    AND sessions.user_id = auth.uid()
+  )
+);
+
+-- The sync worker upserts after each upload, so retries must be able to update
+CREATE POLICY "Users can add recordings to their own sessions"
+ON public.session_recordings
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE sessions.id = session_recordings.session_id
+    AND sessions.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update recordings for their own sessions"
+ON public.session_recordings
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE sessions.id = session_recordings.session_id
+    AND sessions.user_id = auth.uid()
+  )
+);
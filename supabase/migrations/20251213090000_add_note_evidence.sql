@@ -0,0 +1,7 @@
+-- Transcript evidence for generated notes
+-- generate-note links each note sentence to the session_transcripts segments
+-- that support it; sentences without any are shown as possible hallucinations.
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS note_evidence JSONB;
+
+COMMENT ON COLUMN public.sessions.note_evidence IS 'Evidence for the generated note: {sentences[{section, text, segment_ids, source}]} with source model, overlap or none';
@@ -0,0 +1,206 @@
+-- Server-side rate limits and usage budgets
+-- Edge functions record every AI, transcription and export call in
+-- usage_events through consume_quota(), which refuses calls over the user's
+-- per-minute rate or the team's monthly budget. Budgets are set by admins in
+-- team_budgets; a team without a row (or a NULL budget) is unlimited.
+
+CREATE TABLE IF NOT EXISTS public.team_budgets (
+  team_id UUID PRIMARY KEY REFERENCES public.teams(id) ON DELETE CASCADE,
+  monthly_ai_requests INTEGER CHECK (monthly_ai_requests >= 0),
+  monthly_transcription_minutes NUMERIC CHECK (monthly_transcription_minutes >= 0),
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.team_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage team budgets"
+ON public.team_budgets FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Team members can view their team budget"
+ON public.team_budgets FOR SELECT
+USING (team_id IN (
+  SELECT team_id FROM public.team_members
+  WHERE user_id = auth.uid() AND status = 'active'
+));
+
+CREATE TRIGGER update_team_budgets_updated_at
+BEFORE UPDATE ON public.team_budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per metered call; amount is 1 for AI calls and exports, minutes of
+-- audio for transcription (filled in once the audio has been transcribed)
+CREATE TABLE IF NOT EXISTS public.usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+  function_name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('ai', 'transcription', 'export')),
+  amount NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_user_kind_created ON public.usage_events(user_id, kind, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_usage_events_team_kind_created ON public.usage_events(team_id, kind, created_at DESC);
+
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Written only by edge functions (service role)
+CREATE POLICY "Users can view their own usage"
+ON public.usage_events FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all usage"
+ON public.usage_events FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Check and record one call. Calls for the same user and kind are
+-- serialized so concurrent requests can't both take the last slot.
+CREATE OR REPLACE FUNCTION public.consume_quota(
+  _user_id UUID,
+  _function_name TEXT,
+  _kind TEXT,
+  _amount NUMERIC,
+  _per_minute INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now TIMESTAMP WITH TIME ZONE := now();
+  v_window_start TIMESTAMP WITH TIME ZONE := v_now - INTERVAL '1 minute';
+  v_month_start TIMESTAMP WITH TIME ZONE := date_trunc('month', v_now);
+  v_recent INTEGER;
+  v_oldest TIMESTAMP WITH TIME ZONE;
+  v_team_id UUID;
+  v_budget NUMERIC;
+  v_used NUMERIC := 0;
+  v_budget_json JSONB := NULL;
+  v_event_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(_user_id::text || ':' || _kind));
+
+  SELECT count(*), min(created_at) INTO v_recent, v_oldest
+  FROM public.usage_events
+  WHERE user_id = _user_id AND kind = _kind AND created_at > v_window_start;
+
+  SELECT team_id INTO v_team_id
+  FROM public.team_members
+  WHERE user_id = _user_id AND status = 'active'
+  ORDER BY joined_at NULLS LAST, created_at
+  LIMIT 1;
+
+  IF v_team_id IS NOT NULL THEN
+    SELECT CASE _kind
+      WHEN 'ai' THEN monthly_ai_requests::NUMERIC
+      WHEN 'transcription' THEN monthly_transcription_minutes
+    END INTO v_budget
+    FROM public.team_budgets
+    WHERE team_id = v_team_id;
+
+    IF v_budget IS NOT NULL THEN
+      SELECT coalesce(sum(amount), 0) INTO v_used
+      FROM public.usage_events
+      WHERE team_id = v_team_id AND kind = _kind AND created_at >= v_month_start;
+
+      v_budget_json := jsonb_build_object(
+        'limit', v_budget,
+        'used', v_used,
+        'period_end', v_month_start + INTERVAL '1 month'
+      );
+    END IF;
+  END IF;
+
+  IF v_recent >= _per_minute THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'rate_limited',
+      'limit', _per_minute,
+      'remaining', 0,
+      'reset_at', v_oldest + INTERVAL '1 minute',
+      'event_id', NULL,
+      'budget', v_budget_json
+    );
+  END IF;
+
+  -- A transcription's length is only known afterwards, so it is let through
+  -- while any budget is left
+  IF v_budget IS NOT NULL AND (v_used >= v_budget OR v_used + _amount > v_budget) THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'quota_exceeded',
+      'limit', _per_minute,
+      'remaining', _per_minute - v_recent,
+      'reset_at', coalesce(v_oldest + INTERVAL '1 minute', v_now),
+      'event_id', NULL,
+      'budget', v_budget_json
+    );
+  END IF;
+
+  INSERT INTO public.usage_events (user_id, team_id, function_name, kind, amount)
+  VALUES (_user_id, v_team_id, _function_name, _kind, _amount)
+  RETURNING id INTO v_event_id;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'reason', 'ok',
+    'limit', _per_minute,
+    'remaining', _per_minute - v_recent - 1,
+    'reset_at', coalesce(v_oldest, v_now) + INTERVAL '1 minute',
+    'event_id', v_event_id,
+    'budget', v_budget_json
+  );
+END;
+$$;
+
+-- Set the metered amount of a call once it is known (transcribed minutes)
+CREATE OR REPLACE FUNCTION public.record_usage_amount(_event_id UUID, _amount NUMERIC)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.usage_events SET amount = _amount WHERE id = _event_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_quota(UUID, TEXT, TEXT, NUMERIC, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_usage_amount(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_quota(UUID, TEXT, TEXT, NUMERIC, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_usage_amount(UUID, NUMERIC) TO service_role;
+
+-- Budgets and this month's usage of every team, for the admin budget view
+CREATE OR REPLACE FUNCTION public.get_team_budget_usage()
+RETURNS TABLE (
+  team_id UUID,
+  team_name TEXT,
+  monthly_ai_requests INTEGER,
+  monthly_transcription_minutes NUMERIC,
+  ai_requests_used NUMERIC,
+  transcription_minutes_used NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.name,
+    b.monthly_ai_requests,
+    b.monthly_transcription_minutes,
+    coalesce(sum(u.amount) FILTER (WHERE u.kind = 'ai'), 0),
+    coalesce(sum(u.amount) FILTER (WHERE u.kind = 'transcription'), 0)
+  FROM public.teams t
+  LEFT JOIN public.team_budgets b ON b.team_id = t.id
+  LEFT JOIN public.usage_events u
+    ON u.team_id = t.id AND u.created_at >= date_trunc('month', now())
+  WHERE public.has_role(auth.uid(), 'admin')
+  GROUP BY t.id, t.name, b.monthly_ai_requests, b.monthly_transcription_minutes
+  ORDER BY t.name
+$$;
@@ -0,0 +1,229 @@
+-- Patients as their own records
+-- Sessions used to carry only copies of the patient's name, MRN and date of
+-- birth. A patient now belongs to a user, optionally shared with a team, and
+-- sessions link to it; the copies on the session are kept in step with the
+-- patient record so existing readers (notes, exports, notifications) keep
+-- working. Duplicates are merged into one record and the merged one is kept,
+-- pointing at the survivor, so links from elsewhere still resolve.
+
+CREATE TABLE IF NOT EXISTS public.patients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+  full_name TEXT NOT NULL CHECK (btrim(full_name) <> ''),
+  mrn TEXT,
+  date_of_birth DATE,
+  merged_into UUID REFERENCES public.patients(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (merged_into IS DISTINCT FROM id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_patients_user_id ON public.patients(user_id) WHERE merged_into IS NULL;
+CREATE INDEX IF NOT EXISTS idx_patients_team_id ON public.patients(team_id) WHERE merged_into IS NULL;
+
+COMMENT ON COLUMN public.patients.merged_into IS 'Set when this record was merged into another as a duplicate';
+
+-- Owner, or an active member of the patient's team
+CREATE OR REPLACE FUNCTION public.can_access_patient(_patient_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.patients p
+    WHERE p.id = _patient_id
+      AND (
+        p.user_id = _user_id
+        OR p.team_id IN (
+          SELECT team_id FROM public.team_members
+          WHERE user_id = _user_id AND status = 'active'
+        )
+      )
+  )
+$$;
+
+ALTER TABLE public.patients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own and their team's patients"
+ON public.patients FOR SELECT
+USING (public.can_access_patient(id, auth.uid()));
+
+CREATE POLICY "Users can add patients to themselves or their team"
+ON public.patients FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND (team_id IS NULL OR team_id IN (
+    SELECT team_id FROM public.team_members
+    WHERE user_id = auth.uid() AND status = 'active'
+  ))
+);
+
+CREATE POLICY "Users can update their own and their team's patients"
+ON public.patients FOR UPDATE
+USING (public.can_access_patient(id, auth.uid()));
+
+CREATE POLICY "Users can delete their own patients"
+ON public.patients FOR DELETE
+USING (user_id = auth.uid());
+
+CREATE TRIGGER update_patients_updated_at
+BEFORE UPDATE ON public.patients
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS patient_record_id UUID REFERENCES public.patients(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.sessions.patient_record_id IS 'Linked patient; patient_name, patient_id (MRN) and patient_dob are copies of it';
+
+CREATE INDEX IF NOT EXISTS idx_sessions_patient_record_id ON public.sessions(patient_record_id, created_at DESC);
+
+-- Linking a session copies the patient's details onto it. Only patients the
+-- session owner can see may be linked.
+CREATE OR REPLACE FUNCTION public.copy_patient_to_session()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_patient public.patients%ROWTYPE;
+BEGIN
+  IF NEW.patient_record_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.patient_record_id IS NOT DISTINCT FROM OLD.patient_record_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.can_access_patient(NEW.patient_record_id, NEW.user_id) THEN
+    RAISE EXCEPTION 'Patient not found'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_patient FROM public.patients WHERE id = NEW.patient_record_id;
+  NEW.patient_name := v_patient.full_name;
+  NEW.patient_id := v_patient.mrn;
+  NEW.patient_dob := v_patient.date_of_birth;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_copy_patient_to_session ON public.sessions;
+CREATE TRIGGER trigger_copy_patient_to_session
+  BEFORE INSERT OR UPDATE OF patient_record_id ON public.sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.copy_patient_to_session();
+
+-- Correcting a patient corrects every linked session, signed ones included:
+-- the copies are chart details, not part of the signed note.
+-- SECURITY DEFINER so the update is not blocked by the locked-note policy.
+CREATE OR REPLACE FUNCTION public.sync_patient_to_sessions()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.sessions
+  SET patient_name = NEW.full_name,
+      patient_id = NEW.mrn,
+      patient_dob = NEW.date_of_birth
+  WHERE patient_record_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_sync_patient_to_sessions ON public.patients;
+CREATE TRIGGER trigger_sync_patient_to_sessions
+  AFTER UPDATE OF full_name, mrn, date_of_birth ON public.patients
+  FOR EACH ROW
+  WHEN (
+    NEW.full_name IS DISTINCT FROM OLD.full_name
+    OR NEW.mrn IS DISTINCT FROM OLD.mrn
+    OR NEW.date_of_birth IS DISTINCT FROM OLD.date_of_birth
+  )
+  EXECUTE FUNCTION public.sync_patient_to_sessions();
+
+-- Merge a duplicate into the record to keep: its sessions move over, details
+-- missing on the kept record are taken from it, and it is marked merged.
+-- Returns the number of sessions moved.
+CREATE OR REPLACE FUNCTION public.merge_patients(_keep_id UUID, _duplicate_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_keep public.patients%ROWTYPE;
+  v_duplicate public.patients%ROWTYPE;
+  v_moved INTEGER;
+BEGIN
+  IF _keep_id = _duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a patient into itself'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  IF NOT public.can_access_patient(_keep_id, auth.uid())
+    OR NOT public.can_access_patient(_duplicate_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Patient not found'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_keep FROM public.patients WHERE id = _keep_id FOR UPDATE;
+  SELECT * INTO v_duplicate FROM public.patients WHERE id = _duplicate_id FOR UPDATE;
+  IF v_keep.merged_into IS NOT NULL OR v_duplicate.merged_into IS NOT NULL THEN
+    RAISE EXCEPTION 'Patient was already merged'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.patients
+  SET mrn = coalesce(v_keep.mrn, v_duplicate.mrn),
+      date_of_birth = coalesce(v_keep.date_of_birth, v_duplicate.date_of_birth),
+      team_id = coalesce(v_keep.team_id, v_duplicate.team_id)
+  WHERE id = _keep_id;
+
+  UPDATE public.sessions
+  SET patient_record_id = _keep_id
+  WHERE patient_record_id = _duplicate_id;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  UPDATE public.patients
+  SET merged_into = _keep_id
+  WHERE id = _duplicate_id;
+
+  -- Records merged into the duplicate earlier now point at the survivor
+  UPDATE public.patients
+  SET merged_into = _keep_id
+  WHERE merged_into = _duplicate_id;
+
+  RETURN v_moved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_patients(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_patients(UUID, UUID) TO authenticated;
+
+-- One patient per distinct name, MRN and date of birth in each user's past
+-- sessions. Placeholder names of sessions never filled in are left unlinked.
+INSERT INTO public.patients (user_id, full_name, mrn, date_of_birth, created_at)
+SELECT DISTINCT ON (s.user_id, lower(btrim(s.patient_name)), coalesce(nullif(btrim(s.patient_id), ''), ''), coalesce(s.patient_dob::text, ''))
+  s.user_id,
+  btrim(s.patient_name),
+  nullif(btrim(s.patient_id), ''),
+  CASE WHEN s.patient_dob::text ~ '^\d{4}-\d{2}-\d{2}' THEN left(s.patient_dob::text, 10)::DATE END,
+  s.created_at
+FROM public.sessions s
+WHERE btrim(coalesce(s.patient_name, '')) <> ''
+  AND s.patient_name NOT IN ('New Patient', 'Untitled session')
+ORDER BY s.user_id, lower(btrim(s.patient_name)), coalesce(nullif(btrim(s.patient_id), ''), ''), coalesce(s.patient_dob::text, ''), s.created_at;
+
+-- Link directly rather than through patient_record_id's trigger path, which
+-- would rewrite the copies on signed sessions
+ALTER TABLE public.sessions DISABLE TRIGGER trigger_copy_patient_to_session;
+
+UPDATE public.sessions s
+SET patient_record_id = p.id
+FROM public.patients p
+WHERE p.user_id = s.user_id
+  AND lower(p.full_name) = lower(btrim(s.patient_name))
+  AND coalesce(p.mrn, '') = coalesce(nullif(btrim(s.patient_id), ''), '')
+  AND p.date_of_birth IS NOT DISTINCT FROM
+    CASE WHEN s.patient_dob::text ~ '^\d{4}-\d{2}-\d{2}' THEN left(s.patient_dob::text, 10)::DATE END
+  AND s.patient_record_id IS NULL;
+
+ALTER TABLE public.sessions ENABLE TRIGGER trigger_copy_patient_to_session;
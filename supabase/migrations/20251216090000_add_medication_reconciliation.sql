@@ -0,0 +1,102 @@
+-- Extracted entities and medication reconciliation
+-- extract-medical-entities saves what it finds for a session, replacing the
+-- previous run. Medications are stored normalized to drug name, dose, route
+-- and frequency so a visit's list can be compared with the patient's
+-- previous visit; the clinician's confirm or reject decision on each started,
+-- stopped or changed medication is kept per session and drug.
+
+CREATE TABLE IF NOT EXISTS public.session_entities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN (
+    'medication', 'diagnosis', 'procedure', 'symptom', 'anatomy', 'dosage', 'vital_sign', 'allergy'
+  )),
+  text TEXT NOT NULL,
+  start_offset INTEGER,
+  end_offset INTEGER,
+  confidence NUMERIC,
+  metadata JSONB,
+  -- Medications only
+  drug_name TEXT,
+  dose TEXT,
+  route TEXT,
+  frequency TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (entity_type = 'medication' OR drug_name IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_entities_session_id ON public.session_entities(session_id, entity_type);
+
+COMMENT ON COLUMN public.session_entities.drug_name IS 'Normalized lower-case drug name medications are matched on between visits';
+
+ALTER TABLE public.session_entities ENABLE ROW LEVEL SECURITY;
+
+-- Written by extract-medical-entities with the service role
+CREATE POLICY "Users can view entities of their own sessions"
+ON public.session_entities FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE sessions.id = session_entities.session_id
+    AND sessions.user_id = auth.uid()
+  )
+);
+
+CREATE TABLE IF NOT EXISTS public.medication_reconciliations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  drug_name TEXT NOT NULL,
+  change TEXT NOT NULL CHECK (change IN ('started', 'stopped', 'changed', 'unchanged')),
+  decision TEXT NOT NULL CHECK (decision IN ('confirmed', 'rejected')),
+  -- The medication at the previous and this visit as it was decided on
+  previous JSONB,
+  current JSONB,
+  previous_session_id UUID REFERENCES public.sessions(id) ON DELETE SET NULL,
+  decided_by UUID NOT NULL REFERENCES auth.users(id),
+  decided_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (session_id, drug_name)
+);
+
+ALTER TABLE public.medication_reconciliations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reconciliations of their own sessions"
+ON public.medication_reconciliations FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE sessions.id = medication_reconciliations.session_id
+    AND sessions.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can reconcile medications of their own sessions"
+ON public.medication_reconciliations FOR INSERT
+WITH CHECK (
+  decided_by = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE sessions.id = medication_reconciliations.session_id
+    AND sessions.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can change reconciliations of their own sessions"
+ON public.medication_reconciliations FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE sessions.id = medication_reconciliations.session_id
+    AND sessions.user_id = auth.uid()
+  )
+)
+WITH CHECK (decided_by = auth.uid());
+
+CREATE POLICY "Users can clear reconciliations of their own sessions"
+ON public.medication_reconciliations FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE sessions.id = medication_reconciliations.session_id
+    AND sessions.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,8 @@
+-- Drug interaction checks
+-- The app checks a session's medications and allergies against its bundled
+-- interaction knowledge base and records the result here whenever the set of
+-- warnings changes, so what the clinician was shown can be audited later.
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS interaction_check JSONB;
+
+COMMENT ON COLUMN public.sessions.interaction_check IS 'Latest interaction check: {kb_version, checked_at, warnings[{id, kind, severity, drugs, allergen, message, sources}]}';
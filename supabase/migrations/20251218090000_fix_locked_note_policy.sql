@@ -0,0 +1,11 @@
+-- "Locked notes cannot be updated" had no WITH CHECK, so its USING clause
+-- was applied to the new row as well and rejected the update that signs a
+-- note. The policy only has to stop updates to rows that are already
+-- locked; which states a note may move to is up to enforce_note_lifecycle.
+DROP POLICY IF EXISTS "Locked notes cannot be updated" ON public.sessions;
+CREATE POLICY "Locked notes cannot be updated"
+ON public.sessions
+AS RESTRICTIVE
+FOR UPDATE
+USING (note_status NOT IN ('signed', 'amended'))
+WITH CHECK (true);
@@ -0,0 +1,59 @@
+-- Transcribing a queued recording replaces what live transcription saved for
+-- it. The sync worker transcribes the whole recording when live transcription
+-- missed any part of it, so appending the result duplicated everything that
+-- was heard live. Replacing in one transaction also makes a retry safe after
+-- the rows were saved but the queue entry wasn't cleared.
+CREATE OR REPLACE FUNCTION public.replace_recording_transcripts(
+  _session_id UUID,
+  _recording_id UUID,
+  _segments JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_base BIGINT;
+  v_first BIGINT;
+  v_count INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('recording:' || _recording_id::text));
+
+  -- The recording keeps the place of its live segments; a recording with
+  -- none goes after the rest of the session
+  SELECT min(timestamp_offset) INTO v_base
+  FROM public.session_transcripts
+  WHERE session_id = _session_id AND recording_id = _recording_id;
+
+  IF v_base IS NULL THEN
+    SELECT coalesce(max(timestamp_offset), 0) + 1 INTO v_base
+    FROM public.session_transcripts
+    WHERE session_id = _session_id;
+  END IF;
+
+  -- Segment starts are ms into the recording; the first one lands on the
+  -- base so a repeated replace keeps the same offsets
+  SELECT coalesce(min((segment->>'start')::BIGINT), 0) INTO v_first
+  FROM jsonb_array_elements(_segments) AS segment;
+
+  DELETE FROM public.session_transcripts
+  WHERE session_id = _session_id AND recording_id = _recording_id;
+
+  INSERT INTO public.session_transcripts (session_id, recording_id, text, speaker, timestamp_offset, words)
+  SELECT
+    _session_id,
+    _recording_id,
+    trim(segment->>'text'),
+    segment->>'speaker',
+    v_base + coalesce((segment->>'start')::BIGINT, v_first) - v_first,
+    segment->'words'
+  FROM jsonb_array_elements(_segments) AS segment
+  WHERE trim(coalesce(segment->>'text', '')) <> '';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.replace_recording_transcripts IS 'Replace the transcript segments of one recording: [{text, speaker, start, words}] with start in ms into the recording';
@@ -0,0 +1,113 @@
+-- The per-minute rate is a policy of each function (QUOTA_POLICIES in
+-- _shared/quota.ts), but consume_quota() counted every call of the same kind
+-- against it, so generate-note and ask-heidi used up each other's limit.
+-- The window now counts the function's own calls; monthly budgets stay per
+-- kind. Calls are serialized per kind on the team when it has a budget, else
+-- on the user, so concurrent calls can't both take the last of the budget.
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_user_function_created
+ON public.usage_events(user_id, function_name, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.consume_quota(
+  _user_id UUID,
+  _function_name TEXT,
+  _kind TEXT,
+  _amount NUMERIC,
+  _per_minute INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now TIMESTAMP WITH TIME ZONE := now();
+  v_window_start TIMESTAMP WITH TIME ZONE := v_now - INTERVAL '1 minute';
+  v_month_start TIMESTAMP WITH TIME ZONE := date_trunc('month', v_now);
+  v_recent INTEGER;
+  v_oldest TIMESTAMP WITH TIME ZONE;
+  v_team_id UUID;
+  v_budget NUMERIC;
+  v_used NUMERIC := 0;
+  v_budget_json JSONB := NULL;
+  v_event_id UUID;
+BEGIN
+  SELECT team_id INTO v_team_id
+  FROM public.team_members
+  WHERE user_id = _user_id AND status = 'active'
+  ORDER BY joined_at NULLS LAST, created_at
+  LIMIT 1;
+
+  IF v_team_id IS NOT NULL THEN
+    SELECT CASE _kind
+      WHEN 'ai' THEN monthly_ai_requests::NUMERIC
+      WHEN 'transcription' THEN monthly_transcription_minutes
+    END INTO v_budget
+    FROM public.team_budgets
+    WHERE team_id = v_team_id;
+  END IF;
+
+  -- The team's budget is shared by its members, so they take turns on it
+  IF v_budget IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('team:' || v_team_id::text || ':' || _kind));
+  ELSE
+    PERFORM pg_advisory_xact_lock(hashtext(_user_id::text || ':' || _kind));
+  END IF;
+
+  SELECT count(*), min(created_at) INTO v_recent, v_oldest
+  FROM public.usage_events
+  WHERE user_id = _user_id AND function_name = _function_name AND created_at > v_window_start;
+
+  IF v_budget IS NOT NULL THEN
+    SELECT coalesce(sum(amount), 0) INTO v_used
+    FROM public.usage_events
+    WHERE team_id = v_team_id AND kind = _kind AND created_at >= v_month_start;
+
+    v_budget_json := jsonb_build_object(
+      'limit', v_budget,
+      'used', v_used,
+      'period_end', v_month_start + INTERVAL '1 month'
+    );
+  END IF;
+
+  IF v_recent >= _per_minute THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'rate_limited',
+      'limit', _per_minute,
+      'remaining', 0,
+      'reset_at', v_oldest + INTERVAL '1 minute',
+      'event_id', NULL,
+      'budget', v_budget_json
+    );
+  END IF;
+
+  -- A transcription's length is only known afterwards, so it is let through
+  -- while any budget is left
+  IF v_budget IS NOT NULL AND (v_used >= v_budget OR v_used + _amount > v_budget) THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'quota_exceeded',
+      'limit', _per_minute,
+      'remaining', _per_minute - v_recent,
+      'reset_at', coalesce(v_oldest + INTERVAL '1 minute', v_now),
+      'event_id', NULL,
+      'budget', v_budget_json
+    );
+  END IF;
+
+  INSERT INTO public.usage_events (user_id, team_id, function_name, kind, amount)
+  VALUES (_user_id, v_team_id, _function_name, _kind, _amount)
+  RETURNING id INTO v_event_id;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'reason', 'ok',
+    'limit', _per_minute,
+    'remaining', _per_minute - v_recent - 1,
+    'reset_at', coalesce(v_oldest, v_now) + INTERVAL '1 minute',
+    'event_id', v_event_id,
+    'budget', v_budget_json
+  );
+END;
+$$;
@@ -0,0 +1,33 @@
+-- "Users can update their own and their team's patients" had no WITH CHECK,
+-- so a team member could move a patient to a team they don't belong to, or
+-- take it over by changing user_id. The updated row must stay personal or in
+-- one of the caller's active teams, and the owner can't change at all.
+DROP POLICY IF EXISTS "Users can update their own and their team's patients" ON public.patients;
+CREATE POLICY "Users can update their own and their team's patients"
+ON public.patients FOR UPDATE
+USING (public.can_access_patient(id, auth.uid()))
+WITH CHECK (
+  team_id IS NULL OR team_id IN (
+    SELECT team_id FROM public.team_members
+    WHERE user_id = auth.uid() AND status = 'active'
+  )
+);
+
+-- A policy can't see the old row, so the owner is pinned by a trigger; it
+-- also holds for the service role
+CREATE OR REPLACE FUNCTION public.prevent_patient_owner_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'A patient''s owner cannot be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_prevent_patient_owner_change ON public.patients;
+CREATE TRIGGER trigger_prevent_patient_owner_change
+  BEFORE UPDATE OF user_id ON public.patients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_patient_owner_change();
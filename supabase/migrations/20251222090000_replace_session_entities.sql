@@ -0,0 +1,33 @@
+-- extract-medical-entities replaced a session's entities with a delete and
+-- a separate insert, so a failed insert left the session with none and two
+-- runs at once could both insert. The replace is now one transaction,
+-- serialized per session.
+CREATE OR REPLACE FUNCTION public.replace_session_entities(_session_id UUID, _entities JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('session_entities:' || _session_id::text));
+
+  DELETE FROM public.session_entities WHERE session_id = _session_id;
+
+  INSERT INTO public.session_entities (
+    session_id, entity_type, text, start_offset, end_offset, confidence, metadata,
+    drug_name, dose, route, frequency
+  )
+  SELECT
+    _session_id, e.entity_type, e.text, e.start_offset, e.end_offset, e.confidence, e.metadata,
+    e.drug_name, e.dose, e.route, e.frequency
+  FROM jsonb_populate_recordset(NULL::public.session_entities, _entities) AS e;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_session_entities(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_session_entities(UUID, JSONB) TO service_role;
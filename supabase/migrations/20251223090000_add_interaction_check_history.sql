@@ -0,0 +1,88 @@
+-- Interaction check history
+-- sessions.interaction_check only held the latest check, so each change
+-- overwrote what the clinician had been shown before. Checks are now
+-- appended here and never updated or deleted; the latest row is the current
+-- check.
+
+CREATE TABLE IF NOT EXISTS public.interaction_checks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  checked_by UUID REFERENCES auth.users(id),
+  kb_version TEXT NOT NULL,
+  -- [{id, kind, severity, drugs, allergen, message, sources}]
+  warnings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_interaction_checks_session ON public.interaction_checks(session_id, checked_at DESC);
+
+ALTER TABLE public.interaction_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view interaction checks of their own sessions"
+ON public.interaction_checks FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE sessions.id = interaction_checks.session_id
+    AND sessions.user_id = auth.uid()
+  )
+);
+
+-- No insert, update or delete policies: the history is append-only and
+-- checks are recorded through record_interaction_check(), which stamps the
+-- time and the caller itself
+
+-- Records a check unless it matches the session's latest one, so re-running
+-- an unchanged check (e.g. on every note edit) adds nothing. Serialized per
+-- session so two tabs can't both record the same change.
+CREATE OR REPLACE FUNCTION public.record_interaction_check(_session_id UUID, _kb_version TEXT, _warnings JSONB)
+RETURNS public.interaction_checks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_latest public.interaction_checks;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE id = _session_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the session owner can record interaction checks'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('interaction_checks:' || _session_id::text));
+
+  SELECT * INTO v_latest
+  FROM public.interaction_checks
+  WHERE session_id = _session_id
+  ORDER BY checked_at DESC
+  LIMIT 1;
+
+  IF FOUND AND v_latest.kb_version = _kb_version AND v_latest.warnings = coalesce(_warnings, '[]'::jsonb) THEN
+    RETURN v_latest;
+  END IF;
+
+  INSERT INTO public.interaction_checks (session_id, checked_by, kb_version, warnings)
+  VALUES (_session_id, auth.uid(), _kb_version, coalesce(_warnings, '[]'::jsonb))
+  RETURNING * INTO v_latest;
+
+  RETURN v_latest;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_interaction_check(UUID, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_interaction_check(UUID, TEXT, JSONB) TO authenticated;
+
+INSERT INTO public.interaction_checks (session_id, checked_by, kb_version, warnings, checked_at)
+SELECT
+  id,
+  user_id,
+  interaction_check->>'kb_version',
+  coalesce(interaction_check->'warnings', '[]'::jsonb),
+  coalesce((interaction_check->>'checked_at')::TIMESTAMP WITH TIME ZONE, updated_at)
+FROM public.sessions
+WHERE interaction_check ? 'kb_version';
+
+ALTER TABLE public.sessions DROP COLUMN IF EXISTS interaction_check;
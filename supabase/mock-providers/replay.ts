@@ -0,0 +1,334 @@
+/**
+ * Provider replay - deterministic stand-ins for the third-party APIs
+ *
+ * Answers the requests the edge functions make to the Lovable AI gateway,
+ * OpenAI Whisper, AssemblyAI (batch and realtime) and Deepgram streaming
+ * from recorded fixtures. Each provider is served under /<provider>, the
+ * layout providerUrl() in _shared/providers.ts produces when
+ * PROVIDER_MOCK_URL is set.
+ *
+ * Streaming transcripts follow the audio: a recorded message is sent once
+ * the client has streamed enough PCM16 audio to reach the end of it, so a
+ * test controls timing by how much audio it sends, not by the clock.
+ *
+ * Built on web-standard Request/Response only, so the same code backs the
+ * Deno server (server.ts) and runs in-process in tests.
+ */
+
+import type { Provider } from '../functions/_shared/providers.ts';
+
+export interface GatewayFixture {
+  name: string;
+  /** All conditions must hold: substrings of the messages, and a tool offered in the request */
+  match: { contains?: string[]; tool?: string };
+  /** Assistant message; objects are sent as JSON text */
+  content?: unknown;
+  tool_call?: { name: string; arguments: unknown };
+  /** Reply with the last user message after this marker, for pass-through calls like auto-correct */
+  echo_after?: string;
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+}
+
+export interface DeepgramMessage {
+  type: string;
+  start: number;
+  duration: number;
+  is_final?: boolean;
+  [key: string]: unknown;
+}
+
+export interface AssemblyAIMessage {
+  message_type: string;
+  audio_end: number;
+  [key: string]: unknown;
+}
+
+export interface ProviderFixtures {
+  lovableAi: GatewayFixture[];
+  deepgram: { request_id: string; messages: DeepgramMessage[] };
+  assemblyai: { session_id: string; messages: AssemblyAIMessage[]; transcript: Record<string, unknown> };
+  whisper: Record<string, unknown>;
+}
+
+/** Server side of a WebSocket, as the replay sees it */
+export interface MockSocket {
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export interface MockStream {
+  receive(data: string | ArrayBuffer | Uint8Array): void;
+  /** The client went away */
+  close(): void;
+}
+
+export interface MockCall {
+  provider: string;
+  method: string;
+  path: string;
+}
+
+/** Streaming APIs are fed 16 kHz mono PCM16 */
+const PCM_BYTES_PER_SECOND = 16_000 * 2;
+
+/** Characters per streamed completion chunk */
+const STREAM_CHUNK_CHARS = 24;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const notRecorded = (what: string) => json({ error: { message: `No fixture for ${what}` } }, 501);
+
+function base64ByteLength(value: string): number {
+  const padding = value.endsWith('==') ? 2 : value.endsWith('=') ? 1 : 0;
+  return Math.floor((value.length * 3) / 4) - padding;
+}
+
+function messageText(messages: unknown): string {
+  if (!Array.isArray(messages)) return '';
+  return messages
+    .map(message => (typeof message?.content === 'string' ? message.content : JSON.stringify(message?.content ?? '')))
+    .join('\n');
+}
+
+function lastUserMessage(messages: unknown): string {
+  if (!Array.isArray(messages)) return '';
+  const user = [...messages].reverse().find(message => message?.role === 'user');
+  return typeof user?.content === 'string' ? user.content : '';
+}
+
+export function findGatewayFixture(fixtures: GatewayFixture[], body: Record<string, unknown>): GatewayFixture | null {
+  const text = messageText(body.messages);
+  const tools = Array.isArray(body.tools)
+    ? body.tools.map(tool => (tool as { function?: { name?: string } })?.function?.name)
+    : [];
+
+  return fixtures.find(fixture =>
+    (fixture.match.contains || []).every(fragment => text.includes(fragment)) &&
+    (!fixture.match.tool || tools.includes(fixture.match.tool))
+  ) ?? null;
+}
+
+export function createProviderMock(fixtures: ProviderFixtures) {
+  const calls: MockCall[] = [];
+  let sequence = 0;
+  const transcripts = new Set<string>();
+
+  function gatewayReply(fixture: GatewayFixture, body: Record<string, unknown>) {
+    let content: string | null = null;
+    if (fixture.echo_after !== undefined) {
+      const message = lastUserMessage(body.messages);
+      const at = message.indexOf(fixture.echo_after);
+      content = (at === -1 ? message : message.slice(at + fixture.echo_after.length)).trim();
+    } else if (fixture.content !== undefined) {
+      content = typeof fixture.content === 'string' ? fixture.content : JSON.stringify(fixture.content, null, 2);
+    }
+
+    const toolCalls = fixture.tool_call
+      ? [{
+          id: `call_${fixture.name}`,
+          type: 'function',
+          function: { name: fixture.tool_call.name, arguments: JSON.stringify(fixture.tool_call.arguments) },
+        }]
+      : undefined;
+
+    // Rough but repeatable token counts when the fixture has none
+    const promptTokens = Math.ceil(messageText(body.messages).length / 4);
+    const completionTokens = Math.ceil((content || toolCalls?.[0].function.arguments || '').length / 4);
+    const usage = fixture.usage ?? {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+
+    return { content, toolCalls, usage };
+  }
+
+  function handleGateway(body: Record<string, unknown>): Response {
+    const fixture = findGatewayFixture(fixtures.lovableAi, body);
+    if (!fixture) return notRecorded('this chat completion');
+
+    const id = `chatcmpl-mock-${++sequence}`;
+    const model = body.model ?? 'mock';
+    const { content, toolCalls, usage } = gatewayReply(fixture, body);
+    const finishReason = toolCalls ? 'tool_calls' : 'stop';
+
+    if (!body.stream) {
+      return json({
+        id,
+        object: 'chat.completion',
+        created: 0,
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content, tool_calls: toolCalls }, finish_reason: finishReason }],
+        usage,
+      });
+    }
+
+    const chunk = (choice: Record<string, unknown>, extra: Record<string, unknown> = {}) =>
+      `data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created: 0, model, choices: [choice], ...extra })}\n\n`;
+
+    const events: string[] = [chunk({ index: 0, delta: { role: 'assistant' }, finish_reason: null })];
+    if (toolCalls) {
+      events.push(chunk({ index: 0, delta: { tool_calls: toolCalls.map((call, index) => ({ index, ...call })) }, finish_reason: null }));
+    }
+    for (let at = 0; content && at < content.length; at += STREAM_CHUNK_CHARS) {
+      events.push(chunk({ index: 0, delta: { content: content.slice(at, at + STREAM_CHUNK_CHARS) }, finish_reason: null }));
+    }
+    events.push(chunk({ index: 0, delta: {}, finish_reason: finishReason }, { usage }));
+    events.push('data: [DONE]\n\n');
+
+    const encoder = new TextEncoder();
+    return new Response(
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          events.forEach(event => controller.enqueue(encoder.encode(event)));
+          controller.close();
+        },
+      }),
+      { headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' } }
+    );
+  }
+
+  async function handleWhisper(req: Request): Promise<Response> {
+    const form = await req.formData().catch(() => null);
+    if (!form?.get('file')) {
+      return json({ error: { message: "Missing required parameter: 'file'." } }, 400);
+    }
+    return form.get('response_format') === 'verbose_json' ? json(fixtures.whisper) : json({ text: fixtures.whisper.text });
+  }
+
+  async function handleAssemblyAI(req: Request, path: string, origin: string): Promise<Response> {
+    if (req.method === 'POST' && path === '/v2/upload') {
+      await req.arrayBuffer();
+      return json({ upload_url: `${origin}/assemblyai/v2/uploads/${++sequence}` });
+    }
+    if (req.method === 'POST' && path === '/v2/transcript') {
+      const body = await req.json().catch(() => ({}));
+      if (!body.audio_url) return json({ error: 'audio_url is required' }, 400);
+      const id = `mock-transcript-${++sequence}`;
+      transcripts.add(id);
+      return json({ id, status: 'queued', audio_url: body.audio_url });
+    }
+    const polled = path.match(/^\/v2\/transcript\/([^/]+)$/);
+    if (req.method === 'GET' && polled) {
+      // Finished on the first poll; there is nothing to wait for
+      if (!transcripts.has(polled[1])) return json({ error: 'Transcript not found' }, 404);
+      return json({ ...fixtures.assemblyai.transcript, id: polled[1], status: 'completed' });
+    }
+    return notRecorded(`assemblyai ${req.method} ${path}`);
+  }
+
+  /**
+   * Answer one HTTP request to a provider
+   */
+  async function handleRequest(req: Request): Promise<Response> {
+    const url = new URL(req.url);
+    const [, provider = '', ...rest] = url.pathname.split('/');
+    const path = `/${rest.join('/')}`;
+    calls.push({ provider, method: req.method, path });
+
+    switch (provider as Provider) {
+      case 'lovable_ai':
+        if (req.method === 'POST' && path === '/v1/chat/completions') {
+          return handleGateway(await req.json());
+        }
+        break;
+      case 'openai':
+        if (req.method === 'POST' && path === '/v1/audio/transcriptions') {
+          return handleWhisper(req);
+        }
+        break;
+      case 'assemblyai':
+        return handleAssemblyAI(req, path, url.origin);
+    }
+    return notRecorded(`${provider} ${req.method} ${path}`);
+  }
+
+  function deepgramStream(socket: MockSocket): MockStream {
+    const { request_id, messages } = fixtures.deepgram;
+    let audioBytes = 0;
+    let next = 0;
+    let open = true;
+
+    const sendUpTo = (seconds: number) => {
+      while (next < messages.length && messages[next].start + messages[next].duration <= seconds) {
+        socket.send(JSON.stringify({ ...messages[next++], metadata: { request_id } }));
+      }
+    };
+
+    const finish = () => {
+      if (!open) return;
+      sendUpTo(Infinity);
+      socket.send(JSON.stringify({ type: 'Metadata', request_id, duration: audioBytes / PCM_BYTES_PER_SECOND, channels: 1 }));
+      open = false;
+      socket.close(1000, 'Stream finished');
+    };
+
+    return {
+      receive(data) {
+        if (!open) return;
+        if (typeof data === 'string') {
+          const message = JSON.parse(data);
+          if (message.type === 'CloseStream') finish();
+          return;
+        }
+        audioBytes += data.byteLength;
+        sendUpTo(audioBytes / PCM_BYTES_PER_SECOND);
+      },
+      close() {
+        open = false;
+      },
+    };
+  }
+
+  function assemblyAIStream(socket: MockSocket): MockStream {
+    const { session_id, messages } = fixtures.assemblyai;
+    let audioBytes = 0;
+    let next = 0;
+    let open = true;
+
+    const sendUpTo = (seconds: number) => {
+      while (next < messages.length && messages[next].audio_end / 1000 <= seconds) {
+        socket.send(JSON.stringify(messages[next++]));
+      }
+    };
+
+    socket.send(JSON.stringify({ message_type: 'SessionBegins', session_id, expires_at: '2025-12-13T10:00:00.000Z' }));
+
+    return {
+      receive(data) {
+        if (!open || typeof data !== 'string') return;
+        const message = JSON.parse(data);
+        if (typeof message.audio_data === 'string') {
+          audioBytes += base64ByteLength(message.audio_data);
+          sendUpTo(audioBytes / PCM_BYTES_PER_SECOND);
+        } else if (message.terminate_session) {
+          sendUpTo(Infinity);
+          socket.send(JSON.stringify({ message_type: 'SessionTerminated' }));
+          open = false;
+          socket.close(1000, 'Session terminated');
+        }
+      },
+      close() {
+        open = false;
+      },
+    };
+  }
+
+  /**
+   * Start replaying a streaming API on a newly opened WebSocket
+   */
+  function openStream(url: URL, socket: MockSocket): MockStream {
+    const [, provider = '', ...rest] = url.pathname.split('/');
+    const path = `/${rest.join('/')}`;
+    calls.push({ provider, method: 'WS', path });
+
+    if (provider === 'deepgram' && path === '/v1/listen') return deepgramStream(socket);
+    if (provider === 'assemblyai' && path === '/v2/realtime/ws') return assemblyAIStream(socket);
+
+    socket.close(4004, `No fixture for ${provider} ${path}`);
+    return { receive() {}, close() {} };
+  }
+
+  return { calls, handleRequest, openStream };
+}
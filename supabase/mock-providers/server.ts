@@ -0,0 +1,50 @@
+/**
+ * Local provider stand-in server
+ *
+ * Serves the recorded fixtures in ./fixtures in place of the Lovable AI
+ * gateway, OpenAI Whisper, AssemblyAI and Deepgram. Start it, then point the
+ * edge functions at it with PROVIDER_MOCK_URL (see docs/BACKEND_SETUP.md):
+ *
+ *   deno run --allow-net --allow-read --allow-env supabase/mock-providers/server.ts
+ *
+ * MOCK_PROVIDERS_PORT changes the port (default 54330).
+ */
+
+import { createProviderMock, type MockStream, type ProviderFixtures } from './replay.ts';
+
+const fixturesDir = new URL('./fixtures/', import.meta.url);
+const load = async (name: string) => JSON.parse(await Deno.readTextFile(new URL(name, fixturesDir)));
+
+const fixtures: ProviderFixtures = {
+  lovableAi: await load('lovable-ai.json'),
+  deepgram: await load('deepgram.json'),
+  assemblyai: await load('assemblyai.json'),
+  whisper: await load('openai-whisper.json'),
+};
+
+const mock = createProviderMock(fixtures);
+const port = Number(Deno.env.get('MOCK_PROVIDERS_PORT') || 54330);
+
+Deno.serve({ port }, (req) => {
+  const url = new URL(req.url);
+  console.log(`${req.method} ${url.pathname}`);
+
+  if ((req.headers.get('upgrade') || '').toLowerCase() !== 'websocket') {
+    return mock.handleRequest(req);
+  }
+
+  const { socket, response } = Deno.upgradeWebSocket(req);
+  socket.binaryType = 'arraybuffer';
+  let stream: MockStream | null = null;
+
+  socket.onopen = () => {
+    stream = mock.openStream(url, {
+      send: (data) => socket.send(data),
+      close: (code, reason) => socket.close(code, reason),
+    });
+  };
+  socket.onmessage = (event) => stream?.receive(event.data);
+  socket.onclose = () => stream?.close();
+
+  return response;
+});
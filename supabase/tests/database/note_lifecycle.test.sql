@@ -0,0 +1,133 @@
+-- Note lifecycle enforcement (20251209090000_add_note_signing_and_addenda.sql):
+-- the enforce_note_lifecycle trigger and the RESTRICTIVE "Locked notes cannot
+-- be updated" policy. src/lib/noteLifecycle.ts only mirrors these rules for
+-- the UI; these are the checks that make signed notes immutable.
+-- Run with `supabase test db` (pgTAP); everything is rolled back.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SET search_path = public, extensions;
+
+SELECT plan(16);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'owner@lifecycle.test'),
+  ('00000000-0000-0000-0000-0000000000b2', 'other@lifecycle.test');
+
+INSERT INTO public.sessions (id, user_id, patient_name, generated_note) VALUES
+  ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000a1', 'Test Patient', 'Original note'),
+  ('00000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-0000000000a1', 'Test Patient', 'Second note'),
+  ('00000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-0000000000a1', 'Test Patient', '   ');
+
+-- Act as the session owner through the API
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+-- Transitions
+SELECT throws_ok(
+  $$ UPDATE public.sessions SET note_status = 'signed' WHERE id = '00000000-0000-0000-0000-000000000001' $$,
+  '23514', 'Invalid note status transition from draft to signed',
+  'a draft cannot be signed without review'
+);
+SELECT throws_ok(
+  $$ UPDATE public.sessions SET note_status = 'pending_review' WHERE id = '00000000-0000-0000-0000-000000000003' $$,
+  '23514', 'Cannot submit an empty note for review',
+  'an empty note cannot be submitted'
+);
+SELECT lives_ok(
+  $$ UPDATE public.sessions SET note_status = 'pending_review'
+     WHERE id IN ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002') $$,
+  'a draft can be submitted for review'
+);
+SELECT isnt(
+  (SELECT submitted_for_review_at FROM public.sessions WHERE id = '00000000-0000-0000-0000-000000000001'),
+  NULL,
+  'submitting stamps submitted_for_review_at'
+);
+
+-- Signature spoofing
+SELECT throws_ok(
+  $$ UPDATE public.sessions
+     SET signed_at = '2020-01-01', signed_by = '00000000-0000-0000-0000-0000000000b2'
+     WHERE id = '00000000-0000-0000-0000-000000000001' $$,
+  '23514', 'Signature fields are set only when signing',
+  'signature fields cannot be written without signing'
+);
+SELECT lives_ok(
+  $$ UPDATE public.sessions
+     SET note_status = 'signed', signed_at = '2020-01-01', signed_by = '00000000-0000-0000-0000-0000000000b2'
+     WHERE id = '00000000-0000-0000-0000-000000000001' $$,
+  'the owner can sign a note under review'
+);
+SELECT results_eq(
+  $$ SELECT signed_by, signed_at > now() - interval '1 minute' FROM public.sessions
+     WHERE id = '00000000-0000-0000-0000-000000000001' $$,
+  $$ VALUES ('00000000-0000-0000-0000-0000000000a1'::uuid, true) $$,
+  'signing records the caller and the current time, whatever was sent'
+);
+
+-- Locked notes through the API: the restrictive policy hides them from UPDATE
+UPDATE public.sessions SET generated_note = 'Tampered' WHERE id = '00000000-0000-0000-0000-000000000001';
+UPDATE public.sessions SET note_status = 'draft' WHERE id = '00000000-0000-0000-0000-000000000001';
+SELECT results_eq(
+  $$ SELECT generated_note, note_status::text FROM public.sessions WHERE id = '00000000-0000-0000-0000-000000000001' $$,
+  $$ VALUES ('Original note', 'signed') $$,
+  'a signed note cannot be edited or reopened through the API'
+);
+
+-- Another clinician cannot sign someone else's note
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b2", "role": "authenticated"}', true);
+SELECT throws_ok(
+  $$ UPDATE public.sessions SET note_status = 'signed' WHERE id = '00000000-0000-0000-0000-000000000002' $$,
+  '42501', 'Only the session owner can sign the note',
+  'only the owner can sign'
+);
+
+-- The service role (no JWT subject) bypasses RLS, so the trigger is what stops it
+SELECT set_config('request.jwt.claims', '', true);
+SELECT throws_ok(
+  $$ UPDATE public.sessions SET note_status = 'signed' WHERE id = '00000000-0000-0000-0000-000000000002' $$,
+  '42501', 'Only the session owner can sign the note',
+  'the service role cannot sign on a user''s behalf'
+);
+SELECT throws_ok(
+  $$ UPDATE public.sessions SET generated_note = 'Tampered' WHERE id = '00000000-0000-0000-0000-000000000001' $$,
+  '23514', 'Note is signed and locked; add an addendum instead',
+  'a signed note cannot be edited even bypassing RLS'
+);
+SELECT throws_ok(
+  $$ UPDATE public.sessions SET signed_by = '00000000-0000-0000-0000-0000000000b2' WHERE id = '00000000-0000-0000-0000-000000000001' $$,
+  '23514', 'Note is signed and locked; add an addendum instead',
+  'the signer of a signed note cannot be changed'
+);
+SELECT throws_ok(
+  $$ UPDATE public.sessions SET note_status = 'draft' WHERE id = '00000000-0000-0000-0000-000000000001' $$,
+  '23514', 'Signed notes cannot return to draft',
+  'a signed note cannot return to draft'
+);
+SELECT lives_ok(
+  $$ UPDATE public.sessions SET chief_complaint = 'Cough' WHERE id = '00000000-0000-0000-0000-000000000001' $$,
+  'fields outside the note stay editable on a signed session'
+);
+
+-- Addenda amend the note, which stays locked
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+INSERT INTO public.note_addenda (session_id, author_id, content)
+VALUES ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000a1', 'Follow-up result added');
+SELECT is(
+  (SELECT note_status::text FROM public.sessions WHERE id = '00000000-0000-0000-0000-000000000001'),
+  'amended',
+  'the first addendum marks the note amended'
+);
+
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', true);
+SELECT throws_ok(
+  $$ UPDATE public.sessions SET note_status = 'signed' WHERE id = '00000000-0000-0000-0000-000000000001' $$,
+  '23514', 'Signed notes cannot return to signed',
+  'an amended note cannot go back to signed'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,128 @@
+/**
+ * Drug Interaction Tests
+ * Offline drug–allergy and drug–drug checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assertedAllergies, checkInteractions, findDrugs, interactionInputFromSession } from '../src/lib/drugInteractions';
+
+describe('Drug lookup', () => {
+  it('should find drugs by generic or brand name, preferring the longest match', () => {
+    expect(findDrugs('Continue Coumadin, start Augmentin 875 mg BID').map(d => d.name)).toEqual(['warfarin', 'amoxicillin']);
+    expect(findDrugs('Bactrim DS / sulfamethoxazole-trimethoprim').map(d => d.name)).toEqual(['sulfamethoxazole-trimethoprim']);
+    expect(findDrugs('aspirational goals')).toEqual([]);
+  });
+});
+
+describe('Drug–allergy checks', () => {
+  it('should flag a penicillin allergy with amoxicillin in the plan', () => {
+    const warnings = checkInteractions({
+      medications: [{ text: 'Amoxicillin 500 mg three times daily for 7 days', source: 'note' }],
+      allergies: ['Allergic to penicillin (rash)'],
+    });
+    expect(warnings).toEqual([expect.objectContaining({
+      id: 'drug_allergy:amoxicillin',
+      kind: 'drug_allergy',
+      severity: 'contraindicated',
+      allergen: 'Penicillin',
+      sources: ['note'],
+    })]);
+  });
+
+  it('should treat cephalosporins as possible cross-reactions and ignore "no known allergies"', () => {
+    expect(checkInteractions({
+      medications: [{ text: 'cephalexin', source: 'transcript' }],
+      allergies: ['PCN'],
+    }).map(w => w.severity)).toEqual(['moderate']);
+    expect(checkInteractions({
+      medications: [{ text: 'amoxicillin', source: 'transcript' }],
+      allergies: ['No known drug allergies'],
+    })).toEqual([]);
+  });
+
+  it('should ignore negated allergies', () => {
+    expect(assertedAllergies('No allergy to penicillin')).toEqual([]);
+    expect(assertedAllergies('Denies allergy to sulfa. Not allergic to latex; NKDA')).toEqual([]);
+    expect(assertedAllergies('No known allergy to sulfa but allergic to penicillin')).toEqual(['allergic to penicillin']);
+
+    expect(checkInteractions({
+      medications: [{ text: 'amoxicillin', source: 'note' }, { text: 'Bactrim', source: 'note' }],
+      allergies: ['No allergy to penicillin', 'Patient denies allergy to sulfa'],
+    })).toEqual([]);
+  });
+
+  it('should keep an allergy stated next to a negated one', () => {
+    expect(assertedAllergies('No known allergy to sulfa, latex, allergic to penicillin')).toEqual(['allergic to penicillin']);
+
+    for (const allergies of [
+      'Allergic to penicillin, no other known drug allergies',
+      'Penicillin allergy, no other allergies',
+      'Allergies: penicillin (hives), denies other allergies',
+    ]) {
+      expect(checkInteractions({
+        medications: [{ text: 'amoxicillin', source: 'note' }],
+        allergies: [allergies],
+      }).map(w => [w.id, w.severity])).toEqual([['drug_allergy:amoxicillin', 'contraindicated']]);
+    }
+  });
+});
+
+describe('Drug–drug checks', () => {
+  it('should report each pair once at its most severe, most severe first', () => {
+    const warnings = checkInteractions({
+      medications: [
+        { text: 'warfarin 5 mg daily', source: 'transcript' },
+        { text: 'aspirin 81 mg', source: 'transcript' },
+        { text: 'sildenafil as needed', source: 'note' },
+        { text: 'nitroglycerin SL prn', source: 'transcript' },
+      ],
+      allergies: [],
+    });
+    expect(warnings.map(w => [w.id, w.severity])).toEqual([
+      ['drug_drug:nitroglycerin+sildenafil', 'contraindicated'],
+      ['drug_drug:aspirin+warfarin', 'major'],
+    ]);
+    expect(warnings[0].sources).toEqual(['note', 'transcript']);
+  });
+});
+
+describe('Session input', () => {
+  it('should read medications from the plan and allergies from entities, the note and context', () => {
+    const input = interactionInputFromSession(
+      [
+        { entity_type: 'allergy', text: 'allergic to penicillin', start_offset: 10, end_offset: 32 },
+        { entity_type: 'medication', text: 'penicillin', start_offset: 22, end_offset: 32 },
+        { entity_type: 'medication', text: 'tramadol', start_offset: 50, end_offset: 58 },
+      ],
+      { plan: ['Start sertraline 50 mg daily', 'Allergies reviewed: sulfa'], subjective: 'Takes ibuprofen' },
+      'Allergies: latex'
+    );
+    expect(input).toEqual({
+      medications: [
+        { text: 'tramadol', source: 'transcript' },
+        { text: 'Start sertraline 50 mg daily', source: 'note' },
+      ],
+      allergies: ['allergic to penicillin', 'Allergies reviewed: sulfa', 'Allergies: latex'],
+    });
+    expect(checkInteractions(input).map(w => w.id)).toEqual(['drug_drug:sertraline+tramadol']);
+  });
+
+  it('should not read allergies from lines that only mention one', () => {
+    const input = interactionInputFromSession(
+      [],
+      {
+        plan: ['Amoxicillin 500 mg three times daily', 'Counselled on signs of allergic reaction to amoxicillin'],
+        allergies: 'Penicillin (rash)',
+      },
+      'Discussed allergic rhinitis'
+    );
+    expect(input.allergies).toEqual(['Penicillin (rash)']);
+    expect(checkInteractions(input).map(w => w.allergen)).toEqual(['Penicillin']);
+
+    const counselled = interactionInputFromSession([], {
+      plan: ['Amoxicillin 500 mg three times daily', 'Counselled on signs of allergic reaction to amoxicillin'],
+    });
+    expect(counselled.allergies).toEqual([]);
+    expect(checkInteractions(counselled)).toEqual([]);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * E2E Provider Stand-in Tests
+ *
+ * Runs record → transcribe → note against the recorded provider fixtures,
+ * with every provider URL resolved the way the edge functions resolve it
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  PROVIDER_ORIGINS,
+  isProviderMocked,
+  providerSocketUrl,
+  providerUrl,
+  type EnvReader,
+} from '../../supabase/functions/_shared/providers';
+import { createProviderMock, type ProviderFixtures } from '../../supabase/mock-providers/replay';
+import { normalizeNoteOutput, parseNoteOutput } from '../../supabase/functions/_shared/noteValidation';
+import { BUILT_IN_TEMPLATES } from '../../supabase/functions/_shared/noteTemplate';
+import { buildNoteEvidence, type EvidenceSegment } from '../../supabase/functions/_shared/noteEvidence';
+import { createPartialNoteParser, type NoteSections } from '../../src/lib/noteStream';
+import { fromDeepgramWords, fromWhisperWords } from '../../src/lib/wordTimings';
+import lovableAi from '../../supabase/mock-providers/fixtures/lovable-ai.json';
+import deepgram from '../../supabase/mock-providers/fixtures/deepgram.json';
+import assemblyai from '../../supabase/mock-providers/fixtures/assemblyai.json';
+import whisper from '../../supabase/mock-providers/fixtures/openai-whisper.json';
+
+const fixtures = { lovableAi, deepgram, assemblyai, whisper } as unknown as ProviderFixtures;
+
+const mockEnv: EnvReader = name => (name === 'PROVIDER_MOCK_URL' ? 'http://providers.test/' : undefined);
+
+/** Silent 16 kHz PCM16 audio */
+const pcm = (seconds: number) => new Uint8Array(Math.round(seconds * 32_000));
+
+type ProviderMock = ReturnType<typeof createProviderMock>;
+
+interface ReplayedMessage {
+  type?: string;
+  message_type?: string;
+  is_final?: boolean;
+  channel?: { alternatives: Array<{ transcript: string; words: Parameters<typeof fromDeepgramWords>[0] }> };
+  [key: string]: unknown;
+}
+
+const transcriptOf = (message: ReplayedMessage) => message.channel!.alternatives[0].transcript;
+
+function connect(mock: ProviderMock, url: string) {
+  const received: ReplayedMessage[] = [];
+  const socket = { closed: false };
+  const stream = mock.openStream(new URL(url), {
+    send: data => received.push(JSON.parse(data)),
+    close: () => {
+      socket.closed = true;
+    },
+  });
+  return { stream, received, socket };
+}
+
+async function readCompletion(body: ReadableStream<Uint8Array>, onDelta: (content: string) => void) {
+  const text = await new Response(body).text();
+  let content = '';
+  for (const line of text.split('\n')) {
+    if (!line.startsWith('data: ') || line === 'data: [DONE]') continue;
+    const delta = JSON.parse(line.slice(6)).choices?.[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      onDelta(delta);
+    }
+  }
+  return content;
+}
+
+describe('Provider endpoints', () => {
+  it('should use the live providers unless told otherwise', () => {
+    const env: EnvReader = () => undefined;
+    expect(providerUrl('lovable_ai', '/v1/chat/completions', env)).toBe(`${PROVIDER_ORIGINS.lovable_ai}/v1/chat/completions`);
+    expect(providerSocketUrl('deepgram', '/v1/listen', env)).toBe('wss://api.deepgram.com/v1/listen');
+    expect(isProviderMocked(env)).toBe(false);
+  });
+
+  it('should route every provider to the stand-in server, with per-provider overrides first', () => {
+    expect(providerUrl('openai', '/v1/audio/transcriptions', mockEnv)).toBe('http://providers.test/openai/v1/audio/transcriptions');
+    expect(providerSocketUrl('assemblyai', '/v2/realtime/ws', mockEnv)).toBe('ws://providers.test/assemblyai/v2/realtime/ws');
+    expect(isProviderMocked(mockEnv)).toBe(true);
+
+    const env: EnvReader = name => ({ PROVIDER_MOCK_URL: 'http://providers.test', DEEPGRAM_BASE_URL: 'https://dg.internal/' })[name];
+    expect(providerSocketUrl('deepgram', '/v1/listen', env)).toBe('wss://dg.internal/v1/listen');
+  });
+});
+
+describe('Record → transcribe → note', () => {
+  let mock: ProviderMock;
+
+  beforeEach(() => {
+    mock = createProviderMock(fixtures);
+    vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => mock.handleRequest(new Request(input, init)));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should run a visit through streaming, batch transcription and note generation', async () => {
+    // Record: Deepgram replays transcripts as the audio reaches them
+    const live = connect(mock, providerSocketUrl('deepgram', '/v1/listen?token=test&model=nova-2&encoding=linear16', mockEnv));
+    for (let i = 0; i < 100; i++) live.stream.receive(pcm(0.1));
+
+    const finalsAt10s = live.received.filter(m => m.type === 'Results' && m.is_final);
+    expect(finalsAt10s.map(transcriptOf)).toEqual([
+      'What brings you in today?',
+      'I have had a dry cough for two weeks, and it is worse at night.',
+    ]);
+
+    live.stream.receive(pcm(20));
+    live.stream.receive(JSON.stringify({ type: 'CloseStream' }));
+    const finals = live.received.filter(m => m.type === 'Results' && m.is_final);
+    expect(finals).toHaveLength(6);
+    expect(live.received.at(-1)).toMatchObject({ type: 'Metadata', request_id: 'mock-deepgram-0001', duration: 30 });
+    expect(live.socket.closed).toBe(true);
+    expect(fromDeepgramWords(finals[5].channel!.alternatives[0].words).at(-1)).toMatchObject({ text: 'persists.' });
+
+    // Transcribe: the uploaded recording goes through AssemblyAI, as transcribe-audio does
+    const upload = await fetch(providerUrl('assemblyai', '/v2/upload', mockEnv), { method: 'POST', body: pcm(1) });
+    const { upload_url } = await upload.json();
+    const requested = await fetch(providerUrl('assemblyai', '/v2/transcript', mockEnv), {
+      method: 'POST',
+      body: JSON.stringify({ audio_url: upload_url, speaker_labels: true }),
+    });
+    const { id } = await requested.json();
+    const transcript = await (await fetch(providerUrl('assemblyai', `/v2/transcript/${id}`, mockEnv))).json();
+    expect(transcript.status).toBe('completed');
+
+    const firstSpeaker = transcript.utterances[0].speaker;
+    const segments: EvidenceSegment[] = transcript.utterances.map((u: { speaker: string; text: string }, index: number) => ({
+      id: `segment-${index + 1}`,
+      speaker: u.speaker === firstSpeaker ? 'doctor' : 'patient',
+      text: u.text,
+    }));
+    expect(segments.map(s => s.text)).toEqual(finals.map(transcriptOf));
+
+    // Note: streamed from the gateway, shown section by section, then validated
+    const diarized = segments.map(s => `${s.speaker === 'doctor' ? 'Doctor' : 'Patient'}: ${s.text}`).join('\n');
+    const response = await fetch(providerUrl('lovable_ai', '/v1/chat/completions', mockEnv), {
+      method: 'POST',
+      body: JSON.stringify({
+        model: 'google/gemini-2.5-flash',
+        stream: true,
+        messages: [
+          { role: 'system', content: 'You are an expert medical scribe assistant.' },
+          { role: 'user', content: `SPEAKER-LABELED TRANSCRIPT:\n${diarized}` },
+        ],
+      }),
+    });
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+    const parser = createPartialNoteParser();
+    const partials: NoteSections[] = [];
+    const content = await readCompletion(response.body!, delta => {
+      const sections = parser.push(delta);
+      if (sections) partials.push(sections);
+    });
+    expect(Object.keys(partials[0])).toEqual(['subjective']);
+
+    const sections = BUILT_IN_TEMPLATES.soap.schema.sections;
+    const parsed = parseNoteOutput(content);
+    const { note, issues } = normalizeNoteOutput(parsed.value, sections);
+    expect(issues).toEqual([]);
+    expect(partials.at(-1)).toEqual(note.sections);
+
+    const evidence = buildNoteEvidence(note.sections, segments, (parsed.value as { evidence: unknown }).evidence);
+    expect(evidence.sentences.every(s => s.source === 'model')).toBe(true);
+    expect(evidence.sentences[0]).toMatchObject({ section: 'subjective', segment_ids: ['segment-2'] });
+
+    expect(mock.calls.map(c => `${c.method} ${c.provider}${c.path}`)).toEqual([
+      'WS deepgram/v1/listen',
+      'POST assemblyai/v2/upload',
+      'POST assemblyai/v2/transcript',
+      `GET assemblyai/v2/transcript/${id}`,
+      'POST lovable_ai/v1/chat/completions',
+    ]);
+  });
+
+  it('should replay AssemblyAI realtime and Whisper transcripts', async () => {
+    const live = connect(mock, providerSocketUrl('assemblyai', '/v2/realtime/ws?sample_rate=16000', mockEnv));
+    expect(live.received[0]).toMatchObject({ message_type: 'SessionBegins', session_id: 'mock-assemblyai-session-0001' });
+
+    const chunk = Buffer.from(pcm(3)).toString('base64');
+    live.stream.receive(JSON.stringify({ audio_data: chunk }));
+    expect(live.received.slice(1).map(m => m.message_type)).toEqual(['PartialTranscript', 'FinalTranscript']);
+
+    live.stream.receive(JSON.stringify({ terminate_session: true }));
+    expect(live.received.filter(m => m.message_type === 'FinalTranscript')).toHaveLength(6);
+    expect(live.received.at(-1)).toEqual({ message_type: 'SessionTerminated' });
+
+    const form = new FormData();
+    form.append('file', new Blob([pcm(1)], { type: 'audio/webm' }), 'recording.webm');
+    form.append('response_format', 'verbose_json');
+    const result = await (await fetch(providerUrl('openai', '/v1/audio/transcriptions', mockEnv), { method: 'POST', body: form })).json();
+    expect(fromWhisperWords(result.words)[0]).toEqual({ text: 'What', start: 0, end: 400 });
+  });
+
+  it('should answer tool calls and pass-through prompts, and refuse unrecorded requests', async () => {
+    const complete = (body: Record<string, unknown>) =>
+      fetch(providerUrl('lovable_ai', '/v1/chat/completions', mockEnv), { method: 'POST', body: JSON.stringify(body) });
+
+    const tasks = await (await complete({
+      messages: [{ role: 'user', content: 'Extract follow-up tasks from this clinical note' }],
+      tools: [{ type: 'function', function: { name: 'extract_tasks' } }],
+    })).json();
+    const call = tasks.choices[0].message.tool_calls[0];
+    expect(call.function.name).toBe('extract_tasks');
+    expect(JSON.parse(call.function.arguments).tasks).toHaveLength(2);
+
+    const corrected = await (await complete({
+      messages: [
+        { role: 'system', content: 'You are a medical transcription auto-correction assistant.' },
+        { role: 'user', content: 'Correct this medical transcription:\n\nbenzonatate 100 mg' },
+      ],
+    })).json();
+    expect(corrected.choices[0].message.content).toBe('benzonatate 100 mg');
+
+    const unknown = await complete({ messages: [{ role: 'user', content: 'Write a poem' }] });
+    expect(unknown.status).toBe(501);
+
+    const socket = connect(mock, providerSocketUrl('openai', '/v1/realtime', mockEnv));
+    expect(socket.socket.closed).toBe(true);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * DOCX Export Tests
+ * Round-trips the export-note OOXML package through unzip and XML parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildDocx, crc32, createZip } from '../supabase/functions/export-note/docx';
+import type { ExportSession } from '../supabase/functions/export-note/note';
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+/**
+ * Reads a ZIP archive through its central directory and verifies each entry's CRC.
+ */
+function unzip(archive: Uint8Array): Map<string, string> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+  const eocd = archive.byteLength - 22;
+  expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(eocd + 10, true);
+  let pointer = view.getUint32(eocd + 16, true);
+  const files = new Map<string, string>();
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pointer, true)).toBe(0x02014b50);
+    const method = view.getUint16(pointer + 10, true);
+    const crc = view.getUint32(pointer + 16, true);
+    const size = view.getUint32(pointer + 20, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const extraLength = view.getUint16(pointer + 30, true);
+    const commentLength = view.getUint16(pointer + 32, true);
+    const localOffset = view.getUint32(pointer + 42, true);
+    const name = decoder.decode(archive.subarray(pointer + 46, pointer + 46 + nameLength));
+
+    expect(method).toBe(0);
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = archive.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(crc);
+
+    files.set(name, decoder.decode(data));
+    pointer += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+/**
+ * Minimal well-formedness-checking XML parser (elements, attributes, text).
+ */
+function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [root];
+  const token = /<\?[\s\S]*?\?>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+="[^"<]*")*)\s*(\/?)>|([^<]+)/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = token.exec(source)) !== null) {
+    if (match.index !== consumed) throw new Error(`Unexpected markup at ${consumed}`);
+    consumed = token.lastIndex;
+    const [, closing, opening, attrs, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (closing) {
+      if (current.name !== closing) throw new Error(`Mismatched </${closing}>, expected </${current.name}>`);
+      stack.pop();
+    } else if (opening) {
+      const attributes: Record<string, string> = {};
+      for (const [, key, value] of attrs.matchAll(/([\w:.-]+)="([^"]*)"/g)) attributes[key] = value;
+      const element: XmlElement = { name: opening, attributes, children: [], text: '' };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (text !== undefined) {
+      if (/&(?!amp;|lt;|gt;|quot;|apos;)/.test(text)) throw new Error('Unescaped ampersand');
+      current.text += text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&amp;/g, '&');
+    }
+  }
+  if (consumed !== source.length || stack.length !== 1) throw new Error('Unclosed elements');
+  return root.children[0];
+}
+
+function findAll(element: XmlElement, name: string): XmlElement[] {
+  return element.children.flatMap(child => [
+    ...(child.name === name ? [child] : []),
+    ...findAll(child, name),
+  ]);
+}
+
+function textOf(element: XmlElement): string {
+  return findAll(element, 'w:t').map(t => t.text).join('');
+}
+
+function paragraphs(body: XmlElement) {
+  return body.children
+    .filter(child => child.name === 'w:p')
+    .map(p => ({
+      style: findAll(p, 'w:pStyle')[0]?.attributes['w:val'],
+      text: textOf(p),
+    }));
+}
+
+const session: ExportSession = {
+  id: 'session-1',
+  patient_name: 'Jane Doe',
+  patient_id: 'MRN-10042',
+  patient_dob: '1980-04-12',
+  generated_note: 'Plain note',
+  note_json: {
+    subjective: 'Cough for 3 days & fever.',
+    assessment: 'Pneumonia <mild>',
+    plan: ['Amoxicillin 500 mg', 'Follow up in 1 week'],
+  },
+  clinical_codes: [
+    { code: 'J18.9', label: 'Pneumonia, unspecified organism' },
+    { code: 'R50.9', label: 'Fever, unspecified' },
+  ],
+  scheduled_at: null,
+  created_at: '2025-10-14T09:30:00.000Z',
+};
+
+const clinician = {
+  full_name: 'Dr Alex Smith',
+  specialty: 'Family Medicine',
+  license_number: 'LIC-778',
+  organization: 'Northside Clinic',
+};
+
+describe('DOCX export', () => {
+  describe('ZIP container', () => {
+    it('should round-trip arbitrary entries', () => {
+      const encoder = new TextEncoder();
+      const files = unzip(createZip([
+        { name: 'a.txt', data: encoder.encode('hello') },
+        { name: 'dir/b.txt', data: encoder.encode('wörld') },
+      ]));
+      expect(Object.fromEntries(files)).toEqual({ 'a.txt': 'hello', 'dir/b.txt': 'wörld' });
+    });
+
+    it('should compute standard CRC-32 checksums', () => {
+      expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    });
+  });
+
+  describe('OOXML package', () => {
+    const files = unzip(buildDocx(session, clinician));
+
+    it('should contain the required package parts', () => {
+      expect([...files.keys()]).toEqual(expect.arrayContaining([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'word/document.xml',
+        'word/_rels/document.xml.rels',
+        'word/styles.xml',
+      ]));
+    });
+
+    it('should have well-formed XML in every part', () => {
+      for (const [name, content] of files) {
+        expect(() => parseXml(content), name).not.toThrow();
+      }
+    });
+
+    it('should declare a content type for the main document and resolve relationships', () => {
+      const types = parseXml(files.get('[Content_Types].xml')!);
+      const overrides = findAll(types, 'Override').map(o => o.attributes.PartName);
+      expect(overrides).toContain('/word/document.xml');
+
+      const rels = parseXml(files.get('_rels/.rels')!);
+      for (const rel of findAll(rels, 'Relationship')) {
+        expect(files.has(rel.attributes.Target)).toBe(true);
+      }
+    });
+  });
+
+  describe('Document content', () => {
+    const document = parseXml(unzip(buildDocx(session, clinician)).get('word/document.xml')!);
+    const body = findAll(document, 'w:body')[0];
+    const tables = findAll(body, 'w:tbl');
+
+    it('should render a patient header table', () => {
+      const rows = findAll(tables[0], 'w:tr').map(row => findAll(row, 'w:tc').map(textOf));
+      expect(rows).toEqual([
+        ['Patient', 'Jane Doe'],
+        ['MRN', 'MRN-10042'],
+        ['Date of Birth', '1980-04-12'],
+        ['Date of Service', '2025-10-14'],
+      ]);
+    });
+
+    it('should put each note section under a heading', () => {
+      const headings = paragraphs(body).filter(p => p.style === 'Heading1').map(p => p.text);
+      expect(headings).toEqual(['Subjective', 'Assessment', 'Plan', 'Diagnoses (ICD-10)', 'Clinician Signature']);
+
+      const text = paragraphs(body).map(p => p.text);
+      expect(text).toContain('Cough for 3 days & fever.');
+      expect(text).toContain('Pneumonia <mild>');
+      expect(text).toContain('Follow up in 1 week');
+    });
+
+    it('should embed ICD-10 codes as a table', () => {
+      const rows = findAll(tables[1], 'w:tr').map(row => findAll(row, 'w:tc').map(textOf));
+      expect(rows).toEqual([
+        ['Code', 'Description', 'Status'],
+        ['J18.9', 'Pneumonia, unspecified organism', 'Suggested'],
+        ['R50.9', 'Fever, unspecified', 'Suggested'],
+      ]);
+    });
+
+    it('should include a clinician signature block', () => {
+      const text = paragraphs(body).map(p => p.text);
+      expect(text).toContain('Prepared by: Dr Alex Smith, Family Medicine');
+      expect(text).toContain('License: LIC-778');
+      expect(text.some(t => t.startsWith('Signature:'))).toBe(true);
+    });
+
+    it('should fall back to the plaintext note without structured sections', () => {
+      const plain = parseXml(
+        unzip(buildDocx({ ...session, note_json: null, clinical_codes: null }, {})).get('word/document.xml')!
+      );
+      const text = paragraphs(findAll(plain, 'w:body')[0]).map(p => p.text);
+      expect(text).toContain('Plain note');
+      expect(findAll(plain, 'w:tbl')).toHaveLength(1);
+    });
+  });
+});
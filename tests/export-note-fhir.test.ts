@@ -0,0 +1,240 @@
+/**
+ * FHIR R4 Export Tests
+ * Schema validation for the export-note FHIR document Bundle
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildFhirBundle,
+  type FhirBundle,
+  type FhirResource,
+  type FhirSessionInput,
+} from '../supabase/functions/export-note/fhir';
+import { normalizeClinicalCodes } from '../supabase/functions/export-note/note';
+
+// Loosely typed view of serialized FHIR JSON for element assertions
+type FhirJson = ReturnType<typeof JSON.parse>;
+
+const FHIR_ID = /^[A-Za-z0-9\-.]{1,64}$/;
+const FHIR_DATE = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+const FHIR_DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+const FHIR_URI_UUID = /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Required elements (min cardinality 1) per FHIR R4 resource definitions
+const REQUIRED_ELEMENTS: Record<string, string[]> = {
+  Bundle: ['type'],
+  Composition: ['status', 'type', 'date', 'author', 'title'],
+  Patient: [],
+  Practitioner: [],
+  Condition: ['subject'],
+  MedicationStatement: ['status', 'subject'],
+};
+
+const COMPOSITION_STATUS = ['preliminary', 'final', 'amended', 'entered-in-error'];
+const MEDICATION_STATUS = ['active', 'completed', 'entered-in-error', 'intended', 'stopped', 'on-hold', 'unknown', 'not-taken'];
+
+function validateResource(resource: FhirResource): string[] {
+  const errors: string[] = [];
+  const required = REQUIRED_ELEMENTS[resource.resourceType];
+
+  if (!required) {
+    return [`Unexpected resourceType ${resource.resourceType}`];
+  }
+  if (!FHIR_ID.test(resource.id)) {
+    errors.push(`${resource.resourceType}.id is not a valid FHIR id`);
+  }
+  for (const element of required) {
+    const value = resource[element];
+    if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) {
+      errors.push(`${resource.resourceType}.${element} is required`);
+    }
+  }
+
+  const r: FhirJson = resource;
+  switch (resource.resourceType) {
+    case 'Composition':
+      if (!COMPOSITION_STATUS.includes(r.status)) errors.push('Composition.status invalid');
+      if (!FHIR_DATETIME.test(r.date)) errors.push('Composition.date invalid');
+      for (const section of r.section || []) {
+        if (!section.text?.div?.startsWith('<div xmlns="http://www.w3.org/1999/xhtml">')) {
+          errors.push(`Composition.section ${section.title} narrative must be XHTML`);
+        }
+      }
+      break;
+    case 'Patient':
+      if (r.birthDate && !FHIR_DATE.test(r.birthDate)) errors.push('Patient.birthDate invalid');
+      break;
+    case 'Condition':
+      if (!r.code?.coding?.[0]?.system || !r.code?.coding?.[0]?.code) errors.push('Condition.code coding incomplete');
+      break;
+    case 'MedicationStatement':
+      if (!MEDICATION_STATUS.includes(r.status)) errors.push('MedicationStatement.status invalid');
+      if (!r.medicationCodeableConcept && !r.medicationReference) errors.push('MedicationStatement.medication[x] is required');
+      break;
+  }
+  return errors;
+}
+
+function validateDocumentBundle(bundle: FhirBundle): string[] {
+  const errors: string[] = [];
+  if (bundle.resourceType !== 'Bundle') errors.push('resourceType must be Bundle');
+  if (bundle.type !== 'document') errors.push('Bundle.type must be document');
+  // bdl-9: a document must have an identifier with a system and a value
+  if (!bundle.identifier?.system || !bundle.identifier?.value) errors.push('bdl-9 violated');
+  // bdl-10: a document must have a date
+  if (!FHIR_DATETIME.test(bundle.timestamp)) errors.push('bdl-10 violated');
+  // bdl-11: a document must have a Composition as the first resource
+  if (bundle.entry[0]?.resource.resourceType !== 'Composition') errors.push('bdl-11 violated');
+
+  const fullUrls = new Set<string>();
+  for (const entry of bundle.entry) {
+    if (!FHIR_URI_UUID.test(entry.fullUrl)) errors.push(`Invalid fullUrl ${entry.fullUrl}`);
+    // bdl-7: fullUrl must be unique
+    if (fullUrls.has(entry.fullUrl)) errors.push(`Duplicate fullUrl ${entry.fullUrl}`);
+    fullUrls.add(entry.fullUrl);
+    errors.push(...validateResource(entry.resource));
+  }
+
+  // Every internal reference must resolve inside the bundle
+  const references = JSON.stringify(bundle).match(/"reference":"(urn:uuid:[^"]+)"/g) || [];
+  for (const ref of references) {
+    const target = ref.slice('"reference":"'.length, -1);
+    if (!fullUrls.has(target)) errors.push(`Unresolved reference ${target}`);
+  }
+  return errors;
+}
+
+const baseSession: FhirSessionInput = {
+  id: '6f1c2a9e-1111-4a5b-9c3d-222233334444',
+  patient_name: 'Jane Q Doe',
+  patient_id: 'MRN-10042',
+  patient_dob: '1980-04-12',
+  generated_note: 'SUBJECTIVE: Cough for 3 days.\n\nPLAN: Amoxicillin.',
+  note_json: {
+    subjective: 'Patient reports productive cough for 3 days.',
+    objective: 'Temp 38.1C. Crackles right lower lobe.',
+    assessment: 'Community acquired pneumonia <mild>',
+    plan: ['Amoxicillin 500 mg TID x 7 days', 'Return if worsening'],
+  },
+  clinical_codes: {
+    suggested: [
+      { code: 'J18.9', system: 'ICD-10-CM', label: 'Pneumonia, unspecified organism', confidence: 0.92 },
+      { code: 'R05.9', system: 'ICD-10-CM', label: 'Cough, unspecified', confidence: 0.7 },
+    ],
+    confirmed: [{ code: 'J18.9', system: 'ICD-10-CM', label: 'Pneumonia, unspecified organism' }],
+  },
+  scheduled_at: null,
+  created_at: '2025-10-14T09:30:00.000Z',
+};
+
+const author = { id: 'user-1', full_name: 'Dr Alex Smith', license_number: 'LIC-778' };
+
+const entities = [
+  { text: 'Amoxicillin', type: 'medication', confidence: 0.95 },
+  { text: '500 mg TID', type: 'dosage', confidence: 0.9 },
+  { text: 'amoxicillin', type: 'medication', confidence: 0.8 },
+  { text: 'cough', type: 'symptom', confidence: 0.9 },
+];
+
+function resourcesOfType(bundle: FhirBundle, type: string) {
+  return bundle.entry.map(e => e.resource).filter(r => r.resourceType === type) as FhirJson[];
+}
+
+describe('FHIR R4 export', () => {
+  describe('Bundle schema validation', () => {
+    it('should produce a valid document bundle for a complete session', () => {
+      const bundle = buildFhirBundle(baseSession, author, entities);
+      expect(validateDocumentBundle(bundle)).toEqual([]);
+    });
+
+    it('should produce a valid bundle when optional data is missing', () => {
+      const bundle = buildFhirBundle(
+        { ...baseSession, patient_id: null, patient_dob: null, note_json: null, clinical_codes: null },
+        { id: 'user-2' },
+      );
+      expect(validateDocumentBundle(bundle)).toEqual([]);
+      expect(resourcesOfType(bundle, 'Composition')[0].section).toHaveLength(1);
+    });
+
+    it('should survive a JSON round-trip unchanged', () => {
+      const bundle = buildFhirBundle(baseSession, author, entities);
+      expect(JSON.parse(JSON.stringify(bundle))).toEqual(bundle);
+    });
+  });
+
+  describe('Composition', () => {
+    it('should build one section per note_json key', () => {
+      const [composition] = resourcesOfType(buildFhirBundle(baseSession, author, entities), 'Composition');
+      const titles = composition.section.map((s: FhirJson) => s.title);
+      expect(titles).toEqual(['Subjective', 'Objective', 'Assessment', 'Plan', 'Diagnoses', 'Medications']);
+      expect(composition.section[0].code.coding[0].code).toBe('61150-9');
+    });
+
+    it('should be final once the note is signed', () => {
+      const [draft] = resourcesOfType(buildFhirBundle(baseSession, author), 'Composition');
+      expect(draft.status).toBe('preliminary');
+      const [signed] = resourcesOfType(buildFhirBundle({ ...baseSession, signed_at: '2025-01-15T16:00:00Z' }, author), 'Composition');
+      expect(signed.status).toBe('final');
+    });
+
+    it('should escape markup in section narratives', () => {
+      const [composition] = resourcesOfType(buildFhirBundle(baseSession, author), 'Composition');
+      const assessment = composition.section.find((s: FhirJson) => s.title === 'Assessment');
+      expect(assessment.text.div).toContain('&lt;mild&gt;');
+    });
+  });
+
+  describe('Patient', () => {
+    it('should map name, MRN and birth date', () => {
+      const [patient] = resourcesOfType(buildFhirBundle(baseSession, author), 'Patient');
+      expect(patient.name[0]).toMatchObject({ family: 'Doe', given: ['Jane', 'Q'] });
+      expect(patient.identifier[0].value).toBe('MRN-10042');
+      expect(patient.birthDate).toBe('1980-04-12');
+    });
+  });
+
+  describe('Condition', () => {
+    it('should create one condition per unique code with verification status', () => {
+      const conditions = resourcesOfType(buildFhirBundle(baseSession, author), 'Condition');
+      expect(conditions).toHaveLength(2);
+      expect(conditions[0].code.coding[0]).toMatchObject({ system: 'http://hl7.org/fhir/sid/icd-10-cm', code: 'J18.9' });
+      expect(conditions[0].verificationStatus.coding[0].code).toBe('confirmed');
+      expect(conditions[1].verificationStatus.coding[0].code).toBe('provisional');
+    });
+
+    it('should accept clinical codes stored as a bare array', () => {
+      expect(normalizeClinicalCodes([{ code: 'I10', label: 'Essential hypertension' }, { label: 'no code' }]))
+        .toEqual([{ code: 'I10', label: 'Essential hypertension', confirmed: false }]);
+    });
+  });
+
+  describe('MedicationStatement', () => {
+    it('should deduplicate medication entities and ignore other entity types', () => {
+      const medications = resourcesOfType(buildFhirBundle(baseSession, author, entities), 'MedicationStatement');
+      expect(medications).toHaveLength(1);
+      expect(medications[0].medicationCodeableConcept.text).toBe('Amoxicillin');
+      expect(medications[0].dosage[0].text).toBe('500 mg TID');
+    });
+
+    it('should only give a medication the dose that follows it', () => {
+      const medications = resourcesOfType(buildFhirBundle(baseSession, author, [
+        { text: 'Lisinopril', type: 'medication', start: 40, end: 50 },
+        { text: '10 mg daily', type: 'dosage', start: 51, end: 62 },
+        { text: 'Aspirin', type: 'medication', start: 0, end: 7 },
+        { text: 'Metformin', type: 'medication', start: 20, end: 29 },
+        { text: '500 mg BID', type: 'dosage', start: 30, end: 40 },
+      ]), 'MedicationStatement');
+      expect(medications.map(m => [m.medicationCodeableConcept.text, m.dosage?.[0].text])).toEqual([
+        ['Lisinopril', '10 mg daily'],
+        ['Aspirin', undefined],
+        ['Metformin', '500 mg BID'],
+      ]);
+    });
+  });
+
+  it('should generate stable resource ids across exports', () => {
+    const first = buildFhirBundle(baseSession, author, entities);
+    const second = buildFhirBundle(baseSession, author, entities);
+    expect(first.entry.map(e => e.fullUrl)).toEqual(second.entry.map(e => e.fullUrl));
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * HL7 v2 Export Tests
+ * MDM^T02 segment structure, escaping and MLLP delivery to a stand-in listener
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import net from 'node:net';
+import {
+  ackFailure,
+  buildMdmT02,
+  escapeHl7,
+  unescapeHl7,
+  parseAck,
+  formatHl7Timestamp,
+} from '../supabase/functions/export-note/hl7';
+import {
+  frameMllp,
+  parseMllpFrames,
+  sendMllp,
+  type MllpConnect,
+  type MllpConnection,
+} from '../supabase/functions/export-note/mllp';
+import type { ExportSession } from '../supabase/functions/export-note/note';
+
+const subjective = 'Cough | fever ^ chills & rigors ~ 3 days\\week\nWorse at night.';
+
+const session: ExportSession = {
+  id: 'session-1',
+  patient_name: 'Jane Q Doe',
+  patient_id: 'MRN-10042',
+  patient_dob: '1980-04-12',
+  generated_note: 'Plain note',
+  note_json: {
+    subjective,
+    plan: ['Amoxicillin 500 mg', 'Follow up in 1 week'],
+  },
+  clinical_codes: null,
+  scheduled_at: null,
+  created_at: '2025-10-14T09:30:00.000Z',
+};
+
+const facility = {
+  sending_application: 'XORSTACK',
+  sending_facility: 'CLINIC01',
+  receiving_application: 'EHR',
+  receiving_facility: 'HOSP01',
+};
+
+function build(overrides: Partial<Parameters<typeof buildMdmT02>[0]> = {}) {
+  return buildMdmT02({
+    session,
+    author: { id: 'user-1', full_name: 'Alex Smith' },
+    facility,
+    controlId: 'CTRL001',
+    timestamp: new Date('2025-10-14T10:00:00.000Z'),
+    ...overrides,
+  });
+}
+
+function segments(message: string): string[][] {
+  return message.split('\r').filter(Boolean).map(line => line.split('|'));
+}
+
+function findSegment(message: string, name: string): string[] {
+  return segments(message).find(fields => fields[0] === name)!;
+}
+
+/**
+ * Adapts a node:net socket to the Deno-style connection the sender expects.
+ */
+const nodeConnect: MllpConnect = ({ hostname, port }) => new Promise((resolve, reject) => {
+  const socket = net.connect({ host: hostname, port }, () => {
+    const queue: Buffer[] = [];
+    let waiting: ((chunk: Buffer | null) => void) | null = null;
+    let ended = false;
+
+    socket.on('data', chunk => {
+      if (waiting) {
+        waiting(chunk);
+        waiting = null;
+      } else {
+        queue.push(chunk);
+      }
+    });
+    socket.on('end', () => {
+      ended = true;
+      if (waiting) waiting(null);
+    });
+
+    resolve({
+      write: data => new Promise(done => socket.write(data, () => done(data.length))),
+      read: async buffer => {
+        const chunk = queue.shift() ?? (ended ? null : await new Promise<Buffer | null>(r => { waiting = r; }));
+        if (!chunk) return null;
+        buffer.set(chunk.subarray(0, buffer.length));
+        return Math.min(chunk.length, buffer.length);
+      },
+      close: () => socket.destroy(),
+    });
+  });
+  socket.on('error', reject);
+});
+
+/**
+ * Stand-in MLLP listener that records inbound messages and answers each with an ACK.
+ */
+function startListener(ackCode = 'AA'): Promise<{ port: number; received: string[]; server: net.Server }> {
+  const received: string[] = [];
+  const server = net.createServer(socket => {
+    let pending = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      const { messages, remainder } = parseMllpFrames(new Uint8Array(Buffer.concat([pending, chunk])));
+      pending = Buffer.from(remainder);
+      for (const message of messages) {
+        received.push(message);
+        const controlId = findSegment(message, 'MSH')[9];
+        const ack = `MSH|^~\\&|EHR|HOSP01|XORSTACK|CLINIC01|20251014100001+0000||ACK^T02^ACK|A${controlId}|P|2.5.1\r` +
+          `MSA|${ackCode}|${controlId}|${ackCode === 'AA' ? '' : 'Unknown patient'}\r`;
+        socket.write(frameMllp(ack));
+      }
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    resolve({ port: (server.address() as net.AddressInfo).port, received, server });
+  }));
+}
+
+describe('HL7 export', () => {
+  describe('Escaping', () => {
+    it('should escape every delimiter and round-trip', () => {
+      const raw = 'a|b^c&d~e\\f\ng';
+      const escaped = escapeHl7(raw);
+      expect(escaped).toBe('a\\F\\b\\S\\c\\T\\d\\R\\e\\E\\f\\.br\\g');
+      expect(escaped).not.toMatch(/[|^&~\n]/);
+      expect(unescapeHl7(escaped)).toBe(raw);
+    });
+
+    it('should format timestamps in UTC', () => {
+      expect(formatHl7Timestamp(new Date('2025-01-02T03:04:05.000Z'))).toBe('20250102030405+0000');
+    });
+  });
+
+  describe('MDM^T02 message', () => {
+    const message = build();
+
+    it('should contain segments in MDM^T02 order', () => {
+      const names = segments(message).map(fields => fields[0]);
+      expect(names).toEqual(['MSH', 'EVN', 'PID', 'PV1', 'TXA', 'OBX', 'OBX']);
+      expect(message.endsWith('\r')).toBe(true);
+    });
+
+    it('should carry the team facility IDs in the MSH header', () => {
+      const msh = findSegment(message, 'MSH');
+      expect(msh[1]).toBe('^~\\&');
+      expect(msh.slice(2, 6)).toEqual(['XORSTACK', 'CLINIC01', 'EHR', 'HOSP01']);
+      expect(msh[8]).toBe('MDM^T02^MDM_T02');
+      expect(msh[9]).toBe('CTRL001');
+      expect(msh[11]).toBe('2.5.1');
+    });
+
+    it('should identify the patient and visit', () => {
+      const pid = findSegment(message, 'PID');
+      expect(pid[3]).toBe('MRN-10042^^^CLINIC01^MR');
+      expect(pid[5]).toBe('Doe^Jane Q');
+      expect(pid[7]).toBe('19800412');
+
+      const pv1 = findSegment(message, 'PV1');
+      expect(pv1[2]).toBe('O');
+      expect(pv1[7]).toBe('user-1^Smith^Alex');
+      expect(pv1[19]).toBe('session-1');
+    });
+
+    it('should describe the document in TXA', () => {
+      const txa = findSegment(message, 'TXA');
+      expect(txa[2]).toBe('CN^Clinical Note^L');
+      expect(txa[3]).toBe('FT');
+      expect(txa[4]).toBe('20251014093000+0000');
+      expect(txa[12]).toBe('session-1');
+      expect(txa[17]).toBe('DO');
+    });
+
+    it('should put each note section in an escaped OBX', () => {
+      const obx = segments(message).filter(fields => fields[0] === 'OBX');
+      expect(obx.map(fields => fields[3])).toEqual(['subjective^Subjective^L', 'plan^Plan^L']);
+      expect(obx.every(fields => fields[2] === 'FT' && fields[11] === 'F')).toBe(true);
+      expect(unescapeHl7(obx[0][5])).toBe(subjective);
+      expect(unescapeHl7(obx[1][5])).toContain('Follow up in 1 week');
+    });
+
+    it('should fall back to the plaintext note without structured sections', () => {
+      const obx = segments(build({ session: { ...session, note_json: null } })).filter(f => f[0] === 'OBX');
+      expect(obx).toHaveLength(1);
+      expect(obx[0][5]).toBe('Plain note');
+    });
+
+    it('should default the sending application without team settings', () => {
+      const msh = findSegment(build({ facility: null }), 'MSH');
+      expect(msh[2]).toBe('XORSTACK');
+      expect(msh[3]).toBe('');
+    });
+  });
+
+  describe('MLLP', () => {
+    let server: net.Server | null = null;
+
+    afterEach(() => new Promise<void>(resolve => {
+      if (!server) return resolve();
+      server.close(() => resolve());
+      server = null;
+    }));
+
+    it('should frame and unframe messages, keeping partial frames', () => {
+      const framed = frameMllp('MSH|a\r');
+      expect([framed[0], framed[framed.length - 2], framed[framed.length - 1]]).toEqual([0x0b, 0x1c, 0x0d]);
+
+      const buffer = new Uint8Array([...framed, ...frameMllp('MSH|b\r').slice(0, 4)]);
+      const { messages, remainder } = parseMllpFrames(buffer);
+      expect(messages).toEqual(['MSH|a\r']);
+      expect(remainder).toHaveLength(4);
+    });
+
+    it('should deliver a message to a stand-in listener and return its ACK', async () => {
+      const listener = await startListener();
+      server = listener.server;
+
+      const ack = await sendMllp(build(), { hostname: '127.0.0.1', port: listener.port, connect: nodeConnect });
+      expect(ack).toEqual({ code: 'AA', controlId: 'CTRL001' });
+      expect(listener.received).toEqual([build()]);
+    });
+
+    it('should surface application errors from the receiver', async () => {
+      const listener = await startListener('AE');
+      server = listener.server;
+
+      const ack = await sendMllp(build(), { hostname: '127.0.0.1', port: listener.port, connect: nodeConnect });
+      expect(ack).toEqual({ code: 'AE', controlId: 'CTRL001', text: 'Unknown patient' });
+    });
+
+    it('should time out when no ACK arrives', async () => {
+      const sockets: net.Socket[] = [];
+      server = net.createServer(socket => { sockets.push(socket); });
+      await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', () => resolve()));
+      const port = (server.address() as net.AddressInfo).port;
+
+      await expect(
+        sendMllp(build(), { hostname: '127.0.0.1', port, connect: nodeConnect, timeoutMs: 100 })
+      ).rejects.toThrow('timed out');
+      sockets.forEach(socket => socket.destroy());
+    });
+
+    it('should time out when the host cannot be reached, closing a late connection', async () => {
+      let openLate: () => void = () => {};
+      const closed = vi.fn();
+      const connect = () => new Promise<MllpConnection>(resolve => {
+        openLate = () => resolve({ read: async () => null, write: async () => 0, close: closed });
+      });
+
+      await expect(
+        sendMllp(build(), { hostname: '10.255.255.1', port: 2575, connect, timeoutMs: 50 })
+      ).rejects.toThrow('timed out');
+      openLate();
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(closed).toHaveBeenCalled();
+    });
+
+    it('should parse MSA segments', () => {
+      expect(parseAck('MSH|^~\\&\rMSA|AR|X1|Bad \\F\\ data\r')).toEqual({ code: 'AR', controlId: 'X1', text: 'Bad | data' });
+      expect(parseAck('MSH|^~\\&\r')).toBeNull();
+    });
+
+    it('should only accept AA and CA ACKs for the message that was sent', () => {
+      expect(ackFailure({ code: 'AA', controlId: 'CTRL001' }, 'CTRL001')).toBeNull();
+      expect(ackFailure({ code: 'CA', controlId: 'CTRL001' }, 'CTRL001')).toBeNull();
+      expect(ackFailure({ code: 'AE', controlId: 'CTRL001', text: 'Unknown patient' }, 'CTRL001'))
+        .toBe('Receiver rejected the message (AE): Unknown patient');
+      expect(ackFailure({ code: 'AR', controlId: 'CTRL001' }, 'CTRL001')).toBe('Receiver rejected the message (AR)');
+      expect(ackFailure({ code: 'AA', controlId: 'OTHER' }, 'CTRL001'))
+        .toBe('Receiver acknowledged message OTHER instead of CTRL001');
+    });
+  });
+});
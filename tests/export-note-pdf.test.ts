@@ -0,0 +1,213 @@
+/**
+ * PDF Export Tests
+ * Structure, pagination and letterhead checks for the export-note PDF writer
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildNotePdf,
+  layoutNote,
+  loadPdfImage,
+  pdfString,
+  wrapText,
+  measureText,
+} from '../supabase/functions/export-note/pdf';
+import { crc32 } from '../supabase/functions/export-note/docx';
+import { fetchLogoBytes, isAllowedLogoUrl } from '../supabase/functions/export-note/logo';
+import type { ExportSession } from '../supabase/functions/export-note/note';
+
+const session: ExportSession = {
+  id: 'session-1',
+  patient_name: 'Jane Doe',
+  patient_id: 'MRN-10042',
+  patient_dob: '1980-04-12',
+  generated_note: 'Plain note',
+  note_json: {
+    subjective: 'Cough for 3 days (worse at night).',
+    assessment: 'Community acquired pneumonia',
+    plan: 'Amoxicillin 500 mg TID',
+  },
+  clinical_codes: { suggested: [{ code: 'J18.9', label: 'Pneumonia, unspecified organism' }], confirmed: [] },
+  scheduled_at: null,
+  created_at: '2025-10-14T09:30:00.000Z',
+};
+
+const signer = { full_name: 'Dr Alex Smith', specialty: 'Family Medicine', license_number: 'LIC-778' };
+const signedAt = new Date('2025-10-14T10:00:00.000Z');
+
+function latin1(bytes: Uint8Array): string {
+  return Array.from(bytes, b => String.fromCharCode(b)).join('');
+}
+
+function pageTexts(pages: string[]): string[] {
+  return pages.map(page => [...page.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g)].map(m => m[1]).join('\n'));
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+async function rgbaPng(width: number, height: number): Promise<Uint8Array> {
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  ihdr.set([8, 6, 0, 0, 0], 8);
+
+  const raw = new Uint8Array(height * (width * 4 + 1));
+  for (let y = 0; y < height; y++) {
+    raw[y * (width * 4 + 1)] = 0;
+    for (let x = 0; x < width; x++) raw.set([200, 30, 30, x === 0 ? 0 : 255], y * (width * 4 + 1) + 1 + x * 4);
+  }
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', await deflate(raw)),
+    pngChunk('IEND', new Uint8Array()),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+describe('PDF export', () => {
+  describe('Document structure', () => {
+    const pdf = latin1(buildNotePdf({ session, signer, signedAt }));
+
+    it('should produce a PDF header, trailer and EOF marker', () => {
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(pdf).toContain('/Root 1 0 R');
+    });
+
+    it('should have an xref table whose offsets point at each object', () => {
+      const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+
+      const entries = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+      entries.forEach((offset, index) => {
+        expect(pdf.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`);
+      });
+    });
+
+    it('should declare stream lengths that match their content', () => {
+      for (const match of pdf.matchAll(/\/Length (\d+)[^\n]*>>\nstream\n/g)) {
+        const start = match.index! + match[0].length;
+        expect(pdf.slice(start + Number(match[1]), start + Number(match[1]) + 10)).toBe('\nendstream');
+      }
+    });
+  });
+
+  describe('Layout', () => {
+    it('should render sections, codes and the signed-by block', () => {
+      const [text] = pageTexts(layoutNote({ session, signer, signedAt }));
+      expect(text).toContain('Subjective');
+      expect(text).toContain('Cough for 3 days \\(worse at night\\).');
+      expect(text).toContain('J18.9 Pneumonia, unspecified organism \\(Suggested\\)');
+      expect(text).toContain('Electronically signed by: Dr Alex Smith, Family Medicine');
+      expect(text).toContain('Date: 2025-10-14 10:00 UTC');
+    });
+
+    it('should mark unsigned notes as drafts instead of attesting a signature', () => {
+      const [text] = pageTexts(layoutNote({ session, signer }));
+      expect(text).not.toContain('Electronically signed');
+      expect(text).toContain('Unsigned draft. Prepared by: Dr Alex Smith, Family Medicine');
+      expect(text).toMatch(/Printed: \d{4}-\d{2}-\d{2} \d{2}:\d{2} UTC/);
+    });
+
+    it('should paginate long notes with a patient footer and page numbers on every page', () => {
+      const longSession = {
+        ...session,
+        note_json: { subjective: Array.from({ length: 200 }, (_, i) => `Line ${i + 1} of history.`).join('\n') },
+      };
+      const pages = pageTexts(layoutNote({ session: longSession, signer, signedAt }));
+      expect(pages.length).toBeGreaterThan(2);
+      pages.forEach((text, index) => {
+        expect(text).toContain('Patient: Jane Doe  |  MRN: MRN-10042  |  DOB: 1980-04-12');
+        expect(text).toContain(`Page ${index + 1} of ${pages.length}`);
+      });
+      expect(pages[pages.length - 1]).toContain('Line 200 of history.');
+    });
+
+    it('should draw the team letterhead on the first page only', () => {
+      const pages = pageTexts(layoutNote({
+        session: { ...session, note_json: { plan: 'x\n'.repeat(150) } },
+        letterhead: { name: 'Northside Clinic', address: '1 Main St\nSpringfield' },
+        signer,
+        signedAt,
+      }));
+      expect(pages[0]).toContain('Northside Clinic');
+      expect(pages[0]).toContain('Springfield');
+      expect(pages[1]).not.toContain('Northside Clinic');
+    });
+  });
+
+  describe('Text handling', () => {
+    it('should escape PDF string delimiters and encode WinAnsi characters', () => {
+      expect(pdfString('a(b)c\\')).toBe('(a\\(b\\)c\\\\)');
+      expect(pdfString('café – “ok”')).toBe('(caf\\351 \\226 \\223ok\\224)');
+      expect(pdfString('日本')).toBe('(??)');
+    });
+
+    it('should wrap text to the available width', () => {
+      const lines = wrapText('word '.repeat(100).trim(), 10, 200);
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach(line => expect(measureText(line, 10)).toBeLessThanOrEqual(200));
+    });
+  });
+
+  describe('Letterhead logo', () => {
+    it('should read JPEG dimensions from the frame header', async () => {
+      const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x20, 0x00, 0x40, 0x03, 0, 0, 0, 0, 0, 0]);
+      expect(await loadPdfImage(jpeg)).toMatchObject({ width: 64, height: 32, colorSpace: 'DeviceRGB', filter: 'DCTDecode' });
+    });
+
+    it('should split PNG alpha into a soft mask and embed it', async () => {
+      const logo = await loadPdfImage(await rgbaPng(4, 2));
+      expect(logo).toMatchObject({ width: 4, height: 2, colorSpace: 'DeviceRGB', filter: 'FlateDecode' });
+      expect(logo!.alpha).toBeDefined();
+
+      const pdf = latin1(buildNotePdf({ session, signer, signedAt, letterhead: { name: 'Clinic', logo } }));
+      expect(pdf).toContain('/SMask');
+      expect(pdf).toContain('/XObject << /Im1');
+    });
+
+    it('should reject unsupported images', async () => {
+      expect(await loadPdfImage(new TextEncoder().encode('GIF89a'))).toBeNull();
+    });
+
+    it('should only fetch logos over HTTPS from allowed hosts', () => {
+      const hosts = ['project.supabase.co', '.cdn.example.com'];
+      expect(isAllowedLogoUrl('https://project.supabase.co/storage/v1/object/public/logos/a.png', hosts)).toBe(true);
+      expect(isAllowedLogoUrl('https://img.cdn.example.com/a.png', hosts)).toBe(true);
+      expect(isAllowedLogoUrl('http://project.supabase.co/a.png', hosts)).toBe(false);
+      expect(isAllowedLogoUrl('https://169.254.169.254/latest/meta-data', hosts)).toBe(false);
+      expect(isAllowedLogoUrl('https://project.supabase.co:8443/a.png', hosts)).toBe(false);
+      expect(isAllowedLogoUrl('https://project.supabase.co.evil.test/a.png', hosts)).toBe(false);
+    });
+
+    it('should stop reading logos larger than the cap', async () => {
+      const fetchImpl = (async () => new Response(new Uint8Array(2048))) as typeof fetch;
+      const options = { allowedHosts: ['logos.test'], fetchImpl };
+      expect(await fetchLogoBytes('https://logos.test/a.png', { ...options, maxBytes: 1024 })).toBeNull();
+      expect(await fetchLogoBytes('https://logos.test/a.png', { ...options, maxBytes: 4096 })).toHaveLength(2048);
+      expect(await fetchLogoBytes('https://other.test/a.png', options)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * ICD-10-CM Lookup Tests
+ * Bundled code table search and validation of suggested codes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { lookupIcd10, normalizeIcd10Code, searchIcd10, specifyIcd10, validateSuggestedCodes } from '../src/lib/icd10';
+
+describe('Code table', () => {
+  it('should normalize codes and read billable flags and parents', () => {
+    expect(normalizeIcd10Code(' e119 ')).toBe('E11.9');
+    expect(lookupIcd10('E11.9')).toEqual({
+      code: 'E11.9',
+      descriptor: 'Type 2 diabetes mellitus without complications',
+      billable: true,
+      parent: 'E11',
+    });
+    expect(lookupIcd10('E11')).toMatchObject({ billable: false, parent: null });
+    expect(lookupIcd10('I10')).toMatchObject({ billable: true, parent: null });
+    // Placeholder codes skip levels
+    expect(lookupIcd10('W19.XXXA')?.parent).toBe('W19');
+    expect(lookupIcd10('Z99.99')).toBeNull();
+  });
+});
+
+describe('Search', () => {
+  it('should match code prefixes, exact code first', () => {
+    const results = searchIcd10('j45.9');
+    expect(results[0].code).toBe('J45.9');
+    expect(results.map(c => c.code)).toEqual(expect.arrayContaining(['J45.901', 'J45.909']));
+  });
+
+  it('should match descriptor word prefixes, billable codes first', () => {
+    expect(searchIcd10('knee pain').map(c => c.code)).toEqual(['M25.561', 'M25.562', 'M25.569', 'M25.56']);
+    expect(searchIcd10('type 2 diab hyperglyc', { billableOnly: true }).map(c => c.code)).toEqual(['E11.65']);
+    expect(searchIcd10('   ')).toEqual([]);
+  });
+});
+
+describe('Suggested code validation', () => {
+  it('should specify header codes to their unspecified billable code', () => {
+    expect(specifyIcd10('E11')?.code).toBe('E11.9');
+    expect(specifyIcd10('J45')?.code).toBe('J45.909');
+    expect(specifyIcd10('M25.56')?.code).toBe('M25.569');
+    // With and without urinary symptoms: no safe default
+    expect(specifyIcd10('N40')).toBeNull();
+  });
+
+  it('should reject unknown and unspecifiable codes and keep each code once', () => {
+    const { accepted, rejected } = validateSuggestedCodes([
+      { code: 'E11', system: 'ICD-10-CM', label: 'Diabetes', confidence: 0.7 },
+      { code: 'e11.9', label: 'T2DM', confidence: 0.95 },
+      { code: 'I10', label: 'HTN', confidence: 0.9 },
+      { code: 'Z99.99', label: 'Made up', confidence: 0.8 },
+      { code: 'N40', label: 'BPH', confidence: 0.8 },
+      { code: 'diabetes', label: 'Not a code', confidence: 0.8 },
+      'not a code',
+    ]);
+    expect(accepted).toEqual([
+      { code: 'E11.9', system: 'ICD-10-CM', label: 'Type 2 diabetes mellitus without complications', confidence: 0.95, billable: true },
+      { code: 'I10', system: 'ICD-10-CM', label: 'Essential (primary) hypertension', confidence: 0.9, billable: true },
+    ]);
+    expect(rejected).toEqual([
+      { code: 'Z99.99', label: 'Made up', reason: 'unknown' },
+      { code: 'N40', label: 'BPH', reason: 'not_billable' },
+      { code: 'diabetes', label: 'Not a code', reason: 'malformed' },
+    ]);
+  });
+
+  it('should note the header a code was specified from', () => {
+    expect(validateSuggestedCodes([{ code: 'I48', confidence: 0.8 }]).accepted).toEqual([
+      expect.objectContaining({ code: 'I48.91', specified_from: 'I48', label: 'Unspecified atrial fibrillation' }),
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Medication Reconciliation Tests
+ * Normalizing extracted medications and comparing them between visits
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  anchorEntities,
+  normalizeMedicationEntities,
+  parseMedication,
+  reconcileMedications,
+  type NormalizedMedication,
+} from '../supabase/functions/_shared/medications';
+
+const med = (drug_name: string, dose: string | null, frequency: string | null = null): NormalizedMedication => ({
+  drug_name,
+  display_name: drug_name,
+  dose,
+  route: null,
+  frequency,
+  source_text: drug_name,
+});
+
+describe('Medication normalization', () => {
+  it('should split written and spoken medications into name, dose, route and frequency', () => {
+    expect(parseMedication('Metformin 500mg PO BID')).toMatchObject({
+      drug_name: 'metformin',
+      display_name: 'Metformin',
+      dose: '500 mg',
+      route: 'oral',
+      frequency: 'twice daily',
+    });
+    expect(parseMedication('lisinopril tablets 10 milligrams once a day by mouth')).toMatchObject({
+      drug_name: 'lisinopril',
+      dose: '10 mg',
+      route: 'oral',
+      frequency: 'once daily',
+    });
+    expect(parseMedication('Albuterol inhaler 2 puffs q4h as needed')).toMatchObject({
+      drug_name: 'albuterol',
+      dose: '2 puffs',
+      route: 'inhaled',
+      frequency: 'every 4 hours',
+    });
+  });
+
+  it('should anchor repeated mentions on successive occurrences', () => {
+    const text = 'Amoxicillin rash last year. Allergic to amoxicillin, so no amoxicillin today.';
+    // Offsets from the de-identified text are close but not exact
+    const anchored = anchorEntities(text, [
+      { text: 'amoxicillin', type: 'medication', start: 66, end: 77 },
+      { text: 'amoxicillin', type: 'allergy', start: 37, end: 48 },
+      { text: 'amoxicillin', type: 'medication', start: 38, end: 49 },
+      // Not in the text: left as given
+      { text: 'penicillin', type: 'medication', start: 3, end: 13 },
+    ]);
+
+    expect(anchored.map(e => [e.type, e.start, e.end])).toEqual([
+      ['medication', 59, 70],
+      ['allergy', 40, 51],
+      ['medication', 40, 51],
+      ['medication', 3, 13],
+    ]);
+  });
+
+  it('should attach nearby dosage entities and keep one entry per drug', () => {
+    const text = 'Start amoxicillin 500 mg three times daily. Continue Amoxicillin.';
+    const entities = [
+      { text: 'amoxicillin', type: 'medication', start: 6, end: 17 },
+      { text: '500 mg three times daily', type: 'dosage', start: 18, end: 42 },
+      { text: 'Amoxicillin', type: 'medication', start: text.lastIndexOf('Amoxicillin'), end: text.length - 1 },
+      { text: 'fever', type: 'symptom', start: 0, end: 5 },
+    ];
+    expect(normalizeMedicationEntities(entities)).toEqual([{
+      drug_name: 'amoxicillin',
+      display_name: 'amoxicillin',
+      dose: '500 mg',
+      route: null,
+      frequency: 'three times daily',
+      source_text: 'amoxicillin',
+      source_start: 6,
+    }]);
+  });
+
+  it('should point at the mention with the most detail when a drug is repeated', () => {
+    // 'Takes lisinopril. Increase to lisinopril 20 mg daily.'
+    const entities = [
+      { text: 'lisinopril', type: 'medication', start: 6, end: 16 },
+      { text: 'lisinopril 20 mg daily', type: 'medication', start: 30, end: 52 },
+    ];
+    expect(normalizeMedicationEntities(entities)).toEqual([
+      expect.objectContaining({ drug_name: 'lisinopril', dose: '20 mg', source_start: 30 }),
+    ]);
+  });
+
+  it('should match brand names on the generic name', () => {
+    expect(parseMedication('Lipitor 20 mg daily')).toMatchObject({ drug_name: 'atorvastatin', display_name: 'Lipitor' });
+    expect(parseMedication('Toprol XL 50 mg')?.drug_name).toBe('metoprolol');
+    expect(parseMedication('Augmentin 875 mg')?.drug_name).toBe('augmentin');
+  });
+});
+
+describe('Medication reconciliation', () => {
+  it('should report started, changed and stopped medications against the previous visit', () => {
+    const changes = reconcileMedications(
+      [med('metformin', '500 mg', 'twice daily'), med('atorvastatin', '20 mg'), med('aspirin', '81 mg')],
+      [med('metformin', '1000 mg', 'twice daily'), med('atorvastatin', null), med('empagliflozin', '10 mg')]
+    );
+    expect(changes.map(c => [c.drug_name, c.change, c.differences])).toEqual([
+      ['empagliflozin', 'started', []],
+      ['metformin', 'changed', ['dose']],
+      ['aspirin', 'stopped', []],
+      ['atorvastatin', 'unchanged', []],
+    ]);
+  });
+
+  it('should not report a switch between brand and generic name as stopped and started', () => {
+    // Drug names stored before brands were mapped are still matched
+    const changes = reconcileMedications(
+      [med('lipitor', '20 mg'), med('tylenol', null)],
+      [med('atorvastatin', '40 mg'), med('acetaminophen', '500 mg')]
+    );
+    expect(changes.map(c => [c.drug_name, c.change, c.differences])).toEqual([
+      ['atorvastatin', 'changed', ['dose']],
+      ['acetaminophen', 'unchanged', []],
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Note Diff Tests
+ * Section-aware comparison of note versions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffNoteVersions, diffText, noteSections } from '../src/lib/noteDiff';
+
+function rebuild(segments: ReturnType<typeof diffText>, side: 'before' | 'after') {
+  return segments
+    .filter(s => s.type === 'equal' || s.type === (side === 'before' ? 'delete' : 'insert'))
+    .map(s => s.text)
+    .join('');
+}
+
+describe('Note diff', () => {
+  describe('diffText', () => {
+    it('should mark changed words and keep everything else equal', () => {
+      const segments = diffText('Amoxicillin 500 mg twice daily', 'Amoxicillin 875 mg twice daily');
+      expect(segments).toEqual([
+        { type: 'equal', text: 'Amoxicillin ' },
+        { type: 'delete', text: '500' },
+        { type: 'insert', text: '875' },
+        { type: 'equal', text: ' mg twice daily' },
+      ]);
+    });
+
+    it('should reconstruct both sides from the segments', () => {
+      const before = 'Cough for 3 days.\nNo fever.\nTaking lozenges.';
+      const after = 'Cough for 5 days.\nLow grade fever.\nTaking lozenges and honey.';
+      const segments = diffText(before, after);
+      expect(rebuild(segments, 'before')).toBe(before);
+      expect(rebuild(segments, 'after')).toBe(after);
+    });
+
+    it('should handle empty inputs', () => {
+      expect(diffText('', 'new text')).toEqual([{ type: 'insert', text: 'new text' }]);
+      expect(diffText('old', '')).toEqual([{ type: 'delete', text: 'old' }]);
+      expect(diffText('', '')).toEqual([]);
+    });
+  });
+
+  describe('noteSections', () => {
+    it('should flatten structured sections', () => {
+      expect(noteSections({
+        note_json: {
+          subjective: ['Sore throat', 'Dry cough'],
+          objective: { vitals: 'BP 118/76', exam: 'Pharynx erythematous' },
+          template_id: 'soap',
+        },
+      })).toEqual([
+        { key: 'subjective', text: 'Sore throat\nDry cough' },
+        { key: 'objective', text: 'Vitals: BP 118/76\nExam: Pharynx erythematous' },
+      ]);
+    });
+
+    it('should read a nested sections object and fall back to the plaintext note', () => {
+      expect(noteSections({ note_json: { sections: { plan: 'Rest' } } })).toEqual([{ key: 'plan', text: 'Rest' }]);
+      expect(noteSections({ generated_note: 'Plain note', note_json: null })).toEqual([{ key: 'note', text: 'Plain note' }]);
+    });
+  });
+
+  describe('diffNoteVersions', () => {
+    const v1 = { note_json: { subjective: 'Cough for 3 days', assessment: 'Viral URI', plan: 'Rest' } };
+    const v2 = { note_json: { subjective: 'Cough for 3 days', assessment: 'Bacterial sinusitis', plan: 'Rest', follow_up: '1 week' } };
+
+    it('should classify each section', () => {
+      const diffs = diffNoteVersions(v1, v2);
+      expect(diffs.map(d => [d.key, d.status])).toEqual([
+        ['subjective', 'unchanged'],
+        ['assessment', 'changed'],
+        ['plan', 'unchanged'],
+        ['follow_up', 'added'],
+      ]);
+      expect(diffs[3].title).toBe('Follow Up');
+    });
+
+    it('should append removed sections after the current ones', () => {
+      const diffs = diffNoteVersions(v2, v1);
+      expect(diffs[diffs.length - 1]).toMatchObject({ key: 'follow_up', status: 'removed', before: '1 week' });
+    });
+  });
+});
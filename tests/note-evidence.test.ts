@@ -0,0 +1,100 @@
+/**
+ * Note Evidence Tests
+ * Sentence splitting, citation matching, overlap fallback and lookup
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildNoteEvidence,
+  findSentenceEvidence,
+  formatSegmentsForPrompt,
+  parseNoteEvidence,
+  splitSentences,
+  type EvidenceSegment,
+} from '../supabase/functions/_shared/noteEvidence';
+
+const segments: EvidenceSegment[] = [
+  { id: 'seg-a', speaker: 'doctor', text: 'What brings you in today?' },
+  { id: 'seg-b', speaker: 'patient', text: 'I have had a dry cough for two weeks, worse at night.' },
+  { id: 'seg-c', speaker: 'doctor', text: 'Lungs are clear. Start benzonatate 100 mg three times daily.' },
+];
+
+describe('Sentence splitting', () => {
+  it('should split prose on sentence ends and newlines and drop list markers', () => {
+    expect(splitSentences('Dry cough for 2 weeks. Worse at night.\n- No fever')).toEqual([
+      'Dry cough for 2 weeks.',
+      'Worse at night.',
+      'No fever',
+    ]);
+    expect(splitSentences('BP 120/80 mmHg, temp 37.2 C.')).toEqual(['BP 120/80 mmHg, temp 37.2 C.']);
+  });
+});
+
+describe('Prompt segments', () => {
+  it('should label segments and keep the most recent ones when too long', () => {
+    expect(formatSegmentsForPrompt(segments.slice(0, 2))).toBe(
+      '[S1] Doctor: What brings you in today?\n[S2] Patient: I have had a dry cough for two weeks, worse at night.'
+    );
+    // Labels keep their position in the full list
+    expect(formatSegmentsForPrompt(segments, 80)).toBe(
+      '[S3] Doctor: Lungs are clear. Start benzonatate 100 mg three times daily.'
+    );
+  });
+});
+
+describe('Evidence resolution', () => {
+  it('should map model citations to segment ids', () => {
+    const evidence = buildNoteEvidence(
+      { subjective: 'Dry cough for two weeks, worse at night.' },
+      segments,
+      [{ section: 'Subjective', sentence: 'Dry cough for two weeks, worse at night.', segments: ['S2', '[S9]'] }]
+    );
+
+    expect(evidence.sentences).toEqual([
+      { section: 'subjective', text: 'Dry cough for two weeks, worse at night.', segment_ids: ['seg-b'], source: 'model' },
+    ]);
+  });
+
+  it('should fall back to word overlap and flag sentences with no support', () => {
+    const evidence = buildNoteEvidence(
+      { plan: ['Benzonatate 100 mg three times daily.', 'Chest X-ray ordered.', 'None.'] },
+      segments,
+      undefined
+    );
+
+    expect(evidence.sentences).toEqual([
+      { section: 'plan', text: 'Benzonatate 100 mg three times daily.', segment_ids: ['seg-c'], source: 'overlap' },
+      { section: 'plan', text: 'Chest X-ray ordered.', segment_ids: [], source: 'none' },
+    ]);
+  });
+
+  it('should not trust a citation for a different section or sentence', () => {
+    const evidence = buildNoteEvidence(
+      { assessment: 'Suspected pneumonia.' },
+      segments,
+      [
+        { section: 'plan', sentence: 'Suspected pneumonia.', segments: ['S3'] },
+        { section: 'assessment', sentence: 'Viral upper respiratory infection.', segments: ['S2'] },
+      ]
+    );
+
+    expect(evidence.sentences[0]).toMatchObject({ segment_ids: [], source: 'none' });
+  });
+});
+
+describe('Evidence lookup', () => {
+  it('should find sentences by normalized text and ignore edited ones', () => {
+    const evidence = parseNoteEvidence({
+      sentences: [
+        { section: 'plan', text: 'Chest X-ray ordered.', segment_ids: [], source: 'none' },
+        { section: 'plan', text: 42 },
+      ],
+    });
+
+    expect(evidence?.sentences).toHaveLength(1);
+    expect(findSentenceEvidence(evidence, 'plan', 'chest x-ray ordered')?.source).toBe('none');
+    expect(findSentenceEvidence(evidence, 'plan', 'Chest CT ordered.')).toBeNull();
+    expect(findSentenceEvidence(evidence, 'assessment', 'Chest X-ray ordered.')).toBeNull();
+    expect(parseNoteEvidence(null)).toBeNull();
+  });
+});
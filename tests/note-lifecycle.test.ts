@@ -0,0 +1,37 @@
+/**
+ * Note Lifecycle Tests
+ * Client-side mirror of the enforce_note_lifecycle transitions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canTransition, isNoteLocked, NOTE_STATUS_LABELS, type NoteStatus } from '../src/lib/noteLifecycle';
+
+const statuses = Object.keys(NOTE_STATUS_LABELS) as NoteStatus[];
+
+describe('Note lifecycle', () => {
+  it('should follow draft -> pending review -> signed -> amended', () => {
+    expect(canTransition('draft', 'pending_review')).toBe(true);
+    expect(canTransition('pending_review', 'signed')).toBe(true);
+    expect(canTransition('signed', 'amended')).toBe(true);
+  });
+
+  it('should allow a pending note to be returned to draft', () => {
+    expect(canTransition('pending_review', 'draft')).toBe(true);
+  });
+
+  it('should not allow signing without review', () => {
+    expect(canTransition('draft', 'signed')).toBe(false);
+  });
+
+  it('should never leave the signed states except signed -> amended', () => {
+    for (const to of statuses) {
+      expect(canTransition('signed', to)).toBe(to === 'amended');
+      expect(canTransition('amended', to)).toBe(false);
+    }
+  });
+
+  it('should lock signed and amended notes only', () => {
+    expect(statuses.filter(isNoteLocked)).toEqual(['signed', 'amended']);
+    expect(isNoteLocked(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Streaming Note Generation Tests
+ * Incremental partial JSON parsing and the generate-note event stream
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createPartialJsonParser } from '../supabase/functions/_shared/partialJson';
+import { createPartialNoteParser, readNoteEventStream, type NoteStreamEvent } from '../src/lib/noteStream';
+
+function eventStream(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+const note = '```json\n{"sections": {"subjective": ["Cough for 3 days", "No fever"], "assessment": "Viral URI\nlikely"}, "plaintext": "SUBJECTIVE: ..."}\n```';
+
+describe('Streaming note generation', () => {
+  it('should give a best-effort value at every point of the stream', () => {
+    const parser = createPartialJsonParser();
+    const snapshots: unknown[] = [];
+    for (const ch of note) {
+      parser.push(ch);
+      snapshots.push(parser.snapshot()?.value ?? null);
+    }
+
+    expect(snapshots).toContainEqual({ sections: { subjective: ['Cough for 3'] } });
+    expect(snapshots).toContainEqual({ sections: { subjective: ['Cough for 3 days', 'No fever'], assessment: 'Viral' } });
+    expect(parser.snapshot()).toEqual({
+      value: {
+        sections: { subjective: ['Cough for 3 days', 'No fever'], assessment: 'Viral URI\nlikely' },
+        plaintext: 'SUBJECTIVE: ...',
+      },
+      complete: true,
+    });
+  });
+
+  it('should report sections only when they change', () => {
+    const parser = createPartialNoteParser();
+    expect(parser.push('{"sections": {"subjective": [')).toBeNull();
+    expect(parser.push('"Cough')).toEqual({ subjective: ['Cough'] });
+    expect(parser.push('", ')).toBeNull();
+    expect(parser.push('"Fever"], "plan": ""')).toEqual({ subjective: ['Cough', 'Fever'] });
+    expect(parser.push('}, "plaintext": "SUBJECTIVE')).toBeNull();
+  });
+
+  it('should resolve with the final note and pass on progress events', async () => {
+    const events: NoteStreamEvent[] = [];
+    const result = await readNoteEventStream(
+      eventStream([
+        'data: {"type":"delta","content":"{\\"sec',
+        'tions\\": {}}"}\n\ndata: {"type":"status","message":"Checking note"}\n\n',
+        'data: {"type":"done","success":true,"note":"PLAN: Rest","warnings":[]}\n\n',
+      ]),
+      event => events.push(event)
+    );
+
+    expect(events).toEqual([
+      { type: 'delta', content: '{"sections": {}}' },
+      { type: 'status', message: 'Checking note' },
+    ]);
+    expect(result).toEqual({ success: true, note: 'PLAN: Rest', warnings: [] });
+  });
+
+  it('should reject on error events and streams that end early', async () => {
+    await expect(
+      readNoteEventStream(eventStream(['data: {"type":"error","error":{"message":"Rate limit exceeded"}}\n\n']), () => {})
+    ).rejects.toThrow('Rate limit exceeded');
+    await expect(
+      readNoteEventStream(eventStream(['data: {"type":"delta","content":"{"}\n\n']), () => {})
+    ).rejects.toThrow('ended before');
+  });
+});
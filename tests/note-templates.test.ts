@@ -0,0 +1,133 @@
+/**
+ * Note Template Schema Tests
+ * Validation, legacy structure upgrade and prompt generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_TEMPLATES,
+  buildTemplatePromptSpec,
+  createTemplateSection,
+  normalizeTemplateStructure,
+  resolveTemplateSections,
+  tidyTemplateSchema,
+  validateTemplateSchema,
+  type NoteTemplateSchema,
+} from '../src/lib/noteTemplates';
+
+const psychTemplate: NoteTemplateSchema = {
+  version: 1,
+  instructions: 'Write for a referring psychiatrist.',
+  sections: [
+    { key: 'chief_complaint', title: 'Chief Complaint', instructions: 'One line', required: true, style: 'prose' },
+    { key: 'mental_status', title: 'Mental Status Exam', instructions: '', required: true, style: 'bullets' },
+    {
+      key: 'risk',
+      title: 'Risk Assessment',
+      instructions: 'Suicidal or homicidal ideation',
+      required: false,
+      style: 'bullets',
+      condition: { type: 'keywords', keywords: ['suicid', 'self-harm'] },
+    },
+    {
+      key: 'social',
+      title: 'Social History',
+      instructions: '',
+      required: false,
+      style: 'prose',
+      condition: { type: 'detail_level', levels: ['high'] },
+    },
+    { key: 'safety_plan', title: 'Safety Plan', instructions: '', required: false, style: 'bullets', condition: { type: 'discussed' } },
+  ],
+};
+
+describe('Note template schema', () => {
+  it('should accept the built-in templates and a custom one', () => {
+    for (const { schema } of Object.values(BUILT_IN_TEMPLATES)) {
+      expect(validateTemplateSchema(schema).valid).toBe(true);
+    }
+    expect(validateTemplateSchema(psychTemplate)).toEqual({ valid: true, schema: psychTemplate, errors: [] });
+  });
+
+  it('should report every problem with its path', () => {
+    const result = validateTemplateSchema({
+      version: 1,
+      sections: [
+        { key: 'Plan!', title: '', instructions: 'x', required: true, style: 'table' },
+        { key: 'plan', title: 'Plan', instructions: '', required: true, style: 'bullets', condition: { type: 'discussed' } },
+        { key: 'plan', title: 'Plan again', instructions: '', required: false, style: 'bullets', condition: { type: 'keywords', keywords: [] } },
+      ],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(e => e.path)).toEqual([
+      'sections[0].key',
+      'sections[0].title',
+      'sections[0].style',
+      'sections[1].condition',
+      'sections[2].key',
+      'sections[2].condition.keywords',
+    ]);
+  });
+
+  it('should reject structures without sections', () => {
+    expect(validateTemplateSchema({ version: 1, sections: [] }).valid).toBe(false);
+    expect(validateTemplateSchema({ subjective: '' }).valid).toBe(false);
+    expect(validateTemplateSchema(null).valid).toBe(false);
+  });
+
+  it('should upgrade legacy template structures', () => {
+    expect(normalizeTemplateStructure({ sections: ['Chief Complaint', 'HPI', 'Follow-up'] })?.sections.map(s => s.key))
+      .toEqual(['chief_complaint', 'hpi', 'follow_up']);
+
+    const upgraded = normalizeTemplateStructure({
+      subjective: 'Patient reported symptoms',
+      objective: { vitals: 'BP, HR', exam: ['Heart', 'Lungs'] },
+    });
+    expect(upgraded?.sections).toEqual([
+      { key: 'subjective', title: 'Subjective', instructions: 'Patient reported symptoms', required: true, style: 'bullets' },
+      { key: 'objective', title: 'Objective', instructions: 'Vitals: BP, HR; Exam: Heart; Lungs', required: true, style: 'bullets' },
+    ]);
+    expect(validateTemplateSchema(upgraded).valid).toBe(true);
+
+    expect(normalizeTemplateStructure({})).toBeNull();
+    expect(normalizeTemplateStructure(psychTemplate)).toBe(psychTemplate);
+  });
+
+  it('should drop conditional sections that do not apply', () => {
+    const keys = (transcript: string, detail_level: 'low' | 'medium' | 'high') =>
+      resolveTemplateSections(psychTemplate, { transcript, detail_level }).map(s => s.key);
+
+    expect(keys('Patient denies any suicidal thoughts.', 'medium'))
+      .toEqual(['chief_complaint', 'mental_status', 'risk', 'safety_plan']);
+    expect(keys('Sleeping poorly.', 'high')).toEqual(['chief_complaint', 'mental_status', 'social', 'safety_plan']);
+  });
+
+  it('should describe each section and its JSON shape for the prompt', () => {
+    const { guidance, jsonShape } = buildTemplatePromptSpec(psychTemplate.sections.slice(0, 3), psychTemplate.instructions);
+
+    expect(guidance).toContain('1. "chief_complaint" (Chief Complaint) [REQUIRED; a single prose paragraph string]: One line');
+    expect(guidance).toContain('3. "risk" (Risk Assessment) [OPTIONAL');
+    expect(guidance).toContain('TEMPLATE INSTRUCTIONS: Write for a referring psychiatrist.');
+    expect(jsonShape).toBe([
+      '    "chief_complaint": "Chief Complaint paragraph"',
+      '    "mental_status": ["Mental Status Exam point", "..."]',
+      '    "risk": ["Risk Assessment point", "..."]',
+    ].join(',\n'));
+  });
+
+  it('should tidy editor input and add sections with unique keys', () => {
+    const draft: NoteTemplateSchema = {
+      version: 1,
+      instructions: '  ',
+      sections: [
+        { key: 'new_section', title: ' New Section ', instructions: ' ', required: false, style: 'bullets', condition: { type: 'keywords', keywords: ['chest pain', ' '] } },
+      ],
+    };
+    const tidy = tidyTemplateSchema(draft);
+
+    expect(tidy.instructions).toBeUndefined();
+    expect(tidy.sections[0]).toMatchObject({ title: 'New Section', instructions: '', condition: { keywords: ['chest pain'] } });
+    expect(createTemplateSection(tidy).key).toBe('new_section_2');
+  });
+});
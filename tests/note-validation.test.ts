@@ -0,0 +1,133 @@
+/**
+ * Note Output Validation Tests
+ * JSON repair, template checks and targeted re-ask merging
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSectionReaskPrompt,
+  mergeReaskedSections,
+  normalizeNoteOutput,
+  parseNoteOutput,
+  remainingNoteIssues,
+  repairJson,
+  sectionsToReask,
+} from '../supabase/functions/_shared/noteValidation';
+import { BUILT_IN_TEMPLATES, type TemplateSection } from '../supabase/functions/_shared/noteTemplate';
+
+const template: TemplateSection[] = [
+  ...BUILT_IN_TEMPLATES.soap.schema.sections,
+  { key: 'safety_plan', title: 'Safety Plan', instructions: '', required: false, style: 'prose', condition: { type: 'discussed' } },
+];
+
+const validNote = {
+  sections: {
+    subjective: ['Cough for 3 days'],
+    objective: ['Lungs clear'],
+    assessment: ['Viral URI'],
+    plan: ['Fluids, rest'],
+  },
+  plaintext: 'SUBJECTIVE: Cough for 3 days...',
+};
+
+describe('Note output validation', () => {
+  it('should accept a note that matches the template', () => {
+    const parsed = parseNoteOutput(JSON.stringify(validNote));
+    const { note, issues } = normalizeNoteOutput(parsed.value, template);
+    expect(parsed.issues).toEqual([]);
+    expect(issues).toEqual([]);
+    expect(note.sections).toEqual(validNote.sections);
+  });
+
+  it('should repair fenced JSON with trailing commas and raw newlines', () => {
+    const raw = '```json\n{"sections": {"plan": ["Rest",],}, "plaintext": "PLAN:\n- Rest",}\n```';
+    const { value, issues } = parseNoteOutput(raw);
+    expect(value).toEqual({ sections: { plan: ['Rest'] }, plaintext: 'PLAN:\n- Rest' });
+    expect(issues).toMatchObject([{ code: 'invalid_json', repaired: true }]);
+  });
+
+  it('should close truncated JSON at the last complete value', () => {
+    expect(repairJson('{"sections": {"subjective": ["Cough", "Fever for 2 da')).toEqual({
+      value: { sections: { subjective: ['Cough', 'Fever for 2 da'] } },
+      truncated: true,
+    });
+    expect(repairJson('{"sections": {"subjective": ["Cough"], "objec')).toEqual({
+      value: { sections: { subjective: ['Cough'] } },
+      truncated: true,
+    });
+    expect(repairJson('I could not generate a note.')).toBeNull();
+  });
+
+  it('should drop hallucinated sections and map title-case keys', () => {
+    const { note, issues } = normalizeNoteOutput(
+      {
+        sections: { ...validNote.sections, Assessment: undefined, 'Billing Codes': ['99213'], 'Safety Plan': 'Call 988 if needed' },
+        plaintext: 'x',
+      },
+      template
+    );
+    expect(note.sections).not.toHaveProperty('Billing Codes');
+    expect(note.sections.safety_plan).toBe('Call 988 if needed');
+    expect(issues).toEqual([
+      { code: 'unknown_section', section: 'Billing Codes', message: expect.any(String), repaired: true },
+    ]);
+  });
+
+  it('should coerce section values to the template style', () => {
+    const { note, issues } = normalizeNoteOutput(
+      {
+        sections: {
+          ...validNote.sections,
+          objective: '- BP 120/80\n- HR 72',
+          plan: { medications: 'Amoxicillin 500 mg', follow_up: 'in 2 weeks' },
+          safety_plan: ['Remove firearms', 'Crisis line'],
+        },
+        plaintext: 'x',
+      },
+      template
+    );
+    expect(note.sections.objective).toEqual(['BP 120/80', 'HR 72']);
+    expect(note.sections.plan).toEqual(['medications: Amoxicillin 500 mg', 'follow up: in 2 weeks']);
+    expect(note.sections.safety_plan).toBe('Remove firearms; Crisis line');
+    expect(issues.map(i => [i.code, i.section, i.repaired])).toEqual([
+      ['wrong_type', 'objective', true],
+      ['wrong_type', 'plan', true],
+      ['wrong_type', 'safety_plan', true],
+    ]);
+  });
+
+  it('should report missing required sections for a targeted re-ask', () => {
+    const { note, issues } = normalizeNoteOutput(
+      { sections: { subjective: ['Cough'], objective: [], plan: ['Rest'] } },
+      template
+    );
+    expect(issues.filter(i => !i.repaired).map(i => [i.code, i.section])).toEqual([
+      ['empty_section', 'objective'],
+      ['missing_section', 'assessment'],
+    ]);
+    expect(note.plaintext).toBe('SUBJECTIVE:\n- Cough\n\nPLAN:\n- Rest');
+
+    const missing = sectionsToReask(issues, template);
+    expect(missing.map(s => s.key)).toEqual(['objective', 'assessment']);
+
+    const prompt = buildSectionReaskPrompt(missing);
+    expect(prompt).toContain('"objective"');
+    expect(prompt).not.toContain('"plan"');
+
+    const merged = mergeReaskedSections(
+      note,
+      '{"sections": {"objective": ["Not discussed"], "assessment": ["Viral URI"], "plan": ["Ignored"]}}',
+      missing
+    );
+    expect(merged.filled).toEqual(['objective', 'assessment']);
+    expect(merged.note.sections.plan).toEqual(['Rest']);
+    expect(merged.note.plaintext).toContain('ASSESSMENT:\n- Viral URI');
+    expect(remainingNoteIssues(merged.note, template)).toEqual([]);
+  });
+
+  it('should flag output that cannot be parsed at all', () => {
+    const { value, issues } = parseNoteOutput('Sorry, I cannot help with that.');
+    expect(value).toBeNull();
+    expect(issues).toMatchObject([{ code: 'invalid_json', repaired: false }]);
+  });
+});
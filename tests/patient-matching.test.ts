@@ -0,0 +1,79 @@
+/**
+ * Patient Matching Tests
+ * Name similarity, duplicate detection and link suggestions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findDuplicatePatients,
+  nameSimilarity,
+  nameTokens,
+  scorePatientMatch,
+  suggestPatients,
+  type PatientIdentity,
+} from '../src/lib/patientMatching';
+
+const patient = (id: string, full_name: string, mrn: string | null = null, date_of_birth: string | null = null): PatientIdentity => ({
+  id,
+  full_name,
+  mrn,
+  date_of_birth,
+});
+
+describe('Name similarity', () => {
+  it('should ignore case, accents, titles and word order', () => {
+    expect(nameTokens('Dr. José  García-López')).toEqual(['jose', 'garcia', 'lopez']);
+    expect(nameSimilarity('Smith, John', 'john smith')).toBe(1);
+  });
+
+  it('should tolerate typos, initials and short forms but not different names', () => {
+    expect(nameSimilarity('Jon Smith', 'John Smith')).toBeGreaterThan(0.8);
+    expect(nameSimilarity('J Smith', 'John Smith')).toBeGreaterThan(0.9);
+    expect(nameSimilarity('Rob Brown', 'Robert Brown')).toBeGreaterThan(0.9);
+    expect(nameSimilarity('Jane Smith', 'John Smith')).toBeLessThan(0.7);
+  });
+});
+
+describe('Duplicate detection', () => {
+  it('should treat a shared MRN as near certain', () => {
+    const { score, reasons } = scorePatientMatch(
+      patient('a', 'Maria Gonzales', 'MRN-001'),
+      patient('b', 'Maria Gonzalez', 'mrn 001')
+    );
+    expect(score).toBeGreaterThanOrEqual(0.95);
+    expect(reasons).toEqual(['same_mrn', 'similar_name']);
+  });
+
+  it('should rule out records with a different MRN or date of birth', () => {
+    expect(scorePatientMatch(patient('a', 'John Smith', '1'), patient('b', 'John Smith', '2')).score).toBe(0);
+    expect(scorePatientMatch(
+      patient('a', 'John Smith', null, '1980-01-01'),
+      patient('b', 'John Smith', null, '1981-01-01')
+    ).score).toBe(0);
+  });
+
+  it('should list likely pairs, most likely first', () => {
+    const patients = [
+      patient('a', 'John Smith', null, '1980-01-01'),
+      patient('b', 'Jane Doe'),
+      patient('c', 'Jon Smith', null, '1980-01-01'),
+      patient('d', 'John Smith'),
+      patient('e', 'Jane Smith'),
+    ];
+    const pairs = findDuplicatePatients(patients).map(match => [match.patient.id, match.other.id]);
+    expect(pairs).toEqual([['a', 'c'], ['a', 'd'], ['c', 'd']]);
+  });
+});
+
+describe('Link suggestions', () => {
+  it('should offer close matches for a session and skip the rest', () => {
+    const patients = [
+      patient('a', 'Robert Brown', 'A-1'),
+      patient('b', 'Rob Brown'),
+      patient('c', 'Alice Brown'),
+    ];
+    expect(suggestPatients({ full_name: 'Robert Browne', mrn: null, date_of_birth: null }, patients).map(p => p.id))
+      .toEqual(['a', 'b']);
+    expect(suggestPatients({ full_name: 'New Patient', mrn: null, date_of_birth: null }, patients)).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * PHI De-identification Tests
+ * Recall against the labeled corpus, reversible tokens and redaction
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createStreamReidentifier,
+  deidentify,
+  deidentifyMessages,
+  detectPHI,
+  redactPHI,
+  reidentify,
+  reidentifyValue,
+  PHI_CATEGORIES,
+  PHI_PLACEHOLDER_INSTRUCTION,
+  type KnownIdentifiers,
+  type PhiCategory,
+} from '../supabase/functions/_shared/phi';
+import corpus from './fixtures/phi-corpus.json';
+
+interface LabeledRecord {
+  text: string;
+  known?: KnownIdentifiers;
+  phi: Array<{ category: string; text: string }>;
+}
+
+const records = corpus.records as LabeledRecord[];
+
+// Locate each labeled item in order so repeated values map to distinct offsets
+function labeledSpans(record: LabeledRecord) {
+  const cursors = new Map<string, number>();
+  return record.phi.map(item => {
+    const start = record.text.indexOf(item.text, cursors.get(item.text) ?? 0);
+    if (start < 0) throw new Error(`Label "${item.text}" not found in: ${record.text}`);
+    cursors.set(item.text, start + item.text.length);
+    return { category: item.category as PhiCategory, start, end: start + item.text.length };
+  });
+}
+
+function measureRecall() {
+  const perCategory = new Map<PhiCategory, { total: number; found: number }>();
+  let total = 0;
+  let redacted = 0;
+  const misses: string[] = [];
+
+  for (const record of records) {
+    const spans = detectPHI(record.text, record.known);
+    for (const label of labeledSpans(record)) {
+      const covering = spans.filter(s => s.start <= label.start && s.end >= label.end);
+      const stats = perCategory.get(label.category) || { total: 0, found: 0 };
+      stats.total++;
+      total++;
+      if (covering.length > 0) redacted++;
+      if (covering.some(s => s.category === label.category)) {
+        stats.found++;
+      } else {
+        misses.push(`${label.category}: ${record.text.slice(label.start, label.end)}`);
+      }
+      perCategory.set(label.category, stats);
+    }
+  }
+
+  return { perCategory, total, redacted, misses };
+}
+
+describe('PHI de-identification', () => {
+  describe('labeled corpus', () => {
+    const { perCategory, total, redacted, misses } = measureRecall();
+
+    it('should label every Safe Harbor category at least once', () => {
+      const labeled = new Set(perCategory.keys());
+      expect(Object.keys(PHI_CATEGORIES).filter(c => !labeled.has(c as PhiCategory))).toEqual([]);
+    });
+
+    it('should redact at least 98% of labeled identifiers', () => {
+      expect(redacted / total, misses.join('\n')).toBeGreaterThanOrEqual(0.98);
+    });
+
+    it('should reach 90% recall with the right category in every category', () => {
+      for (const [category, stats] of perCategory) {
+        expect(stats.found / stats.total, `${category}\n${misses.join('\n')}`).toBeGreaterThanOrEqual(0.9);
+      }
+    });
+
+    it('should leave clinical text without PHI untouched', () => {
+      for (const text of corpus.negatives) {
+        expect(detectPHI(text).map(s => `${s.category}: ${s.text}`), text).toEqual([]);
+      }
+    });
+  });
+
+  describe('reversible tokens', () => {
+    it('should round-trip every corpus record', () => {
+      for (const record of records) {
+        const { text, mapping } = deidentify(record.text, record.known);
+        expect(reidentify(text, mapping)).toBe(record.text);
+      }
+    });
+
+    it('should reuse one token for repeated values', () => {
+      const { text, mapping } = deidentify('Call 555-201-3344. Again: 555 201 3344.');
+      expect(text).toBe('Call [PHONE_1]. Again: [PHONE_1].');
+      expect(mapping.tokens['[PHONE_1]']).toBe('555-201-3344');
+    });
+
+    it('should treat known identifiers as literal text', () => {
+      const { text } = deidentify('Seen as J. (Jay) Smith+ today', { patient_name: 'J. (Jay) Smith+' });
+      expect(text).toBe('Seen as [NAME_1] today');
+    });
+
+    it('should re-identify tokens inside structured AI output', () => {
+      const { mapping } = deidentify('Mr. Patel, DOB 04/02/1950');
+      const output = reidentifyValue(
+        { subjective: '[NAME_1] reports dizziness', tasks: [{ note: 'Verify [DATE_1]' }], unknown: '[NAME_9]' },
+        mapping
+      );
+      expect(output).toEqual({ subjective: 'Patel reports dizziness', tasks: [{ note: 'Verify 04/02/1950' }], unknown: '[NAME_9]' });
+    });
+
+    it('should share one map across chat messages and instruct the model', () => {
+      const { messages, mapping } = deidentifyMessages(
+        [
+          { role: 'system', content: 'Write a SOAP note.' },
+          { role: 'user', content: 'Patient: Ana Costa, phone 555-440-1200' },
+          { role: 'user', content: 'Ana Costa reports cough' },
+        ],
+        {}
+      );
+      expect(messages[0].content).toContain(PHI_PLACEHOLDER_INSTRUCTION);
+      expect(messages[1].content).toBe('Patient: [NAME_1], phone [PHONE_1]');
+      expect(messages[2].content).toBe('[NAME_1] reports cough');
+      expect(Object.keys(mapping.tokens)).toHaveLength(2);
+    });
+  });
+
+  it('should re-identify tokens split across stream chunks', () => {
+    const { mapping } = deidentify('Ms. Okafor called from 555-201-3344');
+    const restorer = createStreamReidentifier(mapping);
+    const chunks = ['Spoke with [NA', 'ME_1] at [PHO', 'NE_1', ']. Array [1] ok', ' [PHONE_'];
+    const output = chunks.map(chunk => restorer.push(chunk)).join('') + restorer.flush();
+    expect(output).toBe('Spoke with Okafor at 555-201-3344. Array [1] ok [PHONE_');
+  });
+
+  it('should redact irreversibly with category placeholders', () => {
+    expect(redactPHI('Email jo@example.com, SSN 123-45-6789')).toBe('Email [EMAIL], SSN [SSN]');
+  });
+});
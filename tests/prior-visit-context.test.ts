@@ -0,0 +1,95 @@
+/**
+ * Prior Visit Context Tests
+ * Reading earlier visits and fitting them into a follow-up note prompt
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { estimateTokens, fitPriorVisits, formatPriorVisit, priorVisitFromSession, type PriorVisit } from '../src/lib/contextManager';
+import { BUILT_IN_TEMPLATES, buildPriorVisitGuidance, usesPriorVisits } from '../supabase/functions/_shared/noteTemplate';
+import { buildNoteGenerationPrompt } from '../src/ai/prompts/noteGeneration';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const visit = (date: string, summary: string): PriorVisit => ({
+  session_id: date,
+  date,
+  summary,
+  problems: ['Type 2 diabetes mellitus (E11.9)'],
+  medications: ['Metformin 500 mg twice daily'],
+  open_tasks: [],
+});
+
+describe('Prior visit extraction', () => {
+  it('should read codes, medications and open tasks from a saved visit', () => {
+    const prior = priorVisitFromSession({
+      id: 's1',
+      created_at: '2025-11-02T09:30:00Z',
+      chief_complaint: 'Diabetes review',
+      summary: null,
+      generated_note: 'Full note',
+      note_json: {
+        assessment: ['Type 2 diabetes, suboptimal control'],
+        plan: ['Increase metformin to 1000 mg twice daily', 'Recheck HbA1c in 3 months'],
+        current_medications: 'Lisinopril 10 mg daily',
+      },
+      clinical_codes: [{ code: 'E11.9', label: 'Type 2 diabetes mellitus without complications' }],
+    }, ['Order HbA1c']);
+
+    expect(prior).toEqual({
+      session_id: 's1',
+      date: '2025-11-02',
+      chief_complaint: 'Diabetes review',
+      summary: 'Type 2 diabetes, suboptimal control',
+      problems: ['Type 2 diabetes mellitus without complications (E11.9)'],
+      medications: ['Lisinopril 10 mg daily', 'Increase metformin to 1000 mg twice daily'],
+      open_tasks: ['Order HbA1c'],
+    });
+  });
+
+  it('should fall back to assessment lines when a visit was not coded', () => {
+    const prior = priorVisitFromSession({
+      id: 's2',
+      created_at: '2025-10-01T00:00:00Z',
+      chief_complaint: null,
+      summary: 'Follow-up for hypertension',
+      generated_note: null,
+      note_json: { assessment: 'Essential hypertension\nObesity' },
+      clinical_codes: [],
+    });
+    expect(prior.summary).toBe('Follow-up for hypertension');
+    expect(prior.problems).toEqual(['Essential hypertension', 'Obesity']);
+    expect(prior.medications).toEqual([]);
+  });
+});
+
+describe('Prior visit budget', () => {
+  it('should keep the most recent visits that fit and drop the rest whole', () => {
+    const visits = [visit('2025-11-02', 'Recent'), visit('2025-08-01', 'Older'), visit('2025-05-01', 'Oldest')];
+    const budget = estimateTokens([formatPriorVisit(visits[0]), formatPriorVisit(visits[1])].join('\n\n'));
+
+    const context = fitPriorVisits(visits, budget);
+    expect(context).toContain('Visit 2025-11-02');
+    expect(context).toContain('Visit 2025-08-01');
+    expect(context).not.toContain('2025-05-01');
+    expect(estimateTokens(context)).toBeLessThanOrEqual(budget);
+  });
+
+  it('should shorten the most recent visit rather than leave it out', () => {
+    const context = fitPriorVisits([visit('2025-11-02', 'x'.repeat(2000))], 50);
+    expect(context.startsWith('Visit 2025-11-02')).toBe(true);
+    expect(estimateTokens(context)).toBeLessThanOrEqual(50);
+  });
+});
+
+describe('Follow-up prompts', () => {
+  it('should only use prior visits for templates with an interval history', () => {
+    expect(usesPriorVisits(BUILT_IN_TEMPLATES.progress.schema.sections)).toBe(true);
+    expect(usesPriorVisits(BUILT_IN_TEMPLATES.soap.schema.sections)).toBe(false);
+
+    const prior_visits = fitPriorVisits([visit('2025-11-02', 'Diabetes review')]);
+    const base = { transcript: 'Doctor: How are you?', detail_level: 'medium' as const, language: 'English', prior_visits };
+
+    expect(buildNoteGenerationPrompt({ ...base, template: 'progress' }).system).toContain(buildPriorVisitGuidance(prior_visits));
+    expect(buildNoteGenerationPrompt({ ...base, template: 'soap' }).system).not.toContain('PRIOR VISITS');
+  });
+});
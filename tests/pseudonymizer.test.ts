@@ -0,0 +1,124 @@
+/**
+ * Pseudonymizer Tests
+ * Stable surrogates, date shifting and re-hydration of AI output
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createPseudonymizer, parseDate, shiftDate } from '../src/lib/pseudonymizer';
+import { suggestCodes } from '../src/ai/heidiBrain';
+
+const stored = vi.hoisted(() => ({
+  session: { patient_name: 'Maria Alvarez', patient_id: 'MRN-10042', patient_dob: null as string | null },
+  bodies: [] as { note_text: string }[],
+}));
+
+vi.mock('@/integrations/supabase/client', () => {
+  const query: Record<string, unknown> = {};
+  Object.assign(query, {
+    select: () => query,
+    update: () => query,
+    eq: () => query,
+    maybeSingle: async () => ({ data: stored.session, error: null }),
+    then: (resolve: (value: unknown) => void) => resolve({ data: null, error: null }),
+  });
+  return {
+    supabase: {
+      from: () => query,
+      functions: {
+        invoke: async (_name: string, { body }: { body: { note_text: string } }) => {
+          stored.bodies.push(body);
+          return { data: { success: true, codes: [] }, error: null };
+        },
+      },
+    },
+  };
+});
+
+const transcript = [
+  'Doctor: Good morning, Mrs. Alvarez. Is Maria Alvarez your full name?',
+  'Patient: Yes. My DOB is 03/14/1962 and my phone is 555-201-3344.',
+  'Doctor: You were admitted on March 3rd, 2024 and discharged 2024-03-09.',
+].join('\n');
+
+describe('Pseudonymizer', () => {
+  it('should replace names with consistent surrogates', () => {
+    const p = createPseudonymizer('session-1', { patient_name: 'Maria Alvarez' });
+    const output = p.pseudonymize(transcript);
+
+    expect(output).not.toMatch(/Alvarez|Maria|555-201-3344|03\/14/);
+    const family = p.map.names['alvarez'];
+    expect(output).toContain(`Mrs. ${family}`);
+    expect(output).toContain(`${p.map.names['maria']} ${family}`);
+  });
+
+  it('should keep surrogates stable across calls and sessions keyed the same', () => {
+    const first = createPseudonymizer('session-1', { patient_name: 'Maria Alvarez' });
+    const second = createPseudonymizer('session-1', { patient_name: 'Maria Alvarez' });
+    expect(first.pseudonymize(transcript)).toBe(second.pseudonymize(transcript));
+    expect(first.pseudonymize('Maria called')).toBe(`${first.map.names['maria']} called`);
+  });
+
+  it('should shift every date by the same offset and keep its format', () => {
+    const p = createPseudonymizer('session-1');
+    const output = p.pseudonymize(transcript);
+    const days = p.map.dateShiftDays;
+
+    expect(days).toBeLessThan(0);
+    expect(output).toContain(shiftDate('03/14/1962', days));
+    expect(output).toContain(shiftDate('March 3rd, 2024', days));
+    expect(output).toContain(shiftDate('2024-03-09', days));
+
+    // Interval between admission and discharge survives the shift
+    const admitted = parseDate(shiftDate('March 3rd, 2024', days)!)!.date.getTime();
+    const discharged = parseDate(shiftDate('2024-03-09', days)!)!.date.getTime();
+    expect((discharged - admitted) / 86_400_000).toBe(6);
+  });
+
+  it('should re-hydrate AI output with the real values', () => {
+    const p = createPseudonymizer('session-1', { patient_name: 'Maria Alvarez' });
+    p.pseudonymize(transcript);
+    const family = p.map.names['alvarez'];
+    const given = p.map.names['maria'];
+    const admitted = shiftDate('March 3rd, 2024', p.map.dateShiftDays);
+    const phone = p.map.values['555-201-3344'];
+
+    const note = `${given} ${family} was admitted ${admitted}. Call ${phone}. Ms. ${family.toUpperCase()} agrees.`;
+    expect(p.rehydrate(note)).toBe('Maria Alvarez was admitted March 3rd, 2024. Call 555-201-3344. Ms. ALVAREZ agrees.');
+  });
+
+  it('should re-hydrate structured notes', () => {
+    const p = createPseudonymizer('session-2', { patient_name: 'Tom Baker' });
+    const sent = p.pseudonymize('Tom Baker, seen 1/22/24');
+    const [name] = sent.split(',');
+    expect(p.rehydrateValue({ subjective: [`${name} reports cough`], date: sent.split('seen ')[1] }))
+      .toEqual({ subjective: ['Tom Baker reports cough'], date: '1/22/24' });
+  });
+
+  it('should keep ages over 89 above 89', () => {
+    const p = createPseudonymizer('session-3');
+    const sent = p.pseudonymize('A 94-year-old woman');
+    const age = Number(sent.match(/(\d+)-year-old/)![1]);
+    expect(age).toBeGreaterThanOrEqual(90);
+    expect(age).not.toBe(94);
+    expect(p.rehydrate(`${age}-year-old female, SpO2 ${age}%`)).toBe(`94-year-old female, SpO2 ${age}%`);
+  });
+
+  it('should shift month-only dates by whole months and back', () => {
+    for (const days of [-30, -45, -200, -364]) {
+      for (const date of ['Mar 2023', 'September 2023']) {
+        expect(shiftDate(shiftDate(date, days)!, -days)).toBe(date);
+      }
+    }
+  });
+});
+
+describe('Session pseudonymizer', () => {
+  it('should scrub identifiers edited after the first AI call', async () => {
+    await suggestCodes('session-edited', 'Maria Alvarez has a cough.');
+    stored.session = { patient_name: 'Quinn Okafor', patient_id: 'MRN-20077', patient_dob: null };
+    await suggestCodes('session-edited', 'quinn okafor has a cough. MRN-20077 on file.');
+
+    expect(stored.bodies[0].note_text).not.toMatch(/Maria|Alvarez/);
+    expect(stored.bodies[1].note_text).not.toMatch(/quinn|okafor|20077/i);
+  });
+});
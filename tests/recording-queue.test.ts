@@ -0,0 +1,172 @@
+/**
+ * Offline Recording Queue Tests
+ * Chunk persistence and the background sync worker
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { beginQueuedRecording, type QueuedRecording, type RecordingQueueStore } from '../src/lib/recordingQueue';
+import { RecordingSyncWorker, type RecordingUploader } from '../src/utils/RecordingSyncWorker';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+function createMemoryStore(): RecordingQueueStore & { chunks: Map<string, Blob[]> } {
+  const recordings = new Map<string, QueuedRecording>();
+  const chunks = new Map<string, Blob[]>();
+  return {
+    chunks,
+    async putRecording(recording) {
+      recordings.set(recording.id, { ...recording });
+    },
+    async getRecording(id) {
+      return recordings.get(id);
+    },
+    async listRecordings() {
+      return [...recordings.values()].sort((a, b) => a.startedAt - b.startedAt);
+    },
+    async putChunk(recordingId, seq, data) {
+      const list = chunks.get(recordingId) ?? [];
+      list[seq] = data;
+      chunks.set(recordingId, list);
+    },
+    async getChunks(recordingId) {
+      return chunks.get(recordingId) ?? [];
+    },
+    async deleteRecording(id) {
+      recordings.delete(id);
+      chunks.delete(id);
+    },
+  };
+}
+
+function createUploader(failUploads = 0) {
+  const calls: string[] = [];
+  let failures = failUploads;
+  const uploader: RecordingUploader = {
+    async upload(recording, audio) {
+      calls.push(`upload:${audio.size}`);
+      if (failures-- > 0) throw new Error('Failed to fetch');
+      return `${recording.sessionId}/${recording.id}.webm`;
+    },
+    async transcribe(recording, audio) {
+      calls.push(`transcribe:${audio.size}`);
+    },
+  };
+  return { uploader, calls };
+}
+
+async function queueRecording(store: RecordingQueueStore, sizes: number[], offline = false) {
+  const writer = await beginQueuedRecording(store, { sessionId: 'session-1', mimeType: 'audio/webm', offline });
+  sizes.forEach(size => writer.append(new Blob([new Uint8Array(size)])));
+  return writer.finish();
+}
+
+describe('Offline recording queue', () => {
+  it('should persist every chunk in order with session metadata', async () => {
+    const store = createMemoryStore();
+    const recording = await queueRecording(store, [10, 0, 20, 30], true);
+
+    expect(recording).toMatchObject({
+      sessionId: 'session-1',
+      status: 'pending',
+      chunkCount: 3,
+      bytes: 60,
+      needsTranscription: true,
+    });
+    expect((await store.getChunks(recording.id)).map(chunk => chunk.size)).toEqual([10, 20, 30]);
+    expect(await store.getRecording(recording.id)).toEqual(recording);
+  });
+
+  it('should wait for connectivity, then upload, transcribe and clear the queue', async () => {
+    const store = createMemoryStore();
+    const { uploader, calls } = createUploader();
+    let online = false;
+    const worker = new RecordingSyncWorker({ store, uploader, isOnline: () => online });
+
+    await queueRecording(store, [10, 20], true);
+    await worker.syncNow();
+    expect(calls).toEqual([]);
+    expect(await store.listRecordings()).toHaveLength(1);
+
+    online = true;
+    await worker.syncNow();
+    expect(calls).toEqual(['upload:30', 'transcribe:30']);
+    expect(await store.listRecordings()).toEqual([]);
+    expect(store.chunks.size).toBe(0);
+  });
+
+  it('should only upload recordings that were transcribed live', async () => {
+    const store = createMemoryStore();
+    const { uploader, calls } = createUploader();
+    const worker = new RecordingSyncWorker({ store, uploader, isOnline: () => true });
+
+    await queueRecording(store, [5]);
+    await worker.syncNow();
+    expect(calls).toEqual(['upload:5']);
+  });
+
+  it('should back off after a failure and keep the recording', async () => {
+    const store = createMemoryStore();
+    const { uploader, calls } = createUploader(2);
+    let now = 1_000_000;
+    const worker = new RecordingSyncWorker({ store, uploader, isOnline: () => true, now: () => now, initialBackoffMs: 5_000 });
+
+    const { id } = await queueRecording(store, [5]);
+    await worker.syncNow();
+    expect(await store.getRecording(id)).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      lastError: 'Failed to fetch',
+      nextAttemptAt: now + 5_000,
+    });
+
+    await worker.syncNow();
+    expect(calls).toHaveLength(1);
+
+    now += 5_000;
+    await worker.syncNow();
+    expect(await store.getRecording(id)).toMatchObject({ attempts: 2, nextAttemptAt: now + 10_000 });
+
+    await worker.retry(id);
+    expect(calls).toEqual(['upload:5', 'upload:5', 'upload:5']);
+    expect(await store.getRecording(id)).toBeUndefined();
+  });
+
+  it('should not transcribe again when clearing the queue fails', async () => {
+    const store = createMemoryStore();
+    const { uploader, calls } = createUploader();
+    const worker = new RecordingSyncWorker({ store, uploader, isOnline: () => true });
+    const deleteRecording = store.deleteRecording;
+    store.deleteRecording = async () => {
+      store.deleteRecording = deleteRecording;
+      throw new Error('QuotaExceededError');
+    };
+
+    const { id } = await queueRecording(store, [10], true);
+    await worker.syncNow();
+    expect(await store.getRecording(id)).toMatchObject({ status: 'failed', needsTranscription: false });
+
+    await worker.retry(id);
+    expect(calls).toEqual(['upload:10', 'transcribe:10']);
+    expect(await store.getRecording(id)).toBeUndefined();
+  });
+
+  it('should recover recordings abandoned by a closed tab', async () => {
+    const store = createMemoryStore();
+    const { uploader, calls } = createUploader();
+    let now = Date.now();
+    const worker = new RecordingSyncWorker({ store, uploader, isOnline: () => true, now: () => now });
+
+    const writer = await beginQueuedRecording(store, { sessionId: 'session-1', mimeType: 'audio/webm' });
+    writer.append(new Blob([new Uint8Array(8)]));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    await worker.syncNow();
+    expect(calls).toEqual([]);
+
+    now += 60_000;
+    await worker.syncNow();
+    // The live transcript comes back from the session checkpoint, so only the audio is uploaded
+    expect(calls).toEqual(['upload:8']);
+    await writer.finish();
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Session Crash Recovery Tests
+ * Checkpoint storage, interruption detection and diarization restore
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CHECKPOINT_VERSION,
+  STALE_CHECKPOINT_MS,
+  clearCheckpoint,
+  hasRecoverableState,
+  loadCheckpoint,
+  saveCheckpoint,
+  timeUntilInterrupted,
+  unsavedChunksToRestore,
+  type CheckpointStorage,
+  type SessionCheckpoint,
+} from '../src/lib/sessionCheckpoint';
+import { AdvancedSpeakerDiarization } from '../src/utils/AdvancedSpeakerDiarization';
+
+function createMemoryStorage(): CheckpointStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: key => {
+      items.delete(key);
+    },
+  };
+}
+
+function createCheckpoint(overrides: Partial<SessionCheckpoint> = {}): SessionCheckpoint {
+  return {
+    version: CHECKPOINT_VERSION,
+    sessionId: 'session-1',
+    savedAt: 1_000_000,
+    elapsedMs: 90_000,
+    recordedSeconds: 90,
+    recordingId: 'recording-1',
+    unsavedChunks: [
+      { text: 'Any allergies?', speaker: 'doctor', timestamp: 80_000 },
+      { text: 'Penicillin.', speaker: 'patient', timestamp: 84_000 },
+    ],
+    diarization: new AdvancedSpeakerDiarization().exportState(),
+    closedAt: null,
+    ...overrides,
+  };
+}
+
+describe('Session checkpoints', () => {
+  it('should save, load and clear a checkpoint per session', () => {
+    const storage = createMemoryStorage();
+    const checkpoint = createCheckpoint();
+
+    saveCheckpoint(checkpoint, storage);
+    expect(loadCheckpoint('session-1', storage)).toEqual(checkpoint);
+    expect(loadCheckpoint('session-2', storage)).toBeNull();
+
+    clearCheckpoint('session-1', storage);
+    expect(loadCheckpoint('session-1', storage)).toBeNull();
+  });
+
+  it('should ignore checkpoints from another version or unreadable data', () => {
+    const storage = createMemoryStorage();
+    storage.setItem('session_checkpoint_session-1', JSON.stringify({ ...createCheckpoint(), version: 0 }));
+    expect(loadCheckpoint('session-1', storage)).toBeNull();
+
+    storage.setItem('session_checkpoint_session-1', '{"version":');
+    expect(loadCheckpoint('session-1', storage)).toBeNull();
+  });
+
+  it('should only treat a checkpoint as interrupted once it stops being refreshed', () => {
+    const checkpoint = createCheckpoint();
+
+    expect(timeUntilInterrupted(checkpoint, checkpoint.savedAt + 1_000)).toBe(STALE_CHECKPOINT_MS - 1_000);
+    expect(timeUntilInterrupted(checkpoint, checkpoint.savedAt + STALE_CHECKPOINT_MS)).toBe(0);
+    // A page closed mid-recording marks it straight away
+    expect(timeUntilInterrupted({ ...checkpoint, closedAt: checkpoint.savedAt }, checkpoint.savedAt)).toBe(0);
+  });
+
+  it('should skip unsaved segments that reached the database before the crash', () => {
+    const checkpoint = createCheckpoint();
+    const saved = [
+      { text: 'How are you feeling?', timestamp_offset: 70_000 },
+      { text: 'Any allergies?', timestamp_offset: 80_000 },
+    ];
+
+    expect(unsavedChunksToRestore(checkpoint, saved)).toEqual([
+      { text: 'Penicillin.', speaker: 'patient', timestamp: 84_000 },
+    ]);
+  });
+
+  it('should have nothing to recover from an empty recording', () => {
+    expect(hasRecoverableState(createCheckpoint({ unsavedChunks: [] }))).toBe(false);
+    expect(hasRecoverableState(createCheckpoint())).toBe(true);
+  });
+});
+
+describe('Diarization state', () => {
+  it('should continue a restored conversation with the same speaker turns', () => {
+    const original = new AdvancedSpeakerDiarization();
+    original.processSpeechSegment('What brings you in today?', null, 0);
+    original.processSpeechSegment('I have had a cough for two weeks.', null, 4_000);
+
+    const state = JSON.parse(JSON.stringify(original.exportState()));
+    const restored = new AdvancedSpeakerDiarization();
+    restored.restoreState(state);
+
+    expect(restored.getFormattedTranscript()).toBe(original.getFormattedTranscript());
+    expect(restored.getSpeakerStatistics().totalSegments).toBe(2);
+
+    const next = restored.processSpeechSegment('Any fever?', null, 8_000);
+    expect(next.speaker).toBe(original.processSpeechSegment('Any fever?', null, 8_000).speaker);
+  });
+});
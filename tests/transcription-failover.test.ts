@@ -0,0 +1,106 @@
+/**
+ * Transcription Failover Tests
+ * Failure detection, fallback order, transcript stitching and metrics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BATCH_STALL_MS,
+  DISCONNECT_GRACE_MS,
+  STREAMING_STALL_MS,
+  detectFailure,
+  failoverMetric,
+  fallbackModels,
+  initialSupervisorState,
+  stitchTranscript,
+} from '../src/lib/transcriptionFailover';
+
+const now = 1_000_000;
+
+describe('Failure detection', () => {
+  it('should wait out the hook reconnects before calling a drop a failure', () => {
+    const state = { ...initialSupervisorState(), disconnectedSince: now - DISCONNECT_GRACE_MS + 1 };
+    expect(detectFailure(state, 'nova-2', now)).toBeNull();
+    expect(detectFailure(state, 'nova-2', now + 1)).toBe('disconnected');
+    // Whisper has no connection to lose
+    expect(detectFailure(state, 'whisper-1', now + 1)).toBeNull();
+  });
+
+  it('should count only recent errors', () => {
+    const state = { ...initialSupervisorState(), errors: [now - 120_000, now - 2000, now - 1000] };
+    expect(detectFailure(state, 'nova-2', now)).toBeNull();
+    state.errors.push(now);
+    expect(detectFailure(state, 'nova-2', now)).toBe('errors');
+  });
+
+  it('should give batch providers longer to answer speech', () => {
+    const state = { ...initialSupervisorState(), unansweredSpeechSince: now - STREAMING_STALL_MS };
+    expect(detectFailure(state, 'assemblyai-best', now)).toBe('stalled');
+    expect(detectFailure(state, 'whisper-1', now)).toBeNull();
+    expect(detectFailure(state, 'whisper-1', now - STREAMING_STALL_MS + BATCH_STALL_MS)).toBe('stalled');
+    expect(detectFailure(initialSupervisorState(), 'nova-2', now)).toBeNull();
+  });
+});
+
+describe('Fallback order', () => {
+  it('should offer one model per other provider, best first', () => {
+    expect(fallbackModels('nova-2-medical', 'en')).toEqual(['assemblyai-best', 'whisper-1']);
+    expect(fallbackModels('assemblyai-nano', 'en')).toEqual(['nova-2-medical', 'whisper-1']);
+  });
+
+  it('should skip models that cannot transcribe the language', () => {
+    expect(fallbackModels('whisper-1', 'hi')).toEqual(['nova-2']);
+    expect(fallbackModels('whisper-1', 'kn')).toEqual([]);
+  });
+
+  it('should follow a configured list', () => {
+    expect(fallbackModels('nova-2', 'en', ['nova-2-general', 'silero-vad-1', 'gpt-4o-mini-transcribe']))
+      .toEqual(['silero-vad-1', 'gpt-4o-mini-transcribe']);
+  });
+});
+
+describe('Stitching across a switch', () => {
+  it('should drop words both providers heard', () => {
+    expect(stitchTranscript('The cough started two weeks ago.', 'two weeks ago. It is worse at night.'))
+      .toBe('It is worse at night.');
+  });
+
+  it('should drop a backfilled segment that starts before the last final', () => {
+    expect(stitchTranscript(
+      'Any fever? No fever, but I feel tired',
+      'Any fever? No fever, but I feel tired all the time.'
+    )).toBe('all the time.');
+    expect(stitchTranscript('I have had chest pain', 'Yes, I have had chest pain and some nausea')).toBe('and some nausea');
+  });
+
+  it('should keep text with no overlap, and ignore short matches away from the start', () => {
+    expect(stitchTranscript('Take it twice a day.', 'Any allergies?')).toBe('Any allergies?');
+    expect(stitchTranscript('with a day', 'Twice a day is fine')).toBe('Twice a day is fine');
+    expect(stitchTranscript('', 'Hello there')).toBe('Hello there');
+  });
+});
+
+describe('Failover metric', () => {
+  it('should record the switch in system_metrics form', () => {
+    expect(failoverMetric({
+      sessionId: 'session-1',
+      reason: 'disconnected',
+      fromModel: 'nova-2-medical',
+      toModel: 'assemblyai-best',
+      switchMs: 1834.6,
+      backfilledChars: 120,
+    })).toEqual({
+      metric_type: 'transcription_failover',
+      metric_value: 1835,
+      metadata: {
+        session_id: 'session-1',
+        reason: 'disconnected',
+        from_model: 'nova-2-medical',
+        from_provider: 'deepgram',
+        to_model: 'assemblyai-best',
+        to_provider: 'assemblyai',
+        backfilled_chars: 120,
+      },
+    });
+  });
+});
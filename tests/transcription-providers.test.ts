@@ -0,0 +1,58 @@
+/**
+ * Transcription Provider Tests
+ * Model routing, declared capabilities and negotiation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  TRANSCRIPTION_MODELS,
+  modelCapabilities,
+  negotiateTranscription,
+  providerForModel,
+  supportsFeature,
+} from '../src/lib/transcriptionProviders';
+
+describe('Transcription providers', () => {
+  it('should route every listed model to its provider', () => {
+    expect(providerForModel('whisper-1')).toBe('whisper');
+    expect(providerForModel('assemblyai-nano')).toBe('assemblyai');
+    expect(providerForModel('nova-2-medical')).toBe('deepgram');
+    expect(providerForModel('turn_detector_v2')).toBe('openai-realtime');
+    // Listed under Deepgram, despite the whisper- prefix
+    expect(providerForModel('whisper-large')).toBe('deepgram');
+    expect(new Set(TRANSCRIPTION_MODELS.map(m => m.id)).size).toBe(TRANSCRIPTION_MODELS.length);
+  });
+
+  it('should route unlisted models by name, then by the fallback', () => {
+    expect(providerForModel('gpt-4o-transcribe')).toBe('whisper');
+    expect(providerForModel('nova-3')).toBe('deepgram');
+    expect(providerForModel('something-new', 'assemblyai')).toBe('assemblyai');
+  });
+
+  it('should apply model overrides to the provider capabilities', () => {
+    const general = modelCapabilities('nova-2');
+    const medical = modelCapabilities('nova-2-medical');
+
+    expect(supportsFeature(general, 'language', 'hi')).toBe(true);
+    expect(supportsFeature(medical, 'language', 'hi')).toBe(false);
+    expect(medical.diarization).toBe(true);
+    expect(supportsFeature(modelCapabilities('silero-vad-1'), 'wordTimings')).toBe(false);
+    expect(supportsFeature(modelCapabilities('silero-vad-1'), 'language', 'kn')).toBe(true);
+  });
+
+  it('should fall back to English and drop speaker labels the model lacks', () => {
+    const result = negotiateTranscription('assemblyai-best', { language: 'es', diarization: true });
+
+    expect(result.provider).toBe('assemblyai');
+    expect(result.options).toEqual({ language: 'en', diarization: false });
+    expect(result.unsupported).toEqual(['language', 'diarization']);
+  });
+
+  it('should keep what the model supports, comparing languages without region', () => {
+    const result = negotiateTranscription('nova-2', { language: 'en-IN', diarization: true });
+
+    expect(result.options).toEqual({ language: 'en', diarization: true });
+    expect(result.unsupported).toEqual([]);
+    expect(negotiateTranscription('whisper-1', { language: 'kn' }).options).toEqual({ language: 'kn', diarization: false });
+  });
+});
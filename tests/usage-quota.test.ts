@@ -0,0 +1,123 @@
+/**
+ * Usage Quota Tests
+ * Decision parsing, rate-limit headers, enforcement and metered amounts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  enforceQuota,
+  parseQuotaDecision,
+  quotaErrorBody,
+  rateLimitHeaders,
+  recordUsageAmount,
+  type QuotaClient,
+  type QuotaDecision,
+} from '../supabase/functions/_shared/quota';
+
+const now = Date.parse('2025-12-14T10:00:00Z');
+
+const decision = (overrides: Partial<QuotaDecision> = {}): QuotaDecision => ({
+  allowed: true,
+  reason: 'ok',
+  limit: 10,
+  remaining: 7,
+  reset_at: '2025-12-14T10:00:42Z',
+  event_id: 'event-1',
+  budget: null,
+  ...overrides,
+});
+
+const fakeClient = (result: { data: unknown; error: { message: string } | null }) => {
+  const rpc = vi.fn(async () => result);
+  return { client: { rpc } as QuotaClient, rpc };
+};
+
+describe('Decision parsing', () => {
+  it('should read consume_quota results', () => {
+    expect(parseQuotaDecision({
+      allowed: false,
+      reason: 'quota_exceeded',
+      limit: 20,
+      remaining: 5,
+      reset_at: '2025-12-14T10:01:00Z',
+      event_id: null,
+      budget: { limit: 500, used: 500, period_end: '2026-01-01T00:00:00Z' },
+    })).toEqual({
+      allowed: false,
+      reason: 'quota_exceeded',
+      limit: 20,
+      remaining: 5,
+      reset_at: '2025-12-14T10:01:00Z',
+      event_id: null,
+      budget: { limit: 500, used: 500, period_end: '2026-01-01T00:00:00Z' },
+    });
+  });
+
+  it('should reject anything else', () => {
+    expect(parseQuotaDecision(null)).toBeNull();
+    expect(parseQuotaDecision({ reason: 'ok' })).toBeNull();
+  });
+});
+
+describe('Rate-limit headers', () => {
+  it('should describe the per-minute window', () => {
+    expect(rateLimitHeaders(decision(), now)).toMatchObject({
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '7',
+      'RateLimit-Reset': '42',
+      'RateLimit-Policy': '10;w=60',
+    });
+    expect(rateLimitHeaders(decision(), now)['Retry-After']).toBeUndefined();
+  });
+
+  it('should send rate-limited callers back after the window', () => {
+    const headers = rateLimitHeaders(decision({ allowed: false, reason: 'rate_limited', remaining: 0 }), now);
+    expect(headers['Retry-After']).toBe('42');
+    expect(headers['Access-Control-Expose-Headers']).toContain('Retry-After');
+  });
+
+  it('should send over-budget callers back when the month turns', () => {
+    const headers = rateLimitHeaders(decision({
+      allowed: false,
+      reason: 'quota_exceeded',
+      budget: { limit: 100, used: 100, period_end: '2025-12-15T10:00:00Z' },
+    }), now);
+    expect(headers['Retry-After']).toBe('86400');
+    expect(quotaErrorBody(decision({ reason: 'quota_exceeded' })).error.code).toBe('QUOTA_EXCEEDED');
+  });
+});
+
+describe('Enforcement', () => {
+  it('should check the function policy', async () => {
+    const { client, rpc } = fakeClient({ data: decision({ allowed: false, reason: 'rate_limited' }), error: null });
+    const result = await enforceQuota(client, 'user-1', 'ask-heidi', 1, now);
+
+    expect(rpc).toHaveBeenCalledWith('consume_quota', {
+      _user_id: 'user-1',
+      _function_name: 'ask-heidi',
+      _kind: 'ai',
+      _amount: 1,
+      _per_minute: 20,
+    });
+    expect(result.allowed).toBe(false);
+    expect(result.headers['Retry-After']).toBe('42');
+  });
+
+  it('should let calls through when the quota store fails', async () => {
+    const { client } = fakeClient({ data: null, error: { message: 'connection refused' } });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await enforceQuota(client, 'user-1', 'generate-note', 1, now))
+      .toEqual({ allowed: true, decision: null, headers: {} });
+  });
+
+  it('should record the amount of an allowed call', async () => {
+    const { client, rpc } = fakeClient({ data: null, error: null });
+    await recordUsageAmount(client, { allowed: true, decision: decision(), headers: {} }, 2.5);
+    expect(rpc).toHaveBeenCalledWith('record_usage_amount', { _event_id: 'event-1', _amount: 2.5 });
+
+    rpc.mockClear();
+    await recordUsageAmount(client, { allowed: true, decision: null, headers: {} }, 2.5);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Voice Command Tests
+ * Grammar, transcript clean-up and section tagging
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseVoiceCommands } from '../src/lib/voiceCommands';
+
+const now = new Date('2025-03-10T09:00:00Z');
+
+describe('Voice commands', () => {
+  it('should recognise each command and remove it from the transcript', () => {
+    const result = parseVoiceCommands(
+      'Lungs are clear. Heidi, pause. New paragraph. Abdomen soft. Stop and generate note.',
+      now
+    );
+
+    expect(result.commands.map(c => c.type)).toEqual(['pause', 'new_paragraph', 'stop_and_generate']);
+    expect(result.text).toBe('Lungs are clear.\n\nAbdomen soft.');
+  });
+
+  it('should require the wake word for pause', () => {
+    const result = parseVoiceCommands('Pause. Take a deep breath.', now);
+    expect(result.commands).toEqual([]);
+    expect(result.text).toBe('Pause. Take a deep breath.');
+
+    expect(parseVoiceCommands('hey heidi pause the recording', now).commands).toEqual([{ type: 'pause' }]);
+  });
+
+  it('should split paragraphs into separate text items', () => {
+    const { items } = parseVoiceCommands('She reports cough. Next paragraph. No fever.', now);
+    expect(items).toEqual([
+      { type: 'text', text: 'She reports cough.' },
+      { type: 'command', command: { type: 'new_paragraph' } },
+      { type: 'text', text: 'No fever.' },
+    ]);
+  });
+
+  it('should tag the preceding text with the marked section', () => {
+    const result = parseVoiceCommands('Likely viral bronchitis. Mark this as assessment.', now);
+    expect(result.commands).toEqual([{ type: 'mark_section', section: 'assessment', target: 'previous' }]);
+    expect(result.text).toBe('[Assessment] Likely viral bronchitis.');
+  });
+
+  it('should target the previous chunk when nothing precedes the mark', () => {
+    const result = parseVoiceCommands('Heidi, mark this as the physical exam section.', now);
+    expect(result.commands).toEqual([{ type: 'mark_section', section: 'objective', target: 'previous_chunk' }]);
+    expect(result.text).toBe('');
+  });
+
+  it('should parse tasks with relative due dates', () => {
+    const [followUp] = parseVoiceCommands('Add task follow up in two weeks.', now).commands;
+    expect(followUp).toEqual({ type: 'add_task', title: 'Follow up', dueDate: '2025-03-24T09:00:00.000Z' });
+
+    const [labs] = parseVoiceCommands('Heidi create a task to order a lipid panel tomorrow', now).commands;
+    expect(labs).toEqual({ type: 'add_task', title: 'Order a lipid panel', dueDate: '2025-03-11T09:00:00.000Z' });
+
+    const [referral] = parseVoiceCommands('Add task refer to dermatology.', now).commands;
+    expect(referral).toEqual({ type: 'add_task', title: 'Refer to dermatology', dueDate: null });
+  });
+
+  it('should leave ordinary conversation untouched', () => {
+    const text = 'Doctor asked me to stop and think about it. We will mark this down as a plan for now.';
+    const result = parseVoiceCommands(text, now);
+    expect(result.commands).toEqual([]);
+    expect(result.text).toBe(text);
+  });
+});
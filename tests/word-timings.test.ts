@@ -0,0 +1,89 @@
+/**
+ * Word Timing Tests
+ * Provider normalization, alignment to the recording and playback lookup
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  alignWordsToRecording,
+  findActiveWord,
+  fromAssemblyAIWords,
+  fromDeepgramWords,
+  fromWhisperWords,
+  parseStoredWords,
+} from '../src/lib/wordTimings';
+
+describe('Provider word normalization', () => {
+  it('should convert Deepgram seconds and prefer punctuated words', () => {
+    expect(fromDeepgramWords([
+      { word: 'chest', punctuated_word: 'Chest', start: 1.2, end: 1.5, confidence: 0.98 },
+      { word: 'pain', punctuated_word: 'pain.', start: 1.5, end: 1.9, confidence: 0.95 },
+    ])).toEqual([
+      { text: 'Chest', start: 1200, end: 1500, confidence: 0.98 },
+      { text: 'pain.', start: 1500, end: 1900, confidence: 0.95 },
+    ]);
+  });
+
+  it('should keep AssemblyAI milliseconds as they are', () => {
+    expect(fromAssemblyAIWords([{ text: 'Metformin', start: 3040, end: 3610, confidence: 0.9 }])).toEqual([
+      { text: 'Metformin', start: 3040, end: 3610, confidence: 0.9 },
+    ]);
+  });
+
+  it('should convert Whisper seconds and drop empty or malformed words', () => {
+    expect(fromWhisperWords([
+      { word: ' twice', start: 0.5, end: 0.82 },
+      { word: ' ', start: 0.82, end: 0.9 },
+      { word: 'daily', start: 1.1, end: 0.9 },
+    ])).toEqual([{ text: 'twice', start: 500, end: 820 }]);
+    expect(fromWhisperWords(undefined)).toEqual([]);
+  });
+});
+
+describe('Recording alignment', () => {
+  it('should shift word times from the provider clock onto the recording', () => {
+    const timing = {
+      startedAt: 10_000,
+      words: [
+        { text: 'early', start: 100, end: 300 },
+        { text: 'Hello', start: 2_000, end: 2_400 },
+      ],
+    };
+
+    // Streaming started 0.5s after the recorder
+    expect(alignWordsToRecording(timing, 9_500)).toEqual([
+      { text: 'early', start: 600, end: 800 },
+      { text: 'Hello', start: 2_500, end: 2_900 },
+    ]);
+    // Streaming started before the recorder; words before it have no audio
+    expect(alignWordsToRecording(timing, 10_500)).toEqual([{ text: 'Hello', start: 1_500, end: 1_900 }]);
+  });
+});
+
+describe('Playback lookup', () => {
+  const words = [
+    { start: 0, end: 400 },
+    { start: 500, end: 900 },
+    { start: 5_000, end: 5_300 },
+  ];
+
+  it('should find the word being spoken and hold it through short pauses', () => {
+    expect(findActiveWord(words, 200)).toBe(0);
+    expect(findActiveWord(words, 450)).toBe(0);
+    expect(findActiveWord(words, 900)).toBe(1);
+    expect(findActiveWord(words, 5_100)).toBe(2);
+  });
+
+  it('should highlight nothing before the first word or during long silences', () => {
+    expect(findActiveWord([{ start: 300, end: 500 }], 100)).toBe(-1);
+    expect(findActiveWord(words, 3_000)).toBe(-1);
+    expect(findActiveWord([], 0)).toBe(-1);
+  });
+
+  it('should read only well-formed words from the database', () => {
+    expect(parseStoredWords([{ text: 'ok', start: 1, end: 2 }, { text: 'bad' }, null])).toEqual([
+      { text: 'ok', start: 1, end: 2 },
+    ]);
+    expect(parseStoredWords(null)).toEqual([]);
+  });
+});